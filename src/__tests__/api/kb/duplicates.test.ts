@@ -0,0 +1,221 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIContext } from "astro";
+import { GET } from "../../../pages/api/kb/entries/[id]/duplicates";
+import { POST } from "../../../pages/api/kb/entries/[id]/merge";
+
+const ENTRY_ID = "33333333-3333-4333-8333-333333333333";
+const OTHER_ID = "44444444-4444-4444-8444-444444444444";
+
+const admin = { id: "admin-1", email: "admin@example.com", role: "admin" };
+const member = { id: "user-1", email: "user@example.com", role: "user" };
+
+function createAPIContext(
+  request: Request,
+  params: Record<string, string>,
+  locals: Record<string, unknown>,
+): APIContext {
+  return {
+    request,
+    url: new URL(request.url),
+    params,
+    locals,
+  } as unknown as APIContext;
+}
+
+function mergeRequest(body: unknown) {
+  return new Request(`http://localhost:4321/api/kb/entries/${ENTRY_ID}/merge`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("KB duplicates API", () => {
+  /* eslint-disable @typescript-eslint/no-explicit-any */
+  let results: { data: unknown; error: unknown }[];
+  let mockQueryBuilder: any;
+  let mockSupabase: any;
+
+  const duplicate = {
+    id: OTHER_ID,
+    user_id: "user-2",
+    title: "Postman tips",
+    url_original: "https://example.com/postman",
+    is_public: true,
+    match: "url",
+    similarity: 1,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    results = [];
+    const next = () => Promise.resolve(results.shift());
+    mockQueryBuilder = {};
+    for (const method of ["select", "eq"]) {
+      mockQueryBuilder[method] = vi.fn(() => mockQueryBuilder);
+    }
+    mockQueryBuilder.single = vi.fn(() => next());
+    mockSupabase = {
+      from: vi.fn(() => mockQueryBuilder),
+      rpc: vi.fn(() => next()),
+    };
+  });
+
+  describe("GET /api/kb/entries/[id]/duplicates", () => {
+    it("should list possible duplicates of a visible entry", async () => {
+      results.push(
+        {
+          data: {
+            id: ENTRY_ID,
+            title: "Postman tips",
+            url_original: "https://www.example.com/postman/",
+          },
+          error: null,
+        },
+        { data: [duplicate], error: null },
+      );
+
+      const response = await GET(
+        createAPIContext(
+          new Request(
+            `http://localhost:4321/api/kb/entries/${ENTRY_ID}/duplicates`,
+          ),
+          { id: ENTRY_ID },
+          { supabase: mockSupabase, user: null },
+        ),
+      );
+      const body = (await response.json()) as any;
+
+      expect(response.status).toBe(200);
+      expect(body.items).toEqual([duplicate]);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("find_kb_duplicates", {
+        url_input: "https://www.example.com/postman/",
+        title_input: "Postman tips",
+        exclude_id: ENTRY_ID,
+      });
+    });
+
+    it("should return 404 when the entry is not visible", async () => {
+      results.push({
+        data: null,
+        error: { code: "PGRST116", message: "No rows" },
+      });
+
+      const response = await GET(
+        createAPIContext(
+          new Request(
+            `http://localhost:4321/api/kb/entries/${ENTRY_ID}/duplicates`,
+          ),
+          { id: ENTRY_ID },
+          { supabase: mockSupabase, user: null },
+        ),
+      );
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should return 400 for an invalid id", async () => {
+      const response = await GET(
+        createAPIContext(
+          new Request("http://localhost:4321/api/kb/entries/nope/duplicates"),
+          { id: "nope" },
+          { supabase: mockSupabase, user: null },
+        ),
+      );
+
+      expect(response.status).toBe(400);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /api/kb/entries/[id]/merge", () => {
+    it("should merge entries for admins", async () => {
+      results.push({
+        data: {
+          id: ENTRY_ID,
+          user_id: "admin-1",
+          title: "Postman tips",
+          url_original: "https://example.com/postman",
+          url_canonical: "example.com/postman",
+          tags: ["api", "tools"],
+          is_public: true,
+          created_at: "2025-01-01T10:00:00.000Z",
+          updated_at: "2025-03-01T10:00:00.000Z",
+        },
+        error: null,
+      });
+
+      const response = await POST(
+        createAPIContext(
+          mergeRequest({ source_ids: [OTHER_ID] }),
+          { id: ENTRY_ID },
+          { supabase: mockSupabase, user: admin },
+        ),
+      );
+      const body = (await response.json()) as any;
+
+      expect(response.status).toBe(200);
+      expect(body.data.tags).toEqual(["api", "tools"]);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("merge_kb_entries", {
+        target_id: ENTRY_ID,
+        source_ids: [OTHER_ID],
+      });
+    });
+
+    it("should return 401 for anonymous users", async () => {
+      const response = await POST(
+        createAPIContext(
+          mergeRequest({ source_ids: [OTHER_ID] }),
+          { id: ENTRY_ID },
+          { supabase: mockSupabase, user: null },
+        ),
+      );
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should return 403 for non-admins", async () => {
+      const response = await POST(
+        createAPIContext(
+          mergeRequest({ source_ids: [OTHER_ID] }),
+          { id: ENTRY_ID },
+          { supabase: mockSupabase, user: member },
+        ),
+      );
+      const body = (await response.json()) as any;
+
+      expect(response.status).toBe(403);
+      expect(body.error.code).toBe("FORBIDDEN");
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 without source ids", async () => {
+      const response = await POST(
+        createAPIContext(
+          mergeRequest({ source_ids: [] }),
+          { id: ENTRY_ID },
+          { supabase: mockSupabase, user: admin },
+        ),
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 404 when a merged entry is missing", async () => {
+      results.push({
+        data: null,
+        error: { code: "P0002", message: "Entry not found" },
+      });
+
+      const response = await POST(
+        createAPIContext(
+          mergeRequest({ source_ids: [OTHER_ID] }),
+          { id: ENTRY_ID },
+          { supabase: mockSupabase, user: admin },
+        ),
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
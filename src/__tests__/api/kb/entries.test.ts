@@ -403,6 +403,137 @@ describe("GET /api/kb/entries", () => {
     expect(body.error.code).toBe("CONFIGURATION_ERROR");
     expect(body.error.message).toBe("Supabase client not available");
   });
+
+  describe("search and filters", () => {
+    beforeEach(() => {
+      mockQueryBuilder.contains = vi.fn().mockReturnThis();
+      mockQueryBuilder.overlaps = vi.fn().mockReturnThis();
+      mockQueryBuilder.limit.mockResolvedValue({ data: [], error: null });
+      mockSupabase.rpc = vi.fn().mockResolvedValue({ data: [], error: null });
+    });
+
+    async function get(
+      query: string,
+      user: { id: string; email: string } | null = null,
+    ) {
+      const request = new Request(
+        `http://localhost:4321/api/kb/entries?${query}`,
+      );
+      return GET(createAPIContext(request, { supabase: mockSupabase, user }));
+    }
+
+    it("should search with q through the ranked search function", async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [
+          {
+            id: "11111111-1111-4111-8111-111111111111",
+            user_id: "user-1",
+            title: "Flaky tests",
+            url_original: "https://example.com/1",
+            url_canonical: "https://example.com/1",
+            tags: ["ci"],
+            is_public: true,
+            created_at: "2024-01-01T00:00:00Z",
+            updated_at: "2024-01-01T00:00:00Z",
+            rank: 0.0759909,
+            snippet: "Flaky <mark>tests</mark>",
+          },
+        ],
+        error: null,
+      });
+
+      const response = await get("q=tests&tags=ci,api&tag_match=all");
+      const body = (await response.json()) as any;
+
+      expect(response.status).toBe(200);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith(
+        "search_kb_entries",
+        expect.objectContaining({
+          search_query: "tests",
+          tag_filter: ["ci", "api"],
+          match_all_tags: true,
+          sort_by: "relevance",
+          page_size: 21,
+        }),
+      );
+      expect(body.items[0].snippet).toBe("Flaky <mark>tests</mark>");
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+
+    it("should treat an empty q as no search", async () => {
+      const response = await get("q=%20&tags=api");
+
+      expect(response.status).toBe(200);
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+      expect(mockQueryBuilder.overlaps).toHaveBeenCalledWith("tags", ["api"]);
+    });
+
+    it("should sort by title", async () => {
+      const response = await get("sort=title");
+
+      expect(response.status).toBe(200);
+      expect(mockQueryBuilder.order).toHaveBeenCalledWith("title", {
+        ascending: true,
+      });
+    });
+
+    it("should reject sort=relevance without q", async () => {
+      const response = await get("sort=relevance");
+      const body = (await response.json()) as any;
+
+      expect(response.status).toBe(400);
+      expect(body.error.code).toBe("VALIDATION_ERROR");
+      expect(body.error.details.sort).toBe(
+        "Sorting by relevance requires a search query",
+      );
+    });
+
+    it("should report invalid parameters as a field map", async () => {
+      const response = await get("limit=0&owner=others");
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid input",
+          details: {
+            limit: expect.any(String),
+            owner: expect.any(String),
+          },
+        },
+      });
+    });
+
+    it("should reject a cursor from another sort", async () => {
+      const response = await get("sort=title&after=2024-01-01T00:00:00Z,x");
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should reject unknown owner and tag_match values", async () => {
+      expect((await get("owner=others")).status).toBe(400);
+      expect((await get("tag_match=some")).status).toBe(400);
+    });
+
+    it("should require authentication for owner=me", async () => {
+      const response = await get("owner=me");
+      const body = (await response.json()) as any;
+
+      expect(response.status).toBe(401);
+      expect(body.error.code).toBe("UNAUTHENTICATED");
+    });
+
+    it("should list own entries for owner=me", async () => {
+      const response = await get("owner=me", {
+        id: "user-123",
+        email: "user@example.com",
+      });
+
+      expect(response.status).toBe(200);
+      expect(mockQueryBuilder.eq).toHaveBeenCalledWith("user_id", "user-123");
+      expect(mockQueryBuilder.or).not.toHaveBeenCalled();
+    });
+  });
 });
 
 describe("POST /api/kb/entries", () => {
@@ -420,6 +551,8 @@ describe("POST /api/kb/entries", () => {
 
     mockSupabase = {
       from: vi.fn().mockReturnValue(mockQueryBuilder),
+      // Duplicate check: no similar entries
+      rpc: vi.fn().mockResolvedValue({ data: [], error: null }),
     };
   });
 
@@ -677,4 +810,112 @@ describe("POST /api/kb/entries", () => {
     expect(response.status).toBe(400);
     expect(body.error.code).toBe("VALIDATION_ERROR");
   });
+
+  describe("duplicate detection", () => {
+    const duplicate = {
+      id: "other-entry",
+      user_id: "admin-1",
+      title: "New Entry",
+      url_original: "https://www.example.com/new/",
+      is_public: true,
+      match: "url",
+      similarity: 1,
+    };
+
+    function createRequest(extra: Record<string, unknown> = {}) {
+      return new Request("http://localhost:4321/api/kb/entries", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title: "New Entry",
+          url_original: "https://example.com/new",
+          ...extra,
+        }),
+      });
+    }
+
+    const locals = () => ({
+      supabase: mockSupabase,
+      user: { id: "user-123", email: "user@example.com" },
+    });
+
+    it("should report possible duplicates before saving", async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: [duplicate], error: null });
+
+      const response = await POST(createAPIContext(createRequest(), locals()));
+      const body = (await response.json()) as any;
+
+      expect(response.status).toBe(409);
+      expect(body.error.code).toBe("CONFLICT");
+      expect(body.error.message).toBe("Possible duplicates found");
+      expect(body.error.details.duplicates).toEqual([duplicate]);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("find_kb_duplicates", {
+        url_input: "https://example.com/new",
+        title_input: "New Entry",
+      });
+      expect(mockQueryBuilder.insert).not.toHaveBeenCalled();
+    });
+
+    it("should save anyway with allow_duplicates", async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{ ...duplicate, match: "title", similarity: 0.8 }],
+        error: null,
+      });
+      mockQueryBuilder.single.mockResolvedValue({
+        data: { id: "new-entry-id", title: "New Entry" },
+        error: null,
+      });
+
+      const response = await POST(
+        createAPIContext(createRequest({ allow_duplicates: true }), locals()),
+      );
+
+      expect(response.status).toBe(201);
+      expect(mockQueryBuilder.insert).toHaveBeenCalledWith(
+        expect.not.objectContaining({ allow_duplicates: true }),
+      );
+    });
+
+    it("should always reject a link already in the user's own KB", async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{ ...duplicate, user_id: "user-123", is_public: false }],
+        error: null,
+      });
+
+      const response = await POST(
+        createAPIContext(createRequest({ allow_duplicates: true }), locals()),
+      );
+      const body = (await response.json()) as any;
+
+      expect(response.status).toBe(409);
+      expect(body.error.message).toBe("You already saved this link");
+      expect(mockQueryBuilder.insert).not.toHaveBeenCalled();
+    });
+
+    it("should map a unique violation on insert to 409", async () => {
+      mockQueryBuilder.single.mockResolvedValue({
+        data: null,
+        error: { code: "23505", message: "duplicate key value" },
+      });
+
+      const response = await POST(createAPIContext(createRequest(), locals()));
+      const body = (await response.json()) as any;
+
+      expect(response.status).toBe(409);
+      expect(body.error.message).toBe("You already saved this link");
+    });
+
+    it("should return 500 when the duplicate check fails", async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: null,
+        error: { message: "function missing" },
+      });
+
+      const response = await POST(createAPIContext(createRequest(), locals()));
+      const body = (await response.json()) as any;
+
+      expect(response.status).toBe(500);
+      expect(body.error.code).toBe("DATABASE_ERROR");
+    });
+  });
 });
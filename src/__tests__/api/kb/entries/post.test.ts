@@ -75,6 +75,7 @@ describe("POST /api/kb/entries - admin restrictions", () => {
 
     mockSupabase = {
       from: vi.fn().mockReturnValue(mockQueryBuilder),
+      rpc: vi.fn().mockResolvedValue({ data: [], error: null }),
     };
   });
 
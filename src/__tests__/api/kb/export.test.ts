@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIContext } from "astro";
+
+vi.mock("@/features", () => ({
+  isFeatureEnabled: vi.fn(() => true),
+}));
+
+import { GET } from "../../../pages/api/kb/export";
+import { isFeatureEnabled } from "@/features";
+
+const member = { id: "user-1", email: "user@example.com", role: "user" };
+
+function createAPIContext(
+  request: Request,
+  locals: Record<string, unknown>,
+): APIContext {
+  return {
+    request,
+    url: new URL(request.url),
+    params: {},
+    locals,
+  } as unknown as APIContext;
+}
+
+function exportRequest(query = "") {
+  return new Request(`http://localhost:4321/api/kb/export${query}`);
+}
+
+describe("GET /api/kb/export", () => {
+  /* eslint-disable @typescript-eslint/no-explicit-any */
+  let results: { data: unknown; error: unknown }[];
+  let mockQueryBuilder: any;
+  let mockSupabase: any;
+
+  const entry = {
+    id: "entry-1",
+    user_id: "user-1",
+    title: "API guide",
+    url_original: "https://example.com/api",
+    url_canonical: "example.com/api",
+    tags: ["api"],
+    is_public: false,
+    search_vector: "'api'",
+    created_at: "2025-01-01T00:00:00.000Z",
+    updated_at: "2025-01-01T00:00:00.000Z",
+    kb_notes: [
+      {
+        id: "note-1",
+        entry_id: "entry-1",
+        user_id: "user-1",
+        body: "Read **twice**",
+        created_at: "2025-01-02T00:00:00.000Z",
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(isFeatureEnabled).mockReturnValue(true);
+    results = [];
+    const next = () => Promise.resolve(results.shift());
+    mockQueryBuilder = {};
+    for (const method of ["select", "eq", "order", "range"]) {
+      mockQueryBuilder[method] = vi.fn(() => mockQueryBuilder);
+    }
+    mockQueryBuilder.then = (resolve: (value: unknown) => unknown) =>
+      next().then(resolve);
+    mockSupabase = { from: vi.fn(() => mockQueryBuilder) };
+  });
+
+  it("should export own entries and notes as JSON by default", async () => {
+    results.push({ data: [entry], error: null });
+
+    const response = await GET(
+      createAPIContext(exportRequest(), {
+        supabase: mockSupabase,
+        user: member,
+      }),
+    );
+    const body = (await response.json()) as any;
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("application/json");
+    expect(response.headers.get("Content-Disposition")).toMatch(
+      /^attachment; filename="kb-export-\d{4}-\d{2}-\d{2}\.json"$/,
+    );
+    expect(response.headers.get("Cache-Control")).toBe("no-store");
+    expect(mockQueryBuilder.eq).toHaveBeenCalledWith("user_id", "user-1");
+    expect(body.entries).toHaveLength(1);
+    expect(body.entries[0]).not.toHaveProperty("search_vector");
+    expect(body.notes).toEqual(entry.kb_notes);
+  });
+
+  it("should export Markdown and bookmark HTML", async () => {
+    results.push(
+      { data: [entry], error: null },
+      { data: [entry], error: null },
+    );
+
+    const md = await GET(
+      createAPIContext(exportRequest("?format=md"), {
+        supabase: mockSupabase,
+        user: member,
+      }),
+    );
+    expect(md.headers.get("Content-Type")).toBe("text/markdown; charset=utf-8");
+    expect(await md.text()).toContain(
+      "## [API guide](https://example.com/api)\n\nTags: api\n\n> Read **twice**",
+    );
+
+    const html = await GET(
+      createAPIContext(exportRequest("?format=html"), {
+        supabase: mockSupabase,
+        user: member,
+      }),
+    );
+    expect(html.headers.get("Content-Disposition")).toMatch(/\.html"$/);
+    expect(await html.text()).toContain(
+      '<A HREF="https://example.com/api" ADD_DATE="1735689600" LAST_MODIFIED="1735689600" TAGS="api">API guide</A>',
+    );
+  });
+
+  it("should reject unknown formats", async () => {
+    const response = await GET(
+      createAPIContext(exportRequest("?format=csv"), {
+        supabase: mockSupabase,
+        user: member,
+      }),
+    );
+    const body = (await response.json()) as any;
+
+    expect(response.status).toBe(400);
+    expect(body.error.code).toBe("VALIDATION_ERROR");
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+  });
+
+  it("should require authentication", async () => {
+    const response = await GET(
+      createAPIContext(exportRequest(), { supabase: mockSupabase, user: null }),
+    );
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should return 404 when the feature is disabled", async () => {
+    vi.mocked(isFeatureEnabled).mockReturnValue(false);
+
+    const response = await GET(
+      createAPIContext(exportRequest(), {
+        supabase: mockSupabase,
+        user: member,
+      }),
+    );
+    const body = (await response.json()) as any;
+
+    expect(response.status).toBe(404);
+    expect(body.error.code).toBe("FEATURE_DISABLED");
+    expect(isFeatureEnabled).toHaveBeenCalledWith("collections.export");
+  });
+});
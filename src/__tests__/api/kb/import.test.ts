@@ -0,0 +1,236 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIContext } from "astro";
+
+vi.mock("@/features", () => ({
+  isFeatureEnabled: vi.fn(() => true),
+}));
+
+import { POST } from "../../../pages/api/kb/import";
+import { isFeatureEnabled } from "@/features";
+
+const member = { id: "user-1", email: "user@example.com", role: "user" };
+
+function createAPIContext(
+  request: Request,
+  locals: Record<string, unknown>,
+): APIContext {
+  return {
+    request,
+    url: new URL(request.url),
+    params: {},
+    locals,
+  } as unknown as APIContext;
+}
+
+function importRequest(body: string, contentType: string, query = "") {
+  return new Request(`http://localhost:4321/api/kb/import${query}`, {
+    method: "POST",
+    headers: { "Content-Type": contentType },
+    body,
+  });
+}
+
+describe("POST /api/kb/import", () => {
+  /* eslint-disable @typescript-eslint/no-explicit-any */
+  let results: { data: unknown; error: unknown }[];
+  let mockQueryBuilder: any;
+  let mockSupabase: any;
+  let locals: Record<string, unknown>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(isFeatureEnabled).mockReturnValue(true);
+    results = [];
+    const next = () => Promise.resolve(results.shift());
+    mockQueryBuilder = {};
+    for (const method of ["select", "eq", "in", "insert"]) {
+      mockQueryBuilder[method] = vi.fn(() => mockQueryBuilder);
+    }
+    mockQueryBuilder.single = vi.fn(() => next());
+    mockQueryBuilder.then = (resolve: (value: unknown) => unknown) =>
+      next().then(resolve);
+    mockSupabase = { from: vi.fn(() => mockQueryBuilder) };
+    locals = { supabase: mockSupabase, user: member };
+  });
+
+  it("should import a JSON export and report every row", async () => {
+    results.push(
+      {
+        data: [{ id: "old-1", url_canonical: "example.com/old" }],
+        error: null,
+      },
+      { data: [{ id: "new-1" }], error: null },
+      { data: null, error: null },
+    );
+    const body = JSON.stringify({
+      entries: [
+        {
+          id: "a",
+          title: "New",
+          url_original: "https://example.com/new",
+          tags: ["api"],
+          is_public: true,
+        },
+        { id: "b", title: "Old", url_original: "https://example.com/old/" },
+        { id: "c", title: "Broken", url_original: "not a url" },
+      ],
+      notes: [{ entry_id: "a", body: "Imported note" }],
+    });
+
+    const response = await POST(
+      createAPIContext(importRequest(body, "application/json"), locals),
+    );
+    const report = (await response.json()) as any;
+
+    expect(response.status).toBe(200);
+    expect(report.summary).toEqual({
+      total: 3,
+      created: 1,
+      skipped: 1,
+      failed: 1,
+    });
+    expect(report.results.map((r: any) => [r.row, r.status])).toEqual([
+      [1, "created"],
+      [2, "skipped"],
+      [3, "failed"],
+    ]);
+    expect(mockQueryBuilder.insert).toHaveBeenNthCalledWith(1, [
+      expect.objectContaining({
+        user_id: "user-1",
+        title: "New",
+        tags: ["api"],
+        is_public: false,
+      }),
+    ]);
+    expect(mockQueryBuilder.insert).toHaveBeenNthCalledWith(2, [
+      { entry_id: "new-1", user_id: "user-1", body: "Imported note" },
+    ]);
+  });
+
+  it("should map bookmark folders to tags", async () => {
+    results.push(
+      { data: [], error: null },
+      { data: [{ id: "new-1" }], error: null },
+    );
+    const html = `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<DL><p>
+  <DT><H3>Testing</H3>
+  <DL><p>
+    <DT><A HREF="https://playwright.dev">Playwright</A>
+  </DL><p>
+</DL><p>`;
+
+    const response = await POST(
+      createAPIContext(importRequest(html, "application/octet-stream"), locals),
+    );
+    const report = (await response.json()) as any;
+
+    expect(response.status).toBe(200);
+    expect(report.results[0]).toMatchObject({
+      row: 5,
+      title: "Playwright",
+      status: "created",
+    });
+    expect(mockQueryBuilder.insert).toHaveBeenCalledWith([
+      expect.objectContaining({
+        url_original: "https://playwright.dev",
+        tags: ["Testing"],
+      }),
+    ]);
+  });
+
+  it("should take the format from the query string", async () => {
+    results.push(
+      { data: [], error: null },
+      { data: [{ id: "new-1" }], error: null },
+    );
+
+    const response = await POST(
+      createAPIContext(
+        importRequest(
+          "- [Docs](https://docs.example.com)",
+          "text/plain",
+          "?format=md",
+        ),
+        locals,
+      ),
+    );
+    const report = (await response.json()) as any;
+
+    expect(response.status).toBe(200);
+    expect(report.summary.created).toBe(1);
+  });
+
+  it("should reject files without entries", async () => {
+    const response = await POST(
+      createAPIContext(
+        importRequest("# Nothing here", "text/markdown"),
+        locals,
+      ),
+    );
+    const body = (await response.json()) as any;
+
+    expect(response.status).toBe(400);
+    expect(body.error.message).toBe("Import file contains no entries");
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+  });
+
+  it("should reject invalid JSON", async () => {
+    const response = await POST(
+      createAPIContext(importRequest("{oops", "application/json"), locals),
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should reject JSON without an entries array", async () => {
+    const response = await POST(
+      createAPIContext(
+        importRequest('{"items": []}', "application/json"),
+        locals,
+      ),
+    );
+    const body = (await response.json()) as any;
+
+    expect(response.status).toBe(400);
+    expect(body.error.code).toBe("VALIDATION_ERROR");
+  });
+
+  it("should reject more than 1000 entries", async () => {
+    const entries = Array.from({ length: 1001 }, (_, i) => ({
+      title: `E${i}`,
+      url_original: `https://example.com/${i}`,
+    }));
+
+    const response = await POST(
+      createAPIContext(
+        importRequest(JSON.stringify(entries), "application/json"),
+        locals,
+      ),
+    );
+
+    expect(response.status).toBe(400);
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+  });
+
+  it("should require authentication", async () => {
+    const response = await POST(
+      createAPIContext(importRequest("[]", "application/json"), {
+        supabase: mockSupabase,
+        user: null,
+      }),
+    );
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should return 404 when the feature is disabled", async () => {
+    vi.mocked(isFeatureEnabled).mockReturnValue(false);
+
+    const response = await POST(
+      createAPIContext(importRequest("[]", "application/json"), locals),
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
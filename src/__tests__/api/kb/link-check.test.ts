@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { APIContext } from "astro";
+import { POST } from "../../../pages/api/kb/link-check";
+import { StubLinkFetcher } from "../../../lib/utils/link-fetch-stub";
+
+const ENTRY_ID = "33333333-3333-4333-8333-333333333333";
+const OTHER_ID = "44444444-4444-4444-8444-444444444444";
+
+const admin = { id: "admin-1", email: "admin@example.com", role: "admin" };
+const member = { id: "user-1", email: "user@example.com", role: "user" };
+
+function createAPIContext(
+  request: Request,
+  locals: Record<string, unknown>,
+): APIContext {
+  return {
+    request,
+    url: new URL(request.url),
+    params: {},
+    locals,
+  } as unknown as APIContext;
+}
+
+function linkCheckRequest(body?: unknown) {
+  return new Request("http://localhost:4321/api/kb/link-check", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+describe("POST /api/kb/link-check", () => {
+  /* eslint-disable @typescript-eslint/no-explicit-any */
+  let results: { data: unknown; error: unknown }[];
+  let mockQueryBuilder: any;
+  let mockSupabase: any;
+  let stub: StubLinkFetcher;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    results = [];
+    const next = () => Promise.resolve(results.shift());
+    mockQueryBuilder = {};
+    for (const method of [
+      "select",
+      "update",
+      "eq",
+      "in",
+      "or",
+      "order",
+      "limit",
+    ]) {
+      mockQueryBuilder[method] = vi.fn(() => mockQueryBuilder);
+    }
+    mockQueryBuilder.then = (
+      resolve: (value: unknown) => unknown,
+      reject: (reason: unknown) => unknown,
+    ) => next().then(resolve, reject);
+    mockSupabase = { from: vi.fn(() => mockQueryBuilder) };
+
+    stub = new StubLinkFetcher({
+      routes: {
+        "https://example.com/gone": 404,
+        "https://example.com/old": {
+          status: 301,
+          location: "https://example.com/new",
+        },
+      },
+    });
+    vi.stubGlobal("fetch", stub.fetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should check due entries and return the report", async () => {
+    results.push(
+      {
+        data: [
+          { id: ENTRY_ID, url_original: "https://example.com/gone" },
+          { id: OTHER_ID, url_original: "https://example.com/old" },
+        ],
+        error: null,
+      },
+      { data: null, error: null },
+      { data: null, error: null },
+    );
+
+    const response = await POST(
+      createAPIContext(linkCheckRequest(), {
+        supabase: mockSupabase,
+        user: admin,
+      }),
+    );
+
+    expect(response.status).toBe(200);
+    const body = (await response.json()) as any;
+    expect(body).toMatchObject({ checked: 2, broken: 1, moved: 1 });
+    expect(body.results.map((result: any) => result.health)).toEqual([
+      "broken",
+      "moved",
+    ]);
+    expect(mockSupabase.from).toHaveBeenCalledWith("kb_entries");
+    expect(mockQueryBuilder.limit).toHaveBeenCalledWith(20);
+    expect(stub.requests.map((request) => request.url)).toEqual([
+      "https://example.com/gone",
+      "https://example.com/old",
+      "https://example.com/new",
+    ]);
+  });
+
+  it("should check only the requested entries", async () => {
+    results.push(
+      {
+        data: [{ id: ENTRY_ID, url_original: "https://example.com/ok" }],
+        error: null,
+      },
+      { data: null, error: null },
+    );
+
+    const response = await POST(
+      createAPIContext(linkCheckRequest({ entry_ids: [ENTRY_ID] }), {
+        supabase: mockSupabase,
+        user: admin,
+      }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(mockQueryBuilder.in).toHaveBeenCalledWith("id", [ENTRY_ID]);
+    expect(((await response.json()) as any).results[0].health).toBe("ok");
+  });
+
+  it("should return 400 for invalid entry IDs", async () => {
+    const response = await POST(
+      createAPIContext(linkCheckRequest({ entry_ids: ["not-a-uuid"] }), {
+        supabase: mockSupabase,
+        user: admin,
+      }),
+    );
+
+    expect(response.status).toBe(400);
+    expect(((await response.json()) as any).error.code).toBe(
+      "VALIDATION_ERROR",
+    );
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+  });
+
+  it("should return 403 for users who are not admins", async () => {
+    const response = await POST(
+      createAPIContext(linkCheckRequest(), {
+        supabase: mockSupabase,
+        user: member,
+      }),
+    );
+
+    expect(response.status).toBe(403);
+    expect(((await response.json()) as any).error.code).toBe("FORBIDDEN");
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  it("should return 401 for anonymous users", async () => {
+    const response = await POST(
+      createAPIContext(linkCheckRequest(), { supabase: mockSupabase }),
+    );
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,270 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIContext } from "astro";
+import { GET, POST } from "../../../pages/api/kb/entries/[id]/notes/index";
+import { PUT, DELETE } from "../../../pages/api/kb/entries/[id]/notes/[noteId]";
+
+const ENTRY_ID = "33333333-3333-4333-8333-333333333333";
+const NOTE_ID = "44444444-4444-4444-8444-444444444444";
+
+const member = { id: "user-1", email: "user@example.com", role: "user" };
+
+function createAPIContext(
+  request: Request,
+  params: Record<string, string>,
+  locals: Record<string, unknown>,
+): APIContext {
+  return {
+    request,
+    url: new URL(request.url),
+    params,
+    locals,
+  } as unknown as APIContext;
+}
+
+function jsonRequest(method: string, body: unknown, path = "") {
+  return new Request(
+    `http://localhost:4321/api/kb/entries/${ENTRY_ID}/notes${path}`,
+    {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    },
+  );
+}
+
+describe("KB notes API", () => {
+  /* eslint-disable @typescript-eslint/no-explicit-any */
+  let results: { data: unknown; error: unknown }[];
+  let mockQueryBuilder: any;
+  let mockSupabase: any;
+
+  const note = {
+    id: NOTE_ID,
+    entry_id: ENTRY_ID,
+    user_id: "user-1",
+    body: "Steps in `README`",
+    created_at: "2025-03-01T10:00:00.000Z",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    results = [];
+    const next = () => Promise.resolve(results.shift());
+    mockQueryBuilder = {};
+    for (const method of [
+      "select",
+      "eq",
+      "or",
+      "order",
+      "limit",
+      "insert",
+      "update",
+      "delete",
+    ]) {
+      mockQueryBuilder[method] = vi.fn(() => mockQueryBuilder);
+    }
+    mockQueryBuilder.single = vi.fn(() => next());
+    mockQueryBuilder.then = (resolve: (value: unknown) => unknown) =>
+      next().then(resolve);
+    mockSupabase = { from: vi.fn(() => mockQueryBuilder) };
+  });
+
+  describe("GET /api/kb/entries/[id]/notes", () => {
+    it("should list notes of a visible entry for anonymous users", async () => {
+      results.push(
+        {
+          data: { id: ENTRY_ID, user_id: "admin-1", is_public: true },
+          error: null,
+        },
+        { data: [note], error: null },
+      );
+
+      const response = await GET(
+        createAPIContext(
+          new Request(
+            `http://localhost:4321/api/kb/entries/${ENTRY_ID}/notes?limit=10`,
+          ),
+          { id: ENTRY_ID },
+          { supabase: mockSupabase, user: null },
+        ),
+      );
+      const body = (await response.json()) as any;
+
+      expect(response.status).toBe(200);
+      expect(body.items).toEqual([note]);
+      expect(body.next_cursor).toBeUndefined();
+      expect(mockQueryBuilder.limit).toHaveBeenCalledWith(11);
+    });
+
+    it("should return 404 when the entry is not visible", async () => {
+      results.push({
+        data: null,
+        error: { code: "PGRST116", message: "No rows" },
+      });
+
+      const response = await GET(
+        createAPIContext(
+          new Request(`http://localhost:4321/api/kb/entries/${ENTRY_ID}/notes`),
+          { id: ENTRY_ID },
+          { supabase: mockSupabase, user: null },
+        ),
+      );
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should reject an invalid entry id", async () => {
+      const response = await GET(
+        createAPIContext(
+          new Request("http://localhost:4321/api/kb/entries/abc/notes"),
+          { id: "abc" },
+          { supabase: mockSupabase, user: null },
+        ),
+      );
+
+      expect(response.status).toBe(400);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /api/kb/entries/[id]/notes", () => {
+    it("should require authentication", async () => {
+      const response = await POST(
+        createAPIContext(
+          jsonRequest("POST", { body: "hi" }),
+          { id: ENTRY_ID },
+          { supabase: mockSupabase, user: null },
+        ),
+      );
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should reject an empty body", async () => {
+      const response = await POST(
+        createAPIContext(
+          jsonRequest("POST", { body: "   " }),
+          { id: ENTRY_ID },
+          { supabase: mockSupabase, user: member },
+        ),
+      );
+      const body = (await response.json()) as any;
+
+      expect(response.status).toBe(400);
+      expect(body.error.code).toBe("VALIDATION_ERROR");
+    });
+
+    it("should create a note on the user's private entry", async () => {
+      results.push(
+        {
+          data: { id: ENTRY_ID, user_id: "user-1", is_public: false },
+          error: null,
+        },
+        { data: note, error: null },
+      );
+
+      const response = await POST(
+        createAPIContext(
+          jsonRequest("POST", { body: "  Steps in `README`  " }),
+          { id: ENTRY_ID },
+          { supabase: mockSupabase, user: member },
+        ),
+      );
+      const body = (await response.json()) as any;
+
+      expect(response.status).toBe(201);
+      expect(body.data).toEqual(note);
+      expect(mockQueryBuilder.insert).toHaveBeenCalledWith({
+        entry_id: ENTRY_ID,
+        user_id: "user-1",
+        body: "Steps in `README`",
+      });
+    });
+
+    it("should return 403 for a public entry", async () => {
+      results.push({
+        data: { id: ENTRY_ID, user_id: "admin-1", is_public: true },
+        error: null,
+      });
+
+      const response = await POST(
+        createAPIContext(
+          jsonRequest("POST", { body: "hi" }),
+          { id: ENTRY_ID },
+          { supabase: mockSupabase, user: member },
+        ),
+      );
+      const body = (await response.json()) as any;
+
+      expect(response.status).toBe(403);
+      expect(body.error.message).toBe(
+        "Only admins can add notes to public KB entries",
+      );
+    });
+  });
+
+  describe("PUT/DELETE /api/kb/entries/[id]/notes/[noteId]", () => {
+    it("should update the user's own note", async () => {
+      results.push(
+        {
+          data: { id: ENTRY_ID, user_id: "user-1", is_public: false },
+          error: null,
+        },
+        { data: note, error: null },
+        { data: { ...note, body: "edited" }, error: null },
+      );
+
+      const response = await PUT(
+        createAPIContext(
+          jsonRequest("PUT", { body: "edited" }, `/${NOTE_ID}`),
+          { id: ENTRY_ID, noteId: NOTE_ID },
+          { supabase: mockSupabase, user: member },
+        ),
+      );
+      const body = (await response.json()) as any;
+
+      expect(response.status).toBe(200);
+      expect(body.data.body).toBe("edited");
+    });
+
+    it("should delete the user's own note", async () => {
+      results.push(
+        {
+          data: { id: ENTRY_ID, user_id: "user-1", is_public: false },
+          error: null,
+        },
+        { data: note, error: null },
+        { data: null, error: null },
+      );
+
+      const response = await DELETE(
+        createAPIContext(
+          new Request(
+            `http://localhost:4321/api/kb/entries/${ENTRY_ID}/notes/${NOTE_ID}`,
+            { method: "DELETE" },
+          ),
+          { id: ENTRY_ID, noteId: NOTE_ID },
+          { supabase: mockSupabase, user: member },
+        ),
+      );
+
+      expect(response.status).toBe(204);
+      expect(mockQueryBuilder.delete).toHaveBeenCalled();
+    });
+
+    it("should reject an invalid note id", async () => {
+      const response = await DELETE(
+        createAPIContext(
+          new Request(
+            `http://localhost:4321/api/kb/entries/${ENTRY_ID}/notes/abc`,
+            { method: "DELETE" },
+          ),
+          { id: ENTRY_ID, noteId: "abc" },
+          { supabase: mockSupabase, user: member },
+        ),
+      );
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIContext } from "astro";
+import { GET } from "../../../pages/api/kb/tags";
+
+function createAPIContext(
+  url: string,
+  locals: { supabase?: unknown; user?: { id: string; email: string } | null },
+): APIContext {
+  const request = new Request(url);
+  return {
+    request,
+    url: new URL(request.url),
+    params: {},
+    locals,
+  } as unknown as APIContext;
+}
+
+describe("GET /api/kb/tags", () => {
+  /* eslint-disable @typescript-eslint/no-explicit-any */
+  let mockSupabase: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSupabase = {
+      rpc: vi.fn().mockResolvedValue({
+        data: [
+          { tag: "api", count: 4 },
+          { tag: "ui", count: 2 },
+        ],
+        error: null,
+      }),
+    };
+  });
+
+  it("should return tag facets with counts", async () => {
+    const response = await GET(
+      createAPIContext("http://localhost:4321/api/kb/tags?q=flaky", {
+        supabase: mockSupabase,
+        user: null,
+      }),
+    );
+    const body = (await response.json()) as any;
+
+    expect(response.status).toBe(200);
+    expect(body.items).toEqual([
+      { tag: "api", count: 4 },
+      { tag: "ui", count: 2 },
+    ]);
+    expect(mockSupabase.rpc).toHaveBeenCalledWith("kb_tag_facets", {
+      search_query: "flaky",
+      owner_filter: undefined,
+    });
+  });
+
+  it("should pass the owner filter for signed-in users", async () => {
+    const response = await GET(
+      createAPIContext("http://localhost:4321/api/kb/tags?owner=me", {
+        supabase: mockSupabase,
+        user: { id: "user-1", email: "user@example.com" },
+      }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(mockSupabase.rpc).toHaveBeenCalledWith("kb_tag_facets", {
+      search_query: undefined,
+      owner_filter: "me",
+    });
+  });
+
+  it("should require authentication for owner=me", async () => {
+    const response = await GET(
+      createAPIContext("http://localhost:4321/api/kb/tags?owner=me", {
+        supabase: mockSupabase,
+        user: null,
+      }),
+    );
+
+    expect(response.status).toBe(401);
+    expect(mockSupabase.rpc).not.toHaveBeenCalled();
+  });
+
+  it("should reject an unknown owner filter", async () => {
+    const response = await GET(
+      createAPIContext("http://localhost:4321/api/kb/tags?owner=all", {
+        supabase: mockSupabase,
+        user: null,
+      }),
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should report database errors", async () => {
+    mockSupabase.rpc.mockResolvedValue({
+      data: null,
+      error: { message: "Database connection failed" },
+    });
+
+    const response = await GET(
+      createAPIContext("http://localhost:4321/api/kb/tags", {
+        supabase: mockSupabase,
+        user: null,
+      }),
+    );
+    const body = (await response.json()) as any;
+
+    expect(response.status).toBe(500);
+    expect(body.error.code).toBe("DATABASE_ERROR");
+  });
+
+  it("should handle missing supabase client", async () => {
+    const response = await GET(
+      createAPIContext("http://localhost:4321/api/kb/tags", {
+        supabase: null,
+        user: null,
+      }),
+    );
+
+    expect(response.status).toBe(500);
+  });
+});
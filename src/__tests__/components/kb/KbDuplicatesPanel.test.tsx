@@ -0,0 +1,119 @@
+import React from "react";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { screen, cleanup, render } from "@testing-library/react";
+import { userEvent } from "@testing-library/user-event";
+import KbDuplicatesPanel from "../../../components/kb/KbDuplicatesPanel";
+import { useKbDuplicates } from "../../../lib/hooks/useKbDuplicates";
+import type { KBDuplicateDTO, KBEntryDTO } from "../../../types/types";
+
+vi.mock("../../../lib/hooks/useKbDuplicates");
+
+const mockUseKbDuplicates = vi.mocked(useKbDuplicates);
+
+describe("KbDuplicatesPanel", () => {
+  const entry = { id: "entry-1", title: "Postman tips" };
+
+  const duplicates: KBDuplicateDTO[] = [
+    {
+      id: "entry-2",
+      user_id: "user-2",
+      title: "Postman tricks",
+      url_original: "https://example.com/postman",
+      is_public: true,
+      match: "url",
+      similarity: 0.5,
+    },
+    {
+      id: "entry-3",
+      user_id: "user-3",
+      title: "Postman tips!",
+      url_original: "https://example.com/tips",
+      is_public: false,
+      match: "title",
+      similarity: 0.87,
+    },
+  ];
+
+  const hook = {
+    duplicates,
+    isLoading: false,
+    error: null as { code: string; message: string } | null,
+    fetchDuplicates: vi.fn(),
+    mergeEntries: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    hook.duplicates = duplicates;
+    hook.error = null;
+    mockUseKbDuplicates.mockReturnValue(hook);
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should fetch and list duplicates with how they matched", () => {
+    render(<KbDuplicatesPanel entry={entry} onMerged={vi.fn()} />);
+
+    expect(mockUseKbDuplicates).toHaveBeenCalledWith("entry-1");
+    expect(hook.fetchDuplicates).toHaveBeenCalled();
+    expect(screen.getByText(/ten sam link, publiczny/)).toBeInTheDocument();
+    expect(screen.getByText(/podobny tytuł \(87%\)/)).toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: "Scal zaznaczone" }),
+    ).toBeDisabled();
+  });
+
+  it("should merge the selected entries after confirmation", async () => {
+    const merged = { id: "entry-1" } as KBEntryDTO;
+    hook.mergeEntries.mockResolvedValue(merged);
+    const onMerged = vi.fn();
+    const user = userEvent.setup();
+    render(<KbDuplicatesPanel entry={entry} onMerged={onMerged} />);
+
+    await user.click(screen.getByLabelText(/Postman tricks/));
+    await user.click(screen.getByRole("button", { name: "Scal zaznaczone" }));
+    expect(hook.mergeEntries).not.toHaveBeenCalled();
+
+    await user.click(
+      screen.getByRole("button", { name: "Potwierdź scalenie" }),
+    );
+
+    expect(hook.mergeEntries).toHaveBeenCalledWith(["entry-2"]);
+    expect(onMerged).toHaveBeenCalledWith(merged);
+  });
+
+  it("should keep the selection when merging fails", async () => {
+    hook.mergeEntries.mockResolvedValue(null);
+    const onMerged = vi.fn();
+    const user = userEvent.setup();
+    render(<KbDuplicatesPanel entry={entry} onMerged={onMerged} />);
+
+    await user.click(screen.getByLabelText(/Postman tips!/));
+    await user.click(screen.getByRole("button", { name: "Scal zaznaczone" }));
+    await user.click(
+      screen.getByRole("button", { name: "Potwierdź scalenie" }),
+    );
+
+    expect(onMerged).not.toHaveBeenCalled();
+    expect(screen.getByLabelText(/Postman tips!/)).toBeChecked();
+  });
+
+  it("should show an empty state and errors", async () => {
+    hook.duplicates = [];
+    const { rerender } = render(
+      <KbDuplicatesPanel entry={entry} onMerged={vi.fn()} />,
+    );
+    expect(screen.getByText("Brak możliwych duplikatów.")).toBeInTheDocument();
+
+    hook.error = { code: "FETCH_ERROR", message: "Entry not found" };
+    rerender(<KbDuplicatesPanel entry={entry} onMerged={vi.fn()} />);
+    expect(screen.getByText("Entry not found")).toBeInTheDocument();
+
+    await userEvent
+      .setup()
+      .click(screen.getByRole("button", { name: "Spróbuj ponownie" }));
+    expect(hook.fetchDuplicates).toHaveBeenCalledTimes(2);
+  });
+});
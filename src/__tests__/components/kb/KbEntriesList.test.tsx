@@ -5,10 +5,32 @@ import { render } from "@testing-library/react";
 import { userEvent } from "@testing-library/user-event";
 import KbEntriesList from "../../../components/kb/KbEntriesList";
 import { useKbEntries } from "../../../lib/hooks/useKbEntries";
-import type { KBEntryDTO } from "../../../types/types";
+import { useKbTagFacets } from "../../../lib/hooks/useKbTagFacets";
+import type { KBDuplicateDTO, KBEntryDTO } from "../../../types/types";
 
 // Mock useKbEntries hook
 vi.mock("../../../lib/hooks/useKbEntries");
+vi.mock("../../../lib/hooks/useKbTagFacets");
+vi.mock("../../../components/kb/KbNotesPanel", () => ({
+  default: ({ entry }: { entry: { id: string } }) => (
+    <div data-testid="kb-notes-panel">{entry.id}</div>
+  ),
+}));
+vi.mock("../../../components/kb/KbDuplicatesPanel", () => ({
+  default: ({ onMerged }: { onMerged: () => void }) => (
+    <button data-testid="kb-duplicates-panel" onClick={onMerged}>
+      merge
+    </button>
+  ),
+  describeDuplicateMatch: (duplicate: { match: string }) => duplicate.match,
+}));
+vi.mock("../../../components/kb/KbImportExport", () => ({
+  default: ({ onImported }: { onImported: () => void }) => (
+    <button data-testid="kb-import-export" onClick={onImported}>
+      import
+    </button>
+  ),
+}));
 
 // Mock toast
 vi.mock("sonner", () => ({
@@ -19,6 +41,7 @@ vi.mock("sonner", () => ({
 }));
 
 const mockUseKbEntries = vi.mocked(useKbEntries);
+const mockUseKbTagFacets = vi.mocked(useKbTagFacets);
 
 describe("KbEntriesList", () => {
   const mockEntries: KBEntryDTO[] = [
@@ -32,6 +55,11 @@ describe("KbEntriesList", () => {
       is_public: true,
       created_at: "2024-01-01T00:00:00Z",
       updated_at: "2024-01-01T00:00:00Z",
+      link_status: null,
+      link_redirect_url: null,
+      link_redirect_permanent: false,
+      link_error: null,
+      link_checked_at: null,
     },
     {
       id: "2",
@@ -43,6 +71,11 @@ describe("KbEntriesList", () => {
       is_public: false,
       created_at: "2024-01-01T00:00:00Z",
       updated_at: "2024-01-01T00:00:00Z",
+      link_status: null,
+      link_redirect_url: null,
+      link_redirect_permanent: false,
+      link_error: null,
+      link_checked_at: null,
     },
   ];
 
@@ -59,6 +92,10 @@ describe("KbEntriesList", () => {
       deleteEntry: vi.fn(),
       clearError: vi.fn(),
     });
+    mockUseKbTagFacets.mockReturnValue({
+      facets: [],
+      fetchFacets: vi.fn(),
+    });
   });
 
   afterEach(() => {
@@ -470,4 +507,369 @@ describe("KbEntriesList", () => {
       expect(deleteButtons.length).toBe(1);
     });
   });
+
+  describe("search and filters", () => {
+    const mockFetchEntries = vi.fn();
+    const mockFetchFacets = vi.fn();
+
+    beforeEach(() => {
+      mockUseKbEntries.mockReturnValue({
+        entries: mockEntries,
+        nextCursor: undefined,
+        isLoading: false,
+        error: null,
+        fetchEntries: mockFetchEntries,
+        createEntry: vi.fn(),
+        updateEntry: vi.fn(),
+        deleteEntry: vi.fn(),
+        clearError: vi.fn(),
+      });
+      mockUseKbTagFacets.mockReturnValue({
+        facets: [
+          { tag: "api", count: 3 },
+          { tag: "ui", count: 1 },
+        ],
+        fetchFacets: mockFetchFacets,
+      });
+    });
+
+    it("should search entries and facets with the submitted query", async () => {
+      const user = userEvent.setup();
+      render(<KbEntriesList user={null} />);
+
+      await user.type(
+        screen.getByRole("searchbox", { name: /szukaj wpisów/i }),
+        "  flaky tests ",
+      );
+      await user.click(screen.getByRole("button", { name: /^szukaj$/i }));
+
+      expect(mockFetchEntries).toHaveBeenLastCalledWith({
+        q: "flaky tests",
+      });
+      expect(mockFetchFacets).toHaveBeenLastCalledWith({
+        q: "flaky tests",
+        owner: undefined,
+      });
+    });
+
+    it("should show tag facets with counts and toggle them", async () => {
+      const user = userEvent.setup();
+      render(<KbEntriesList user={null} />);
+
+      const facet = screen.getByRole("button", { name: "api (3)" });
+      expect(facet).toHaveAttribute("aria-pressed", "false");
+
+      await user.click(facet);
+
+      expect(mockFetchEntries).toHaveBeenLastCalledWith({ tags: ["api"] });
+      expect(screen.getByRole("button", { name: "api (3)" })).toHaveAttribute(
+        "aria-pressed",
+        "true",
+      );
+
+      await user.click(screen.getByRole("button", { name: "ui (1)" }));
+      await user.click(screen.getByRole("button", { name: /wszystkie tagi/i }));
+
+      expect(mockFetchEntries).toHaveBeenLastCalledWith({
+        tags: ["api", "ui"],
+        tagMatch: "all",
+      });
+    });
+
+    it("should render search snippets with highlighted matches as text", () => {
+      mockUseKbEntries.mockReturnValue({
+        entries: [
+          {
+            ...mockEntries[0],
+            rank: 0.5,
+            snippet: "Fixing <mark>flaky</mark> <b>tests</b>",
+          },
+        ],
+        nextCursor: undefined,
+        isLoading: false,
+        error: null,
+        fetchEntries: mockFetchEntries,
+        createEntry: vi.fn(),
+        updateEntry: vi.fn(),
+        deleteEntry: vi.fn(),
+        clearError: vi.fn(),
+      });
+
+      render(<KbEntriesList user={null} />);
+
+      const snippet = screen.getByTestId("kb-entry-snippet");
+      expect(snippet.querySelector("mark")).toHaveTextContent("flaky");
+      expect(snippet.querySelector("b")).toBeNull();
+      expect(snippet).toHaveTextContent("Fixing flaky <b>tests</b>");
+    });
+
+    it("should offer clearing filters when nothing matches", async () => {
+      mockUseKbEntries.mockReturnValue({
+        entries: [],
+        nextCursor: undefined,
+        isLoading: false,
+        error: null,
+        fetchEntries: mockFetchEntries,
+        createEntry: vi.fn(),
+        updateEntry: vi.fn(),
+        deleteEntry: vi.fn(),
+        clearError: vi.fn(),
+      });
+
+      const user = userEvent.setup();
+      render(<KbEntriesList user={null} />);
+
+      await user.click(screen.getByRole("button", { name: "api (3)" }));
+      expect(
+        screen.getByText("Brak wpisów pasujących do wyszukiwania"),
+      ).toBeInTheDocument();
+
+      await user.click(screen.getByRole("button", { name: /wyczyść filtry/i }));
+
+      expect(mockFetchEntries).toHaveBeenLastCalledWith({});
+    });
+
+    it("should offer the owner filter only to signed-in users", () => {
+      const { rerender } = render(<KbEntriesList user={null} />);
+      expect(
+        screen.queryByRole("combobox", { name: /pokaż wpisy/i }),
+      ).not.toBeInTheDocument();
+
+      rerender(<KbEntriesList user={{ id: "user-1" }} />);
+      expect(
+        screen.getByRole("combobox", { name: /pokaż wpisy/i }),
+      ).toBeInTheDocument();
+    });
+  });
+
+  describe("notes", () => {
+    it("should expand and collapse the notes panel of an entry", async () => {
+      mockUseKbEntries.mockReturnValue({
+        entries: mockEntries,
+        nextCursor: undefined,
+        isLoading: false,
+        error: null,
+        fetchEntries: vi.fn(),
+        createEntry: vi.fn(),
+        updateEntry: vi.fn(),
+        deleteEntry: vi.fn(),
+        clearError: vi.fn(),
+      });
+
+      const user = userEvent.setup();
+      render(<KbEntriesList user={null} />);
+
+      expect(screen.queryByTestId("kb-notes-panel")).not.toBeInTheDocument();
+
+      const toggle = screen.getAllByRole("button", { name: "Notatki" })[1];
+      await user.click(toggle);
+
+      expect(screen.getByTestId("kb-notes-panel")).toHaveTextContent("2");
+      expect(
+        screen.getByRole("button", { name: "Ukryj notatki" }),
+      ).toHaveAttribute("aria-expanded", "true");
+
+      await user.click(screen.getByRole("button", { name: "Ukryj notatki" }));
+      expect(screen.queryByTestId("kb-notes-panel")).not.toBeInTheDocument();
+    });
+  });
+
+  describe("link health", () => {
+    it("should let the owner switch a moved link to its new URL", async () => {
+      const updateEntry = vi.fn().mockResolvedValue(null);
+      mockUseKbEntries.mockReturnValue({
+        entries: [
+          {
+            ...mockEntries[0],
+            link_status: 200,
+            link_redirect_url: "https://example.com/moved",
+            link_redirect_permanent: true,
+            link_checked_at: "2026-10-18T03:00:00Z",
+          },
+          {
+            ...mockEntries[1],
+            link_status: 404,
+            link_checked_at: "2026-10-18T03:00:00Z",
+          },
+        ],
+        nextCursor: undefined,
+        isLoading: false,
+        error: null,
+        fetchEntries: vi.fn(),
+        createEntry: vi.fn(),
+        updateEntry,
+        deleteEntry: vi.fn(),
+        clearError: vi.fn(),
+      });
+
+      const user = userEvent.setup();
+      render(<KbEntriesList user={{ id: "user-1" }} />);
+
+      expect(screen.getByTestId("kb-link-broken")).toHaveTextContent(
+        "HTTP 404",
+      );
+
+      await user.click(screen.getByRole("button", { name: "Popraw URL" }));
+
+      expect(updateEntry).toHaveBeenCalledWith("1", {
+        url_original: "https://example.com/moved",
+      });
+    });
+  });
+
+  describe("import and export", () => {
+    it("should show import and export to signed-in users when enabled", () => {
+      const { rerender } = render(
+        <KbEntriesList user={{ id: "user-1" }} importExportEnabled />,
+      );
+      expect(screen.getByTestId("kb-import-export")).toBeInTheDocument();
+
+      rerender(<KbEntriesList user={{ id: "user-1" }} />);
+      expect(screen.queryByTestId("kb-import-export")).not.toBeInTheDocument();
+
+      rerender(<KbEntriesList user={null} importExportEnabled />);
+      expect(screen.queryByTestId("kb-import-export")).not.toBeInTheDocument();
+    });
+
+    it("should refresh entries and facets after an import", async () => {
+      const fetchEntries = vi.fn();
+      const fetchFacets = vi.fn();
+      mockUseKbEntries.mockReturnValue({
+        entries: [],
+        nextCursor: undefined,
+        isLoading: false,
+        error: null,
+        fetchEntries,
+        createEntry: vi.fn(),
+        updateEntry: vi.fn(),
+        deleteEntry: vi.fn(),
+        clearError: vi.fn(),
+      });
+      mockUseKbTagFacets.mockReturnValue({ facets: [], fetchFacets });
+
+      const user = userEvent.setup();
+      render(<KbEntriesList user={{ id: "user-1" }} importExportEnabled />);
+      fetchEntries.mockClear();
+      fetchFacets.mockClear();
+
+      await user.click(screen.getByTestId("kb-import-export"));
+
+      expect(fetchEntries).toHaveBeenCalledWith({});
+      expect(fetchFacets).toHaveBeenCalledWith({
+        q: undefined,
+        owner: undefined,
+      });
+    });
+  });
+
+  describe("duplicates", () => {
+    const duplicate: KBDuplicateDTO = {
+      id: "3",
+      user_id: "user-2",
+      title: "Entry 3",
+      url_original: "https://example.com/new",
+      is_public: true,
+      match: "url",
+      similarity: 1,
+    };
+
+    async function submitNewEntry(createEntry: ReturnType<typeof vi.fn>) {
+      mockUseKbEntries.mockReturnValue({
+        entries: mockEntries,
+        nextCursor: undefined,
+        isLoading: false,
+        error: null,
+        fetchEntries: vi.fn(),
+        createEntry,
+        updateEntry: vi.fn(),
+        deleteEntry: vi.fn(),
+        clearError: vi.fn(),
+      });
+
+      const user = userEvent.setup();
+      render(<KbEntriesList user={{ id: "user-1" }} />);
+      await user.click(screen.getByRole("button", { name: /dodaj wpis/i }));
+      await user.type(screen.getByLabelText(/tytuł/i), "New Entry");
+      await user.type(screen.getByLabelText(/url/i), "https://example.com/new");
+      await user.click(screen.getByRole("button", { name: /utwórz/i }));
+      return user;
+    }
+
+    it("should ask before saving an entry with possible duplicates", async () => {
+      const createEntry = vi.fn(
+        async (
+          _data: unknown,
+          options?: { onDuplicates?: (d: KBDuplicateDTO[]) => void },
+        ) => {
+          options?.onDuplicates?.([duplicate]);
+          return null;
+        },
+      );
+
+      const user = await submitNewEntry(createEntry);
+
+      expect(await screen.findByText("Możliwe duplikaty")).toBeInTheDocument();
+      expect(screen.getByText("Entry 3")).toBeInTheDocument();
+
+      createEntry.mockResolvedValueOnce(mockEntries[0] as never);
+      await user.click(screen.getByRole("button", { name: "Zapisz mimo to" }));
+
+      expect(createEntry).toHaveBeenLastCalledWith(
+        expect.objectContaining({ title: "New Entry" }),
+        { allowDuplicates: true },
+      );
+      await waitFor(() => {
+        expect(screen.queryByLabelText(/tytuł/i)).not.toBeInTheDocument();
+      });
+    });
+
+    it("should not offer saving a link the user already has", async () => {
+      const createEntry = vi.fn(
+        async (
+          _data: unknown,
+          options?: { onDuplicates?: (d: KBDuplicateDTO[]) => void },
+        ) => {
+          options?.onDuplicates?.([{ ...duplicate, user_id: "user-1" }]);
+          return null;
+        },
+      );
+
+      await submitNewEntry(createEntry);
+
+      expect(
+        await screen.findByText("Ten link jest już w Twojej bazie."),
+      ).toBeInTheDocument();
+      expect(
+        screen.queryByRole("button", { name: "Zapisz mimo to" }),
+      ).not.toBeInTheDocument();
+    });
+
+    it("should show the duplicates panel to admins only", async () => {
+      const fetchEntries = vi.fn();
+      mockUseKbEntries.mockReturnValue({
+        entries: mockEntries,
+        nextCursor: undefined,
+        isLoading: false,
+        error: null,
+        fetchEntries,
+        createEntry: vi.fn(),
+        updateEntry: vi.fn(),
+        deleteEntry: vi.fn(),
+        clearError: vi.fn(),
+      });
+
+      const user = userEvent.setup();
+      const { rerender } = render(<KbEntriesList user={{ id: "user-1" }} />);
+      expect(
+        screen.queryByRole("button", { name: "Duplikaty" }),
+      ).not.toBeInTheDocument();
+
+      rerender(<KbEntriesList user={{ id: "user-1" }} mockRole="admin" />);
+      await user.click(screen.getAllByRole("button", { name: "Duplikaty" })[0]);
+      fetchEntries.mockClear();
+      await user.click(screen.getByTestId("kb-duplicates-panel"));
+
+      expect(fetchEntries).toHaveBeenCalledWith({});
+    });
+  });
 });
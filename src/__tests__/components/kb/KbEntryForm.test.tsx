@@ -223,6 +223,11 @@ describe("KbEntryForm", () => {
         is_public: false,
         created_at: "2024-01-01T00:00:00Z",
         updated_at: "2024-01-01T00:00:00Z",
+        link_status: null,
+        link_redirect_url: null,
+        link_redirect_permanent: false,
+        link_error: null,
+        link_checked_at: null,
       };
 
       const user = userEvent.setup();
@@ -266,6 +271,11 @@ describe("KbEntryForm", () => {
         is_public: false,
         created_at: "2024-01-01T00:00:00Z",
         updated_at: "2024-01-01T00:00:00Z",
+        link_status: null,
+        link_redirect_url: null,
+        link_redirect_permanent: false,
+        link_error: null,
+        link_checked_at: null,
       };
 
       const user = userEvent.setup();
@@ -332,6 +342,11 @@ describe("KbEntryForm", () => {
         is_public: true,
         created_at: "2024-01-01T00:00:00Z",
         updated_at: "2024-01-01T00:00:00Z",
+        link_status: null,
+        link_redirect_url: null,
+        link_redirect_permanent: false,
+        link_error: null,
+        link_checked_at: null,
       };
 
       render(
@@ -367,6 +382,11 @@ describe("KbEntryForm", () => {
         is_public: false,
         created_at: "2024-01-01T00:00:00Z",
         updated_at: "2024-01-01T00:00:00Z",
+        link_status: null,
+        link_redirect_url: null,
+        link_redirect_permanent: false,
+        link_error: null,
+        link_checked_at: null,
       };
 
       const user = userEvent.setup();
@@ -406,6 +426,11 @@ describe("KbEntryForm", () => {
         is_public: false,
         created_at: "2024-01-01T00:00:00Z",
         updated_at: "2024-01-01T00:00:00Z",
+        link_status: null,
+        link_redirect_url: null,
+        link_redirect_permanent: false,
+        link_error: null,
+        link_checked_at: null,
       };
 
       render(
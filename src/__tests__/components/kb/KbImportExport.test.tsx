@@ -0,0 +1,122 @@
+import React from "react";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { screen, cleanup, render } from "@testing-library/react";
+import { userEvent } from "@testing-library/user-event";
+import KbImportExport from "../../../components/kb/KbImportExport";
+import { useKbImport } from "../../../lib/hooks/useKbImport";
+import type { KBImportReport } from "../../../types/types";
+
+vi.mock("../../../lib/hooks/useKbImport");
+
+const mockUseKbImport = vi.mocked(useKbImport);
+
+describe("KbImportExport", () => {
+  const report: KBImportReport = {
+    summary: { total: 3, created: 1, skipped: 1, failed: 1 },
+    results: [
+      {
+        row: 1,
+        title: "New",
+        url: "https://a.io",
+        status: "created",
+        entry_id: "e1",
+      },
+      {
+        row: 2,
+        title: "Old",
+        url: "https://b.io",
+        status: "skipped",
+        reason: "Already in your knowledge base",
+      },
+      {
+        row: 5,
+        title: "",
+        url: "ftp://c.io",
+        status: "failed",
+        reason: "URL must start with http:// or https://",
+      },
+    ],
+  };
+
+  const hook = {
+    report: null as KBImportReport | null,
+    isImporting: false,
+    importFile: vi.fn(),
+    clearReport: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    hook.report = null;
+    mockUseKbImport.mockReturnValue(hook);
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should link to the three export formats", () => {
+    render(<KbImportExport onImported={vi.fn()} />);
+
+    expect(screen.getByRole("link", { name: "JSON" })).toHaveAttribute(
+      "href",
+      "/api/kb/export?format=json",
+    );
+    expect(screen.getByRole("link", { name: "Markdown" })).toHaveAttribute(
+      "href",
+      "/api/kb/export?format=md",
+    );
+    expect(
+      screen.getByRole("link", { name: "Zakładki (HTML)" }),
+    ).toHaveAttribute("href", "/api/kb/export?format=html");
+  });
+
+  it("should import the chosen file and refresh after new entries", async () => {
+    hook.importFile.mockResolvedValue(report);
+    const onImported = vi.fn();
+    const user = userEvent.setup();
+    render(<KbImportExport onImported={onImported} />);
+
+    const file = new File(["[]"], "kb.json", { type: "application/json" });
+    await user.upload(screen.getByLabelText("Plik do importu"), file);
+
+    expect(hook.importFile).toHaveBeenCalledWith(file);
+    expect(onImported).toHaveBeenCalled();
+  });
+
+  it("should not refresh when nothing was created", async () => {
+    hook.importFile.mockResolvedValue({
+      ...report,
+      summary: { total: 1, created: 0, skipped: 1, failed: 0 },
+    });
+    const onImported = vi.fn();
+    const user = userEvent.setup();
+    render(<KbImportExport onImported={onImported} />);
+
+    await user.upload(
+      screen.getByLabelText("Plik do importu"),
+      new File(["x"], "kb.md", { type: "text/markdown" }),
+    );
+
+    expect(onImported).not.toHaveBeenCalled();
+  });
+
+  it("should show the summary and the rows that were not created", async () => {
+    hook.report = report;
+    const user = userEvent.setup();
+    render(<KbImportExport onImported={vi.fn()} />);
+
+    expect(
+      screen.getByText("Dodano: 1, pominięto: 1, błędy: 1"),
+    ).toBeInTheDocument();
+    const rows = screen.getAllByRole("listitem");
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toHaveTextContent(
+      "Wiersz 2 (pominięto): Old — Already in your knowledge base",
+    );
+    expect(rows[1]).toHaveTextContent("Wiersz 5 (błąd): ftp://c.io");
+
+    await user.click(screen.getByRole("button", { name: "Zamknij raport" }));
+    expect(hook.clearReport).toHaveBeenCalled();
+  });
+});
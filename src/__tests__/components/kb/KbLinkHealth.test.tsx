@@ -0,0 +1,102 @@
+import React from "react";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { screen, cleanup, render } from "@testing-library/react";
+import { userEvent } from "@testing-library/user-event";
+import KbLinkHealth, {
+  describeLinkProblem,
+} from "../../../components/kb/KbLinkHealth";
+import type { KBLinkCheckFields } from "../../../types/types";
+
+describe("KbLinkHealth", () => {
+  const checked: KBLinkCheckFields = {
+    link_status: 200,
+    link_redirect_url: null,
+    link_redirect_permanent: false,
+    link_error: null,
+    link_checked_at: "2026-10-18T03:00:00.000Z",
+  };
+
+  const moved: KBLinkCheckFields = {
+    ...checked,
+    link_redirect_url: "https://example.com/new",
+    link_redirect_permanent: true,
+  };
+
+  const onFix = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    onFix.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should render nothing for working or unchecked links", () => {
+    const { container, rerender } = render(
+      <KbLinkHealth entry={checked} canFix onFix={onFix} />,
+    );
+    expect(container).toBeEmptyDOMElement();
+
+    rerender(
+      <KbLinkHealth
+        entry={{ ...checked, link_status: null, link_checked_at: null }}
+        canFix
+        onFix={onFix}
+      />,
+    );
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("should flag broken links with the reason", () => {
+    render(
+      <KbLinkHealth
+        entry={{ ...checked, link_status: 404 }}
+        canFix
+        onFix={onFix}
+      />,
+    );
+
+    expect(screen.getByTestId("kb-link-broken")).toHaveTextContent(
+      "Niedziałający link (HTTP 404)",
+    );
+  });
+
+  it("should offer to switch a moved link to its new URL", async () => {
+    const user = userEvent.setup();
+    render(<KbLinkHealth entry={moved} canFix onFix={onFix} />);
+
+    expect(screen.getByTestId("kb-link-moved")).toHaveTextContent(
+      "Link przeniesiony na https://example.com/new",
+    );
+
+    await user.click(screen.getByRole("button", { name: "Popraw URL" }));
+
+    expect(onFix).toHaveBeenCalledWith("https://example.com/new");
+  });
+
+  it("should hide the fix action from users who cannot edit the entry", () => {
+    render(<KbLinkHealth entry={moved} canFix={false} onFix={onFix} />);
+
+    expect(screen.getByTestId("kb-link-moved")).toBeInTheDocument();
+    expect(
+      screen.queryByRole("button", { name: "Popraw URL" }),
+    ).not.toBeInTheDocument();
+  });
+
+  describe("describeLinkProblem", () => {
+    it("should describe check errors and HTTP statuses", () => {
+      expect(
+        describeLinkProblem({
+          ...checked,
+          link_status: null,
+          link_error: "timeout",
+        }),
+      ).toBe("brak odpowiedzi");
+      expect(describeLinkProblem({ ...checked, link_status: 500 })).toBe(
+        "HTTP 500",
+      );
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import React from "react";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { screen, cleanup, render } from "@testing-library/react";
+import { userEvent } from "@testing-library/user-event";
+import KbNotesPanel from "../../../components/kb/KbNotesPanel";
+import { useKbNotes } from "../../../lib/hooks/useKbNotes";
+import type { KBNoteDTO } from "../../../types/types";
+
+vi.mock("../../../lib/hooks/useKbNotes");
+
+const mockUseKbNotes = vi.mocked(useKbNotes);
+
+describe("KbNotesPanel", () => {
+  const ownEntry = { id: "entry-1", user_id: "user-1", is_public: false };
+  const publicEntry = { id: "entry-2", user_id: "admin-1", is_public: true };
+
+  const notes: KBNoteDTO[] = [
+    {
+      id: "note-1",
+      entry_id: "entry-1",
+      user_id: "user-1",
+      body: "Repro **always** fails\n\n- step `one`\n- [docs](https://example.com)",
+      created_at: "2025-03-01T10:00:00Z",
+    },
+  ];
+
+  const hook = {
+    notes,
+    nextCursor: undefined as string | undefined,
+    isLoading: false,
+    error: null,
+    fetchNotes: vi.fn(),
+    addNote: vi.fn(),
+    updateNote: vi.fn(),
+    deleteNote: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseKbNotes.mockReturnValue(hook);
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should fetch and render notes as Markdown", () => {
+    render(
+      <KbNotesPanel entry={ownEntry} user={{ id: "user-1" }} userRole="user" />,
+    );
+
+    expect(hook.fetchNotes).toHaveBeenCalledWith();
+    expect(screen.getByText("always").tagName).toBe("STRONG");
+    expect(screen.getByText("one").tagName).toBe("CODE");
+    expect(screen.getByRole("link", { name: "docs" })).toHaveAttribute(
+      "href",
+      "https://example.com",
+    );
+  });
+
+  it("should add a note to the user's private entry", async () => {
+    hook.addNote.mockResolvedValue(notes[0]);
+    const user = userEvent.setup();
+    render(
+      <KbNotesPanel entry={ownEntry} user={{ id: "user-1" }} userRole="user" />,
+    );
+
+    await user.type(screen.getByLabelText("Nowa notatka"), "  New note ");
+    await user.click(screen.getByRole("button", { name: "Dodaj notatkę" }));
+
+    expect(hook.addNote).toHaveBeenCalledWith("New note");
+    expect(screen.getByLabelText("Nowa notatka")).toHaveValue("");
+  });
+
+  it("should edit a note", async () => {
+    hook.updateNote.mockResolvedValue({ ...notes[0], body: "edited" });
+    const user = userEvent.setup();
+    render(
+      <KbNotesPanel entry={ownEntry} user={{ id: "user-1" }} userRole="user" />,
+    );
+
+    await user.click(screen.getByRole("button", { name: "Edytuj notatkę" }));
+    const textarea = screen.getByLabelText("Treść notatki");
+    await user.clear(textarea);
+    await user.type(textarea, "edited");
+    await user.click(screen.getByRole("button", { name: "Zapisz" }));
+
+    expect(hook.updateNote).toHaveBeenCalledWith("note-1", "edited");
+  });
+
+  it("should ask for confirmation before deleting", async () => {
+    const user = userEvent.setup();
+    render(
+      <KbNotesPanel entry={ownEntry} user={{ id: "user-1" }} userRole="user" />,
+    );
+
+    await user.click(screen.getByRole("button", { name: "Usuń notatkę" }));
+    expect(hook.deleteNote).not.toHaveBeenCalled();
+
+    await user.click(
+      screen.getByRole("button", { name: "Potwierdź usunięcie" }),
+    );
+    expect(hook.deleteNote).toHaveBeenCalledWith("note-1");
+  });
+
+  it("should be read-only on public entries for non-admins", () => {
+    mockUseKbNotes.mockReturnValue({
+      ...hook,
+      notes: [{ ...notes[0], entry_id: "entry-2", user_id: "admin-1" }],
+    });
+    render(
+      <KbNotesPanel
+        entry={publicEntry}
+        user={{ id: "user-1" }}
+        userRole="user"
+      />,
+    );
+
+    expect(screen.queryByLabelText("Nowa notatka")).not.toBeInTheDocument();
+    expect(
+      screen.queryByRole("button", { name: "Edytuj notatkę" }),
+    ).not.toBeInTheDocument();
+  });
+
+  it("should let admins write on public entries", () => {
+    render(
+      <KbNotesPanel
+        entry={publicEntry}
+        user={{ id: "admin-1" }}
+        userRole="admin"
+      />,
+    );
+
+    expect(screen.getByLabelText("Nowa notatka")).toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: "Edytuj notatkę" }),
+    ).toBeInTheDocument();
+  });
+
+  it("should be read-only for anonymous visitors", () => {
+    render(<KbNotesPanel entry={publicEntry} user={null} userRole="user" />);
+
+    expect(screen.queryByLabelText("Nowa notatka")).not.toBeInTheDocument();
+  });
+
+  it("should load the next page of notes", async () => {
+    mockUseKbNotes.mockReturnValue({
+      ...hook,
+      nextCursor: "2025-03-01T10:00:00Z,note-1",
+    });
+    const user = userEvent.setup();
+    render(<KbNotesPanel entry={ownEntry} user={null} userRole="user" />);
+
+    await user.click(
+      screen.getByRole("button", { name: "Pokaż kolejne notatki" }),
+    );
+
+    expect(hook.fetchNotes).toHaveBeenLastCalledWith(
+      "2025-03-01T10:00:00Z,note-1",
+    );
+  });
+});
@@ -4,12 +4,24 @@
 import { describe, it, expect } from "vitest";
 import { validateIban } from "@/lib/utils/iban-validator";
 
+// Banks resolved from the offline bank directory for the sample IBANs
+const COMMERZBANK = {
+  bankCode: "37040044",
+  bic: "COBADEFFXXX",
+  name: "Commerzbank",
+};
+const SANTANDER = {
+  bankCode: "109",
+  bic: "WBKPPLPPXXX",
+  name: "Santander Bank Polska",
+};
+
 describe("IBAN Validator", () => {
   describe("validateIban", () => {
     describe("Valid IBANs", () => {
       it("should validate a valid German IBAN", () => {
         const result = validateIban("DE89370400440532013000");
-        expect(result).toEqual({ valid: true });
+        expect(result).toEqual({ valid: true, bank: COMMERZBANK });
       });
 
       it("should validate a valid Austrian IBAN", () => {
@@ -19,22 +31,22 @@ describe("IBAN Validator", () => {
 
       it("should validate a valid Polish IBAN", () => {
         const result = validateIban("PL61109010140000071219812874");
-        expect(result).toEqual({ valid: true });
+        expect(result).toEqual({ valid: true, bank: SANTANDER });
       });
 
       it("should validate IBANs with spaces (normalization)", () => {
         const result = validateIban("DE89 3704 0044 0532 0130 00");
-        expect(result).toEqual({ valid: true });
+        expect(result).toEqual({ valid: true, bank: COMMERZBANK });
       });
 
       it("should validate IBANs with lowercase letters (normalization)", () => {
         const result = validateIban("de89370400440532013000");
-        expect(result).toEqual({ valid: true });
+        expect(result).toEqual({ valid: true, bank: COMMERZBANK });
       });
 
       it("should validate IBANs with mixed case and spaces (normalization)", () => {
         const result = validateIban("De89 3704 0044 0532 0130 00");
-        expect(result).toEqual({ valid: true });
+        expect(result).toEqual({ valid: true, bank: COMMERZBANK });
       });
 
       it("should validate IBANs from unknown countries (length within 15-34)", () => {
@@ -63,6 +75,7 @@ describe("IBAN Validator", () => {
         expect(result).toEqual({
           valid: false,
           reason: "IBAN is too long (maximum 34 characters)",
+          errorSpan: { start: 34, end: 41 },
         });
       });
 
@@ -71,6 +84,7 @@ describe("IBAN Validator", () => {
         expect(result).toEqual({
           valid: false,
           reason: "Invalid length for DE (expected 22, got 23)",
+          errorSpan: { start: 22, end: 23 },
         });
       });
 
@@ -87,6 +101,7 @@ describe("IBAN Validator", () => {
         expect(result).toEqual({
           valid: false,
           reason: "Invalid length for PL (expected 28, got 30)",
+          errorSpan: { start: 28, end: 30 },
         });
       });
     });
@@ -97,12 +112,13 @@ describe("IBAN Validator", () => {
         expect(result).toEqual({
           valid: false,
           reason: "Invalid country code (must be 2 letters)",
+          errorSpan: { start: 0, end: 2 },
         });
       });
 
       it("should reject IBANs with lowercase country code", () => {
         const result = validateIban("de89370400440532013000");
-        expect(result).toEqual({ valid: true }); // This should pass due to normalization
+        expect(result).toEqual({ valid: true, bank: COMMERZBANK }); // This should pass due to normalization
       });
 
       it("should reject IBANs with numbers in country code", () => {
@@ -110,6 +126,7 @@ describe("IBAN Validator", () => {
         expect(result).toEqual({
           valid: false,
           reason: "Invalid country code (must be 2 letters)",
+          errorSpan: { start: 0, end: 2 },
         });
       });
 
@@ -118,6 +135,7 @@ describe("IBAN Validator", () => {
         expect(result).toEqual({
           valid: false,
           reason: "Invalid country code (must be 2 letters)",
+          errorSpan: { start: 0, end: 2 },
         });
       });
     });
@@ -128,6 +146,7 @@ describe("IBAN Validator", () => {
         expect(result).toEqual({
           valid: false,
           reason: "Invalid check digits (must be 2 digits)",
+          errorSpan: { start: 2, end: 4 },
         });
       });
 
@@ -136,6 +155,7 @@ describe("IBAN Validator", () => {
         expect(result).toEqual({
           valid: false,
           reason: "Invalid check digits (must be 2 digits)",
+          errorSpan: { start: 2, end: 4 },
         });
       });
 
@@ -144,6 +164,7 @@ describe("IBAN Validator", () => {
         expect(result).toEqual({
           valid: false,
           reason: "Invalid check digits (must be 2 digits)",
+          errorSpan: { start: 2, end: 4 },
         });
       });
 
@@ -162,6 +183,7 @@ describe("IBAN Validator", () => {
         expect(result).toEqual({
           valid: false,
           reason: "BBAN contains invalid characters (must be alphanumeric)",
+          errorSpan: { start: 4, end: 5 },
         });
       });
 
@@ -176,7 +198,7 @@ describe("IBAN Validator", () => {
 
       it("should reject IBANs with lowercase letters in BBAN", () => {
         const result = validateIban("DE89370400440532013000");
-        expect(result).toEqual({ valid: true }); // Uppercase conversion handles this
+        expect(result).toEqual({ valid: true, bank: COMMERZBANK }); // Uppercase conversion handles this
       });
     });
 
@@ -186,6 +208,7 @@ describe("IBAN Validator", () => {
         expect(result).toEqual({
           valid: false,
           reason: "Invalid checksum (mod-97 validation failed)",
+          errorSpan: { start: 2, end: 4 },
         });
       });
 
@@ -194,6 +217,7 @@ describe("IBAN Validator", () => {
         expect(result).toEqual({
           valid: false,
           reason: "Invalid checksum (mod-97 validation failed)",
+          errorSpan: { start: 2, end: 4 },
         });
       });
 
@@ -202,6 +226,7 @@ describe("IBAN Validator", () => {
         expect(result).toEqual({
           valid: false,
           reason: "Invalid checksum (mod-97 validation failed)",
+          errorSpan: { start: 2, end: 4 },
         });
       });
     });
@@ -246,6 +271,7 @@ describe("IBAN Validator", () => {
         expect(result).toEqual({
           valid: false,
           reason: "IBAN is too long (maximum 34 characters)",
+          errorSpan: { start: 34, end: 100 },
         });
       });
 
@@ -267,28 +293,28 @@ describe("IBAN Validator", () => {
     describe("Normalization behavior", () => {
       it("should remove all spaces from IBAN", () => {
         const result = validateIban("DE 89 3704 0044 0532 0130 00");
-        expect(result).toEqual({ valid: true });
+        expect(result).toEqual({ valid: true, bank: COMMERZBANK });
       });
 
       it("should convert lowercase to uppercase", () => {
         const result = validateIban("de89370400440532013000");
-        expect(result).toEqual({ valid: true });
+        expect(result).toEqual({ valid: true, bank: COMMERZBANK });
       });
 
       it("should handle mixed case and spaces", () => {
         const result = validateIban("De 89 3704 0044 0532 0130 00");
-        expect(result).toEqual({ valid: true });
+        expect(result).toEqual({ valid: true, bank: COMMERZBANK });
       });
 
       it("should handle multiple consecutive spaces", () => {
         const result = validateIban("DE  89  3704 0044 0532 0130 00");
-        expect(result).toEqual({ valid: true });
+        expect(result).toEqual({ valid: true, bank: COMMERZBANK });
       });
 
       it("should handle tabs and newlines as spaces", () => {
         const ibanWithTabs = "DE89\t3704\n0044 0532 0130 00";
         const result = validateIban(ibanWithTabs);
-        expect(result).toEqual({ valid: true });
+        expect(result).toEqual({ valid: true, bank: COMMERZBANK });
       });
     });
   });
@@ -0,0 +1,88 @@
+import React from "react";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, cleanup } from "@testing-library/react";
+import { userEvent } from "@testing-library/user-event";
+import AISuggestionDiff from "./AISuggestionDiff";
+
+const original = "Open app\nclick login\nsee error";
+const proposal = "Open the app\nclick login\nsee error\nCheck logs";
+
+describe("AISuggestionDiff", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("shows change hunks and the remaining quota", () => {
+    render(
+      <AISuggestionDiff
+        original={original}
+        proposal={proposal}
+        limits={{ remaining: 7, limit: 10, reset_at: "2026-01-11T00:00:00Z" }}
+        onAccept={vi.fn()}
+        onReject={vi.fn()}
+      />,
+    );
+
+    expect(screen.getAllByTestId("diff-hunk")).toHaveLength(2);
+    expect(screen.getByText("Pozostało zapytań AI dziś: 7/10")).toBeVisible();
+  });
+
+  it("accepts the whole proposal", async () => {
+    const user = userEvent.setup();
+    const onAccept = vi.fn();
+    render(
+      <AISuggestionDiff
+        original={original}
+        proposal={proposal}
+        onAccept={onAccept}
+        onReject={vi.fn()}
+      />,
+    );
+
+    await user.click(screen.getByRole("button", { name: /Akceptuj wszystko/ }));
+
+    expect(onAccept).toHaveBeenCalledWith(proposal);
+  });
+
+  it("applies only the selected hunks", async () => {
+    const user = userEvent.setup();
+    const onAccept = vi.fn();
+    render(
+      <AISuggestionDiff
+        original={original}
+        proposal={proposal}
+        onAccept={onAccept}
+        onReject={vi.fn()}
+      />,
+    );
+
+    await user.click(screen.getByLabelText("Akceptuj zmianę 1"));
+    await user.click(
+      screen.getByRole("button", { name: "Zastosuj zaznaczone (1/2)" }),
+    );
+
+    expect(onAccept).toHaveBeenCalledWith(
+      "Open app\nclick login\nsee error\nCheck logs",
+    );
+  });
+
+  it("rejects the proposal", async () => {
+    const user = userEvent.setup();
+    const onReject = vi.fn();
+    render(
+      <AISuggestionDiff
+        original={original}
+        proposal={original}
+        onAccept={vi.fn()}
+        onReject={onReject}
+      />,
+    );
+
+    expect(
+      screen.getByText("AI nie zaproponowało żadnych zmian."),
+    ).toBeVisible();
+    await user.click(screen.getByRole("button", { name: /Odrzuć/ }));
+
+    expect(onReject).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { Check, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { AILimitsDTO } from "@/types/types";
+import { applyDiffHunks, buildDiffSegments } from "@/lib/utils/text-diff";
+
+interface AISuggestionDiffProps {
+  original: string;
+  proposal: string;
+  limits?: AILimitsDTO | null;
+  /** Called with the text to keep: the whole proposal or selected hunks */
+  onAccept: (text: string) => void;
+  onReject: () => void;
+}
+
+/**
+ * Inline diff of an AI proposal against the original text.
+ * Each change hunk can be accepted on its own; all hunks start selected.
+ */
+export default function AISuggestionDiff({
+  original,
+  proposal,
+  limits = null,
+  onAccept,
+  onReject,
+}: AISuggestionDiffProps) {
+  const [segments] = useState(() => buildDiffSegments(original, proposal));
+  const hunkIds = segments.flatMap((segment) =>
+    segment.type === "change" ? [segment.hunk.id] : [],
+  );
+  const [accepted, setAccepted] = useState<ReadonlySet<number>>(
+    () => new Set(hunkIds),
+  );
+
+  const toggle = (id: number, checked: boolean) => {
+    setAccepted((prev) => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div
+      className="space-y-3 rounded-md border bg-muted/30 p-3"
+      role="region"
+      aria-label="Propozycja AI"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="text-sm font-medium">Propozycja AI</h4>
+        {limits && (
+          <span className="text-xs text-muted-foreground">
+            Pozostało zapytań AI dziś: {limits.remaining}/{limits.limit}
+          </span>
+        )}
+      </div>
+
+      {hunkIds.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          AI nie zaproponowało żadnych zmian.
+        </p>
+      ) : (
+        <div className="space-y-1 font-mono text-sm">
+          {segments.map((segment, index) =>
+            segment.type === "equal" ? (
+              <div
+                key={`equal-${index}`}
+                className="whitespace-pre-wrap text-muted-foreground"
+              >
+                {segment.lines.join("\n")}
+              </div>
+            ) : (
+              <div
+                key={`hunk-${segment.hunk.id}`}
+                className="flex gap-2 rounded border bg-background p-2"
+                data-testid="diff-hunk"
+              >
+                <input
+                  type="checkbox"
+                  checked={accepted.has(segment.hunk.id)}
+                  onChange={(e) => toggle(segment.hunk.id, e.target.checked)}
+                  aria-label={`Akceptuj zmianę ${segment.hunk.id + 1}`}
+                  className="mt-1 h-4 w-4 rounded border-gray-300"
+                />
+                <div className="min-w-0 flex-1 space-y-0.5">
+                  {segment.hunk.removed.map((line, lineIndex) => (
+                    <div
+                      key={`removed-${lineIndex}`}
+                      className="whitespace-pre-wrap bg-red-500/10 text-red-700 line-through dark:text-red-400"
+                    >
+                      <span aria-hidden="true">- </span>
+                      {line}
+                    </div>
+                  ))}
+                  {segment.hunk.added.map((line, lineIndex) => (
+                    <div
+                      key={`added-${lineIndex}`}
+                      className="whitespace-pre-wrap bg-green-500/10 text-green-700 dark:text-green-400"
+                    >
+                      <span aria-hidden="true">+ </span>
+                      {line}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ),
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {hunkIds.length > 0 && (
+          <>
+            <Button type="button" size="sm" onClick={() => onAccept(proposal)}>
+              <Check className="h-4 w-4" />
+              Akceptuj wszystko
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => onAccept(applyDiffHunks(segments, accepted))}
+              disabled={accepted.size === 0}
+            >
+              Zastosuj zaznaczone ({accepted.size}/{hunkIds.length})
+            </Button>
+          </>
+        )}
+        <Button type="button" size="sm" variant="ghost" onClick={onReject}>
+          <X className="h-4 w-4" />
+          Odrzuć
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { Loader2, Sparkles, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAIAssist } from "@/lib/hooks/useAIAssist";
+import type { AIContext, AIField } from "@/types/types";
+import AISuggestionDiff from "./AISuggestionDiff";
+
+interface ImproveWithAIProps {
+  context: AIContext;
+  field: AIField;
+  /** Current field value sent to the assistant */
+  text: string;
+  /** Receives the accepted text (whole proposal or selected hunks) */
+  onApply: (text: string) => void;
+  disabled?: boolean;
+}
+
+interface Suggestion {
+  original: string;
+  proposal: string;
+}
+
+/**
+ * "Improve with AI" button for a text field, with an inline accept/reject
+ * diff of the proposal. Place it under the field it edits.
+ *
+ * The proposal is streamed: partial text is shown while it arrives and the
+ * request can be stopped; the diff appears once the stream is complete.
+ */
+export default function ImproveWithAI({
+  context,
+  field,
+  text,
+  onApply,
+  disabled = false,
+}: ImproveWithAIProps) {
+  const { limits, isLoading, improveStream, cancel } = useAIAssist();
+  const [suggestion, setSuggestion] = useState<Suggestion | null>(null);
+  const [partial, setPartial] = useState("");
+
+  const handleImprove = async () => {
+    const original = text;
+    setPartial("");
+    const result = await improveStream(
+      { context, field, text: original },
+      setPartial,
+    );
+    setPartial("");
+    if (result) {
+      setSuggestion({ original, proposal: result.proposal });
+    }
+  };
+
+  const handleAccept = (accepted: string) => {
+    onApply(accepted);
+    setSuggestion(null);
+  };
+
+  if (suggestion) {
+    return (
+      <AISuggestionDiff
+        original={suggestion.original}
+        proposal={suggestion.proposal}
+        limits={limits}
+        onAccept={handleAccept}
+        onReject={() => setSuggestion(null)}
+      />
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div
+        className="space-y-2 rounded-md border border-dashed p-3"
+        role="status"
+        aria-label="Propozycja AI w przygotowaniu"
+      >
+        <div className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            AI przygotowuje propozycję...
+          </span>
+          <Button type="button" variant="ghost" size="sm" onClick={cancel}>
+            <Square className="h-3 w-3" />
+            Zatrzymaj
+          </Button>
+        </div>
+        {partial && (
+          <pre className="max-h-48 overflow-auto whitespace-pre-wrap text-sm">
+            {partial}
+          </pre>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => void handleImprove()}
+        disabled={disabled || !text.trim()}
+      >
+        <Sparkles className="h-4 w-4" />
+        Popraw z AI
+      </Button>
+      {limits && (
+        <span className="text-xs text-muted-foreground">
+          Pozostało dziś: {limits.remaining}/{limits.limit}
+        </span>
+      )}
+    </div>
+  );
+}
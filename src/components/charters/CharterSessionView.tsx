@@ -0,0 +1,319 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Download, Play, Plus, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useCharterSession } from "@/lib/hooks/useCharterSession";
+import type { CharterNoteDTO } from "@/types/types";
+import ImproveWithAI from "@/components/ai/ImproveWithAI";
+import CharterTimer from "./CharterTimer";
+import NoteComposer from "./NoteComposer";
+import NotesTimeline from "./NotesTimeline";
+import { NOTE_TAGS } from "./note-tags";
+
+/**
+ * Builds the initial summary text from the note counts of a finished session
+ */
+export function buildSummaryDraft(notes: CharterNoteDTO[]): string {
+  const counts = NOTE_TAGS.map(
+    (entry) =>
+      `${entry.label}: ${notes.filter((note) => note.tag === entry.tag).length}`,
+  );
+  return `${counts.join(", ")}\n\n`;
+}
+
+/**
+ * Exploration charter session: create (idle) → run with timer and tagged notes
+ * (active) → stop and summarize (closed).
+ *
+ * Shortcuts: Alt+N focuses the note field, Alt+T starts/stops the session,
+ * Alt+S saves the summary.
+ */
+export default function CharterSessionView() {
+  const {
+    charter,
+    notes,
+    notesCursor,
+    isLoading,
+    loadSession,
+    loadMoreNotes,
+    createCharter,
+    startCharter,
+    stopCharter,
+    saveSummary,
+    addNote,
+    resetSession,
+  } = useCharterSession();
+
+  const [goal, setGoal] = useState("");
+  const [hypotheses, setHypotheses] = useState("");
+  const [summary, setSummary] = useState("");
+  const [isStopDialogOpen, setIsStopDialogOpen] = useState(false);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const noteRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    void loadSession().finally(() => setHasLoaded(true));
+  }, [loadSession]);
+
+  const handleStop = useCallback(async () => {
+    setIsStopDialogOpen(false);
+    const stopped = await stopCharter();
+    if (stopped) {
+      setSummary(stopped.summary_notes ?? buildSummaryDraft(notes));
+    }
+  }, [stopCharter, notes]);
+
+  const handleSaveSummary = useCallback(async () => {
+    if (charter?.status !== "closed") {
+      return;
+    }
+    await saveSummary(summary);
+  }, [charter?.status, saveSummary, summary]);
+
+  const handleNewCharter = () => {
+    resetSession();
+    setGoal("");
+    setHypotheses("");
+    setSummary("");
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!goal.trim()) {
+      return;
+    }
+    await createCharter({
+      goal: goal.trim(),
+      hypotheses: hypotheses.trim() || null,
+    });
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!event.altKey || !charter) {
+        return;
+      }
+      if (event.code === "KeyN" && charter.status === "active") {
+        event.preventDefault();
+        noteRef.current?.focus();
+      } else if (event.code === "KeyT") {
+        event.preventDefault();
+        if (charter.status === "idle") {
+          void startCharter();
+        } else if (charter.status === "active") {
+          setIsStopDialogOpen(true);
+        }
+      } else if (event.code === "KeyS" && charter.status === "closed") {
+        event.preventDefault();
+        void handleSaveSummary();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [charter, startCharter, handleSaveSummary]);
+
+  if (!hasLoaded) {
+    return <p className="text-muted-foreground">Ładowanie sesji...</p>;
+  }
+
+  if (!charter) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Nowy charter</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="charter-goal">
+                Cel <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="charter-goal"
+                value={goal}
+                onChange={(e) => setGoal(e.target.value)}
+                maxLength={500}
+                placeholder="Np. Zbadaj proces logowania pod kątem obsługi błędów"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="charter-hypotheses">Hipotezy</Label>
+              <Textarea
+                id="charter-hypotheses"
+                value={hypotheses}
+                onChange={(e) => setHypotheses(e.target.value)}
+                maxLength={5000}
+                rows={4}
+              />
+              <ImproveWithAI
+                context="charter"
+                field="hypotheses"
+                text={hypotheses}
+                onApply={setHypotheses}
+              />
+            </div>
+            <Button type="submit" disabled={isLoading || !goal.trim()}>
+              <Plus className="h-4 w-4" />
+              Utwórz charter
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div className="space-y-1">
+              <CardTitle>{charter.goal}</CardTitle>
+              {charter.hypotheses && (
+                <p className="whitespace-pre-wrap text-sm text-muted-foreground">
+                  {charter.hypotheses}
+                </p>
+              )}
+            </div>
+            {charter.status !== "idle" && (
+              <CharterTimer
+                startedAt={charter.started_at}
+                endedAt={charter.ended_at}
+              />
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="flex flex-wrap gap-2">
+          {charter.status === "idle" && (
+            <Button onClick={() => void startCharter()} disabled={isLoading}>
+              <Play className="h-4 w-4" />
+              Rozpocznij sesję <kbd className="text-xs opacity-70">Alt+T</kbd>
+            </Button>
+          )}
+          {charter.status === "active" && (
+            <Button
+              variant="destructive"
+              onClick={() => setIsStopDialogOpen(true)}
+              disabled={isLoading}
+            >
+              <Square className="h-4 w-4" />
+              Zakończ sesję <kbd className="text-xs opacity-70">Alt+T</kbd>
+            </Button>
+          )}
+          {charter.status === "closed" && (
+            <>
+              <Button variant="outline" asChild>
+                <a
+                  href={`/api/charters/${charter.id}/export?format=md`}
+                  download
+                >
+                  <Download className="h-4 w-4" />
+                  Eksportuj Markdown
+                </a>
+              </Button>
+              <Button variant="outline" onClick={handleNewCharter}>
+                <Plus className="h-4 w-4" />
+                Nowy charter
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {charter.status === "active" && (
+        <Card>
+          <CardContent className="pt-6">
+            <NoteComposer onSubmit={addNote} textareaRef={noteRef} />
+            <p className="mt-2 text-xs text-muted-foreground">
+              Alt+N przenosi kursor do pola notatki.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {charter.status === "closed" && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Podsumowanie sesji</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Textarea
+              id="charter-summary"
+              aria-label="Podsumowanie sesji"
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
+              maxLength={10000}
+              rows={6}
+            />
+            <ImproveWithAI
+              context="charter"
+              field="notes"
+              text={summary}
+              onApply={setSummary}
+            />
+            <Button
+              onClick={() => void handleSaveSummary()}
+              disabled={isLoading}
+            >
+              Zapisz podsumowanie{" "}
+              <kbd className="text-xs opacity-70">Alt+S</kbd>
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {charter.status !== "idle" && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Notatki</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <NotesTimeline notes={notes} startedAt={charter.started_at} />
+            {notesCursor && (
+              <Button
+                variant="outline"
+                onClick={() => void loadMoreNotes()}
+                disabled={isLoading}
+              >
+                Załaduj starsze notatki
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog open={isStopDialogOpen} onOpenChange={setIsStopDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Zakończyć sesję?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Po zakończeniu nie będzie można dodawać notatek. Następnie
+              uzupełnisz podsumowanie sesji.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Anuluj</AlertDialogCancel>
+            <AlertDialogAction onClick={() => void handleStop()}>
+              Zakończ
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import React from "react";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen, act, cleanup } from "@testing-library/react";
+import CharterTimer, { formatElapsed } from "./CharterTimer";
+
+describe("formatElapsed", () => {
+  it("formats milliseconds as HH:MM:SS", () => {
+    expect(formatElapsed(0)).toBe("00:00:00");
+    expect(formatElapsed(61_000)).toBe("00:01:01");
+    expect(formatElapsed(3_725_999)).toBe("01:02:05");
+  });
+
+  it("clamps negative durations to zero", () => {
+    expect(formatElapsed(-5000)).toBe("00:00:00");
+  });
+});
+
+describe("CharterTimer", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T10:00:30Z"));
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+  });
+
+  it("ticks every second from started_at", () => {
+    render(<CharterTimer startedAt="2026-01-01T10:00:00Z" />);
+    expect(screen.getByRole("timer")).toHaveTextContent("00:00:30");
+
+    act(() => {
+      vi.advanceTimersByTime(2000);
+    });
+
+    expect(screen.getByRole("timer")).toHaveTextContent("00:00:32");
+  });
+
+  it("shows the final duration once the session has ended", () => {
+    render(
+      <CharterTimer
+        startedAt="2026-01-01T09:00:00Z"
+        endedAt="2026-01-01T09:45:10Z"
+      />,
+    );
+
+    act(() => {
+      vi.advanceTimersByTime(5000);
+    });
+
+    expect(screen.getByRole("timer")).toHaveTextContent("00:45:10");
+  });
+});
@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import { Timer } from "lucide-react";
+
+interface CharterTimerProps {
+  startedAt: string;
+  endedAt?: string | null;
+}
+
+/**
+ * Formats elapsed milliseconds as HH:MM:SS (negative values clamp to zero)
+ */
+export function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds]
+    .map((part) => String(part).padStart(2, "0"))
+    .join(":");
+}
+
+/**
+ * Session clock derived from the charter's started_at timestamp.
+ * Ticks every second while the session runs; freezes once endedAt is set.
+ */
+export default function CharterTimer({
+  startedAt,
+  endedAt,
+}: CharterTimerProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (endedAt) {
+      return;
+    }
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [endedAt]);
+
+  const end = endedAt ? new Date(endedAt).getTime() : now;
+  const elapsed = end - new Date(startedAt).getTime();
+
+  return (
+    <div
+      className="inline-flex items-center gap-2 font-mono text-2xl tabular-nums"
+      role="timer"
+      aria-label="Czas trwania sesji"
+    >
+      <Timer className="h-5 w-5 text-muted-foreground" />
+      {formatElapsed(elapsed)}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import type { KeyboardEvent, RefObject } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import type { CharterNoteTag, CreateCharterNoteCommand } from "@/types/types";
+import { NOTE_TAGS } from "./note-tags";
+
+interface NoteComposerProps {
+  onSubmit: (note: CreateCharterNoteCommand) => Promise<unknown>;
+  disabled?: boolean;
+  textareaRef?: RefObject<HTMLTextAreaElement | null>;
+}
+
+/**
+ * Keyboard-first note entry.
+ * Enter saves the note, Shift+Enter inserts a newline, Alt+1..4 switches the tag.
+ */
+export default function NoteComposer({
+  onSubmit,
+  disabled = false,
+  textareaRef,
+}: NoteComposerProps) {
+  const [body, setBody] = useState("");
+  const [tag, setTag] = useState<CharterNoteTag>("bug");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async () => {
+    const trimmed = body.trim();
+    if (!trimmed || isSubmitting) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const created = await onSubmit({ body: trimmed, tag });
+      if (created) {
+        setBody("");
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.altKey) {
+      const match = NOTE_TAGS.find(
+        (entry) => event.code === `Digit${entry.shortcut}`,
+      );
+      if (match) {
+        event.preventDefault();
+        setTag(match.tag);
+        return;
+      }
+    }
+    if (event.key === "Enter" && !event.shiftKey) {
+      event.preventDefault();
+      void submit();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="charter-note">Nowa notatka</Label>
+      <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Tag">
+        {NOTE_TAGS.map((entry) => (
+          <button
+            key={entry.tag}
+            type="button"
+            role="radio"
+            aria-checked={tag === entry.tag}
+            onClick={() => setTag(entry.tag)}
+            className={cn(
+              "px-2 py-1 rounded text-sm border transition-colors focus:outline-none focus:ring-2 focus:ring-ring",
+              tag === entry.tag
+                ? cn(entry.className, "border-transparent")
+                : "border-input text-muted-foreground hover:bg-muted",
+            )}
+          >
+            {entry.label}{" "}
+            <kbd className="text-xs opacity-70">Alt+{entry.shortcut}</kbd>
+          </button>
+        ))}
+      </div>
+      <Textarea
+        id="charter-note"
+        ref={textareaRef}
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={handleKeyDown}
+        disabled={disabled || isSubmitting}
+        rows={3}
+        maxLength={5000}
+        placeholder="Co zauważyłeś? Enter zapisuje, Shift+Enter dodaje nową linię"
+      />
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          size="sm"
+          onClick={() => void submit()}
+          disabled={disabled || isSubmitting || !body.trim()}
+        >
+          Dodaj notatkę
+        </Button>
+      </div>
+    </div>
+  );
+}
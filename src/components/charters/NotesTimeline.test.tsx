@@ -0,0 +1,67 @@
+import React from "react";
+import { describe, it, expect, afterEach } from "vitest";
+import { render, screen, cleanup } from "@testing-library/react";
+import { userEvent } from "@testing-library/user-event";
+import NotesTimeline from "./NotesTimeline";
+import type { CharterNoteDTO } from "@/types/types";
+
+const note = (
+  id: string,
+  tag: CharterNoteDTO["tag"],
+  body: string,
+): CharterNoteDTO => ({
+  id,
+  tag,
+  body,
+  charter_id: "charter-1",
+  user_id: "user-1",
+  noted_at: "2026-01-01T10:05:00Z",
+});
+
+describe("NotesTimeline", () => {
+  const notes = [
+    note("1", "bug", "Login button does nothing"),
+    note("2", "idea", "Add remember-me"),
+    note("3", "bug", "Crash on empty password"),
+  ];
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("renders all notes with per-tag counts", () => {
+    render(<NotesTimeline notes={notes} />);
+
+    expect(screen.getAllByRole("listitem")).toHaveLength(3);
+    expect(
+      screen.getByRole("button", { name: "Wszystkie (3)" }),
+    ).toHaveAttribute("aria-pressed", "true");
+    expect(
+      screen.getByRole("button", { name: "Błąd (2)" }),
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: "Pomysł (1)" }),
+    ).toBeInTheDocument();
+  });
+
+  it("filters notes by tag", async () => {
+    const user = userEvent.setup();
+    render(<NotesTimeline notes={notes} />);
+
+    await user.click(screen.getByRole("button", { name: "Pomysł (1)" }));
+
+    expect(screen.getAllByRole("listitem")).toHaveLength(1);
+    expect(screen.getByText("Add remember-me")).toBeInTheDocument();
+  });
+
+  it("shows an empty state when the filter has no matches", async () => {
+    const user = userEvent.setup();
+    render(<NotesTimeline notes={notes} />);
+
+    await user.click(screen.getByRole("button", { name: "Ryzyko (0)" }));
+
+    expect(
+      screen.getByText("Brak notatek z wybranym tagiem."),
+    ).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,124 @@
+import { useMemo, useState } from "react";
+import { cn } from "@/lib/utils";
+import type { CharterNoteDTO, CharterNoteTag } from "@/types/types";
+import { NOTE_TAGS, getNoteTagConfig } from "./note-tags";
+
+interface NotesTimelineProps {
+  notes: CharterNoteDTO[];
+  startedAt?: string;
+}
+
+type TagFilter = CharterNoteTag | "all";
+
+function formatOffset(notedAt: string, startedAt?: string): string {
+  const time = new Date(notedAt).toLocaleTimeString("pl-PL", {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  if (!startedAt) {
+    return time;
+  }
+  const minutes = Math.max(
+    0,
+    Math.floor(
+      (new Date(notedAt).getTime() - new Date(startedAt).getTime()) / 60000,
+    ),
+  );
+  return `${time} (+${minutes} min)`;
+}
+
+/**
+ * Newest-first list of session notes with a per-tag filter
+ */
+export default function NotesTimeline({
+  notes,
+  startedAt,
+}: NotesTimelineProps) {
+  const [filter, setFilter] = useState<TagFilter>("all");
+
+  const counts = useMemo(() => {
+    const result: Record<CharterNoteTag, number> = {
+      bug: 0,
+      idea: 0,
+      question: 0,
+      risk: 0,
+    };
+    for (const note of notes) {
+      result[note.tag] += 1;
+    }
+    return result;
+  }, [notes]);
+
+  const visible =
+    filter === "all" ? notes : notes.filter((note) => note.tag === filter);
+
+  const filters: { value: TagFilter; label: string; count: number }[] = [
+    { value: "all", label: "Wszystkie", count: notes.length },
+    ...NOTE_TAGS.map((entry) => ({
+      value: entry.tag,
+      label: entry.label,
+      count: counts[entry.tag],
+    })),
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2" aria-label="Filtruj notatki">
+        {filters.map((item) => (
+          <button
+            key={item.value}
+            type="button"
+            aria-pressed={filter === item.value}
+            onClick={() => setFilter(item.value)}
+            className={cn(
+              "px-2 py-1 rounded text-sm border focus:outline-none focus:ring-2 focus:ring-ring",
+              filter === item.value
+                ? "bg-primary text-primary-foreground border-transparent"
+                : "border-input hover:bg-muted",
+            )}
+          >
+            {item.label} ({item.count})
+          </button>
+        ))}
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {notes.length === 0
+            ? "Brak notatek w tej sesji."
+            : "Brak notatek z wybranym tagiem."}
+        </p>
+      ) : (
+        <ol className="space-y-2">
+          {visible.map((note) => {
+            const config = getNoteTagConfig(note.tag);
+            return (
+              <li
+                key={note.id}
+                className="flex gap-3 rounded-md border p-3 text-sm"
+              >
+                <span
+                  className={cn(
+                    "h-fit shrink-0 rounded px-2 py-0.5 text-xs font-medium",
+                    config.className,
+                  )}
+                >
+                  {config.label}
+                </span>
+                <div className="min-w-0 flex-1">
+                  <p className="whitespace-pre-wrap break-words">{note.body}</p>
+                  <time
+                    dateTime={note.noted_at}
+                    className="text-xs text-muted-foreground"
+                  >
+                    {formatOffset(note.noted_at, startedAt)}
+                  </time>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
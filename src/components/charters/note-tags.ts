@@ -0,0 +1,41 @@
+import type { CharterNoteTag } from "@/types/types";
+
+/** Display order, labels and keyboard shortcuts (Alt+digit) for note tags */
+export const NOTE_TAGS: {
+  tag: CharterNoteTag;
+  label: string;
+  shortcut: string;
+  className: string;
+}[] = [
+  {
+    tag: "bug",
+    label: "Błąd",
+    shortcut: "1",
+    className: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200",
+  },
+  {
+    tag: "risk",
+    label: "Ryzyko",
+    shortcut: "2",
+    className:
+      "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200",
+  },
+  {
+    tag: "question",
+    label: "Pytanie",
+    shortcut: "3",
+    className:
+      "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200",
+  },
+  {
+    tag: "idea",
+    label: "Pomysł",
+    shortcut: "4",
+    className:
+      "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200",
+  },
+];
+
+export function getNoteTagConfig(tag: CharterNoteTag) {
+  return NOTE_TAGS.find((entry) => entry.tag === tag) ?? NOTE_TAGS[0];
+}
@@ -16,6 +16,12 @@ import {
   Wallet,
   Hash,
   Type,
+  IdCard,
+  Receipt,
+  Landmark,
+  Fingerprint,
+  HeartPulse,
+  Table,
   HelpCircle,
 } from "lucide-react";
 
@@ -34,6 +40,12 @@ const iconMap: Record<string, typeof HelpCircle> = {
   Wallet,
   Hash,
   Type,
+  IdCard,
+  Receipt,
+  Landmark,
+  Fingerprint,
+  HeartPulse,
+  Table,
   HelpCircle,
 };
 
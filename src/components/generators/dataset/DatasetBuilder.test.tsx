@@ -0,0 +1,169 @@
+import React from "react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, within } from "@testing-library/react";
+import { userEvent } from "@testing-library/user-event";
+import DatasetBuilder from "./DatasetBuilder";
+import { useGeneratorApi } from "@/lib/hooks/useGeneratorApi";
+import { toast } from "sonner";
+
+const mockPreviewDataset = vi.fn();
+const mockDownloadDataset = vi.fn();
+vi.mock("@/lib/hooks/useGeneratorApi", () => ({
+  useGeneratorApi: vi.fn(),
+}));
+
+vi.mock("sonner", () => ({
+  toast: { success: vi.fn() },
+}));
+
+// Mock Toaster
+vi.mock("@/components/ui/sonner", () => ({
+  Toaster: vi.fn(() => <div data-testid="toaster" />),
+}));
+
+function mockApi(overrides: Partial<ReturnType<typeof useGeneratorApi>> = {}) {
+  vi.mocked(useGeneratorApi).mockReturnValue({
+    generate: vi.fn(),
+    validateCard: vi.fn(),
+    previewDataset: mockPreviewDataset,
+    downloadDataset: mockDownloadDataset,
+    isLoading: false,
+    error: null,
+    clearError: vi.fn(),
+    ...overrides,
+  });
+}
+
+describe("DatasetBuilder", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockApi();
+  });
+
+  it("should start with a customer record template", () => {
+    render(<DatasetBuilder />);
+
+    expect(screen.getAllByTestId("dataset-column")).toHaveLength(6);
+    expect(screen.getByLabelText("Column 1 name")).toHaveValue("full_name");
+    expect(screen.getByLabelText("Column 3 name")).toHaveValue("email");
+  });
+
+  it("should add and remove columns", async () => {
+    const user = userEvent.setup();
+    render(<DatasetBuilder />);
+
+    await user.click(screen.getByRole("button", { name: "Add column" }));
+    expect(screen.getByLabelText("Column 7 name")).toHaveValue("column_7");
+
+    await user.click(
+      screen.getByRole("button", { name: "Remove column full_name" }),
+    );
+    expect(screen.getAllByTestId("dataset-column")).toHaveLength(6);
+    expect(screen.getByLabelText("Column 1 name")).toHaveValue("birth_date");
+  });
+
+  it("should reject duplicate and invalid column names", () => {
+    render(<DatasetBuilder />);
+
+    fireEvent.change(screen.getByLabelText("Column 2 name"), {
+      target: { value: "full_name" },
+    });
+    expect(screen.getByText("Column names must be unique")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: /Download/ })).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText("Column 2 name"), {
+      target: { value: "birth date" },
+    });
+    expect(
+      screen.getByText(
+        "Use letters, digits and underscores, starting with a letter",
+      ),
+    ).toBeInTheDocument();
+  });
+
+  it("should validate the row count", () => {
+    render(<DatasetBuilder />);
+
+    fireEvent.change(screen.getByLabelText("Rows"), {
+      target: { value: "1001" },
+    });
+
+    expect(
+      screen.getByText("Rows must be a whole number from 1 to 1000"),
+    ).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Preview" })).toBeDisabled();
+  });
+
+  it("should preview the first rows", async () => {
+    mockPreviewDataset.mockResolvedValue([
+      {
+        full_name: "Anna Nowak",
+        birth_date: "1990-04-12",
+        email: "anna.nowak@example.com",
+        phone: "+48 512 345 678",
+        address: "ul. Kwiatowa 15, 00-001 Warszawa",
+        iban: "PL61109010140000071219812874",
+      },
+    ]);
+    render(<DatasetBuilder />);
+
+    fireEvent.change(screen.getByLabelText("Seed (optional)"), {
+      target: { value: "customers" },
+    });
+    await userEvent
+      .setup()
+      .click(screen.getByRole("button", { name: "Preview" }));
+
+    expect(mockPreviewDataset).toHaveBeenCalledWith(
+      expect.objectContaining({
+        country: "PL",
+        count: 100,
+        seed: "customers",
+        format: "csv",
+      }),
+    );
+    const table = await screen.findByRole("table", {
+      name: "Dataset preview",
+    });
+    expect(within(table).getByText("Anna Nowak")).toBeInTheDocument();
+    expect(within(table).getByText("iban")).toBeInTheDocument();
+  });
+
+  it("should download the dataset and keep the generated seed", async () => {
+    const createObjectURL = vi.fn(() => "blob:dataset");
+    const revokeObjectURL = vi.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    const click = vi
+      .spyOn(HTMLAnchorElement.prototype, "click")
+      .mockImplementation(() => undefined);
+    mockDownloadDataset.mockResolvedValue({
+      blob: new Blob(["full_name\r\n"]),
+      fileName: "dataset-PL-1a2b3c4d.csv",
+      seed: "1a2b3c4d",
+    });
+    render(<DatasetBuilder />);
+
+    await userEvent
+      .setup()
+      .click(screen.getByRole("button", { name: /Download/ }));
+
+    expect(mockDownloadDataset).toHaveBeenCalledWith(
+      expect.objectContaining({ country: "PL", count: 100, seed: undefined }),
+    );
+    expect(click).toHaveBeenCalled();
+    expect(toast.success).toHaveBeenCalledWith("Downloaded 100 rows");
+    expect(await screen.findByLabelText("Seed (optional)")).toHaveValue(
+      "1a2b3c4d",
+    );
+    click.mockRestore();
+  });
+
+  it("should show API errors", () => {
+    mockApi({
+      error: { code: "VALIDATION_ERROR", message: "count: too many" },
+    });
+    render(<DatasetBuilder />);
+
+    expect(screen.getByText("count: too many")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,477 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Toaster } from "@/components/ui/sonner";
+import {
+  AlertCircle,
+  Download,
+  Eye,
+  Loader2,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { useGeneratorApi } from "@/lib/hooks/useGeneratorApi";
+import {
+  DATASET_COLUMN_KINDS,
+  DATASET_FIELDS,
+  MAX_DATASET_COLUMNS,
+  MAX_DATASET_ROWS,
+} from "@/lib/services/dataset.service";
+import {
+  DATASET_EXPORT_FORMATS,
+  DATASET_IDENTIFIER_PATTERN,
+  DEFAULT_DATASET_TABLE,
+} from "@/lib/utils/dataset-export";
+import type {
+  DatasetColumn,
+  DatasetColumnKind,
+  DatasetExportFormat,
+  DatasetRequest,
+  DatasetRow,
+  LocalDataCountry,
+} from "@/types/types";
+
+const KIND_LABELS: Record<DatasetColumnKind, string> = {
+  person: "Person",
+  phone: "Phone Number",
+  address: "Address",
+  plates: "License Plate",
+  email: "Email Address",
+  company: "Company Name",
+  card: "Payment Card",
+  guid: "GUID/UUID",
+  string: "Random String",
+  iban: "IBAN",
+  pesel: "PESEL",
+  nip: "NIP",
+  regon: "REGON",
+  steuerid: "Steuer-IdNr",
+  svnr: "SVNR",
+};
+
+const FORMAT_LABELS: Record<DatasetExportFormat, string> = {
+  csv: "CSV",
+  json: "JSON",
+  sql: "SQL INSERT statements",
+};
+
+// A typical customer record to start from
+const DEFAULT_COLUMNS: DatasetColumn[] = [
+  { name: "full_name", kind: "person" },
+  { name: "birth_date", kind: "person", field: "birth_date" },
+  { name: "email", kind: "email" },
+  { name: "phone", kind: "phone" },
+  { name: "address", kind: "address" },
+  { name: "iban", kind: "iban" },
+];
+
+function getColumnErrors(columns: DatasetColumn[]): (string | null)[] {
+  return columns.map((column, index) => {
+    if (!DATASET_IDENTIFIER_PATTERN.test(column.name)) {
+      return "Use letters, digits and underscores, starting with a letter";
+    }
+    if (columns.findIndex((other) => other.name === column.name) !== index) {
+      return "Column names must be unique";
+    }
+    return null;
+  });
+}
+
+/**
+ * Build whole test records from named columns and export them as CSV, JSON
+ * or SQL. The fields of a row stay consistent: email, PESEL and SVNR
+ * columns follow the row's person, addresses, phones and IBANs the country.
+ */
+export default function DatasetBuilder() {
+  const { previewDataset, downloadDataset, isLoading, error } =
+    useGeneratorApi();
+  const [country, setCountry] = useState<LocalDataCountry>("PL");
+  const [columns, setColumns] = useState<DatasetColumn[]>(DEFAULT_COLUMNS);
+  const [countInput, setCountInput] = useState("100");
+  const [seed, setSeed] = useState("");
+  const [format, setFormat] = useState<DatasetExportFormat>("csv");
+  const [table, setTable] = useState(DEFAULT_DATASET_TABLE);
+  const [preview, setPreview] = useState<DatasetRow[] | null>(null);
+
+  const count = Number(countInput);
+  const countError =
+    Number.isInteger(count) && count >= 1 && count <= MAX_DATASET_ROWS
+      ? null
+      : `Rows must be a whole number from 1 to ${MAX_DATASET_ROWS}`;
+  const tableError =
+    format === "sql" && !DATASET_IDENTIFIER_PATTERN.test(table)
+      ? "Use letters, digits and underscores, starting with a letter"
+      : null;
+  const columnErrors = getColumnErrors(columns);
+  const isInvalid =
+    !!countError ||
+    !!tableError ||
+    columns.length === 0 ||
+    columnErrors.some(Boolean);
+
+  const buildRequest = (): DatasetRequest => ({
+    country,
+    columns,
+    count,
+    seed: seed.trim() || undefined,
+    format,
+    table: format === "sql" ? table : undefined,
+  });
+
+  const updateColumn = (index: number, changes: Partial<DatasetColumn>) => {
+    setColumns((current) =>
+      current.map((column, i) =>
+        i === index ? { ...column, ...changes } : column,
+      ),
+    );
+    setPreview(null);
+  };
+
+  const addColumn = () => {
+    setColumns((current) => [
+      ...current,
+      { name: `column_${current.length + 1}`, kind: "guid" },
+    ]);
+    setPreview(null);
+  };
+
+  const removeColumn = (index: number) => {
+    setColumns((current) => current.filter((_, i) => i !== index));
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    if (isInvalid) {
+      return;
+    }
+    setPreview(await previewDataset(buildRequest()));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (isInvalid) {
+      return;
+    }
+
+    const download = await downloadDataset(buildRequest());
+    if (!download) {
+      return;
+    }
+
+    const url = URL.createObjectURL(download.blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = download.fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    if (!seed.trim()) {
+      setSeed(download.seed);
+    }
+    toast.success(`Downloaded ${count} rows`);
+  };
+
+  return (
+    <div className="space-y-6" data-testid="dataset-root">
+      <Card>
+        <CardHeader>
+          <CardTitle id="dataset-builder-title">Dataset Builder</CardTitle>
+          <CardDescription>
+            Combine generators into whole records. Row <em>i</em> uses the seed{" "}
+            <code className="text-xs">{`${seed.trim() || "<seed>"}-i`}</code>,
+            so the same seed always gives the same file
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            onSubmit={handleSubmit}
+            className="space-y-6"
+            aria-labelledby="dataset-builder-title"
+          >
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="dataset-country">Country</Label>
+                <Select
+                  value={country}
+                  onValueChange={(value) => {
+                    setCountry(value as LocalDataCountry);
+                    setPreview(null);
+                  }}
+                >
+                  <SelectTrigger id="dataset-country">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="PL">Poland (PL)</SelectItem>
+                    <SelectItem value="DE">Germany (DE)</SelectItem>
+                    <SelectItem value="AT">Austria (AT)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="dataset-count">Rows</Label>
+                <Input
+                  id="dataset-count"
+                  type="number"
+                  min={1}
+                  max={MAX_DATASET_ROWS}
+                  value={countInput}
+                  onChange={(e) => setCountInput(e.target.value)}
+                  aria-invalid={!!countError}
+                  aria-describedby={
+                    countError ? "dataset-count-error" : undefined
+                  }
+                />
+                {countError && (
+                  <p
+                    id="dataset-count-error"
+                    className="text-sm text-destructive"
+                  >
+                    {countError}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="dataset-seed">Seed (optional)</Label>
+                <Input
+                  id="dataset-seed"
+                  type="text"
+                  value={seed}
+                  onChange={(e) => {
+                    setSeed(e.target.value);
+                    setPreview(null);
+                  }}
+                  placeholder="e.g., customers"
+                />
+              </div>
+            </div>
+
+            <fieldset className="space-y-3">
+              <legend className="text-sm font-medium">Columns</legend>
+              {columns.map((column, index) => {
+                const fields = DATASET_FIELDS[column.kind];
+                const columnError = columnErrors[index];
+                return (
+                  <div
+                    key={index}
+                    className="grid gap-2 sm:grid-cols-[1fr_1fr_1fr_auto]"
+                    data-testid="dataset-column"
+                  >
+                    <div>
+                      <Input
+                        aria-label={`Column ${index + 1} name`}
+                        value={column.name}
+                        onChange={(e) =>
+                          updateColumn(index, { name: e.target.value })
+                        }
+                        aria-invalid={!!columnError}
+                        className="font-mono"
+                      />
+                      {columnError && (
+                        <p className="text-sm text-destructive">
+                          {columnError}
+                        </p>
+                      )}
+                    </div>
+                    <Select
+                      value={column.kind}
+                      onValueChange={(value) =>
+                        updateColumn(index, {
+                          kind: value as DatasetColumnKind,
+                          field: undefined,
+                        })
+                      }
+                    >
+                      <SelectTrigger aria-label={`Column ${index + 1} kind`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DATASET_COLUMN_KINDS.map((kind) => (
+                          <SelectItem key={kind} value={kind}>
+                            {KIND_LABELS[kind]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={column.field ?? fields[0]}
+                      onValueChange={(value) =>
+                        updateColumn(index, {
+                          field: value === fields[0] ? undefined : value,
+                        })
+                      }
+                    >
+                      <SelectTrigger aria-label={`Column ${index + 1} field`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {fields.map((field) => (
+                          <SelectItem key={field} value={field}>
+                            {field}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeColumn(index)}
+                      aria-label={`Remove column ${column.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={addColumn}
+                disabled={columns.length >= MAX_DATASET_COLUMNS}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add column
+              </Button>
+            </fieldset>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="dataset-format">File format</Label>
+                <Select
+                  value={format}
+                  onValueChange={(value) =>
+                    setFormat(value as DatasetExportFormat)
+                  }
+                >
+                  <SelectTrigger id="dataset-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATASET_EXPORT_FORMATS.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {FORMAT_LABELS[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {format === "sql" && (
+                <div className="space-y-2">
+                  <Label htmlFor="dataset-table">Table name</Label>
+                  <Input
+                    id="dataset-table"
+                    type="text"
+                    value={table}
+                    onChange={(e) => setTable(e.target.value)}
+                    aria-invalid={!!tableError}
+                    className="font-mono"
+                  />
+                  {tableError && (
+                    <p className="text-sm text-destructive">{tableError}</p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error.message}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1"
+                onClick={handlePreview}
+                disabled={isLoading || isInvalid}
+              >
+                <Eye className="mr-2 h-4 w-4" />
+                Preview
+              </Button>
+              <Button
+                type="submit"
+                className="flex-1"
+                disabled={isLoading || isInvalid}
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Preparing file...
+                  </>
+                ) : (
+                  <>
+                    <Download className="mr-2 h-4 w-4" />
+                    Download
+                  </>
+                )}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {preview && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Preview</CardTitle>
+            <CardDescription>
+              The first {preview.length} rows of the dataset
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <table className="w-full text-sm" aria-label="Dataset preview">
+              <thead>
+                <tr>
+                  {columns.map((column) => (
+                    <th key={column.name} className="p-2 text-left font-mono">
+                      {column.name}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {preview.map((row, index) => (
+                  <tr key={index} className="border-t">
+                    {columns.map((column) => (
+                      <td key={column.name} className="p-2 font-mono">
+                        {String(row[column.name] ?? "")}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Toaster />
+    </div>
+  );
+}
@@ -9,7 +9,7 @@ export const generatorsMeta: GeneratorMeta[] = [
     kind: "iban",
     name: "IBAN Generator",
     description:
-      "Generate and validate IBAN numbers for Germany, Austria, and Poland with optional deterministic seed.",
+      "Generate and validate IBAN numbers for all SEPA countries with optional deterministic seed.",
     href: "/generators/iban",
     icon: "CreditCard",
     example: "DE89370400440532013000",
@@ -61,7 +61,7 @@ export const generatorsMeta: GeneratorMeta[] = [
     kind: "card",
     name: "Payment Card",
     description:
-      "Generate valid test payment card numbers (Visa, Mastercard) with Luhn checksum.",
+      "Generate valid test payment card numbers (Visa, Mastercard, Amex, Maestro) with Luhn checksum, expiry date and CVV.",
     href: "/generators/card",
     icon: "Wallet",
     example: "4532 1234 5678 9010",
@@ -83,4 +83,58 @@ export const generatorsMeta: GeneratorMeta[] = [
     icon: "Type",
     example: "aB3xY9mK2pQ7",
   },
+  {
+    kind: "pesel",
+    name: "PESEL",
+    description:
+      "Generate valid Polish PESEL numbers encoding a chosen date of birth and sex.",
+    href: "/generators/pesel",
+    icon: "IdCard",
+    example: "44051401359",
+  },
+  {
+    kind: "nip",
+    name: "NIP",
+    description:
+      "Generate valid Polish tax identification numbers (NIP) with check digit.",
+    href: "/generators/nip",
+    icon: "Receipt",
+    example: "123-456-32-18",
+  },
+  {
+    kind: "regon",
+    name: "REGON",
+    description:
+      "Generate valid Polish REGON business register numbers (9 or 14 digits).",
+    href: "/generators/regon",
+    icon: "Landmark",
+    example: "123456785",
+  },
+  {
+    kind: "steuerid",
+    name: "Steuer-IdNr",
+    description:
+      "Generate valid German tax identification numbers (Steuerliche Identifikationsnummer).",
+    href: "/generators/steuerid",
+    icon: "Fingerprint",
+    example: "86 095 742 719",
+  },
+  {
+    kind: "svnr",
+    name: "SVNR",
+    description:
+      "Generate valid Austrian social insurance numbers (Sozialversicherungsnummer).",
+    href: "/generators/svnr",
+    icon: "HeartPulse",
+    example: "1237 010180",
+  },
+  {
+    kind: "dataset",
+    name: "Dataset Builder",
+    description:
+      "Combine generators into consistent test records and export them as CSV, JSON or SQL INSERT statements.",
+    href: "/generators/dataset",
+    icon: "Table",
+    example: "full_name,email,iban",
+  },
 ];
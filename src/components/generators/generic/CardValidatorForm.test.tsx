@@ -0,0 +1,93 @@
+import React from "react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { userEvent } from "@testing-library/user-event";
+import CardValidatorForm from "./CardValidatorForm";
+import { useGeneratorApi } from "@/lib/hooks/useGeneratorApi";
+
+const mockValidateCard = vi.fn();
+vi.mock("@/lib/hooks/useGeneratorApi", () => ({
+  useGeneratorApi: vi.fn(),
+}));
+
+function mockApi(overrides: Partial<ReturnType<typeof useGeneratorApi>> = {}) {
+  vi.mocked(useGeneratorApi).mockReturnValue({
+    generate: vi.fn(),
+    validateCard: mockValidateCard,
+    previewDataset: vi.fn(),
+    downloadDataset: vi.fn(),
+    isLoading: false,
+    error: null,
+    clearError: vi.fn(),
+    ...overrides,
+  });
+}
+
+async function validateNumber(number: string) {
+  fireEvent.change(screen.getByLabelText("Card number"), {
+    target: { value: number },
+  });
+  await userEvent
+    .setup()
+    .click(screen.getByRole("button", { name: "Validate Card" }));
+}
+
+describe("CardValidatorForm", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockApi();
+  });
+
+  it("should disable submit without a number", () => {
+    render(<CardValidatorForm />);
+
+    expect(
+      screen.getByRole("button", { name: "Validate Card" }),
+    ).toBeDisabled();
+  });
+
+  it("should show the detected network of a valid card", async () => {
+    mockValidateCard.mockResolvedValue({
+      valid: true,
+      normalized: "378282246310005",
+      network: "amex",
+    });
+    render(<CardValidatorForm />);
+
+    await validateNumber(" 3782 822463 10005 ");
+
+    expect(mockValidateCard).toHaveBeenCalledWith("3782 822463 10005");
+    expect(await screen.findByRole("status")).toHaveTextContent(
+      "Valid · American Express",
+    );
+  });
+
+  it("should show why a card is invalid", async () => {
+    mockValidateCard.mockResolvedValue({
+      valid: false,
+      normalized: "1234567890123",
+      reason: "Invalid Luhn check digit",
+    });
+    render(<CardValidatorForm />);
+
+    await validateNumber("1234567890123");
+
+    const status = await screen.findByRole("status");
+    expect(status).toHaveTextContent("Invalid · Unknown network");
+    expect(status).toHaveTextContent("Invalid Luhn check digit");
+  });
+
+  it("should show API errors", () => {
+    mockApi({
+      error: {
+        code: "VALIDATION_ERROR",
+        message: "number: number parameter is required",
+      },
+    });
+    render(<CardValidatorForm />);
+
+    expect(
+      screen.getByText("number: number parameter is required"),
+    ).toBeInTheDocument();
+  });
+});
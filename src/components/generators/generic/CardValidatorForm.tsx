@@ -0,0 +1,124 @@
+import { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, CheckCircle2, Loader2, XCircle } from "lucide-react";
+import { useGeneratorApi } from "@/lib/hooks/useGeneratorApi";
+import { CARD_NETWORKS } from "@/lib/utils/card-networks";
+import type { CardValidationResponse } from "@/types/types";
+
+/**
+ * Validate a payment card number: detected network, length and Luhn check
+ */
+export default function CardValidatorForm() {
+  const { validateCard, isLoading, error } = useGeneratorApi();
+  const [number, setNumber] = useState("");
+  const [result, setResult] = useState<CardValidationResponse | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (!number.trim()) {
+      return;
+    }
+
+    setResult(await validateCard(number.trim()));
+  };
+
+  const networkLabel = result?.network
+    ? CARD_NETWORKS[result.network].label
+    : "Unknown network";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle id="card-validator-title">Validate Card Number</CardTitle>
+        <CardDescription>
+          Detect the card network and check the length and Luhn check digit
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          onSubmit={handleSubmit}
+          className="space-y-4"
+          aria-labelledby="card-validator-title"
+        >
+          <div className="space-y-2">
+            <Label htmlFor="card-number">Card number</Label>
+            <Input
+              id="card-number"
+              type="text"
+              inputMode="numeric"
+              value={number}
+              onChange={(e) => {
+                setNumber(e.target.value);
+                setResult(null);
+              }}
+              placeholder="e.g., 4111 1111 1111 1111"
+              className="font-mono"
+            />
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error.message}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={isLoading || !number.trim()}
+          >
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Validating...
+              </>
+            ) : (
+              "Validate Card"
+            )}
+          </Button>
+        </form>
+
+        {result && (
+          <div
+            role="status"
+            aria-live="polite"
+            className="flex items-start gap-2 rounded-lg border p-3 text-sm"
+          >
+            {result.valid ? (
+              <CheckCircle2
+                className="h-5 w-5 text-green-600"
+                aria-hidden="true"
+              />
+            ) : (
+              <XCircle
+                className="h-5 w-5 text-destructive"
+                aria-hidden="true"
+              />
+            )}
+            <div>
+              <p className="font-medium">
+                {result.valid ? "Valid" : "Invalid"} · {networkLabel}
+              </p>
+              {result.reason && (
+                <p className="text-muted-foreground">{result.reason}</p>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
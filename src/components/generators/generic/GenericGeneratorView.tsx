@@ -1,3 +1,4 @@
+import { useEffect, useState } from "react";
 import {
   Card,
   CardContent,
@@ -5,48 +6,471 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { AlertCircle } from "lucide-react";
-import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import type { GeneratorKind } from "@/types/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Toaster } from "@/components/ui/sonner";
+import { Loader2, AlertCircle } from "lucide-react";
+import FormatToggle from "../iban/FormatToggle";
+import GeneratorHistory from "../iban/GeneratorHistory";
+import GenericResult, { getPrimaryValue } from "./GenericResult";
+import CardValidatorForm from "./CardValidatorForm";
+import { useGeneratorApi } from "@/lib/hooks/useGeneratorApi";
+import { CARD_NETWORKS, CARD_NETWORK_IDS } from "@/lib/utils/card-networks";
+import { useLocalHistory } from "@/lib/hooks/useLocalHistory";
+import { logger } from "@/lib/utils/logger";
+import type {
+  CardExpiry,
+  CardNetwork,
+  GeneratorKind,
+  GenericGeneratorResponse,
+  LocalDataCountry,
+  OutputFormat,
+  Sex,
+  StringCharset,
+} from "@/types/types";
 
 interface GenericGeneratorViewProps {
   kind: GeneratorKind;
 }
 
+const kindLabels: Record<GeneratorKind, string> = {
+  phone: "Phone Number",
+  address: "Address",
+  plates: "License Plate",
+  email: "Email Address",
+  company: "Company Name",
+  card: "Payment Card",
+  guid: "GUID/UUID",
+  string: "Random String",
+  pesel: "PESEL",
+  nip: "NIP",
+  regon: "REGON",
+  steuerid: "Steuer-IdNr",
+  svnr: "SVNR",
+};
+
+// Kinds whose output does not depend on the selected country
+const COUNTRY_AGNOSTIC_KINDS: GeneratorKind[] = ["card", "guid", "string"];
+
+// National identifiers are only issued by one country
+const NATIONAL_ID_COUNTRIES: Partial<Record<GeneratorKind, LocalDataCountry>> =
+  {
+    pesel: "PL",
+    nip: "PL",
+    regon: "PL",
+    steuerid: "DE",
+    svnr: "AT",
+  };
+
+// Kinds that encode a date of birth
+const BIRTH_DATE_KINDS: GeneratorKind[] = ["pesel", "svnr"];
+
+const CHARSET_LABELS: Record<StringCharset, string> = {
+  alphanumeric: "Alphanumeric (A-Z, a-z, 0-9)",
+  alpha: "Letters (A-Z, a-z)",
+  numeric: "Digits (0-9)",
+  hex: "Hexadecimal (0-9, a-f)",
+  symbols: "Symbols",
+};
+
+const SEED_REGEX = /^[A-Za-z0-9._-]+$/;
+const SEED_MAX_LENGTH = 64;
+const STRING_MAX_LENGTH = 256;
+
 export default function GenericGeneratorView({
   kind,
 }: GenericGeneratorViewProps) {
-  const kindLabels: Record<GeneratorKind, string> = {
-    phone: "Phone Number",
-    address: "Address",
-    plates: "License Plate",
-    email: "Email Address",
-    company: "Company Name",
-    card: "Payment Card",
-    guid: "GUID/UUID",
-    string: "Random String",
+  const label = kindLabels[kind];
+  const prefsKey = `gen_pref_${kind}`;
+  const { generate, isLoading, error } = useGeneratorApi();
+  const {
+    items: history,
+    addItem: addToHistory,
+    clearHistory,
+  } = useLocalHistory<GenericGeneratorResponse>(`gen_history_${kind}`);
+
+  const [country, setCountry] = useState<LocalDataCountry>("PL");
+  const [format, setFormat] = useState<OutputFormat>("text");
+  const [seedInput, setSeedInput] = useState("");
+  const [seedError, setSeedError] = useState<string | null>(null);
+  const [length, setLength] = useState("16");
+  const [charset, setCharset] = useState<StringCharset>("alphanumeric");
+  const [birthDate, setBirthDate] = useState("");
+  const [sex, setSex] = useState<Sex | "any">("any");
+  const [regonLength, setRegonLength] = useState<"9" | "14">("9");
+  const [network, setNetwork] = useState<CardNetwork | "any">("any");
+  const [expiry, setExpiry] = useState<CardExpiry>("valid");
+  const [result, setResult] = useState<GenericGeneratorResponse>();
+
+  // Load preferences from localStorage on mount
+  useEffect(() => {
+    try {
+      const prefs = localStorage.getItem(prefsKey);
+      if (prefs) {
+        const parsed = JSON.parse(prefs);
+        if (parsed.country) setCountry(parsed.country);
+        if (parsed.format) setFormat(parsed.format);
+        if (parsed.length) setLength(String(parsed.length));
+        if (parsed.charset) setCharset(parsed.charset);
+      }
+    } catch (error) {
+      logger.error("Failed to load preferences:", error);
+    }
+  }, [prefsKey]);
+
+  // Save preferences to localStorage
+  useEffect(() => {
+    try {
+      localStorage.setItem(
+        prefsKey,
+        JSON.stringify({ country, format, length, charset }),
+      );
+    } catch (error) {
+      logger.error("Failed to save preferences:", error);
+    }
+  }, [prefsKey, country, format, length, charset]);
+
+  const validateSeed = (value: string): boolean => {
+    if (!value) {
+      setSeedError(null);
+      return true;
+    }
+
+    if (value.length > SEED_MAX_LENGTH) {
+      setSeedError(`Seed must be at most ${SEED_MAX_LENGTH} characters`);
+      return false;
+    }
+
+    if (!SEED_REGEX.test(value)) {
+      setSeedError(
+        "Seed must contain only alphanumeric characters, dots, underscores, or hyphens",
+      );
+      return false;
+    }
+
+    setSeedError(null);
+    return true;
+  };
+
+  const lengthValue = Number(length);
+  const lengthError =
+    kind === "string" &&
+    (!Number.isInteger(lengthValue) ||
+      lengthValue < 1 ||
+      lengthValue > STRING_MAX_LENGTH)
+      ? `Length must be a whole number between 1 and ${STRING_MAX_LENGTH}`
+      : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (!validateSeed(seedInput) || lengthError) {
+      return;
+    }
+
+    const generated = await generate({
+      kind,
+      country: NATIONAL_ID_COUNTRIES[kind] ?? country,
+      seed: seedInput || undefined,
+      ...(kind === "string" ? { length: lengthValue, charset } : {}),
+      ...(kind === "regon" ? { length: Number(regonLength) } : {}),
+      ...(BIRTH_DATE_KINDS.includes(kind) && birthDate ? { birthDate } : {}),
+      ...(kind === "pesel" && sex !== "any" ? { sex } : {}),
+      ...(kind === "card"
+        ? { expiry, ...(network !== "any" ? { network } : {}) }
+        : {}),
+    });
+
+    if (generated) {
+      setResult(generated);
+      addToHistory(generated);
+    }
+  };
+
+  const handleHistorySelect = (item: GenericGeneratorResponse) => {
+    setResult(item);
+    setCountry(item.country);
+    setSeedInput(item.seed ?? "");
+    setSeedError(null);
   };
 
   return (
-    <div className="max-w-4xl">
-      <Card>
-        <CardHeader>
-          <CardTitle>{kindLabels[kind]} Generator</CardTitle>
-          <CardDescription>
-            Generate synthetic test data for {kindLabels[kind].toLowerCase()}
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <Alert>
-            <AlertCircle className="h-4 w-4" />
-            <AlertTitle>Coming Soon</AlertTitle>
-            <AlertDescription>
-              The {kindLabels[kind]} generator is currently under development.
-              This feature will be available in a future update.
-            </AlertDescription>
-          </Alert>
-        </CardContent>
-      </Card>
+    <div className="flex flex-col lg:flex-row gap-6" data-testid="generic-root">
+      <div className="flex-1 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle id="generic-generator-title">Generate {label}</CardTitle>
+            <CardDescription>
+              Generate synthetic test data for {label.toLowerCase()} with
+              optional seed for deterministic results
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              onSubmit={handleSubmit}
+              className="space-y-4"
+              aria-labelledby="generic-generator-title"
+            >
+              {!COUNTRY_AGNOSTIC_KINDS.includes(kind) &&
+                !NATIONAL_ID_COUNTRIES[kind] && (
+                  <div className="space-y-2">
+                    <Label htmlFor="country">Country</Label>
+                    <Select
+                      value={country}
+                      onValueChange={(value) =>
+                        setCountry(value as LocalDataCountry)
+                      }
+                    >
+                      <SelectTrigger id="country">
+                        <SelectValue placeholder="Select country" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="PL">Poland (PL)</SelectItem>
+                        <SelectItem value="DE">Germany (DE)</SelectItem>
+                        <SelectItem value="AT">Austria (AT)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+              {BIRTH_DATE_KINDS.includes(kind) && (
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="birth-date">
+                      Date of birth{" "}
+                      <span className="text-muted-foreground">(optional)</span>
+                    </Label>
+                    <Input
+                      id="birth-date"
+                      type="date"
+                      min="1800-01-01"
+                      max="2299-12-31"
+                      value={birthDate}
+                      onChange={(e) => setBirthDate(e.target.value)}
+                    />
+                  </div>
+                  {kind === "pesel" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="sex">Sex</Label>
+                      <Select
+                        value={sex}
+                        onValueChange={(value) => setSex(value as Sex | "any")}
+                      >
+                        <SelectTrigger id="sex">
+                          <SelectValue placeholder="Select sex" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="any">Random</SelectItem>
+                          <SelectItem value="female">Female</SelectItem>
+                          <SelectItem value="male">Male</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {kind === "card" && (
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="network">Network</Label>
+                    <Select
+                      value={network}
+                      onValueChange={(value) =>
+                        setNetwork(value as CardNetwork | "any")
+                      }
+                    >
+                      <SelectTrigger id="network">
+                        <SelectValue placeholder="Select network" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="any">Random</SelectItem>
+                        {CARD_NETWORK_IDS.map((value) => (
+                          <SelectItem key={value} value={value}>
+                            {CARD_NETWORKS[value].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="expiry">Expiry date</Label>
+                    <Select
+                      value={expiry}
+                      onValueChange={(value) => setExpiry(value as CardExpiry)}
+                    >
+                      <SelectTrigger id="expiry">
+                        <SelectValue placeholder="Select expiry" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="valid">Valid (future)</SelectItem>
+                        <SelectItem value="expired">Expired</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+
+              {kind === "regon" && (
+                <div className="space-y-2">
+                  <Label htmlFor="regon-length">Variant</Label>
+                  <Select
+                    value={regonLength}
+                    onValueChange={(value) =>
+                      setRegonLength(value as "9" | "14")
+                    }
+                  >
+                    <SelectTrigger id="regon-length">
+                      <SelectValue placeholder="Select variant" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="9">REGON-9 (entity)</SelectItem>
+                      <SelectItem value="14">REGON-14 (local unit)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {kind === "string" && (
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="length">Length</Label>
+                    <Input
+                      id="length"
+                      type="number"
+                      min={1}
+                      max={STRING_MAX_LENGTH}
+                      value={length}
+                      onChange={(e) => setLength(e.target.value)}
+                      aria-invalid={!!lengthError}
+                      aria-describedby={
+                        lengthError ? "length-error" : undefined
+                      }
+                    />
+                    {lengthError && (
+                      <p id="length-error" className="text-sm text-destructive">
+                        {lengthError}
+                      </p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="charset">Character set</Label>
+                    <Select
+                      value={charset}
+                      onValueChange={(value) =>
+                        setCharset(value as StringCharset)
+                      }
+                    >
+                      <SelectTrigger id="charset">
+                        <SelectValue placeholder="Select character set" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(CHARSET_LABELS) as StringCharset[]).map(
+                          (value) => (
+                            <SelectItem key={value} value={value}>
+                              {CHARSET_LABELS[value]}
+                            </SelectItem>
+                          ),
+                        )}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="seed">
+                  Seed <span className="text-muted-foreground">(optional)</span>
+                </Label>
+                <Input
+                  id="seed"
+                  type="text"
+                  value={seedInput}
+                  onChange={(e) => {
+                    setSeedInput(e.target.value);
+                    validateSeed(e.target.value);
+                  }}
+                  placeholder="e.g., test-123"
+                  maxLength={SEED_MAX_LENGTH}
+                  aria-describedby={seedError ? "seed-error" : "seed-help"}
+                  aria-invalid={!!seedError}
+                />
+                {seedError ? (
+                  <p id="seed-error" className="text-sm text-destructive">
+                    {seedError}
+                  </p>
+                ) : (
+                  <p id="seed-help" className="text-sm text-muted-foreground">
+                    Use a seed for deterministic generation (max{" "}
+                    {SEED_MAX_LENGTH} chars, alphanumeric + . _ -)
+                  </p>
+                )}
+              </div>
+
+              {error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{error.message}</AlertDescription>
+                </Alert>
+              )}
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading || !!seedError || !!lengthError}
+                data-testid="generate-generic-button"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Generating...
+                  </>
+                ) : (
+                  `Generate ${label}`
+                )}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {result && (
+          <div
+            className="space-y-4"
+            role="region"
+            aria-live="polite"
+            aria-label="Generation result"
+          >
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold">Result</h3>
+              <FormatToggle value={format} onChange={setFormat} />
+            </div>
+            <GenericResult data={result} format={format} label={label} />
+          </div>
+        )}
+
+        {kind === "card" && <CardValidatorForm />}
+      </div>
+
+      <aside className="lg:w-80">
+        <GeneratorHistory
+          items={history}
+          onSelect={handleHistorySelect}
+          onClear={clearHistory}
+          formatLabel={getPrimaryValue}
+        />
+      </aside>
+
+      <Toaster />
     </div>
   );
 }
@@ -0,0 +1,118 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Copy, Check } from "lucide-react";
+import { useState } from "react";
+import { useClipboard } from "@/lib/hooks/useClipboard";
+import type {
+  GeneratorKind,
+  GenericGeneratorResponse,
+  OutputFormat,
+} from "@/types/types";
+
+/** Field of `data` shown (and copied) in the plain text format */
+export const PRIMARY_FIELD: Record<GeneratorKind, string> = {
+  address: "formatted",
+  phone: "formatted",
+  plates: "plate",
+  email: "email",
+  company: "full_name",
+  card: "formatted",
+  guid: "guid",
+  string: "value",
+  pesel: "pesel",
+  nip: "formatted",
+  regon: "regon",
+  steuerid: "formatted",
+  svnr: "formatted",
+};
+
+/**
+ * Extract the human-readable value of a generator response
+ */
+export function getPrimaryValue(result: GenericGeneratorResponse): string {
+  const data = result.data as Record<string, unknown> | null;
+  const value = data?.[PRIMARY_FIELD[result.kind]];
+  return typeof value === "string" ? value : JSON.stringify(result.data);
+}
+
+interface GenericResultProps {
+  data: GenericGeneratorResponse;
+  format: OutputFormat;
+  label: string;
+}
+
+export default function GenericResult({
+  data,
+  format,
+  label,
+}: GenericResultProps) {
+  const { copyToClipboard, isCopying } = useClipboard();
+  const [copied, setCopied] = useState(false);
+
+  const displayContent =
+    format === "json" ? JSON.stringify(data, null, 2) : getPrimaryValue(data);
+
+  const handleCopy = async () => {
+    const success = await copyToClipboard(
+      displayContent,
+      `${label} copied to clipboard`,
+    );
+    if (success) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle>Generated {label}</CardTitle>
+            <CardDescription>
+              {data.seed ? (
+                <>
+                  Deterministic result for seed:{" "}
+                  <code className="text-xs">{data.seed}</code>
+                </>
+              ) : (
+                `Random ${label.toLowerCase()} generated`
+              )}
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleCopy}
+            disabled={isCopying}
+            aria-label={`Copy ${label} to clipboard`}
+            data-testid="generic-copy-button"
+          >
+            {copied ? (
+              <Check className="h-4 w-4" />
+            ) : (
+              <Copy className="h-4 w-4" />
+            )}
+            <span className="sr-only">{copied ? "Copied" : "Copy"}</span>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <pre
+          className="p-4 bg-muted rounded-lg overflow-x-auto"
+          role="region"
+          aria-label={`Generated ${label} result`}
+          data-testid="generic-result-content"
+        >
+          <code className="text-sm font-mono">{displayContent}</code>
+        </pre>
+      </CardContent>
+    </Card>
+  );
+}
@@ -24,19 +24,28 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import type { HistoryItem, IbanGeneratorResponse } from "@/types/types";
+import type { HistoryItem } from "@/types/types";
 
-interface GeneratorHistoryProps {
-  items: HistoryItem<IbanGeneratorResponse>[];
-  onSelect: (item: IbanGeneratorResponse) => void;
+/** Minimal shape shared by all generator responses kept in history */
+interface HistoryEntry {
+  country: string;
+  seed?: string | number;
+}
+
+interface GeneratorHistoryProps<T extends HistoryEntry> {
+  items: HistoryItem<T>[];
+  onSelect: (item: T) => void;
   onClear: () => void;
+  /** Returns the primary value shown for an entry (e.g. formatted IBAN) */
+  formatLabel: (item: T) => string;
 }
 
-export default function GeneratorHistory({
+export default function GeneratorHistory<T extends HistoryEntry>({
   items,
   onSelect,
   onClear,
-}: GeneratorHistoryProps) {
+  formatLabel,
+}: GeneratorHistoryProps<T>) {
   const [isOpen, setIsOpen] = useState(false);
 
   const formatTimestamp = (ts: number): string => {
@@ -58,11 +67,6 @@ export default function GeneratorHistory({
     return date.toLocaleDateString();
   };
 
-  const formatIban = (iban: string): string => {
-    // Format IBAN with spaces for readability: DE89 3704 0044 0532 0130 00
-    return iban.replace(/(.{4})/g, "$1 ").trim();
-  };
-
   if (items.length === 0) {
     return (
       <Card>
@@ -96,7 +100,7 @@ export default function GeneratorHistory({
           <div className="flex items-start justify-between gap-2">
             <div className="flex-1 min-w-0">
               <p className="text-xs font-mono text-muted-foreground truncate">
-                {formatIban(item.data.iban)}
+                {formatLabel(item.data)}
               </p>
               <div className="flex items-center gap-2 mt-1">
                 <span className="text-xs font-medium">{item.data.country}</span>
@@ -0,0 +1,184 @@
+import React from "react";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { userEvent } from "@testing-library/user-event";
+import IBANBatchValidator from "./IBANBatchValidator";
+import { useIbanApi } from "@/lib/hooks/useIbanApi";
+import type { IbanBatchResponse } from "@/types/types";
+
+const mockValidateBatch = vi.fn();
+vi.mock("@/lib/hooks/useIbanApi", () => ({
+  useIbanApi: vi.fn(),
+}));
+
+function mockApi(overrides: Partial<ReturnType<typeof useIbanApi>> = {}) {
+  vi.mocked(useIbanApi).mockReturnValue({
+    generate: vi.fn(),
+    validate: vi.fn(),
+    validateBatch: mockValidateBatch,
+    downloadBulk: vi.fn(),
+    isLoading: false,
+    error: null,
+    clearError: vi.fn(),
+    ...overrides,
+  });
+}
+
+const batch: IbanBatchResponse = {
+  summary: { total: 3, valid: 2, invalid: 1 },
+  results: [
+    { row: 1, input: "DE89370400440532013000", valid: true },
+    {
+      row: 2,
+      input: "DE89370400440532013001",
+      valid: false,
+      reason: "Invalid checksum (mod-97 validation failed)",
+    },
+    { row: 3, input: "AT611904300234573201", valid: true },
+  ],
+};
+
+async function validatePasted(text: string) {
+  fireEvent.change(screen.getByLabelText("IBANs"), {
+    target: { value: text },
+  });
+  await userEvent
+    .setup()
+    .click(screen.getByRole("button", { name: "Validate IBANs" }));
+}
+
+describe("IBANBatchValidator", () => {
+  const createObjectURL = vi.fn(() => "blob:failures");
+  const revokeObjectURL = vi.fn();
+  const clickSpy = vi
+    .spyOn(HTMLAnchorElement.prototype, "click")
+    .mockImplementation(() => undefined);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockApi();
+    mockValidateBatch.mockResolvedValue(batch);
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+  });
+
+  afterEach(() => {
+    clickSpy.mockClear();
+  });
+
+  it("should count pasted lines and disable submit when empty", () => {
+    render(<IBANBatchValidator />);
+
+    expect(screen.getByText("0 lines (max 5000)")).toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: "Validate IBANs" }),
+    ).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText("IBANs"), {
+      target: { value: "DE89370400440532013000\n\nAT611904300234573201\n" },
+    });
+
+    expect(screen.getByText("2 lines (max 5000)")).toBeInTheDocument();
+  });
+
+  it("should reject more than 5000 lines", () => {
+    render(<IBANBatchValidator />);
+
+    fireEvent.change(screen.getByLabelText("IBANs"), {
+      target: { value: "DE89370400440532013000\n".repeat(5001) },
+    });
+
+    expect(
+      screen.getByText("Paste at most 5000 IBANs (got 5001)"),
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: "Validate IBANs" }),
+    ).toBeDisabled();
+  });
+
+  it("should send the pasted text and show the results table", async () => {
+    render(<IBANBatchValidator />);
+
+    await validatePasted("DE89370400440532013000\nDE89370400440532013001");
+
+    expect(mockValidateBatch).toHaveBeenCalledWith({
+      csv: "DE89370400440532013000\nDE89370400440532013001",
+    });
+    expect(
+      await screen.findByText("2 valid, 1 invalid of 3"),
+    ).toBeInTheDocument();
+    expect(screen.getAllByRole("row")).toHaveLength(4);
+    expect(
+      screen.getByText("Invalid checksum (mod-97 validation failed)"),
+    ).toBeInTheDocument();
+  });
+
+  it("should filter valid and invalid rows", async () => {
+    const user = userEvent.setup();
+    render(<IBANBatchValidator />);
+    await validatePasted("x");
+    await screen.findByText("2 valid, 1 invalid of 3");
+
+    await user.click(screen.getByRole("button", { name: "Invalid" }));
+
+    expect(screen.getByRole("button", { name: "Invalid" })).toHaveAttribute(
+      "aria-pressed",
+      "true",
+    );
+    expect(screen.getAllByRole("row")).toHaveLength(2);
+    expect(screen.getByText("DE89370400440532013001")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Valid" }));
+
+    expect(screen.getAllByRole("row")).toHaveLength(3);
+    expect(
+      screen.queryByText("DE89370400440532013001"),
+    ).not.toBeInTheDocument();
+  });
+
+  it("should export the failing rows as CSV", async () => {
+    const user = userEvent.setup();
+    render(<IBANBatchValidator />);
+    await validatePasted("x");
+    await screen.findByText("2 valid, 1 invalid of 3");
+
+    await user.click(screen.getByRole("button", { name: /export invalid/i }));
+
+    await waitFor(() => expect(clickSpy).toHaveBeenCalled());
+    const blob = (createObjectURL.mock.calls[0] as unknown[])[0] as Blob;
+    const text = await new Promise<string>((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.readAsText(blob);
+    });
+    expect(clickSpy.mock.contexts[0]).toHaveProperty(
+      "download",
+      "invalid-ibans.csv",
+    );
+    expect(text).toBe(
+      "row,iban,reason\r\n2,DE89370400440532013001,Invalid checksum (mod-97 validation failed)\r\n",
+    );
+    expect(revokeObjectURL).toHaveBeenCalledWith("blob:failures");
+  });
+
+  it("should disable the export without invalid rows", async () => {
+    mockValidateBatch.mockResolvedValue({
+      summary: { total: 1, valid: 1, invalid: 0 },
+      results: [batch.results[0]],
+    });
+    render(<IBANBatchValidator />);
+    await validatePasted("x");
+
+    expect(
+      await screen.findByRole("button", { name: /export invalid/i }),
+    ).toBeDisabled();
+  });
+
+  it("should show API errors", () => {
+    mockApi({
+      error: { code: "VALIDATION_ERROR", message: "Request contains no IBANs" },
+    });
+    render(<IBANBatchValidator />);
+
+    expect(screen.getByText("Request contains no IBANs")).toBeInTheDocument();
+  });
+});
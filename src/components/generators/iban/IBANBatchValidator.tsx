@@ -0,0 +1,229 @@
+import { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, Download, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useIbanApi } from "@/lib/hooks/useIbanApi";
+import { MAX_BATCH_SIZE, serializeBatchFailures } from "@/lib/utils/iban-batch";
+import type { IbanBatchResponse } from "@/types/types";
+
+type ResultFilter = "all" | "valid" | "invalid";
+
+const FILTER_LABELS: Record<ResultFilter, string> = {
+  all: "All",
+  valid: "Valid",
+  invalid: "Invalid",
+};
+
+/**
+ * Validate a pasted spreadsheet column of IBANs and review the results
+ */
+export default function IBANBatchValidator() {
+  const { validateBatch, isLoading, error } = useIbanApi();
+  const [csv, setCsv] = useState("");
+  const [batch, setBatch] = useState<IbanBatchResponse | null>(null);
+  const [filter, setFilter] = useState<ResultFilter>("all");
+
+  const lineCount = csv.split(/\r?\n/).filter((line) => line.trim()).length;
+  const inputError =
+    lineCount > MAX_BATCH_SIZE
+      ? `Paste at most ${MAX_BATCH_SIZE} IBANs (got ${lineCount})`
+      : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (inputError || lineCount === 0) {
+      return;
+    }
+
+    const result = await validateBatch({ csv });
+    if (result) {
+      setBatch(result);
+      setFilter("all");
+    }
+  };
+
+  const handleExport = () => {
+    if (!batch) {
+      return;
+    }
+
+    const blob = new Blob([serializeBatchFailures(batch.results)], {
+      type: "text/csv;charset=utf-8",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "invalid-ibans.csv";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const visibleResults =
+    batch?.results.filter(
+      (result) => filter === "all" || result.valid === (filter === "valid"),
+    ) ?? [];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle id="iban-batch-title">Validate many IBANs</CardTitle>
+          <CardDescription>
+            Paste a column from a spreadsheet, one IBAN per line. A header named
+            &quot;iban&quot; selects that column of a CSV.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            onSubmit={handleSubmit}
+            className="space-y-4"
+            aria-labelledby="iban-batch-title"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="iban-batch-input">IBANs</Label>
+              <Textarea
+                id="iban-batch-input"
+                value={csv}
+                onChange={(e) => setCsv(e.target.value)}
+                placeholder={"DE89370400440532013000\nAT611904300234573201"}
+                rows={8}
+                className="font-mono"
+                aria-invalid={!!inputError}
+                aria-describedby={
+                  inputError ? "iban-batch-error" : "iban-batch-help"
+                }
+              />
+              {inputError ? (
+                <p id="iban-batch-error" className="text-sm text-destructive">
+                  {inputError}
+                </p>
+              ) : (
+                <p
+                  id="iban-batch-help"
+                  className="text-sm text-muted-foreground"
+                >
+                  {lineCount} {lineCount === 1 ? "line" : "lines"} (max{" "}
+                  {MAX_BATCH_SIZE})
+                </p>
+              )}
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error.message}</AlertDescription>
+              </Alert>
+            )}
+
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={isLoading || !!inputError || lineCount === 0}
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Validating...
+                </>
+              ) : (
+                <>Validate IBANs</>
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {batch && (
+        <div className="space-y-4" role="region" aria-label="Batch results">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-lg font-semibold">
+              {batch.summary.valid} valid, {batch.summary.invalid} invalid of{" "}
+              {batch.summary.total}
+            </h3>
+            <div className="flex items-center gap-2">
+              <div
+                className="flex items-center gap-2"
+                role="group"
+                aria-label="Filter results"
+              >
+                {(Object.keys(FILTER_LABELS) as ResultFilter[]).map(
+                  (option) => (
+                    <Button
+                      key={option}
+                      type="button"
+                      variant={filter === option ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setFilter(option)}
+                      aria-pressed={filter === option}
+                    >
+                      {FILTER_LABELS[option]}
+                    </Button>
+                  ),
+                )}
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleExport}
+                disabled={batch.summary.invalid === 0}
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Export invalid
+              </Button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto rounded-lg border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50 text-left">
+                <tr>
+                  <th className="px-3 py-2 font-medium">Row</th>
+                  <th className="px-3 py-2 font-medium">IBAN</th>
+                  <th className="px-3 py-2 font-medium">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleResults.map((result) => (
+                  <tr key={result.row} className="border-t">
+                    <td className="px-3 py-2 text-muted-foreground">
+                      {result.row}
+                    </td>
+                    <td className="px-3 py-2 font-mono break-all">
+                      {result.input}
+                    </td>
+                    <td
+                      className={cn(
+                        "px-3 py-2",
+                        result.valid ? "text-green-700" : "text-destructive",
+                      )}
+                    >
+                      {result.valid ? "Valid" : result.reason}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {visibleResults.length === 0 && (
+              <p className="px-3 py-4 text-sm text-muted-foreground">
+                No {filter} IBANs
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
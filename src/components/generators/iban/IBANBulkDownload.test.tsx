@@ -0,0 +1,136 @@
+import React from "react";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { userEvent } from "@testing-library/user-event";
+import IBANBulkDownload from "./IBANBulkDownload";
+import { useIbanApi } from "@/lib/hooks/useIbanApi";
+
+const mockDownloadBulk = vi.fn();
+vi.mock("@/lib/hooks/useIbanApi", () => ({
+  useIbanApi: vi.fn(),
+}));
+
+vi.mock("sonner", () => ({
+  toast: { success: vi.fn() },
+}));
+
+import { toast } from "sonner";
+
+function mockApi(overrides: Partial<ReturnType<typeof useIbanApi>> = {}) {
+  vi.mocked(useIbanApi).mockReturnValue({
+    generate: vi.fn(),
+    validate: vi.fn(),
+    downloadBulk: mockDownloadBulk,
+    validateBatch: vi.fn(),
+    isLoading: false,
+    error: null,
+    clearError: vi.fn(),
+    ...overrides,
+  });
+}
+
+describe("IBANBulkDownload", () => {
+  const createObjectURL = vi.fn(() => "blob:ibans");
+  const revokeObjectURL = vi.fn();
+  const clickSpy = vi
+    .spyOn(HTMLAnchorElement.prototype, "click")
+    .mockImplementation(() => undefined);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockApi();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+  });
+
+  afterEach(() => {
+    clickSpy.mockClear();
+  });
+
+  it("should explain derived seeds when a seed is set", () => {
+    render(<IBANBulkDownload country="DE" seed="batch" />);
+
+    expect(screen.getByText("batch-i")).toBeInTheDocument();
+  });
+
+  it("should suggest a seed for reproducible files", () => {
+    render(<IBANBulkDownload country="DE" />);
+
+    expect(
+      screen.getByText("Enter a seed above for a reproducible file"),
+    ).toBeInTheDocument();
+  });
+
+  it("should download the file returned by the API", async () => {
+    const blob = new Blob(["[]"]);
+    mockDownloadBulk.mockResolvedValue({
+      blob,
+      fileName: "ibans-AT-batch.json",
+    });
+    const user = userEvent.setup();
+    const { container } = render(
+      <IBANBulkDownload country="AT" seed="batch" />,
+    );
+
+    await user.clear(screen.getByLabelText("Count"));
+    await user.type(screen.getByLabelText("Count"), "250");
+    fireEvent.change(container.querySelectorAll("select")[0], {
+      target: { value: "json" },
+    });
+    await user.click(screen.getByRole("button", { name: /download/i }));
+
+    expect(mockDownloadBulk).toHaveBeenCalledWith({
+      country: "AT",
+      seed: "batch",
+      count: 250,
+      format: "json",
+    });
+    await waitFor(() => expect(clickSpy).toHaveBeenCalled());
+    expect(createObjectURL).toHaveBeenCalledWith(blob);
+    expect(revokeObjectURL).toHaveBeenCalledWith("blob:ibans");
+    expect(toast.success).toHaveBeenCalledWith("Downloaded 250 IBANs");
+  });
+
+  it("should not save anything when the request fails", async () => {
+    mockDownloadBulk.mockResolvedValue(null);
+    const user = userEvent.setup();
+    render(<IBANBulkDownload country="DE" />);
+
+    await user.click(screen.getByRole("button", { name: /download/i }));
+
+    expect(mockDownloadBulk).toHaveBeenCalled();
+    expect(createObjectURL).not.toHaveBeenCalled();
+    expect(toast.success).not.toHaveBeenCalled();
+  });
+
+  it("should reject counts outside 1-5000", async () => {
+    const user = userEvent.setup();
+    render(<IBANBulkDownload country="DE" />);
+
+    await user.clear(screen.getByLabelText("Count"));
+    await user.type(screen.getByLabelText("Count"), "5001");
+
+    expect(
+      screen.getByText("Count must be a whole number from 1 to 5000"),
+    ).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: /download/i })).toBeDisabled();
+  });
+
+  it("should show API errors", () => {
+    mockApi({
+      error: { code: "VALIDATION_ERROR", message: "bank: no DE bank" },
+    });
+    render(<IBANBulkDownload country="DE" />);
+
+    expect(screen.getByText("bank: no DE bank")).toBeInTheDocument();
+  });
+
+  it("should show progress while the file is prepared", () => {
+    mockApi({ isLoading: true });
+    render(<IBANBulkDownload country="DE" />);
+
+    expect(screen.getByText("Preparing file...")).toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: /preparing file/i }),
+    ).toBeDisabled();
+  });
+});
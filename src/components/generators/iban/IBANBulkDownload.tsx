@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, Download, Loader2 } from "lucide-react";
+import { useIbanApi } from "@/lib/hooks/useIbanApi";
+import { IBAN_EXPORT_FORMATS } from "@/lib/utils/iban-export";
+import type { IbanCountry, IbanExportFormat } from "@/types/types";
+
+interface IBANBulkDownloadProps {
+  country: IbanCountry;
+  /** Base seed; each IBAN uses "<seed>-<index>" */
+  seed?: string | number;
+}
+
+const MAX_COUNT = 5000;
+
+const FORMAT_LABELS: Record<IbanExportFormat, string> = {
+  csv: "CSV",
+  json: "JSON",
+  ndjson: "NDJSON (one JSON object per line)",
+};
+
+/**
+ * Download many IBANs of the selected country as a file, using the seed
+ * from the generator form as base seed
+ */
+export default function IBANBulkDownload({
+  country,
+  seed,
+}: IBANBulkDownloadProps) {
+  const { downloadBulk, isLoading, error } = useIbanApi();
+  const [countInput, setCountInput] = useState("100");
+  const [format, setFormat] = useState<IbanExportFormat>("csv");
+
+  const count = Number(countInput);
+  const countError =
+    Number.isInteger(count) && count >= 1 && count <= MAX_COUNT
+      ? null
+      : `Count must be a whole number from 1 to ${MAX_COUNT}`;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (countError) {
+      return;
+    }
+
+    const download = await downloadBulk({
+      country,
+      seed: seed === undefined ? undefined : String(seed),
+      count,
+      format,
+    });
+    if (!download) {
+      return;
+    }
+
+    const url = URL.createObjectURL(download.blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = download.fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    toast.success(`Downloaded ${count} IBANs`);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle id="iban-bulk-title">Bulk download</CardTitle>
+        <CardDescription>
+          {seed ? (
+            <>
+              IBAN number <em>i</em> uses the seed{" "}
+              <code className="text-xs">{`${seed}-i`}</code>, so the file is
+              reproducible
+            </>
+          ) : (
+            "Enter a seed above for a reproducible file"
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          onSubmit={handleSubmit}
+          className="space-y-4"
+          aria-labelledby="iban-bulk-title"
+        >
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="bulk-count">Count</Label>
+              <Input
+                id="bulk-count"
+                type="number"
+                min={1}
+                max={MAX_COUNT}
+                value={countInput}
+                onChange={(e) => setCountInput(e.target.value)}
+                aria-invalid={!!countError}
+                aria-describedby={countError ? "bulk-count-error" : undefined}
+              />
+              {countError && (
+                <p id="bulk-count-error" className="text-sm text-destructive">
+                  {countError}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="bulk-format">File format</Label>
+              <Select
+                value={format}
+                onValueChange={(value) => setFormat(value as IbanExportFormat)}
+              >
+                <SelectTrigger id="bulk-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IBAN_EXPORT_FORMATS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {FORMAT_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error.message}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button
+            type="submit"
+            variant="outline"
+            className="w-full"
+            disabled={isLoading || !!countError}
+          >
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Preparing file...
+              </>
+            ) : (
+              <>
+                <Download className="mr-2 h-4 w-4" />
+                Download
+              </>
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
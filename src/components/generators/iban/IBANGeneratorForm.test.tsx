@@ -11,6 +11,8 @@ vi.mock("@/lib/hooks/useIbanApi", () => ({
   useIbanApi: vi.fn(() => ({
     generate: mockGenerate,
     validate: vi.fn(),
+    downloadBulk: vi.fn(),
+    validateBatch: vi.fn(),
     isLoading: false,
     error: null,
     clearError: vi.fn(),
@@ -61,6 +63,8 @@ describe("IBANGeneratorForm", () => {
     vi.mocked(useIbanApi).mockReturnValue({
       generate: mockGenerate,
       validate: vi.fn(),
+      downloadBulk: vi.fn(),
+      validateBatch: vi.fn(),
       isLoading: false,
       error: null,
       clearError: vi.fn(),
@@ -80,7 +84,7 @@ describe("IBANGeneratorForm", () => {
       ).toBeInTheDocument();
       expect(
         screen.getByText(
-          "Generate a valid IBAN for Germany, Austria, or Poland with optional seed for deterministic results",
+          "Generate a valid IBAN for any SEPA country with optional seed for deterministic results",
         ),
       ).toBeInTheDocument();
       expect(screen.getByLabelText(/country/i)).toBeInTheDocument();
@@ -155,6 +159,86 @@ describe("IBANGeneratorForm", () => {
     });
   });
 
+  describe("bank selection", () => {
+    it("should offer directory banks for supported countries", () => {
+      render(<IBANGeneratorForm {...mockProps} country="PL" />);
+
+      expect(
+        screen.getByRole("combobox", { name: /bank/i }),
+      ).toBeInTheDocument();
+      expect(screen.getByDisplayValue("Random bank code")).toBeInTheDocument();
+    });
+
+    it("should hide the bank picker for countries without a directory", () => {
+      render(<IBANGeneratorForm {...mockProps} country="FR" />);
+
+      expect(
+        screen.queryByRole("combobox", { name: /bank/i }),
+      ).not.toBeInTheDocument();
+    });
+
+    it("should call generate with the selected bank", async () => {
+      mockGenerate.mockResolvedValue({
+        iban: "PL27114020040000300201355387",
+        country: "PL",
+      });
+      const user = userEvent.setup();
+      const { container } = render(
+        <IBANGeneratorForm {...mockProps} country="PL" />,
+      );
+
+      // Radix Select mirrors its value in a hidden native select
+      const bankSelect = container.querySelectorAll("select")[1];
+      fireEvent.change(bankSelect, { target: { value: "BREXPLPWXXX" } });
+      await user.click(screen.getByTestId("generate-iban-button"));
+
+      expect(mockGenerate).toHaveBeenCalledWith({
+        country: "PL",
+        seed: undefined,
+        bank: "BREXPLPWXXX",
+      });
+    });
+  });
+
+  describe("defect selection", () => {
+    it("should call generate with the selected defect", async () => {
+      mockGenerate.mockResolvedValue({
+        iban: "DE88370400440532013000",
+        country: "DE",
+        defect: "checksum",
+      });
+      const user = userEvent.setup();
+      const { container } = render(<IBANGeneratorForm {...mockProps} />);
+
+      const defectSelect = container.querySelectorAll("select")[2];
+      fireEvent.change(defectSelect, { target: { value: "checksum" } });
+      await user.click(screen.getByTestId("generate-iban-button"));
+
+      expect(mockGenerate).toHaveBeenCalledWith({
+        country: "DE",
+        seed: undefined,
+        bank: undefined,
+        defect: "checksum",
+      });
+    });
+
+    it("should offer national check defects only where they exist", () => {
+      const { container, rerender } = render(
+        <IBANGeneratorForm {...mockProps} country="FR" />,
+      );
+      const optionValues = () =>
+        Array.from(container.querySelectorAll("option")).map(
+          (option) => option.value,
+        );
+
+      expect(optionValues()).toContain("checksum");
+      expect(optionValues()).not.toContain("national");
+
+      rerender(<IBANGeneratorForm {...mockProps} country="PL" />);
+      expect(optionValues()).toContain("national");
+    });
+  });
+
   describe("seed validation", () => {
     it("should accept valid seed", () => {
       render(<IBANGeneratorForm {...mockProps} />);
@@ -19,10 +19,19 @@ import {
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Loader2, AlertCircle } from "lucide-react";
 import { useIbanApi } from "@/lib/hooks/useIbanApi";
+import { IBAN_COUNTRIES, IBAN_COUNTRY_CODES } from "@/lib/utils/iban-registry";
+import {
+  ANY_BANK,
+  BANK_DIRECTORY,
+  hasBankDirectory,
+} from "@/lib/utils/bank-directory";
+import { NATIONAL_CHECK_COUNTRIES } from "@/lib/utils/bban-check";
+import { IBAN_DEFECTS } from "@/lib/utils/iban-defects";
 import IBANResult from "./IBANResult";
 import FormatToggle from "./FormatToggle";
 import type {
   IbanCountry,
+  IbanDefect,
   IbanGeneratorResponse,
   OutputFormat,
   UIError,
@@ -46,6 +55,27 @@ interface IBANGeneratorFormProps {
 const SEED_REGEX = /^[A-Za-z0-9._-]+$/;
 const SEED_MAX_LENGTH = 64;
 
+/** Country picker options, sorted by name */
+const COUNTRY_OPTIONS = IBAN_COUNTRY_CODES.map((code) => ({
+  code,
+  name: IBAN_COUNTRIES[code].name,
+})).sort((a, b) => a.name.localeCompare(b.name));
+
+/** Bank picker value for a random (usually non-existent) bank code */
+const RANDOM_BANK = "random";
+
+/** Defect picker value for a valid IBAN */
+const NO_DEFECT = "none";
+
+const DEFECT_LABELS: Record<IbanDefect, string> = {
+  checksum: "Wrong checksum",
+  length: "Wrong length",
+  country: "Unknown country",
+  format: "Lowercase letters or spaces",
+  national: "Bad national check digit",
+  characters: "Disallowed characters",
+};
+
 export default function IBANGeneratorForm({
   country,
   seed,
@@ -62,6 +92,16 @@ export default function IBANGeneratorForm({
   const { generate } = useIbanApi();
   const [seedInput, setSeedInput] = useState(seed?.toString() || "");
   const [seedError, setSeedError] = useState<string | null>(null);
+  const [bank, setBank] = useState(RANDOM_BANK);
+  const [defect, setDefect] = useState<IbanDefect | typeof NO_DEFECT>(
+    NO_DEFECT,
+  );
+
+  // National check digits exist only for some countries
+  const defectOptions = IBAN_DEFECTS.filter(
+    (option) =>
+      option !== "national" || NATIONAL_CHECK_COUNTRIES.includes(country),
+  );
 
   const validateSeed = (value: string): boolean => {
     if (!value) {
@@ -85,6 +125,15 @@ export default function IBANGeneratorForm({
     return true;
   };
 
+  const handleCountryChange = (value: IbanCountry) => {
+    // Bank choices are per country
+    setBank(RANDOM_BANK);
+    if (defect === "national" && !NATIONAL_CHECK_COUNTRIES.includes(value)) {
+      setDefect(NO_DEFECT);
+    }
+    onCountryChange(value);
+  };
+
   const handleSeedChange = (value: string) => {
     setSeedInput(value);
     validateSeed(value);
@@ -106,6 +155,9 @@ export default function IBANGeneratorForm({
       const result = await generate({
         country,
         seed: seedInput || undefined,
+        bank:
+          bank !== RANDOM_BANK && hasBankDirectory(country) ? bank : undefined,
+        defect: defect === NO_DEFECT ? undefined : defect,
       });
 
       if (result) {
@@ -122,8 +174,8 @@ export default function IBANGeneratorForm({
         <CardHeader>
           <CardTitle id="iban-generator-title">Generate IBAN</CardTitle>
           <CardDescription>
-            Generate a valid IBAN for Germany, Austria, or Poland with optional
-            seed for deterministic results
+            Generate a valid IBAN for any SEPA country with optional seed for
+            deterministic results
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -136,17 +188,72 @@ export default function IBANGeneratorForm({
               <Label htmlFor="country">Country</Label>
               <Select
                 value={country}
-                onValueChange={(value) => onCountryChange(value as IbanCountry)}
+                onValueChange={(value) =>
+                  handleCountryChange(value as IbanCountry)
+                }
               >
                 <SelectTrigger id="country">
                   <SelectValue placeholder="Select country" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="DE">Germany (DE)</SelectItem>
-                  <SelectItem value="AT">Austria (AT)</SelectItem>
-                  <SelectItem value="PL">Poland (PL)</SelectItem>
+                  {COUNTRY_OPTIONS.map(({ code, name }) => (
+                    <SelectItem key={code} value={code}>
+                      {name} ({code})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {hasBankDirectory(country) && (
+              <div className="space-y-2">
+                <Label htmlFor="bank">Bank</Label>
+                <Select value={bank} onValueChange={setBank}>
+                  <SelectTrigger id="bank" aria-describedby="bank-help">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={RANDOM_BANK}>
+                      Random bank code
+                    </SelectItem>
+                    <SelectItem value={ANY_BANK}>Any real bank</SelectItem>
+                    {BANK_DIRECTORY[country].map((entry) => (
+                      <SelectItem key={entry.bic} value={entry.bic}>
+                        {entry.name} ({entry.bic})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p id="bank-help" className="text-sm text-muted-foreground">
+                  Real banks come from the bundled offline bank directory
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="defect">Defect</Label>
+              <Select
+                value={defect}
+                onValueChange={(value) =>
+                  setDefect(value as IbanDefect | typeof NO_DEFECT)
+                }
+              >
+                <SelectTrigger id="defect" aria-describedby="defect-help">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_DEFECT}>None (valid IBAN)</SelectItem>
+                  {defectOptions.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {DEFECT_LABELS[option]}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+              <p id="defect-help" className="text-sm text-muted-foreground">
+                Generate an invalid IBAN for negative tests; it fails strict
+                validation with exactly this defect
+              </p>
             </div>
 
             <div className="space-y-2">
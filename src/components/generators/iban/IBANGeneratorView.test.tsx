@@ -94,6 +94,10 @@ vi.mock("./IBANValidatorForm", () => ({
   )),
 }));
 
+vi.mock("./IBANBulkDownload", () => ({
+  default: vi.fn(() => <div data-testid="iban-bulk-download" />),
+}));
+
 vi.mock("./GeneratorHistory", () => ({
   default: vi.fn((props) => (
     <div data-testid="generator-history">
@@ -134,6 +138,7 @@ import { useLocalHistory } from "@/lib/hooks/useLocalHistory";
 import IBANGeneratorForm from "./IBANGeneratorForm";
 import IBANValidatorForm from "./IBANValidatorForm";
 import GeneratorHistory from "./GeneratorHistory";
+import IBANBulkDownload from "./IBANBulkDownload";
 
 describe("IBANGeneratorView", () => {
   beforeEach(() => {
@@ -384,6 +389,20 @@ describe("IBANGeneratorView", () => {
       );
     });
 
+    it("should pass country and seed to the bulk download", async () => {
+      const user = userEvent.setup();
+      render(<IBANGeneratorView />);
+
+      await user.click(screen.getByTestId("change-country"));
+      await user.click(screen.getByTestId("change-seed"));
+
+      expect(screen.getByTestId("iban-bulk-download")).toBeInTheDocument();
+      expect(IBANBulkDownload).toHaveBeenLastCalledWith(
+        { country: "AT", seed: "new-seed" },
+        undefined,
+      );
+    });
+
     it("should handle format change", async () => {
       const user = userEvent.setup();
       render(<IBANGeneratorView />);
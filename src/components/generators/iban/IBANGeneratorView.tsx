@@ -3,6 +3,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Toaster } from "@/components/ui/sonner";
 import IBANGeneratorForm from "./IBANGeneratorForm";
 import IBANValidatorForm from "./IBANValidatorForm";
+import IBANBulkDownload from "./IBANBulkDownload";
 import GeneratorHistory from "./GeneratorHistory";
 import { useLocalHistory } from "@/lib/hooks/useLocalHistory";
 import { logger } from "@/lib/utils/logger";
@@ -59,6 +60,10 @@ function ibanViewReducer(
   }
 }
 
+// Format IBAN with spaces for readability: DE89 3704 0044 0532 0130 00
+const formatIban = (item: IbanGeneratorResponse): string =>
+  item.iban.replace(/(.{4})/g, "$1 ").trim();
+
 const initialState: IbanViewState = {
   mode: "generate",
   country: "DE",
@@ -160,7 +165,7 @@ export default function IBANGeneratorView() {
             <TabsTrigger value="validate">Validate</TabsTrigger>
           </TabsList>
 
-          <TabsContent value="generate">
+          <TabsContent value="generate" className="space-y-6">
             <IBANGeneratorForm
               country={state.country}
               seed={state.seed}
@@ -175,6 +180,7 @@ export default function IBANGeneratorView() {
               onLoadingChange={handleLoadingChange}
               onError={handleError}
             />
+            <IBANBulkDownload country={state.country} seed={state.seed} />
           </TabsContent>
 
           <TabsContent value="validate">
@@ -197,6 +203,7 @@ export default function IBANGeneratorView() {
           items={history}
           onSelect={handleHistorySelect}
           onClear={clearHistory}
+          formatLabel={formatIban}
         />
       </aside>
 
@@ -47,7 +47,9 @@ export default function IBANResult({ data, format }: IBANResultProps) {
       <CardHeader>
         <div className="flex items-start justify-between">
           <div>
-            <CardTitle>Generated IBAN</CardTitle>
+            <CardTitle>
+              {data.defect ? "Generated invalid IBAN" : "Generated IBAN"}
+            </CardTitle>
             <CardDescription>
               {data.seed ? (
                 <>
@@ -85,6 +87,22 @@ export default function IBANResult({ data, format }: IBANResultProps) {
         >
           <code className="text-sm font-mono">{displayContent}</code>
         </pre>
+        {format === "text" && data.bic && (
+          <p
+            className="mt-2 text-sm text-muted-foreground"
+            data-testid="iban-result-bank"
+          >
+            {data.bankName} · BIC <code className="text-xs">{data.bic}</code>
+          </p>
+        )}
+        {format === "text" && data.expectedReason && (
+          <p
+            className="mt-2 text-sm text-destructive"
+            data-testid="iban-result-expected-reason"
+          >
+            Expected validation error: {data.expectedReason}
+          </p>
+        )}
       </CardContent>
     </Card>
   );
@@ -10,6 +10,8 @@ const mockValidate = vi.fn();
 vi.mock("@/lib/hooks/useIbanApi", () => ({
   useIbanApi: vi.fn(() => ({
     validate: mockValidate,
+    downloadBulk: vi.fn(),
+    validateBatch: vi.fn(),
     generate: vi.fn(),
     isLoading: false,
     error: null,
@@ -26,6 +28,11 @@ vi.mock("./ValidationResult", () => ({
   )),
 }));
 
+// Mock IBANBatchValidator component
+vi.mock("./IBANBatchValidator", () => ({
+  default: vi.fn(() => <div data-testid="iban-batch-validator" />),
+}));
+
 import ValidationResult from "./ValidationResult";
 
 describe("IBANValidatorForm", () => {
@@ -45,6 +52,8 @@ describe("IBANValidatorForm", () => {
     vi.mocked(useIbanApi).mockReturnValue({
       generate: vi.fn(),
       validate: mockValidate,
+      downloadBulk: vi.fn(),
+      validateBatch: vi.fn(),
       isLoading: false,
       error: null,
       clearError: vi.fn(),
@@ -668,6 +677,29 @@ describe("IBANValidatorForm", () => {
     });
   });
 
+  describe("batch mode", () => {
+    it("should switch between single and batch validation", async () => {
+      const user = userEvent.setup();
+      render(<IBANValidatorForm {...mockProps} />);
+
+      expect(
+        screen.getByRole("button", { name: "Single IBAN" }),
+      ).toHaveAttribute("aria-pressed", "true");
+      expect(
+        screen.queryByTestId("iban-batch-validator"),
+      ).not.toBeInTheDocument();
+
+      await user.click(screen.getByRole("button", { name: "Paste a column" }));
+
+      expect(screen.getByTestId("iban-batch-validator")).toBeInTheDocument();
+      expect(screen.queryByLabelText("IBAN")).not.toBeInTheDocument();
+
+      await user.click(screen.getByRole("button", { name: "Single IBAN" }));
+
+      expect(screen.getByLabelText("IBAN")).toBeInTheDocument();
+    });
+  });
+
   describe("paste event handling", () => {
     it("should handle paste with spaces", async () => {
       const user = userEvent.setup();
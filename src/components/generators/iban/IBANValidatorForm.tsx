@@ -13,6 +13,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Loader2, AlertCircle } from "lucide-react";
 import { useIbanApi } from "@/lib/hooks/useIbanApi";
 import ValidationResult from "./ValidationResult";
+import IBANBatchValidator from "./IBANBatchValidator";
 import type { IbanValidationResponse, UIError } from "@/types/types";
 
 interface IBANValidatorFormProps {
@@ -38,6 +39,7 @@ export default function IBANValidatorForm({
   const { validate } = useIbanApi();
   const [ibanInput, setIbanInput] = useState(inputIban || "");
   const [inputError, setInputError] = useState<string | null>(null);
+  const [mode, setMode] = useState<"single" | "batch">("single");
 
   const normalizeIban = (value: string): string => {
     // Remove spaces and convert to uppercase
@@ -137,8 +139,41 @@ export default function IBANValidatorForm({
     }
   };
 
+  const modeToggle = (
+    <div className="flex items-center gap-2" role="group" aria-label="Mode">
+      <Button
+        type="button"
+        variant={mode === "single" ? "default" : "outline"}
+        size="sm"
+        onClick={() => setMode("single")}
+        aria-pressed={mode === "single"}
+      >
+        Single IBAN
+      </Button>
+      <Button
+        type="button"
+        variant={mode === "batch" ? "default" : "outline"}
+        size="sm"
+        onClick={() => setMode("batch")}
+        aria-pressed={mode === "batch"}
+      >
+        Paste a column
+      </Button>
+    </div>
+  );
+
+  if (mode === "batch") {
+    return (
+      <div className="space-y-6">
+        {modeToggle}
+        <IBANBatchValidator />
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
+      {modeToggle}
       <Card>
         <CardHeader>
           <CardTitle id="iban-validator-title">Validate IBAN</CardTitle>
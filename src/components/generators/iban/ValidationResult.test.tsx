@@ -0,0 +1,61 @@
+import React from "react";
+import { describe, it, expect } from "vitest";
+import { render, screen } from "@testing-library/react";
+import ValidationResult from "./ValidationResult";
+import type { IbanBreakdown } from "@/types/types";
+
+const breakdown: IbanBreakdown = {
+  electronic: "DE89370400440532013001",
+  print: "DE89 3704 0044 0532 0130 01",
+  parts: [
+    { kind: "country", value: "DE", start: 0, end: 2 },
+    { kind: "checkDigits", value: "89", start: 2, end: 4 },
+    { kind: "bank", value: "37040044", start: 4, end: 12 },
+    { kind: "account", value: "0532013001", start: 12, end: 22 },
+  ],
+};
+
+describe("ValidationResult", () => {
+  it("should render the verdict without breakdown", () => {
+    render(<ValidationResult data={{ valid: true }} />);
+
+    expect(screen.getByText("Valid IBAN")).toBeInTheDocument();
+    expect(screen.queryByText("Print format")).not.toBeInTheDocument();
+  });
+
+  it("should list both formats and the parts with positions", () => {
+    render(<ValidationResult data={{ valid: true, breakdown }} />);
+
+    expect(screen.getByText("DE89 3704 0044 0532 0130 01")).toBeInTheDocument();
+    expect(screen.getByText("DE89370400440532013001")).toBeInTheDocument();
+    expect(screen.getByText("Bank code")).toBeInTheDocument();
+    expect(screen.getByText("37040044")).toBeInTheDocument();
+    expect(screen.getByText("(positions 5–12)")).toBeInTheDocument();
+    expect(screen.getByText("Account number")).toBeInTheDocument();
+    expect(screen.getByText("(positions 13–22)")).toBeInTheDocument();
+    expect(screen.getByTitle("Check digits (positions 3–4)")).toHaveTextContent(
+      "89",
+    );
+  });
+
+  it("should mark the failing characters", () => {
+    render(
+      <ValidationResult
+        data={{
+          valid: false,
+          reason: "Invalid checksum (mod-97 validation failed)",
+          errorSpan: { start: 2, end: 4 },
+          breakdown,
+        }}
+      />,
+    );
+
+    expect(screen.getByText("Invalid IBAN")).toBeInTheDocument();
+    expect(screen.getByText("Fails at positions 3–4")).toBeInTheDocument();
+
+    const marked = screen
+      .getByLabelText("IBAN parts")
+      .querySelectorAll("[data-error]");
+    expect([...marked].map((char) => char.textContent).join("")).toBe("89");
+  });
+});
@@ -1,11 +1,120 @@
 import { CheckCircle2, XCircle } from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { IbanValidationResponse } from "@/types/types";
+import type {
+  IbanBreakdown,
+  IbanPartKind,
+  IbanSpan,
+  IbanValidationResponse,
+} from "@/types/types";
 
 interface ValidationResultProps {
   data: IbanValidationResponse;
 }
 
+const PART_LABELS: Record<IbanPartKind, string> = {
+  country: "Country",
+  checkDigits: "Check digits",
+  bank: "Bank code",
+  branch: "Branch",
+  account: "Account number",
+  check: "National check",
+  type: "Account type",
+  owner: "Owner ID",
+  bban: "BBAN",
+};
+
+const PART_COLORS: Record<IbanPartKind, string> = {
+  country: "bg-sky-100 text-sky-900",
+  checkDigits: "bg-violet-100 text-violet-900",
+  bank: "bg-amber-100 text-amber-900",
+  branch: "bg-orange-100 text-orange-900",
+  account: "bg-emerald-100 text-emerald-900",
+  check: "bg-pink-100 text-pink-900",
+  type: "bg-slate-200 text-slate-900",
+  owner: "bg-teal-100 text-teal-900",
+  bban: "bg-slate-100 text-slate-900",
+};
+
+/** 1-based positions for display, e.g. "positions 5–12" */
+function formatPositions({ start, end }: IbanSpan): string {
+  return end - start > 1
+    ? `positions ${start + 1}–${end}`
+    : `position ${start + 1}`;
+}
+
+/**
+ * IBAN characters colored by part, with the failing characters marked,
+ * followed by both formats and the list of parts
+ */
+function IbanBreakdownView({
+  breakdown,
+  errorSpan,
+}: {
+  breakdown: IbanBreakdown;
+  errorSpan?: IbanSpan;
+}) {
+  const isError = (index: number) =>
+    !!errorSpan && index >= errorSpan.start && index < errorSpan.end;
+
+  return (
+    <div className="mt-4 space-y-3 text-foreground">
+      <div
+        className="flex flex-wrap gap-1 font-mono text-base"
+        aria-label="IBAN parts"
+      >
+        {breakdown.parts.map((part) => (
+          <span
+            key={part.start}
+            className={cn("rounded px-1", PART_COLORS[part.kind])}
+            title={`${PART_LABELS[part.kind]} (${formatPositions(part)})`}
+          >
+            {[...part.value].map((char, i) => (
+              <span
+                key={i}
+                className={cn(
+                  isError(part.start + i) &&
+                    "rounded-sm bg-destructive text-white",
+                )}
+                data-error={isError(part.start + i) || undefined}
+              >
+                {char}
+              </span>
+            ))}
+          </span>
+        ))}
+      </div>
+
+      {errorSpan && (
+        <div className="text-sm text-destructive">
+          Fails at {formatPositions(errorSpan)}
+        </div>
+      )}
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+        <dt className="text-muted-foreground">Print format</dt>
+        <dd>
+          <code className="text-xs">{breakdown.print}</code>
+        </dd>
+        <dt className="text-muted-foreground">Electronic format</dt>
+        <dd>
+          <code className="text-xs">{breakdown.electronic}</code>
+        </dd>
+        {breakdown.parts.map((part) => (
+          <div key={part.start} className="contents">
+            <dt className="text-muted-foreground">{PART_LABELS[part.kind]}</dt>
+            <dd>
+              <code className="text-xs">{part.value}</code>{" "}
+              <span className="text-xs text-muted-foreground">
+                ({formatPositions(part)})
+              </span>
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
 export default function ValidationResult({ data }: ValidationResultProps) {
   return (
     <div
@@ -48,6 +157,19 @@ export default function ValidationResult({ data }: ValidationResultProps) {
                 : data.reason}
             </div>
           )}
+          {data.bank && (
+            <div className="text-sm leading-relaxed mt-2 text-green-800">
+              {data.bank.name} · BIC{" "}
+              <code className="text-xs">{data.bank.bic}</code> · bank code{" "}
+              <code className="text-xs">{data.bank.bankCode}</code>
+            </div>
+          )}
+          {data.breakdown && (
+            <IbanBreakdownView
+              breakdown={data.breakdown}
+              errorSpan={data.errorSpan}
+            />
+          )}
         </div>
       </div>
     </div>
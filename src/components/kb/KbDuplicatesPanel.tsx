@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useKbDuplicates } from "@/lib/hooks/useKbDuplicates";
+import { sanitizeText, sanitizeUrl } from "@/lib/utils/sanitize";
+import type { KBDuplicateDTO, KBEntryDTO } from "@/types/types";
+
+interface KbDuplicatesPanelProps {
+  entry: Pick<KBEntryDTO, "id" | "title">;
+  /** Called with the merged entry after a successful merge */
+  onMerged: (entry: KBEntryDTO) => void;
+}
+
+/**
+ * Describe how a possible duplicate matched, e.g. "ten sam link"
+ */
+export function describeDuplicateMatch(duplicate: KBDuplicateDTO): string {
+  return duplicate.match === "url"
+    ? "ten sam link"
+    : `podobny tytuł (${Math.round(duplicate.similarity * 100)}%)`;
+}
+
+/**
+ * Admin tool: possible duplicates of an entry, merged into it on request
+ * Merging moves their notes and tags to this entry and deletes them.
+ */
+export default function KbDuplicatesPanel({
+  entry,
+  onMerged,
+}: KbDuplicatesPanelProps) {
+  const { duplicates, isLoading, error, fetchDuplicates, mergeEntries } =
+    useKbDuplicates(entry.id);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [confirming, setConfirming] = useState(false);
+  const [isMerging, setIsMerging] = useState(false);
+
+  useEffect(() => {
+    fetchDuplicates();
+  }, [fetchDuplicates]);
+
+  const toggle = (id: string) => {
+    setConfirming(false);
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(id)) {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleMerge = async () => {
+    setIsMerging(true);
+    const merged = await mergeEntries([...selected]);
+    setIsMerging(false);
+    setConfirming(false);
+    if (merged) {
+      setSelected(new Set());
+      onMerged(merged);
+    }
+  };
+
+  return (
+    <section
+      className="mt-4 space-y-3 border-t pt-4"
+      aria-label="Duplikaty"
+      data-testid="kb-duplicates-panel"
+    >
+      {error ? (
+        <div className="flex items-center gap-2 text-sm">
+          <p className="text-destructive">{error.message}</p>
+          <Button variant="outline" size="sm" onClick={() => fetchDuplicates()}>
+            Spróbuj ponownie
+          </Button>
+        </div>
+      ) : duplicates.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {isLoading ? "Szukanie duplikatów..." : "Brak możliwych duplikatów."}
+        </p>
+      ) : (
+        <>
+          <ul className="space-y-2">
+            {duplicates.map((duplicate) => (
+              <li key={duplicate.id} className="flex items-start gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  id={`kb-duplicate-${entry.id}-${duplicate.id}`}
+                  checked={selected.has(duplicate.id)}
+                  onChange={() => toggle(duplicate.id)}
+                  className="mt-1 h-4 w-4 rounded border-gray-300"
+                />
+                <label htmlFor={`kb-duplicate-${entry.id}-${duplicate.id}`}>
+                  <span className="font-medium">
+                    {sanitizeText(duplicate.title)}
+                  </span>{" "}
+                  <span className="text-muted-foreground">
+                    ({describeDuplicateMatch(duplicate)}
+                    {duplicate.is_public ? ", publiczny" : ""})
+                  </span>
+                  <br />
+                  <a
+                    href={sanitizeUrl(duplicate.url_original)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-muted-foreground hover:underline"
+                  >
+                    {sanitizeText(duplicate.url_original)}
+                  </a>
+                </label>
+              </li>
+            ))}
+          </ul>
+          {confirming ? (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <p>
+                Notatki i tagi zaznaczonych wpisów ({selected.size}) trafią do
+                &quot;{sanitizeText(entry.title)}&quot;, a same wpisy zostaną
+                usunięte.
+              </p>
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={handleMerge}
+                disabled={isMerging}
+              >
+                {isMerging ? "Scalanie..." : "Potwierdź scalenie"}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setConfirming(false)}
+              >
+                Anuluj
+              </Button>
+            </div>
+          ) : (
+            <Button
+              size="sm"
+              onClick={() => setConfirming(true)}
+              disabled={selected.size === 0}
+            >
+              Scal zaznaczone
+            </Button>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
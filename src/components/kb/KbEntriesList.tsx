@@ -12,11 +12,21 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { useKbEntries } from "@/lib/hooks/useKbEntries";
+import { useKbEntries, type KbEntriesFilters } from "@/lib/hooks/useKbEntries";
+import { useKbTagFacets } from "@/lib/hooks/useKbTagFacets";
+import KbDuplicatesPanel, {
+  describeDuplicateMatch,
+} from "@/components/kb/KbDuplicatesPanel";
 import KbEntryForm from "@/components/kb/KbEntryForm";
+import KbImportExport from "@/components/kb/KbImportExport";
+import KbLinkHealth from "@/components/kb/KbLinkHealth";
+import KbNotesPanel from "@/components/kb/KbNotesPanel";
+import KbSearchFilters from "@/components/kb/KbSearchFilters";
+import { splitHighlights } from "@/lib/utils/kb-search";
 import { sanitizeText, sanitizeUrl } from "@/lib/utils/sanitize";
 import type {
   KBEntryDTO,
+  KBDuplicateDTO,
   CreateKBEntryCommand,
   UpdateKBEntryCommand,
 } from "@/types/types";
@@ -31,6 +41,8 @@ interface KbEntriesListProps {
   // For E2E testing when SSR sessions don't work properly
   mockUser?: SimpleUser | null;
   mockRole?: "admin" | "user";
+  // Feature flag collections.export, resolved server-side
+  importExportEnabled?: boolean;
   // Allow Astro client directives without TS complaints when linting .astro usage
   [key: string]: unknown;
 }
@@ -40,6 +52,7 @@ export default function KbEntriesList({
   role = "user",
   mockUser,
   mockRole,
+  importExportEnabled = false,
 }: KbEntriesListProps) {
   // Priority order for user detection:
   // 1. mockUser (explicitly passed for testing - highest priority)
@@ -90,22 +103,58 @@ export default function KbEntriesList({
     updateEntry,
     deleteEntry,
   } = useKbEntries(undefined, { role: effectiveRole });
+  const { facets, fetchFacets } = useKbTagFacets();
 
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [editingEntry, setEditingEntry] = useState<KBEntryDTO | null>(null);
   const [entryToDelete, setEntryToDelete] = useState<KBEntryDTO | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [filters, setFilters] = useState<KbEntriesFilters>({});
+  const [openNotes, setOpenNotes] = useState<Set<string>>(new Set());
+  const [openDuplicates, setOpenDuplicates] = useState<Set<string>>(new Set());
+  // Set when saving a new entry was held back by possible duplicates
+  const [duplicateCheck, setDuplicateCheck] = useState<{
+    command: CreateKBEntryCommand;
+    duplicates: KBDuplicateDTO[];
+  } | null>(null);
 
-  // Fetch entries on mount and when effectiveUser changes
+  // Fetch entries on mount and when effectiveUser or the filters change
   useEffect(() => {
-    fetchEntries();
-  }, [fetchEntries, effectiveUser]);
+    fetchEntries(filters);
+  }, [fetchEntries, effectiveUser, filters]);
+
+  // Facet counts follow the search and owner filter, not the selected tags
+  useEffect(() => {
+    fetchFacets({ q: filters.q, owner: filters.owner });
+  }, [fetchFacets, effectiveUser, filters.q, filters.owner]);
 
   const handleCreate = async (
     data: CreateKBEntryCommand | UpdateKBEntryCommand,
   ) => {
-    await createEntry(data as CreateKBEntryCommand);
-    setShowCreateForm(false);
+    const command = data as CreateKBEntryCommand;
+    let hasDuplicates = false;
+    await createEntry(command, {
+      onDuplicates: (duplicates) => {
+        hasDuplicates = true;
+        setDuplicateCheck({ command, duplicates });
+      },
+    });
+    // Keep the form open while the user decides about the duplicates
+    if (!hasDuplicates) {
+      setShowCreateForm(false);
+    }
+  };
+
+  const handleCreateAnyway = async () => {
+    if (!duplicateCheck) return;
+
+    const created = await createEntry(duplicateCheck.command, {
+      allowDuplicates: true,
+    });
+    setDuplicateCheck(null);
+    if (created) {
+      setShowCreateForm(false);
+    }
   };
 
   const handleUpdate = async (
@@ -129,6 +178,26 @@ export default function KbEntriesList({
     }
   };
 
+  const toggleNotes = (entryId: string) => {
+    setOpenNotes((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(entryId)) {
+        next.add(entryId);
+      }
+      return next;
+    });
+  };
+
+  const toggleDuplicates = (entryId: string) => {
+    setOpenDuplicates((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(entryId)) {
+        next.add(entryId);
+      }
+      return next;
+    });
+  };
+
   const handleLoadMore = () => {
     if (nextCursor) {
       fetchEntries({ after: nextCursor });
@@ -162,7 +231,7 @@ export default function KbEntriesList({
     return (
       <div className="text-center py-8">
         <p className="text-destructive mb-4">{error.message}</p>
-        <Button onClick={() => fetchEntries()}>Spróbuj ponownie</Button>
+        <Button onClick={() => fetchEntries(filters)}>Spróbuj ponownie</Button>
       </div>
     );
   }
@@ -189,6 +258,54 @@ export default function KbEntriesList({
           onCancel={() => setShowCreateForm(false)}
           userRole={effectiveRole}
         />
+        {duplicateCheck && (
+          <AlertDialog
+            open={!!duplicateCheck}
+            onOpenChange={() => setDuplicateCheck(null)}
+          >
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Możliwe duplikaty</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Podobne wpisy są już w bazie wiedzy:
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <ul className="space-y-2 text-sm" data-testid="kb-duplicates">
+                {duplicateCheck.duplicates.map((duplicate) => (
+                  <li key={duplicate.id}>
+                    <a
+                      href={sanitizeUrl(duplicate.url_original)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-medium hover:underline"
+                    >
+                      {sanitizeText(duplicate.title)}
+                    </a>{" "}
+                    <span className="text-muted-foreground">
+                      ({describeDuplicateMatch(duplicate)})
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              {ownsDuplicateUrl(duplicateCheck.duplicates, effectiveUser) && (
+                <p className="text-sm text-destructive">
+                  Ten link jest już w Twojej bazie.
+                </p>
+              )}
+              <AlertDialogFooter>
+                <AlertDialogCancel>Anuluj</AlertDialogCancel>
+                {!ownsDuplicateUrl(
+                  duplicateCheck.duplicates,
+                  effectiveUser,
+                ) && (
+                  <AlertDialogAction onClick={handleCreateAnyway}>
+                    Zapisz mimo to
+                  </AlertDialogAction>
+                )}
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
       </div>
     );
   }
@@ -249,6 +366,22 @@ export default function KbEntriesList({
         </div>
       )}
 
+      {effectiveUser && importExportEnabled && (
+        <KbImportExport
+          onImported={() => {
+            fetchEntries(filters);
+            fetchFacets({ q: filters.q, owner: filters.owner });
+          }}
+        />
+      )}
+
+      <KbSearchFilters
+        filters={filters}
+        facets={facets}
+        canFilterOwner={!!effectiveUser}
+        onChange={setFilters}
+      />
+
       {/* Entries List */}
       {isLoading && entries.length === 0 ? (
         // Loading skeleton
@@ -274,7 +407,19 @@ export default function KbEntriesList({
         // Error state
         <div className="text-center py-8">
           <p className="text-destructive mb-4">{error.message}</p>
-          <Button onClick={() => fetchEntries()}>Spróbuj ponownie</Button>
+          <Button onClick={() => fetchEntries(filters)}>
+            Spróbuj ponownie
+          </Button>
+        </div>
+      ) : entries.length === 0 && hasActiveFilters(filters) ? (
+        // No matches for the search or filters
+        <div className="text-center py-8">
+          <p className="text-muted-foreground mb-4">
+            Brak wpisów pasujących do wyszukiwania
+          </p>
+          <Button variant="outline" onClick={() => setFilters({})}>
+            Wyczyść filtry
+          </Button>
         </div>
       ) : entries.length === 0 ? (
         // Empty state
@@ -334,6 +479,22 @@ export default function KbEntriesList({
                 <p className="text-sm text-muted-foreground mb-2">
                   {sanitizeText(entry.url_original)}
                 </p>
+                <KbLinkHealth
+                  entry={entry}
+                  canFix={!!effectiveUser && effectiveUser.id === entry.user_id}
+                  onFix={(url) => updateEntry(entry.id, { url_original: url })}
+                />
+                {entry.snippet && (
+                  <p className="text-sm mb-2" data-testid="kb-entry-snippet">
+                    {splitHighlights(entry.snippet).map((part, index) =>
+                      part.highlighted ? (
+                        <mark key={index}>{part.text}</mark>
+                      ) : (
+                        <span key={index}>{part.text}</span>
+                      ),
+                    )}
+                  </p>
+                )}
                 {entry.tags && entry.tags.length > 0 && (
                   <div className="flex gap-2 flex-wrap">
                     {entry.tags.map((tag) => (
@@ -346,6 +507,50 @@ export default function KbEntriesList({
                     ))}
                   </div>
                 )}
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="mt-2 px-0"
+                  aria-expanded={openNotes.has(entry.id)}
+                  aria-controls={`kb-notes-${entry.id}`}
+                  onClick={() => toggleNotes(entry.id)}
+                >
+                  {openNotes.has(entry.id) ? "Ukryj notatki" : "Notatki"}
+                </Button>
+                {effectiveRole === "admin" && (
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="mt-2 ml-4 px-0"
+                    aria-expanded={openDuplicates.has(entry.id)}
+                    aria-controls={`kb-duplicates-${entry.id}`}
+                    onClick={() => toggleDuplicates(entry.id)}
+                  >
+                    {openDuplicates.has(entry.id)
+                      ? "Ukryj duplikaty"
+                      : "Duplikaty"}
+                  </Button>
+                )}
+                {openNotes.has(entry.id) && (
+                  <div id={`kb-notes-${entry.id}`}>
+                    <KbNotesPanel
+                      entry={entry}
+                      user={effectiveUser}
+                      userRole={effectiveRole}
+                    />
+                  </div>
+                )}
+                {effectiveRole === "admin" && openDuplicates.has(entry.id) && (
+                  <div id={`kb-duplicates-${entry.id}`}>
+                    <KbDuplicatesPanel
+                      entry={entry}
+                      onMerged={() => {
+                        fetchEntries(filters);
+                        fetchFacets({ q: filters.q, owner: filters.owner });
+                      }}
+                    />
+                  </div>
+                )}
               </CardContent>
             </Card>
           ))}
@@ -396,3 +601,19 @@ export default function KbEntriesList({
     </div>
   );
 }
+
+/**
+ * A user cannot save the same link twice, whatever they choose
+ */
+function ownsDuplicateUrl(
+  duplicates: KBDuplicateDTO[],
+  user: SimpleUser | null,
+): boolean {
+  return duplicates.some(
+    (duplicate) => duplicate.match === "url" && duplicate.user_id === user?.id,
+  );
+}
+
+function hasActiveFilters(filters: KbEntriesFilters): boolean {
+  return !!filters.q || (filters.tags?.length ?? 0) > 0 || !!filters.owner;
+}
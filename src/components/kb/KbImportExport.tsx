@@ -0,0 +1,111 @@
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { useKbImport } from "@/lib/hooks/useKbImport";
+import type { KBExportFormat, KBImportRowStatus } from "@/types/types";
+
+interface KbImportExportProps {
+  /** Called after an import created at least one entry */
+  onImported: () => void;
+}
+
+const EXPORT_LINKS: { format: KBExportFormat; label: string }[] = [
+  { format: "json", label: "JSON" },
+  { format: "md", label: "Markdown" },
+  { format: "html", label: "Zakładki (HTML)" },
+];
+
+const STATUS_LABELS: Record<KBImportRowStatus, string> = {
+  created: "dodano",
+  skipped: "pominięto",
+  failed: "błąd",
+};
+
+/**
+ * Export of the user's KB (JSON, Markdown, browser bookmarks) and import
+ * of the same formats, with the report of skipped and failed rows
+ */
+export default function KbImportExport({ onImported }: KbImportExportProps) {
+  const { report, isImporting, importFile, clearReport } = useKbImport();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const result = await importFile(file);
+    if (result && result.summary.created > 0) {
+      onImported();
+    }
+  };
+
+  const problems =
+    report?.results.filter((result) => result.status !== "created") ?? [];
+
+  return (
+    <section
+      className="mb-6 space-y-3 rounded-md border p-4"
+      aria-label="Import i eksport"
+      data-testid="kb-import-export"
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium">Eksportuj:</span>
+        {EXPORT_LINKS.map(({ format, label }) => (
+          <Button key={format} variant="outline" size="sm" asChild>
+            <a href={`/api/kb/export?format=${format}`} download>
+              {label}
+            </a>
+          </Button>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          className="ml-auto"
+          onClick={() => fileInput.current?.click()}
+          disabled={isImporting}
+        >
+          {isImporting ? "Importowanie..." : "Importuj plik"}
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,.md,.markdown,.html,.htm,application/json,text/markdown,text/html"
+          className="hidden"
+          onChange={handleFile}
+          aria-label="Plik do importu"
+          data-testid="kb-import-file"
+        />
+      </div>
+
+      {report && (
+        <div className="space-y-2 text-sm" role="status">
+          <div className="flex items-center gap-2">
+            <p>
+              Dodano: {report.summary.created}, pominięto:{" "}
+              {report.summary.skipped}, błędy: {report.summary.failed}
+            </p>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="ml-auto"
+              onClick={clearReport}
+            >
+              Zamknij raport
+            </Button>
+          </div>
+          {problems.length > 0 && (
+            <ul className="max-h-48 space-y-1 overflow-y-auto text-muted-foreground">
+              {problems.map((result) => (
+                <li key={result.row}>
+                  Wiersz {result.row} ({STATUS_LABELS[result.status]}):{" "}
+                  {result.title || result.url}
+                  {result.reason && ` — ${result.reason}`}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { getKbLinkHealth } from "@/lib/utils/kb-link-check";
+import { sanitizeText } from "@/lib/utils/sanitize";
+import type { KBLinkCheckFields } from "@/types/types";
+
+interface KbLinkHealthProps {
+  entry: KBLinkCheckFields;
+  /** Whether the user may change the entry's URL */
+  canFix: boolean;
+  /** Switch the entry to its redirect target; resolves when done */
+  onFix: (url: string) => Promise<unknown>;
+}
+
+const LINK_ERRORS: Record<string, string> = {
+  timeout: "brak odpowiedzi",
+  network_error: "błąd połączenia",
+  too_many_redirects: "zbyt wiele przekierowań",
+  invalid_url: "nieprawidłowy adres",
+  private_host: "adres niepubliczny",
+};
+
+/**
+ * Why the last check failed, e.g. "HTTP 404" or "brak odpowiedzi"
+ */
+export function describeLinkProblem(entry: KBLinkCheckFields): string {
+  if (entry.link_error) {
+    return LINK_ERRORS[entry.link_error] ?? entry.link_error;
+  }
+  return `HTTP ${entry.link_status}`;
+}
+
+function formatCheckedAt(checkedAt: string): string {
+  return new Date(checkedAt).toLocaleDateString("pl-PL");
+}
+
+/**
+ * Result of the last link check: a badge for broken links, and for links
+ * that moved permanently the new address with a "fix URL" action
+ */
+export default function KbLinkHealth({
+  entry,
+  canFix,
+  onFix,
+}: KbLinkHealthProps) {
+  const [isFixing, setIsFixing] = useState(false);
+  const health = getKbLinkHealth(entry);
+
+  if (health === "broken" && entry.link_checked_at) {
+    return (
+      <div className="mb-2">
+        <span
+          className="px-2 py-1 rounded text-xs bg-destructive/10 text-destructive"
+          title={`Sprawdzono ${formatCheckedAt(entry.link_checked_at)}`}
+          data-testid="kb-link-broken"
+        >
+          Niedziałający link ({describeLinkProblem(entry)})
+        </span>
+      </div>
+    );
+  }
+
+  if (health !== "moved" || !entry.link_redirect_url) {
+    return null;
+  }
+
+  const target = entry.link_redirect_url;
+  const handleFix = async () => {
+    setIsFixing(true);
+    await onFix(target);
+    setIsFixing(false);
+  };
+
+  return (
+    <div
+      className="mb-2 flex flex-wrap items-center gap-2 text-xs"
+      data-testid="kb-link-moved"
+    >
+      <span className="px-2 py-1 rounded bg-muted">
+        Link przeniesiony na {sanitizeText(target)}
+      </span>
+      {canFix && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleFix}
+          disabled={isFixing}
+        >
+          {isFixing ? "Poprawianie..." : "Popraw URL"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import NoteMarkdown from "@/components/kb/NoteMarkdown";
+import { useKbNotes } from "@/lib/hooks/useKbNotes";
+import type { KBEntryDTO, KBNoteDTO } from "@/types/types";
+
+const MAX_NOTE_LENGTH = 5000;
+
+interface KbNotesPanelProps {
+  entry: Pick<KBEntryDTO, "id" | "user_id" | "is_public">;
+  user: { id: string } | null;
+  userRole: "admin" | "user";
+}
+
+function formatNoteDate(createdAt: string): string {
+  return new Date(createdAt).toLocaleString("pl-PL", {
+    dateStyle: "short",
+    timeStyle: "short",
+  });
+}
+
+/**
+ * Notes thread of a KB entry, oldest first, with Markdown bodies
+ * Editing follows docs/kb-admin-restrictions.md: users write their own notes
+ * on their own private entries, admins write everywhere; the API enforces
+ * the same rules.
+ */
+export default function KbNotesPanel({
+  entry,
+  user,
+  userRole,
+}: KbNotesPanelProps) {
+  const {
+    notes,
+    nextCursor,
+    isLoading,
+    error,
+    fetchNotes,
+    addNote,
+    updateNote,
+    deleteNote,
+  } = useKbNotes(entry.id);
+
+  const [draft, setDraft] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState("");
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchNotes();
+  }, [fetchNotes]);
+
+  const isAdmin = userRole === "admin";
+  const canAdd =
+    !!user && (isAdmin || (entry.user_id === user.id && !entry.is_public));
+  const canManage = (note: KBNoteDTO) =>
+    !!user && (isAdmin || (note.user_id === user.id && !entry.is_public));
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+
+    setIsSaving(true);
+    const created = await addNote(draft.trim());
+    setIsSaving(false);
+    if (created) {
+      setDraft("");
+    }
+  };
+
+  const startEditing = (note: KBNoteDTO) => {
+    setEditingId(note.id);
+    setEditDraft(note.body);
+    setConfirmDeleteId(null);
+  };
+
+  const handleUpdate = async (noteId: string) => {
+    if (!editDraft.trim()) return;
+
+    setIsSaving(true);
+    const updated = await updateNote(noteId, editDraft.trim());
+    setIsSaving(false);
+    if (updated) {
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = async (noteId: string) => {
+    setIsSaving(true);
+    await deleteNote(noteId);
+    setIsSaving(false);
+    setConfirmDeleteId(null);
+  };
+
+  return (
+    <section
+      className="mt-4 space-y-3 border-t pt-4"
+      aria-label="Notatki"
+      data-testid="kb-notes-panel"
+    >
+      {error && notes.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm">
+          <p className="text-destructive">{error.message}</p>
+          <Button variant="outline" size="sm" onClick={() => fetchNotes()}>
+            Spróbuj ponownie
+          </Button>
+        </div>
+      ) : notes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {isLoading ? "Ładowanie notatek..." : "Brak notatek."}
+        </p>
+      ) : (
+        <ol className="space-y-2">
+          {notes.map((note) => (
+            <li key={note.id} className="rounded-md border p-3">
+              {editingId === note.id ? (
+                <div className="space-y-2">
+                  <Textarea
+                    value={editDraft}
+                    onChange={(e) => setEditDraft(e.target.value)}
+                    maxLength={MAX_NOTE_LENGTH}
+                    aria-label="Treść notatki"
+                    rows={4}
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => handleUpdate(note.id)}
+                      disabled={isSaving || !editDraft.trim()}
+                    >
+                      Zapisz
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setEditingId(null)}
+                    >
+                      Anuluj
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <NoteMarkdown source={note.body} />
+                  <div className="mt-2 flex items-center gap-2">
+                    <time
+                      dateTime={note.created_at}
+                      className="text-xs text-muted-foreground"
+                    >
+                      {formatNoteDate(note.created_at)}
+                    </time>
+                    {canManage(note) && (
+                      <div className="ml-auto flex gap-1">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => startEditing(note)}
+                        >
+                          Edytuj notatkę
+                        </Button>
+                        {confirmDeleteId === note.id ? (
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => handleDelete(note.id)}
+                            disabled={isSaving}
+                          >
+                            Potwierdź usunięcie
+                          </Button>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setConfirmDeleteId(note.id)}
+                          >
+                            Usuń notatkę
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {nextCursor && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fetchNotes(nextCursor)}
+          disabled={isLoading}
+        >
+          {isLoading ? "Ładowanie..." : "Pokaż kolejne notatki"}
+        </Button>
+      )}
+
+      {canAdd && (
+        <form onSubmit={handleAdd} className="space-y-2">
+          <Label htmlFor={`kb-note-${entry.id}`}>Nowa notatka</Label>
+          <Textarea
+            id={`kb-note-${entry.id}`}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            maxLength={MAX_NOTE_LENGTH}
+            placeholder="Markdown: **pogrubienie**, *kursywa*, `kod`, - listy, [link](https://…)"
+            rows={3}
+          />
+          <Button type="submit" size="sm" disabled={isSaving || !draft.trim()}>
+            {isSaving ? "Zapisywanie..." : "Dodaj notatkę"}
+          </Button>
+        </form>
+      )}
+    </section>
+  );
+}
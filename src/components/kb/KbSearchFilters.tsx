@@ -0,0 +1,202 @@
+import { useEffect, useState } from "react";
+import { Search, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { KbEntriesFilters } from "@/lib/hooks/useKbEntries";
+import { MAX_KB_TAG_FILTERS } from "@/lib/utils/kb-search";
+import type { KBOwnerFilter, KBSortOrder, KBTagFacetDTO } from "@/types/types";
+
+interface KbSearchFiltersProps {
+  filters: KbEntriesFilters;
+  facets: KBTagFacetDTO[];
+  /** Owner filter is only offered to signed-in users */
+  canFilterOwner: boolean;
+  onChange: (filters: KbEntriesFilters) => void;
+}
+
+const ALL_OWNERS = "all";
+const DEFAULT_SORT = "default";
+
+/**
+ * Search box, tag facets and sort/owner selects above the KB list
+ * The query is applied on submit; everything else applies immediately.
+ */
+export default function KbSearchFilters({
+  filters,
+  facets,
+  canFilterOwner,
+  onChange,
+}: KbSearchFiltersProps) {
+  const [query, setQuery] = useState(filters.q ?? "");
+  const selectedTags = filters.tags ?? [];
+
+  // Keep the input in sync when the query is cleared from outside
+  useEffect(() => {
+    setQuery(filters.q ?? "");
+  }, [filters.q]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    applyQuery(query.trim() || undefined);
+  };
+
+  const handleClear = () => {
+    setQuery("");
+    applyQuery(undefined);
+  };
+
+  const applyQuery = (q: string | undefined) => {
+    // Without a query "updated" is the default again
+    const sort = !q && filters.sort === "updated" ? undefined : filters.sort;
+    onChange({ ...filters, q, sort });
+  };
+
+  const toggleTag = (tag: string) => {
+    const tags = selectedTags.includes(tag)
+      ? selectedTags.filter((t) => t !== tag)
+      : [...selectedTags, tag].slice(0, MAX_KB_TAG_FILTERS);
+    onChange({ ...filters, tags });
+  };
+
+  // Selected tags stay visible even when the current facets no longer list them
+  const facetTags = [
+    ...facets,
+    ...selectedTags
+      .filter((tag) => !facets.some((facet) => facet.tag === tag))
+      .map((tag) => ({ tag, count: 0 })),
+  ];
+
+  return (
+    <div className="space-y-4 mb-6" data-testid="kb-search-filters">
+      <form
+        role="search"
+        onSubmit={handleSubmit}
+        className="flex flex-wrap items-center gap-2"
+      >
+        <div className="relative flex-1 min-w-48">
+          <Search
+            className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground"
+            aria-hidden="true"
+          />
+          <Input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Szukaj w tytułach i notatkach"
+            aria-label="Szukaj wpisów"
+            maxLength={200}
+            className="pl-8"
+          />
+        </div>
+        <Button type="submit">Szukaj</Button>
+        {filters.q && (
+          <Button type="button" variant="ghost" onClick={handleClear}>
+            <X className="h-4 w-4" aria-hidden="true" />
+            Wyczyść
+          </Button>
+        )}
+      </form>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {canFilterOwner && (
+          <Select
+            value={filters.owner ?? ALL_OWNERS}
+            onValueChange={(value) =>
+              onChange({
+                ...filters,
+                owner:
+                  value === ALL_OWNERS ? undefined : (value as KBOwnerFilter),
+              })
+            }
+          >
+            <SelectTrigger className="w-44" aria-label="Pokaż wpisy">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_OWNERS}>Wszystkie wpisy</SelectItem>
+              <SelectItem value="me">Moje wpisy</SelectItem>
+              <SelectItem value="public">Publiczne wpisy</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+        <Select
+          value={filters.sort ?? DEFAULT_SORT}
+          onValueChange={(value) =>
+            onChange({
+              ...filters,
+              sort: value === DEFAULT_SORT ? undefined : (value as KBSortOrder),
+            })
+          }
+        >
+          <SelectTrigger className="w-48" aria-label="Sortowanie">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_SORT}>
+              {filters.q ? "Trafność" : "Ostatnio zmienione"}
+            </SelectItem>
+            {filters.q && (
+              <SelectItem value="updated">Ostatnio zmienione</SelectItem>
+            )}
+            <SelectItem value="created">Najnowsze</SelectItem>
+            <SelectItem value="title">Tytuł (A–Z)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {facetTags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-muted-foreground">Tagi:</span>
+          {facetTags.map(({ tag, count }) => {
+            const selected = selectedTags.includes(tag);
+            return (
+              <Button
+                key={tag}
+                type="button"
+                size="sm"
+                variant={selected ? "default" : "outline"}
+                aria-pressed={selected}
+                onClick={() => toggleTag(tag)}
+              >
+                {tag} ({count})
+              </Button>
+            );
+          })}
+          {selectedTags.length > 1 && (
+            <div
+              className="flex gap-1"
+              role="group"
+              aria-label="Dopasowanie tagów"
+            >
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                aria-pressed={filters.tagMatch !== "all"}
+                onClick={() => onChange({ ...filters, tagMatch: "any" })}
+              >
+                Dowolny z tagów
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                aria-pressed={filters.tagMatch === "all"}
+                onClick={() => onChange({ ...filters, tagMatch: "all" })}
+              >
+                Wszystkie tagi
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { Fragment, type ReactNode } from "react";
+import {
+  parseMarkdown,
+  type MarkdownBlock,
+  type MarkdownInline,
+} from "@/lib/utils/markdown";
+
+interface NoteMarkdownProps {
+  source: string;
+}
+
+function renderInline(nodes: MarkdownInline[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return <Fragment key={index}>{node.text}</Fragment>;
+      case "code":
+        return (
+          <code key={index} className="rounded bg-muted px-1 font-mono">
+            {node.text}
+          </code>
+        );
+      case "strong":
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case "em":
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case "link":
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary underline"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+      case "break":
+        return <br key={index} />;
+    }
+  });
+}
+
+function renderBlock(block: MarkdownBlock, index: number): ReactNode {
+  switch (block.type) {
+    case "heading": {
+      const Heading = (["h4", "h5", "h6"] as const)[block.level - 1];
+      return (
+        <Heading key={index} className="font-semibold">
+          {renderInline(block.children)}
+        </Heading>
+      );
+    }
+    case "code":
+      return (
+        <pre
+          key={index}
+          className="overflow-x-auto rounded bg-muted p-2 font-mono text-xs"
+        >
+          <code>{block.text}</code>
+        </pre>
+      );
+    case "list": {
+      const List = block.ordered ? "ol" : "ul";
+      return (
+        <List
+          key={index}
+          className={block.ordered ? "list-decimal pl-5" : "list-disc pl-5"}
+        >
+          {block.items.map((item, itemIndex) => (
+            <li key={itemIndex}>{renderInline(item)}</li>
+          ))}
+        </List>
+      );
+    }
+    case "quote":
+      return (
+        <blockquote
+          key={index}
+          className="border-l-2 pl-3 text-muted-foreground"
+        >
+          {renderInline(block.children)}
+        </blockquote>
+      );
+    case "paragraph":
+      return <p key={index}>{renderInline(block.children)}</p>;
+  }
+}
+
+/**
+ * Render a note body written in Markdown (see lib/utils/markdown for the
+ * supported subset) as React elements, never as raw HTML
+ */
+export default function NoteMarkdown({ source }: NoteMarkdownProps) {
+  return (
+    <div className="space-y-2 break-words text-sm">
+      {parseMarkdown(source).map(renderBlock)}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import React from "react";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen, cleanup } from "@testing-library/react";
+import { userEvent } from "@testing-library/user-event";
+import ReportComposer from "./ReportComposer";
+import type { TemplateField } from "@/types/types";
+
+const copyToClipboard = vi.fn();
+
+vi.mock("@/lib/hooks/useClipboard", () => ({
+  useClipboard: () => ({ copyToClipboard, isCopying: false }),
+}));
+
+vi.mock("sonner", () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const fields: TemplateField[] = [
+  { key: "title", type: "text", label: "Title" },
+  { key: "environment", type: "text", label: "Environment", default: "Prod" },
+  { key: "steps", type: "markdown", label: "Steps" },
+];
+
+const template = {
+  id: "preset:ui_bug",
+  name: "UI bug",
+  fields,
+  required_fields: ["title", "steps"],
+  attachments: [],
+};
+
+describe("ReportComposer", () => {
+  beforeEach(() => {
+    copyToClipboard.mockReset();
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("prefills defaults in the preview", () => {
+    render(<ReportComposer template={template} />);
+
+    expect(screen.getByLabelText("Environment")).toHaveValue("Prod");
+    expect(screen.getByTestId("report-preview")).toHaveTextContent(
+      "**Environment:** Prod",
+    );
+  });
+
+  it("blocks copying while required fields are empty", async () => {
+    const user = userEvent.setup();
+    render(<ReportComposer template={template} />);
+
+    await user.click(screen.getByRole("button", { name: /Kopiuj Markdown/ }));
+
+    expect(copyToClipboard).not.toHaveBeenCalled();
+    expect(screen.getAllByText("To pole jest wymagane")).toHaveLength(2);
+  });
+
+  it("copies the rendered Markdown once required fields are filled", async () => {
+    const user = userEvent.setup();
+    render(<ReportComposer template={template} />);
+
+    await user.type(screen.getByLabelText(/Title/), "Button broken");
+    await user.type(screen.getByLabelText(/Steps/), "Click it");
+    await user.click(screen.getByRole("button", { name: /Kopiuj Markdown/ }));
+
+    expect(copyToClipboard).toHaveBeenCalledWith(
+      "# Button broken\n\n- **Environment:** Prod\n\n## Steps\n\nClick it\n",
+      "Raport skopiowany do schowka",
+    );
+  });
+
+  it("restores values from a draft", () => {
+    render(
+      <ReportComposer
+        template={template}
+        draft={{
+          id: "draft-1",
+          user_id: "user-1",
+          template_id: null,
+          title: "Saved bug",
+          content: {
+            template_ref: "preset:ui_bug",
+            values: { title: "Saved bug", steps: "Open page" },
+            attachments_text: "https://example.com/a.png",
+          },
+          expires_at: null,
+          created_at: "2026-01-10T12:00:00.000Z",
+          updated_at: "2026-01-10T12:00:00.000Z",
+        }}
+      />,
+    );
+
+    expect(screen.getByLabelText(/Title/)).toHaveValue("Saved bug");
+    expect(screen.getByLabelText("Environment")).toHaveValue("Prod");
+    expect(screen.getByTestId("report-preview")).toHaveTextContent(
+      "- https://example.com/a.png",
+    );
+  });
+});
@@ -0,0 +1,365 @@
+import { useState } from "react";
+import { ClipboardCopy, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import ImproveWithAI from "@/components/ai/ImproveWithAI";
+import { cn } from "@/lib/utils";
+import { useClipboard } from "@/lib/hooks/useClipboard";
+import { useDraftAutosave } from "@/lib/hooks/useDraftAutosave";
+import type { AutosaveStatus } from "@/lib/hooks/useDraftAutosave";
+import type {
+  AIField,
+  DraftDTO,
+  TemplateDTO,
+  TemplateField,
+} from "@/types/types";
+import {
+  MULTISELECT_SEPARATOR,
+  createInitialValues,
+  getFieldDefault,
+  getFieldOptions,
+  getMissingRequiredFields,
+  isAttachmentUrl,
+  parseAttachmentLines,
+  renderTemplateMarkdown,
+} from "@/lib/utils/template-report";
+import {
+  parseReportDraftContent,
+  toReportDraftCommand,
+} from "@/lib/utils/report-draft";
+
+interface ReportComposerProps {
+  template: Pick<
+    TemplateDTO,
+    "id" | "name" | "fields" | "required_fields" | "attachments"
+  >;
+  /** Unfinished draft to continue */
+  draft?: DraftDTO | null;
+  /** Autosave to /api/drafts (signed-in users only) */
+  autosave?: boolean;
+  onDraftDiscarded?: (draftId: string) => void;
+  /** Offer "Improve with AI" on description/steps/notes fields */
+  aiAssist?: boolean;
+}
+
+const AI_FIELDS: readonly string[] = [
+  "description",
+  "steps",
+  "hypotheses",
+  "notes",
+] satisfies AIField[];
+
+const AUTOSAVE_STATUS_LABELS: Record<AutosaveStatus, string | null> = {
+  idle: null,
+  saving: "Zapisywanie szkicu...",
+  saved: "Szkic zapisany",
+  error: "Nie udało się zapisać szkicu",
+};
+
+interface FieldInputProps {
+  field: TemplateField;
+  id: string;
+  value: string;
+  invalid: boolean;
+  onChange: (value: string) => void;
+}
+
+function FieldInput({ field, id, value, invalid, onChange }: FieldInputProps) {
+  switch (field.type) {
+    case "text":
+    case "number":
+    case "date":
+      return (
+        <Input
+          id={id}
+          type={field.type}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          aria-invalid={invalid}
+        />
+      );
+    case "select":
+      return (
+        <Select value={value || undefined} onValueChange={onChange}>
+          <SelectTrigger id={id} className="w-full" aria-invalid={invalid}>
+            <SelectValue placeholder="Wybierz..." />
+          </SelectTrigger>
+          <SelectContent>
+            {getFieldOptions(field).map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case "multiselect": {
+      const selected = value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean);
+      const toggle = (optionValue: string, checked: boolean) => {
+        const next = checked
+          ? [...selected, optionValue]
+          : selected.filter((item) => item !== optionValue);
+        onChange(next.join(MULTISELECT_SEPARATOR));
+      };
+      return (
+        <div id={id} className="flex flex-wrap gap-4" role="group">
+          {getFieldOptions(field).map((option) => (
+            <label
+              key={option.value}
+              className="flex items-center gap-2 text-sm"
+            >
+              <input
+                type="checkbox"
+                checked={selected.includes(option.value)}
+                onChange={(e) => toggle(option.value, e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300"
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      );
+    }
+    default:
+      // markdown, textarea, code and any future long-form type
+      return (
+        <Textarea
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          rows={field.type === "code" ? 6 : 4}
+          className={cn(field.type === "code" && "font-mono")}
+          aria-invalid={invalid}
+        />
+      );
+  }
+}
+
+/**
+ * "Compose report" mode: fill in a template, validate required fields and
+ * copy the rendered Markdown. Mount with key={template.id} to reset values
+ * when switching templates.
+ *
+ * With autosave on, edits are saved as a draft after a short pause; the
+ * draft is discarded once the report is copied or cleared.
+ */
+export default function ReportComposer({
+  template,
+  draft = null,
+  autosave = false,
+  onDraftDiscarded,
+  aiAssist = false,
+}: ReportComposerProps) {
+  const [restored] = useState(() =>
+    draft ? parseReportDraftContent(draft) : null,
+  );
+  const [values, setValues] = useState(() => ({
+    ...createInitialValues(template.fields),
+    ...restored?.values,
+  }));
+  const [attachmentsText, setAttachmentsText] = useState(
+    restored?.attachments_text ?? "",
+  );
+  const [showErrors, setShowErrors] = useState(false);
+  const { copyToClipboard, isCopying } = useClipboard();
+  const {
+    status: autosaveStatus,
+    lastSavedAt,
+    scheduleSave,
+    discardDraft,
+  } = useDraftAutosave({
+    draftId: restored ? draft?.id : null,
+    enabled: autosave,
+  });
+
+  const attachments = parseAttachmentLines(attachmentsText);
+  const invalidAttachments = attachments.filter((url) => !isAttachmentUrl(url));
+  const missing = getMissingRequiredFields(template, values);
+
+  const markdown = renderTemplateMarkdown(
+    template,
+    values,
+    attachments.filter(isAttachmentUrl),
+  );
+
+  const setValue = (key: string, value: string) => {
+    const next = { ...values, [key]: value };
+    setValues(next);
+    scheduleSave(toReportDraftCommand(template, next, attachmentsText));
+  };
+
+  const changeAttachments = (text: string) => {
+    setAttachmentsText(text);
+    scheduleSave(toReportDraftCommand(template, values, text));
+  };
+
+  const finishDraft = async () => {
+    const discardedId = await discardDraft();
+    if (discardedId) {
+      onDraftDiscarded?.(discardedId);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (missing.length > 0 || invalidAttachments.length > 0) {
+      setShowErrors(true);
+      const labels = template.fields
+        .filter((field) => missing.includes(field.key))
+        .map((field) => field.label);
+      toast.error(
+        missing.length > 0
+          ? `Uzupełnij wymagane pola: ${labels.join(", ")}`
+          : "Popraw adresy załączników",
+      );
+      return;
+    }
+    const copied = await copyToClipboard(
+      markdown,
+      "Raport skopiowany do schowka",
+    );
+    if (copied) {
+      await finishDraft();
+    }
+  };
+
+  const handleReset = () => {
+    setValues(createInitialValues(template.fields));
+    setAttachmentsText("");
+    setShowErrors(false);
+    void finishDraft();
+  };
+
+  const autosaveLabel = AUTOSAVE_STATUS_LABELS[autosaveStatus];
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <div className="space-y-4">
+        {template.fields.map((field) => {
+          const id = `report-${field.key}`;
+          const isRequired = template.required_fields.includes(field.key);
+          const isInvalid = showErrors && missing.includes(field.key);
+          const defaultValue = getFieldDefault(field);
+          const value = values[field.key] ?? "";
+
+          return (
+            <div key={field.key} className="space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor={id}>
+                  {field.label}
+                  {isRequired && <span className="text-destructive"> *</span>}
+                </Label>
+                {defaultValue && value !== defaultValue && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setValue(field.key, defaultValue)}
+                    aria-label={`Przywróć domyślną wartość: ${field.label}`}
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                    Domyślna
+                  </Button>
+                )}
+              </div>
+              <FieldInput
+                field={field}
+                id={id}
+                value={value}
+                invalid={isInvalid}
+                onChange={(next) => setValue(field.key, next)}
+              />
+              {aiAssist && AI_FIELDS.includes(field.key) && (
+                <ImproveWithAI
+                  context="template"
+                  field={field.key as AIField}
+                  text={value}
+                  onApply={(next) => setValue(field.key, next)}
+                />
+              )}
+              {field.help && (
+                <p className="text-xs text-muted-foreground">{field.help}</p>
+              )}
+              {isInvalid && (
+                <p className="text-sm text-destructive" role="alert">
+                  To pole jest wymagane
+                </p>
+              )}
+            </div>
+          );
+        })}
+
+        <div className="space-y-1">
+          <Label htmlFor="report-attachments">
+            Załączniki (jeden adres URL w linii)
+          </Label>
+          <Textarea
+            id="report-attachments"
+            value={attachmentsText}
+            onChange={(e) => changeAttachments(e.target.value)}
+            rows={2}
+            aria-invalid={showErrors && invalidAttachments.length > 0}
+          />
+          {showErrors && invalidAttachments.length > 0 && (
+            <p className="text-sm text-destructive" role="alert">
+              Nieprawidłowe adresy: {invalidAttachments.join(", ")}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <h3 className="text-sm font-medium">Podgląd Markdown</h3>
+            {autosave && autosaveLabel && (
+              <p
+                className={cn(
+                  "text-xs text-muted-foreground",
+                  autosaveStatus === "error" && "text-destructive",
+                )}
+                role="status"
+              >
+                {autosaveLabel}
+                {autosaveStatus === "saved" &&
+                  lastSavedAt &&
+                  ` (${new Date(lastSavedAt).toLocaleTimeString("pl-PL")})`}
+              </p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={handleReset}>
+              Wyczyść
+            </Button>
+            <Button
+              type="button"
+              onClick={() => void handleCopy()}
+              disabled={isCopying}
+            >
+              <ClipboardCopy className="h-4 w-4" />
+              Kopiuj Markdown
+            </Button>
+          </div>
+        </div>
+        <pre
+          className="max-h-[32rem] overflow-auto whitespace-pre-wrap rounded-md bg-muted/50 p-4 text-sm"
+          data-testid="report-preview"
+        >
+          {markdown}
+        </pre>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+import { useMemo, useState } from "react";
+import { Copy, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  CreateTemplateCommand,
+  TemplateDTO,
+  TemplatePreset,
+  TemplateScope,
+} from "@/types/types";
+import {
+  createInitialValues,
+  isAttachmentUrl,
+  parseAttachmentLines,
+  renderTemplateMarkdown,
+} from "@/lib/utils/template-report";
+import TemplateFieldBuilder, {
+  createEmptyFieldDraft,
+  fromFieldDrafts,
+  toFieldDrafts,
+  validateFieldDrafts,
+} from "./TemplateFieldBuilder";
+
+const NO_PRESET = "none";
+
+interface TemplateEditorProps {
+  /** null when creating a new template */
+  template: TemplateDTO | null;
+  canEdit: boolean;
+  canCreateGlobal?: boolean;
+  isSaving?: boolean;
+  onSave: (command: CreateTemplateCommand) => Promise<unknown>;
+  onDelete?: () => void;
+  onFork?: () => void;
+}
+
+/**
+ * Template editor: name, preset, field builder, attachments and a Markdown
+ * preview filled with each field's default value. Read-only templates show
+ * the preview with a fork action instead of the save controls.
+ */
+export default function TemplateEditor({
+  template,
+  canEdit,
+  canCreateGlobal = false,
+  isSaving = false,
+  onSave,
+  onDelete,
+  onFork,
+}: TemplateEditorProps) {
+  const [name, setName] = useState(template?.name ?? "");
+  const [scope, setScope] = useState<TemplateScope>(template?.scope ?? "user");
+  const [preset, setPreset] = useState<TemplatePreset | null>(
+    template?.preset ?? null,
+  );
+  const [drafts, setDrafts] = useState(() =>
+    template
+      ? toFieldDrafts(template.fields, template.required_fields)
+      : [
+          {
+            ...createEmptyFieldDraft(),
+            key: "title",
+            label: "Title",
+            required: true,
+          },
+        ],
+  );
+  const [attachmentsText, setAttachmentsText] = useState(
+    (template?.attachments ?? []).join("\n"),
+  );
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const preview = useMemo(() => {
+    const { fields, required_fields } = fromFieldDrafts(drafts);
+    return renderTemplateMarkdown(
+      {
+        name: name || "Nowy szablon",
+        fields,
+        required_fields,
+        attachments: parseAttachmentLines(attachmentsText),
+      },
+      createInitialValues(fields),
+    );
+  }, [drafts, name, attachmentsText]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const validationErrors = validateFieldDrafts(drafts);
+    if (!name.trim()) {
+      validationErrors.unshift("Nazwa szablonu jest wymagana.");
+    }
+    const attachments = parseAttachmentLines(attachmentsText);
+    const invalidUrl = attachments.find((url) => !isAttachmentUrl(url));
+    if (invalidUrl) {
+      validationErrors.push(`Nieprawidłowy adres załącznika: ${invalidUrl}`);
+    }
+    if (attachments.length > 10) {
+      validationErrors.push("Można dodać maksymalnie 10 załączników.");
+    }
+
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) {
+      return;
+    }
+
+    await onSave({
+      name: name.trim(),
+      scope,
+      preset,
+      attachments,
+      ...fromFieldDrafts(drafts),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6" noValidate>
+      {!canEdit && (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-md bg-muted/50 p-4 text-sm">
+          <span>
+            Ten szablon jest tylko do odczytu. Utwórz własną kopię, aby go
+            zmodyfikować.
+          </span>
+          {onFork && (
+            <Button
+              type="button"
+              size="sm"
+              onClick={onFork}
+              disabled={isSaving}
+            >
+              <Copy className="h-4 w-4" />
+              Utwórz własną kopię
+            </Button>
+          )}
+        </div>
+      )}
+
+      <fieldset disabled={!canEdit || isSaving} className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">
+              Nazwa <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={200}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-preset">Preset</Label>
+            <Select
+              value={preset ?? NO_PRESET}
+              onValueChange={(value) =>
+                setPreset(
+                  value === NO_PRESET ? null : (value as TemplatePreset),
+                )
+              }
+              disabled={!canEdit || isSaving}
+            >
+              <SelectTrigger id="template-preset" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PRESET}>Brak</SelectItem>
+                <SelectItem value="ui_bug">UI bug</SelectItem>
+                <SelectItem value="api_bug">API bug</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {canCreateGlobal && !template && (
+          <div className="space-y-2">
+            <Label htmlFor="template-scope">Zakres</Label>
+            <Select
+              value={scope}
+              onValueChange={(value) => setScope(value as TemplateScope)}
+            >
+              <SelectTrigger id="template-scope" className="w-full sm:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="user">Własny</SelectItem>
+                <SelectItem value="global">
+                  Globalny (dla wszystkich)
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Pola</h3>
+          <TemplateFieldBuilder
+            drafts={drafts}
+            onChange={setDrafts}
+            disabled={!canEdit || isSaving}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="template-attachments">
+            Załączniki (jeden adres URL w linii)
+          </Label>
+          <Textarea
+            id="template-attachments"
+            value={attachmentsText}
+            onChange={(e) => setAttachmentsText(e.target.value)}
+            rows={3}
+            placeholder="https://example.com/screenshot.png"
+          />
+        </div>
+      </fieldset>
+
+      {errors.length > 0 && (
+        <ul className="space-y-1 text-sm text-destructive" role="alert">
+          {errors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Podgląd (wartości domyślne)</h3>
+        <pre className="max-h-96 overflow-auto whitespace-pre-wrap rounded-md bg-muted/50 p-4 text-sm">
+          {preview}
+        </pre>
+      </div>
+
+      {canEdit && (
+        <div className="flex flex-wrap gap-2">
+          <Button type="submit" disabled={isSaving}>
+            <Save className="h-4 w-4" />
+            {template ? "Zapisz zmiany" : "Utwórz szablon"}
+          </Button>
+          {template && onDelete && (
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={onDelete}
+              disabled={isSaving}
+            >
+              <Trash2 className="h-4 w-4" />
+              Usuń szablon
+            </Button>
+          )}
+        </div>
+      )}
+    </form>
+  );
+}
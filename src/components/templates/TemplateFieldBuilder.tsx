@@ -0,0 +1,374 @@
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Json } from "@/db/database.types";
+import type { TemplateField, TemplateFieldType } from "@/types/types";
+import {
+  MULTISELECT_SEPARATOR,
+  getFieldDefault,
+  getFieldOptions,
+} from "@/lib/utils/template-report";
+
+/** Every TemplateFieldType with its editor label */
+export const TEMPLATE_FIELD_TYPES: {
+  value: TemplateFieldType;
+  label: string;
+}[] = [
+  { value: "text", label: "Tekst" },
+  { value: "markdown", label: "Markdown (wiele linii)" },
+  { value: "number", label: "Liczba" },
+  { value: "date", label: "Data" },
+  { value: "select", label: "Lista wyboru" },
+  { value: "multiselect", label: "Wielokrotny wybór" },
+];
+
+const OPTION_TYPES = new Set(["select", "multiselect"]);
+
+/**
+ * Editable row of the field builder.
+ * Options and default are kept as text while editing and converted back
+ * to the stored shape by fromFieldDrafts.
+ */
+export interface FieldDraft {
+  id: string;
+  key: string;
+  type: string;
+  label: string;
+  help: string;
+  defaultText: string;
+  optionsText: string;
+  required: boolean;
+}
+
+let draftCounter = 0;
+
+function nextDraftId(): string {
+  draftCounter += 1;
+  return `field-${draftCounter}`;
+}
+
+export function createEmptyFieldDraft(): FieldDraft {
+  return {
+    id: nextDraftId(),
+    key: "",
+    type: "text",
+    label: "",
+    help: "",
+    defaultText: "",
+    optionsText: "",
+    required: false,
+  };
+}
+
+export function toFieldDrafts(
+  fields: TemplateField[],
+  requiredFields: string[],
+): FieldDraft[] {
+  return fields.map((field) => ({
+    id: nextDraftId(),
+    key: field.key,
+    type: field.type,
+    label: field.label,
+    help: field.help ?? "",
+    defaultText: getFieldDefault(field),
+    optionsText: getFieldOptions(field)
+      .map((option) => option.value)
+      .join(MULTISELECT_SEPARATOR),
+    required: requiredFields.includes(field.key),
+  }));
+}
+
+function splitList(text: string): string[] {
+  return text
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function parseDefault(draft: FieldDraft): Json | undefined {
+  const text = draft.defaultText;
+  if (!text.trim()) {
+    return undefined;
+  }
+  if (draft.type === "multiselect") {
+    return splitList(text);
+  }
+  if (draft.type === "number" && !isNaN(Number(text))) {
+    return Number(text);
+  }
+  return text;
+}
+
+export function fromFieldDrafts(drafts: FieldDraft[]): {
+  fields: TemplateField[];
+  required_fields: string[];
+} {
+  const fields = drafts.map((draft) => {
+    const field: TemplateField = {
+      key: draft.key.trim(),
+      type: draft.type,
+      label: draft.label.trim(),
+    };
+    if (draft.help.trim()) {
+      field.help = draft.help.trim();
+    }
+    const defaultValue = parseDefault(draft);
+    if (defaultValue !== undefined) {
+      field.default = defaultValue;
+    }
+    if (OPTION_TYPES.has(draft.type)) {
+      field.options = splitList(draft.optionsText);
+    }
+    return field;
+  });
+
+  return {
+    fields,
+    required_fields: drafts
+      .filter((draft) => draft.required)
+      .map((draft) => draft.key.trim()),
+  };
+}
+
+/**
+ * Client-side checks matching the API validator; returns Polish messages
+ */
+export function validateFieldDrafts(drafts: FieldDraft[]): string[] {
+  const errors: string[] = [];
+  if (drafts.length === 0) {
+    errors.push("Szablon musi mieć co najmniej jedno pole.");
+  }
+
+  const seen = new Set<string>();
+  drafts.forEach((draft, index) => {
+    const position = `Pole ${index + 1}`;
+    const key = draft.key.trim();
+    if (!/^[a-z][a-z0-9_]*$/.test(key)) {
+      errors.push(
+        `${position}: klucz musi zaczynać się od litery i zawierać tylko małe litery, cyfry i _.`,
+      );
+    } else if (seen.has(key)) {
+      errors.push(`${position}: klucz „${key}” jest już użyty.`);
+    }
+    seen.add(key);
+
+    if (!draft.label.trim()) {
+      errors.push(`${position}: etykieta jest wymagana.`);
+    }
+    if (
+      OPTION_TYPES.has(draft.type) &&
+      splitList(draft.optionsText).length === 0
+    ) {
+      errors.push(`${position}: podaj co najmniej jedną opcję.`);
+    }
+  });
+
+  return errors;
+}
+
+interface TemplateFieldBuilderProps {
+  drafts: FieldDraft[];
+  onChange: (drafts: FieldDraft[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Ordered list of field definitions with add, remove and reorder controls
+ */
+export default function TemplateFieldBuilder({
+  drafts,
+  onChange,
+  disabled = false,
+}: TemplateFieldBuilderProps) {
+  const update = (id: string, changes: Partial<FieldDraft>) => {
+    onChange(
+      drafts.map((draft) =>
+        draft.id === id ? { ...draft, ...changes } : draft,
+      ),
+    );
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= drafts.length) {
+      return;
+    }
+    const next = [...drafts];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const remove = (id: string) => {
+    onChange(drafts.filter((draft) => draft.id !== id));
+  };
+
+  return (
+    <div className="space-y-4">
+      {drafts.map((draft, index) => {
+        const prefix = `field-${draft.id}`;
+        const knownType = TEMPLATE_FIELD_TYPES.some(
+          (type) => type.value === draft.type,
+        );
+
+        return (
+          <fieldset
+            key={draft.id}
+            className="space-y-3 rounded-md border p-4"
+            disabled={disabled}
+            aria-label={`Pole ${index + 1}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium">Pole {index + 1}</span>
+              <div className="flex gap-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => move(index, -1)}
+                  disabled={disabled || index === 0}
+                  aria-label="Przesuń w górę"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => move(index, 1)}
+                  disabled={disabled || index === drafts.length - 1}
+                  aria-label="Przesuń w dół"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => remove(draft.id)}
+                  disabled={disabled}
+                  aria-label="Usuń pole"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-3">
+              <div className="space-y-1">
+                <Label htmlFor={`${prefix}-key`}>Klucz</Label>
+                <Input
+                  id={`${prefix}-key`}
+                  value={draft.key}
+                  onChange={(e) => update(draft.id, { key: e.target.value })}
+                  placeholder="np. steps"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`${prefix}-label`}>Etykieta</Label>
+                <Input
+                  id={`${prefix}-label`}
+                  value={draft.label}
+                  onChange={(e) => update(draft.id, { label: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`${prefix}-type`}>Typ</Label>
+                <Select
+                  value={draft.type}
+                  onValueChange={(value) => update(draft.id, { type: value })}
+                  disabled={disabled}
+                >
+                  <SelectTrigger id={`${prefix}-type`} className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TEMPLATE_FIELD_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                    {!knownType && (
+                      <SelectItem value={draft.type}>{draft.type}</SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor={`${prefix}-help`}>Podpowiedź</Label>
+              <Input
+                id={`${prefix}-help`}
+                value={draft.help}
+                onChange={(e) => update(draft.id, { help: e.target.value })}
+              />
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor={`${prefix}-default`}>Wartość domyślna</Label>
+                <Input
+                  id={`${prefix}-default`}
+                  type={
+                    draft.type === "number" || draft.type === "date"
+                      ? draft.type
+                      : "text"
+                  }
+                  value={draft.defaultText}
+                  onChange={(e) =>
+                    update(draft.id, { defaultText: e.target.value })
+                  }
+                />
+              </div>
+              {OPTION_TYPES.has(draft.type) && (
+                <div className="space-y-1">
+                  <Label htmlFor={`${prefix}-options`}>
+                    Opcje (oddzielone przecinkami)
+                  </Label>
+                  <Input
+                    id={`${prefix}-options`}
+                    value={draft.optionsText}
+                    onChange={(e) =>
+                      update(draft.id, { optionsText: e.target.value })
+                    }
+                    placeholder="Critical, Major, Minor"
+                  />
+                </div>
+              )}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={draft.required}
+                onChange={(e) =>
+                  update(draft.id, { required: e.target.checked })
+                }
+                className="h-4 w-4 rounded border-gray-300"
+              />
+              Pole wymagane
+            </label>
+          </fieldset>
+        );
+      })}
+
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => onChange([...drafts, createEmptyFieldDraft()])}
+        disabled={disabled}
+      >
+        <Plus className="h-4 w-4" />
+        Dodaj pole
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+import { useEffect, useMemo, useState } from "react";
+import { FilePen, FileText, Plus, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { cn } from "@/lib/utils";
+import { useTemplates } from "@/lib/hooks/useTemplates";
+import { useDrafts } from "@/lib/hooks/useDrafts";
+import { parseReportDraftContent } from "@/lib/utils/report-draft";
+import {
+  isBuiltinPresetId,
+  withBuiltinPresets,
+} from "@/lib/utils/template-presets";
+import type {
+  CreateTemplateCommand,
+  DraftDTO,
+  TemplateDTO,
+} from "@/types/types";
+import ReportComposer from "./ReportComposer";
+import TemplateEditor from "./TemplateEditor";
+
+interface SimpleUser {
+  id: string;
+}
+
+interface TemplatesViewProps {
+  user: SimpleUser | null;
+  role?: "admin" | "user";
+  // Allow Astro client directives without TS complaints when linting .astro usage
+  [key: string]: unknown;
+}
+
+type Mode = "compose" | "edit";
+
+/**
+ * Templates page: template list (global presets + own copies), a report
+ * composer and the template editor. Global templates are read-only for
+ * non-admins, who fork them into their own space.
+ *
+ * Signed-in users get autosaved drafts; the most recent unfinished report
+ * is reopened when the page loads.
+ */
+export default function TemplatesView({
+  user,
+  role = "user",
+}: TemplatesViewProps) {
+  const {
+    templates,
+    isLoading,
+    fetchTemplates,
+    createTemplate,
+    updateTemplate,
+    deleteTemplate,
+    forkTemplate,
+  } = useTemplates();
+  const { drafts, fetchDrafts, deleteDraft } = useDrafts();
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [mode, setMode] = useState<Mode>("compose");
+  const [pendingDelete, setPendingDelete] = useState<TemplateDTO | null>(null);
+  const [activeDraft, setActiveDraft] = useState<DraftDTO | null>(null);
+
+  useEffect(() => {
+    void fetchTemplates();
+  }, [fetchTemplates]);
+
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+    void fetchDrafts().then((items) => {
+      const latest = items[0];
+      const content = latest && parseReportDraftContent(latest);
+      if (content) {
+        setSelectedId(content.template_ref);
+        setActiveDraft(latest);
+        toast.info(`Przywrócono niedokończony raport „${latest.title}”`);
+      }
+    });
+  }, [user, fetchDrafts]);
+
+  const allTemplates = useMemo(
+    () => withBuiltinPresets(templates),
+    [templates],
+  );
+  const globalTemplates = allTemplates.filter((t) => t.scope === "global");
+  const ownTemplates = allTemplates.filter((t) => t.scope === "user");
+
+  const selected =
+    allTemplates.find((template) => template.id === selectedId) ??
+    globalTemplates[0] ??
+    null;
+
+  const canEdit = (template: TemplateDTO) =>
+    !isBuiltinPresetId(template.id) &&
+    (template.scope === "global"
+      ? role === "admin"
+      : template.owner_id === user?.id);
+
+  const selectTemplate = (id: string) => {
+    setSelectedId(id);
+    setIsCreating(false);
+    setActiveDraft(null);
+  };
+
+  const restoreDraft = (draft: DraftDTO) => {
+    const content = parseReportDraftContent(draft);
+    if (
+      !content ||
+      !allTemplates.some((template) => template.id === content.template_ref)
+    ) {
+      toast.error("Szablon tego szkicu nie jest już dostępny");
+      return;
+    }
+    selectTemplate(content.template_ref);
+    setActiveDraft(draft);
+    setMode("compose");
+  };
+
+  const handleDraftDiscarded = (draftId: string) => {
+    void deleteDraft(draftId);
+    if (activeDraft?.id === draftId) {
+      setActiveDraft(null);
+    }
+  };
+
+  // The restored draft applies only once its template is selected
+  const composerDraft =
+    activeDraft &&
+    selected &&
+    parseReportDraftContent(activeDraft)?.template_ref === selected.id
+      ? activeDraft
+      : null;
+
+  const startCreating = () => {
+    setIsCreating(true);
+    setMode("edit");
+  };
+
+  const handleSave = async (command: CreateTemplateCommand) => {
+    if (isCreating || !selected) {
+      const created = await createTemplate(command);
+      if (created) {
+        selectTemplate(created.id);
+      }
+      return;
+    }
+
+    await updateTemplate(selected.id, {
+      name: command.name,
+      preset: command.preset,
+      fields: command.fields,
+      required_fields: command.required_fields,
+      attachments: command.attachments,
+      version: selected.version,
+    });
+  };
+
+  const handleFork = async (template: TemplateDTO) => {
+    // Built-in presets have no database row to fork from
+    const forked = isBuiltinPresetId(template.id)
+      ? await createTemplate({
+          name: template.name,
+          scope: "user",
+          preset: template.preset,
+          fields: template.fields,
+          required_fields: template.required_fields,
+          attachments: template.attachments,
+        })
+      : await forkTemplate(template.id);
+
+    if (forked) {
+      selectTemplate(forked.id);
+      setMode("edit");
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!pendingDelete) {
+      return;
+    }
+    const deleted = await deleteTemplate(pendingDelete.id);
+    if (deleted) {
+      setSelectedId(null);
+    }
+    setPendingDelete(null);
+  };
+
+  const renderGroup = (title: string, items: TemplateDTO[]) => (
+    <div className="space-y-1">
+      <h3 className="px-2 text-xs font-semibold uppercase text-muted-foreground">
+        {title}
+      </h3>
+      {items.length === 0 ? (
+        <p className="px-2 text-sm text-muted-foreground">Brak szablonów</p>
+      ) : (
+        <ul className="space-y-1">
+          {items.map((template) => (
+            <li key={template.id}>
+              <button
+                type="button"
+                onClick={() => selectTemplate(template.id)}
+                aria-current={
+                  !isCreating && selected?.id === template.id
+                    ? "true"
+                    : undefined
+                }
+                className={cn(
+                  "flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted focus:outline-none focus:ring-2 focus:ring-ring",
+                  !isCreating &&
+                    selected?.id === template.id &&
+                    "bg-muted font-medium",
+                )}
+              >
+                <FileText className="h-4 w-4 shrink-0" />
+                <span className="truncate">{template.name}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="grid gap-6 md:grid-cols-[16rem_1fr]">
+      <aside className="space-y-4">
+        {renderGroup("Globalne", globalTemplates)}
+        {renderGroup("Moje szablony", ownTemplates)}
+        {drafts.length > 0 && (
+          <div className="space-y-1">
+            <h3 className="px-2 text-xs font-semibold uppercase text-muted-foreground">
+              Niedokończone raporty
+            </h3>
+            <ul className="space-y-1">
+              {drafts.map((draft) => (
+                <li key={draft.id} className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => restoreDraft(draft)}
+                    aria-current={
+                      composerDraft?.id === draft.id ? "true" : undefined
+                    }
+                    className={cn(
+                      "flex min-w-0 flex-1 items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted focus:outline-none focus:ring-2 focus:ring-ring",
+                      composerDraft?.id === draft.id && "bg-muted font-medium",
+                    )}
+                  >
+                    <FilePen className="h-4 w-4 shrink-0" />
+                    <span className="truncate">{draft.title}</span>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0"
+                    onClick={() => handleDraftDiscarded(draft.id)}
+                    aria-label={`Usuń szkic: ${draft.title}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={startCreating}
+          disabled={!user}
+        >
+          <Plus className="h-4 w-4" />
+          Nowy szablon
+        </Button>
+      </aside>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {isCreating ? "Nowy szablon" : (selected?.name ?? "Szablony")}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isCreating ? (
+            <TemplateEditor
+              key="new"
+              template={null}
+              canEdit
+              canCreateGlobal={role === "admin"}
+              isSaving={isLoading}
+              onSave={handleSave}
+            />
+          ) : selected ? (
+            <Tabs
+              value={mode}
+              onValueChange={(value) => setMode(value as Mode)}
+            >
+              <TabsList>
+                <TabsTrigger value="compose">Utwórz raport</TabsTrigger>
+                <TabsTrigger value="edit">Edytor szablonu</TabsTrigger>
+              </TabsList>
+              <TabsContent value="compose" className="pt-4">
+                <ReportComposer
+                  key={`${selected.id}:${composerDraft?.id ?? "new"}`}
+                  template={selected}
+                  draft={composerDraft}
+                  autosave={user !== null}
+                  aiAssist={user !== null}
+                  onDraftDiscarded={handleDraftDiscarded}
+                />
+              </TabsContent>
+              <TabsContent value="edit" className="pt-4">
+                <TemplateEditor
+                  key={`${selected.id}:${selected.version}`}
+                  template={selected}
+                  canEdit={canEdit(selected)}
+                  isSaving={isLoading}
+                  onSave={handleSave}
+                  onDelete={() => setPendingDelete(selected)}
+                  onFork={user ? () => void handleFork(selected) : undefined}
+                />
+              </TabsContent>
+            </Tabs>
+          ) : (
+            <p className="text-muted-foreground">Ładowanie szablonów...</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog
+        open={pendingDelete !== null}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Usunąć szablon?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Szablon „{pendingDelete?.name}” zostanie trwale usunięty. Kopie
+              utworzone na jego podstawie pozostaną bez zmian.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Anuluj</AlertDialogCancel>
+            <AlertDialogAction onClick={() => void confirmDelete()}>
+              Usuń
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
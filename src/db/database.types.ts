@@ -29,16 +29,19 @@ export interface Database {
       ai_daily_usage: {
         Row: {
           day: string;
+          tokens: number;
           used: number;
           user_id: string;
         };
         Insert: {
           day: string;
+          tokens?: number;
           used?: number;
           user_id: string;
         };
         Update: {
           day?: string;
+          tokens?: number;
           used?: number;
           user_id?: string;
         };
@@ -244,6 +247,11 @@ export interface Database {
           created_at: string;
           id: string;
           is_public: boolean;
+          link_checked_at: string | null;
+          link_error: string | null;
+          link_redirect_permanent: boolean;
+          link_redirect_url: string | null;
+          link_status: number | null;
           search_vector: unknown;
           tags: string[];
           title: string;
@@ -256,6 +264,11 @@ export interface Database {
           created_at?: string;
           id?: string;
           is_public?: boolean;
+          link_checked_at?: string | null;
+          link_error?: string | null;
+          link_redirect_permanent?: boolean;
+          link_redirect_url?: string | null;
+          link_status?: number | null;
           search_vector: unknown;
           tags?: string[];
           title: string;
@@ -268,6 +281,11 @@ export interface Database {
           created_at?: string;
           id?: string;
           is_public?: boolean;
+          link_checked_at?: string | null;
+          link_error?: string | null;
+          link_redirect_permanent?: boolean;
+          link_redirect_url?: string | null;
+          link_status?: number | null;
           search_vector?: unknown;
           tags?: string[];
           title?: string;
@@ -525,6 +543,24 @@ export interface Database {
         Args: { "": string };
         Returns: string;
       };
+      find_kb_duplicates: {
+        Args: {
+          exclude_id?: string;
+          max_results?: number;
+          min_similarity?: number;
+          title_input: string;
+          url_input: string;
+        };
+        Returns: {
+          id: string;
+          is_public: boolean;
+          match: string;
+          similarity: number;
+          title: string;
+          url_original: string;
+          user_id: string;
+        }[];
+      };
       gtrgm_compress: {
         Args: { "": unknown };
         Returns: unknown;
@@ -549,6 +585,71 @@ export interface Database {
         Args: { uid: string };
         Returns: boolean;
       };
+      is_own_private_kb_entry: {
+        Args: { entry: string };
+        Returns: boolean;
+      };
+      kb_tag_facets: {
+        Args: { owner_filter?: string; search_query?: string };
+        Returns: {
+          count: number;
+          tag: string;
+        }[];
+      };
+      merge_kb_entries: {
+        Args: { source_ids: string[]; target_id: string };
+        Returns: {
+          created_at: string;
+          id: string;
+          is_public: boolean;
+          link_checked_at: string | null;
+          link_error: string | null;
+          link_redirect_permanent: boolean;
+          link_redirect_url: string | null;
+          link_status: number | null;
+          search_vector: unknown;
+          tags: string[];
+          title: string;
+          updated_at: string;
+          url_canonical: string | null;
+          url_original: string;
+          user_id: string;
+        };
+      };
+      record_ai_tokens: {
+        Args: { tokens: number; uid: string };
+        Returns: undefined;
+      };
+      search_kb_entries: {
+        Args: {
+          after_id?: string;
+          after_value?: string;
+          match_all_tags?: boolean;
+          owner_filter?: string;
+          page_size?: number;
+          search_query: string;
+          sort_by?: string;
+          tag_filter?: string[];
+        };
+        Returns: {
+          created_at: string;
+          id: string;
+          is_public: boolean;
+          link_checked_at: string | null;
+          link_error: string | null;
+          link_redirect_permanent: boolean;
+          link_redirect_url: string | null;
+          link_status: number | null;
+          rank: number;
+          snippet: string;
+          tags: string[];
+          title: string;
+          updated_at: string;
+          url_canonical: string | null;
+          url_original: string;
+          user_id: string;
+        }[];
+      };
       set_limit: {
         Args: { "": number };
         Returns: number;
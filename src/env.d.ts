@@ -39,6 +39,8 @@ interface ImportMetaEnv {
   readonly OPENROUTER_MAX_TOKENS?: string;
   readonly OPENROUTER_SYSTEM_PROMPT?: string;
   readonly OPENROUTER_STRUCTURED_OUTPUT?: string;
+  // "true" or a scenario name (see openrouter-mock.ts) to use the offline mock provider
+  readonly OPENROUTER_MOCK?: string;
 }
 
 // Declare the ImportMeta interface to extend the global type system
@@ -6,6 +6,9 @@ import {
   createErrorResponse,
   extractZodErrorDetails,
   errorToHttpResponse,
+  createAppError,
+  errorToJsonResponse,
+  zodErrorToAppError,
   type AppError,
 } from "./error.helper";
 
@@ -673,4 +676,116 @@ describe("Error Helper", () => {
       });
     });
   });
+
+  describe("createAppError", () => {
+    it("should create an AppError with code, status and details", () => {
+      const err = createAppError("CONFLICT", 409, "Version mismatch", {
+        current_version: 2,
+      });
+
+      expect(isAppError(err)).toBe(true);
+      expect(err.message).toBe("Version mismatch");
+      expect(err.status).toBe(409);
+      expect(err.details).toEqual({ current_version: 2 });
+    });
+  });
+
+  describe("zodErrorToAppError", () => {
+    it("should name each invalid field in the message", () => {
+      const err = zodErrorToAppError(
+        new ZodError([
+          {
+            code: "custom",
+            path: ["seed"],
+            message: "seed must be at most 64 characters",
+          },
+          {
+            code: "custom",
+            path: ["ibans", 2],
+            message: "every IBAN must be a string",
+          },
+        ]),
+      );
+
+      expect(err.code).toBe("VALIDATION_ERROR");
+      expect(err.status).toBe(400);
+      expect(err.message).toBe(
+        "seed: seed must be at most 64 characters; ibans.2: every IBAN must be a string",
+      );
+    });
+  });
+
+  describe("errorToJsonResponse", () => {
+    it("should keep AppError messages and details", async () => {
+      const response = errorToJsonResponse(
+        createAppError("NOT_FOUND", 404, "Charter not found"),
+      );
+
+      expect(response.status).toBe(404);
+      expect(response.headers.get("Content-Type")).toBe("application/json");
+      expect(await response.json()).toEqual({
+        error: { code: "NOT_FOUND", message: "Charter not found" },
+      });
+    });
+
+    it("should set Retry-After for rate-limited AppErrors", () => {
+      const error = createAppError(
+        "RATE_LIMITED",
+        429,
+        "Daily AI limit reached",
+      );
+      error.retryAfter = 120;
+
+      const response = errorToJsonResponse(error);
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get("Retry-After")).toBe("120");
+    });
+
+    it("should map ZodError to 400 with field details", async () => {
+      const zodError = new ZodError([
+        {
+          code: "too_small",
+          minimum: 1,
+          type: "string",
+          inclusive: true,
+          exact: false,
+          message: "Goal is required",
+          path: ["goal"],
+        },
+      ]);
+
+      const response = errorToJsonResponse(zodError);
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid input",
+          details: { goal: "Goal is required" },
+        },
+      });
+    });
+
+    it("should map SyntaxError to invalid JSON", async () => {
+      const response = errorToJsonResponse(new SyntaxError("Unexpected end"));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid JSON in request body",
+        },
+      });
+    });
+
+    it("should hide unknown errors behind INTERNAL", async () => {
+      const response = errorToJsonResponse(new Error("db password leaked"));
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({
+        error: { code: "INTERNAL", message: "An unexpected error occurred" },
+      });
+    });
+  });
 });
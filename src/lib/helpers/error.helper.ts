@@ -128,3 +128,79 @@ export function errorToHttpResponse(err: unknown): {
     ),
   };
 }
+
+/**
+ * Create an AppError with HTTP status and API error code.
+ *
+ * Intended for services that report domain failures (not found, conflicts)
+ * to API routes without building Response objects themselves.
+ */
+export function createAppError(
+  code: ErrorCode,
+  status: number,
+  message: string,
+  details?: Record<string, unknown>,
+): AppError {
+  const err = new Error(message) as AppError;
+  err.code = code;
+  err.status = status;
+  if (details) {
+    err.details = details;
+  }
+  return err;
+}
+
+/**
+ * VALIDATION_ERROR AppError listing every issue as "field: message".
+ *
+ * For the generator and validator routes, whose 400 responses name the
+ * offending query parameter in the message instead of in details.
+ */
+export function zodErrorToAppError(err: ZodError): AppError {
+  return createAppError(
+    "VALIDATION_ERROR",
+    400,
+    err.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join("; "),
+  );
+}
+
+/**
+ * Convert an error caught in an API route into a JSON Response.
+ *
+ * Unlike errorToHttpResponse, AppError messages are passed through as-is,
+ * because services word them for API consumers.
+ */
+export function errorToJsonResponse(err: unknown): Response {
+  let status = 500;
+  let body = createErrorResponse("INTERNAL", "An unexpected error occurred");
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+
+  if (isAppError(err)) {
+    status = err.status;
+    body = createErrorResponse(
+      err.code,
+      err.message,
+      err.details as Record<string, Json> | undefined,
+    );
+    if (err.retryAfter) {
+      headers["Retry-After"] = String(err.retryAfter);
+    }
+  } else if (err instanceof ZodError) {
+    status = 400;
+    body = createErrorResponse(
+      "VALIDATION_ERROR",
+      "Invalid input",
+      extractZodErrorDetails(err),
+    );
+  } else if (err instanceof SyntaxError) {
+    status = 400;
+    body = createErrorResponse(
+      "VALIDATION_ERROR",
+      "Invalid JSON in request body",
+    );
+  }
+
+  return new Response(JSON.stringify(body), { status, headers });
+}
@@ -0,0 +1,32 @@
+import type { KeysetPage } from "../../types/types";
+
+/**
+ * Split a "timestamp,id" cursor and build the PostgREST keyset filter
+ * for a list ordered by `column` desc, `id` desc (or both asc)
+ */
+export function keysetFilter(
+  column: string,
+  after: string,
+  ascending = false,
+): string {
+  const [timestamp, id] = after.split(",");
+  const op = ascending ? "gt" : "lt";
+  return `${column}.${op}.${timestamp},and(${column}.eq.${timestamp},id.${op}.${id})`;
+}
+
+/**
+ * Trim a `limit + 1` result set to a page and derive the next cursor
+ * from the last item kept
+ */
+export function toKeysetPage<T>(
+  rows: T[] | null,
+  limit: number,
+  cursorOf: (row: T) => string,
+): KeysetPage<T> {
+  const items = (rows ?? []).slice(0, limit);
+  const last = items[items.length - 1];
+  const next_cursor =
+    (rows?.length ?? 0) > limit && last ? cursorOf(last) : undefined;
+
+  return { items, next_cursor };
+}
@@ -0,0 +1,75 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import { isFeatureEnabled } from "../../features";
+import type { FeaturePath } from "../../features/types";
+import { createAppError } from "./error.helper";
+
+export interface UserContext {
+  supabase: SupabaseClient<Database>;
+  user: NonNullable<App.Locals["user"]>;
+}
+
+export interface RequestContext {
+  supabase: SupabaseClient<Database>;
+  user: NonNullable<App.Locals["user"]> | null;
+}
+
+/**
+ * Guard for API routes behind a feature flag that also serve anonymous users.
+ *
+ * Checks the feature flag (404 FEATURE_DISABLED) and the Supabase client
+ * (500 CONFIGURATION_ERROR); the user is returned as-is (null when signed out).
+ *
+ * @param locals - Astro locals populated by the middleware
+ * @param feature - Feature flag guarding the route; omit for routes shared
+ *   by several features
+ * @returns Supabase client and the optional user for the request
+ * @throws AppError when any check fails (use errorToJsonResponse in the route)
+ */
+export function getRequestContext(
+  locals: App.Locals,
+  feature?: FeaturePath,
+): RequestContext {
+  if (feature && !isFeatureEnabled(feature)) {
+    throw createAppError(
+      "FEATURE_DISABLED",
+      404,
+      "This feature is not available",
+    );
+  }
+
+  if (!locals.supabase) {
+    throw createAppError(
+      "CONFIGURATION_ERROR",
+      500,
+      "Supabase client not available",
+    );
+  }
+
+  return { supabase: locals.supabase, user: locals.user ?? null };
+}
+
+/**
+ * Guard for authenticated API routes behind a feature flag.
+ *
+ * Checks, in order: the feature flag (404 FEATURE_DISABLED), the Supabase
+ * client (500 CONFIGURATION_ERROR) and the session user (401 UNAUTHENTICATED).
+ *
+ * @param locals - Astro locals populated by the middleware
+ * @param feature - Feature flag guarding the route; omit for routes shared
+ *   by several features
+ * @returns Supabase client and user for the request
+ * @throws AppError when any check fails (use errorToJsonResponse in the route)
+ */
+export function requireUserContext(
+  locals: App.Locals,
+  feature?: FeaturePath,
+): UserContext {
+  const { supabase, user } = getRequestContext(locals, feature);
+
+  if (!user) {
+    throw createAppError("UNAUTHENTICATED", 401, "Authentication required");
+  }
+
+  return { supabase, user };
+}
@@ -0,0 +1,154 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import type {
+  AILimitsDTO,
+  AITextProcessRequest,
+  AITextProcessResponse,
+  UIError,
+} from "@/types/types";
+import {
+  ApiRequestError,
+  apiRequest,
+  apiStreamRequest,
+  toUIError,
+} from "@/lib/utils/api-client";
+import { readSSEStream } from "@/lib/utils/sse";
+
+function notifyError(uiError: UIError): void {
+  if (uiError.code === "RATE_LIMITED") {
+    toast.error("Wykorzystano dzienny limit zapytań AI");
+  } else {
+    toast.error(`Błąd asystenta AI: ${uiError.message}`);
+  }
+}
+
+/**
+ * Hook for the AI text assistant (/api/ai/process, /api/ai/stream and
+ * /api/ai/limits). A running stream is aborted by cancel() and on unmount.
+ */
+export function useAIAssist(baseUrl?: string) {
+  const [limits, setLimits] = useState<AILimitsDTO | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<UIError | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const fetchLimits = useCallback(async (): Promise<void> => {
+    try {
+      setLimits(await apiRequest<AILimitsDTO>(baseUrl, "/api/ai/limits"));
+    } catch {
+      // Quota display is informational; process errors are reported instead
+    }
+  }, [baseUrl]);
+
+  const improve = useCallback(
+    async (
+      request: AITextProcessRequest,
+    ): Promise<AITextProcessResponse | null> => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        return await apiRequest<AITextProcessResponse>(
+          baseUrl,
+          "/api/ai/process",
+          { method: "POST", body: request },
+        );
+      } catch (err) {
+        const uiError = toUIError(err, "AI_ERROR");
+        setError(uiError);
+        notifyError(uiError);
+        return null;
+      } finally {
+        setIsLoading(false);
+        void fetchLimits();
+      }
+    },
+    [baseUrl, fetchLimits],
+  );
+
+  /**
+   * Streamed improve: onDelta receives the proposal received so far.
+   * Resolves with the final result, or null on error or cancel().
+   */
+  const improveStream = useCallback(
+    async (
+      request: AITextProcessRequest,
+      onDelta: (proposal: string) => void,
+    ): Promise<AITextProcessResponse | null> => {
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const body = await apiStreamRequest(baseUrl, "/api/ai/stream", {
+          method: "POST",
+          body: request,
+          signal: controller.signal,
+        });
+
+        let proposal = "";
+        const outcome: {
+          result?: AITextProcessResponse;
+          error?: { code: string; message: string };
+        } = {};
+        await readSSEStream(body, (message) => {
+          const data = JSON.parse(message.data);
+          if (message.event === "delta") {
+            proposal += data.text;
+            onDelta(proposal);
+          } else if (message.event === "done") {
+            outcome.result = data;
+          } else if (message.event === "error") {
+            outcome.error = data.error;
+          }
+        });
+
+        if (outcome.error) {
+          throw new ApiRequestError(outcome.error.code, outcome.error.message);
+        }
+        if (!outcome.result) {
+          throw new ApiRequestError("AI_ERROR", "Stream ended unexpectedly");
+        }
+        return outcome.result;
+      } catch (err) {
+        if (controller.signal.aborted) {
+          return null;
+        }
+        const uiError = toUIError(err, "AI_ERROR");
+        setError(uiError);
+        notifyError(uiError);
+        return null;
+      } finally {
+        if (abortRef.current === controller) {
+          abortRef.current = null;
+          setIsLoading(false);
+        }
+        void fetchLimits();
+      }
+    },
+    [baseUrl, fetchLimits],
+  );
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  return {
+    limits,
+    isLoading,
+    error,
+    fetchLimits,
+    improve,
+    improveStream,
+    cancel,
+    clearError,
+  };
+}
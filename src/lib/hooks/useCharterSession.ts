@@ -0,0 +1,272 @@
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+import type {
+  CharterDTO,
+  CharterNoteDTO,
+  CharterNotesListResponse,
+  ChartersListResponse,
+  CreateCharterCommand,
+  CreateCharterNoteCommand,
+  UIError,
+} from "@/types/types";
+import { apiRequest, toUIError } from "@/lib/utils/api-client";
+
+const NOTES_PAGE_SIZE = 50;
+
+/**
+ * Hook for the exploration charter session view.
+ * Tracks a single charter (the active one, or the most recent idle one)
+ * together with its note timeline.
+ */
+export function useCharterSession(baseUrl?: string) {
+  const [charter, setCharter] = useState<CharterDTO | null>(null);
+  const [notes, setNotes] = useState<CharterNoteDTO[]>([]);
+  const [notesCursor, setNotesCursor] = useState<string | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<UIError | null>(null);
+
+  const fetchNotes = useCallback(
+    async (charterId: string, after?: string): Promise<void> => {
+      const params: Record<string, string> = {
+        limit: String(NOTES_PAGE_SIZE),
+      };
+      if (after) {
+        params.after = after;
+      }
+
+      const page = await apiRequest<CharterNotesListResponse>(
+        baseUrl,
+        `/api/charters/${charterId}/notes`,
+        { params },
+      );
+
+      setNotes((prev) => (after ? [...prev, ...page.items] : page.items));
+      setNotesCursor(page.next_cursor);
+    },
+    [baseUrl],
+  );
+
+  const loadSession = useCallback(async (): Promise<void> => {
+    // Only fetch on client side to avoid SSR issues
+    if (typeof window === "undefined") {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      let current: CharterDTO | undefined;
+      for (const status of ["active", "idle"] as const) {
+        const page = await apiRequest<ChartersListResponse>(
+          baseUrl,
+          "/api/charters",
+          { params: { status, limit: "1" } },
+        );
+        current = page.items[0];
+        if (current) {
+          break;
+        }
+      }
+
+      setCharter(current ?? null);
+      if (current && current.status === "active") {
+        await fetchNotes(current.id);
+      } else {
+        setNotes([]);
+        setNotesCursor(undefined);
+      }
+    } catch (err) {
+      const uiError = toUIError(err, "FETCH_ERROR");
+      setError(uiError);
+      toast.error(`Błąd podczas ładowania sesji: ${uiError.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [baseUrl, fetchNotes]);
+
+  const loadMoreNotes = useCallback(async (): Promise<void> => {
+    if (!charter || !notesCursor) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await fetchNotes(charter.id, notesCursor);
+    } catch (err) {
+      const uiError = toUIError(err, "FETCH_ERROR");
+      setError(uiError);
+      toast.error(`Błąd podczas ładowania notatek: ${uiError.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [charter, notesCursor, fetchNotes]);
+
+  const createCharter = useCallback(
+    async (data: CreateCharterCommand): Promise<CharterDTO | null> => {
+      if (typeof window === "undefined") {
+        return null;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await apiRequest<{ data: CharterDTO }>(
+          baseUrl,
+          "/api/charters",
+          { method: "POST", body: data },
+        );
+        setCharter(response.data);
+        setNotes([]);
+        setNotesCursor(undefined);
+        toast.success("Charter został utworzony");
+        return response.data;
+      } catch (err) {
+        const uiError = toUIError(err, "CREATE_ERROR");
+        setError(uiError);
+        toast.error(`Błąd podczas tworzenia chartera: ${uiError.message}`);
+        return null;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [baseUrl],
+  );
+
+  const transition = useCallback(
+    async (action: "start" | "stop"): Promise<CharterDTO | null> => {
+      if (!charter) {
+        return null;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await apiRequest<{ data: CharterDTO }>(
+          baseUrl,
+          `/api/charters/${charter.id}/${action}`,
+          { method: "POST" },
+        );
+        setCharter(response.data);
+        toast.success(
+          action === "start"
+            ? "Sesja została rozpoczęta"
+            : "Sesja została zakończona",
+        );
+        return response.data;
+      } catch (err) {
+        const uiError = toUIError(err, "TRANSITION_ERROR");
+        setError(uiError);
+        toast.error(
+          action === "start"
+            ? `Błąd podczas rozpoczynania sesji: ${uiError.message}`
+            : `Błąd podczas kończenia sesji: ${uiError.message}`,
+        );
+        return null;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [baseUrl, charter],
+  );
+
+  const startCharter = useCallback(() => transition("start"), [transition]);
+  const stopCharter = useCallback(() => transition("stop"), [transition]);
+
+  const saveSummary = useCallback(
+    async (summaryNotes: string): Promise<CharterDTO | null> => {
+      if (!charter) {
+        return null;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await apiRequest<{ data: CharterDTO }>(
+          baseUrl,
+          `/api/charters/${charter.id}`,
+          {
+            method: "PATCH",
+            body: { summary_notes: summaryNotes, version: charter.version },
+          },
+        );
+        setCharter(response.data);
+        toast.success("Podsumowanie zostało zapisane");
+        return response.data;
+      } catch (err) {
+        const uiError = toUIError(err, "UPDATE_ERROR");
+        setError(uiError);
+        if (uiError.code === "CONFLICT") {
+          toast.error(
+            "Charter został zmieniony w innym miejscu. Odśwież stronę i spróbuj ponownie.",
+          );
+        } else {
+          toast.error(
+            `Błąd podczas zapisywania podsumowania: ${uiError.message}`,
+          );
+        }
+        return null;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [baseUrl, charter],
+  );
+
+  const addNote = useCallback(
+    async (data: CreateCharterNoteCommand): Promise<CharterNoteDTO | null> => {
+      if (!charter) {
+        return null;
+      }
+
+      setError(null);
+
+      try {
+        const response = await apiRequest<{ data: CharterNoteDTO }>(
+          baseUrl,
+          `/api/charters/${charter.id}/notes`,
+          { method: "POST", body: data },
+        );
+        setNotes((prev) => [response.data, ...prev]);
+        return response.data;
+      } catch (err) {
+        const uiError = toUIError(err, "CREATE_ERROR");
+        setError(uiError);
+        toast.error(`Błąd podczas dodawania notatki: ${uiError.message}`);
+        return null;
+      }
+    },
+    [baseUrl, charter],
+  );
+
+  const resetSession = useCallback(() => {
+    setCharter(null);
+    setNotes([]);
+    setNotesCursor(undefined);
+    setError(null);
+  }, []);
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  return {
+    charter,
+    notes,
+    notesCursor,
+    isLoading,
+    error,
+    loadSession,
+    loadMoreNotes,
+    createCharter,
+    startCharter,
+    stopCharter,
+    saveSummary,
+    addNote,
+    resetSession,
+    clearError,
+  };
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useDraftAutosave } from "./useDraftAutosave";
+import { mockFetch } from "../../test/setup";
+
+const BASE_URL = "https://test.example.com";
+
+const payload = {
+  title: "Login fails",
+  content: { template_ref: "preset:ui_bug", values: {} },
+  template_id: null,
+};
+
+function jsonResponse(status: number, body: unknown) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    json: vi.fn().mockResolvedValue(body),
+  };
+}
+
+const savedDraft = {
+  data: { id: "draft-1", updated_at: "2026-01-10T12:00:00.000Z" },
+};
+
+describe("useDraftAutosave Hook", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockFetch.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("debounces changes into a single create", async () => {
+    mockFetch.mockResolvedValue(jsonResponse(201, savedDraft));
+    const { result } = renderHook(() =>
+      useDraftAutosave({ baseUrl: BASE_URL, delayMs: 1000 }),
+    );
+
+    act(() => {
+      result.current.scheduleSave({ ...payload, title: "L" });
+      result.current.scheduleSave(payload);
+    });
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(1000);
+    });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe(`${BASE_URL}/api/drafts`);
+    expect(init.method).toBe("POST");
+    expect(JSON.parse(init.body as string)).toEqual(payload);
+    expect(result.current.status).toBe("saved");
+    expect(result.current.lastSavedAt).toBe(savedDraft.data.updated_at);
+  });
+
+  it("updates the created draft on later saves", async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(201, savedDraft))
+      .mockResolvedValueOnce(jsonResponse(200, savedDraft));
+    const { result } = renderHook(() =>
+      useDraftAutosave({ baseUrl: BASE_URL }),
+    );
+
+    act(() => result.current.scheduleSave(payload));
+    await act(() => result.current.flush());
+    act(() => result.current.scheduleSave(payload));
+    await act(() => result.current.flush());
+
+    expect(mockFetch.mock.calls[1][0]).toBe(`${BASE_URL}/api/drafts/draft-1`);
+    expect(mockFetch.mock.calls[1][1].method).toBe("PATCH");
+  });
+
+  it("recreates a restored draft that has expired", async () => {
+    mockFetch
+      .mockResolvedValueOnce(
+        jsonResponse(404, {
+          error: { code: "NOT_FOUND", message: "Draft not found" },
+        }),
+      )
+      .mockResolvedValueOnce(jsonResponse(201, savedDraft));
+    const { result } = renderHook(() =>
+      useDraftAutosave({ baseUrl: BASE_URL, draftId: "old-draft" }),
+    );
+
+    act(() => result.current.scheduleSave(payload));
+    await act(() => result.current.flush());
+
+    expect(mockFetch.mock.calls.map(([, init]) => init.method)).toEqual([
+      "PATCH",
+      "POST",
+    ]);
+    expect(result.current.status).toBe("saved");
+  });
+
+  it("does nothing when disabled", async () => {
+    const { result } = renderHook(() =>
+      useDraftAutosave({ baseUrl: BASE_URL, enabled: false }),
+    );
+
+    act(() => result.current.scheduleSave(payload));
+    await act(() => result.current.flush());
+
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("reports save failures", async () => {
+    mockFetch.mockResolvedValue(
+      jsonResponse(500, { error: { code: "DATABASE_ERROR", message: "x" } }),
+    );
+    const { result } = renderHook(() =>
+      useDraftAutosave({ baseUrl: BASE_URL }),
+    );
+
+    act(() => result.current.scheduleSave(payload));
+    await act(() => result.current.flush());
+
+    expect(result.current.status).toBe("error");
+  });
+
+  it("drops pending changes and deletes the draft on discard", async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(201, savedDraft))
+      .mockResolvedValueOnce({ ok: true, status: 204 });
+    const { result } = renderHook(() =>
+      useDraftAutosave({ baseUrl: BASE_URL }),
+    );
+
+    act(() => result.current.scheduleSave(payload));
+    await act(() => result.current.flush());
+    act(() => result.current.scheduleSave(payload));
+
+    let discarded: string | null = null;
+    await act(async () => {
+      discarded = await result.current.discardDraft();
+    });
+    await act(async () => {
+      await vi.runAllTimersAsync();
+    });
+
+    expect(discarded).toBe("draft-1");
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch.mock.calls[1][1].method).toBe("DELETE");
+    expect(result.current.status).toBe("idle");
+  });
+
+  it("flushes a pending save on unmount", async () => {
+    mockFetch.mockResolvedValue(jsonResponse(201, savedDraft));
+    const { result, unmount } = renderHook(() =>
+      useDraftAutosave({ baseUrl: BASE_URL }),
+    );
+
+    act(() => result.current.scheduleSave(payload));
+    unmount();
+    await act(async () => {
+      await vi.runAllTimersAsync();
+    });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
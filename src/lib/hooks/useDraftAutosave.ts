@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { CreateDraftCommand, DraftDTO } from "@/types/types";
+import { ApiRequestError, apiRequest } from "@/lib/utils/api-client";
+
+export type AutosaveStatus = "idle" | "saving" | "saved" | "error";
+
+/** Quiet period after the last change before a draft is saved */
+export const DRAFT_AUTOSAVE_DELAY_MS = 3000;
+
+interface UseDraftAutosaveOptions {
+  /** Draft being continued (restored), if any */
+  draftId?: string | null;
+  enabled?: boolean;
+  delayMs?: number;
+  baseUrl?: string;
+}
+
+/**
+ * Debounced autosave of composer state to /api/drafts.
+ *
+ * The first save creates the draft, later ones overwrite it. Saves run one
+ * at a time so a slow POST cannot produce a second draft, and a pending
+ * save is flushed when the component unmounts.
+ */
+export function useDraftAutosave({
+  draftId = null,
+  enabled = true,
+  delayMs = DRAFT_AUTOSAVE_DELAY_MS,
+  baseUrl,
+}: UseDraftAutosaveOptions = {}) {
+  const [status, setStatus] = useState<AutosaveStatus>("idle");
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+
+  const draftIdRef = useRef<string | null>(draftId);
+  const pendingRef = useRef<CreateDraftCommand | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+
+  const save = useCallback(
+    async (payload: CreateDraftCommand) => {
+      setStatus("saving");
+
+      const create = () =>
+        apiRequest<{ data: DraftDTO }>(baseUrl, "/api/drafts", {
+          method: "POST",
+          body: payload,
+        });
+
+      try {
+        let response: { data: DraftDTO };
+        const id = draftIdRef.current;
+        if (id) {
+          try {
+            response = await apiRequest<{ data: DraftDTO }>(
+              baseUrl,
+              `/api/drafts/${id}`,
+              { method: "PATCH", body: payload },
+            );
+          } catch (err) {
+            // Expired or discarded in another tab: start a new draft
+            if (err instanceof ApiRequestError && err.status === 404) {
+              response = await create();
+            } else {
+              throw err;
+            }
+          }
+        } else {
+          response = await create();
+        }
+
+        draftIdRef.current = response.data.id;
+        setLastSavedAt(response.data.updated_at);
+        setStatus("saved");
+      } catch {
+        setStatus("error");
+      }
+    },
+    [baseUrl],
+  );
+
+  /**
+   * Save the pending change now instead of waiting for the debounce
+   */
+  const flush = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    const payload = pendingRef.current;
+    pendingRef.current = null;
+    if (payload) {
+      queueRef.current = queueRef.current.then(() => save(payload));
+    }
+    return queueRef.current;
+  }, [save]);
+
+  const scheduleSave = useCallback(
+    (payload: CreateDraftCommand) => {
+      if (!enabled) {
+        return;
+      }
+      pendingRef.current = payload;
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+      }
+      timerRef.current = setTimeout(() => void flush(), delayMs);
+    },
+    [enabled, delayMs, flush],
+  );
+
+  /**
+   * Drop pending changes and delete the saved draft (report finished or reset)
+   * @returns id of the deleted draft, if one existed
+   */
+  const discardDraft = useCallback(async (): Promise<string | null> => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    pendingRef.current = null;
+    await queueRef.current;
+
+    const id = draftIdRef.current;
+    draftIdRef.current = null;
+    setStatus("idle");
+    setLastSavedAt(null);
+
+    if (id) {
+      try {
+        await apiRequest<undefined>(baseUrl, `/api/drafts/${id}`, {
+          method: "DELETE",
+        });
+      } catch {
+        // Already expired or deleted; nothing left to discard
+      }
+    }
+    return id;
+  }, [baseUrl]);
+
+  useEffect(() => {
+    return () => {
+      void flush();
+    };
+  }, [flush]);
+
+  return { status, lastSavedAt, scheduleSave, flush, discardDraft };
+}
@@ -0,0 +1,81 @@
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+import type { DraftDTO, DraftsListResponse, UIError } from "@/types/types";
+import { apiRequest, toUIError } from "@/lib/utils/api-client";
+
+/**
+ * Hook for listing and discarding the user's unfinished report drafts
+ */
+export function useDrafts(baseUrl?: string) {
+  const [drafts, setDrafts] = useState<DraftDTO[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<UIError | null>(null);
+
+  /**
+   * Load the most recent drafts; the API purges expired ones on the way
+   */
+  const fetchDrafts = useCallback(async (): Promise<DraftDTO[]> => {
+    // Only fetch on client side to avoid SSR issues
+    if (typeof window === "undefined") {
+      return [];
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const page = await apiRequest<DraftsListResponse>(
+        baseUrl,
+        "/api/drafts",
+        { params: { limit: "20" } },
+      );
+      setDrafts(page.items);
+      return page.items;
+    } catch (err) {
+      const uiError = toUIError(err, "FETCH_ERROR");
+      setError(uiError);
+      toast.error(`Błąd podczas ładowania szkiców: ${uiError.message}`);
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [baseUrl]);
+
+  const deleteDraft = useCallback(
+    async (id: string): Promise<boolean> => {
+      setError(null);
+
+      try {
+        await apiRequest<undefined>(baseUrl, `/api/drafts/${id}`, {
+          method: "DELETE",
+        });
+        setDrafts((prev) => prev.filter((draft) => draft.id !== id));
+        return true;
+      } catch (err) {
+        const uiError = toUIError(err, "DELETE_ERROR");
+        if (uiError.code === "NOT_FOUND") {
+          // Already expired or discarded elsewhere
+          setDrafts((prev) => prev.filter((draft) => draft.id !== id));
+          return true;
+        }
+        setError(uiError);
+        toast.error(`Błąd podczas usuwania szkicu: ${uiError.message}`);
+        return false;
+      }
+    },
+    [baseUrl],
+  );
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  return {
+    drafts,
+    isLoading,
+    error,
+    fetchDrafts,
+    deleteDraft,
+    clearError,
+  };
+}
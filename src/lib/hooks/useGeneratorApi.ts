@@ -0,0 +1,244 @@
+import { useState, useCallback } from "react";
+import type {
+  CardValidationResponse,
+  DatasetRequest,
+  DatasetRow,
+  GenericGeneratorParams,
+  GenericGeneratorResponse,
+  UIError,
+} from "@/types/types";
+
+interface GenerateParams extends Omit<GenericGeneratorParams, "seed"> {
+  seed?: string;
+}
+
+interface ApiErrorBody {
+  error?: { code?: string; message?: string };
+}
+
+export interface DatasetDownload {
+  blob: Blob;
+  /** From Content-Disposition, e.g. "dataset-PL-customers.csv" */
+  fileName: string;
+  /** Base seed of the file, from X-Base-Seed */
+  seed: string;
+}
+
+/** Rows fetched for the dataset builder preview */
+const DATASET_PREVIEW_ROWS = 5;
+
+/**
+ * Hook for generic generator API operations (GET /api/generators/{kind}),
+ * the dataset builder (POST /api/generators/dataset) and card validation
+ * (GET /api/validators/card)
+ */
+export function useGeneratorApi(baseUrl?: string) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<UIError | null>(null);
+
+  const generate = useCallback(
+    async (
+      params: GenerateParams,
+    ): Promise<GenericGeneratorResponse | null> => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const resolvedBaseUrl = baseUrl || window.location.origin;
+        const url = new URL(`/api/generators/${params.kind}`, resolvedBaseUrl);
+        url.searchParams.set("country", params.country);
+        if (params.seed !== undefined) {
+          url.searchParams.set("seed", params.seed);
+        }
+        if (params.length !== undefined) {
+          url.searchParams.set("length", String(params.length));
+        }
+        if (params.charset !== undefined) {
+          url.searchParams.set("charset", params.charset);
+        }
+        if (params.birthDate !== undefined) {
+          url.searchParams.set("birth_date", params.birthDate);
+        }
+        if (params.sex !== undefined) {
+          url.searchParams.set("sex", params.sex);
+        }
+        if (params.network !== undefined) {
+          url.searchParams.set("network", params.network);
+        }
+        if (params.expiry !== undefined) {
+          url.searchParams.set("expiry", params.expiry);
+        }
+
+        // Use cache: "no-store" for non-seeded requests
+        const cacheMode = params.seed !== undefined ? "default" : "no-store";
+
+        const response = await fetch(url.toString(), {
+          method: "GET",
+          cache: cacheMode,
+        });
+
+        if (!response.ok) {
+          const errorData = (await response.json().catch(() => ({}))) as
+            | ApiErrorBody
+            | undefined;
+          setError({
+            code: errorData?.error?.code || "INTERNAL",
+            message:
+              errorData?.error?.message || "An unexpected error occurred",
+          });
+          return null;
+        }
+
+        const data: GenericGeneratorResponse = await response.json();
+        return data;
+      } catch (err) {
+        const message =
+          err instanceof Error ? err.message : "Network error occurred";
+        setError({ code: "NETWORK_ERROR", message });
+        return null;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [baseUrl],
+  );
+
+  const validateCard = useCallback(
+    async (number: string): Promise<CardValidationResponse | null> => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const resolvedBaseUrl = baseUrl || window.location.origin;
+        const url = new URL("/api/validators/card", resolvedBaseUrl);
+        url.searchParams.set("number", number);
+
+        const response = await fetch(url.toString(), { method: "GET" });
+
+        if (!response.ok) {
+          const errorData = (await response.json().catch(() => ({}))) as
+            | ApiErrorBody
+            | undefined;
+          setError({
+            code: errorData?.error?.code || "INTERNAL",
+            message:
+              errorData?.error?.message || "An unexpected error occurred",
+          });
+          return null;
+        }
+
+        const data: CardValidationResponse = await response.json();
+        return data;
+      } catch (err) {
+        const message =
+          err instanceof Error ? err.message : "Network error occurred";
+        setError({ code: "NETWORK_ERROR", message });
+        return null;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [baseUrl],
+  );
+
+  const postDataset = useCallback(
+    async (request: DatasetRequest): Promise<Response | null> => {
+      const resolvedBaseUrl = baseUrl || window.location.origin;
+      const url = new URL("/api/generators/dataset", resolvedBaseUrl);
+
+      const response = await fetch(url.toString(), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+      });
+
+      if (!response.ok) {
+        const errorData = (await response.json().catch(() => ({}))) as
+          | ApiErrorBody
+          | undefined;
+        setError({
+          code: errorData?.error?.code || "INTERNAL",
+          message: errorData?.error?.message || "An unexpected error occurred",
+        });
+        return null;
+      }
+
+      return response;
+    },
+    [baseUrl],
+  );
+
+  const previewDataset = useCallback(
+    async (request: DatasetRequest): Promise<DatasetRow[] | null> => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await postDataset({
+          ...request,
+          count: Math.min(request.count, DATASET_PREVIEW_ROWS),
+          format: "json",
+        });
+        if (!response) {
+          return null;
+        }
+
+        const rows: DatasetRow[] = await response.json();
+        return rows;
+      } catch (err) {
+        const message =
+          err instanceof Error ? err.message : "Network error occurred";
+        setError({ code: "NETWORK_ERROR", message });
+        return null;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [postDataset],
+  );
+
+  const downloadDataset = useCallback(
+    async (request: DatasetRequest): Promise<DatasetDownload | null> => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await postDataset(request);
+        if (!response) {
+          return null;
+        }
+
+        const format = request.format ?? "csv";
+        const seed = response.headers.get("X-Base-Seed") ?? request.seed ?? "";
+        const disposition = response.headers.get("Content-Disposition") ?? "";
+        const fileName =
+          /filename="([^"]+)"/.exec(disposition)?.[1] ??
+          `dataset-${request.country}.${format}`;
+
+        return { blob: await response.blob(), fileName, seed };
+      } catch (err) {
+        const message =
+          err instanceof Error ? err.message : "Network error occurred";
+        setError({ code: "NETWORK_ERROR", message });
+        return null;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [postDataset],
+  );
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  return {
+    generate,
+    validateCard,
+    previewDataset,
+    downloadDataset,
+    isLoading,
+    error,
+    clearError,
+  };
+}
@@ -427,6 +427,211 @@ describe("useIbanApi Hook", () => {
     });
   });
 
+  describe("downloadBulk function", () => {
+    it("should download the file with its server-side name", async () => {
+      const blob = new Blob(["index,iban\r\n"]);
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers({
+          "Content-Disposition": 'attachment; filename="ibans-DE-batch.csv"',
+        }),
+        blob: vi.fn().mockResolvedValue(blob),
+      });
+
+      const { result } = renderHook(() =>
+        useIbanApi("https://test.example.com"),
+      );
+
+      let response;
+      await act(async () => {
+        response = await result.current.downloadBulk({
+          country: "DE",
+          seed: "batch",
+          count: 500,
+          format: "csv",
+        });
+      });
+
+      expect(response).toEqual({ blob, fileName: "ibans-DE-batch.csv" });
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://test.example.com/api/generators/iban/bulk?country=DE&count=500&format=csv&seed=batch",
+        {
+          method: "GET",
+          cache: "default",
+        },
+      );
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    it("should skip the cache and fall back to a file name without seed", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers(),
+        blob: vi.fn().mockResolvedValue(new Blob([])),
+      });
+
+      const { result } = renderHook(() =>
+        useIbanApi("https://test.example.com"),
+      );
+
+      let response;
+      await act(async () => {
+        response = await result.current.downloadBulk({
+          country: "PL",
+          count: 10,
+          format: "ndjson",
+          bank: "any",
+        });
+      });
+
+      expect(response).toEqual({
+        blob: expect.any(Blob),
+        fileName: "ibans-PL.ndjson",
+      });
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://test.example.com/api/generators/iban/bulk?country=PL&count=10&format=ndjson&bank=any",
+        {
+          method: "GET",
+          cache: "no-store",
+        },
+      );
+    });
+
+    it("should set the API error", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        json: vi.fn().mockResolvedValue({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "count: count must be at most 5000",
+          },
+        }),
+      });
+
+      const { result } = renderHook(() =>
+        useIbanApi("https://test.example.com"),
+      );
+
+      let response;
+      await act(async () => {
+        response = await result.current.downloadBulk({
+          country: "DE",
+          count: 9000,
+          format: "json",
+        });
+      });
+
+      expect(response).toBe(null);
+      expect(result.current.error).toEqual({
+        code: "VALIDATION_ERROR",
+        message: "count: count must be at most 5000",
+      });
+    });
+
+    it("should handle unparseable error bodies", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        json: vi.fn().mockRejectedValue(new Error("Invalid JSON")),
+      });
+
+      const { result } = renderHook(() =>
+        useIbanApi("https://test.example.com"),
+      );
+
+      await act(async () => {
+        await result.current.downloadBulk({
+          country: "DE",
+          count: 1,
+          format: "csv",
+        });
+      });
+
+      expect(result.current.error).toEqual({
+        code: "INTERNAL",
+        message: "An unexpected error occurred",
+      });
+    });
+  });
+
+  describe("validateBatch function", () => {
+    it("should post the pasted text as CSV", async () => {
+      const batch = {
+        summary: { total: 1, valid: 1, invalid: 0 },
+        results: [{ row: 1, input: "DE89370400440532013000", valid: true }],
+      };
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: vi.fn().mockResolvedValue(batch),
+      });
+
+      const { result } = renderHook(() =>
+        useIbanApi("https://test.example.com"),
+      );
+
+      let response;
+      await act(async () => {
+        response = await result.current.validateBatch({
+          csv: "DE89370400440532013000\n",
+        });
+      });
+
+      expect(response).toEqual(batch);
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://test.example.com/api/validators/iban/batch",
+        {
+          method: "POST",
+          headers: { "Content-Type": "text/csv" },
+          body: "DE89370400440532013000\n",
+        },
+      );
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    it("should set the API error", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        json: vi.fn().mockResolvedValue({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request contains no IBANs",
+          },
+        }),
+      });
+
+      const { result } = renderHook(() =>
+        useIbanApi("https://test.example.com"),
+      );
+
+      let response;
+      await act(async () => {
+        response = await result.current.validateBatch({ csv: "" });
+      });
+
+      expect(response).toBe(null);
+      expect(result.current.error).toEqual({
+        code: "VALIDATION_ERROR",
+        message: "Request contains no IBANs",
+      });
+    });
+
+    it("should handle network errors", async () => {
+      mockFetch.mockRejectedValueOnce(new Error("Network error"));
+
+      const { result } = renderHook(() =>
+        useIbanApi("https://test.example.com"),
+      );
+
+      await act(async () => {
+        await result.current.validateBatch({ csv: "DE89" });
+      });
+
+      expect(result.current.error).toEqual({
+        code: "NETWORK_ERROR",
+        message: "Network error",
+      });
+    });
+  });
+
   describe("clearError function", () => {
     it("should clear error state", async () => {
       mockFetch.mockRejectedValueOnce(new Error("Network error"));
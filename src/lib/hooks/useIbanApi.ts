@@ -1,22 +1,48 @@
 import { useState, useCallback } from "react";
 import type {
+  ErrorResponse,
+  IbanBatchResponse,
   IbanGeneratorResponse,
   IbanValidationResponse,
   IbanCountry,
+  IbanDefect,
+  IbanExportFormat,
   UIError,
 } from "@/types/types";
 
 interface GenerateParams {
   country: IbanCountry;
   seed?: string;
+  /** Bank directory query: "any", a name fragment or a BIC */
+  bank?: string;
+  /** Generate a negative-test IBAN breaking this rule */
+  defect?: IbanDefect;
+}
+
+interface BulkDownloadParams extends GenerateParams {
+  /** Number of IBANs (1-5000) */
+  count: number;
+  format: IbanExportFormat;
+}
+
+export interface BulkDownload {
+  blob: Blob;
+  /** From Content-Disposition, e.g. "ibans-DE-batch.csv" */
+  fileName: string;
 }
 
 interface ValidateParams {
   iban: string;
 }
 
+interface ValidateBatchParams {
+  /** Pasted column or CSV text, one IBAN per line */
+  csv: string;
+}
+
 /**
- * Hook for IBAN API operations (generate and validate)
+ * Hook for IBAN API operations (generate, validate, batch validate and bulk
+ * download)
  */
 export function useIbanApi(baseUrl?: string) {
   const [isLoading, setIsLoading] = useState(false);
@@ -34,6 +60,12 @@ export function useIbanApi(baseUrl?: string) {
         if (params.seed !== undefined) {
           url.searchParams.set("seed", params.seed);
         }
+        if (params.bank !== undefined) {
+          url.searchParams.set("bank", params.bank);
+        }
+        if (params.defect !== undefined) {
+          url.searchParams.set("defect", params.defect);
+        }
 
         // Use cache: "no-store" for non-seeded requests
         const cacheMode = params.seed !== undefined ? "default" : "no-store";
@@ -113,6 +145,102 @@ export function useIbanApi(baseUrl?: string) {
     [baseUrl],
   );
 
+  const downloadBulk = useCallback(
+    async (params: BulkDownloadParams): Promise<BulkDownload | null> => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const resolvedBaseUrl = baseUrl || window.location.origin;
+        const url = new URL("/api/generators/iban/bulk", resolvedBaseUrl);
+        url.searchParams.set("country", params.country);
+        url.searchParams.set("count", String(params.count));
+        url.searchParams.set("format", params.format);
+        if (params.seed !== undefined) {
+          url.searchParams.set("seed", params.seed);
+        }
+        if (params.bank !== undefined) {
+          url.searchParams.set("bank", params.bank);
+        }
+        if (params.defect !== undefined) {
+          url.searchParams.set("defect", params.defect);
+        }
+
+        const response = await fetch(url.toString(), {
+          method: "GET",
+          cache: params.seed !== undefined ? "default" : "no-store",
+        });
+
+        if (!response.ok) {
+          const errorData = (await response
+            .json()
+            .catch(() => null)) as Partial<ErrorResponse> | null;
+          setError({
+            code: errorData?.error?.code || "INTERNAL",
+            message:
+              errorData?.error?.message || "An unexpected error occurred",
+          });
+          return null;
+        }
+
+        const disposition = response.headers.get("Content-Disposition") ?? "";
+        const fileName =
+          /filename="([^"]+)"/.exec(disposition)?.[1] ??
+          `ibans-${params.country}.${params.format}`;
+
+        return { blob: await response.blob(), fileName };
+      } catch (err) {
+        const message =
+          err instanceof Error ? err.message : "Network error occurred";
+        setError({ code: "NETWORK_ERROR", message });
+        return null;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [baseUrl],
+  );
+
+  const validateBatch = useCallback(
+    async (params: ValidateBatchParams): Promise<IbanBatchResponse | null> => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const resolvedBaseUrl = baseUrl || window.location.origin;
+        const url = new URL("/api/validators/iban/batch", resolvedBaseUrl);
+
+        const response = await fetch(url.toString(), {
+          method: "POST",
+          headers: { "Content-Type": "text/csv" },
+          body: params.csv,
+        });
+
+        if (!response.ok) {
+          const errorData = (await response
+            .json()
+            .catch(() => null)) as Partial<ErrorResponse> | null;
+          setError({
+            code: errorData?.error?.code || "INTERNAL",
+            message:
+              errorData?.error?.message || "An unexpected error occurred",
+          });
+          return null;
+        }
+
+        return (await response.json()) as IbanBatchResponse;
+      } catch (err) {
+        const message =
+          err instanceof Error ? err.message : "Network error occurred";
+        setError({ code: "NETWORK_ERROR", message });
+        return null;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [baseUrl],
+  );
+
   const clearError = useCallback(() => {
     setError(null);
   }, []);
@@ -120,6 +248,8 @@ export function useIbanApi(baseUrl?: string) {
   return {
     generate,
     validate,
+    validateBatch,
+    downloadBulk,
     isLoading,
     error,
     clearError,
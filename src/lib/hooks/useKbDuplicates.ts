@@ -0,0 +1,113 @@
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+import type {
+  KBDuplicateDTO,
+  KBDuplicatesResponse,
+  KBEntryDTO,
+  UIError,
+} from "@/types/types";
+
+interface ErrorPayload {
+  error?: { code?: string; message?: string };
+}
+
+async function readError(response: Response): Promise<ErrorPayload> {
+  try {
+    return (await response.json()) as ErrorPayload;
+  } catch {
+    return {
+      error: {
+        code: "INTERNAL",
+        message: "An unexpected error occurred",
+      },
+    };
+  }
+}
+
+/**
+ * Hook for the possible duplicates of a KB entry
+ * (/api/kb/entries/{id}/duplicates) and merging them into it (admins)
+ */
+export function useKbDuplicates(entryId: string, baseUrl?: string) {
+  const [duplicates, setDuplicates] = useState<KBDuplicateDTO[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<UIError | null>(null);
+
+  const entryUrl = useCallback(
+    (action: "duplicates" | "merge") =>
+      new URL(
+        `/api/kb/entries/${entryId}/${action}`,
+        baseUrl || window.location.origin,
+      ),
+    [baseUrl, entryId],
+  );
+
+  const fetchDuplicates = useCallback(async (): Promise<void> => {
+    // Only fetch on client side to avoid SSR issues
+    if (typeof window === "undefined") {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(entryUrl("duplicates").toString(), {
+        method: "GET",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const errorData = await readError(response);
+        throw new Error(
+          errorData.error?.message || "Failed to fetch duplicates",
+        );
+      }
+
+      const data: KBDuplicatesResponse = await response.json();
+      setDuplicates(data.items);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "An unexpected error occurred";
+      setError({ code: "FETCH_ERROR", message: errorMessage });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [entryUrl]);
+
+  const mergeEntries = useCallback(
+    async (sourceIds: string[]): Promise<KBEntryDTO | null> => {
+      try {
+        const response = await fetch(entryUrl("merge").toString(), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({ source_ids: sourceIds }),
+        });
+
+        if (!response.ok) {
+          const errorData = await readError(response);
+          throw new Error(
+            errorData.error?.message || "Failed to merge entries",
+          );
+        }
+
+        const { data }: { data: KBEntryDTO } = await response.json();
+        setDuplicates((prev) =>
+          prev.filter((duplicate) => !sourceIds.includes(duplicate.id)),
+        );
+        toast.success("Wpisy zostały scalone");
+        return data;
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err.message : "An unexpected error occurred";
+        toast.error(`Błąd podczas scalania wpisów: ${errorMessage}`);
+        return null;
+      }
+    },
+    [entryUrl],
+  );
+
+  return { duplicates, isLoading, error, fetchDuplicates, mergeEntries };
+}
@@ -1,14 +1,27 @@
-import { useCallback, useState } from "react";
+import { useCallback, useRef, useState } from "react";
 import { toast } from "sonner";
 import type {
+  KBDuplicateDTO,
   KBEntryDTO,
+  KBListItemDTO,
   KBListResponse,
+  KBOwnerFilter,
+  KBSortOrder,
+  KBTagMatch,
   UIError,
   CreateKBEntryCommand,
   UpdateKBEntryCommand,
 } from "@/types/types";
 
-interface FetchEntriesParams {
+export interface KbEntriesFilters {
+  q?: string;
+  tags?: string[];
+  tagMatch?: KBTagMatch;
+  owner?: KBOwnerFilter;
+  sort?: KBSortOrder;
+}
+
+interface FetchEntriesParams extends KbEntriesFilters {
   after?: string;
   limit?: number;
 }
@@ -25,12 +38,24 @@ interface UseKbEntriesOptions {
   role?: "admin" | "user";
 }
 
+interface CreateEntryOptions {
+  /** Save even though POST reported possible duplicates */
+  allowDuplicates?: boolean;
+  /**
+   * Receives the possible duplicates POST reported (409) instead of an
+   * error toast; the entry is not saved
+   */
+  onDuplicates?: (duplicates: KBDuplicateDTO[]) => void;
+}
+
 export function useKbEntries(baseUrl?: string, options?: UseKbEntriesOptions) {
-  const [entries, setEntries] = useState<KBEntryDTO[]>([]);
+  const [entries, setEntries] = useState<KBListItemDTO[]>([]);
   const [nextCursor, setNextCursor] = useState<string | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<UIError | null>(null);
   const isAdmin = options?.role === "admin";
+  // Filters of the first page, reused when loading more with a cursor
+  const filtersRef = useRef<KbEntriesFilters>({});
 
   const fetchEntries = useCallback(
     async (params?: FetchEntriesParams): Promise<void> => {
@@ -48,12 +73,38 @@ export function useKbEntries(baseUrl?: string, options?: UseKbEntriesOptions) {
           (typeof window !== "undefined" ? window.location.origin : "");
         const url = new URL("/api/kb/entries", resolvedBaseUrl);
 
+        if (!params?.after) {
+          filtersRef.current = {
+            q: params?.q,
+            tags: params?.tags,
+            tagMatch: params?.tagMatch,
+            owner: params?.owner,
+            sort: params?.sort,
+          };
+        }
+        const filters = filtersRef.current;
+
         if (params?.after) {
           url.searchParams.set("after", params.after);
         }
         if (params?.limit !== undefined) {
           url.searchParams.set("limit", String(params.limit));
         }
+        if (filters.q) {
+          url.searchParams.set("q", filters.q);
+        }
+        if (filters.tags && filters.tags.length > 0) {
+          url.searchParams.set("tags", filters.tags.join(","));
+          if (filters.tagMatch) {
+            url.searchParams.set("tag_match", filters.tagMatch);
+          }
+        }
+        if (filters.owner) {
+          url.searchParams.set("owner", filters.owner);
+        }
+        if (filters.sort) {
+          url.searchParams.set("sort", filters.sort);
+        }
 
         const response = await fetch(url.toString(), {
           method: "GET",
@@ -102,6 +153,7 @@ export function useKbEntries(baseUrl?: string, options?: UseKbEntriesOptions) {
   const createEntry = useCallback(
     async (
       data: CreateKBEntryCommandWithPublic,
+      createOptions?: CreateEntryOptions,
     ): Promise<KBEntryDTO | null> => {
       // Only run on client side
       if (typeof window === "undefined") {
@@ -127,6 +179,9 @@ export function useKbEntries(baseUrl?: string, options?: UseKbEntriesOptions) {
         if (isAdmin && data.is_public !== undefined) {
           requestBody.is_public = data.is_public;
         }
+        if (createOptions?.allowDuplicates) {
+          requestBody.allow_duplicates = true;
+        }
 
         const response = await fetch(url.toString(), {
           method: "POST",
@@ -144,6 +199,19 @@ export function useKbEntries(baseUrl?: string, options?: UseKbEntriesOptions) {
               message: "An unexpected error occurred",
             },
           }));
+          const duplicates = (
+            errorData as {
+              error?: { details?: { duplicates?: KBDuplicateDTO[] } };
+            }
+          ).error?.details?.duplicates;
+          if (
+            response.status === 409 &&
+            duplicates?.length &&
+            createOptions?.onDuplicates
+          ) {
+            createOptions.onDuplicates(duplicates);
+            return null;
+          }
           const errorMessage =
             errorData.error?.message || "Failed to create entry";
           setError({
@@ -191,7 +259,7 @@ export function useKbEntries(baseUrl?: string, options?: UseKbEntriesOptions) {
       setError(null);
 
       // Store previous state for rollback
-      let prevEntries: KBEntryDTO[] = [];
+      let prevEntries: KBListItemDTO[] = [];
       setEntries((prev) => {
         prevEntries = [...prev];
         return prev;
@@ -303,7 +371,7 @@ export function useKbEntries(baseUrl?: string, options?: UseKbEntriesOptions) {
       setError(null);
 
       // Store previous state for rollback
-      let prevEntries: KBEntryDTO[] = [];
+      let prevEntries: KBListItemDTO[] = [];
       setEntries((prev) => {
         prevEntries = [...prev];
         return prev;
@@ -0,0 +1,65 @@
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+import type { KBImportReport } from "@/types/types";
+
+interface ErrorPayload {
+  error?: { code?: string; message?: string };
+}
+
+/**
+ * Hook for importing a KB file (POST /api/kb/import)
+ * The file goes as-is; the API picks the format from its type or content.
+ */
+export function useKbImport(baseUrl?: string) {
+  const [report, setReport] = useState<KBImportReport | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const importFile = useCallback(
+    async (file: File): Promise<KBImportReport | null> => {
+      setIsImporting(true);
+      setReport(null);
+
+      try {
+        const url = new URL(
+          "/api/kb/import",
+          baseUrl || window.location.origin,
+        );
+        const response = await fetch(url.toString(), {
+          method: "POST",
+          headers: { "Content-Type": file.type || "text/plain" },
+          credentials: "include",
+          body: file,
+        });
+
+        if (!response.ok) {
+          let errorData: ErrorPayload = {};
+          try {
+            errorData = (await response.json()) as ErrorPayload;
+          } catch {
+            // Non-JSON error body: fall back to the generic message
+          }
+          throw new Error(errorData.error?.message || "Failed to import file");
+        }
+
+        const data: KBImportReport = await response.json();
+        setReport(data);
+        toast.success(
+          `Zaimportowano ${data.summary.created} z ${data.summary.total} wpisów`,
+        );
+        return data;
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err.message : "An unexpected error occurred";
+        toast.error(`Błąd podczas importu: ${errorMessage}`);
+        return null;
+      } finally {
+        setIsImporting(false);
+      }
+    },
+    [baseUrl],
+  );
+
+  const clearReport = useCallback(() => setReport(null), []);
+
+  return { report, isImporting, importFile, clearReport };
+}
@@ -0,0 +1,182 @@
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+import type { KBNoteDTO, KBNotesListResponse, UIError } from "@/types/types";
+
+interface ErrorPayload {
+  error?: { code?: string; message?: string };
+}
+
+async function readError(response: Response): Promise<ErrorPayload> {
+  try {
+    return (await response.json()) as ErrorPayload;
+  } catch {
+    return {
+      error: {
+        code: "INTERNAL",
+        message: "An unexpected error occurred",
+      },
+    };
+  }
+}
+
+/**
+ * Hook for the notes of one KB entry (/api/kb/entries/{id}/notes)
+ * Notes are kept oldest first; loading more appends the next page.
+ */
+export function useKbNotes(entryId: string, baseUrl?: string) {
+  const [notes, setNotes] = useState<KBNoteDTO[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<UIError | null>(null);
+
+  const notesUrl = useCallback(
+    (noteId?: string) =>
+      new URL(
+        `/api/kb/entries/${entryId}/notes${noteId ? `/${noteId}` : ""}`,
+        baseUrl || window.location.origin,
+      ),
+    [baseUrl, entryId],
+  );
+
+  const fetchNotes = useCallback(
+    async (after?: string): Promise<void> => {
+      // Only fetch on client side to avoid SSR issues
+      if (typeof window === "undefined") {
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const url = notesUrl();
+        if (after) {
+          url.searchParams.set("after", after);
+        }
+
+        const response = await fetch(url.toString(), {
+          method: "GET",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+        });
+
+        if (!response.ok) {
+          const errorData = await readError(response);
+          throw new Error(errorData.error?.message || "Failed to fetch notes");
+        }
+
+        const data: KBNotesListResponse = await response.json();
+        setNotes((prev) => (after ? [...prev, ...data.items] : data.items));
+        setNextCursor(data.next_cursor);
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err.message : "An unexpected error occurred";
+        setError({ code: "FETCH_ERROR", message: errorMessage });
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [notesUrl],
+  );
+
+  const addNote = useCallback(
+    async (body: string): Promise<KBNoteDTO | null> => {
+      try {
+        const response = await fetch(notesUrl().toString(), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({ body }),
+        });
+
+        if (!response.ok) {
+          const errorData = await readError(response);
+          throw new Error(errorData.error?.message || "Failed to add note");
+        }
+
+        const { data }: { data: KBNoteDTO } = await response.json();
+        // Appended only once the thread is fully loaded; otherwise the note
+        // shows up at the end when paging reaches it
+        if (!nextCursor) {
+          setNotes((prev) => [...prev, data]);
+        }
+        toast.success("Notatka została dodana");
+        return data;
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err.message : "An unexpected error occurred";
+        toast.error(`Błąd podczas dodawania notatki: ${errorMessage}`);
+        return null;
+      }
+    },
+    [notesUrl, nextCursor],
+  );
+
+  const updateNote = useCallback(
+    async (noteId: string, body: string): Promise<KBNoteDTO | null> => {
+      try {
+        const response = await fetch(notesUrl(noteId).toString(), {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({ body }),
+        });
+
+        if (!response.ok) {
+          const errorData = await readError(response);
+          throw new Error(errorData.error?.message || "Failed to update note");
+        }
+
+        const { data }: { data: KBNoteDTO } = await response.json();
+        setNotes((prev) =>
+          prev.map((note) => (note.id === noteId ? data : note)),
+        );
+        toast.success("Notatka została zaktualizowana");
+        return data;
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err.message : "An unexpected error occurred";
+        toast.error(`Błąd podczas aktualizacji notatki: ${errorMessage}`);
+        return null;
+      }
+    },
+    [notesUrl],
+  );
+
+  const deleteNote = useCallback(
+    async (noteId: string): Promise<boolean> => {
+      try {
+        const response = await fetch(notesUrl(noteId).toString(), {
+          method: "DELETE",
+          credentials: "include",
+        });
+
+        if (!response.ok) {
+          const errorData = await readError(response);
+          throw new Error(errorData.error?.message || "Failed to delete note");
+        }
+
+        setNotes((prev) => prev.filter((note) => note.id !== noteId));
+        toast.success("Notatka została usunięta");
+        return true;
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err.message : "An unexpected error occurred";
+        toast.error(`Błąd podczas usuwania notatki: ${errorMessage}`);
+        return false;
+      }
+    },
+    [notesUrl],
+  );
+
+  return {
+    notes,
+    nextCursor,
+    isLoading,
+    error,
+    fetchNotes,
+    addNote,
+    updateNote,
+    deleteNote,
+  };
+}
@@ -0,0 +1,60 @@
+import { useCallback, useState } from "react";
+import type {
+  KBOwnerFilter,
+  KBTagFacetDTO,
+  KBTagFacetsResponse,
+} from "@/types/types";
+
+interface FetchFacetsParams {
+  q?: string;
+  owner?: KBOwnerFilter;
+}
+
+/**
+ * Hook for the KB tag facets (GET /api/kb/tags)
+ * Facets are an aid to filtering, so failures leave the list empty instead
+ * of raising a toast.
+ */
+export function useKbTagFacets(baseUrl?: string) {
+  const [facets, setFacets] = useState<KBTagFacetDTO[]>([]);
+
+  const fetchFacets = useCallback(
+    async (params?: FetchFacetsParams): Promise<void> => {
+      // Only fetch on client side to avoid SSR issues
+      if (typeof window === "undefined") {
+        return;
+      }
+
+      try {
+        const url = new URL("/api/kb/tags", baseUrl || window.location.origin);
+        if (params?.q) {
+          url.searchParams.set("q", params.q);
+        }
+        if (params?.owner) {
+          url.searchParams.set("owner", params.owner);
+        }
+
+        const response = await fetch(url.toString(), {
+          method: "GET",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          credentials: "include",
+        });
+
+        if (!response.ok) {
+          setFacets([]);
+          return;
+        }
+
+        const data: KBTagFacetsResponse = await response.json();
+        setFacets(data.items);
+      } catch {
+        setFacets([]);
+      }
+    },
+    [baseUrl],
+  );
+
+  return { facets, fetchFacets };
+}
@@ -0,0 +1,205 @@
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+import type {
+  CreateTemplateCommand,
+  TemplateDTO,
+  TemplateListItemDTO,
+  TemplatesListResponse,
+  UIError,
+  UpdateTemplateCommand,
+} from "@/types/types";
+import { apiRequest, toUIError } from "@/lib/utils/api-client";
+
+/**
+ * List rows come from the templates_effective view (nullable columns);
+ * the UI works with the single-template shape.
+ */
+function toTemplate(item: TemplateListItemDTO): TemplateDTO {
+  return {
+    ...item,
+    id: item.id ?? "",
+    name: item.name ?? "",
+    scope: item.scope ?? "user",
+    fields: item.fields ?? [],
+    attachments: item.attachments ?? [],
+    version: item.version ?? 1,
+    created_at: item.created_at ?? "",
+    updated_at: item.updated_at ?? "",
+  };
+}
+
+/**
+ * Hook for Templates API operations
+ */
+export function useTemplates(baseUrl?: string) {
+  const [templates, setTemplates] = useState<TemplateDTO[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<UIError | null>(null);
+
+  const fetchTemplates = useCallback(async (): Promise<void> => {
+    // Only fetch on client side to avoid SSR issues
+    if (typeof window === "undefined") {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const items: TemplateDTO[] = [];
+      let after: string | undefined;
+      do {
+        const params: Record<string, string> = { limit: "100" };
+        if (after) {
+          params.after = after;
+        }
+        const page = await apiRequest<TemplatesListResponse>(
+          baseUrl,
+          "/api/templates",
+          { params },
+        );
+        items.push(...page.items.map(toTemplate));
+        after = page.next_cursor;
+      } while (after);
+
+      setTemplates(items);
+    } catch (err) {
+      const uiError = toUIError(err, "FETCH_ERROR");
+      setError(uiError);
+      toast.error(`Błąd podczas ładowania szablonów: ${uiError.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [baseUrl]);
+
+  const createTemplate = useCallback(
+    async (data: CreateTemplateCommand): Promise<TemplateDTO | null> => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await apiRequest<{ data: TemplateDTO }>(
+          baseUrl,
+          "/api/templates",
+          { method: "POST", body: data },
+        );
+        setTemplates((prev) => [response.data, ...prev]);
+        toast.success("Szablon został utworzony");
+        return response.data;
+      } catch (err) {
+        const uiError = toUIError(err, "CREATE_ERROR");
+        setError(uiError);
+        toast.error(`Błąd podczas tworzenia szablonu: ${uiError.message}`);
+        return null;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [baseUrl],
+  );
+
+  const updateTemplate = useCallback(
+    async (
+      id: string,
+      data: UpdateTemplateCommand & { version: number },
+    ): Promise<TemplateDTO | null> => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await apiRequest<{ data: TemplateDTO }>(
+          baseUrl,
+          `/api/templates/${id}`,
+          { method: "PATCH", body: data },
+        );
+        setTemplates((prev) =>
+          prev.map((template) =>
+            template.id === id ? response.data : template,
+          ),
+        );
+        toast.success("Szablon został zaktualizowany");
+        return response.data;
+      } catch (err) {
+        const uiError = toUIError(err, "UPDATE_ERROR");
+        setError(uiError);
+        if (uiError.code === "CONFLICT") {
+          toast.error(
+            `Szablon został zmieniony w innym miejscu lub nazwa jest zajęta: ${uiError.message}`,
+          );
+        } else {
+          toast.error(`Błąd podczas aktualizacji szablonu: ${uiError.message}`);
+        }
+        return null;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [baseUrl],
+  );
+
+  const deleteTemplate = useCallback(
+    async (id: string): Promise<boolean> => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        await apiRequest<undefined>(baseUrl, `/api/templates/${id}`, {
+          method: "DELETE",
+        });
+        setTemplates((prev) => prev.filter((template) => template.id !== id));
+        toast.success("Szablon został usunięty");
+        return true;
+      } catch (err) {
+        const uiError = toUIError(err, "DELETE_ERROR");
+        setError(uiError);
+        toast.error(`Błąd podczas usuwania szablonu: ${uiError.message}`);
+        return false;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [baseUrl],
+  );
+
+  const forkTemplate = useCallback(
+    async (id: string, name?: string): Promise<TemplateDTO | null> => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await apiRequest<{ data: TemplateDTO }>(
+          baseUrl,
+          `/api/templates/${id}/fork`,
+          { method: "POST", body: name ? { name } : {} },
+        );
+        setTemplates((prev) => [response.data, ...prev]);
+        toast.success("Utworzono własną kopię szablonu");
+        return response.data;
+      } catch (err) {
+        const uiError = toUIError(err, "FORK_ERROR");
+        setError(uiError);
+        toast.error(`Błąd podczas kopiowania szablonu: ${uiError.message}`);
+        return null;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [baseUrl],
+  );
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  return {
+    templates,
+    isLoading,
+    error,
+    fetchTemplates,
+    createTemplate,
+    updateTemplate,
+    deleteTemplate,
+    forkTemplate,
+    clearError,
+  };
+}
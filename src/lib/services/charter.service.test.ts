@@ -0,0 +1,299 @@
+import { describe, it, expect } from "vitest";
+import type { CharterDTO, CharterNoteDTO } from "../../types/types";
+import {
+  addCharterNote,
+  buildCharterMarkdown,
+  formatDuration,
+  listCharters,
+  startCharter,
+  stopCharter,
+  updateCharter,
+} from "./charter.service";
+import { createSupabaseMock } from "../../test/supabase-mock";
+
+const baseCharter: CharterDTO = {
+  id: "11111111-1111-4111-8111-111111111111",
+  user_id: "user-1",
+  goal: "Explore checkout",
+  hypotheses: null,
+  summary_notes: null,
+  status: "idle",
+  started_at: "2025-01-01T10:00:00.000Z",
+  ended_at: null,
+  version: 1,
+  created_at: "2025-01-01T10:00:00.000Z",
+  updated_at: "2025-01-01T10:00:00.000Z",
+};
+
+function note(
+  tag: CharterNoteDTO["tag"],
+  body: string,
+  noted_at: string,
+): CharterNoteDTO {
+  return {
+    id: `note-${noted_at}`,
+    charter_id: baseCharter.id,
+    user_id: "user-1",
+    tag,
+    body,
+    noted_at,
+  };
+}
+
+describe("Charter Service", () => {
+  describe("listCharters", () => {
+    it("should return next_cursor when more rows exist", async () => {
+      const rows = [
+        { ...baseCharter, id: "a", updated_at: "2025-01-03T00:00:00Z" },
+        { ...baseCharter, id: "b", updated_at: "2025-01-02T00:00:00Z" },
+        { ...baseCharter, id: "c", updated_at: "2025-01-01T00:00:00Z" },
+      ];
+      const { supabase, builder } = createSupabaseMock([
+        { data: rows, error: null },
+      ]);
+
+      const page = await listCharters(supabase, "user-1", { limit: 2 });
+
+      expect(page.items).toHaveLength(2);
+      expect(page.next_cursor).toBe("2025-01-02T00:00:00Z,b");
+      expect(builder.eq).toHaveBeenCalledWith("user_id", "user-1");
+      expect(builder.limit).toHaveBeenCalledWith(3);
+    });
+
+    it("should apply keyset cursor and status filter", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: [], error: null },
+      ]);
+
+      const page = await listCharters(supabase, "user-1", {
+        limit: 20,
+        status: "closed",
+        after: "2025-01-02T00:00:00Z,b",
+      });
+
+      expect(page).toEqual({ items: [], next_cursor: undefined });
+      expect(builder.eq).toHaveBeenCalledWith("status", "closed");
+      expect(builder.or).toHaveBeenCalledWith(
+        "updated_at.lt.2025-01-02T00:00:00Z,and(updated_at.eq.2025-01-02T00:00:00Z,id.lt.b)",
+      );
+    });
+  });
+
+  describe("updateCharter", () => {
+    it("should reject a stale version with CONFLICT", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: { ...baseCharter, version: 3 }, error: null },
+      ]);
+
+      await expect(
+        updateCharter(supabase, "user-1", baseCharter.id, {
+          goal: "New goal",
+          version: 2,
+        }),
+      ).rejects.toMatchObject({
+        code: "CONFLICT",
+        status: 409,
+        details: { current_version: 3 },
+      });
+      expect(builder.update).not.toHaveBeenCalled();
+    });
+
+    it("should bump the version when it matches", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: baseCharter, error: null },
+        { data: { ...baseCharter, goal: "New goal", version: 2 }, error: null },
+      ]);
+
+      const updated = await updateCharter(supabase, "user-1", baseCharter.id, {
+        goal: "New goal",
+        version: 1,
+      });
+
+      expect(updated.version).toBe(2);
+      expect(builder.update).toHaveBeenCalledWith({
+        goal: "New goal",
+        version: 2,
+      });
+      expect(builder.eq).toHaveBeenCalledWith("version", 1);
+    });
+
+    it("should report CONFLICT when a concurrent write wins the race", async () => {
+      const { supabase } = createSupabaseMock([
+        { data: baseCharter, error: null },
+        { data: null, error: { code: "PGRST116", message: "no rows" } },
+      ]);
+
+      await expect(
+        updateCharter(supabase, "user-1", baseCharter.id, {
+          summary_notes: "Done",
+          version: 1,
+        }),
+      ).rejects.toMatchObject({ code: "CONFLICT", status: 409 });
+    });
+
+    it("should return NOT_FOUND for unknown charters", async () => {
+      const { supabase } = createSupabaseMock([
+        { data: null, error: { code: "PGRST116", message: "no rows" } },
+      ]);
+
+      await expect(
+        updateCharter(supabase, "user-1", baseCharter.id, {
+          goal: "x",
+          version: 1,
+        }),
+      ).rejects.toMatchObject({ code: "NOT_FOUND", status: 404 });
+    });
+  });
+
+  describe("startCharter / stopCharter", () => {
+    it("should map the one-active unique violation to CONFLICT", async () => {
+      const { supabase } = createSupabaseMock([
+        { data: baseCharter, error: null },
+        {
+          data: null,
+          error: { code: "23505", message: "charters_active_user_idx" },
+        },
+      ]);
+
+      await expect(
+        startCharter(supabase, "user-1", baseCharter.id),
+      ).rejects.toMatchObject({
+        code: "CONFLICT",
+        message: "Another charter is already active",
+      });
+    });
+
+    it("should not restart closed charters", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        {
+          data: {
+            ...baseCharter,
+            status: "closed",
+            ended_at: "2025-01-01T11:00:00Z",
+          },
+          error: null,
+        },
+      ]);
+
+      await expect(
+        startCharter(supabase, "user-1", baseCharter.id),
+      ).rejects.toMatchObject({ code: "CONFLICT" });
+      expect(builder.update).not.toHaveBeenCalled();
+    });
+
+    it("should close an active charter", async () => {
+      const active = { ...baseCharter, status: "active" };
+      const { supabase, builder } = createSupabaseMock([
+        { data: active, error: null },
+        { data: { ...active, status: "closed", version: 2 }, error: null },
+      ]);
+
+      const stopped = await stopCharter(supabase, "user-1", baseCharter.id);
+
+      expect(stopped.status).toBe("closed");
+      expect(builder.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "closed", version: 2 }),
+      );
+      expect(builder.eq).toHaveBeenCalledWith("status", "active");
+    });
+
+    it("should refuse to stop an idle charter", async () => {
+      const { supabase } = createSupabaseMock([
+        { data: baseCharter, error: null },
+      ]);
+
+      await expect(
+        stopCharter(supabase, "user-1", baseCharter.id),
+      ).rejects.toMatchObject({ code: "CONFLICT", status: 409 });
+    });
+  });
+
+  describe("addCharterNote", () => {
+    it("should only accept notes for active charters", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: baseCharter, error: null },
+      ]);
+
+      await expect(
+        addCharterNote(supabase, "user-1", baseCharter.id, {
+          tag: "bug",
+          body: "Broken",
+        }),
+      ).rejects.toMatchObject({ code: "CONFLICT" });
+      expect(builder.insert).not.toHaveBeenCalled();
+    });
+
+    it("should insert the note with the owner id", async () => {
+      const created = note("idea", "Try coupons", "2025-01-01T10:05:00Z");
+      const { supabase, builder } = createSupabaseMock([
+        { data: { ...baseCharter, status: "active" }, error: null },
+        { data: created, error: null },
+      ]);
+
+      const result = await addCharterNote(supabase, "user-1", baseCharter.id, {
+        tag: "idea",
+        body: "Try coupons",
+      });
+
+      expect(result).toEqual(created);
+      expect(builder.insert).toHaveBeenCalledWith({
+        charter_id: baseCharter.id,
+        user_id: "user-1",
+        tag: "idea",
+        body: "Try coupons",
+      });
+    });
+  });
+
+  describe("formatDuration", () => {
+    it("should format minutes and hours", () => {
+      expect(
+        formatDuration("2025-01-01T10:00:00Z", "2025-01-01T10:12:30Z"),
+      ).toBe("12m");
+      expect(
+        formatDuration("2025-01-01T10:00:00Z", "2025-01-01T11:05:00Z"),
+      ).toBe("1h 05m");
+    });
+  });
+
+  describe("buildCharterMarkdown", () => {
+    it("should render metadata, grouped notes and summary", () => {
+      const charter: CharterDTO = {
+        ...baseCharter,
+        status: "closed",
+        hypotheses: "Discounts may break totals",
+        summary_notes: "Two bugs found",
+        ended_at: "2025-01-01T10:45:00.000Z",
+      };
+      const notes = [
+        note("idea", "Try coupons", "2025-01-01T10:20:00.000Z"),
+        note(
+          "bug",
+          "Total is negative\nwith 100% coupon",
+          "2025-01-01T10:30:00.000Z",
+        ),
+        note("bug", "Cart empties", "2025-01-01T10:10:00.000Z"),
+      ];
+
+      const markdown = buildCharterMarkdown(charter, notes);
+
+      expect(markdown).toContain("# Charter: Explore checkout");
+      expect(markdown).toContain("- **Duration:** 45m");
+      expect(markdown).toContain("## Hypotheses\n\nDiscounts may break totals");
+      expect(markdown).toContain(
+        "## Bugs (2)\n\n- [2025-01-01 10:10 UTC] Cart empties\n- [2025-01-01 10:30 UTC] Total is negative\n  with 100% coupon",
+      );
+      expect(markdown).toContain("## Ideas (1)");
+      expect(markdown).not.toContain("## Risks");
+      expect(markdown.endsWith("## Summary\n\nTwo bugs found\n")).toBe(true);
+    });
+
+    it("should omit start time for idle charters", () => {
+      const markdown = buildCharterMarkdown(baseCharter, []);
+
+      expect(markdown).toContain("- **Status:** idle");
+      expect(markdown).not.toContain("Started");
+      expect(markdown).toContain("- **Notes:** 0");
+    });
+  });
+});
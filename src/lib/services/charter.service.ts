@@ -0,0 +1,476 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type {
+  CharterDTO,
+  CharterExportDTO,
+  CharterNoteDTO,
+  CharterNoteTag,
+  CharterNotesListResponse,
+  CharterStatus,
+  ChartersListResponse,
+  CreateCharterCommand,
+  CreateCharterNoteCommand,
+  UpdateCharterCommand,
+} from "../../types/types";
+import { createAppError } from "../helpers/error.helper";
+import { keysetFilter, toKeysetPage } from "../helpers/keyset.helper";
+
+/**
+ * Charter Service: exploratory testing sessions and their tagged notes.
+ *
+ * Lifecycle: idle → active (start) → closed (stop). The database allows a
+ * single active charter per user (charters_active_user_idx); every write
+ * bumps `version` so concurrent editors get a 409 instead of lost updates.
+ */
+
+type Supabase = SupabaseClient<Database>;
+
+interface PageQuery {
+  after?: string;
+  limit: number;
+}
+
+export interface CharterListQuery extends PageQuery {
+  status?: CharterStatus;
+}
+
+export interface CharterNoteListQuery extends PageQuery {
+  tag?: CharterNoteTag;
+}
+
+export type UpdateCharterInput = UpdateCharterCommand & { version: number };
+
+const PG_UNIQUE_VIOLATION = "23505";
+const PGRST_NO_ROWS = "PGRST116";
+
+function databaseError(message: string) {
+  return createAppError("DATABASE_ERROR", 500, message);
+}
+
+function notFound() {
+  return createAppError("NOT_FOUND", 404, "Charter not found");
+}
+
+function versionConflict(currentVersion: number) {
+  return createAppError(
+    "CONFLICT",
+    409,
+    "Charter was modified by another request",
+    { current_version: currentVersion },
+  );
+}
+
+/**
+ * List the user's charters, newest activity first
+ */
+export async function listCharters(
+  supabase: Supabase,
+  userId: string,
+  query: CharterListQuery,
+): Promise<ChartersListResponse> {
+  let builder = supabase.from("charters").select("*").eq("user_id", userId);
+
+  if (query.status) {
+    builder = builder.eq("status", query.status);
+  }
+
+  if (query.after) {
+    builder = builder.or(keysetFilter("updated_at", query.after));
+  }
+
+  // Fetch limit + 1 to determine if there's a next page
+  const { data, error } = await builder
+    .order("updated_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(query.limit + 1);
+
+  if (error) {
+    throw databaseError(error.message);
+  }
+
+  return toKeysetPage(
+    data as CharterDTO[] | null,
+    query.limit,
+    (charter) => `${charter.updated_at},${charter.id}`,
+  );
+}
+
+/**
+ * Fetch a single charter owned by the user
+ * @throws AppError NOT_FOUND when missing or owned by someone else
+ */
+export async function getCharter(
+  supabase: Supabase,
+  userId: string,
+  id: string,
+): Promise<CharterDTO> {
+  const { data, error } = await supabase
+    .from("charters")
+    .select("*")
+    .eq("id", id)
+    .eq("user_id", userId)
+    .single();
+
+  if (error) {
+    if (error.code === PGRST_NO_ROWS) {
+      throw notFound();
+    }
+    throw databaseError(error.message);
+  }
+
+  if (!data) {
+    throw notFound();
+  }
+
+  return data as CharterDTO;
+}
+
+/**
+ * Create a new charter in the idle state
+ */
+export async function createCharter(
+  supabase: Supabase,
+  userId: string,
+  cmd: CreateCharterCommand,
+): Promise<CharterDTO> {
+  const { data, error } = await supabase
+    .from("charters")
+    .insert({
+      user_id: userId,
+      goal: cmd.goal,
+      hypotheses: cmd.hypotheses ?? null,
+      status: "idle",
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw databaseError(error?.message ?? "Failed to create charter");
+  }
+
+  return data as CharterDTO;
+}
+
+/**
+ * Apply a versioned update: the row only changes if nobody bumped
+ * the version in the meantime.
+ */
+async function applyVersionedUpdate(
+  supabase: Supabase,
+  current: CharterDTO,
+  changes: Database["public"]["Tables"]["charters"]["Update"],
+  expectedStatus?: CharterStatus,
+): Promise<CharterDTO> {
+  let builder = supabase
+    .from("charters")
+    .update({ ...changes, version: current.version + 1 })
+    .eq("id", current.id)
+    .eq("version", current.version);
+
+  if (expectedStatus) {
+    builder = builder.eq("status", expectedStatus);
+  }
+
+  const { data, error } = await builder.select().single();
+
+  if (error) {
+    if (error.code === PGRST_NO_ROWS) {
+      throw versionConflict(current.version);
+    }
+    if (error.code === PG_UNIQUE_VIOLATION) {
+      throw createAppError(
+        "CONFLICT",
+        409,
+        "Another charter is already active",
+      );
+    }
+    throw databaseError(error.message);
+  }
+
+  return data as CharterDTO;
+}
+
+/**
+ * Update goal, hypotheses or summary notes
+ * @throws AppError CONFLICT when `version` does not match the stored version
+ */
+export async function updateCharter(
+  supabase: Supabase,
+  userId: string,
+  id: string,
+  input: UpdateCharterInput,
+): Promise<CharterDTO> {
+  const current = await getCharter(supabase, userId, id);
+
+  if (current.version !== input.version) {
+    throw versionConflict(current.version);
+  }
+
+  const changes: Database["public"]["Tables"]["charters"]["Update"] = {};
+  if (input.goal !== undefined) changes.goal = input.goal;
+  if (input.hypotheses !== undefined) changes.hypotheses = input.hypotheses;
+  if (input.summary_notes !== undefined) {
+    changes.summary_notes = input.summary_notes;
+  }
+
+  return applyVersionedUpdate(supabase, current, changes);
+}
+
+/**
+ * Delete a charter (notes are removed by cascade)
+ */
+export async function deleteCharter(
+  supabase: Supabase,
+  userId: string,
+  id: string,
+): Promise<void> {
+  await getCharter(supabase, userId, id);
+
+  const { error } = await supabase
+    .from("charters")
+    .delete()
+    .eq("id", id)
+    .eq("user_id", userId);
+
+  if (error) {
+    throw databaseError(error.message);
+  }
+}
+
+/**
+ * Start an idle charter
+ * @throws AppError CONFLICT when the charter is not idle or another one is active
+ */
+export async function startCharter(
+  supabase: Supabase,
+  userId: string,
+  id: string,
+): Promise<CharterDTO> {
+  const current = await getCharter(supabase, userId, id);
+
+  if (current.status !== "idle") {
+    throw createAppError(
+      "CONFLICT",
+      409,
+      current.status === "active"
+        ? "Charter is already active"
+        : "Closed charters cannot be restarted",
+    );
+  }
+
+  return applyVersionedUpdate(
+    supabase,
+    current,
+    { status: "active", started_at: new Date().toISOString() },
+    "idle",
+  );
+}
+
+/**
+ * Stop an active charter
+ * @throws AppError CONFLICT when the charter is not active
+ */
+export async function stopCharter(
+  supabase: Supabase,
+  userId: string,
+  id: string,
+): Promise<CharterDTO> {
+  const current = await getCharter(supabase, userId, id);
+
+  if (current.status !== "active") {
+    throw createAppError(
+      "CONFLICT",
+      409,
+      "Only active charters can be stopped",
+    );
+  }
+
+  return applyVersionedUpdate(
+    supabase,
+    current,
+    { status: "closed", ended_at: new Date().toISOString() },
+    "active",
+  );
+}
+
+/**
+ * List notes of a charter, newest first
+ */
+export async function listCharterNotes(
+  supabase: Supabase,
+  userId: string,
+  charterId: string,
+  query: CharterNoteListQuery,
+): Promise<CharterNotesListResponse> {
+  await getCharter(supabase, userId, charterId);
+
+  let builder = supabase
+    .from("charter_notes")
+    .select("*")
+    .eq("charter_id", charterId);
+
+  if (query.tag) {
+    builder = builder.eq("tag", query.tag);
+  }
+
+  if (query.after) {
+    builder = builder.or(keysetFilter("noted_at", query.after));
+  }
+
+  const { data, error } = await builder
+    .order("noted_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(query.limit + 1);
+
+  if (error) {
+    throw databaseError(error.message);
+  }
+
+  return toKeysetPage(
+    data as CharterNoteDTO[] | null,
+    query.limit,
+    (note) => `${note.noted_at},${note.id}`,
+  );
+}
+
+/**
+ * Add a tagged note to an active charter
+ * @throws AppError CONFLICT when the charter is not active
+ */
+export async function addCharterNote(
+  supabase: Supabase,
+  userId: string,
+  charterId: string,
+  cmd: CreateCharterNoteCommand,
+): Promise<CharterNoteDTO> {
+  const charter = await getCharter(supabase, userId, charterId);
+
+  if (charter.status !== "active") {
+    throw createAppError(
+      "CONFLICT",
+      409,
+      "Notes can only be added to an active charter",
+    );
+  }
+
+  const { data, error } = await supabase
+    .from("charter_notes")
+    .insert({
+      charter_id: charterId,
+      user_id: userId,
+      tag: cmd.tag,
+      body: cmd.body,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw databaseError(error?.message ?? "Failed to create note");
+  }
+
+  return data as CharterNoteDTO;
+}
+
+/* -------------------------------------------------------
+ * Markdown export
+ * ----------------------------------------------------- */
+
+const TAG_SECTIONS: { tag: CharterNoteTag; title: string }[] = [
+  { tag: "bug", title: "Bugs" },
+  { tag: "risk", title: "Risks" },
+  { tag: "question", title: "Questions" },
+  { tag: "idea", title: "Ideas" },
+];
+
+function formatTimestamp(iso: string): string {
+  return `${iso.slice(0, 10)} ${iso.slice(11, 16)} UTC`;
+}
+
+/**
+ * Format elapsed time between two timestamps as "1h 05m" / "12m"
+ */
+export function formatDuration(startIso: string, endIso: string): string {
+  const totalMinutes = Math.max(
+    0,
+    Math.floor((Date.parse(endIso) - Date.parse(startIso)) / 60000),
+  );
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0
+    ? `${hours}h ${String(minutes).padStart(2, "0")}m`
+    : `${minutes}m`;
+}
+
+/**
+ * Render a charter with its notes as a Markdown document
+ * Notes are grouped by tag and listed chronologically within each group.
+ */
+export function buildCharterMarkdown(
+  charter: CharterDTO,
+  notes: CharterNoteDTO[],
+): string {
+  const lines: string[] = [`# Charter: ${charter.goal}`, ""];
+
+  lines.push(`- **Status:** ${charter.status}`);
+  if (charter.status !== "idle") {
+    lines.push(`- **Started:** ${formatTimestamp(charter.started_at)}`);
+  }
+  if (charter.ended_at) {
+    lines.push(`- **Ended:** ${formatTimestamp(charter.ended_at)}`);
+    lines.push(
+      `- **Duration:** ${formatDuration(charter.started_at, charter.ended_at)}`,
+    );
+  }
+  lines.push(`- **Notes:** ${notes.length}`, "");
+
+  if (charter.hypotheses) {
+    lines.push("## Hypotheses", "", charter.hypotheses.trim(), "");
+  }
+
+  const sorted = [...notes].sort((a, b) =>
+    a.noted_at.localeCompare(b.noted_at),
+  );
+  for (const { tag, title } of TAG_SECTIONS) {
+    const tagged = sorted.filter((note) => note.tag === tag);
+    if (tagged.length === 0) continue;
+
+    lines.push(`## ${title} (${tagged.length})`, "");
+    for (const note of tagged) {
+      // Indent continuation lines so multi-line notes stay in one list item
+      const body = note.body.trim().replace(/\n/g, "\n  ");
+      lines.push(`- [${formatTimestamp(note.noted_at)}] ${body}`);
+    }
+    lines.push("");
+  }
+
+  if (charter.summary_notes) {
+    lines.push("## Summary", "", charter.summary_notes.trim(), "");
+  }
+
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+/**
+ * Export a charter and all its notes as Markdown
+ */
+export async function exportCharter(
+  supabase: Supabase,
+  userId: string,
+  id: string,
+): Promise<CharterExportDTO> {
+  const charter = await getCharter(supabase, userId, id);
+
+  const { data, error } = await supabase
+    .from("charter_notes")
+    .select("*")
+    .eq("charter_id", id)
+    .order("noted_at", { ascending: true });
+
+  if (error) {
+    throw databaseError(error.message);
+  }
+
+  return {
+    markdown: buildCharterMarkdown(charter, (data ?? []) as CharterNoteDTO[]),
+  };
+}
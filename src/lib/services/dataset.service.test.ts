@@ -0,0 +1,207 @@
+import { describe, it, expect } from "vitest";
+import {
+  DATASET_COLUMN_KINDS,
+  DATASET_FIELDS,
+  buildDatasetRow,
+  generateDataset,
+} from "./dataset.service";
+import { generate as generateIban } from "./iban.service";
+import { toEmailToken } from "./generators/email";
+import { validateIban } from "../utils/iban-validator";
+import { validatePesel, validateSvnr } from "../utils/national-id";
+import type { DatasetColumn, DatasetRequest } from "../../types/types";
+
+const CUSTOMER_COLUMNS: DatasetColumn[] = [
+  { name: "full_name", kind: "person" },
+  { name: "first_name", kind: "person", field: "first_name" },
+  { name: "birth_date", kind: "person", field: "birth_date" },
+  { name: "sex", kind: "person", field: "sex" },
+  { name: "email", kind: "email" },
+  { name: "pesel", kind: "pesel" },
+  { name: "phone", kind: "phone", field: "e164" },
+  { name: "iban", kind: "iban" },
+];
+
+function request(
+  overrides: Partial<DatasetRequest> = {},
+): Pick<DatasetRequest, "country" | "columns" | "count"> {
+  return { country: "PL", columns: CUSTOMER_COLUMNS, count: 5, ...overrides };
+}
+
+describe("dataset.service", () => {
+  describe("DATASET_FIELDS", () => {
+    it("should list fields for every generator kind, iban and person", () => {
+      expect(DATASET_COLUMN_KINDS).toContain("person");
+      expect(DATASET_COLUMN_KINDS).toContain("iban");
+      expect(DATASET_COLUMN_KINDS).toContain("card");
+      expect(DATASET_COLUMN_KINDS).toContain("svnr");
+      for (const kind of DATASET_COLUMN_KINDS) {
+        expect(DATASET_FIELDS[kind].length).toBeGreaterThan(0);
+      }
+    });
+  });
+
+  describe("generateDataset", () => {
+    it("should generate the requested number of rows", () => {
+      const rows = [...generateDataset(request({ count: 7 }), "s")];
+      expect(rows).toHaveLength(7);
+      expect(Object.keys(rows[0])).toEqual(
+        CUSTOMER_COLUMNS.map((column) => column.name),
+      );
+    });
+
+    it("should be deterministic for the same seed", () => {
+      expect([...generateDataset(request(), "customers")]).toEqual([
+        ...generateDataset(request(), "customers"),
+      ]);
+    });
+
+    it("should differ between seeds", () => {
+      expect([...generateDataset(request(), "a")]).not.toEqual([
+        ...generateDataset(request(), "b"),
+      ]);
+    });
+
+    it("should build row i from the seed '<seed>-<i>'", () => {
+      const rows = [...generateDataset(request(), "customers")];
+      expect(rows[3]).toEqual(buildDatasetRow(request(), "customers", 3));
+      expect(rows[3].iban).toBe(generateIban("PL", "customers-3:iban"));
+    });
+  });
+
+  describe("buildDatasetRow", () => {
+    it("should keep person-bound columns consistent", () => {
+      for (let i = 0; i < 20; i++) {
+        const row = buildDatasetRow(request(), "consistent", i);
+        const pesel = validatePesel(String(row.pesel));
+
+        expect(pesel.valid).toBe(true);
+        expect(pesel.birth_date).toBe(row.birth_date);
+        expect(pesel.sex).toBe(row.sex);
+        expect(row.full_name).toMatch(new RegExp(`^${row.first_name} `));
+      }
+    });
+
+    it("should derive the email from the person's name", () => {
+      const row = buildDatasetRow(
+        request({
+          columns: [
+            { name: "last_name", kind: "person", field: "last_name" },
+            { name: "local_part", kind: "email", field: "local_part" },
+          ],
+        }),
+        "mail",
+        0,
+      );
+      expect(String(row.local_part)).toContain(
+        toEmailToken(String(row.last_name)),
+      );
+    });
+
+    it("should encode the person's birth date in an SVNR", () => {
+      const row = buildDatasetRow(
+        request({
+          country: "AT",
+          columns: [
+            { name: "birth_date", kind: "person", field: "birth_date" },
+            { name: "svnr", kind: "svnr" },
+          ],
+        }),
+        "at",
+        0,
+      );
+      const [year, month, day] = String(row.birth_date).split("-");
+
+      expect(validateSvnr(String(row.svnr)).valid).toBe(true);
+      expect(String(row.svnr).slice(4)).toBe(`${day}${month}${year.slice(2)}`);
+    });
+
+    it("should use the dataset country for IBANs, phones and addresses", () => {
+      const row = buildDatasetRow(
+        request({
+          country: "DE",
+          columns: [
+            { name: "iban", kind: "iban" },
+            { name: "phone", kind: "phone", field: "e164" },
+            { name: "country", kind: "address", field: "country" },
+          ],
+        }),
+        "de",
+        0,
+      );
+
+      expect(validateIban(String(row.iban)).valid).toBe(true);
+      expect(row.iban).toMatch(/^DE/);
+      expect(row.phone).toMatch(/^\+49/);
+      expect(row.country).toBe("DE");
+    });
+
+    it("should keep column values when other columns are added", () => {
+      const before = buildDatasetRow(
+        request({ columns: [{ name: "guid", kind: "guid" }] }),
+        "stable",
+        2,
+      );
+      const after = buildDatasetRow(
+        request({
+          columns: [
+            { name: "company", kind: "company" },
+            { name: "guid", kind: "guid" },
+          ],
+        }),
+        "stable",
+        2,
+      );
+
+      expect(after.guid).toBe(before.guid);
+    });
+
+    it("should apply column options", () => {
+      const row = buildDatasetRow(
+        request({
+          columns: [
+            {
+              name: "token",
+              kind: "string",
+              options: { length: 12, charset: "hex" },
+            },
+            {
+              name: "network",
+              kind: "card",
+              field: "network",
+              options: { network: "amex" },
+            },
+            { name: "card", kind: "card", options: { network: "amex" } },
+            {
+              name: "expired",
+              kind: "card",
+              field: "expired",
+              options: { expiry: "expired" },
+            },
+            { name: "regon", kind: "regon", options: { length: 14 } },
+          ],
+        }),
+        "options",
+        0,
+      );
+
+      expect(row.token).toMatch(/^[0-9a-f]{12}$/);
+      expect(row.network).toBe("amex");
+      expect(row.card).toMatch(/^3[47]\d{13}$/);
+      expect(row.expired).toBe(true);
+      expect(row.regon).toMatch(/^\d{14}$/);
+    });
+
+    it("should return the IBAN in print format for the formatted field", () => {
+      const row = buildDatasetRow(
+        request({
+          columns: [{ name: "iban", kind: "iban", field: "formatted" }],
+        }),
+        "print",
+        0,
+      );
+
+      expect(row.iban).toMatch(/^PL\d{2}( \d{4}){6}$/);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { fnv1a32, pickOne, splitmix32 } from "../utils/number.js";
+import { randomBirthDate } from "../utils/national-id.js";
+import { toPrintIban } from "../utils/iban-format.js";
+import { deriveBulkSeed, generate as generateIban } from "./iban.service.js";
+import { generateData } from "./generators/index.js";
+import { buildEmail } from "./generators/email.js";
+import { generatePesel } from "./generators/pesel.js";
+import { generateSvnr } from "./generators/svnr.js";
+import { FIRST_NAMES, SURNAMES } from "./generators/locale-data.js";
+import type {
+  DatasetColumn,
+  DatasetColumnKind,
+  DatasetRequest,
+  DatasetRow,
+  DatasetValue,
+  LocalDataCountry,
+  Sex,
+} from "../../types/types";
+
+/**
+ * Dataset builder: whole test records assembled from the per-kind
+ * generators. Each row draws one person (name, birth date, sex) that the
+ * person-bound columns share, so an email matches the name and a PESEL the
+ * birth date; addresses, phones and IBANs use the dataset country.
+ *
+ * Row i uses the seed "<seed>-<i>" and each column a seed derived from the
+ * row seed and its name, so adding or reordering columns keeps the values
+ * of the other columns.
+ */
+
+/** Upper bounds for one request */
+export const MAX_DATASET_ROWS = 1000;
+export const MAX_DATASET_COLUMNS = 50;
+
+/** Output fields per column kind; the first one is the default */
+export const DATASET_FIELDS: Record<DatasetColumnKind, readonly string[]> = {
+  person: ["full_name", "first_name", "last_name", "birth_date", "sex"],
+  address: [
+    "formatted",
+    "street",
+    "building",
+    "apartment",
+    "postal_code",
+    "city",
+    "country",
+  ],
+  phone: ["formatted", "e164", "type"],
+  plates: ["plate", "region"],
+  email: ["email", "local_part", "domain"],
+  company: ["full_name", "name", "legal_form"],
+  card: [
+    "number",
+    "formatted",
+    "network",
+    "expiry",
+    "expiry_month",
+    "expiry_year",
+    "expired",
+    "cvv",
+  ],
+  guid: ["guid"],
+  string: ["value"],
+  iban: ["iban", "formatted"],
+  pesel: ["pesel"],
+  nip: ["nip", "formatted", "vat_id"],
+  regon: ["regon"],
+  steuerid: ["steuer_id", "formatted"],
+  svnr: ["svnr", "formatted"],
+};
+
+export const DATASET_COLUMN_KINDS = Object.keys(
+  DATASET_FIELDS,
+) as DatasetColumnKind[];
+
+interface DatasetPerson {
+  full_name: string;
+  first_name: string;
+  last_name: string;
+  birth_date: string;
+  sex: Sex;
+}
+
+function createPerson(
+  rng: () => number,
+  country: LocalDataCountry,
+): DatasetPerson {
+  const name = pickOne(rng, FIRST_NAMES[country]);
+  const lastName = pickOne(rng, SURNAMES[country])[name.sex];
+  return {
+    full_name: `${name.first} ${lastName}`,
+    first_name: name.first,
+    last_name: lastName,
+    birth_date: randomBirthDate(rng),
+    sex: name.sex === "M" ? "male" : "female",
+  };
+}
+
+function generateColumnData(
+  column: DatasetColumn,
+  country: LocalDataCountry,
+  person: DatasetPerson,
+  seed: string,
+): object {
+  const rng = splitmix32(fnv1a32(seed));
+
+  switch (column.kind) {
+    case "person":
+      return person;
+    case "email":
+      return buildEmail(rng, person.first_name, person.last_name);
+    case "pesel":
+      return generatePesel(rng, person.birth_date, person.sex);
+    case "svnr":
+      return generateSvnr(rng, person.birth_date);
+    case "iban": {
+      const iban = generateIban(country, seed);
+      return { iban, formatted: toPrintIban(iban) };
+    }
+    default:
+      return generateData(column.kind, country, seed, column.options);
+  }
+}
+
+/**
+ * Build row `index` of a dataset
+ */
+export function buildDatasetRow(
+  request: Pick<DatasetRequest, "country" | "columns">,
+  seed: string,
+  index: number,
+): DatasetRow {
+  const rowSeed = deriveBulkSeed(seed, index);
+  const person = createPerson(
+    splitmix32(fnv1a32(`${rowSeed}#person`)),
+    request.country,
+  );
+
+  const row: DatasetRow = {};
+  for (const column of request.columns) {
+    const data = generateColumnData(
+      column,
+      request.country,
+      person,
+      `${rowSeed}:${column.name}`,
+    ) as Record<string, DatasetValue | undefined>;
+    row[column.name] =
+      data[column.field ?? DATASET_FIELDS[column.kind][0]] ?? null;
+  }
+  return row;
+}
+
+/**
+ * Lazily generate the rows of a dataset
+ */
+export function* generateDataset(
+  request: Pick<DatasetRequest, "country" | "columns" | "count">,
+  seed: string,
+): Generator<DatasetRow> {
+  for (let index = 0; index < request.count; index++) {
+    yield buildDatasetRow(request, seed, index);
+  }
+}
@@ -0,0 +1,189 @@
+import { describe, it, expect } from "vitest";
+import type { DraftDTO } from "../../types/types";
+import {
+  DRAFT_TTL_MS,
+  createDraft,
+  deleteDraft,
+  getDraft,
+  listDrafts,
+  purgeExpiredDrafts,
+  updateDraft,
+} from "./draft.service";
+import { createSupabaseMock } from "../../test/supabase-mock";
+
+const now = new Date("2026-01-10T12:00:00.000Z");
+const expected = new Date(now.getTime() + DRAFT_TTL_MS).toISOString();
+
+const draft: DraftDTO = {
+  id: "33333333-3333-4333-8333-333333333333",
+  user_id: "user-1",
+  template_id: null,
+  title: "Login fails",
+  content: { values: { title: "Login fails" } },
+  expires_at: expected,
+  created_at: "2026-01-10T12:00:00.000Z",
+  updated_at: "2026-01-10T12:00:00.000Z",
+};
+
+describe("draft.service", () => {
+  describe("purgeExpiredDrafts", () => {
+    it("deletes the user's drafts past expires_at", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: [{ id: "a" }, { id: "b" }], error: null },
+      ]);
+
+      const removed = await purgeExpiredDrafts(supabase, "user-1", now);
+
+      expect(removed).toBe(2);
+      expect(builder.delete).toHaveBeenCalled();
+      expect(builder.eq).toHaveBeenCalledWith("user_id", "user-1");
+      expect(builder.lt).toHaveBeenCalledWith(
+        "expires_at",
+        "2026-01-10T12:00:00.000Z",
+      );
+    });
+  });
+
+  describe("listDrafts", () => {
+    it("purges expired drafts and hides them on the first page", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: [], error: null },
+        { data: [draft], error: null },
+      ]);
+
+      const page = await listDrafts(supabase, "user-1", { limit: 20 }, now);
+
+      expect(page.items).toEqual([draft]);
+      expect(page.next_cursor).toBeUndefined();
+      expect(builder.lt).toHaveBeenCalledTimes(1);
+      expect(builder.or).toHaveBeenCalledWith(
+        "expires_at.is.null,expires_at.gt.2026-01-10T12:00:00.000Z",
+      );
+    });
+
+    it("skips the purge on later pages and filters by template", async () => {
+      const templateId = "11111111-1111-4111-8111-111111111111";
+      const { supabase, builder } = createSupabaseMock([
+        { data: [draft, { ...draft, id: "x" }], error: null },
+      ]);
+
+      const page = await listDrafts(
+        supabase,
+        "user-1",
+        {
+          limit: 1,
+          after: `2026-01-11T00:00:00.000Z,${draft.id}`,
+          template_id: templateId,
+        },
+        now,
+      );
+
+      expect(builder.lt).not.toHaveBeenCalled();
+      expect(builder.eq).toHaveBeenCalledWith("template_id", templateId);
+      expect(page.items).toHaveLength(1);
+      expect(page.next_cursor).toBe(`${draft.updated_at},${draft.id}`);
+    });
+  });
+
+  describe("getDraft", () => {
+    it("throws NOT_FOUND for missing or expired drafts", async () => {
+      const { supabase } = createSupabaseMock([
+        { data: null, error: { code: "PGRST116", message: "no rows" } },
+      ]);
+
+      await expect(
+        getDraft(supabase, "user-1", draft.id, now),
+      ).rejects.toMatchObject({ code: "NOT_FOUND", status: 404 });
+    });
+  });
+
+  describe("createDraft", () => {
+    it("inserts the draft with a fresh expiry", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: draft, error: null },
+      ]);
+
+      const result = await createDraft(
+        supabase,
+        "user-1",
+        { title: draft.title, content: draft.content },
+        now,
+      );
+
+      expect(result).toEqual(draft);
+      expect(builder.insert).toHaveBeenCalledWith({
+        user_id: "user-1",
+        title: draft.title,
+        content: draft.content,
+        template_id: null,
+        expires_at: expected,
+      });
+    });
+
+    it("maps an unknown template to VALIDATION_ERROR", async () => {
+      const { supabase } = createSupabaseMock([
+        { data: null, error: { code: "23503", message: "fk violation" } },
+      ]);
+
+      await expect(
+        createDraft(supabase, "user-1", {
+          title: "x",
+          content: {},
+          template_id: "11111111-1111-4111-8111-111111111111",
+        }),
+      ).rejects.toMatchObject({ code: "VALIDATION_ERROR", status: 400 });
+    });
+  });
+
+  describe("updateDraft", () => {
+    it("updates only provided fields and extends the expiry", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: draft, error: null },
+      ]);
+
+      await updateDraft(
+        supabase,
+        "user-1",
+        draft.id,
+        { content: { values: {} } },
+        now,
+      );
+
+      expect(builder.update).toHaveBeenCalledWith({
+        content: { values: {} },
+        expires_at: expected,
+      });
+      expect(builder.eq).toHaveBeenCalledWith("user_id", "user-1");
+    });
+
+    it("throws NOT_FOUND when the draft is gone", async () => {
+      const { supabase } = createSupabaseMock([
+        { data: null, error: { code: "PGRST116", message: "no rows" } },
+      ]);
+
+      await expect(
+        updateDraft(supabase, "user-1", draft.id, { title: "x" }),
+      ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    });
+  });
+
+  describe("deleteDraft", () => {
+    it("throws NOT_FOUND when nothing was deleted", async () => {
+      const { supabase } = createSupabaseMock([{ data: [], error: null }]);
+
+      await expect(
+        deleteDraft(supabase, "user-1", draft.id),
+      ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    });
+
+    it("resolves when the draft was deleted", async () => {
+      const { supabase } = createSupabaseMock([
+        { data: [{ id: draft.id }], error: null },
+      ]);
+
+      await expect(
+        deleteDraft(supabase, "user-1", draft.id),
+      ).resolves.toBeUndefined();
+    });
+  });
+});
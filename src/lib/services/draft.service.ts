@@ -0,0 +1,238 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type {
+  CreateDraftCommand,
+  DraftDTO,
+  DraftsListResponse,
+  UpdateDraftCommand,
+} from "../../types/types";
+import { createAppError } from "../helpers/error.helper";
+import { keysetFilter, toKeysetPage } from "../helpers/keyset.helper";
+
+/**
+ * Draft Service: autosaved, in-progress bug reports.
+ *
+ * Every write pushes `expires_at` forward by DRAFT_TTL_MS, so a draft lives
+ * as long as someone keeps working on it. Expired drafts are hidden from
+ * reads and purged when the owner lists their drafts.
+ */
+
+type Supabase = SupabaseClient<Database>;
+
+export interface DraftListQuery {
+  after?: string;
+  limit: number;
+  template_id?: string;
+}
+
+/** Drafts expire 7 days after their last save */
+export const DRAFT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const PG_FOREIGN_KEY_VIOLATION = "23503";
+const PGRST_NO_ROWS = "PGRST116";
+
+function databaseError(message: string) {
+  return createAppError("DATABASE_ERROR", 500, message);
+}
+
+function notFound() {
+  return createAppError("NOT_FOUND", 404, "Draft not found");
+}
+
+function writeError(error: { code?: string; message: string }) {
+  if (error.code === PGRST_NO_ROWS) {
+    return notFound();
+  }
+  if (error.code === PG_FOREIGN_KEY_VIOLATION) {
+    return createAppError("VALIDATION_ERROR", 400, "Template not found");
+  }
+  return databaseError(error.message);
+}
+
+function expiresAt(now: Date): string {
+  return new Date(now.getTime() + DRAFT_TTL_MS).toISOString();
+}
+
+function notExpiredFilter(now: Date): string {
+  return `expires_at.is.null,expires_at.gt.${now.toISOString()}`;
+}
+
+/**
+ * Delete the user's drafts whose expires_at has passed
+ * @returns number of removed drafts
+ */
+export async function purgeExpiredDrafts(
+  supabase: Supabase,
+  userId: string,
+  now: Date = new Date(),
+): Promise<number> {
+  const { data, error } = await supabase
+    .from("drafts")
+    .delete()
+    .eq("user_id", userId)
+    .lt("expires_at", now.toISOString())
+    .select("id");
+
+  if (error) {
+    throw databaseError(error.message);
+  }
+
+  return data?.length ?? 0;
+}
+
+/**
+ * List the user's live drafts, most recently saved first.
+ * Expired drafts are purged before the first page is read.
+ */
+export async function listDrafts(
+  supabase: Supabase,
+  userId: string,
+  query: DraftListQuery,
+  now: Date = new Date(),
+): Promise<DraftsListResponse> {
+  if (!query.after) {
+    await purgeExpiredDrafts(supabase, userId, now);
+  }
+
+  let builder = supabase
+    .from("drafts")
+    .select("*")
+    .eq("user_id", userId)
+    .or(notExpiredFilter(now));
+
+  if (query.template_id) {
+    builder = builder.eq("template_id", query.template_id);
+  }
+
+  if (query.after) {
+    builder = builder.or(keysetFilter("updated_at", query.after));
+  }
+
+  // Fetch limit + 1 to determine if there's a next page
+  const { data, error } = await builder
+    .order("updated_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(query.limit + 1);
+
+  if (error) {
+    throw databaseError(error.message);
+  }
+
+  return toKeysetPage(
+    data as DraftDTO[] | null,
+    query.limit,
+    (draft) => `${draft.updated_at},${draft.id}`,
+  );
+}
+
+/**
+ * Fetch a single live draft owned by the user
+ * @throws AppError NOT_FOUND when missing, expired or owned by someone else
+ */
+export async function getDraft(
+  supabase: Supabase,
+  userId: string,
+  id: string,
+  now: Date = new Date(),
+): Promise<DraftDTO> {
+  const { data, error } = await supabase
+    .from("drafts")
+    .select("*")
+    .eq("id", id)
+    .eq("user_id", userId)
+    .or(notExpiredFilter(now))
+    .single();
+
+  if (error) {
+    if (error.code === PGRST_NO_ROWS) {
+      throw notFound();
+    }
+    throw databaseError(error.message);
+  }
+
+  return data as DraftDTO;
+}
+
+/**
+ * Create a draft
+ * @throws AppError VALIDATION_ERROR when template_id does not exist
+ */
+export async function createDraft(
+  supabase: Supabase,
+  userId: string,
+  cmd: CreateDraftCommand,
+  now: Date = new Date(),
+): Promise<DraftDTO> {
+  const { data, error } = await supabase
+    .from("drafts")
+    .insert({
+      user_id: userId,
+      title: cmd.title,
+      content: cmd.content,
+      template_id: cmd.template_id ?? null,
+      expires_at: expiresAt(now),
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw error ? writeError(error) : databaseError("Failed to create draft");
+  }
+
+  return data as DraftDTO;
+}
+
+/**
+ * Update a draft and extend its expiry (last write wins)
+ * @throws AppError NOT_FOUND when missing or owned by someone else
+ */
+export async function updateDraft(
+  supabase: Supabase,
+  userId: string,
+  id: string,
+  cmd: UpdateDraftCommand,
+  now: Date = new Date(),
+): Promise<DraftDTO> {
+  const { data, error } = await supabase
+    .from("drafts")
+    .update({
+      ...(cmd.title !== undefined && { title: cmd.title }),
+      ...(cmd.content !== undefined && { content: cmd.content }),
+      ...(cmd.template_id !== undefined && { template_id: cmd.template_id }),
+      expires_at: expiresAt(now),
+    })
+    .eq("id", id)
+    .eq("user_id", userId)
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw error ? writeError(error) : notFound();
+  }
+
+  return data as DraftDTO;
+}
+
+/**
+ * Delete a draft owned by the user
+ * @throws AppError NOT_FOUND when missing or owned by someone else
+ */
+export async function deleteDraft(
+  supabase: Supabase,
+  userId: string,
+  id: string,
+): Promise<void> {
+  const { data, error } = await supabase
+    .from("drafts")
+    .delete()
+    .eq("id", id)
+    .eq("user_id", userId)
+    .select("id");
+
+  if (error) {
+    throw databaseError(error.message);
+  }
+  if (!data || data.length === 0) {
+    throw notFound();
+  }
+}
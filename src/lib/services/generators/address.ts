@@ -0,0 +1,66 @@
+import { pickOne, randomInt } from "../../utils/number.js";
+import type { LocalDataCountry } from "../../../types/types";
+import { CITIES, STREETS } from "./locale-data";
+
+export interface AddressData {
+  street: string;
+  building: string;
+  apartment: string | null;
+  postal_code: string;
+  city: string;
+  country: LocalDataCountry;
+  formatted: string;
+}
+
+/**
+ * Format a numeric postal code according to the national convention
+ * - PL: NN-NNN
+ * - DE: NNNNN
+ * - AT: NNNN
+ */
+export function formatPostalCode(
+  country: LocalDataCountry,
+  value: number,
+): string {
+  switch (country) {
+    case "PL": {
+      const digits = String(value).padStart(5, "0");
+      return `${digits.slice(0, 2)}-${digits.slice(2)}`;
+    }
+    case "DE":
+      return String(value).padStart(5, "0");
+    case "AT":
+      return String(value).padStart(4, "0");
+  }
+}
+
+/**
+ * Generate a postal address for the given country
+ */
+export function generateAddress(
+  rng: () => number,
+  country: LocalDataCountry,
+): AddressData {
+  const streetName = pickOne(rng, STREETS[country]);
+  const city = pickOne(rng, CITIES[country]);
+  const building = String(randomInt(rng, 1, 199));
+  // Roughly every other address gets an apartment number
+  const apartment = rng() % 2 === 0 ? String(randomInt(rng, 1, 60)) : null;
+  const postalCode = formatPostalCode(
+    country,
+    randomInt(rng, city.postalRange[0], city.postalRange[1]),
+  );
+
+  const street = country === "PL" ? `ul. ${streetName}` : streetName;
+  const number = apartment ? `${building}/${apartment}` : building;
+
+  return {
+    street,
+    building,
+    apartment,
+    postal_code: postalCode,
+    city: city.name,
+    country,
+    formatted: `${street} ${number}, ${postalCode} ${city.name}`,
+  };
+}
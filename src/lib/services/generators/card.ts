@@ -0,0 +1,72 @@
+import { generateDigits, pickOne, randomInt } from "../../utils/number.js";
+import { calculateLuhnCheckDigit } from "../../utils/luhn.js";
+import { CARD_NETWORKS, CARD_NETWORK_IDS } from "../../utils/card-networks.js";
+import type { CardExpiry, CardNetwork } from "../../../types/types";
+
+export interface CardData {
+  number: string;
+  formatted: string;
+  network: CardNetwork;
+  /** MM/YY as printed on the card */
+  expiry: string;
+  expiry_month: number;
+  expiry_year: number;
+  expired: boolean;
+  cvv: string;
+}
+
+/** Expiry offsets in months from the current month */
+const VALID_EXPIRY_MONTHS: [number, number] = [1, 60];
+const EXPIRED_EXPIRY_MONTHS: [number, number] = [-36, -1];
+
+/**
+ * Group card digits for display: 4-6-5 for Amex, blocks of four otherwise
+ */
+export function formatCardNumber(
+  number: string,
+  network?: CardNetwork,
+): string {
+  if (network === "amex" && number.length === 15) {
+    return number.replace(/^(\d{4})(\d{6})(\d{5})$/, "$1 $2 $3");
+  }
+  return number.replace(/(.{4})(?=.)/g, "$1 ");
+}
+
+/**
+ * Generate a Luhn-valid test card number with expiry date and CVV
+ * Card data is country-agnostic; issuer ranges are global. The expiry is
+ * an offset from the month of `now`, so seeded output shifts with time.
+ */
+export function generateCard(
+  rng: () => number,
+  network: CardNetwork = pickOne(rng, CARD_NETWORK_IDS),
+  expiry: CardExpiry = "valid",
+  now: Date = new Date(),
+): CardData {
+  const spec = CARD_NETWORKS[network];
+  const [from, to] = pickOne(rng, spec.ranges);
+  const prefix = String(randomInt(rng, from, to));
+  const length = pickOne(rng, spec.lengths);
+  const payload = prefix + generateDigits(rng, length - prefix.length - 1);
+  const number = payload + String(calculateLuhnCheckDigit(payload));
+
+  const [minOffset, maxOffset] =
+    expiry === "valid" ? VALID_EXPIRY_MONTHS : EXPIRED_EXPIRY_MONTHS;
+  const month =
+    now.getUTCFullYear() * 12 +
+    now.getUTCMonth() +
+    randomInt(rng, minOffset, maxOffset);
+  const expiryYear = Math.floor(month / 12);
+  const expiryMonth = (month % 12) + 1;
+
+  return {
+    number,
+    formatted: formatCardNumber(number, network),
+    network,
+    expiry: `${String(expiryMonth).padStart(2, "0")}/${String(expiryYear % 100).padStart(2, "0")}`,
+    expiry_month: expiryMonth,
+    expiry_year: expiryYear,
+    expired: expiry === "expired",
+    cvv: generateDigits(rng, spec.cvvLength),
+  };
+}
@@ -0,0 +1,43 @@
+import { pickOne } from "../../utils/number.js";
+import type { LocalDataCountry } from "../../../types/types";
+import { SURNAMES } from "./locale-data";
+
+export interface CompanyData {
+  name: string;
+  legal_form: string;
+  full_name: string;
+  country: LocalDataCountry;
+}
+
+const LEGAL_FORMS: Record<LocalDataCountry, readonly string[]> = {
+  PL: ["Sp. z o.o.", "S.A.", "Sp. j.", "Sp. k."],
+  DE: ["GmbH", "AG", "GmbH & Co. KG", "KG", "UG (haftungsbeschränkt)"],
+  AT: ["GmbH", "AG", "OG", "KG", "e.U."],
+};
+
+const INDUSTRY_WORDS: Record<LocalDataCountry, readonly string[]> = {
+  PL: ["Budowa", "Transport", "Systemy", "Handel", "Technologie", "Serwis"],
+  DE: ["Bau", "Logistik", "Systeme", "Handel", "Technik", "Service"],
+  AT: ["Bau", "Logistik", "Systeme", "Handel", "Technik", "Service"],
+};
+
+/**
+ * Generate a company name with a country-specific legal form
+ */
+export function generateCompany(
+  rng: () => number,
+  country: LocalDataCountry,
+): CompanyData {
+  const surname = pickOne(rng, SURNAMES[country]).M;
+  const industry = pickOne(rng, INDUSTRY_WORDS[country]);
+  const legalForm = pickOne(rng, LEGAL_FORMS[country]);
+  const name =
+    country === "PL" ? `${industry} ${surname}` : `${surname} ${industry}`;
+
+  return {
+    name,
+    legal_form: legalForm,
+    full_name: `${name} ${legalForm}`,
+    country,
+  };
+}
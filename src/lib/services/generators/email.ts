@@ -0,0 +1,74 @@
+import { pickOne } from "../../utils/number.js";
+import type { LocalDataCountry } from "../../../types/types";
+import { EMAIL_DOMAINS, FIRST_NAMES, SURNAMES } from "./locale-data";
+
+export interface EmailData {
+  email: string;
+  local_part: string;
+  domain: string;
+  first_name: string;
+  last_name: string;
+}
+
+// Transliterations that NFD decomposition does not cover (or covers differently)
+const TRANSLITERATIONS: Record<string, string> = {
+  ł: "l",
+  ß: "ss",
+  ä: "ae",
+  ö: "oe",
+  ü: "ue",
+};
+
+/**
+ * Convert a personal name to an ASCII-only email token
+ * (e.g. "Wiśniewska" → "wisniewska", "Müller" → "mueller")
+ */
+export function toEmailToken(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[łßäöü]/g, (char) => TRANSLITERATIONS[char])
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Build an email address from a first and last name
+ * Shared with other generators that need an email consistent with a person.
+ */
+export function buildEmail(
+  rng: () => number,
+  firstName: string,
+  lastName: string,
+): EmailData {
+  const first = toEmailToken(firstName);
+  const last = toEmailToken(lastName);
+  const patterns = [
+    `${first}.${last}`,
+    `${first[0]}.${last}`,
+    `${first}${last}`,
+    `${first}.${last}${rng() % 100}`,
+  ];
+  const localPart = pickOne(rng, patterns);
+  const domain = pickOne(rng, EMAIL_DOMAINS);
+
+  return {
+    email: `${localPart}@${domain}`,
+    local_part: localPart,
+    domain,
+    first_name: firstName,
+    last_name: lastName,
+  };
+}
+
+/**
+ * Generate an email address derived from a random local name
+ */
+export function generateEmail(
+  rng: () => number,
+  country: LocalDataCountry,
+): EmailData {
+  const person = pickOne(rng, FIRST_NAMES[country]);
+  const surname = pickOne(rng, SURNAMES[country])[person.sex];
+  return buildEmail(rng, person.first, surname);
+}
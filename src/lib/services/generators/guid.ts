@@ -0,0 +1,28 @@
+export interface GuidData {
+  guid: string;
+}
+
+/**
+ * Generate an RFC 4122 version 4 GUID from the provided RNG
+ * Using the seeded RNG (instead of crypto.randomUUID) keeps output reproducible.
+ */
+export function generateGuid(rng: () => number): GuidData {
+  const bytes: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const value = rng();
+    bytes.push(
+      (value >>> 24) & 0xff,
+      (value >>> 16) & 0xff,
+      (value >>> 8) & 0xff,
+      value & 0xff,
+    );
+  }
+
+  bytes[6] = (bytes[6] & 0x0f) | 0x40; // version 4
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant
+
+  const hex = bytes.map((b) => b.toString(16).padStart(2, "0")).join("");
+  return {
+    guid: `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`,
+  };
+}
@@ -0,0 +1,250 @@
+import { describe, it, expect } from "vitest";
+import { generateData, GENERATOR_KINDS } from "./index";
+import { toEmailToken } from "./email";
+import { formatPostalCode } from "./address";
+import { formatCardNumber, generateCard } from "./card";
+import { isValidLuhn } from "../../utils/luhn";
+import { validateCard } from "../../utils/card-validator";
+import { splitmix32 } from "../../utils/number";
+import { validateNationalId } from "../../utils/national-id";
+import type { LocalDataCountry } from "../../../types/types";
+
+const COUNTRIES: LocalDataCountry[] = ["PL", "DE", "AT"];
+type GeneratedRecord = Record<string, unknown>;
+
+function generate(
+  kind: (typeof GENERATOR_KINDS)[number],
+  country: LocalDataCountry,
+  seed: string,
+  options = {},
+): GeneratedRecord {
+  return generateData(
+    kind,
+    country,
+    seed,
+    options,
+  ) as unknown as GeneratedRecord;
+}
+
+describe("Generic data generators", () => {
+  describe("determinism", () => {
+    it.each(GENERATOR_KINDS)(
+      "should return identical %s data for the same seed",
+      (kind) => {
+        for (const country of COUNTRIES) {
+          expect(generateData(kind, country, "seed-1")).toEqual(
+            generateData(kind, country, "seed-1"),
+          );
+        }
+      },
+    );
+
+    it("should return different data for different seeds", () => {
+      expect(generateData("guid", "PL", "a")).not.toEqual(
+        generateData("guid", "PL", "b"),
+      );
+    });
+  });
+
+  describe("address", () => {
+    it("should format PL postal codes as NN-NNN", () => {
+      for (let i = 0; i < 20; i++) {
+        const data = generate("address", "PL", `pl-${i}`);
+        expect(data.postal_code).toMatch(/^\d{2}-\d{3}$/);
+        expect(data.street).toMatch(/^ul\. /);
+        expect(data.formatted).toContain(data.city as string);
+      }
+    });
+
+    it("should use country-specific postal code lengths", () => {
+      expect(formatPostalCode("PL", 1234)).toBe("01-234");
+      expect(formatPostalCode("DE", 1067)).toBe("01067");
+      expect(formatPostalCode("AT", 1010)).toBe("1010");
+    });
+  });
+
+  describe("phone", () => {
+    it.each([
+      ["PL", /^\+48\d{9}$/],
+      ["DE", /^\+49\d{9,11}$/],
+      ["AT", /^\+43\d{8,10}$/],
+    ] as const)("should produce E.164 numbers for %s", (country, pattern) => {
+      for (let i = 0; i < 20; i++) {
+        expect(generate("phone", country, `p-${i}`).e164).toMatch(pattern);
+      }
+    });
+  });
+
+  describe("plates", () => {
+    it.each([
+      ["PL", /^[A-Z]{2} \d{5}$/],
+      ["DE", /^[A-Z]{1,2}-[A-Z]{1,2} [1-9]\d{0,3}$/],
+      ["AT", /^[A-Z] [1-9]\d{2,3} [A-Z]{2}$/],
+    ] as const)("should follow the %s plate format", (country, pattern) => {
+      for (let i = 0; i < 20; i++) {
+        expect(generate("plates", country, `r-${i}`).plate).toMatch(pattern);
+      }
+    });
+  });
+
+  describe("email", () => {
+    it("should transliterate diacritics", () => {
+      expect(toEmailToken("Wiśniewska")).toBe("wisniewska");
+      expect(toEmailToken("Paweł")).toBe("pawel");
+      expect(toEmailToken("Müller")).toBe("mueller");
+      expect(toEmailToken("Hauptstraße")).toBe("hauptstrasse");
+    });
+
+    it("should only use ASCII addresses on reserved domains", () => {
+      for (const country of COUNTRIES) {
+        for (let i = 0; i < 20; i++) {
+          const data = generate("email", country, `e-${i}`);
+          expect(data.email).toMatch(/^[a-z0-9.]+@example\.(com|org|net)$/);
+        }
+      }
+    });
+  });
+
+  describe("company", () => {
+    it("should append a legal form matching the country", () => {
+      const data = generate("company", "PL", "c");
+      expect(["Sp. z o.o.", "S.A.", "Sp. j.", "Sp. k."]).toContain(
+        data.legal_form,
+      );
+      expect(data.full_name).toBe(`${data.name} ${data.legal_form}`);
+    });
+  });
+
+  describe("card", () => {
+    const now = new Date(Date.UTC(2026, 9, 18));
+
+    it("should produce Luhn-valid numbers of the detected network", () => {
+      for (let i = 0; i < 40; i++) {
+        const data = generate("card", "PL", `card-${i}`);
+        expect(isValidLuhn(data.number as string)).toBe(true);
+        expect(validateCard(data.number as string)).toMatchObject({
+          valid: true,
+          network: data.network,
+        });
+      }
+    });
+
+    it.each([
+      ["visa", /^4(\d{15}|\d{18})$/, /^\d{3}$/],
+      ["mastercard", /^(5[1-5]|2[2-7])\d{14}$/, /^\d{3}$/],
+      ["amex", /^3[47]\d{13}$/, /^\d{4}$/],
+      ["maestro", /^(50|58|63|67)\d{10,17}$/, /^\d{3}$/],
+    ] as const)(
+      "should honour the %s network length and CVV",
+      (network, numberPattern, cvvPattern) => {
+        for (let i = 0; i < 20; i++) {
+          const data = generateCard(splitmix32(i), network, "valid", now);
+          expect(data.network).toBe(network);
+          expect(data.number).toMatch(numberPattern);
+          expect(data.cvv).toMatch(cvvPattern);
+        }
+      },
+    );
+
+    it("should group Amex numbers 4-6-5", () => {
+      expect(formatCardNumber("378282246310005", "amex")).toBe(
+        "3782 822463 10005",
+      );
+    });
+
+    it("should produce future or past expiry dates on request", () => {
+      for (let i = 0; i < 30; i++) {
+        const valid = generateCard(splitmix32(i), "visa", "valid", now);
+        const expired = generateCard(splitmix32(i), "visa", "expired", now);
+        const month = (data: typeof valid) =>
+          data.expiry_year * 12 + data.expiry_month - 1;
+
+        expect(month(valid)).toBeGreaterThan(2026 * 12 + 9);
+        expect(month(valid)).toBeLessThanOrEqual(2026 * 12 + 9 + 60);
+        expect(valid.expired).toBe(false);
+        expect(month(expired)).toBeLessThan(2026 * 12 + 9);
+        expect(expired.expired).toBe(true);
+        expect(valid.expiry).toMatch(/^(0[1-9]|1[0-2])\/\d{2}$/);
+      }
+    });
+
+    it("should format the expiry as MM/YY", () => {
+      const data = generateCard(splitmix32(1), "visa", "valid", now);
+      expect(data.expiry).toBe(
+        `${String(data.expiry_month).padStart(2, "0")}/${String(data.expiry_year).slice(2)}`,
+      );
+    });
+  });
+
+  describe("guid", () => {
+    it("should produce RFC 4122 version 4 GUIDs", () => {
+      for (let i = 0; i < 20; i++) {
+        expect(generate("guid", "PL", `g-${i}`).guid).toMatch(
+          /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+        );
+      }
+    });
+  });
+
+  describe("string", () => {
+    it("should default to 16 alphanumeric characters", () => {
+      const data = generate("string", "PL", "s");
+      expect(data.value).toMatch(/^[A-Za-z0-9]{16}$/);
+      expect(data.charset).toBe("alphanumeric");
+    });
+
+    it("should honour length and charset options", () => {
+      const data = generate("string", "PL", "s", {
+        length: 40,
+        charset: "numeric",
+      });
+      expect(data.value).toMatch(/^\d{40}$/);
+    });
+  });
+
+  describe("national identifiers", () => {
+    it.each(["pesel", "nip", "regon", "steuerid", "svnr"] as const)(
+      "should produce valid %s numbers",
+      (kind) => {
+        for (let i = 0; i < 50; i++) {
+          const data = generate(kind, "PL", `${kind}-${i}`);
+          const value = Object.values(data)[0] as string;
+          expect(validateNationalId(kind, value)).toMatchObject({
+            valid: true,
+          });
+        }
+      },
+    );
+
+    it("should encode the requested PESEL birth date and sex", () => {
+      for (const sex of ["male", "female"] as const) {
+        const data = generate("pesel", "PL", `p-${sex}`, {
+          birthDate: "2003-07-09",
+          sex,
+        });
+        expect(data).toMatchObject({ birth_date: "2003-07-09", sex });
+        expect(validateNationalId("pesel", data.pesel as string)).toMatchObject(
+          { valid: true, birth_date: "2003-07-09", sex },
+        );
+      }
+    });
+
+    it("should generate REGON-14 local units on request", () => {
+      const data = generate("regon", "PL", "r", { length: 14 });
+      expect(data.regon).toMatch(/^\d{14}$/);
+      expect(data.length).toBe(14);
+    });
+
+    it("should format NIP, Steuer-IdNr and SVNR", () => {
+      expect(generate("nip", "PL", "n").formatted).toMatch(
+        /^\d{3}-\d{3}-\d{2}-\d{2}$/,
+      );
+      expect(generate("steuerid", "DE", "s").formatted).toMatch(
+        /^[1-9]\d \d{3} \d{3} \d{3}$/,
+      );
+      expect(
+        generate("svnr", "AT", "v", { birthDate: "1980-01-01" }).formatted,
+      ).toMatch(/^[1-9]\d{3} 010180$/);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { fnv1a32, splitmix32 } from "../../utils/number.js";
+import type {
+  CardExpiry,
+  CardNetwork,
+  GeneratorKind,
+  LocalDataCountry,
+  NationalIdKind,
+  Sex,
+  StringCharset,
+} from "../../../types/types";
+import { generateAddress } from "./address";
+import { generateCard } from "./card";
+import { generateCompany } from "./company";
+import { generateEmail } from "./email";
+import { generateGuid } from "./guid";
+import { generateNip } from "./nip";
+import { generatePesel } from "./pesel";
+import { generatePhone } from "./phone";
+import { generatePlate } from "./plates";
+import { generateRegon } from "./regon";
+import { generateSteuerId } from "./steuerid";
+import { generateString } from "./string";
+import { generateSvnr } from "./svnr";
+import type { AddressData } from "./address";
+import type { CardData } from "./card";
+import type { CompanyData } from "./company";
+import type { EmailData } from "./email";
+import type { GuidData } from "./guid";
+import type { NipData } from "./nip";
+import type { PeselData } from "./pesel";
+import type { PhoneData } from "./phone";
+import type { PlateData } from "./plates";
+import type { RegonData, RegonLength } from "./regon";
+import type { SteuerIdData } from "./steuerid";
+import type { StringData } from "./string";
+import type { SvnrData } from "./svnr";
+
+/**
+ * Generic data generators for the "local data" generator kinds.
+ * Every kind shares the IBAN seed pipeline (fnv1a32 → splitmix32), so the
+ * same kind/country/seed/options combination always yields the same data.
+ */
+
+export const GENERATOR_KINDS: readonly GeneratorKind[] = [
+  "address",
+  "phone",
+  "plates",
+  "email",
+  "company",
+  "card",
+  "guid",
+  "string",
+  "pesel",
+  "nip",
+  "regon",
+  "steuerid",
+  "svnr",
+];
+
+/**
+ * Country each national identifier belongs to; these kinds ignore the
+ * requested country
+ */
+export const NATIONAL_ID_COUNTRIES: Record<NationalIdKind, LocalDataCountry> = {
+  pesel: "PL",
+  nip: "PL",
+  regon: "PL",
+  steuerid: "DE",
+  svnr: "AT",
+};
+
+export type GeneratedData =
+  | AddressData
+  | PhoneData
+  | PlateData
+  | EmailData
+  | CompanyData
+  | CardData
+  | GuidData
+  | StringData
+  | PeselData
+  | NipData
+  | RegonData
+  | SteuerIdData
+  | SvnrData;
+
+export interface GenerateDataOptions {
+  /** "string": 1-256, "regon": 9 or 14 */
+  length?: number;
+  charset?: StringCharset;
+  /** YYYY-MM-DD, "pesel" and "svnr" only */
+  birthDate?: string;
+  /** "pesel" only */
+  sex?: Sex;
+  /** "card" only */
+  network?: CardNetwork;
+  /** "card" only */
+  expiry?: CardExpiry;
+}
+
+/**
+ * Generate data for the given kind
+ * @param kind - Generator kind
+ * @param country - Country used for locale-specific kinds (ignored by card/guid/string
+ *   and the national identifiers, see NATIONAL_ID_COUNTRIES)
+ * @param seed - Optional seed for deterministic output
+ * @param options - Kind-specific options ("string", "regon", "pesel", "svnr", "card")
+ */
+export function generateData(
+  kind: GeneratorKind,
+  country: LocalDataCountry,
+  seed?: string,
+  options: GenerateDataOptions = {},
+): GeneratedData {
+  const rng = splitmix32(fnv1a32(seed ?? crypto.randomUUID()));
+
+  switch (kind) {
+    case "address":
+      return generateAddress(rng, country);
+    case "phone":
+      return generatePhone(rng, country);
+    case "plates":
+      return generatePlate(rng, country);
+    case "email":
+      return generateEmail(rng, country);
+    case "company":
+      return generateCompany(rng, country);
+    case "card":
+      return generateCard(rng, options.network, options.expiry);
+    case "guid":
+      return generateGuid(rng);
+    case "string":
+      return generateString(rng, options.length, options.charset);
+    case "pesel":
+      return generatePesel(rng, options.birthDate, options.sex);
+    case "nip":
+      return generateNip(rng);
+    case "regon":
+      return generateRegon(rng, options.length as RegonLength | undefined);
+    case "steuerid":
+      return generateSteuerId(rng);
+    case "svnr":
+      return generateSvnr(rng, options.birthDate);
+  }
+}
+
+export {
+  generateAddress,
+  generateCard,
+  generateCompany,
+  generateEmail,
+  generateGuid,
+  generateNip,
+  generatePesel,
+  generatePhone,
+  generatePlate,
+  generateRegon,
+  generateSteuerId,
+  generateString,
+  generateSvnr,
+};
@@ -0,0 +1,164 @@
+import type { LocalDataCountry } from "../../../types/types";
+
+/**
+ * Static locale dictionaries for the generic data generators.
+ * Values are intentionally small and realistic; they only need to look
+ * plausible in test fixtures, not to cover every real-world case.
+ */
+
+export interface CityEntry {
+  name: string;
+  /** Inclusive numeric range for postal codes (formatted per country) */
+  postalRange: [number, number];
+}
+
+export interface PersonName {
+  first: string;
+  sex: "F" | "M";
+}
+
+export interface Surname {
+  M: string;
+  F: string;
+}
+
+export const STREETS: Record<LocalDataCountry, readonly string[]> = {
+  PL: [
+    "Kwiatowa",
+    "Polna",
+    "Leśna",
+    "Słoneczna",
+    "Krótka",
+    "Szkolna",
+    "Ogrodowa",
+    "Lipowa",
+    "Brzozowa",
+    "Łąkowa",
+    "Mickiewicza",
+    "Kościuszki",
+  ],
+  DE: [
+    "Hauptstraße",
+    "Schulstraße",
+    "Gartenstraße",
+    "Bahnhofstraße",
+    "Dorfstraße",
+    "Bergstraße",
+    "Lindenstraße",
+    "Kirchstraße",
+    "Waldstraße",
+    "Ringstraße",
+  ],
+  AT: [
+    "Hauptstraße",
+    "Bahnhofstraße",
+    "Kirchengasse",
+    "Schulgasse",
+    "Mariahilfer Straße",
+    "Landstraße",
+    "Wiener Straße",
+    "Dorfstraße",
+  ],
+};
+
+export const CITIES: Record<LocalDataCountry, readonly CityEntry[]> = {
+  PL: [
+    { name: "Warszawa", postalRange: [0, 4999] },
+    { name: "Kraków", postalRange: [30000, 31999] },
+    { name: "Łódź", postalRange: [90000, 94999] },
+    { name: "Wrocław", postalRange: [50000, 54999] },
+    { name: "Poznań", postalRange: [60000, 61999] },
+    { name: "Gdańsk", postalRange: [80000, 80999] },
+    { name: "Lublin", postalRange: [20000, 20999] },
+  ],
+  DE: [
+    { name: "Berlin", postalRange: [10115, 14199] },
+    { name: "Hamburg", postalRange: [20095, 22769] },
+    { name: "München", postalRange: [80331, 81929] },
+    { name: "Köln", postalRange: [50667, 51149] },
+    { name: "Frankfurt am Main", postalRange: [60306, 60599] },
+    { name: "Stuttgart", postalRange: [70173, 70629] },
+  ],
+  AT: [
+    { name: "Wien", postalRange: [1010, 1230] },
+    { name: "Graz", postalRange: [8010, 8055] },
+    { name: "Linz", postalRange: [4020, 4040] },
+    { name: "Salzburg", postalRange: [5020, 5026] },
+    { name: "Innsbruck", postalRange: [6020, 6080] },
+  ],
+};
+
+export const FIRST_NAMES: Record<LocalDataCountry, readonly PersonName[]> = {
+  PL: [
+    { first: "Jan", sex: "M" },
+    { first: "Anna", sex: "F" },
+    { first: "Piotr", sex: "M" },
+    { first: "Katarzyna", sex: "F" },
+    { first: "Tomasz", sex: "M" },
+    { first: "Agnieszka", sex: "F" },
+    { first: "Paweł", sex: "M" },
+    { first: "Magdalena", sex: "F" },
+    { first: "Michał", sex: "M" },
+    { first: "Joanna", sex: "F" },
+  ],
+  DE: [
+    { first: "Lukas", sex: "M" },
+    { first: "Anna", sex: "F" },
+    { first: "Leon", sex: "M" },
+    { first: "Marie", sex: "F" },
+    { first: "Felix", sex: "M" },
+    { first: "Sophie", sex: "F" },
+    { first: "Jonas", sex: "M" },
+    { first: "Emma", sex: "F" },
+  ],
+  AT: [
+    { first: "Maximilian", sex: "M" },
+    { first: "Anna", sex: "F" },
+    { first: "David", sex: "M" },
+    { first: "Lena", sex: "F" },
+    { first: "Tobias", sex: "M" },
+    { first: "Sarah", sex: "F" },
+    { first: "Florian", sex: "M" },
+    { first: "Julia", sex: "F" },
+  ],
+};
+
+export const SURNAMES: Record<LocalDataCountry, readonly Surname[]> = {
+  PL: [
+    { M: "Kowalski", F: "Kowalska" },
+    { M: "Nowak", F: "Nowak" },
+    { M: "Wiśniewski", F: "Wiśniewska" },
+    { M: "Wójcik", F: "Wójcik" },
+    { M: "Kamiński", F: "Kamińska" },
+    { M: "Lewandowski", F: "Lewandowska" },
+    { M: "Zieliński", F: "Zielińska" },
+    { M: "Szymański", F: "Szymańska" },
+  ],
+  DE: [
+    { M: "Müller", F: "Müller" },
+    { M: "Schmidt", F: "Schmidt" },
+    { M: "Schneider", F: "Schneider" },
+    { M: "Fischer", F: "Fischer" },
+    { M: "Weber", F: "Weber" },
+    { M: "Meyer", F: "Meyer" },
+    { M: "Wagner", F: "Wagner" },
+    { M: "Becker", F: "Becker" },
+  ],
+  AT: [
+    { M: "Gruber", F: "Gruber" },
+    { M: "Huber", F: "Huber" },
+    { M: "Bauer", F: "Bauer" },
+    { M: "Wagner", F: "Wagner" },
+    { M: "Müller", F: "Müller" },
+    { M: "Pichler", F: "Pichler" },
+    { M: "Steiner", F: "Steiner" },
+    { M: "Moser", F: "Moser" },
+  ],
+};
+
+/** Reserved example domains (RFC 2606) so generated emails never reach real inboxes */
+export const EMAIL_DOMAINS: readonly string[] = [
+  "example.com",
+  "example.org",
+  "example.net",
+];
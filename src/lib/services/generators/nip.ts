@@ -0,0 +1,25 @@
+import { generateDigits, randomInt } from "../../utils/number.js";
+import { calculateNipCheckDigit, formatNip } from "../../utils/national-id.js";
+
+export interface NipData {
+  nip: string;
+  formatted: string;
+  vat_id: string;
+}
+
+/**
+ * Generate a Polish tax identification number (NIP)
+ * Payloads whose checksum is 10 have no check digit and are drawn again.
+ */
+export function generateNip(rng: () => number): NipData {
+  let payload: string;
+  let checkDigit: number;
+  do {
+    // Tax office codes never start with 0
+    payload = String(randomInt(rng, 1, 9)) + generateDigits(rng, 8);
+    checkDigit = calculateNipCheckDigit(payload);
+  } while (checkDigit === 10);
+
+  const nip = payload + String(checkDigit);
+  return { nip, formatted: formatNip(nip), vat_id: `PL${nip}` };
+}
@@ -0,0 +1,37 @@
+import { generateDigits, pickOne, randomInt } from "../../utils/number.js";
+import {
+  calculatePeselCheckDigit,
+  encodePeselDate,
+  randomBirthDate,
+} from "../../utils/national-id.js";
+import type { Sex } from "../../../types/types";
+
+export interface PeselData {
+  pesel: string;
+  birth_date: string;
+  sex: Sex;
+}
+
+/**
+ * Generate a PESEL encoding the given (or a random) birth date and sex
+ * The 10th digit is odd for men and even for women.
+ */
+export function generatePesel(
+  rng: () => number,
+  birthDate?: string,
+  sex?: Sex,
+): PeselData {
+  const resolvedBirthDate = birthDate ?? randomBirthDate(rng);
+  const resolvedSex = sex ?? pickOne<Sex>(rng, ["male", "female"]);
+  const sexDigit = randomInt(rng, 0, 4) * 2 + (resolvedSex === "male" ? 1 : 0);
+  const payload =
+    encodePeselDate(resolvedBirthDate) +
+    generateDigits(rng, 3) +
+    String(sexDigit);
+
+  return {
+    pesel: payload + String(calculatePeselCheckDigit(payload)),
+    birth_date: resolvedBirthDate,
+    sex: resolvedSex,
+  };
+}
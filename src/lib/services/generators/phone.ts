@@ -0,0 +1,124 @@
+import { generateDigits, pickOne } from "../../utils/number.js";
+import type { LocalDataCountry } from "../../../types/types";
+
+export type PhoneType = "mobile" | "landline";
+
+export interface PhoneData {
+  type: PhoneType;
+  e164: string;
+  formatted: string;
+  country: LocalDataCountry;
+}
+
+interface NumberPlan {
+  callingCode: string;
+  /** Mobile prefixes (national significant number without trunk prefix) */
+  mobilePrefixes: readonly string[];
+  /** Digits following a mobile prefix */
+  mobileSubscriberLength: number;
+  /** Area codes mapped to the subscriber number length */
+  areaCodes: readonly { code: string; subscriberLength: number }[];
+}
+
+const NUMBER_PLANS: Record<LocalDataCountry, NumberPlan> = {
+  PL: {
+    callingCode: "48",
+    mobilePrefixes: [
+      "50",
+      "51",
+      "53",
+      "57",
+      "60",
+      "66",
+      "69",
+      "72",
+      "78",
+      "88",
+    ],
+    mobileSubscriberLength: 7,
+    areaCodes: [
+      { code: "22", subscriberLength: 7 },
+      { code: "12", subscriberLength: 7 },
+      { code: "42", subscriberLength: 7 },
+      { code: "71", subscriberLength: 7 },
+      { code: "61", subscriberLength: 7 },
+      { code: "58", subscriberLength: 7 },
+    ],
+  },
+  DE: {
+    callingCode: "49",
+    mobilePrefixes: ["151", "152", "157", "160", "170", "171", "176", "179"],
+    mobileSubscriberLength: 8,
+    areaCodes: [
+      { code: "30", subscriberLength: 8 },
+      { code: "40", subscriberLength: 8 },
+      { code: "89", subscriberLength: 8 },
+      { code: "221", subscriberLength: 7 },
+      { code: "69", subscriberLength: 8 },
+    ],
+  },
+  AT: {
+    callingCode: "43",
+    mobilePrefixes: ["650", "660", "664", "676", "680", "699"],
+    mobileSubscriberLength: 7,
+    areaCodes: [
+      { code: "1", subscriberLength: 7 },
+      { code: "316", subscriberLength: 6 },
+      { code: "732", subscriberLength: 6 },
+      { code: "662", subscriberLength: 6 },
+    ],
+  },
+};
+
+/**
+ * Group digits for display
+ * PL numbers (always 9 digits) use the familiar 3-3-3 grouping;
+ * DE/AT separate the area/mobile prefix from the subscriber number.
+ */
+function formatNational(
+  country: LocalDataCountry,
+  prefix: string,
+  subscriber: string,
+): string {
+  if (country === "PL") {
+    const nsn = prefix + subscriber;
+    return `${nsn.slice(0, 3)} ${nsn.slice(3, 6)} ${nsn.slice(6)}`;
+  }
+  return `${prefix} ${subscriber}`;
+}
+
+/**
+ * Generate a phone number for the given country
+ *
+ * @param type - Optional number type; picked randomly when omitted
+ */
+export function generatePhone(
+  rng: () => number,
+  country: LocalDataCountry,
+  type?: PhoneType,
+): PhoneData {
+  const plan = NUMBER_PLANS[country];
+  const resolvedType: PhoneType =
+    type ?? (rng() % 3 === 0 ? "landline" : "mobile");
+
+  let prefix: string;
+  let subscriber: string;
+
+  if (resolvedType === "mobile") {
+    prefix = pickOne(rng, plan.mobilePrefixes);
+    subscriber = generateDigits(rng, plan.mobileSubscriberLength);
+  } else {
+    const area = pickOne(rng, plan.areaCodes);
+    prefix = area.code;
+    // Subscriber numbers never start with 0
+    subscriber =
+      String(1 + (rng() % 9)) + generateDigits(rng, area.subscriberLength - 1);
+  }
+
+  return {
+    type: resolvedType,
+    e164: `+${plan.callingCode}${prefix}${subscriber}`,
+    formatted: `+${plan.callingCode} ${formatNational(country, prefix, subscriber)}`,
+    country,
+  };
+}
@@ -0,0 +1,85 @@
+import { generateDigits, pickOne } from "../../utils/number.js";
+import type { LocalDataCountry } from "../../../types/types";
+
+export interface PlateData {
+  plate: string;
+  region: string;
+  country: LocalDataCountry;
+}
+
+interface RegionCode {
+  code: string;
+  region: string;
+}
+
+const REGION_CODES: Record<LocalDataCountry, readonly RegionCode[]> = {
+  PL: [
+    { code: "WA", region: "Warszawa" },
+    { code: "KR", region: "Kraków" },
+    { code: "EL", region: "Łódź" },
+    { code: "DW", region: "Wrocław" },
+    { code: "PO", region: "Poznań" },
+    { code: "GD", region: "Gdańsk" },
+    { code: "LU", region: "Lublin" },
+  ],
+  DE: [
+    { code: "B", region: "Berlin" },
+    { code: "HH", region: "Hamburg" },
+    { code: "M", region: "München" },
+    { code: "K", region: "Köln" },
+    { code: "F", region: "Frankfurt am Main" },
+    { code: "S", region: "Stuttgart" },
+  ],
+  AT: [
+    { code: "W", region: "Wien" },
+    { code: "G", region: "Graz" },
+    { code: "L", region: "Linz" },
+    { code: "S", region: "Salzburg" },
+    { code: "I", region: "Innsbruck" },
+  ],
+};
+
+// Letters that are not confused with digits on plates (no I, O, Q)
+const PLATE_LETTERS = "ABCDEFGHJKLMNPRSTUVWXYZ";
+
+function generateLetters(rng: () => number, length: number): string {
+  let result = "";
+  for (let i = 0; i < length; i++) {
+    result += PLATE_LETTERS[rng() % PLATE_LETTERS.length];
+  }
+  return result;
+}
+
+/**
+ * Generate a vehicle registration plate for the given country
+ * - PL: "WA 12345" (district code + 5 digits)
+ * - DE: "B-AB 1234" (district code, 1-2 letters, 1-4 digits)
+ * - AT: "W 4711 AB" (district code, 3-4 digits, 2 letters)
+ */
+export function generatePlate(
+  rng: () => number,
+  country: LocalDataCountry,
+): PlateData {
+  const { code, region } = pickOne(rng, REGION_CODES[country]);
+  let plate: string;
+
+  switch (country) {
+    case "PL":
+      plate = `${code} ${generateDigits(rng, 5)}`;
+      break;
+    case "DE": {
+      const letters = generateLetters(rng, 1 + (rng() % 2));
+      const digits = String(1 + (rng() % 9)) + generateDigits(rng, rng() % 4);
+      plate = `${code}-${letters} ${digits}`;
+      break;
+    }
+    case "AT": {
+      const digits =
+        String(1 + (rng() % 9)) + generateDigits(rng, 2 + (rng() % 2));
+      plate = `${code} ${digits} ${generateLetters(rng, 2)}`;
+      break;
+    }
+  }
+
+  return { plate, region, country };
+}
@@ -0,0 +1,29 @@
+import { generateDigits } from "../../utils/number.js";
+import { calculateRegonCheckDigit } from "../../utils/national-id.js";
+
+export type RegonLength = 9 | 14;
+
+export interface RegonData {
+  regon: string;
+  length: RegonLength;
+}
+
+/**
+ * Generate a Polish business register number
+ * REGON-14 identifies a local unit: the parent REGON-9 plus four digits
+ * and a second check digit.
+ */
+export function generateRegon(
+  rng: () => number,
+  length: RegonLength = 9,
+): RegonData {
+  const base = generateDigits(rng, 8);
+  let regon = base + String(calculateRegonCheckDigit(base));
+
+  if (length === 14) {
+    const unit = regon + generateDigits(rng, 4);
+    regon = unit + String(calculateRegonCheckDigit(unit));
+  }
+
+  return { regon, length };
+}
@@ -0,0 +1,34 @@
+import { randomInt } from "../../utils/number.js";
+import {
+  calculateSteuerIdCheckDigit,
+  formatSteuerId,
+} from "../../utils/national-id.js";
+
+export interface SteuerIdData {
+  steuer_id: string;
+  formatted: string;
+}
+
+/**
+ * Generate a German tax identification number (Steuerliche IdNr)
+ * The first ten digits use nine distinct digits, one of them twice.
+ */
+export function generateSteuerId(rng: () => number): SteuerIdData {
+  const digits = ["0", "1", "2", "3", "4", "5", "6", "7", "8", "9"];
+  // Fisher-Yates shuffle, then replace the last digit with a repeat
+  for (let i = digits.length - 1; i > 0; i--) {
+    const j = randomInt(rng, 0, i);
+    [digits[i], digits[j]] = [digits[j], digits[i]];
+  }
+  digits[9] = digits[randomInt(rng, 0, 8)];
+
+  // The number cannot start with 0; swap it with a later non-zero digit
+  if (digits[0] === "0") {
+    const swap = digits.findIndex((digit) => digit !== "0");
+    [digits[0], digits[swap]] = [digits[swap], digits[0]];
+  }
+
+  const payload = digits.join("");
+  const steuerId = payload + String(calculateSteuerIdCheckDigit(payload));
+  return { steuer_id: steuerId, formatted: formatSteuerId(steuerId) };
+}
@@ -0,0 +1,35 @@
+import type { StringCharset } from "../../../types/types";
+
+export interface StringData {
+  value: string;
+  length: number;
+  charset: StringCharset;
+}
+
+export const STRING_CHARSETS: Record<StringCharset, string> = {
+  alphanumeric:
+    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789",
+  alpha: "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz",
+  numeric: "0123456789",
+  hex: "0123456789abcdef",
+  symbols: "!@#$%^&*()-_=+[]{};:,.<>?/|~",
+};
+
+export const STRING_DEFAULT_LENGTH = 16;
+export const STRING_MAX_LENGTH = 256;
+
+/**
+ * Generate a random string from one of the predefined charsets
+ */
+export function generateString(
+  rng: () => number,
+  length: number = STRING_DEFAULT_LENGTH,
+  charset: StringCharset = "alphanumeric",
+): StringData {
+  const alphabet = STRING_CHARSETS[charset];
+  let value = "";
+  for (let i = 0; i < length; i++) {
+    value += alphabet[rng() % alphabet.length];
+  }
+  return { value, length, charset };
+}
@@ -0,0 +1,36 @@
+import { randomInt } from "../../utils/number.js";
+import {
+  calculateSvnrCheckDigit,
+  encodeSvnrDate,
+  formatSvnr,
+  randomBirthDate,
+} from "../../utils/national-id.js";
+
+export interface SvnrData {
+  svnr: string;
+  formatted: string;
+  birth_date: string;
+}
+
+/**
+ * Generate an Austrian social insurance number (Sozialversicherungsnummer)
+ * Serial numbers whose checksum is 10 are never issued and are drawn again.
+ */
+export function generateSvnr(rng: () => number, birthDate?: string): SvnrData {
+  const resolvedBirthDate = birthDate ?? randomBirthDate(rng);
+  const datePart = encodeSvnrDate(resolvedBirthDate);
+
+  let serial: string;
+  let checkDigit: number;
+  do {
+    serial = String(randomInt(rng, 100, 999));
+    checkDigit = calculateSvnrCheckDigit(serial, datePart);
+  } while (checkDigit === 10);
+
+  const svnr = serial + String(checkDigit) + datePart;
+  return {
+    svnr,
+    formatted: formatSvnr(svnr),
+    birth_date: resolvedBirthDate,
+  };
+}
@@ -16,18 +16,25 @@ vi.mock("../utils/number.js", () => ({
   fnv1a32: vi.fn(),
   splitmix32: vi.fn(),
   generateDigits: vi.fn(),
+  pickOne: vi.fn(),
 }));
 
 vi.mock("../utils/iban.js", () => ({
   calculateIbanCheckDigits: vi.fn(),
 }));
 
-import { fnv1a32, splitmix32, generateDigits } from "../utils/number.js";
+import {
+  fnv1a32,
+  splitmix32,
+  generateDigits,
+  pickOne,
+} from "../utils/number.js";
 import { calculateIbanCheckDigits } from "../utils/iban.js";
 
 const mockedFnv1a32 = vi.mocked(fnv1a32);
 const mockedSplitmix32 = vi.mocked(splitmix32);
 const mockedGenerateDigits = vi.mocked(generateDigits);
+const mockedPickOne = vi.mocked(pickOne);
 const mockedCalculateIbanCheckDigits = vi.mocked(calculateIbanCheckDigits);
 
 describe("IBAN Service", () => {
@@ -101,7 +108,9 @@ describe("IBAN Service", () => {
         mockedSplitmix32.mockReturnValue(mockRng);
         mockedGenerateDigits.mockImplementation(
           (rng: () => number, length: number) => {
-            if (length === 8) return "87654321"; // BLZ for PL
+            if (length === 3) return "876"; // Bank code for PL
+            if (length === 4) return "5432"; // Branch code for PL
+            if (length === 1) return "3"; // Sort code check digit for PL
             if (length === 16) return "1234567890123456"; // Account for PL
             return "";
           },
@@ -110,14 +119,16 @@ describe("IBAN Service", () => {
 
         const result = generate("PL", "poland-seed");
 
-        expect(result).toBe("PL61876543211234567890123456");
+        expect(result).toBe("PL61876543231234567890123456");
         expect(fnv1a32).toHaveBeenCalledWith("poland-seed");
         expect(splitmix32).toHaveBeenCalledWith(99999);
-        expect(generateDigits).toHaveBeenCalledWith(mockRng, 8); // BLZ length for PL
+        expect(generateDigits).toHaveBeenCalledWith(mockRng, 3); // Bank code length for PL
+        expect(generateDigits).toHaveBeenCalledWith(mockRng, 4); // Branch code length for PL
+        expect(generateDigits).toHaveBeenCalledWith(mockRng, 1); // Check digit length for PL
         expect(generateDigits).toHaveBeenCalledWith(mockRng, 16); // Account length for PL
         expect(calculateIbanCheckDigits).toHaveBeenCalledWith(
           "PL",
-          "876543211234567890123456",
+          "876543231234567890123456",
         );
       });
 
@@ -263,7 +274,9 @@ describe("IBAN Service", () => {
         mockedSplitmix32.mockReturnValue(mockRng);
         mockedGenerateDigits.mockImplementation(
           (rng: () => number, length: number) => {
-            if (length === 8) return "12345678";
+            if (length === 3) return "123";
+            if (length === 4) return "4567";
+            if (length === 1) return "6";
             if (length === 16) return "1234567890123456";
             return "";
           },
@@ -272,13 +285,95 @@ describe("IBAN Service", () => {
 
         const result = generate("PL", "test");
 
-        expect(result).toBe("PL61123456781234567890123456");
+        expect(result).toBe("PL61123456761234567890123456");
         expect(result.length).toBe(28); // PL IBAN length
-        expect(generateDigits).toHaveBeenCalledWith(mockRng, 8);
+        expect(generateDigits).toHaveBeenCalledWith(mockRng, 3);
+        expect(generateDigits).toHaveBeenCalledWith(mockRng, 4);
+        expect(generateDigits).toHaveBeenCalledWith(mockRng, 1);
         expect(generateDigits).toHaveBeenCalledWith(mockRng, 16);
       });
     });
 
+    describe("national check digits", () => {
+      it("should recompute the Polish sort code check digit", () => {
+        mockedFnv1a32.mockReturnValue(12345);
+        const mockRng = vi.fn();
+        mockedSplitmix32.mockReturnValue(mockRng);
+        mockedGenerateDigits.mockImplementation(
+          (rng: () => number, length: number) => {
+            if (length === 3) return "109";
+            if (length === 4) return "0101";
+            if (length === 1) return "0"; // Wrong, expected 4
+            if (length === 16) return "0000071219812874";
+            return "";
+          },
+        );
+        mockedCalculateIbanCheckDigits.mockReturnValue("61");
+
+        const result = generate("PL", "test");
+
+        expect(result).toBe("PL61109010140000071219812874");
+        expect(calculateIbanCheckDigits).toHaveBeenCalledWith(
+          "PL",
+          "109010140000071219812874",
+        );
+      });
+
+      it("should recompute the account check digit for a known German BLZ", () => {
+        mockedFnv1a32.mockReturnValue(12345);
+        const mockRng = vi.fn();
+        mockedSplitmix32.mockReturnValue(mockRng);
+        mockedGenerateDigits.mockImplementation(
+          (rng: () => number, length: number) => {
+            if (length === 8) return "37040044"; // Commerzbank, method 13
+            if (length === 10) return "0532013900"; // Wrong, expected 0
+            return "";
+          },
+        );
+        mockedCalculateIbanCheckDigits.mockReturnValue("89");
+
+        const result = generate("DE", "test");
+
+        expect(result).toBe("DE89370400440532013000");
+      });
+    });
+
+    describe("bank directory", () => {
+      it("should use the bank code of a matching directory bank", () => {
+        mockedFnv1a32.mockReturnValue(12345);
+        const mockRng = vi.fn();
+        mockedSplitmix32.mockReturnValue(mockRng);
+        mockedPickOne.mockImplementation((rng, items) => items[0]);
+        mockedGenerateDigits.mockImplementation(
+          (rng: () => number, length: number) => {
+            if (length === 11) return "00234573201";
+            return "";
+          },
+        );
+        mockedCalculateIbanCheckDigits.mockReturnValue("61");
+
+        const result = generate("AT", "test", "erste");
+
+        expect(result).toBe("AT612011100234573201");
+        expect(pickOne).toHaveBeenCalledWith(mockRng, [
+          expect.objectContaining({ bankCode: "20111", bic: "GIBAATWWXXX" }),
+        ]);
+        expect(generateDigits).not.toHaveBeenCalledWith(mockRng, 5);
+      });
+
+      it("should throw when no bank matches the query", () => {
+        mockedFnv1a32.mockReturnValue(12345);
+        mockedSplitmix32.mockReturnValue(vi.fn());
+
+        expect(() => generate("DE", "test", "no such bank")).toThrow(
+          'No DE bank matches "no such bank"',
+        );
+        expect(() => generate("FR", "test", "any")).toThrow(
+          'No FR bank matches "any"',
+        );
+      });
+    });
+
     describe("IBAN validation integration", () => {
       it("should generate valid IBANs for Germany", () => {
         mockedFnv1a32.mockReturnValue(12345);
@@ -325,7 +420,9 @@ describe("IBAN Service", () => {
         mockedSplitmix32.mockReturnValue(mockRng);
         mockedGenerateDigits.mockImplementation(
           (rng: () => number, length: number) => {
-            if (length === 8) return "10901014"; // BLZ for PL
+            if (length === 3) return "109"; // Bank code for PL
+            if (length === 4) return "0101"; // Branch code for PL
+            if (length === 1) return "4"; // Check digit for PL
             if (length === 16) return "00071219812874"; // Account for PL
             return "";
           },
@@ -1,55 +1,110 @@
-import { fnv1a32, splitmix32, generateDigits } from "../utils/number.js";
+import {
+  fnv1a32,
+  splitmix32,
+  generateDigits,
+  pickOne,
+} from "../utils/number.js";
 import { calculateIbanCheckDigits } from "../utils/iban.js";
-import type { IbanCountry } from "../../types/types.js";
+import { IBAN_COUNTRIES } from "../utils/iban-registry.js";
+import { applyNationalCheck } from "../utils/bban-check.js";
+import {
+  findBanks,
+  findNationalCheckBanks,
+  resolveBank,
+} from "../utils/bank-directory.js";
+import { applyIbanDefect } from "../utils/iban-defects.js";
+import { validateIban } from "../utils/iban-validator.js";
+import type { BbanSegment } from "../utils/iban-registry.js";
+import type {
+  IbanBank,
+  IbanBulkRecord,
+  IbanCountry,
+  IbanDefect,
+} from "../../types/types.js";
 
 /**
  * IBAN Service: Generates syntactically valid IBAN numbers
  * with optional deterministic generation via seed.
  */
 
-interface CountrySpec {
-  blzLength: number;
-  acctLength: number;
-  bbanLength: number;
-}
+const LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const ALPHANUMERIC = `${LETTERS}0123456789`;
 
-const COUNTRY_SPECS: Record<IbanCountry, CountrySpec> = {
-  DE: { blzLength: 8, acctLength: 10, bbanLength: 18 },
-  AT: { blzLength: 5, acctLength: 11, bbanLength: 16 },
-  PL: { blzLength: 8, acctLength: 16, bbanLength: 24 },
-};
+/**
+ * Fill one BBAN segment; digits use generateDigits so numeric-only
+ * countries keep the same output for a given seed.
+ */
+function generateSegment(rng: () => number, segment: BbanSegment): string {
+  if (segment.charset === "n") {
+    return generateDigits(rng, segment.length);
+  }
+  const alphabet = segment.charset === "a" ? LETTERS : ALPHANUMERIC;
+  return Array.from(
+    { length: segment.length },
+    () => alphabet[rng() % alphabet.length],
+  ).join("");
+}
 
 /**
  * Generate a valid IBAN for the specified country
  *
- * @param country - Country code ('DE' or 'AT')
+ * @param country - SEPA country code from the IBAN registry
  * @param seed - Optional seed for deterministic generation
  *              If omitted, generates a random IBAN
+ * @param bank - Optional bank directory query ("any", name fragment or BIC
+ *              prefix); the bank code is then taken from a matching bank
  * @returns Complete IBAN string (country + check digits + BBAN)
+ * @throws Error when the bank query matches no bank of the country
  *
  * @example
  * generate('DE', '1234') // => 'DE86011870660241783056'
  * generate('AT', '1234') // => 'AT370118702417830564'
  */
-export function generate(country: IbanCountry, seed?: string): string {
-  // Use seed if provided, otherwise generate random
-  const seedValue = seed ?? crypto.randomUUID();
+export function generate(
+  country: IbanCountry,
+  seed?: string,
+  bank?: string,
+): string {
+  let banks: IbanBank[] | undefined;
+  if (bank !== undefined) {
+    banks = findBanks(country, bank);
+    if (banks.length === 0) {
+      throw new Error(`No ${country} bank matches "${bank}"`);
+    }
+  }
+  return generateWithBanks(country, seed ?? crypto.randomUUID(), banks);
+}
 
+/**
+ * Valid IBAN whose bank code is picked from `banks` (any bank code when
+ * omitted)
+ */
+function generateWithBanks(
+  country: IbanCountry,
+  seedValue: string,
+  banks?: IbanBank[],
+): string {
   // Hash seed → 32-bit unsigned integer
   const hash = fnv1a32(seedValue);
 
   // Initialize PRNG with hashed seed
   const rng = splitmix32(hash);
 
-  // Get country-specific specs
-  const spec = COUNTRY_SPECS[country];
-
-  // Generate BLZ (Bankleitzahl) and account number
-  const blz = generateDigits(rng, spec.blzLength);
-  const acct = generateDigits(rng, spec.acctLength);
+  // Pick a real bank first so the rest of the BBAN stays seed-stable
+  const bankCode = banks ? pickOne(rng, banks).bankCode : undefined;
 
-  // Combine into BBAN
-  const bban = blz + acct;
+  // Fill the country's BBAN segments in order (bank, branch, account, ...)
+  // and recompute national check digits so bank-side checks pass too
+  const bban = applyNationalCheck(
+    country,
+    IBAN_COUNTRIES[country].bban
+      .map((segment) =>
+        segment.kind === "bank" && bankCode
+          ? bankCode
+          : generateSegment(rng, segment),
+      )
+      .join(""),
+  );
 
   // Calculate IBAN check digits
   const checkDigits = calculateIbanCheckDigits(country, bban);
@@ -57,3 +112,109 @@ export function generate(country: IbanCountry, seed?: string): string {
   // Return complete IBAN: CC + check digits + BBAN
   return `${country}${checkDigits}${bban}`;
 }
+
+/**
+ * Generate an IBAN that breaks exactly one validation rule
+ *
+ * Starts from the valid IBAN for the same country, seed and bank, then
+ * applies the defect with a PRNG derived from seed and defect, so a seed
+ * always yields the same defective IBAN.
+ *
+ * For the national defect the bank query only matches banks with national
+ * check digits (see findNationalCheckBanks), so the IBAN keeps a requested
+ * bank instead of switching to one whose check is known.
+ *
+ * @returns Defective IBAN, or null when the defect does not apply to the
+ * country (national check digits exist only for BE, DE and PL)
+ * @throws Error when the bank query matches no bank of the country, or for
+ * the national defect no bank with national check digits
+ */
+export function generateDefective(
+  country: IbanCountry,
+  defect: IbanDefect,
+  seed?: string,
+  bank?: string,
+): string | null {
+  const seedValue = seed ?? crypto.randomUUID();
+  let valid: string;
+  if (defect === "national" && bank !== undefined) {
+    const banks = findNationalCheckBanks(country, bank);
+    if (banks.length === 0) {
+      throw new Error(
+        `No ${country} bank matching "${bank}" has national check digits`,
+      );
+    }
+    valid = generateWithBanks(country, seedValue, banks);
+  } else {
+    valid = generate(country, seedValue, bank);
+  }
+  const rng = splitmix32(fnv1a32(`${seedValue}:${defect}`));
+  return applyIbanDefect(valid, defect, rng);
+}
+
+/** Upper bound for one bulk request */
+export const MAX_BULK_COUNT = 5000;
+
+/**
+ * Longest bulk base seed: every derived seed (`<base>-<index>`) must still
+ * fit the 64 characters GET /api/generators/iban accepts
+ */
+export const MAX_BULK_SEED_LENGTH = 64 - `-${MAX_BULK_COUNT - 1}`.length;
+
+export interface IbanBulkOptions {
+  country: IbanCountry;
+  /** Number of IBANs, 1..MAX_BULK_COUNT */
+  count: number;
+  /**
+   * Base seed (at most MAX_BULK_SEED_LENGTH characters); item seeds are
+   * derived from it and the item index
+   */
+  seed: string;
+  bank?: string;
+  defect?: IbanDefect;
+}
+
+/**
+ * Seed of the IBAN at `index` in a bulk run. Passing it to the single
+ * generator reproduces that IBAN.
+ */
+export function deriveBulkSeed(baseSeed: string, index: number): string {
+  return `${baseSeed}-${index}`;
+}
+
+/**
+ * Lazily generate IBANs for a bulk export, one record per index
+ *
+ * @throws Error when the bank query matches no bank of the country or the
+ * defect does not apply to it
+ */
+export function* generateBulk(
+  options: IbanBulkOptions,
+): Generator<IbanBulkRecord> {
+  const { country, bank, defect } = options;
+
+  for (let index = 0; index < options.count; index++) {
+    const seed = deriveBulkSeed(options.seed, index);
+    const iban = defect
+      ? generateDefective(country, defect, seed, bank)
+      : generate(country, seed, bank);
+    if (!iban) {
+      throw new Error(`Defect '${defect}' does not apply to ${country}`);
+    }
+
+    const record: IbanBulkRecord = { index, iban, country, seed };
+    const resolved = resolveBank(
+      country,
+      iban.replace(/\s/g, "").toUpperCase().slice(4),
+    );
+    if (resolved) {
+      record.bic = resolved.bic;
+      record.bankName = resolved.name;
+    }
+    if (defect) {
+      record.defect = defect;
+      record.expectedReason = validateIban(iban, { strict: true }).reason;
+    }
+    yield record;
+  }
+}
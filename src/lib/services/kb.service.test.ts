@@ -0,0 +1,867 @@
+import { describe, it, expect } from "vitest";
+import {
+  addKbNote,
+  deleteKbNote,
+  exportKbEntries,
+  findKbDuplicates,
+  importKbEntries,
+  listKbEntries,
+  listKbEntryDuplicates,
+  listKbNotes,
+  listKbTagFacets,
+  mergeKbEntries,
+  runKbLinkCheck,
+  updateKbNote,
+} from "./kb.service";
+import type { KbEntryListQuery } from "./kb.service";
+import type { KbImportCandidate } from "../utils/kb-import";
+import { StubLinkFetcher } from "../utils/link-fetch-stub";
+import { createSupabaseMock } from "../../test/supabase-mock";
+
+const user = { id: "user-1" };
+const ID_1 = "11111111-1111-4111-8111-111111111111";
+const ID_2 = "22222222-2222-4222-8222-222222222222";
+
+function row(id: string, title: string, extra: Record<string, unknown> = {}) {
+  return {
+    id,
+    user_id: "user-1",
+    title,
+    url_original: `https://example.com/${id}`,
+    url_canonical: `https://example.com/${id}`,
+    tags: ["api"],
+    is_public: false,
+    created_at: "2025-01-01T10:00:00.000Z",
+    updated_at: "2025-02-01T10:00:00.000Z",
+    ...extra,
+  };
+}
+
+function query(overrides: Partial<KbEntryListQuery> = {}): KbEntryListQuery {
+  return {
+    limit: 20,
+    tags: [],
+    tag_match: "any",
+    sort: "updated",
+    ...overrides,
+  };
+}
+
+describe("kb.service", () => {
+  describe("listKbEntries", () => {
+    it("should list own and public entries newest first", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: [row(ID_1, "A", { search_vector: "'a'" })], error: null },
+      ]);
+
+      const page = await listKbEntries(supabase, user, query());
+
+      expect(builder.or).toHaveBeenCalledWith(
+        "user_id.eq.user-1,is_public.eq.true",
+      );
+      expect(builder.order).toHaveBeenNthCalledWith(1, "updated_at", {
+        ascending: false,
+      });
+      expect(page.items[0]).not.toHaveProperty("search_vector");
+      expect(page.next_cursor).toBeUndefined();
+    });
+
+    it("should filter by owner", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: [], error: null },
+        { data: [], error: null },
+      ]);
+
+      await listKbEntries(supabase, user, query({ owner: "me" }));
+      expect(builder.eq).toHaveBeenCalledWith("user_id", "user-1");
+
+      await listKbEntries(supabase, user, query({ owner: "public" }));
+      expect(builder.eq).toHaveBeenCalledWith("is_public", true);
+      expect(builder.or).not.toHaveBeenCalled();
+    });
+
+    it("should require a session for owner=me", async () => {
+      const { supabase } = createSupabaseMock([]);
+
+      await expect(
+        listKbEntries(supabase, null, query({ owner: "me" })),
+      ).rejects.toMatchObject({ code: "UNAUTHENTICATED", status: 401 });
+    });
+
+    it("should match any or all tags", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: [], error: null },
+        { data: [], error: null },
+      ]);
+
+      await listKbEntries(supabase, null, query({ tags: ["api", "ui"] }));
+      expect(builder.overlaps).toHaveBeenCalledWith("tags", ["api", "ui"]);
+
+      await listKbEntries(
+        supabase,
+        null,
+        query({ tags: ["api", "ui"], tag_match: "all" }),
+      );
+      expect(builder.contains).toHaveBeenCalledWith("tags", ["api", "ui"]);
+    });
+
+    it("should sort by creation date with a created_at cursor", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: [row(ID_1, "A"), row(ID_2, "B")], error: null },
+      ]);
+
+      const page = await listKbEntries(
+        supabase,
+        null,
+        query({
+          sort: "created",
+          limit: 1,
+          after: `2025-03-01T00:00:00.000Z,${ID_2}`,
+        }),
+      );
+
+      expect(builder.or).toHaveBeenCalledWith(
+        `created_at.lt.2025-03-01T00:00:00.000Z,and(created_at.eq.2025-03-01T00:00:00.000Z,id.lt.${ID_2})`,
+      );
+      expect(page.items).toHaveLength(1);
+      expect(page.next_cursor).toBe(`2025-01-01T10:00:00.000Z,${ID_1}`);
+    });
+
+    it("should sort by title ascending with a quoted title cursor", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: [row(ID_1, 'Say "hi", (twice)'), row(ID_2, "Z")], error: null },
+      ]);
+
+      const page = await listKbEntries(
+        supabase,
+        null,
+        query({
+          sort: "title",
+          limit: 1,
+          after: `${encodeURIComponent("A, b")},${ID_2}`,
+        }),
+      );
+
+      expect(builder.or).toHaveBeenCalledWith(
+        `title.gt."A, b",and(title.eq."A, b",id.gt.${ID_2})`,
+      );
+      expect(builder.order).toHaveBeenNthCalledWith(1, "title", {
+        ascending: true,
+      });
+      expect(page.next_cursor).toBe(
+        `${encodeURIComponent('Say "hi", (twice)')},${ID_1}`,
+      );
+    });
+
+    it("should escape quotes in title cursors", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: [], error: null },
+      ]);
+
+      await listKbEntries(
+        supabase,
+        null,
+        query({
+          sort: "title",
+          after: `${encodeURIComponent('a"b\\c')},${ID_1}`,
+        }),
+      );
+
+      expect(builder.or).toHaveBeenCalledWith(
+        `title.gt."a\\"b\\\\c",and(title.eq."a\\"b\\\\c",id.gt.${ID_1})`,
+      );
+    });
+
+    it("should throw a database error", async () => {
+      const { supabase } = createSupabaseMock([
+        { data: null, error: { message: "boom" } },
+      ]);
+
+      await expect(
+        listKbEntries(supabase, null, query()),
+      ).rejects.toMatchObject({ code: "DATABASE_ERROR", message: "boom" });
+    });
+
+    describe("search", () => {
+      it("should rank matches through search_kb_entries", async () => {
+        const { supabase } = createSupabaseMock([
+          {
+            data: [
+              row(ID_1, "Flaky tests", {
+                rank: 0.0759909,
+                snippet: "Flaky <mark>tests</mark>",
+              }),
+              row(ID_2, "Test data", { rank: 0.0607927, snippet: "x" }),
+            ],
+            error: null,
+          },
+        ]);
+
+        const page = await listKbEntries(
+          supabase,
+          user,
+          query({ q: "tests", sort: "relevance", limit: 1, tags: ["api"] }),
+        );
+
+        expect(supabase.rpc).toHaveBeenCalledWith("search_kb_entries", {
+          search_query: "tests",
+          tag_filter: ["api"],
+          match_all_tags: false,
+          owner_filter: undefined,
+          sort_by: "relevance",
+          after_value: undefined,
+          after_id: undefined,
+          page_size: 2,
+        });
+        expect(supabase.from).not.toHaveBeenCalled();
+        expect(page.items).toHaveLength(1);
+        expect(page.items[0].snippet).toBe("Flaky <mark>tests</mark>");
+        expect(page.next_cursor).toBe(`0.0759909,${ID_1}`);
+      });
+
+      it("should pass the decoded cursor and filters", async () => {
+        const { supabase } = createSupabaseMock([{ data: [], error: null }]);
+
+        await listKbEntries(
+          supabase,
+          user,
+          query({
+            q: "tests",
+            sort: "title",
+            owner: "me",
+            tag_match: "all",
+            after: `${encodeURIComponent("A, b")},${ID_2}`,
+          }),
+        );
+
+        expect(supabase.rpc).toHaveBeenCalledWith(
+          "search_kb_entries",
+          expect.objectContaining({
+            tag_filter: undefined,
+            match_all_tags: true,
+            owner_filter: "me",
+            sort_by: "title",
+            after_value: "A, b",
+            after_id: ID_2,
+          }),
+        );
+      });
+    });
+  });
+
+  describe("listKbTagFacets", () => {
+    it("should return tags with numeric counts", async () => {
+      const { supabase } = createSupabaseMock([
+        {
+          data: [
+            { tag: "api", count: "3" },
+            { tag: "ui", count: 1 },
+          ],
+          error: null,
+        },
+      ]);
+
+      const facets = await listKbTagFacets(supabase, null, { q: "tests" });
+
+      expect(supabase.rpc).toHaveBeenCalledWith("kb_tag_facets", {
+        search_query: "tests",
+        owner_filter: undefined,
+      });
+      expect(facets.items).toEqual([
+        { tag: "api", count: 3 },
+        { tag: "ui", count: 1 },
+      ]);
+    });
+
+    it("should require a session for owner=me", async () => {
+      const { supabase } = createSupabaseMock([]);
+
+      await expect(
+        listKbTagFacets(supabase, null, { owner: "me" }),
+      ).rejects.toMatchObject({ code: "UNAUTHENTICATED" });
+    });
+  });
+
+  describe("duplicates", () => {
+    const duplicate = {
+      id: ID_2,
+      user_id: "user-2",
+      title: "Postman tips",
+      url_original: "https://example.com/postman",
+      is_public: true,
+      match: "title",
+      similarity: 0.8,
+    };
+
+    describe("findKbDuplicates", () => {
+      it("should look up duplicates by URL and title", async () => {
+        const { supabase } = createSupabaseMock([
+          { data: [duplicate], error: null },
+        ]);
+
+        const items = await findKbDuplicates(supabase, {
+          url: "https://example.com/postman/",
+          title: "Postman tips!",
+        });
+
+        expect(supabase.rpc).toHaveBeenCalledWith("find_kb_duplicates", {
+          url_input: "https://example.com/postman/",
+          title_input: "Postman tips!",
+        });
+        expect(items).toEqual([duplicate]);
+      });
+
+      it("should throw DATABASE_ERROR when the lookup fails", async () => {
+        const { supabase } = createSupabaseMock([
+          { data: null, error: { message: "boom" } },
+        ]);
+
+        await expect(
+          findKbDuplicates(supabase, { url: "https://a.com", title: "A" }),
+        ).rejects.toMatchObject({ code: "DATABASE_ERROR" });
+      });
+    });
+
+    describe("listKbEntryDuplicates", () => {
+      it("should leave the entry itself out", async () => {
+        const { supabase, builder } = createSupabaseMock([
+          { data: row(ID_1, "Postman tips"), error: null },
+          { data: [duplicate], error: null },
+        ]);
+
+        const result = await listKbEntryDuplicates(supabase, ID_1);
+
+        expect(builder.eq).toHaveBeenCalledWith("id", ID_1);
+        expect(supabase.rpc).toHaveBeenCalledWith("find_kb_duplicates", {
+          url_input: `https://example.com/${ID_1}`,
+          title_input: "Postman tips",
+          exclude_id: ID_1,
+        });
+        expect(result.items).toHaveLength(1);
+      });
+
+      it("should throw NOT_FOUND for entries hidden by RLS", async () => {
+        const { supabase } = createSupabaseMock([
+          { data: null, error: { code: "PGRST116", message: "No rows" } },
+        ]);
+
+        await expect(
+          listKbEntryDuplicates(supabase, ID_1),
+        ).rejects.toMatchObject({ code: "NOT_FOUND", status: 404 });
+      });
+    });
+
+    describe("mergeKbEntries", () => {
+      const admin = { id: "admin-1", role: "admin" as const };
+
+      it("should merge the sources into the target", async () => {
+        const merged = row(ID_1, "Postman tips", { tags: ["api", "tools"] });
+        const { supabase } = createSupabaseMock([
+          { data: merged, error: null },
+        ]);
+
+        const entry = await mergeKbEntries(supabase, admin, ID_1, {
+          source_ids: [ID_2],
+        });
+
+        expect(supabase.rpc).toHaveBeenCalledWith("merge_kb_entries", {
+          target_id: ID_1,
+          source_ids: [ID_2],
+        });
+        expect(entry.tags).toEqual(["api", "tools"]);
+      });
+
+      it("should reject non-admins without calling the database", async () => {
+        const { supabase } = createSupabaseMock([]);
+
+        await expect(
+          mergeKbEntries(supabase, { id: "user-1", role: "user" }, ID_1, {
+            source_ids: [ID_2],
+          }),
+        ).rejects.toMatchObject({ code: "FORBIDDEN", status: 403 });
+        expect(supabase.rpc).not.toHaveBeenCalled();
+      });
+
+      it("should reject merging an entry into itself", async () => {
+        const { supabase } = createSupabaseMock([]);
+
+        await expect(
+          mergeKbEntries(supabase, admin, ID_1, { source_ids: [ID_1] }),
+        ).rejects.toMatchObject({ code: "VALIDATION_ERROR", status: 400 });
+      });
+
+      it("should map missing entries to NOT_FOUND", async () => {
+        const { supabase } = createSupabaseMock([
+          { data: null, error: { code: "P0002", message: "Entry not found" } },
+        ]);
+
+        await expect(
+          mergeKbEntries(supabase, admin, ID_1, { source_ids: [ID_2] }),
+        ).rejects.toMatchObject({ code: "NOT_FOUND", status: 404 });
+      });
+    });
+  });
+
+  describe("runKbLinkCheck", () => {
+    const URL_1 = "https://example.com/1";
+    const URL_2 = "https://example.com/2";
+
+    it("should check the least recently checked entries and store results", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        {
+          data: [
+            { id: ID_1, url_original: URL_1 },
+            { id: ID_2, url_original: URL_2 },
+          ],
+          error: null,
+        },
+        { data: null, error: null },
+        { data: null, error: null },
+      ]);
+      const stub = new StubLinkFetcher({
+        routes: {
+          [URL_1]: 404,
+          [URL_2]: { status: 301, location: "https://example.org/2" },
+        },
+      });
+
+      const report = await runKbLinkCheck(supabase, {
+        limit: 10,
+        checkedBefore: new Date("2026-10-11T00:00:00.000Z"),
+        fetch: stub.fetch,
+      });
+
+      expect(builder.or).toHaveBeenCalledWith(
+        "link_checked_at.is.null,link_checked_at.lt.2026-10-11T00:00:00.000Z",
+      );
+      expect(builder.order).toHaveBeenCalledWith("link_checked_at", {
+        ascending: true,
+        nullsFirst: true,
+      });
+      expect(builder.limit).toHaveBeenCalledWith(10);
+      expect(builder.update).toHaveBeenCalledWith(
+        expect.objectContaining({ link_status: 404, link_error: null }),
+      );
+      expect(builder.eq).toHaveBeenCalledWith("id", ID_1);
+      expect(report).toMatchObject({ checked: 2, broken: 1, moved: 1 });
+      expect(report.results[1]).toMatchObject({
+        id: ID_2,
+        link_status: 200,
+        link_redirect_url: "https://example.org/2",
+        link_redirect_permanent: true,
+        health: "moved",
+      });
+      expect(report.results[1].link_checked_at).toEqual(expect.any(String));
+    });
+
+    it("should check only the given entries", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: [{ id: ID_1, url_original: URL_1 }], error: null },
+        { data: null, error: null },
+      ]);
+
+      const report = await runKbLinkCheck(supabase, {
+        entryIds: [ID_1],
+        limit: 20,
+        fetch: new StubLinkFetcher().fetch,
+      });
+
+      expect(builder.in).toHaveBeenCalledWith("id", [ID_1]);
+      expect(builder.or).not.toHaveBeenCalled();
+      expect(builder.limit).toHaveBeenCalledWith(1);
+      expect(report.results[0].health).toBe("ok");
+    });
+
+    it("should throw DATABASE_ERROR when a result cannot be stored", async () => {
+      const { supabase } = createSupabaseMock([
+        { data: [{ id: ID_1, url_original: URL_1 }], error: null },
+        { data: null, error: { message: "update failed" } },
+      ]);
+
+      await expect(
+        runKbLinkCheck(supabase, {
+          limit: 20,
+          fetch: new StubLinkFetcher().fetch,
+        }),
+      ).rejects.toMatchObject({ code: "DATABASE_ERROR" });
+    });
+  });
+
+  describe("notes", () => {
+    const ENTRY = "33333333-3333-4333-8333-333333333333";
+    const NOTE = "44444444-4444-4444-8444-444444444444";
+    const admin = { id: "admin-1", role: "admin" as const };
+    const member = { id: "user-1", role: "user" as const };
+
+    const privateEntry = { id: ENTRY, user_id: "user-1", is_public: false };
+    const publicEntry = { id: ENTRY, user_id: "admin-1", is_public: true };
+
+    function note(extra: Record<string, unknown> = {}) {
+      return {
+        id: NOTE,
+        entry_id: ENTRY,
+        user_id: "user-1",
+        body: "**Repro:** run twice",
+        created_at: "2025-03-01T10:00:00.000Z",
+        ...extra,
+      };
+    }
+
+    describe("listKbNotes", () => {
+      it("should list notes oldest first with a created_at cursor", async () => {
+        const { supabase, builder } = createSupabaseMock([
+          { data: publicEntry, error: null },
+          { data: [note(), note({ id: ID_2 })], error: null },
+        ]);
+
+        const page = await listKbNotes(supabase, ENTRY, {
+          limit: 1,
+          after: `2025-02-01T10:00:00.000Z,${ID_1}`,
+        });
+
+        expect(builder.eq).toHaveBeenCalledWith("entry_id", ENTRY);
+        expect(builder.or).toHaveBeenCalledWith(
+          `created_at.gt.2025-02-01T10:00:00.000Z,and(created_at.eq.2025-02-01T10:00:00.000Z,id.gt.${ID_1})`,
+        );
+        expect(builder.order).toHaveBeenCalledWith("created_at", {
+          ascending: true,
+        });
+        expect(page.items).toHaveLength(1);
+        expect(page.next_cursor).toBe(`2025-03-01T10:00:00.000Z,${NOTE}`);
+      });
+
+      it("should throw NOT_FOUND for entries hidden by RLS", async () => {
+        const { supabase } = createSupabaseMock([
+          { data: null, error: { code: "PGRST116", message: "No rows" } },
+        ]);
+
+        await expect(
+          listKbNotes(supabase, ENTRY, { limit: 20 }),
+        ).rejects.toMatchObject({ code: "NOT_FOUND", status: 404 });
+      });
+    });
+
+    describe("addKbNote", () => {
+      it("should add a note to the user's private entry", async () => {
+        const { supabase, builder } = createSupabaseMock([
+          { data: privateEntry, error: null },
+          { data: note(), error: null },
+        ]);
+
+        const created = await addKbNote(supabase, member, ENTRY, {
+          body: "**Repro:** run twice",
+        });
+
+        expect(builder.insert).toHaveBeenCalledWith({
+          entry_id: ENTRY,
+          user_id: "user-1",
+          body: "**Repro:** run twice",
+        });
+        expect(created.id).toBe(NOTE);
+      });
+
+      it("should reject notes on public entries for non-admins", async () => {
+        const { supabase, builder } = createSupabaseMock([
+          { data: publicEntry, error: null },
+        ]);
+
+        await expect(
+          addKbNote(supabase, member, ENTRY, { body: "hi" }),
+        ).rejects.toMatchObject({
+          code: "FORBIDDEN",
+          message: "Only admins can add notes to public KB entries",
+        });
+        expect(builder.insert).not.toHaveBeenCalled();
+      });
+
+      it("should let admins add notes to public entries", async () => {
+        const { supabase } = createSupabaseMock([
+          { data: publicEntry, error: null },
+          { data: note({ user_id: "admin-1" }), error: null },
+        ]);
+
+        const created = await addKbNote(supabase, admin, ENTRY, {
+          body: "hi",
+        });
+
+        expect(created.user_id).toBe("admin-1");
+      });
+    });
+
+    describe("updateKbNote", () => {
+      it("should update the user's own note", async () => {
+        const { supabase, builder } = createSupabaseMock([
+          { data: privateEntry, error: null },
+          { data: note(), error: null },
+          { data: note({ body: "edited" }), error: null },
+        ]);
+
+        const updated = await updateKbNote(supabase, member, ENTRY, NOTE, {
+          body: "edited",
+        });
+
+        expect(builder.update).toHaveBeenCalledWith({ body: "edited" });
+        expect(updated.body).toBe("edited");
+      });
+
+      it("should reject editing someone else's note", async () => {
+        const { supabase, builder } = createSupabaseMock([
+          { data: privateEntry, error: null },
+          { data: note({ user_id: "user-2" }), error: null },
+        ]);
+
+        await expect(
+          updateKbNote(supabase, member, ENTRY, NOTE, { body: "edited" }),
+        ).rejects.toMatchObject({
+          code: "FORBIDDEN",
+          message: "You can only edit your own notes",
+        });
+        expect(builder.update).not.toHaveBeenCalled();
+      });
+
+      it("should throw NOT_FOUND for a note of another entry", async () => {
+        const { supabase } = createSupabaseMock([
+          { data: privateEntry, error: null },
+          { data: null, error: { code: "PGRST116", message: "No rows" } },
+        ]);
+
+        await expect(
+          updateKbNote(supabase, member, ENTRY, NOTE, { body: "edited" }),
+        ).rejects.toMatchObject({
+          code: "NOT_FOUND",
+          message: "Note not found",
+        });
+      });
+    });
+
+    describe("deleteKbNote", () => {
+      it("should reject deleting notes on public entries for non-admins", async () => {
+        const { supabase } = createSupabaseMock([
+          { data: publicEntry, error: null },
+        ]);
+
+        await expect(
+          deleteKbNote(supabase, member, ENTRY, NOTE),
+        ).rejects.toMatchObject({
+          code: "FORBIDDEN",
+          message: "Only admins can delete notes on public KB entries",
+        });
+      });
+
+      it("should let admins delete any note", async () => {
+        const { supabase, builder } = createSupabaseMock([
+          { data: publicEntry, error: null },
+          { data: note(), error: null },
+          { data: null, error: null },
+        ]);
+
+        await deleteKbNote(supabase, admin, ENTRY, NOTE);
+
+        expect(builder.delete).toHaveBeenCalled();
+        expect(builder.eq).toHaveBeenLastCalledWith("id", NOTE);
+      });
+    });
+  });
+
+  describe("exportKbEntries", () => {
+    it("should export own entries with their notes oldest first", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        {
+          data: [
+            {
+              ...row(ID_1, "A", { search_vector: "'a'" }),
+              kb_notes: [
+                { id: "n2", created_at: "2025-01-03T00:00:00.000Z" },
+                { id: "n1", created_at: "2025-01-02T00:00:00.000Z" },
+              ],
+            },
+          ],
+          error: null,
+        },
+      ]);
+
+      const data = await exportKbEntries(supabase, "user-1");
+
+      expect(builder.select).toHaveBeenCalledWith("*, kb_notes(*)");
+      expect(builder.eq).toHaveBeenCalledWith("user_id", "user-1");
+      expect(builder.range).toHaveBeenCalledWith(0, 999);
+      expect(data.entries).toHaveLength(1);
+      expect(data.entries[0]).not.toHaveProperty("search_vector");
+      expect(data.entries[0]).not.toHaveProperty("kb_notes");
+      expect(data.notes.map((n) => n.id)).toEqual(["n1", "n2"]);
+    });
+
+    it("should read further pages while they are full", async () => {
+      const fullPage = Array.from({ length: 1000 }, (_, i) => ({
+        ...row(`id-${i}`, "A"),
+        kb_notes: [],
+      }));
+      const { supabase, builder } = createSupabaseMock([
+        { data: fullPage, error: null },
+        { data: [], error: null },
+      ]);
+
+      const data = await exportKbEntries(supabase, "user-1");
+
+      expect(builder.range).toHaveBeenLastCalledWith(1000, 1999);
+      expect(data.entries).toHaveLength(1000);
+    });
+
+    it("should map database errors", async () => {
+      const { supabase } = createSupabaseMock([
+        { data: null, error: { message: "boom" } },
+      ]);
+
+      await expect(exportKbEntries(supabase, "user-1")).rejects.toMatchObject({
+        code: "DATABASE_ERROR",
+        status: 500,
+      });
+    });
+  });
+
+  describe("importKbEntries", () => {
+    function candidate(
+      row: number,
+      url: string,
+      extra: Partial<KbImportCandidate> = {},
+    ): KbImportCandidate {
+      return { row, title: `Entry ${row}`, url, tags: [], notes: [], ...extra };
+    }
+
+    it("should create new entries and skip duplicates and existing URLs", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        // existing lookup
+        {
+          data: [{ id: "existing", url_canonical: "example.com/old" }],
+          error: null,
+        },
+        // batch insert
+        { data: [{ id: "new-1" }], error: null },
+        // notes insert
+        { data: null, error: null },
+      ]);
+
+      const report = await importKbEntries(supabase, user, [
+        candidate(1, "https://example.com/new", {
+          notes: ["first", "  "],
+          isPublic: true,
+        }),
+        candidate(2, "http://www.example.com/new/"),
+        candidate(3, "https://example.com/old"),
+        candidate(4, "ftp://example.com/file"),
+      ]);
+
+      expect(builder.in).toHaveBeenCalledWith("url_canonical", [
+        "example.com/new",
+        "example.com/old",
+      ]);
+      expect(builder.insert).toHaveBeenNthCalledWith(1, [
+        expect.objectContaining({
+          user_id: "user-1",
+          title: "Entry 1",
+          url_original: "https://example.com/new",
+          is_public: false,
+        }),
+      ]);
+      expect(builder.insert).toHaveBeenNthCalledWith(2, [
+        { entry_id: "new-1", user_id: "user-1", body: "first" },
+      ]);
+      expect(report.summary).toEqual({
+        total: 4,
+        created: 1,
+        skipped: 2,
+        failed: 1,
+      });
+      expect(report.results).toEqual([
+        expect.objectContaining({
+          row: 1,
+          status: "created",
+          entry_id: "new-1",
+          notes: 1,
+        }),
+        expect.objectContaining({
+          row: 2,
+          status: "skipped",
+          reason: "Duplicate URL in this file",
+        }),
+        expect.objectContaining({
+          row: 3,
+          status: "skipped",
+          reason: "Already in your knowledge base",
+          entry_id: "existing",
+        }),
+        expect.objectContaining({
+          row: 4,
+          status: "failed",
+          reason: "URL must start with http:// or https://",
+        }),
+      ]);
+    });
+
+    it("should keep is_public for admins and default titles to the URL", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: [], error: null },
+        { data: [{ id: "new-1" }], error: null },
+      ]);
+
+      await importKbEntries(supabase, { id: "admin-1", role: "admin" }, [
+        candidate(1, "https://example.com/a", { title: "", isPublic: true }),
+      ]);
+
+      expect(builder.insert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          title: "https://example.com/a",
+          is_public: true,
+        }),
+      ]);
+    });
+
+    it("should retry row by row after a unique violation", async () => {
+      const { supabase } = createSupabaseMock([
+        { data: [], error: null },
+        { data: null, error: { code: "23505", message: "duplicate key" } },
+        { data: { id: "new-1" }, error: null },
+        { data: null, error: { code: "23505", message: "duplicate key" } },
+      ]);
+
+      const report = await importKbEntries(supabase, user, [
+        candidate(1, "https://example.com/a"),
+        candidate(2, "https://example.com/b"),
+      ]);
+
+      expect(report.results.map((r) => r.status)).toEqual([
+        "created",
+        "skipped",
+      ]);
+    });
+
+    it("should report notes that could not be saved", async () => {
+      const { supabase } = createSupabaseMock([
+        { data: [], error: null },
+        { data: [{ id: "new-1" }], error: null },
+        { data: null, error: { message: "notes failed" } },
+      ]);
+
+      const report = await importKbEntries(supabase, user, [
+        candidate(1, "https://example.com/a", { notes: ["note"] }),
+      ]);
+
+      expect(report.results[0]).toMatchObject({
+        status: "created",
+        reason: "Entry created without notes: notes failed",
+      });
+      expect(report.results[0].notes).toBeUndefined();
+    });
+
+    it("should not touch the database when every row fails", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: [], error: null },
+      ]);
+
+      const report = await importKbEntries(supabase, user, [candidate(1, "")]);
+
+      expect(builder.insert).not.toHaveBeenCalled();
+      expect(report.results[0].reason).toBe("URL is missing");
+    });
+  });
+});
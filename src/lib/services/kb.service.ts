@@ -0,0 +1,915 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type {
+  CreateKBNoteCommand,
+  ErrorCode,
+  KBDuplicateDTO,
+  KBDuplicatesResponse,
+  KBEntryDTO,
+  KBExportDTO,
+  KBImportReport,
+  KBImportRowResult,
+  KBLinkCheckReport,
+  KBLinkCheckResult,
+  KBListItemDTO,
+  KBListResponse,
+  KBNoteDTO,
+  KBNotesListResponse,
+  KBOwnerFilter,
+  KBSortOrder,
+  KBTagFacetsResponse,
+  KBTagMatch,
+  MergeKBEntriesCommand,
+  UpdateKBNoteCommand,
+} from "../../types/types";
+import { createAppError } from "../helpers/error.helper";
+import { keysetFilter, toKeysetPage } from "../helpers/keyset.helper";
+import { canonicalizeKbUrl, type KbImportCandidate } from "../utils/kb-import";
+import {
+  getKbLinkHealth,
+  probeLink,
+  type LinkCheckOptions,
+} from "../utils/kb-link-check";
+import { decodeKbCursor, encodeKbCursor } from "../utils/kb-search";
+
+/**
+ * KB Service: listing and searching knowledge base entries, and their notes.
+ *
+ * Signed-in users see their own entries plus public ones, anonymous
+ * visitors public entries only (RLS enforces the same). Plain listings are
+ * PostgREST queries; a search query `q` goes through the search_kb_entries
+ * function, which ranks matches and builds highlighted snippets.
+ *
+ * Notes follow the entry rules of docs/kb-admin-restrictions.md: anyone who
+ * can read an entry reads its notes, users write their own notes on their
+ * own private entries, admins write notes anywhere.
+ *
+ * Export and import work on the caller's own entries: import skips URLs
+ * already in the file or in the caller's KB (same url_canonical).
+ *
+ * Possible duplicates (same canonical URL or a near-identical title) are
+ * reported among the entries the caller can read; only admins merge them.
+ *
+ * Link checks request entry URLs and store the outcome on the rows; they
+ * run for admins (any entry, via RLS) and for the scheduled worker (service
+ * role client).
+ */
+
+type Supabase = SupabaseClient<Database>;
+type KbEntryRow = Database["public"]["Tables"]["kb_entries"]["Row"];
+
+export interface KbActor {
+  id: string;
+  role?: "admin" | "user";
+}
+
+export interface KbEntryListQuery {
+  after?: string;
+  limit: number;
+  q?: string;
+  tags: string[];
+  tag_match: KBTagMatch;
+  owner?: KBOwnerFilter;
+  sort: KBSortOrder;
+}
+
+export interface KbTagFacetsQuery {
+  q?: string;
+  owner?: KBOwnerFilter;
+}
+
+export interface KbNoteListQuery {
+  after?: string;
+  limit: number;
+}
+
+type KbNoteAction = "add" | "edit" | "delete";
+
+const PGRST_NO_ROWS = "PGRST116";
+
+function databaseError(message: string) {
+  return createAppError("DATABASE_ERROR", 500, message);
+}
+
+/**
+ * owner=me lists the caller's entries, so it needs a session
+ */
+function assertOwnerFilterAllowed(
+  actor: KbActor | null,
+  owner?: KBOwnerFilter,
+): void {
+  if (owner === "me" && !actor) {
+    throw createAppError(
+      "UNAUTHENTICATED",
+      401,
+      "Authentication required to list your own entries",
+    );
+  }
+}
+
+/**
+ * Drop the internal full-text column from a row
+ */
+export function toKbEntryDTO(row: KbEntryRow): KBEntryDTO {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { search_vector, ...entry } = row;
+  return entry;
+}
+
+/**
+ * Keyset filter for the ascending (title, id) order
+ * Titles are quoted so commas and parentheses stay part of the value.
+ */
+function titleKeysetFilter(title: string, id: string): string {
+  const quoted = `"${title.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+  return `title.gt.${quoted},and(title.eq.${quoted},id.gt.${id})`;
+}
+
+const SORT_COLUMNS: Record<Exclude<KBSortOrder, "relevance">, string> = {
+  updated: "updated_at",
+  created: "created_at",
+  title: "title",
+};
+
+/**
+ * List entries visible to the actor, newest first by default
+ * With `q`, matches are ranked by search_kb_entries and carry `rank` and
+ * `snippet`; `after` must come from a page with the same sort.
+ * @throws AppError UNAUTHENTICATED for owner=me without a session
+ */
+export async function listKbEntries(
+  supabase: Supabase,
+  actor: KbActor | null,
+  query: KbEntryListQuery,
+): Promise<KBListResponse> {
+  assertOwnerFilterAllowed(actor, query.owner);
+
+  if (query.q) {
+    return searchKbEntries(supabase, query.q, query);
+  }
+
+  let builder = supabase.from("kb_entries").select("*");
+
+  if (query.owner === "me" && actor) {
+    builder = builder.eq("user_id", actor.id);
+  } else if (query.owner === "public" || !actor) {
+    builder = builder.eq("is_public", true);
+  } else {
+    builder = builder.or(`user_id.eq.${actor.id},is_public.eq.true`);
+  }
+
+  if (query.tags.length > 0) {
+    builder =
+      query.tag_match === "all"
+        ? builder.contains("tags", query.tags)
+        : builder.overlaps("tags", query.tags);
+  }
+
+  const sort = query.sort === "relevance" ? "updated" : query.sort;
+  const column = SORT_COLUMNS[sort];
+  const cursor = query.after ? decodeKbCursor(sort, query.after) : null;
+  if (cursor) {
+    builder = builder.or(
+      sort === "title"
+        ? titleKeysetFilter(cursor.value, cursor.id)
+        : keysetFilter(column, query.after as string),
+    );
+  }
+
+  // Fetch limit + 1 to determine if there's a next page
+  const ascending = sort === "title";
+  const { data, error } = await builder
+    .order(column, { ascending })
+    .order("id", { ascending })
+    .limit(query.limit + 1);
+
+  if (error) {
+    throw databaseError(error.message);
+  }
+
+  return toKeysetPage((data ?? []).map(toKbEntryDTO), query.limit, (entry) =>
+    encodeKbCursor(sort, entry),
+  );
+}
+
+async function searchKbEntries(
+  supabase: Supabase,
+  q: string,
+  query: KbEntryListQuery,
+): Promise<KBListResponse> {
+  const cursor = query.after ? decodeKbCursor(query.sort, query.after) : null;
+
+  const { data, error } = await supabase.rpc("search_kb_entries", {
+    search_query: q,
+    tag_filter: query.tags.length > 0 ? query.tags : undefined,
+    match_all_tags: query.tag_match === "all",
+    owner_filter: query.owner,
+    sort_by: query.sort,
+    after_value: cursor?.value,
+    after_id: cursor?.id,
+    page_size: query.limit + 1,
+  });
+
+  if (error) {
+    throw databaseError(error.message);
+  }
+
+  return toKeysetPage<KBListItemDTO>(data ?? [], query.limit, (entry) =>
+    encodeKbCursor(query.sort, entry),
+  );
+}
+
+/**
+ * Count the tags of the entries visible to the actor, optionally only
+ * those matching a search; most used first (top 50)
+ * @throws AppError UNAUTHENTICATED for owner=me without a session
+ */
+export async function listKbTagFacets(
+  supabase: Supabase,
+  actor: KbActor | null,
+  query: KbTagFacetsQuery,
+): Promise<KBTagFacetsResponse> {
+  assertOwnerFilterAllowed(actor, query.owner);
+
+  const { data, error } = await supabase.rpc("kb_tag_facets", {
+    search_query: query.q,
+    owner_filter: query.owner,
+  });
+
+  if (error) {
+    throw databaseError(error.message);
+  }
+
+  return {
+    items: (data ?? []).map((facet) => ({
+      tag: facet.tag,
+      count: Number(facet.count),
+    })),
+  };
+}
+
+/* -------------------------------------------------------
+ * Duplicates and merge
+ * ----------------------------------------------------- */
+
+export interface KbDuplicateQuery {
+  url: string;
+  title: string;
+  /** Entry to leave out, when looking for duplicates of a saved entry */
+  excludeId?: string;
+}
+
+/**
+ * Entries the caller can read with the same canonical URL or a
+ * near-identical title, URL matches first
+ */
+export async function findKbDuplicates(
+  supabase: Supabase,
+  query: KbDuplicateQuery,
+): Promise<KBDuplicateDTO[]> {
+  const { data, error } = await supabase.rpc("find_kb_duplicates", {
+    url_input: query.url,
+    title_input: query.title,
+    ...(query.excludeId ? { exclude_id: query.excludeId } : {}),
+  });
+
+  if (error) {
+    throw databaseError(error.message);
+  }
+
+  return (data ?? []).map((row) => ({
+    ...row,
+    match: row.match === "url" ? "url" : "title",
+  }));
+}
+
+/**
+ * Possible duplicates of a saved entry
+ * @throws AppError NOT_FOUND when the entry is not visible to the caller
+ */
+export async function listKbEntryDuplicates(
+  supabase: Supabase,
+  entryId: string,
+): Promise<KBDuplicatesResponse> {
+  const { data, error } = await supabase
+    .from("kb_entries")
+    .select("id, title, url_original")
+    .eq("id", entryId)
+    .single();
+
+  if (error?.code === PGRST_NO_ROWS || (!error && !data)) {
+    throw createAppError("NOT_FOUND", 404, "Entry not found");
+  }
+  if (error) {
+    throw databaseError(error.message);
+  }
+
+  const items = await findKbDuplicates(supabase, {
+    url: data.url_original,
+    title: data.title,
+    excludeId: data.id,
+  });
+  return { items };
+}
+
+/** Errors raised by the merge_kb_entries function */
+const MERGE_ERRORS: Record<string, { code: ErrorCode; status: number }> = {
+  "42501": { code: "FORBIDDEN", status: 403 },
+  "22023": { code: "VALIDATION_ERROR", status: 400 },
+  P0002: { code: "NOT_FOUND", status: 404 },
+};
+
+/**
+ * Fold entries into the target (admins only): their tags are added to the
+ * target's, their notes move to it and they are deleted, in one transaction
+ * @returns The merged target entry
+ * @throws AppError FORBIDDEN / VALIDATION_ERROR / NOT_FOUND
+ */
+export async function mergeKbEntries(
+  supabase: Supabase,
+  actor: KbActor,
+  targetId: string,
+  cmd: MergeKBEntriesCommand,
+): Promise<KBEntryDTO> {
+  if (actor.role !== "admin") {
+    throw createAppError("FORBIDDEN", 403, "Only admins can merge KB entries");
+  }
+  if (cmd.source_ids.includes(targetId)) {
+    throw createAppError(
+      "VALIDATION_ERROR",
+      400,
+      "An entry cannot be merged into itself",
+    );
+  }
+
+  const { data, error } = await supabase.rpc("merge_kb_entries", {
+    target_id: targetId,
+    source_ids: cmd.source_ids,
+  });
+
+  const mapped = error?.code ? MERGE_ERRORS[error.code] : undefined;
+  if (error && mapped) {
+    throw createAppError(mapped.code, mapped.status, error.message);
+  }
+  if (error || !data) {
+    throw databaseError(error?.message ?? "Failed to merge entries");
+  }
+
+  return toKbEntryDTO(data);
+}
+
+/* -------------------------------------------------------
+ * Link checks
+ * ----------------------------------------------------- */
+
+export interface KbLinkCheckRun extends LinkCheckOptions {
+  /** Entries to check; otherwise the ones checked least recently */
+  entryIds?: string[];
+  /** Entries picked when no entryIds are given */
+  limit: number;
+  /** Entries checked since then are not picked again (default: 7 days ago) */
+  checkedBefore?: Date;
+  /** Links requested at once */
+  concurrency?: number;
+}
+
+const LINK_RECHECK_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+const LINK_CHECK_CONCURRENCY = 5;
+
+async function checkKbEntryLink(
+  supabase: Supabase,
+  entry: Pick<KbEntryRow, "id" | "url_original">,
+  options: LinkCheckOptions,
+): Promise<KBLinkCheckResult> {
+  const probe = await probeLink(entry.url_original, options);
+  const fields = { ...probe, link_checked_at: new Date().toISOString() };
+
+  const { error } = await supabase
+    .from("kb_entries")
+    .update(fields)
+    .eq("id", entry.id);
+
+  if (error) {
+    throw databaseError(error.message);
+  }
+
+  return {
+    id: entry.id,
+    url_original: entry.url_original,
+    ...fields,
+    health: getKbLinkHealth(fields),
+  };
+}
+
+/**
+ * Check the links of a batch of entries and store the results
+ * Only rows the client can update are checked: admins' clients and the
+ * service role client see all of them.
+ */
+export async function runKbLinkCheck(
+  supabase: Supabase,
+  run: KbLinkCheckRun,
+): Promise<KBLinkCheckReport> {
+  let builder = supabase.from("kb_entries").select("id, url_original");
+
+  if (run.entryIds?.length) {
+    builder = builder.in("id", run.entryIds);
+  } else {
+    const checkedBefore =
+      run.checkedBefore ?? new Date(Date.now() - LINK_RECHECK_AFTER_MS);
+    builder = builder
+      .or(
+        `link_checked_at.is.null,link_checked_at.lt.${checkedBefore.toISOString()}`,
+      )
+      .order("link_checked_at", { ascending: true, nullsFirst: true });
+  }
+
+  const { data, error } = await builder.limit(
+    run.entryIds?.length || run.limit,
+  );
+
+  if (error) {
+    throw databaseError(error.message);
+  }
+
+  const entries = data ?? [];
+  const concurrency = run.concurrency ?? LINK_CHECK_CONCURRENCY;
+  const results: KBLinkCheckResult[] = [];
+  for (let i = 0; i < entries.length; i += concurrency) {
+    const batch = entries.slice(i, i + concurrency);
+    results.push(
+      ...(await Promise.all(
+        batch.map((entry) => checkKbEntryLink(supabase, entry, run)),
+      )),
+    );
+  }
+
+  return {
+    checked: results.length,
+    broken: results.filter((result) => result.health === "broken").length,
+    moved: results.filter((result) => result.health === "moved").length,
+    results,
+  };
+}
+
+/* -------------------------------------------------------
+ * Notes
+ * ----------------------------------------------------- */
+
+type KbNoteEntry = Pick<KbEntryRow, "id" | "user_id" | "is_public">;
+
+/**
+ * Fetch the ownership fields of an entry the caller can read
+ * @throws AppError NOT_FOUND when missing or hidden by RLS
+ */
+async function getNoteEntry(
+  supabase: Supabase,
+  entryId: string,
+): Promise<KbNoteEntry> {
+  const { data, error } = await supabase
+    .from("kb_entries")
+    .select("id, user_id, is_public")
+    .eq("id", entryId)
+    .single();
+
+  if (error?.code === PGRST_NO_ROWS || (!error && !data)) {
+    throw createAppError("NOT_FOUND", 404, "Entry not found");
+  }
+  if (error) {
+    throw databaseError(error.message);
+  }
+
+  return data;
+}
+
+/**
+ * Non-admins may only touch notes on their own private entries
+ * @throws AppError FORBIDDEN otherwise
+ */
+function assertCanWriteNotes(
+  actor: KbActor,
+  entry: KbNoteEntry,
+  action: KbNoteAction,
+): void {
+  if (actor.role === "admin") return;
+
+  const target = action === "add" ? "to" : "on";
+  if (entry.is_public) {
+    throw createAppError(
+      "FORBIDDEN",
+      403,
+      `Only admins can ${action} notes ${target} public KB entries`,
+    );
+  }
+  if (entry.user_id !== actor.id) {
+    throw createAppError(
+      "FORBIDDEN",
+      403,
+      `You can only ${action} notes ${target} your own KB entries`,
+    );
+  }
+}
+
+/**
+ * Fetch a note of an entry the actor may edit or delete
+ * @throws AppError NOT_FOUND / FORBIDDEN
+ */
+async function getWritableNote(
+  supabase: Supabase,
+  actor: KbActor,
+  entryId: string,
+  noteId: string,
+  action: Exclude<KbNoteAction, "add">,
+): Promise<KBNoteDTO> {
+  const entry = await getNoteEntry(supabase, entryId);
+  assertCanWriteNotes(actor, entry, action);
+
+  const { data, error } = await supabase
+    .from("kb_notes")
+    .select("*")
+    .eq("id", noteId)
+    .eq("entry_id", entryId)
+    .single();
+
+  if (error?.code === PGRST_NO_ROWS || (!error && !data)) {
+    throw createAppError("NOT_FOUND", 404, "Note not found");
+  }
+  if (error) {
+    throw databaseError(error.message);
+  }
+  if (actor.role !== "admin" && data.user_id !== actor.id) {
+    throw createAppError(
+      "FORBIDDEN",
+      403,
+      `You can only ${action} your own notes`,
+    );
+  }
+
+  return data;
+}
+
+/**
+ * List notes of an entry, oldest first so they read as a thread
+ * @throws AppError NOT_FOUND when the entry is not visible to the caller
+ */
+export async function listKbNotes(
+  supabase: Supabase,
+  entryId: string,
+  query: KbNoteListQuery,
+): Promise<KBNotesListResponse> {
+  await getNoteEntry(supabase, entryId);
+
+  let builder = supabase.from("kb_notes").select("*").eq("entry_id", entryId);
+
+  if (query.after) {
+    builder = builder.or(keysetFilter("created_at", query.after, true));
+  }
+
+  const { data, error } = await builder
+    .order("created_at", { ascending: true })
+    .order("id", { ascending: true })
+    .limit(query.limit + 1);
+
+  if (error) {
+    throw databaseError(error.message);
+  }
+
+  return toKeysetPage(
+    data,
+    query.limit,
+    (note) => `${note.created_at},${note.id}`,
+  );
+}
+
+/**
+ * Add a note to an entry
+ * @throws AppError NOT_FOUND / FORBIDDEN (see assertCanWriteNotes)
+ */
+export async function addKbNote(
+  supabase: Supabase,
+  actor: KbActor,
+  entryId: string,
+  cmd: CreateKBNoteCommand,
+): Promise<KBNoteDTO> {
+  const entry = await getNoteEntry(supabase, entryId);
+  assertCanWriteNotes(actor, entry, "add");
+
+  const { data, error } = await supabase
+    .from("kb_notes")
+    .insert({ entry_id: entryId, user_id: actor.id, body: cmd.body })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw databaseError(error?.message ?? "Failed to create note");
+  }
+
+  return data;
+}
+
+/**
+ * Replace the body of a note
+ * @throws AppError NOT_FOUND / FORBIDDEN
+ */
+export async function updateKbNote(
+  supabase: Supabase,
+  actor: KbActor,
+  entryId: string,
+  noteId: string,
+  cmd: UpdateKBNoteCommand,
+): Promise<KBNoteDTO> {
+  await getWritableNote(supabase, actor, entryId, noteId, "edit");
+
+  const { data, error } = await supabase
+    .from("kb_notes")
+    .update({ body: cmd.body })
+    .eq("id", noteId)
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw databaseError(error?.message ?? "Failed to update note");
+  }
+
+  return data;
+}
+
+/**
+ * Delete a note
+ * @throws AppError NOT_FOUND / FORBIDDEN
+ */
+export async function deleteKbNote(
+  supabase: Supabase,
+  actor: KbActor,
+  entryId: string,
+  noteId: string,
+): Promise<void> {
+  await getWritableNote(supabase, actor, entryId, noteId, "delete");
+
+  const { error } = await supabase.from("kb_notes").delete().eq("id", noteId);
+
+  if (error) {
+    throw databaseError(error.message);
+  }
+}
+
+const KB_EXPORT_PAGE_SIZE = 1000;
+
+/** Chunk size of url_canonical lookups, keeps the query string short */
+const KB_IMPORT_LOOKUP_CHUNK = 100;
+
+const MAX_KB_TITLE_LENGTH = 200;
+const MAX_KB_NOTE_LENGTH = 5000;
+
+const PG_UNIQUE_VIOLATION = "23505";
+
+/**
+ * All entries of a user with their notes (oldest first), for GET /api/kb/export
+ */
+export async function exportKbEntries(
+  supabase: Supabase,
+  userId: string,
+): Promise<KBExportDTO> {
+  const result: KBExportDTO = { entries: [], notes: [] };
+
+  for (let from = 0; ; from += KB_EXPORT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("kb_entries")
+      .select("*, kb_notes(*)")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + KB_EXPORT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw databaseError(error.message);
+    }
+
+    for (const { kb_notes, ...row } of data) {
+      result.entries.push(toKbEntryDTO(row));
+      result.notes.push(
+        ...[...kb_notes].sort((a, b) =>
+          a.created_at.localeCompare(b.created_at),
+        ),
+      );
+    }
+
+    if (data.length < KB_EXPORT_PAGE_SIZE) {
+      return result;
+    }
+  }
+}
+
+function isHttpUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Ids of the actor's entries by url_canonical
+ */
+async function findKbEntriesByCanonicalUrl(
+  supabase: Supabase,
+  userId: string,
+  canonicalUrls: string[],
+): Promise<Map<string, string>> {
+  const found = new Map<string, string>();
+
+  for (let i = 0; i < canonicalUrls.length; i += KB_IMPORT_LOOKUP_CHUNK) {
+    const { data, error } = await supabase
+      .from("kb_entries")
+      .select("id, url_canonical")
+      .eq("user_id", userId)
+      .in("url_canonical", canonicalUrls.slice(i, i + KB_IMPORT_LOOKUP_CHUNK));
+
+    if (error) {
+      throw databaseError(error.message);
+    }
+    for (const row of data) {
+      if (row.url_canonical) found.set(row.url_canonical, row.id);
+    }
+  }
+
+  return found;
+}
+
+type KbEntryInsert = Database["public"]["Tables"]["kb_entries"]["Insert"];
+
+interface PendingKbImport {
+  result: KBImportRowResult;
+  insert: KbEntryInsert;
+  notes: string[];
+}
+
+/**
+ * Insert the new entries in one statement; when a concurrent insert hits
+ * the unique URL index, retry row by row so only that row is skipped
+ */
+async function insertKbImportEntries(
+  supabase: Supabase,
+  pending: PendingKbImport[],
+): Promise<void> {
+  const { data, error } = await supabase
+    .from("kb_entries")
+    .insert(pending.map((item) => item.insert))
+    .select("id");
+
+  if (!error && data) {
+    // PostgREST returns inserted rows in request order
+    data.forEach((row, index) => {
+      pending[index].result.status = "created";
+      pending[index].result.entry_id = row.id;
+    });
+    return;
+  }
+  if (error?.code !== PG_UNIQUE_VIOLATION) {
+    throw databaseError(error?.message ?? "Failed to import entries");
+  }
+
+  for (const item of pending) {
+    const { data: row, error: rowError } = await supabase
+      .from("kb_entries")
+      .insert(item.insert)
+      .select("id")
+      .single();
+
+    if (rowError?.code === PG_UNIQUE_VIOLATION) {
+      item.result.status = "skipped";
+      item.result.reason = "Already in your knowledge base";
+    } else if (rowError || !row) {
+      item.result.status = "failed";
+      item.result.reason = rowError?.message ?? "Failed to create entry";
+    } else {
+      item.result.status = "created";
+      item.result.entry_id = row.id;
+    }
+  }
+}
+
+/**
+ * Notes of the created entries, in one statement
+ */
+async function insertKbImportNotes(
+  supabase: Supabase,
+  actor: KbActor,
+  created: PendingKbImport[],
+): Promise<void> {
+  const rows = created.flatMap((item) =>
+    item.notes.map((body) => ({
+      entry_id: item.result.entry_id as string,
+      user_id: actor.id,
+      body,
+    })),
+  );
+  if (rows.length === 0) return;
+
+  const { error } = await supabase.from("kb_notes").insert(rows);
+
+  for (const item of created) {
+    if (item.notes.length === 0) continue;
+    if (error) {
+      item.result.reason = `Entry created without notes: ${error.message}`;
+    } else {
+      item.result.notes = item.notes.length;
+    }
+  }
+}
+
+/**
+ * Import entries into the actor's KB, for POST /api/kb/import
+ *
+ * Rows are skipped when their URL repeats an earlier row or an entry the
+ * actor already has (compared by url_canonical), and fail when the URL is
+ * not http(s). Titles default to the URL; only admins keep is_public.
+ *
+ * @returns Per-row report in input order
+ */
+export async function importKbEntries(
+  supabase: Supabase,
+  actor: KbActor,
+  candidates: KbImportCandidate[],
+): Promise<KBImportReport> {
+  const results: KBImportRowResult[] = [];
+  const pending = new Map<string, PendingKbImport>();
+
+  for (const candidate of candidates) {
+    const result: KBImportRowResult = {
+      row: candidate.row,
+      title: candidate.title,
+      url: candidate.url,
+      status: "failed",
+    };
+    results.push(result);
+
+    if (!isHttpUrl(candidate.url)) {
+      result.reason = candidate.url
+        ? "URL must start with http:// or https://"
+        : "URL is missing";
+      continue;
+    }
+
+    const canonical = canonicalizeKbUrl(candidate.url);
+    if (pending.has(canonical)) {
+      result.status = "skipped";
+      result.reason = "Duplicate URL in this file";
+      continue;
+    }
+
+    pending.set(canonical, {
+      result,
+      insert: {
+        user_id: actor.id,
+        title: (candidate.title || candidate.url).slice(0, MAX_KB_TITLE_LENGTH),
+        url_original: candidate.url,
+        tags: candidate.tags,
+        is_public: actor.role === "admin" ? !!candidate.isPublic : false,
+        // search_vector is required by type but auto-populated by trigger
+        search_vector: null as unknown,
+      },
+      notes: candidate.notes
+        .map((note) => note.trim().slice(0, MAX_KB_NOTE_LENGTH))
+        .filter(Boolean),
+    });
+  }
+
+  const existing = await findKbEntriesByCanonicalUrl(supabase, actor.id, [
+    ...pending.keys(),
+  ]);
+  const toInsert: PendingKbImport[] = [];
+  for (const [canonical, item] of pending) {
+    const entryId = existing.get(canonical);
+    if (entryId) {
+      item.result.status = "skipped";
+      item.result.reason = "Already in your knowledge base";
+      item.result.entry_id = entryId;
+    } else {
+      toInsert.push(item);
+    }
+  }
+
+  if (toInsert.length > 0) {
+    await insertKbImportEntries(supabase, toInsert);
+    await insertKbImportNotes(
+      supabase,
+      actor,
+      toInsert.filter((item) => item.result.status === "created"),
+    );
+  }
+
+  const count = (status: KBImportRowResult["status"]) =>
+    results.filter((result) => result.status === status).length;
+
+  return {
+    summary: {
+      total: results.length,
+      created: count("created"),
+      skipped: count("skipped"),
+      failed: count("failed"),
+    },
+    results,
+  };
+}
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  MockOpenRouterProvider,
+  mockImproveText,
+  parseMockOpenRouterSetting,
+} from "./openrouter-mock";
+import type { MockOpenRouterOptions } from "./openrouter-mock";
+import { OpenRouterError, OpenRouterService } from "./openrouter.service";
+
+function createService(
+  options: MockOpenRouterOptions,
+  config: { maxRetries?: number; timeout?: number } = {},
+) {
+  const provider = new MockOpenRouterProvider(options);
+  const service = new OpenRouterService({
+    apiKey: "mock",
+    maxRetries: config.maxRetries ?? 3,
+    timeout: config.timeout,
+    usageConfig: { dailyLimit: 10, resetHour: 0 },
+    supabaseClient: null,
+    fetch: provider.fetch,
+  });
+  return { provider, service };
+}
+
+const request = {
+  context: "charter" as const,
+  field: "notes" as const,
+  text: "  checked   login\nsaw no error ",
+};
+
+async function processError(service: OpenRouterService) {
+  return service.processText(request, "user-1").then(
+    () => {
+      throw new Error("expected processText to fail");
+    },
+    (error: unknown) => error as OpenRouterError,
+  );
+}
+
+describe("MockOpenRouterProvider", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns a deterministic completion through the real service", async () => {
+    const { provider, service } = createService({});
+
+    const result = await service.processText(request, "user-1");
+
+    expect(result.proposal).toBe("Checked login\nSaw no error");
+    expect(result.model).toBe("mock/qa-toolsmith");
+    expect(result.usage.completion).toBeGreaterThan(0);
+    expect(provider.requests).toHaveLength(1);
+    expect(provider.requests[0].url).toBe(
+      "https://openrouter.ai/api/v1/chat/completions",
+    );
+    expect(provider.requests[0].body).toMatchObject({
+      model: expect.any(String),
+    });
+  });
+
+  it("retries after the Retry-After delay on 429", async () => {
+    vi.useFakeTimers();
+    const { provider, service } = createService({
+      fixtures: ["rate_limited"],
+      retryAfter: 2,
+    });
+
+    const pending = service.processText(request, "user-1");
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(provider.requests).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(pending).resolves.toMatchObject({
+      proposal: "Checked login\nSaw no error",
+    });
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  it("fails fast when Retry-After exceeds the retry budget", async () => {
+    const { provider, service } = createService({
+      scenario: "rate_limited",
+      retryAfter: 60,
+    });
+
+    const error = await processError(service);
+
+    expect(error).toBeInstanceOf(OpenRouterError);
+    expect(error).toMatchObject({ code: "RATE_LIMITED", retryAfter: 60 });
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it("reports a timeout when the provider does not answer", async () => {
+    const { service } = createService(
+      { scenario: "timeout" },
+      { maxRetries: 1, timeout: 20 },
+    );
+
+    await expect(processError(service)).resolves.toMatchObject({
+      code: "TIMEOUT",
+      status: 408,
+      retryable: true,
+    });
+  });
+
+  it("maps malformed JSON to INVALID_RESPONSE", async () => {
+    const { service } = createService(
+      { scenario: "malformed_json" },
+      { maxRetries: 1 },
+    );
+
+    await expect(processError(service)).resolves.toMatchObject({
+      code: "INVALID_RESPONSE",
+      status: 502,
+    });
+  });
+
+  it("retries responses that fail format validation", async () => {
+    vi.useFakeTimers();
+    const { provider, service } = createService({
+      fixtures: ["invalid_response"],
+    });
+
+    const pending = service.processText(request, "user-1");
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(pending).resolves.toMatchObject({
+      proposal: "Checked login\nSaw no error",
+    });
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  it("replays recorded responses in order", async () => {
+    const { provider, service } = createService(
+      {
+        fixtures: [
+          {
+            status: 401,
+            body: { error: { code: "INVALID_API_KEY", message: "No auth" } },
+          },
+        ],
+      },
+      { maxRetries: 1 },
+    );
+
+    await expect(processError(service)).resolves.toMatchObject({
+      code: "INVALID_API_KEY",
+      status: 401,
+      retryable: false,
+    });
+
+    provider.enqueue({
+      body: {
+        model: "recorded/model",
+        choices: [{ message: { content: "Recorded proposal" } }],
+        usage: { prompt_tokens: 1, completion_tokens: 2, total_tokens: 3 },
+      },
+    });
+    await expect(service.processText(request, "user-1")).resolves.toMatchObject(
+      { proposal: "Recorded proposal", model: "recorded/model" },
+    );
+  });
+});
+
+describe("mockImproveText", () => {
+  it("normalizes whitespace and capitalizes lines", () => {
+    expect(mockImproveText("  a  b\n\nc ")).toBe("A b\n\nC");
+  });
+});
+
+describe("parseMockOpenRouterSetting", () => {
+  it.each([
+    [undefined, null],
+    ["false", null],
+    ["unknown", null],
+    ["true", {}],
+    ["timeout", { scenario: "timeout" }],
+  ])("parses %s", (value, expected) => {
+    expect(parseMockOpenRouterSetting(value)).toEqual(expected);
+  });
+});
@@ -0,0 +1,341 @@
+import type { Message, ModelInfo, OpenRouterResponse } from "../../types/types";
+import { formatSSE } from "../utils/sse";
+
+/**
+ * Failure modes the mock provider can simulate.
+ *
+ * - completion: deterministic canned completion built from the request
+ *   (an event stream when the request has `stream: true`)
+ * - rate_limited: 429 with a Retry-After header
+ * - timeout: never answers; rejects with AbortError when the caller aborts
+ * - malformed_json: 200 with a truncated JSON body
+ * - invalid_response: 200 with valid JSON that has no choices
+ * - server_error: 503 with an OpenRouter-style error body
+ * - stalled_stream: streams the first word, then hangs until aborted
+ */
+export type MockOpenRouterScenario =
+  | "completion"
+  | "rate_limited"
+  | "timeout"
+  | "malformed_json"
+  | "invalid_response"
+  | "server_error"
+  | "stalled_stream";
+
+export const MOCK_OPENROUTER_SCENARIOS: readonly MockOpenRouterScenario[] = [
+  "completion",
+  "rate_limited",
+  "timeout",
+  "malformed_json",
+  "invalid_response",
+  "server_error",
+  "stalled_stream",
+];
+
+/**
+ * Recorded provider response replayed verbatim
+ */
+export interface MockOpenRouterRecording {
+  status?: number;
+  headers?: Record<string, string>;
+  /** Objects are serialized as JSON; strings are sent as-is */
+  body: unknown;
+}
+
+/** One queued reply: a scenario name or a recorded response */
+export type MockOpenRouterFixture =
+  | MockOpenRouterScenario
+  | MockOpenRouterRecording;
+
+export interface MockOpenRouterOptions {
+  /** Scenario used once the fixture queue is empty (default: completion) */
+  scenario?: MockOpenRouterScenario;
+  /** Replies consumed in order, one per request */
+  fixtures?: MockOpenRouterFixture[];
+  /** Retry-After seconds sent with rate_limited replies (default: 1) */
+  retryAfter?: number;
+  model?: string;
+}
+
+/**
+ * Request as seen by the mock, for assertions in tests
+ */
+export interface MockOpenRouterRequest {
+  url: string;
+  method: string;
+  body: Record<string, unknown> | null;
+}
+
+const MOCK_MODEL = "mock/qa-toolsmith";
+
+export const MOCK_MODELS: ModelInfo[] = [
+  {
+    id: MOCK_MODEL,
+    name: "QA Toolsmith mock model",
+    description: "Deterministic offline stand-in for OpenRouter",
+    pricing: { prompt: 0, completion: 0 },
+  },
+];
+
+/**
+ * Text the user asked to improve, without the instruction prefix added by
+ * the service's MessageBuilder.
+ */
+function extractUserText(messages: unknown): string {
+  const list = Array.isArray(messages) ? (messages as Message[]) : [];
+  const content = list.findLast((message) => message.role === "user")?.content;
+  if (!content) {
+    return "";
+  }
+  const separator = content.indexOf("\n\n");
+  return separator === -1 ? content : content.slice(separator + 2);
+}
+
+/**
+ * Deterministic "improvement": trims each line, collapses inner whitespace
+ * and capitalizes the first letter. Equal input always gives equal output.
+ */
+export function mockImproveText(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => {
+      const trimmed = line.trim().replace(/\s+/g, " ");
+      return trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+    })
+    .join("\n")
+    .trim();
+}
+
+function jsonResponse(
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(typeof body === "string" ? body : JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+/**
+ * Offline stand-in for the OpenRouter API.
+ *
+ * Serves /chat/completions and /models through a fetch-compatible function,
+ * so OpenRouterService runs its real request, retry and validation paths
+ * without network access. Pass `provider.fetch` as the service's `fetch`
+ * option; every request is recorded in `requests`.
+ */
+export class MockOpenRouterProvider {
+  readonly requests: MockOpenRouterRequest[] = [];
+  private fixtures: MockOpenRouterFixture[];
+  private scenario: MockOpenRouterScenario;
+  private retryAfter: number;
+  private model: string;
+
+  constructor(options: MockOpenRouterOptions = {}) {
+    this.fixtures = [...(options.fixtures ?? [])];
+    this.scenario = options.scenario ?? "completion";
+    this.retryAfter = options.retryAfter ?? 1;
+    this.model = options.model ?? MOCK_MODEL;
+  }
+
+  /** Queue more replies after construction */
+  enqueue(...fixtures: MockOpenRouterFixture[]): void {
+    this.fixtures.push(...fixtures);
+  }
+
+  fetch = async (
+    input: string | URL | Request,
+    init?: RequestInit,
+  ): Promise<Response> => {
+    const url = input instanceof Request ? input.url : String(input);
+    let body: Record<string, unknown> | null = null;
+    if (typeof init?.body === "string") {
+      try {
+        body = JSON.parse(init.body);
+      } catch {
+        body = null;
+      }
+    }
+    this.requests.push({ url, method: init?.method ?? "GET", body });
+
+    const fixture = this.fixtures.shift() ?? this.scenario;
+    if (typeof fixture !== "string") {
+      return jsonResponse(fixture.body, fixture.status, fixture.headers);
+    }
+    if (fixture === "timeout") {
+      return this.hang(init?.signal);
+    }
+    if (fixture === "stalled_stream") {
+      return this.stalledStream(body, init?.signal);
+    }
+    return this.reply(fixture, new URL(url).pathname, body);
+  };
+
+  private reply(
+    scenario: Exclude<MockOpenRouterScenario, "timeout" | "stalled_stream">,
+    pathname: string,
+    body: Record<string, unknown> | null,
+  ): Response {
+    switch (scenario) {
+      case "rate_limited":
+        return jsonResponse(
+          { error: { code: "RATE_LIMITED", message: "Rate limit exceeded" } },
+          429,
+          { "Retry-After": String(this.retryAfter) },
+        );
+      case "server_error":
+        return jsonResponse(
+          {
+            error: {
+              code: "SERVICE_UNAVAILABLE",
+              message: "Mock provider unavailable",
+            },
+          },
+          503,
+        );
+      case "malformed_json":
+        return jsonResponse('{"choices": [{"message": {"content": "');
+      case "invalid_response":
+        return jsonResponse({ model: this.model, usage: {} });
+      case "completion":
+        if (pathname.endsWith("/models")) {
+          return jsonResponse({ data: MOCK_MODELS });
+        }
+        return body?.stream
+          ? this.streamedCompletion(body)
+          : jsonResponse(this.completion(body));
+    }
+  }
+
+  private completion(body: Record<string, unknown> | null): OpenRouterResponse {
+    const text = extractUserText(body?.messages);
+    const proposal = mockImproveText(text);
+    const content = body?.response_format
+      ? JSON.stringify({
+          proposal,
+          diff: "",
+          reasoning: "Mock provider: normalized whitespace and capitalization",
+        })
+      : proposal;
+    const promptTokens = Math.ceil(text.length / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return {
+      id: `mock-${this.requests.length}`,
+      object: "chat.completion",
+      created: 0,
+      model: this.model,
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content },
+          finish_reason: "stop",
+        },
+      ],
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    };
+  }
+
+  /**
+   * The canned completion as OpenRouter-style SSE: one chunk per word,
+   * usage in the last chunk, then [DONE].
+   */
+  private streamedCompletion(body: Record<string, unknown>): Response {
+    const completion = this.completion(body);
+    const words = completion.choices[0].message.content.match(/\S+\s*|\s+/g);
+    const events = [
+      ...(words ?? []).map((word) =>
+        formatSSE("message", {
+          model: this.model,
+          choices: [{ delta: { content: word } }],
+        }),
+      ),
+      formatSSE("message", {
+        model: this.model,
+        choices: [{ delta: {}, finish_reason: "stop" }],
+        usage: completion.usage,
+      }),
+      formatSSE("message", "[DONE]"),
+    ];
+
+    const encoder = new TextEncoder();
+    return new Response(
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const event of events) {
+            controller.enqueue(encoder.encode(event));
+          }
+          controller.close();
+        },
+      }),
+      { status: 200, headers: { "Content-Type": "text/event-stream" } },
+    );
+  }
+
+  private stalledStream(
+    body: Record<string, unknown> | null,
+    signal?: AbortSignal | null,
+  ): Response {
+    const first = mockImproveText(extractUserText(body?.messages)).split(
+      " ",
+    )[0];
+    const encoder = new TextEncoder();
+    return new Response(
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(
+            encoder.encode(
+              formatSSE("message", {
+                choices: [{ delta: { content: first } }],
+              }),
+            ),
+          );
+          signal?.addEventListener(
+            "abort",
+            () =>
+              controller.error(
+                new DOMException("The operation was aborted.", "AbortError"),
+              ),
+            { once: true },
+          );
+        },
+      }),
+      { status: 200, headers: { "Content-Type": "text/event-stream" } },
+    );
+  }
+
+  private hang(signal?: AbortSignal | null): Promise<Response> {
+    return new Promise((_, reject) => {
+      const abort = () =>
+        reject(new DOMException("The operation was aborted.", "AbortError"));
+      if (signal?.aborted) {
+        abort();
+        return;
+      }
+      signal?.addEventListener("abort", abort, { once: true });
+    });
+  }
+}
+
+/**
+ * Parse the OPENROUTER_MOCK setting: unset or "false" disables the mock,
+ * "true" uses canned completions and a scenario name forces that scenario.
+ */
+export function parseMockOpenRouterSetting(
+  value: string | undefined,
+): MockOpenRouterOptions | null {
+  if (!value || value === "false") {
+    return null;
+  }
+  if (value === "true") {
+    return {};
+  }
+  return MOCK_OPENROUTER_SCENARIOS.includes(value as MockOpenRouterScenario)
+    ? { scenario: value as MockOpenRouterScenario }
+    : null;
+}
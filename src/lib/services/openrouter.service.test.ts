@@ -0,0 +1,399 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { mockFetch } from "../../test/setup";
+import {
+  OpenRouterError,
+  OpenRouterService,
+  toAIAppError,
+} from "./openrouter.service";
+import { MockOpenRouterProvider } from "./openrouter-mock";
+import { logger } from "../utils/logger";
+import type { AITextStreamEvent } from "../../types/types";
+
+vi.mock("../utils/logger", () => ({
+  logger: {
+    debug: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+/**
+ * Supabase mock covering the calls made by the usage tracker:
+ * rpc("can_invoke_ai"), rpc("record_ai_tokens"), insert into
+ * ai_invocations/usage_events and the ai_daily_usage lookup.
+ */
+function createSupabaseMock(options: {
+  allowed?: boolean;
+  used?: number;
+  tokensError?: string;
+}) {
+  const inserts: { table: string; row: any }[] = [];
+
+  const client = {
+    rpc: vi.fn((fn: string) =>
+      Promise.resolve(
+        fn === "record_ai_tokens"
+          ? {
+              data: null,
+              error: options.tokensError
+                ? { message: options.tokensError }
+                : null,
+            }
+          : { data: options.allowed ?? true, error: null },
+      ),
+    ),
+    from: vi.fn((table: string) => {
+      const builder: any = {
+        insert: vi.fn((row: unknown) => {
+          inserts.push({ table, row });
+          return Promise.resolve({ error: null });
+        }),
+        select: vi.fn(() => builder),
+        eq: vi.fn(() => builder),
+        single: vi.fn(() =>
+          Promise.resolve(
+            options.used === undefined
+              ? { data: null, error: { code: "PGRST116", message: "none" } }
+              : { data: { used: options.used }, error: null },
+          ),
+        ),
+      };
+      return builder;
+    }),
+  };
+
+  return { client, inserts };
+}
+
+function createService(supabaseClient: unknown, apiKey = "test-key") {
+  return new OpenRouterService({
+    apiKey,
+    maxRetries: 1,
+    usageConfig: { dailyLimit: 10, resetHour: 0 },
+    supabaseClient,
+  });
+}
+
+function completion(content: string) {
+  return {
+    ok: true,
+    status: 200,
+    json: vi.fn().mockResolvedValue({
+      model: "test/model",
+      choices: [{ message: { content } }],
+      usage: { prompt_tokens: 40, completion_tokens: 12, total_tokens: 52 },
+    }),
+  };
+}
+
+const request = {
+  context: "template" as const,
+  field: "steps" as const,
+  text: "click login\nsee error",
+};
+
+describe("OpenRouterService", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.mocked(logger.error).mockClear();
+  });
+
+  describe("processText", () => {
+    it("checks the daily limit, returns a computed diff and records the call", async () => {
+      const { client, inserts } = createSupabaseMock({ allowed: true });
+      mockFetch.mockResolvedValueOnce(
+        completion(
+          JSON.stringify({
+            proposal: "1. Click Login\nsee error",
+            diff: "model diff",
+          }),
+        ),
+      );
+
+      const result = await createService(client).processText(request, "user-1");
+
+      expect(client.rpc).toHaveBeenCalledWith("can_invoke_ai", {
+        uid: "user-1",
+      });
+      expect(result.proposal).toBe("1. Click Login\nsee error");
+      expect(result.diff).toBe("- click login\n+ 1. Click Login\n  see error");
+      expect(
+        inserts.find((i) => i.table === "ai_invocations")?.row,
+      ).toMatchObject({
+        user_id: "user-1",
+        action: "improve",
+        model: "test/model",
+        tokens_prompt: 40,
+        tokens_completion: 12,
+        success: true,
+        meta: { context: "template", field: "steps" },
+      });
+      expect(client.rpc).toHaveBeenCalledWith("record_ai_tokens", {
+        uid: "user-1",
+        tokens: 52,
+      });
+    });
+
+    it("logs token accounting failures without failing the call", async () => {
+      const { client, inserts } = createSupabaseMock({
+        allowed: true,
+        tokensError: "permission denied for function record_ai_tokens",
+      });
+      mockFetch.mockResolvedValueOnce(
+        completion(JSON.stringify({ proposal: "1. Click Login" })),
+      );
+
+      const result = await createService(client).processText(request, "user-1");
+
+      expect(result.proposal).toBe("1. Click Login");
+      expect(logger.error).toHaveBeenCalledWith(
+        "Failed to record AI tokens for user user-1:",
+        "permission denied for function record_ai_tokens",
+      );
+      expect(inserts.filter((i) => i.table === "ai_invocations")).toHaveLength(
+        1,
+      );
+    });
+
+    it("rejects with RATE_LIMITED when can_invoke_ai returns false", async () => {
+      const { client, inserts } = createSupabaseMock({ allowed: false });
+
+      const error = await createService(client)
+        .processText(request, "user-1")
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(OpenRouterError);
+      expect(error).toMatchObject({ code: "RATE_LIMITED", status: 429 });
+      expect((error as OpenRouterError).retryAfter).toBeGreaterThan(0);
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(inserts).toHaveLength(0);
+    });
+
+    it("records failed provider calls", async () => {
+      const { client, inserts } = createSupabaseMock({ allowed: true });
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        headers: new Headers(),
+        json: vi.fn().mockResolvedValue({
+          error: { message: "Overloaded", code: "OVERLOADED" },
+        }),
+      });
+
+      await expect(
+        createService(client).processText(request, "user-1"),
+      ).rejects.toMatchObject({ code: "OVERLOADED", status: 503 });
+
+      expect(
+        inserts.find((i) => i.table === "ai_invocations")?.row,
+      ).toMatchObject({
+        success: false,
+        error_code: "OVERLOADED",
+        tokens_prompt: 0,
+      });
+    });
+
+    it("fails fast without an API key", async () => {
+      const { client } = createSupabaseMock({ allowed: true });
+
+      await expect(
+        createService(client, "").processText(request, "user-1"),
+      ).rejects.toMatchObject({ code: "CONFIGURATION_ERROR" });
+      expect(client.rpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("processTextStream", () => {
+    function createStreamingService(
+      supabaseClient: unknown,
+      provider: MockOpenRouterProvider,
+      timeout?: number,
+    ) {
+      return new OpenRouterService({
+        apiKey: "test-key",
+        timeout,
+        usageConfig: { dailyLimit: 10, resetHour: 0 },
+        supabaseClient,
+        fetch: provider.fetch,
+      });
+    }
+
+    async function collect(stream: ReadableStream<AITextStreamEvent>) {
+      const events: AITextStreamEvent[] = [];
+      const reader = stream.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          return events;
+        }
+        events.push(value);
+      }
+    }
+
+    it("streams deltas and reconciles usage when the stream ends", async () => {
+      const { client, inserts } = createSupabaseMock({ allowed: true });
+      const provider = new MockOpenRouterProvider();
+
+      const stream = await createStreamingService(
+        client,
+        provider,
+      ).processTextStream(request, "user-1");
+      const events = await collect(stream);
+
+      expect(provider.requests[0].body).toMatchObject({
+        stream: true,
+        usage: { include: true },
+      });
+      expect(provider.requests[0].body).not.toHaveProperty("response_format");
+      const deltas = events.filter((event) => event.type === "delta");
+      expect(deltas.length).toBeGreaterThan(1);
+      expect(events.at(-1)).toEqual({
+        type: "done",
+        result: {
+          proposal: "Click login\nSee error",
+          diff: "- click login\n- see error\n+ Click login\n+ See error",
+          model: "mock/qa-toolsmith",
+          usage: { prompt: expect.any(Number), completion: expect.any(Number) },
+        },
+      });
+      const invocation = inserts.find((i) => i.table === "ai_invocations");
+      expect(invocation?.row).toMatchObject({
+        success: true,
+        model: "mock/qa-toolsmith",
+      });
+      expect(client.rpc).toHaveBeenCalledWith("record_ai_tokens", {
+        uid: "user-1",
+        tokens:
+          invocation?.row.tokens_prompt + invocation?.row.tokens_completion,
+      });
+    });
+
+    it("rejects before streaming when the provider refuses the request", async () => {
+      const { client } = createSupabaseMock({ allowed: true });
+      const provider = new MockOpenRouterProvider({
+        scenario: "rate_limited",
+        retryAfter: 5,
+      });
+
+      await expect(
+        createStreamingService(client, provider).processTextStream(
+          request,
+          "user-1",
+        ),
+      ).rejects.toMatchObject({ code: "RATE_LIMITED", retryAfter: 5 });
+    });
+
+    it("aborts the upstream request when the caller aborts", async () => {
+      const { client, inserts } = createSupabaseMock({ allowed: true });
+      const provider = new MockOpenRouterProvider({
+        scenario: "stalled_stream",
+      });
+      const controller = new AbortController();
+
+      const stream = await createStreamingService(
+        client,
+        provider,
+      ).processTextStream(request, "user-1", controller.signal);
+      const reader = stream.getReader();
+      await expect(reader.read()).resolves.toMatchObject({
+        value: { type: "delta", text: "Click" },
+      });
+
+      controller.abort();
+
+      await expect(reader.read()).resolves.toEqual({
+        done: false,
+        value: {
+          type: "error",
+          error: { code: "CANCELLED", message: "Request cancelled" },
+        },
+      });
+      await vi.waitFor(() =>
+        expect(
+          inserts.find((i) => i.table === "ai_invocations")?.row,
+        ).toMatchObject({ success: false, error_code: "CANCELLED" }),
+      );
+    });
+
+    it("ends with a TIMEOUT error when the stream stalls", async () => {
+      const { client } = createSupabaseMock({ allowed: true });
+      const provider = new MockOpenRouterProvider({
+        scenario: "stalled_stream",
+      });
+
+      const stream = await createStreamingService(
+        client,
+        provider,
+        20,
+      ).processTextStream(request, "user-1");
+      const events = await collect(stream);
+
+      expect(events.at(-1)).toMatchObject({
+        type: "error",
+        error: { code: "TIMEOUT" },
+      });
+    });
+  });
+
+  describe("getUsageLimits", () => {
+    it("reports the remaining allowance from ai_daily_usage", async () => {
+      const { client } = createSupabaseMock({ used: 3 });
+
+      const limits = await createService(client).getUsageLimits("user-1");
+
+      expect(limits.remaining).toBe(7);
+      expect(limits.limit).toBe(10);
+      expect(new Date(limits.reset_at).getUTCHours()).toBe(0);
+      expect(new Date(limits.reset_at).getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it("falls back to in-memory counting without a database", async () => {
+      const service = createService(null);
+      mockFetch.mockResolvedValue(completion("Better text"));
+
+      await service.processText(request, "user-2");
+      await service.processText(request, "user-2");
+
+      expect((await service.getUsageLimits("user-2")).remaining).toBe(8);
+    });
+  });
+
+  describe("toAIAppError", () => {
+    it("keeps rate limits and Retry-After", () => {
+      const appError = toAIAppError(
+        new OpenRouterError(
+          "Daily AI limit reached",
+          "RATE_LIMITED",
+          429,
+          false,
+          60,
+        ),
+      );
+
+      expect(appError).toMatchObject({ code: "RATE_LIMITED", status: 429 });
+      expect(appError.retryAfter).toBe(60);
+    });
+
+    it("does not leak provider 401s as UNAUTHENTICATED", () => {
+      expect(
+        toAIAppError(
+          new OpenRouterError("Invalid API key", "INVALID_API_KEY", 401),
+        ),
+      ).toMatchObject({ code: "CONFIGURATION_ERROR", status: 503 });
+    });
+
+    it("wraps other provider failures", () => {
+      expect(
+        toAIAppError(
+          new OpenRouterError("Request timeout", "TIMEOUT", 408, true),
+        ),
+      ).toMatchObject({
+        code: "AI_PROVIDER_ERROR",
+        status: 502,
+        details: { provider_code: "TIMEOUT", retryable: true },
+      });
+    });
+  });
+});
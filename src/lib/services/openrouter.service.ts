@@ -9,16 +9,29 @@ import type {
   Message,
   AITextProcessRequest,
   AITextProcessResponse,
+  AITextStreamEvent,
   AILimitsDTO,
   AIContext,
   AIField,
   OpenRouterResponse,
+  OpenRouterStreamChunk,
+  OpenRouterUsage,
 } from "../../types/types";
+import { createAppError } from "../helpers/error.helper";
+import type { AppError } from "../helpers/error.helper";
+import { formatLineDiff } from "../utils/text-diff";
+import { logger } from "../utils/logger";
+import { readSSEStream } from "../utils/sse";
+import {
+  MockOpenRouterProvider,
+  parseMockOpenRouterSetting,
+} from "./openrouter-mock";
 import {
   SUPABASE_URL,
   SUPABASE_SERVICE_KEY,
   OPENROUTER_API_KEY,
 } from "astro:env/server";
+import { ENV_NAME } from "astro:env/client";
 
 /**
  * OpenRouter Service Error
@@ -36,6 +49,51 @@ export class OpenRouterError extends Error {
   }
 }
 
+/** Longest wait between retries; a longer Retry-After fails fast instead */
+const MAX_RETRY_DELAY_MS = 10000;
+
+/**
+ * Outcome of a single AI call, as stored in ai_invocations
+ */
+interface InvocationRecord {
+  model?: string;
+  tokensPrompt: number;
+  tokensCompletion: number;
+  success: boolean;
+  errorCode?: string;
+}
+
+/**
+ * Map an OpenRouterError to the API error shape.
+ *
+ * Provider authentication problems are configuration errors on our side,
+ * so they are not reported as 401 (which the UI treats as "signed out").
+ */
+export function toAIAppError(error: OpenRouterError): AppError {
+  let appError: AppError;
+
+  switch (error.code) {
+    case "RATE_LIMITED":
+      appError = createAppError("RATE_LIMITED", 429, error.message);
+      appError.retryAfter = error.retryAfter;
+      return appError;
+    case "CONFIGURATION_ERROR":
+    case "INVALID_API_KEY":
+      return createAppError(
+        "CONFIGURATION_ERROR",
+        503,
+        "AI assistant is not configured",
+      );
+    default:
+      appError = createAppError("AI_PROVIDER_ERROR", 502, error.message, {
+        provider_code: error.code,
+        retryable: error.retryable,
+      });
+      appError.retryAfter = error.retryAfter;
+      return appError;
+  }
+}
+
 /**
  * Rate Limiter for OpenRouter API requests
  */
@@ -131,25 +189,25 @@ class UsageTracker {
 
   async recordUsage(
     userId: string,
-    tokens: number,
+    invocation: InvocationRecord,
     context?: AIContext,
     field?: AIField,
   ): Promise<void> {
     try {
       if (this.supabase) {
-        await this.recordDatabaseUsage(userId, tokens, context, field);
+        await this.recordDatabaseUsage(userId, invocation, context, field);
       } else {
-        await this.recordMemoryUsage(userId, tokens);
+        await this.recordMemoryUsage(userId);
       }
     } catch {
       // Fallback to memory-based usage recording
-      await this.recordMemoryUsage(userId, tokens);
+      await this.recordMemoryUsage(userId);
     }
   }
 
   private async recordDatabaseUsage(
     userId: string,
-    tokens: number,
+    invocation: InvocationRecord,
     context?: AIContext,
     field?: AIField,
   ): Promise<void> {
@@ -157,15 +215,19 @@ class UsageTracker {
       throw new Error("Supabase client not available");
     }
 
-    // Record in ai_invocations table
+    const tokens = invocation.tokensPrompt + invocation.tokensCompletion;
+
+    // Record in ai_invocations table (ai_daily_usage is incremented by can_invoke_ai)
     const { error: invocationError } = await this.supabase
       .from("ai_invocations")
       .insert({
         user_id: userId,
         action: "improve",
-        tokens_prompt: Math.floor(tokens * 0.7), // Estimate prompt vs completion
-        tokens_completion: Math.floor(tokens * 0.3),
-        success: true,
+        model: invocation.model ?? null,
+        tokens_prompt: invocation.tokensPrompt,
+        tokens_completion: invocation.tokensCompletion,
+        success: invocation.success,
+        error_code: invocation.errorCode ?? null,
         meta: {
           context,
           field,
@@ -179,6 +241,22 @@ class UsageTracker {
       );
     }
 
+    // Reconcile tokens into today's ai_daily_usage row. The invocation is
+    // already recorded, so a failure here is logged instead of thrown (the
+    // memory fallback would count the call a second time).
+    if (tokens > 0) {
+      const { error: tokensError } = await this.supabase.rpc(
+        "record_ai_tokens",
+        { uid: userId, tokens },
+      );
+      if (tokensError) {
+        logger.error(
+          `Failed to record AI tokens for user ${userId}:`,
+          tokensError.message,
+        );
+      }
+    }
+
     // Record in usage_events table for analytics
     const { error: eventError } = await this.supabase
       .from("usage_events")
@@ -199,18 +277,16 @@ class UsageTracker {
     }
   }
 
-  private async recordMemoryUsage(
-    userId: string,
-    tokens: number,
-  ): Promise<void> {
+  private async recordMemoryUsage(userId: string): Promise<void> {
+    // The daily limit counts invocations, like can_invoke_ai
     const today = this.getToday();
     const key = `usage:${userId}`;
     const entry = this.usage.get(key);
 
     if (!entry || entry.resetDate !== today) {
-      this.usage.set(key, { count: tokens, resetDate: today });
+      this.usage.set(key, { count: 1, resetDate: today });
     } else {
-      entry.count += tokens;
+      entry.count += 1;
     }
   }
 
@@ -285,12 +361,23 @@ class UsageTracker {
     return now.toISOString().split("T")[0];
   }
 
-  private getNextResetDate(): string {
+  /**
+   * Next reset in UTC, matching the day boundaries of getToday()
+   */
+  getNextResetDate(): string {
     const now = new Date();
-    const tomorrow = new Date(now);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    tomorrow.setHours(this.config.resetHour, 0, 0, 0);
-    return tomorrow.toISOString();
+    return new Date(
+      Date.UTC(
+        now.getUTCFullYear(),
+        now.getUTCMonth(),
+        now.getUTCDate() + 1,
+        this.config.resetHour,
+      ),
+    ).toISOString();
+  }
+
+  get dailyLimit(): number {
+    return this.config.dailyLimit;
   }
 
   // Admin methods for usage management
@@ -600,6 +687,7 @@ export class OpenRouterService {
   private defaultModel: string;
   private maxRetries: number;
   private timeout: number;
+  private fetchImpl: typeof fetch;
   private rateLimiter: RateLimiter;
   private usageTracker: UsageTracker;
   private messageBuilder: MessageBuilder;
@@ -617,6 +705,8 @@ export class OpenRouterService {
       config.defaultModel || "microsoft/phi-3-mini-128k-instruct";
     this.maxRetries = config.maxRetries ?? 3;
     this.timeout = config.timeout ?? 30000;
+    // Resolve the global lazily so it can be replaced after construction
+    this.fetchImpl = config.fetch ?? ((input, init) => fetch(input, init));
 
     this.rateLimiter = new RateLimiter(
       config.rateLimitConfig || { requestsPerMinute: 10, burstLimit: 20 },
@@ -679,99 +769,60 @@ export class OpenRouterService {
   }
 
   /**
-   * Process text using AI
+   * Process text using AI on behalf of a user.
+   *
+   * Enforces the user's daily limit (can_invoke_ai) before calling the
+   * provider and records every provider call, successful or not, in
+   * ai_invocations. The returned diff is computed from the original text
+   * rather than taken from the model.
    */
   async processText(
     request: AITextProcessRequest,
+    userId: string,
   ): Promise<AITextProcessResponse> {
-    try {
-      // Check rate limit
-      const rateLimitOk = await this.rateLimiter.checkLimit("global");
-      if (!rateLimitOk) {
-        const retryAfter = this.rateLimiter.getRetryAfter("global");
-        throw new OpenRouterError(
-          "Rate limit exceeded",
-          "RATE_LIMITED",
-          429,
-          true,
-          retryAfter,
-        );
-      }
-
-      // Build messages
-      const systemMessage = this.messageBuilder.buildSystemMessage(
-        request.context,
-        request.field,
-      );
-      const userMessage = this.messageBuilder.buildUserMessage(
-        request.text,
-        request.context,
-      );
+    let invoked = false;
 
-      const messages: Message[] = [
-        { role: "system", content: systemMessage },
-        { role: "user", content: userMessage },
-      ];
+    try {
+      await this.checkLimits(userId);
+      invoked = true;
 
-      // Truncate if needed
-      const truncatedMessages = this.messageBuilder.truncateContext(
-        messages,
-        4000,
+      // Make API request; transient failures are retried with backoff
+      const body = this.buildChatRequest(
+        request,
+        this.responseFormatter["config"].enableStructuredOutput,
       );
-
-      // Get context-specific model parameters
-      const contextParams = this.modelConfigs.get(request.context) || {
-        temperature: 0.7,
-        max_tokens: 1000,
-        top_p: 0.9,
-        frequency_penalty: 0.1,
-        presence_penalty: 0.1,
-      };
-
-      // Make API request
-      const response = await this.makeRequest("/chat/completions", {
-        model: this.defaultModel,
-        messages: truncatedMessages,
-        ...contextParams,
-        response_format: this.responseFormatter["config"].enableStructuredOutput
-          ? {
-              type: "json_schema",
-              json_schema: {
-                name: "text_process_response",
-                strict: true,
-                schema: {
-                  type: "object",
-                  properties: {
-                    proposal: {
-                      type: "string",
-                      description: "The improved text proposal",
-                    },
-                    diff: {
-                      type: "string",
-                      description: "Markdown diff showing changes made",
-                    },
-                    reasoning: {
-                      type: "string",
-                      description: "Brief explanation of improvements made",
-                    },
-                  },
-                  required: ["proposal", "diff"],
-                  additionalProperties: false,
-                },
-              },
-            }
-          : undefined,
+      const response = await this.retryRequest(async () => {
+        const reply = await this.makeRequest("/chat/completions", body);
+        const format = this.responseFormatter.validateResponseFormat(reply);
+        if (!format.valid) {
+          throw new OpenRouterError(
+            `Invalid provider response: ${format.errors?.join(", ")}`,
+            "INVALID_RESPONSE",
+            502,
+            true,
+          );
+        }
+        return reply;
       });
 
-      const result = this.responseFormatter.parseResponse(
+      const parsed = this.responseFormatter.parseResponse(
         response,
         request.context,
       );
+      const result: AITextProcessResponse = {
+        ...parsed,
+        diff: formatLineDiff(request.text, parsed.proposal),
+      };
 
       // Record usage with context information
       await this.usageTracker.recordUsage(
-        "system", // This should be actual userId in real implementation
-        result.usage.prompt + result.usage.completion,
+        userId,
+        {
+          model: result.model,
+          tokensPrompt: result.usage.prompt,
+          tokensCompletion: result.usage.completion,
+          success: true,
+        },
         request.context,
         request.field,
       );
@@ -783,16 +834,174 @@ export class OpenRouterService {
     } catch (error) {
       this.isHealthy = false;
       this.lastError = error as Error;
+
+      if (invoked) {
+        await this.recordFailure(userId, request, error);
+      }
+
       throw this.handleError(error);
     }
   }
 
+  /**
+   * Streaming variant of processText.
+   *
+   * Limit checks and the upstream connection happen before this resolves,
+   * so those failures still reject with an OpenRouterError. The returned
+   * stream then emits the proposal as "delta" events and ends with "done"
+   * (carrying the same result as processText) or "error". Token usage is
+   * recorded when the stream ends; plain text is requested because partial
+   * JSON is of no use to the reader. Streams are not retried.
+   *
+   * Aborting `signal` or cancelling the stream aborts the upstream request.
+   */
+  async processTextStream(
+    request: AITextProcessRequest,
+    userId: string,
+    signal?: AbortSignal,
+  ): Promise<ReadableStream<AITextStreamEvent>> {
+    let invoked = false;
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (signal?.aborted) {
+      abort();
+    }
+    signal?.addEventListener("abort", abort, { once: true });
+
+    const body = {
+      ...this.buildChatRequest(request, false),
+      stream: true,
+      usage: { include: true },
+    };
+    let upstream: ReadableStream<Uint8Array>;
+
+    try {
+      await this.checkLimits(userId);
+      invoked = true;
+      upstream = await this.openStream("/chat/completions", body, controller);
+    } catch (error) {
+      signal?.removeEventListener("abort", abort);
+      const failure = signal?.aborted
+        ? new OpenRouterError("Request cancelled", "CANCELLED", 499, false)
+        : error;
+      this.isHealthy = false;
+      this.lastError = failure as Error;
+      if (invoked) {
+        await this.recordFailure(userId, request, failure);
+      }
+      throw this.handleError(failure);
+    }
+
+    let proposal = "";
+    let model = this.defaultModel;
+    let usage: OpenRouterUsage | undefined;
+    let cancelled = false;
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    const resetIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(abort, this.timeout);
+    };
+
+    const tokens = () => ({
+      tokensPrompt:
+        usage?.prompt_tokens ??
+        this.messageBuilder.estimateTokens(body.messages),
+      tokensCompletion:
+        usage?.completion_tokens ?? Math.ceil(proposal.length / 4),
+    });
+
+    return new ReadableStream<AITextStreamEvent>({
+      start: async (stream) => {
+        resetIdleTimer();
+        try {
+          await readSSEStream(upstream, (message) => {
+            resetIdleTimer();
+            if (message.data === "[DONE]") {
+              return;
+            }
+            const chunk = JSON.parse(message.data) as OpenRouterStreamChunk;
+            if (chunk.error) {
+              throw new OpenRouterError(
+                chunk.error.message || "Stream error",
+                String(chunk.error.code ?? "STREAM_ERROR"),
+                502,
+                true,
+              );
+            }
+            model = chunk.model || model;
+            usage = chunk.usage ?? usage;
+            const text = chunk.choices?.[0]?.delta?.content;
+            if (text && !cancelled) {
+              proposal += text;
+              stream.enqueue({ type: "delta", text });
+            }
+          });
+
+          const result: AITextProcessResponse = {
+            proposal,
+            diff: formatLineDiff(request.text, proposal),
+            model,
+            usage: {
+              prompt: tokens().tokensPrompt,
+              completion: tokens().tokensCompletion,
+            },
+          };
+          await this.usageTracker.recordUsage(
+            userId,
+            { model, ...tokens(), success: true },
+            request.context,
+            request.field,
+          );
+          this.isHealthy = true;
+          this.lastError = undefined;
+
+          stream.enqueue({ type: "done", result });
+          stream.close();
+        } catch (error) {
+          const streamError = this.toStreamError(error, signal, cancelled);
+          this.isHealthy = streamError.code === "CANCELLED";
+          this.lastError = streamError;
+          await this.usageTracker.recordUsage(
+            userId,
+            {
+              model,
+              ...tokens(),
+              success: false,
+              errorCode: streamError.code,
+            },
+            request.context,
+            request.field,
+          );
+
+          if (!cancelled) {
+            stream.enqueue({
+              type: "error",
+              error: { code: streamError.code, message: streamError.message },
+            });
+            stream.close();
+          }
+        } finally {
+          clearTimeout(idleTimer);
+          signal?.removeEventListener("abort", abort);
+        }
+      },
+      cancel: () => {
+        cancelled = true;
+        abort();
+      },
+    });
+  }
+
   /**
    * Get usage limits for user
    */
   async getUsageLimits(userId: string): Promise<AILimitsDTO> {
     const remaining = await this.usageTracker.getRemainingUsage(userId);
-    return { remaining };
+    return {
+      remaining,
+      limit: this.usageTracker.dailyLimit,
+      reset_at: this.usageTracker.getNextResetDate(),
+    };
   }
 
   /**
@@ -906,6 +1115,214 @@ export class OpenRouterService {
   }
 
   // Private methods
+
+  /**
+   * API key, global rate limit and the user's daily allowance (consumed
+   * here, like can_invoke_ai does).
+   */
+  private async checkLimits(userId: string): Promise<void> {
+    if (!this.apiKey) {
+      throw new OpenRouterError(
+        "OpenRouter API key is not configured",
+        "CONFIGURATION_ERROR",
+        503,
+      );
+    }
+
+    // Check rate limit
+    const rateLimitOk = await this.rateLimiter.checkLimit("global");
+    if (!rateLimitOk) {
+      const retryAfter = this.rateLimiter.getRetryAfter("global");
+      throw new OpenRouterError(
+        "Rate limit exceeded",
+        "RATE_LIMITED",
+        429,
+        true,
+        retryAfter,
+      );
+    }
+
+    // Check (and consume) the user's daily allowance
+    const allowed = await this.usageTracker.checkDailyLimit(userId);
+    if (!allowed) {
+      const resetAt = new Date(this.usageTracker.getNextResetDate());
+      throw new OpenRouterError(
+        "Daily AI limit reached",
+        "RATE_LIMITED",
+        429,
+        false,
+        Math.max(1, Math.ceil((resetAt.getTime() - Date.now()) / 1000)),
+      );
+    }
+  }
+
+  private buildChatRequest(
+    request: AITextProcessRequest,
+    structuredOutput: boolean,
+  ) {
+    // Build messages
+    const systemMessage = this.messageBuilder.buildSystemMessage(
+      request.context,
+      request.field,
+    );
+    const userMessage = this.messageBuilder.buildUserMessage(
+      request.text,
+      request.context,
+    );
+
+    const messages: Message[] = [
+      { role: "system", content: systemMessage },
+      { role: "user", content: userMessage },
+    ];
+
+    // Get context-specific model parameters
+    const contextParams = this.modelConfigs.get(request.context) || {
+      temperature: 0.7,
+      max_tokens: 1000,
+      top_p: 0.9,
+      frequency_penalty: 0.1,
+      presence_penalty: 0.1,
+    };
+
+    return {
+      model: this.defaultModel,
+      // Truncate if needed
+      messages: this.messageBuilder.truncateContext(messages, 4000),
+      ...contextParams,
+      response_format: structuredOutput
+        ? {
+            type: "json_schema",
+            json_schema: {
+              name: "text_process_response",
+              strict: true,
+              schema: {
+                type: "object",
+                properties: {
+                  proposal: {
+                    type: "string",
+                    description: "The improved text proposal",
+                  },
+                  diff: {
+                    type: "string",
+                    description: "Markdown diff showing changes made",
+                  },
+                  reasoning: {
+                    type: "string",
+                    description: "Brief explanation of improvements made",
+                  },
+                },
+                required: ["proposal", "diff"],
+                additionalProperties: false,
+              },
+            },
+          }
+        : undefined,
+    };
+  }
+
+  private async recordFailure(
+    userId: string,
+    request: AITextProcessRequest,
+    error: unknown,
+  ): Promise<void> {
+    await this.usageTracker.recordUsage(
+      userId,
+      {
+        model: this.defaultModel,
+        tokensPrompt: 0,
+        tokensCompletion: 0,
+        success: false,
+        errorCode:
+          error instanceof OpenRouterError ? error.code : "INTERNAL_ERROR",
+      },
+      request.context,
+      request.field,
+    );
+  }
+
+  /**
+   * Why a stream ended early: cancelled by the caller, idle timeout,
+   * malformed chunk or a provider error event.
+   */
+  private toStreamError(
+    error: unknown,
+    signal: AbortSignal | undefined,
+    cancelled: boolean,
+  ): OpenRouterError {
+    if (error instanceof OpenRouterError) {
+      return error;
+    }
+    if ((error as { name?: string } | null)?.name === "AbortError") {
+      return cancelled || signal?.aborted
+        ? new OpenRouterError("Request cancelled", "CANCELLED", 499, false)
+        : new OpenRouterError("Request timeout", "TIMEOUT", 408, true);
+    }
+    if (error instanceof SyntaxError) {
+      return new OpenRouterError(
+        "Malformed JSON in provider stream",
+        "INVALID_RESPONSE",
+        502,
+        true,
+      );
+    }
+    return new OpenRouterError("Network error", "NETWORK_ERROR", 500, true);
+  }
+
+  /**
+   * POST with `stream: true`; resolves with the event-stream body once the
+   * provider has accepted the request. The timeout covers the wait for the
+   * response headers; the caller owns `controller` afterwards.
+   */
+  private async openStream(
+    endpoint: string,
+    data: Record<string, unknown>,
+    controller: AbortController,
+  ): Promise<ReadableStream<Uint8Array>> {
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await this.fetchImpl(`${this.baseUrl}${endpoint}`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          "Content-Type": "application/json",
+          Accept: "text/event-stream",
+          "HTTP-Referer": "https://qa-toolsmith.com",
+          "X-Title": "QA Toolsmith",
+        },
+        body: JSON.stringify(data),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const errorData = (await response.json().catch(() => ({}))) as {
+          error?: { code?: string; message?: string };
+        };
+        throw new OpenRouterError(
+          errorData.error?.message || `HTTP ${response.status}`,
+          errorData.error?.code || "HTTP_ERROR",
+          response.status,
+          response.status >= 500 || response.status === 429,
+          response.headers.get("retry-after")
+            ? parseInt(response.headers.get("retry-after") || "0")
+            : undefined,
+        );
+      }
+
+      return response.body;
+    } catch (error) {
+      if (error instanceof OpenRouterError) {
+        throw error;
+      }
+      if ((error as { name?: string } | null)?.name === "AbortError") {
+        throw new OpenRouterError("Request timeout", "TIMEOUT", 408, true);
+      }
+      throw new OpenRouterError("Network error", "NETWORK_ERROR", 500, true);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
   private async makeRequest<T = OpenRouterResponse>(
     endpoint: string,
     data: Record<string, unknown>,
@@ -915,7 +1332,7 @@ export class OpenRouterService {
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
     try {
-      const response = await fetch(url, {
+      const response = await this.fetchImpl(url, {
         method: "POST",
         headers: {
           Authorization: `Bearer ${this.apiKey}`,
@@ -950,7 +1367,17 @@ export class OpenRouterService {
         throw error;
       }
 
-      if (error instanceof Error && error.name === "AbortError") {
+      if (error instanceof SyntaxError) {
+        throw new OpenRouterError(
+          "Malformed JSON in provider response",
+          "INVALID_RESPONSE",
+          502,
+          true,
+        );
+      }
+
+      // Checked by name: DOMException is not an Error subclass in every runtime
+      if ((error as { name?: string } | null)?.name === "AbortError") {
         throw new OpenRouterError("Request timeout", "TIMEOUT", 408, true);
       }
 
@@ -975,8 +1402,17 @@ export class OpenRouterService {
           break;
         }
 
-        // Exponential backoff
-        const delay = Math.min(1000 * Math.pow(2, attempt - 1), 10000);
+        // Honor the provider's Retry-After, otherwise back off exponentially
+        const retryAfterMs =
+          error instanceof OpenRouterError && error.retryAfter !== undefined
+            ? error.retryAfter * 1000
+            : undefined;
+        if (retryAfterMs !== undefined && retryAfterMs > MAX_RETRY_DELAY_MS) {
+          throw error;
+        }
+        const delay =
+          retryAfterMs ??
+          Math.min(1000 * Math.pow(2, attempt - 1), MAX_RETRY_DELAY_MS);
         await new Promise((resolve) => setTimeout(resolve, delay));
       }
     }
@@ -1047,11 +1483,21 @@ if (supabaseUrl && supabaseServiceKey) {
   });
 }
 
+// OPENROUTER_MOCK=true (or a scenario name) swaps the provider for the
+// offline mock; never in production
+const mockOptions =
+  ENV_NAME === "production"
+    ? null
+    : parseMockOpenRouterSetting(import.meta.env.OPENROUTER_MOCK);
+const mockProvider = mockOptions
+  ? new MockOpenRouterProvider(mockOptions)
+  : null;
+
 // Export singleton instance
 // Note: OpenRouter config vars (baseUrl, defaultModel, etc.) use import.meta.env fallbacks
 // since they're not yet in astro.config.mjs env.schema. All key vars (apiKey, supabase) use astro:env/server
 export const openRouterService = new OpenRouterService({
-  apiKey: OPENROUTER_API_KEY || "",
+  apiKey: OPENROUTER_API_KEY || (mockProvider ? "mock" : ""),
   // Fallback to import.meta.env for config vars not yet in schema
   baseUrl:
     import.meta.env.OPENROUTER_BASE_URL || "https://openrouter.ai/api/v1",
@@ -1065,7 +1511,8 @@ export const openRouterService = new OpenRouterService({
     burstLimit: parseInt(import.meta.env.OPENROUTER_BURST_LIMIT || "20"),
   },
   usageConfig: {
-    dailyLimit: parseInt(import.meta.env.OPENROUTER_DAILY_LIMIT || "50"),
+    // Keep in sync with daily_limit in the can_invoke_ai database function
+    dailyLimit: parseInt(import.meta.env.OPENROUTER_DAILY_LIMIT || "10"),
     resetHour: parseInt(import.meta.env.OPENROUTER_RESET_HOUR || "0"),
   },
   messageConfig: {
@@ -1089,4 +1536,5 @@ export const openRouterService = new OpenRouterService({
     },
   },
   supabaseClient,
+  fetch: mockProvider?.fetch,
 });
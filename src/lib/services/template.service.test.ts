@@ -0,0 +1,326 @@
+import { describe, it, expect } from "vitest";
+import type { TemplateDTO } from "../../types/types";
+import {
+  buildTemplateMarkdown,
+  createTemplate,
+  deleteTemplate,
+  forkTemplate,
+  listTemplates,
+  updateTemplate,
+} from "./template.service";
+import { createSupabaseMock } from "../../test/supabase-mock";
+
+const user = { id: "user-1", role: "user" as const };
+const admin = { id: "admin-1", role: "admin" as const };
+
+const globalTemplate: TemplateDTO = {
+  id: "11111111-1111-4111-8111-111111111111",
+  name: "UI Bug Template",
+  scope: "global",
+  owner_id: null,
+  preset: "ui_bug",
+  fields: [
+    { key: "title", type: "text", label: "Title" },
+    { key: "steps", type: "textarea", label: "Steps to reproduce" },
+    { key: "request", type: "code", label: "Request" },
+    { key: "severity", type: "select", label: "Severity" },
+  ],
+  required_fields: ["title", "steps"],
+  attachments: [],
+  origin_template_id: null,
+  is_readonly: true,
+  version: 1,
+  created_at: "2025-01-01T10:00:00.000Z",
+  updated_at: "2025-01-01T10:00:00.000Z",
+};
+
+const userTemplate: TemplateDTO = {
+  ...globalTemplate,
+  id: "22222222-2222-4222-8222-222222222222",
+  scope: "user",
+  owner_id: "user-1",
+  is_readonly: false,
+};
+
+describe("Template Service", () => {
+  describe("listTemplates", () => {
+    it("should limit anonymous visitors to global templates", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: [], error: null },
+      ]);
+
+      await listTemplates(supabase, null, { limit: 20 });
+
+      expect(supabase.from).toHaveBeenCalledWith("templates_effective");
+      expect(builder.or).toHaveBeenCalledWith("scope.eq.global");
+    });
+
+    it("should normalize view rows and return next_cursor", async () => {
+      const rows = [
+        { ...globalTemplate, id: "a", updated_at: "2025-01-03T00:00:00Z" },
+        {
+          ...userTemplate,
+          id: "b",
+          updated_at: "2025-01-02T00:00:00Z",
+          required_fields: null,
+          is_readonly: null,
+        },
+        { ...userTemplate, id: "c", updated_at: "2025-01-01T00:00:00Z" },
+      ];
+      const { supabase, builder } = createSupabaseMock([
+        { data: rows, error: null },
+      ]);
+
+      const page = await listTemplates(supabase, user, {
+        limit: 2,
+        preset: "ui_bug",
+      });
+
+      expect(builder.or).toHaveBeenCalledWith(
+        "scope.eq.global,owner_id.eq.user-1",
+      );
+      expect(builder.eq).toHaveBeenCalledWith("preset", "ui_bug");
+      expect(page.items).toHaveLength(2);
+      expect(page.items[1]).toMatchObject({
+        required_fields: [],
+        is_readonly: false,
+      });
+      expect(page.next_cursor).toBe("2025-01-02T00:00:00Z,b");
+    });
+  });
+
+  describe("createTemplate", () => {
+    const cmd = {
+      name: "Checkout bug",
+      scope: "global" as const,
+      fields: globalTemplate.fields,
+      required_fields: ["title"],
+      attachments: [],
+    };
+
+    it("should reserve global templates for admins", async () => {
+      const { supabase, builder } = createSupabaseMock([]);
+
+      await expect(createTemplate(supabase, user, cmd)).rejects.toMatchObject({
+        code: "FORBIDDEN",
+        status: 403,
+      });
+      expect(builder.insert).not.toHaveBeenCalled();
+    });
+
+    it("should create global templates without owner and read-only", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: { ...globalTemplate, name: cmd.name }, error: null },
+      ]);
+
+      await createTemplate(supabase, admin, cmd);
+
+      expect(builder.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          scope: "global",
+          owner_id: null,
+          is_readonly: true,
+        }),
+      );
+    });
+
+    it("should map trigger exceptions to VALIDATION_ERROR", async () => {
+      const { supabase } = createSupabaseMock([
+        {
+          data: null,
+          error: {
+            code: "P0001",
+            message: "Invalid URL format in attachments: ftp://x",
+          },
+        },
+      ]);
+
+      await expect(
+        createTemplate(supabase, user, { ...cmd, scope: "user" }),
+      ).rejects.toMatchObject({ code: "VALIDATION_ERROR", status: 400 });
+    });
+  });
+
+  describe("updateTemplate", () => {
+    it("should keep global templates read-only for non-admins", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: globalTemplate, error: null },
+      ]);
+
+      await expect(
+        updateTemplate(supabase, user, globalTemplate.id, {
+          name: "Mine",
+          version: 1,
+        }),
+      ).rejects.toMatchObject({ code: "FORBIDDEN", status: 403 });
+      expect(builder.update).not.toHaveBeenCalled();
+    });
+
+    it("should let admins update global templates", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: globalTemplate, error: null },
+        { data: { ...globalTemplate, name: "UI", version: 2 }, error: null },
+      ]);
+
+      const updated = await updateTemplate(supabase, admin, globalTemplate.id, {
+        name: "UI",
+        version: 1,
+      });
+
+      expect(updated.version).toBe(2);
+      expect(builder.update).toHaveBeenCalledWith({ name: "UI", version: 2 });
+    });
+
+    it("should reject required fields missing from the stored fields", async () => {
+      const { supabase } = createSupabaseMock([
+        { data: userTemplate, error: null },
+      ]);
+
+      await expect(
+        updateTemplate(supabase, user, userTemplate.id, {
+          required_fields: ["title", "priority"],
+          version: 1,
+        }),
+      ).rejects.toMatchObject({
+        code: "VALIDATION_ERROR",
+        details: { required_fields: ["priority"] },
+      });
+    });
+
+    it("should reject a stale version with CONFLICT", async () => {
+      const { supabase } = createSupabaseMock([
+        { data: { ...userTemplate, version: 4 }, error: null },
+      ]);
+
+      await expect(
+        updateTemplate(supabase, user, userTemplate.id, {
+          name: "x",
+          version: 3,
+        }),
+      ).rejects.toMatchObject({
+        code: "CONFLICT",
+        details: { current_version: 4 },
+      });
+    });
+  });
+
+  describe("deleteTemplate", () => {
+    it("should not let users delete global templates", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: globalTemplate, error: null },
+      ]);
+
+      await expect(
+        deleteTemplate(supabase, user, globalTemplate.id),
+      ).rejects.toMatchObject({ code: "FORBIDDEN" });
+      expect(builder.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("forkTemplate", () => {
+    it("should copy the template into the user's scope with its origin", async () => {
+      const { supabase, builder } = createSupabaseMock([
+        { data: globalTemplate, error: null },
+        {
+          data: {
+            ...userTemplate,
+            origin_template_id: globalTemplate.id,
+          },
+          error: null,
+        },
+      ]);
+
+      const fork = await forkTemplate(supabase, user, globalTemplate.id, {});
+
+      expect(fork.origin_template_id).toBe(globalTemplate.id);
+      expect(builder.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: "UI Bug Template",
+          scope: "user",
+          owner_id: "user-1",
+          origin_template_id: globalTemplate.id,
+          is_readonly: false,
+          required_fields: ["title", "steps"],
+        }),
+      );
+    });
+
+    it("should report duplicate names as CONFLICT", async () => {
+      const { supabase } = createSupabaseMock([
+        { data: userTemplate, error: null },
+        { data: null, error: { code: "23505", message: "duplicate key" } },
+      ]);
+
+      await expect(
+        forkTemplate(supabase, user, userTemplate.id, {}),
+      ).rejects.toMatchObject({ code: "CONFLICT", status: 409 });
+    });
+  });
+
+  describe("buildTemplateMarkdown", () => {
+    it("should list missing required fields", () => {
+      expect(() =>
+        buildTemplateMarkdown(globalTemplate, { values: { title: "  " } }),
+      ).toThrow(
+        expect.objectContaining({
+          code: "VALIDATION_ERROR",
+          details: { missing_fields: ["title", "steps"] },
+        }),
+      );
+    });
+
+    it("should render heading, facts, sections and attachments", () => {
+      const markdown = buildTemplateMarkdown(
+        { ...globalTemplate, attachments: ["https://example.com/a.png"] },
+        {
+          values: {
+            title: "Button does nothing",
+            steps: "1. Open page\n2. Click",
+            request: '{ "id": 1 }',
+            severity: "Major",
+          },
+          attachments: [
+            "https://example.com/a.png",
+            "https://example.com/log.txt",
+          ],
+        },
+      );
+
+      expect(markdown).toBe(
+        [
+          "# Button does nothing",
+          "",
+          "- **Severity:** Major",
+          "",
+          "## Steps to reproduce",
+          "",
+          "1. Open page",
+          "2. Click",
+          "",
+          "## Request",
+          "",
+          "```",
+          '{ "id": 1 }',
+          "```",
+          "",
+          "## Attachments",
+          "",
+          "- https://example.com/a.png",
+          "- https://example.com/log.txt",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("should fall back to the template name and skip empty fields", () => {
+      const markdown = buildTemplateMarkdown(
+        { ...globalTemplate, required_fields: [] },
+        { values: { steps: "Open it" } },
+      );
+
+      expect(markdown).toBe(
+        "# UI Bug Template\n\n## Steps to reproduce\n\nOpen it\n",
+      );
+    });
+  });
+});
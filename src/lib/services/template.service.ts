@@ -0,0 +1,411 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Json } from "../../db/database.types";
+import type {
+  CreateTemplateCommand,
+  ForkTemplateCommand,
+  RenderTemplateCommand,
+  RenderTemplateResult,
+  TemplateDTO,
+  TemplateField,
+  TemplateListItemDTO,
+  TemplatePreset,
+  TemplateScope,
+  TemplatesListResponse,
+  UpdateTemplateCommand,
+} from "../../types/types";
+import { createAppError } from "../helpers/error.helper";
+import { keysetFilter, toKeysetPage } from "../helpers/keyset.helper";
+import {
+  getMissingRequiredFields,
+  renderTemplateMarkdown,
+} from "../utils/template-report";
+import type { TemplateReportSource } from "../utils/template-report";
+
+/**
+ * Template Service: defect report templates and Markdown rendering.
+ *
+ * Global templates (owner_id null) are managed by admins and read-only for
+ * everyone else, who fork them into their own "user" scope. Anonymous
+ * visitors can read and render global templates only.
+ */
+
+type Supabase = SupabaseClient<Database>;
+type TemplateRow = Database["public"]["Tables"]["templates"]["Row"];
+
+export interface TemplateActor {
+  id: string;
+  role: "admin" | "user";
+}
+
+export interface TemplateListQuery {
+  after?: string;
+  limit: number;
+  preset?: TemplatePreset;
+  scope?: TemplateScope;
+}
+
+export type UpdateTemplateInput = UpdateTemplateCommand & { version: number };
+
+const PG_UNIQUE_VIOLATION = "23505";
+const PG_RAISE_EXCEPTION = "P0001";
+const PG_INSUFFICIENT_PRIVILEGE = "42501";
+const PGRST_NO_ROWS = "PGRST116";
+
+function databaseError(message: string) {
+  return createAppError("DATABASE_ERROR", 500, message);
+}
+
+function notFound() {
+  return createAppError("NOT_FOUND", 404, "Template not found");
+}
+
+function versionConflict(currentVersion: number) {
+  return createAppError(
+    "CONFLICT",
+    409,
+    "Template was modified by another request",
+    { current_version: currentVersion },
+  );
+}
+
+/**
+ * Map write errors: duplicate names, trigger validation and RLS rejections
+ */
+function writeError(error: { code?: string; message: string }) {
+  switch (error.code) {
+    case PG_UNIQUE_VIOLATION:
+      return createAppError(
+        "CONFLICT",
+        409,
+        "A template with this name already exists",
+      );
+    case PG_RAISE_EXCEPTION:
+      return createAppError("VALIDATION_ERROR", 400, error.message);
+    case PG_INSUFFICIENT_PRIVILEGE:
+      return createAppError(
+        "FORBIDDEN",
+        403,
+        "You are not allowed to modify this template",
+      );
+    default:
+      return databaseError(error.message);
+  }
+}
+
+/**
+ * PostgREST filter for templates the actor can see: globals plus own ones
+ */
+function visibilityFilter(actor: TemplateActor | null): string {
+  return actor ? `scope.eq.global,owner_id.eq.${actor.id}` : "scope.eq.global";
+}
+
+function toTemplateDTO(row: TemplateRow): TemplateDTO {
+  return {
+    ...row,
+    fields: row.fields as unknown as TemplateField[],
+    scope: row.scope as TemplateScope,
+    preset: row.preset as TemplatePreset | null,
+  };
+}
+
+/**
+ * Global templates are read-only for non-admins; user templates belong
+ * to their owner (other users' templates are reported as missing).
+ * @throws AppError FORBIDDEN or NOT_FOUND
+ */
+function assertCanModify(template: TemplateDTO, actor: TemplateActor): void {
+  if (actor.role === "admin" && template.scope === "global") {
+    return;
+  }
+
+  if (template.scope === "global") {
+    throw createAppError(
+      "FORBIDDEN",
+      403,
+      "Global templates are read-only; fork the template to customize it",
+    );
+  }
+
+  if (template.owner_id !== actor.id) {
+    throw notFound();
+  }
+
+  if (template.is_readonly) {
+    throw createAppError("FORBIDDEN", 403, "Template is read-only");
+  }
+}
+
+/**
+ * List global templates and the actor's own, newest first
+ */
+export async function listTemplates(
+  supabase: Supabase,
+  actor: TemplateActor | null,
+  query: TemplateListQuery,
+): Promise<TemplatesListResponse> {
+  let builder = supabase
+    .from("templates_effective")
+    .select("*")
+    .or(visibilityFilter(actor));
+
+  if (query.preset) {
+    builder = builder.eq("preset", query.preset);
+  }
+
+  if (query.scope) {
+    builder = builder.eq("scope", query.scope);
+  }
+
+  if (query.after) {
+    builder = builder.or(keysetFilter("updated_at", query.after));
+  }
+
+  // Fetch limit + 1 to determine if there's a next page
+  const { data, error } = await builder
+    .order("updated_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(query.limit + 1);
+
+  if (error) {
+    throw databaseError(error.message);
+  }
+
+  const items: TemplateListItemDTO[] = (data ?? []).map((row) => ({
+    ...row,
+    fields: row.fields as unknown as TemplateField[] | null,
+    scope: row.scope as TemplateScope | null,
+    preset: row.preset as TemplatePreset | null,
+    required_fields: row.required_fields ?? [],
+    is_readonly: row.is_readonly ?? false,
+    origin_template_id: row.origin_template_id,
+  }));
+
+  return toKeysetPage(
+    items,
+    query.limit,
+    (template) => `${template.updated_at},${template.id}`,
+  );
+}
+
+/**
+ * Fetch a template visible to the actor (anonymous: globals only)
+ * @throws AppError NOT_FOUND when missing or owned by someone else
+ */
+export async function getTemplate(
+  supabase: Supabase,
+  actor: TemplateActor | null,
+  id: string,
+): Promise<TemplateDTO> {
+  const { data, error } = await supabase
+    .from("templates")
+    .select("*")
+    .eq("id", id)
+    .or(visibilityFilter(actor))
+    .single();
+
+  if (error) {
+    if (error.code === PGRST_NO_ROWS) {
+      throw notFound();
+    }
+    throw databaseError(error.message);
+  }
+
+  if (!data) {
+    throw notFound();
+  }
+
+  return toTemplateDTO(data);
+}
+
+/**
+ * Create a user template, or a global one (admins only).
+ * Global templates are created read-only and without an owner.
+ */
+export async function createTemplate(
+  supabase: Supabase,
+  actor: TemplateActor,
+  cmd: CreateTemplateCommand,
+): Promise<TemplateDTO> {
+  const isGlobal = cmd.scope === "global";
+
+  if (isGlobal && actor.role !== "admin") {
+    throw createAppError(
+      "FORBIDDEN",
+      403,
+      "Only admins can create global templates",
+    );
+  }
+
+  const { data, error } = await supabase
+    .from("templates")
+    .insert({
+      name: cmd.name,
+      scope: cmd.scope,
+      owner_id: isGlobal ? null : actor.id,
+      preset: cmd.preset ?? null,
+      fields: cmd.fields as unknown as Json,
+      required_fields: cmd.required_fields,
+      attachments: cmd.attachments,
+      is_readonly: isGlobal,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw error
+      ? writeError(error)
+      : databaseError("Failed to create template");
+  }
+
+  return toTemplateDTO(data);
+}
+
+/**
+ * Update a template the actor may modify
+ * @throws AppError FORBIDDEN for read-only templates, CONFLICT on stale `version`
+ */
+export async function updateTemplate(
+  supabase: Supabase,
+  actor: TemplateActor,
+  id: string,
+  input: UpdateTemplateInput,
+): Promise<TemplateDTO> {
+  const current = await getTemplate(supabase, actor, id);
+  assertCanModify(current, actor);
+
+  if (current.version !== input.version) {
+    throw versionConflict(current.version);
+  }
+
+  const fields = input.fields ?? current.fields;
+  const requiredFields = input.required_fields ?? current.required_fields;
+  const keys = new Set(fields.map((field) => field.key));
+  const undefinedRequired = requiredFields.filter((key) => !keys.has(key));
+  if (undefinedRequired.length > 0) {
+    throw createAppError(
+      "VALIDATION_ERROR",
+      400,
+      "Every required field must be defined in fields",
+      { required_fields: undefinedRequired },
+    );
+  }
+
+  const changes: Database["public"]["Tables"]["templates"]["Update"] = {
+    version: current.version + 1,
+  };
+  if (input.name !== undefined) changes.name = input.name;
+  if (input.fields !== undefined) {
+    changes.fields = input.fields as unknown as Json;
+  }
+  if (input.required_fields !== undefined) {
+    changes.required_fields = input.required_fields;
+  }
+  if (input.attachments !== undefined) changes.attachments = input.attachments;
+  if (input.preset !== undefined) changes.preset = input.preset;
+
+  const { data, error } = await supabase
+    .from("templates")
+    .update(changes)
+    .eq("id", id)
+    .eq("version", current.version)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === PGRST_NO_ROWS) {
+      throw versionConflict(current.version);
+    }
+    throw writeError(error);
+  }
+
+  return toTemplateDTO(data);
+}
+
+/**
+ * Delete a template the actor may modify (forks keep working: their
+ * origin_template_id is cleared by the foreign key)
+ */
+export async function deleteTemplate(
+  supabase: Supabase,
+  actor: TemplateActor,
+  id: string,
+): Promise<void> {
+  const current = await getTemplate(supabase, actor, id);
+  assertCanModify(current, actor);
+
+  const { error } = await supabase.from("templates").delete().eq("id", id);
+
+  if (error) {
+    throw writeError(error);
+  }
+}
+
+/**
+ * Copy a visible template into the actor's own scope.
+ * The fork keeps the source name unless a new one is given; a name the
+ * actor already uses results in 409.
+ */
+export async function forkTemplate(
+  supabase: Supabase,
+  actor: TemplateActor,
+  id: string,
+  cmd: ForkTemplateCommand,
+): Promise<TemplateDTO> {
+  const source = await getTemplate(supabase, actor, id);
+
+  const { data, error } = await supabase
+    .from("templates")
+    .insert({
+      name: cmd.name ?? source.name,
+      scope: "user",
+      owner_id: actor.id,
+      preset: source.preset,
+      fields: source.fields as unknown as Json,
+      required_fields: source.required_fields,
+      attachments: source.attachments,
+      origin_template_id: source.id,
+      is_readonly: false,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw error ? writeError(error) : databaseError("Failed to fork template");
+  }
+
+  return toTemplateDTO(data);
+}
+
+/**
+ * Build a Markdown defect report from a template and field values
+ * @throws AppError VALIDATION_ERROR listing required fields left empty
+ */
+export function buildTemplateMarkdown(
+  template: TemplateReportSource,
+  cmd: RenderTemplateCommand,
+): string {
+  const missing = getMissingRequiredFields(template, cmd.values);
+  if (missing.length > 0) {
+    throw createAppError(
+      "VALIDATION_ERROR",
+      400,
+      "Required fields are missing",
+      { missing_fields: missing },
+    );
+  }
+
+  return renderTemplateMarkdown(template, cmd.values, cmd.attachments);
+}
+
+/**
+ * Render a visible template to Markdown
+ */
+export async function renderTemplate(
+  supabase: Supabase,
+  actor: TemplateActor | null,
+  id: string,
+  cmd: RenderTemplateCommand,
+): Promise<RenderTemplateResult> {
+  const template = await getTemplate(supabase, actor, id);
+  return { markdown: buildTemplateMarkdown(template, cmd) };
+}
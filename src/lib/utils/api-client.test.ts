@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { ApiRequestError, apiRequest, toUIError } from "./api-client";
+
+describe("apiRequest", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.stubGlobal("fetch", fetchMock);
+    fetchMock.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("sends JSON with query params and returns the parsed body", async () => {
+    fetchMock.mockResolvedValue(
+      new Response(JSON.stringify({ items: [] }), { status: 200 }),
+    );
+
+    const result = await apiRequest<{ items: unknown[] }>(
+      "http://localhost",
+      "/api/templates",
+      { method: "POST", body: { a: 1 }, params: { limit: "5" } },
+    );
+
+    expect(result).toEqual({ items: [] });
+    expect(fetchMock).toHaveBeenCalledWith(
+      "http://localhost/api/templates?limit=5",
+      expect.objectContaining({
+        method: "POST",
+        body: '{"a":1}',
+        credentials: "include",
+      }),
+    );
+  });
+
+  it("returns undefined for 204 responses", async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+    await expect(
+      apiRequest("http://localhost", "/api/templates/1", { method: "DELETE" }),
+    ).resolves.toBeUndefined();
+  });
+
+  it("unwraps the error envelope", async () => {
+    fetchMock.mockResolvedValue(
+      new Response(
+        JSON.stringify({ error: { code: "FORBIDDEN", message: "Nope" } }),
+        { status: 403 },
+      ),
+    );
+
+    const error = await apiRequest("http://localhost", "/api/x").catch(
+      (err: unknown) => err,
+    );
+
+    expect(error).toBeInstanceOf(ApiRequestError);
+    expect(error).toMatchObject({
+      code: "FORBIDDEN",
+      message: "Nope",
+      status: 403,
+    });
+  });
+
+  it("falls back to INTERNAL for non-JSON errors", async () => {
+    fetchMock.mockResolvedValue(new Response("oops", { status: 502 }));
+
+    await expect(
+      apiRequest("http://localhost", "/api/x"),
+    ).rejects.toMatchObject({
+      code: "INTERNAL",
+      message: "An unexpected error occurred",
+    });
+  });
+});
+
+describe("toUIError", () => {
+  it("keeps API error codes and uses the fallback otherwise", () => {
+    expect(toUIError(new ApiRequestError("CONFLICT", "Stale"), "X")).toEqual({
+      code: "CONFLICT",
+      message: "Stale",
+    });
+    expect(toUIError(new Error("boom"), "FETCH_ERROR")).toEqual({
+      code: "FETCH_ERROR",
+      message: "boom",
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import type { UIError } from "@/types/types";
+
+/**
+ * Error thrown by apiRequest for non-2xx responses; carries the API error code
+ */
+export class ApiRequestError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public status?: number,
+  ) {
+    super(message);
+    this.name = "ApiRequestError";
+  }
+}
+
+export interface ApiRequestInit {
+  method?: string;
+  body?: unknown;
+  params?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+async function send(
+  baseUrl: string | undefined,
+  path: string,
+  init: ApiRequestInit | undefined,
+): Promise<Response> {
+  const resolvedBaseUrl =
+    baseUrl || (typeof window !== "undefined" ? window.location.origin : "");
+  const url = new URL(path, resolvedBaseUrl);
+  for (const [key, value] of Object.entries(init?.params ?? {})) {
+    url.searchParams.set(key, value);
+  }
+
+  const response = await fetch(url.toString(), {
+    method: init?.method ?? "GET",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    credentials: "include",
+    body: init?.body !== undefined ? JSON.stringify(init.body) : undefined,
+    signal: init?.signal,
+  });
+
+  if (!response.ok) {
+    const errorData = (await response.json().catch(() => ({
+      error: {
+        code: "INTERNAL",
+        message: "An unexpected error occurred",
+      },
+    }))) as { error?: { code?: string; message?: string } };
+    throw new ApiRequestError(
+      errorData.error?.code || "INTERNAL",
+      errorData.error?.message || "Request failed",
+      response.status,
+    );
+  }
+
+  return response;
+}
+
+/**
+ * Performs a same-origin JSON request and unwraps the `{ error }` envelope.
+ * Returns undefined for 204 responses.
+ */
+export async function apiRequest<T>(
+  baseUrl: string | undefined,
+  path: string,
+  init?: ApiRequestInit,
+): Promise<T> {
+  const response = await send(baseUrl, path, init);
+
+  if (response.status === 204) {
+    return undefined as T;
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Like apiRequest, but resolves with the raw response body for streaming
+ * endpoints (text/event-stream). Error responses still throw ApiRequestError.
+ */
+export async function apiStreamRequest(
+  baseUrl: string | undefined,
+  path: string,
+  init?: ApiRequestInit,
+): Promise<ReadableStream<Uint8Array>> {
+  const response = await send(baseUrl, path, init);
+  if (!response.body) {
+    throw new ApiRequestError("INTERNAL", "Empty response stream");
+  }
+  return response.body;
+}
+
+/**
+ * Normalize a thrown value into the UIError shape used by hooks
+ */
+export function toUIError(err: unknown, fallbackCode: string): UIError {
+  if (err instanceof ApiRequestError) {
+    return { code: err.code, message: err.message };
+  }
+  return {
+    code: fallbackCode,
+    message:
+      err instanceof Error ? err.message : "An unexpected error occurred",
+  };
+}
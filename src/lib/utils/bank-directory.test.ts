@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import {
+  BANK_DIRECTORY,
+  findBanks,
+  findNationalCheckBanks,
+  getBankCodeRange,
+  hasBankDirectory,
+  resolveBank,
+} from "./bank-directory";
+import { IBAN_COUNTRIES } from "./iban-registry";
+import { validateIban } from "./iban-validator";
+import { generate } from "../services/iban.service";
+
+describe("bank directory", () => {
+  it.each(Object.entries(BANK_DIRECTORY))(
+    "should have well-formed %s entries",
+    (country, banks) => {
+      const range = getBankCodeRange(country as "DE" | "AT" | "PL");
+      for (const bank of banks) {
+        expect(bank.bankCode).toMatch(new RegExp(`^\\d{${range?.length}}$`));
+        expect(bank.bic).toMatch(/^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}[A-Z0-9]{3}$/);
+        expect(bank.bic.slice(4, 6)).toBe(country);
+      }
+      expect(new Set(banks.map((bank) => bank.bankCode)).size).toBe(
+        banks.length,
+      );
+    },
+  );
+
+  it("should cover only DE, AT and PL", () => {
+    expect(hasBankDirectory("DE")).toBe(true);
+    expect(hasBankDirectory("FR")).toBe(false);
+    expect(findBanks("FR", "any")).toEqual([]);
+  });
+
+  describe("findBanks", () => {
+    it("should return all banks for 'any' or no query", () => {
+      expect(findBanks("AT", "any")).toHaveLength(BANK_DIRECTORY.AT.length);
+      expect(findBanks("AT")).toHaveLength(BANK_DIRECTORY.AT.length);
+    });
+
+    it("should match name fragments case-insensitively", () => {
+      expect(findBanks("DE", "commerz").map((bank) => bank.bankCode)).toEqual([
+        "10040000",
+        "37040044",
+      ]);
+      expect(findBanks("PL", "śląski")[0].bic).toBe("INGBPLPWXXX");
+    });
+
+    it("should match BIC prefixes", () => {
+      expect(findBanks("PL", "brexplpw").map((bank) => bank.name)).toEqual([
+        "mBank",
+      ]);
+      expect(findBanks("DE", "DEUTDEFF").map((bank) => bank.bankCode)).toEqual([
+        "50070010",
+      ]);
+    });
+  });
+
+  describe("findNationalCheckBanks", () => {
+    it("should keep only German banks with a known check method", () => {
+      expect(
+        findNationalCheckBanks("DE", "deutsche").map((bank) => bank.name),
+      ).toEqual(["Deutsche Bank", "Deutsche Bank"]);
+      expect(findNationalCheckBanks("DE", "ing")).toEqual([]);
+    });
+
+    it("should keep every bank of countries that check all accounts", () => {
+      expect(findNationalCheckBanks("PL", "any")).toHaveLength(
+        BANK_DIRECTORY.PL.length,
+      );
+      expect(findNationalCheckBanks("AT", "any")).toEqual([]);
+    });
+  });
+
+  describe("resolveBank", () => {
+    it("should read the bank code at the registry position", () => {
+      expect(getBankCodeRange("DE")).toEqual({ start: 0, length: 8 });
+      expect(getBankCodeRange("IT")).toEqual({ start: 1, length: 5 });
+      expect(resolveBank("AT", "1200012345678901")?.name).toBe(
+        "UniCredit Bank Austria",
+      );
+      expect(resolveBank("AT", "9999912345678901")).toBeNull();
+      expect(resolveBank("FR", "30006000011234567890189")).toBeNull();
+    });
+  });
+
+  it.each(["DE", "AT", "PL"] as const)(
+    "should generate valid %s IBANs for directory banks",
+    (country) => {
+      for (const seed of ["alpha", "beta", "gamma", "delta"]) {
+        const iban = generate(country, seed, "any");
+        expect(iban).toHaveLength(IBAN_COUNTRIES[country].length);
+
+        const result = validateIban(iban);
+        expect(result.valid).toBe(true);
+        expect(findBanks(country)).toContainEqual(result.bank);
+      }
+    },
+  );
+
+  it("should keep seeded generation deterministic with a bank query", () => {
+    expect(generate("PL", "seed-1", "mbank")).toBe(
+      generate("PL", "seed-1", "mbank"),
+    );
+    expect(generate("PL", "seed-1", "mbank").slice(4, 7)).toBe("114");
+  });
+});
@@ -0,0 +1,172 @@
+import type { IbanBank, IbanCountry } from "../../types/types";
+import { IBAN_COUNTRIES } from "./iban-registry";
+import { hasNationalCheck } from "./bban-check";
+
+/**
+ * Offline bank directory for IBAN generation and lookup.
+ *
+ * A small bundled subset of the national registers (Bundesbank BLZ file,
+ * OeNB bank code list, NBP sort codes) covering the banks we test against.
+ * Polish entries use the 3-digit bank number; the branch part of the sort
+ * code is free.
+ */
+
+export type BankDirectoryCountry = Extract<IbanCountry, "DE" | "AT" | "PL">;
+
+/** `bank` value that selects any bank from the directory */
+export const ANY_BANK = "any";
+
+export const BANK_DIRECTORY: Record<BankDirectoryCountry, readonly IbanBank[]> =
+  {
+    DE: [
+      { bankCode: "10070000", bic: "DEUTDEBBXXX", name: "Deutsche Bank" },
+      { bankCode: "50070010", bic: "DEUTDEFFXXX", name: "Deutsche Bank" },
+      { bankCode: "10040000", bic: "COBADEBBXXX", name: "Commerzbank" },
+      { bankCode: "37040044", bic: "COBADEFFXXX", name: "Commerzbank" },
+      { bankCode: "50010517", bic: "INGDDEFFXXX", name: "ING-DiBa" },
+      { bankCode: "10010010", bic: "PBNKDEFFXXX", name: "Postbank" },
+      { bankCode: "12030000", bic: "BYLADEM1001", name: "Deutsche Kreditbank" },
+      {
+        bankCode: "70020270",
+        bic: "HYVEDEMMXXX",
+        name: "UniCredit Bank - HypoVereinsbank",
+      },
+      { bankCode: "10050000", bic: "BELADEBEXXX", name: "Berliner Sparkasse" },
+      { bankCode: "20050550", bic: "HASPDEHHXXX", name: "Hamburger Sparkasse" },
+      { bankCode: "37050198", bic: "COLSDE33XXX", name: "Sparkasse KölnBonn" },
+      {
+        bankCode: "70150000",
+        bic: "SSKMDEMMXXX",
+        name: "Stadtsparkasse München",
+      },
+      {
+        bankCode: "43060967",
+        bic: "GENODEM1GLS",
+        name: "GLS Gemeinschaftsbank",
+      },
+      { bankCode: "10011001", bic: "NTSBDEB1XXX", name: "N26 Bank" },
+    ],
+    AT: [
+      { bankCode: "12000", bic: "BKAUATWWXXX", name: "UniCredit Bank Austria" },
+      {
+        bankCode: "20111",
+        bic: "GIBAATWWXXX",
+        name: "Erste Bank der oesterreichischen Sparkassen",
+      },
+      { bankCode: "14000", bic: "BAWAATWWXXX", name: "BAWAG" },
+      {
+        bankCode: "31000",
+        bic: "RZBAATWWXXX",
+        name: "Raiffeisen Bank International",
+      },
+      {
+        bankCode: "32000",
+        bic: "RLNWATWWXXX",
+        name: "Raiffeisenlandesbank Niederösterreich-Wien",
+      },
+      {
+        bankCode: "34000",
+        bic: "RZOOAT2LXXX",
+        name: "Raiffeisenlandesbank Oberösterreich",
+      },
+      { bankCode: "15000", bic: "OBKLAT2LXXX", name: "Oberbank" },
+      {
+        bankCode: "20815",
+        bic: "STSPAT2GXXX",
+        name: "Steiermärkische Sparkasse",
+      },
+      { bankCode: "20404", bic: "SBGSAT2SXXX", name: "Salzburger Sparkasse" },
+    ],
+    PL: [
+      { bankCode: "101", bic: "NBPLPLPWXXX", name: "Narodowy Bank Polski" },
+      { bankCode: "102", bic: "BPKOPLPWXXX", name: "PKO Bank Polski" },
+      { bankCode: "103", bic: "CITIPLPXXXX", name: "Bank Handlowy" },
+      { bankCode: "105", bic: "INGBPLPWXXX", name: "ING Bank Śląski" },
+      { bankCode: "109", bic: "WBKPPLPPXXX", name: "Santander Bank Polska" },
+      {
+        bankCode: "113",
+        bic: "GOSKPLPWXXX",
+        name: "Bank Gospodarstwa Krajowego",
+      },
+      { bankCode: "114", bic: "BREXPLPWXXX", name: "mBank" },
+      { bankCode: "116", bic: "BIGBPLPWXXX", name: "Bank Millennium" },
+      { bankCode: "124", bic: "PKOPPLPWXXX", name: "Bank Pekao" },
+      { bankCode: "160", bic: "PPABPLPKXXX", name: "BNP Paribas Bank Polska" },
+      {
+        bankCode: "194",
+        bic: "AGRIPLPRXXX",
+        name: "Credit Agricole Bank Polska",
+      },
+      { bankCode: "249", bic: "ALBPPLPWXXX", name: "Alior Bank" },
+    ],
+  };
+
+export function hasBankDirectory(
+  country: IbanCountry,
+): country is BankDirectoryCountry {
+  return Object.hasOwn(BANK_DIRECTORY, country);
+}
+
+/**
+ * Banks of a country matching a query: ANY_BANK (or no query) returns all,
+ * otherwise a case-insensitive name fragment or BIC prefix.
+ */
+export function findBanks(country: IbanCountry, query?: string): IbanBank[] {
+  if (!hasBankDirectory(country)) {
+    return [];
+  }
+  const banks = BANK_DIRECTORY[country];
+  const needle = query?.trim().toLowerCase();
+  if (!needle || needle === ANY_BANK) {
+    return [...banks];
+  }
+  return banks.filter(
+    (bank) =>
+      bank.name.toLowerCase().includes(needle) ||
+      bank.bic.toLowerCase().startsWith(needle),
+  );
+}
+
+/**
+ * Banks matching a query whose accounts have national check digits; the
+ * "national" defect picks only from these so it keeps the requested bank
+ */
+export function findNationalCheckBanks(
+  country: IbanCountry,
+  query?: string,
+): IbanBank[] {
+  return findBanks(country, query).filter((bank) =>
+    hasNationalCheck(country, bank.bankCode),
+  );
+}
+
+/**
+ * Position of the bank code inside the country's BBAN
+ */
+export function getBankCodeRange(
+  country: IbanCountry,
+): { start: number; length: number } | null {
+  let start = 0;
+  for (const segment of IBAN_COUNTRIES[country].bban) {
+    if (segment.kind === "bank") {
+      return { start, length: segment.length };
+    }
+    start += segment.length;
+  }
+  return null;
+}
+
+/**
+ * Look up the bank of a structurally valid BBAN
+ */
+export function resolveBank(
+  country: IbanCountry,
+  bban: string,
+): IbanBank | null {
+  const range = getBankCodeRange(country);
+  if (!range || !hasBankDirectory(country)) {
+    return null;
+  }
+  const code = bban.slice(range.start, range.start + range.length);
+  return BANK_DIRECTORY[country].find((bank) => bank.bankCode === code) ?? null;
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyNationalCheck,
+  breakNationalCheck,
+  getNationalCheckIndex,
+  validateNationalCheck,
+} from "./bban-check";
+import { splitmix32 } from "./number";
+
+describe("bban-check", () => {
+  describe("Poland (NRB sort code)", () => {
+    it.each(["109010140000071219812874", "114020040000300201355387"])(
+      "should accept valid sort code in %s",
+      (bban) => {
+        expect(validateNationalCheck("PL", bban)).toBeNull();
+      },
+    );
+
+    it("should reject a wrong sort code check digit", () => {
+      expect(validateNationalCheck("PL", "109010150000071219812874")).toBe(
+        "Invalid Polish sort code check digit",
+      );
+    });
+
+    it("should recompute the check digit at position 8", () => {
+      expect(applyNationalCheck("PL", "109010190000071219812874")).toBe(
+        "109010140000071219812874",
+      );
+    });
+  });
+
+  describe("Germany (Bundesbank methods)", () => {
+    it("should accept a valid method 13 account", () => {
+      expect(validateNationalCheck("DE", "370400440532013000")).toBeNull();
+    });
+
+    it("should accept a method 13 account without sub-account", () => {
+      expect(validateNationalCheck("DE", "370400440005320130")).toBeNull();
+    });
+
+    it("should reject a method 13 account with a wrong check digit", () => {
+      expect(validateNationalCheck("DE", "370400440532013900")).toBe(
+        "Invalid German account check digit (Bundesbank method 13)",
+      );
+    });
+
+    it("should accept a valid method 63 account", () => {
+      expect(validateNationalCheck("DE", "100700000123456600")).toBeNull();
+      expect(validateNationalCheck("DE", "100700000001234566")).toBeNull();
+    });
+
+    it("should reject a method 63 account not starting with 0", () => {
+      expect(validateNationalCheck("DE", "100700001123456600")).toBe(
+        "Invalid German account check digit (Bundesbank method 63)",
+      );
+    });
+
+    it("should skip the check for unknown bank codes", () => {
+      expect(validateNationalCheck("DE", "123456781234567890")).toBeNull();
+      expect(applyNationalCheck("DE", "123456781234567890")).toBe(
+        "123456781234567890",
+      );
+    });
+
+    it("should complete accounts for known bank codes", () => {
+      const bban = applyNationalCheck("DE", "100700009123456900");
+      expect(bban).toBe("100700000123456600");
+      expect(validateNationalCheck("DE", bban)).toBeNull();
+    });
+  });
+
+  describe("Belgium", () => {
+    it("should accept valid check digits", () => {
+      expect(validateNationalCheck("BE", "539007547034")).toBeNull();
+    });
+
+    it("should reject wrong check digits", () => {
+      expect(validateNationalCheck("BE", "539007547035")).toBe(
+        "Invalid Belgian account check digits",
+      );
+    });
+
+    it("should use 97 when the remainder is zero", () => {
+      expect(applyNationalCheck("BE", "000000009700")).toBe("000000009797");
+    });
+  });
+
+  describe("breakNationalCheck", () => {
+    it.each([
+      ["PL", "109010140000071219812874"],
+      ["BE", "539007547034"],
+      ["DE", "370400440532013000"],
+    ] as const)("should break the %s check", (country, bban) => {
+      for (let seed = 0; seed < 20; seed++) {
+        const broken = breakNationalCheck(country, bban, splitmix32(seed));
+        expect(broken).toHaveLength(bban.length);
+        expect(validateNationalCheck(country, broken as string)).not.toBeNull();
+      }
+    });
+
+    it("should switch unknown German bank codes to one with a method", () => {
+      const broken = breakNationalCheck(
+        "DE",
+        "123456781234567890",
+        splitmix32(1),
+      ) as string;
+      expect(validateNationalCheck("DE", broken)).toMatch(/method (13|63)/);
+    });
+
+    it("should return null for countries without a check", () => {
+      expect(
+        breakNationalCheck("FR", "30006000011234567890189", splitmix32(1)),
+      ).toBeNull();
+    });
+  });
+
+  it("should leave countries without national checks unchanged", () => {
+    expect(validateNationalCheck("AT", "1904300234573201")).toBeNull();
+    expect(applyNationalCheck("AT", "1904300234573201")).toBe(
+      "1904300234573201",
+    );
+  });
+
+  it("should expose the BBAN index of the checked digit", () => {
+    expect(getNationalCheckIndex("PL")).toBe(7);
+    expect(getNationalCheckIndex("DE")).toBe(15);
+    expect(getNationalCheckIndex("AT")).toBeNull();
+  });
+});
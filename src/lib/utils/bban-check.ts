@@ -0,0 +1,259 @@
+import type { IbanCountry } from "../../types/types";
+import { calculateLuhnCheckDigit } from "./luhn";
+import { pickOne } from "./number";
+
+/**
+ * National check digits inside the BBAN.
+ *
+ * The IBAN mod-97 checksum only protects the transfer of the number; banks
+ * additionally verify the check characters defined by the national account
+ * format. A country listed here is validated by validateIban and gets its
+ * check characters recomputed by the IBAN generator.
+ */
+
+interface NationalBbanCheck {
+  /** Failure reason for a structurally valid BBAN, or null when it passes */
+  validate(bban: string): string | null;
+  /** Same BBAN with its national check characters recomputed */
+  complete(bban: string): string;
+  /** BBAN index of a check digit; tampering with it breaks the check */
+  checkIndex: number;
+  /** Make the check applicable (DE: switch to a BLZ with a known method) */
+  prepare?(bban: string, rng: () => number): string;
+  /** Whether BBANs with this bank code are checked (default: all are) */
+  checksBankCode?(bankCode: string): boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Poland: NRB sort code (8 digits = bank 3 + branch 4 + check 1)
+// ---------------------------------------------------------------------------
+
+const PL_SORT_CODE_WEIGHTS = [3, 9, 7, 1, 3, 9, 7];
+
+function plSortCodeCheckDigit(sortCode: string): string {
+  const sum = PL_SORT_CODE_WEIGHTS.reduce(
+    (acc, weight, i) => acc + weight * Number(sortCode[i]),
+    0,
+  );
+  return String((10 - (sum % 10)) % 10);
+}
+
+const polishCheck: NationalBbanCheck = {
+  validate(bban) {
+    return bban[7] === plSortCodeCheckDigit(bban)
+      ? null
+      : "Invalid Polish sort code check digit";
+  },
+  complete(bban) {
+    return bban.slice(0, 7) + plSortCodeCheckDigit(bban) + bban.slice(8);
+  },
+  checkIndex: 7,
+};
+
+// ---------------------------------------------------------------------------
+// Germany: Bundesbank account check methods (Prüfzifferberechnungsmethoden)
+// ---------------------------------------------------------------------------
+
+interface AccountCheckMethod {
+  isValid(account: string): boolean;
+  complete(account: string): string;
+}
+
+/**
+ * Methods 13 and 63 share the core rule: Luhn-style modulus 10 over
+ * positions 2-7 with the check digit at position 8; positions 9-10 hold a
+ * sub-account number.
+ */
+function checkDigitAt8(account: string): boolean {
+  return String(calculateLuhnCheckDigit(account.slice(1, 7))) === account[7];
+}
+
+function completeAt8(account: string): string {
+  return (
+    account.slice(0, 7) +
+    calculateLuhnCheckDigit(account.slice(1, 7)) +
+    account.slice(8)
+  );
+}
+
+/**
+ * Method 13 (Commerzbank): check at position 8; when that fails the
+ * account may have been entered without its sub-account, so it is checked
+ * again shifted left by two positions.
+ */
+const method13: AccountCheckMethod = {
+  isValid: (account) =>
+    checkDigitAt8(account) || checkDigitAt8(`${account.slice(2)}00`),
+  complete: completeAt8,
+};
+
+/**
+ * Method 63 (Deutsche Bank): position 1 must be 0; accounts starting with
+ * 000 may omit the sub-account and are re-checked shifted left by two.
+ */
+const method63: AccountCheckMethod = {
+  isValid: (account) =>
+    account[0] === "0" &&
+    (checkDigitAt8(account) ||
+      (account.startsWith("000") && checkDigitAt8(`${account.slice(2)}00`))),
+  complete: (account) => completeAt8(`0${account.slice(1)}`),
+};
+
+const DE_CHECK_METHODS: Record<string, AccountCheckMethod> = {
+  "13": method13,
+  "63": method63,
+};
+
+/**
+ * Check method per bank code (BLZ) for institutions we test against.
+ * Unknown BLZs are accepted without a national check.
+ */
+const DE_BLZ_CHECK_METHODS: Record<string, string> = {
+  "10040000": "13", // Commerzbank Berlin
+  "20040000": "13", // Commerzbank Hamburg
+  "37040044": "13", // Commerzbank Köln
+  "50040000": "13", // Commerzbank Frankfurt
+  "70040041": "13", // Commerzbank München
+  "10070000": "63", // Deutsche Bank Berlin
+  "20070000": "63", // Deutsche Bank Hamburg
+  "37070060": "63", // Deutsche Bank Köln
+  "50070010": "63", // Deutsche Bank Frankfurt
+  "70070010": "63", // Deutsche Bank München
+};
+
+function getGermanCheckMethod(
+  blz: string,
+): { id: string; method: AccountCheckMethod } | null {
+  const id = DE_BLZ_CHECK_METHODS[blz];
+  return id ? { id, method: DE_CHECK_METHODS[id] } : null;
+}
+
+const germanCheck: NationalBbanCheck = {
+  validate(bban) {
+    const check = getGermanCheckMethod(bban.slice(0, 8));
+    if (!check || check.method.isValid(bban.slice(8))) {
+      return null;
+    }
+    return `Invalid German account check digit (Bundesbank method ${check.id})`;
+  },
+  complete(bban) {
+    const check = getGermanCheckMethod(bban.slice(0, 8));
+    return check
+      ? bban.slice(0, 8) + check.method.complete(bban.slice(8))
+      : bban;
+  },
+  // Position 8 of the 10-digit account number
+  checkIndex: 15,
+  prepare(bban, rng) {
+    return getGermanCheckMethod(bban.slice(0, 8))
+      ? bban
+      : pickOne(rng, Object.keys(DE_BLZ_CHECK_METHODS)) + bban.slice(8);
+  },
+  checksBankCode: (blz) => getGermanCheckMethod(blz) !== null,
+};
+
+// ---------------------------------------------------------------------------
+// Belgium: last two digits are the first ten modulo 97 (00 becomes 97)
+// ---------------------------------------------------------------------------
+
+function beCheckDigits(bban: string): string {
+  const remainder = Number(bban.slice(0, 10)) % 97;
+  return String(remainder === 0 ? 97 : remainder).padStart(2, "0");
+}
+
+const belgianCheck: NationalBbanCheck = {
+  validate(bban) {
+    return bban.slice(10) === beCheckDigits(bban)
+      ? null
+      : "Invalid Belgian account check digits";
+  },
+  complete(bban) {
+    return bban.slice(0, 10) + beCheckDigits(bban);
+  },
+  checkIndex: 11,
+};
+
+const NATIONAL_CHECKS: Partial<Record<IbanCountry, NationalBbanCheck>> = {
+  BE: belgianCheck,
+  DE: germanCheck,
+  PL: polishCheck,
+};
+
+/**
+ * Validate national check characters of a BBAN that already matches the
+ * country's structure.
+ *
+ * @returns Failure reason, or null when valid or the country has no check
+ */
+export function validateNationalCheck(
+  country: IbanCountry,
+  bban: string,
+): string | null {
+  return NATIONAL_CHECKS[country]?.validate(bban) ?? null;
+}
+
+/** Countries whose national check digits are validated */
+export const NATIONAL_CHECK_COUNTRIES = Object.keys(
+  NATIONAL_CHECKS,
+).sort() as IbanCountry[];
+
+/**
+ * Whether accounts of a bank have national check digits, so the "national"
+ * defect can keep that bank (DE: only BLZs with a known check method)
+ */
+export function hasNationalCheck(
+  country: IbanCountry,
+  bankCode: string,
+): boolean {
+  const check = NATIONAL_CHECKS[country];
+  return !!check && (check.checksBankCode?.(bankCode) ?? true);
+}
+
+/**
+ * BBAN index of the national check digit that validateNationalCheck
+ * verifies, or null when the country has no check
+ */
+export function getNationalCheckIndex(country: IbanCountry): number | null {
+  return NATIONAL_CHECKS[country]?.checkIndex ?? null;
+}
+
+/**
+ * Recompute the national check characters of a generated BBAN
+ */
+export function applyNationalCheck(country: IbanCountry, bban: string): string {
+  return NATIONAL_CHECKS[country]?.complete(bban) ?? bban;
+}
+
+/**
+ * Structurally valid BBAN whose national check fails: the check digit is
+ * replaced by another digit chosen with rng.
+ *
+ * @returns null when the country has no national check
+ */
+export function breakNationalCheck(
+  country: IbanCountry,
+  bban: string,
+  rng: () => number,
+): string | null {
+  const check = NATIONAL_CHECKS[country];
+  if (!check) {
+    return null;
+  }
+  const valid = check.complete(check.prepare?.(bban, rng) ?? bban);
+  const digit = Number(valid[check.checkIndex]);
+  const start = 1 + (rng() % 9);
+
+  // A few methods accept alternatives (DE sub-account shift), so keep
+  // trying until the replacement really fails
+  for (let i = 0; i < 9; i++) {
+    const replacement = String((digit + ((start + i - 1) % 9) + 1) % 10);
+    const broken =
+      valid.slice(0, check.checkIndex) +
+      replacement +
+      valid.slice(check.checkIndex + 1);
+    if (check.validate(broken)) {
+      return broken;
+    }
+  }
+  throw new Error(`Cannot break the national check of ${country} BBAN`);
+}
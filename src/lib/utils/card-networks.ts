@@ -0,0 +1,75 @@
+import type { CardNetwork } from "../../types/types";
+
+/**
+ * Card network registry: issuer identification number (IIN/BIN) ranges,
+ * number lengths and CVV lengths. Used by the card generator and validator.
+ */
+
+export interface CardNetworkSpec {
+  label: string;
+  /**
+   * Inclusive IIN ranges; both bounds have the same number of digits and
+   * are compared against that many leading digits of the card number
+   */
+  ranges: readonly (readonly [number, number])[];
+  /** Valid card number lengths, including the Luhn check digit */
+  lengths: readonly number[];
+  cvvLength: number;
+}
+
+export const CARD_NETWORKS: Record<CardNetwork, CardNetworkSpec> = {
+  visa: {
+    label: "Visa",
+    ranges: [[4, 4]],
+    lengths: [16, 19],
+    cvvLength: 3,
+  },
+  mastercard: {
+    label: "Mastercard",
+    ranges: [
+      [51, 55],
+      [2221, 2720],
+    ],
+    lengths: [16],
+    cvvLength: 3,
+  },
+  amex: {
+    label: "American Express",
+    ranges: [
+      [34, 34],
+      [37, 37],
+    ],
+    lengths: [15],
+    cvvLength: 4,
+  },
+  maestro: {
+    label: "Maestro",
+    ranges: [
+      [5018, 5018],
+      [5020, 5020],
+      [5038, 5038],
+      [5893, 5893],
+      [6304, 6304],
+      [6759, 6759],
+      [6761, 6763],
+    ],
+    lengths: [12, 13, 14, 15, 16, 17, 18, 19],
+    cvvLength: 3,
+  },
+};
+
+export const CARD_NETWORK_IDS = Object.keys(CARD_NETWORKS) as CardNetwork[];
+
+/**
+ * Detect the card network from the leading digits of a card number
+ * @returns The network whose IIN range matches, or undefined
+ */
+export function detectCardNetwork(number: string): CardNetwork | undefined {
+  return CARD_NETWORK_IDS.find((network) =>
+    CARD_NETWORKS[network].ranges.some(([from, to]) => {
+      const digits = String(from).length;
+      const prefix = Number(number.slice(0, digits));
+      return number.length >= digits && prefix >= from && prefix <= to;
+    }),
+  );
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { validateCard } from "./card-validator";
+import { detectCardNetwork } from "./card-networks";
+
+describe("card-validator", () => {
+  describe("detectCardNetwork", () => {
+    it.each([
+      ["4111111111111111", "visa"],
+      ["5500000000000004", "mastercard"],
+      ["2221000000000009", "mastercard"],
+      ["2720990000000007", "mastercard"],
+      ["378282246310005", "amex"],
+      ["341111111111111", "amex"],
+      ["6759649826438453", "maestro"],
+      ["5018000000000009", "maestro"],
+    ])("should detect %s as %s", (number, network) => {
+      expect(detectCardNetwork(number)).toBe(network);
+    });
+
+    it.each(["6011111111111117", "2721000000000000", "3530111333300000"])(
+      "should not detect a network for %s",
+      (number) => {
+        expect(detectCardNetwork(number)).toBeUndefined();
+      },
+    );
+  });
+
+  describe("validateCard", () => {
+    it("should accept a valid card and report its network", () => {
+      expect(validateCard("4111 1111 1111 1111")).toEqual({
+        valid: true,
+        normalized: "4111111111111111",
+        network: "visa",
+      });
+    });
+
+    it("should report Luhn failures with the detected network", () => {
+      expect(validateCard("4111-1111-1111-1112")).toEqual({
+        valid: false,
+        normalized: "4111111111111112",
+        network: "visa",
+        reason: "Invalid Luhn check digit",
+      });
+    });
+
+    it("should accept Luhn-valid numbers of unknown networks", () => {
+      expect(validateCard("6011111111111117")).toEqual({
+        valid: true,
+        normalized: "6011111111111117",
+      });
+    });
+
+    it.each([
+      ["4111 abcd", "Card number must contain only digits"],
+      ["41111111111", "Card number must be 12-19 digits"],
+      ["41111111111111111111", "Card number must be 12-19 digits"],
+      ["4111111111111", "Visa numbers must be 16 or 19 digits"],
+      ["3782822463100051", "American Express numbers must be 15 digits"],
+    ])("should reject %s", (number, reason) => {
+      expect(validateCard(number)).toMatchObject({ valid: false, reason });
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Card Validator - validates payment card number format, length and Luhn checksum
+ */
+
+import { CARD_NETWORKS, detectCardNetwork } from "./card-networks";
+import { isValidLuhn } from "./luhn";
+import type { CardValidationResponse } from "../../types/types";
+
+/** Shortest and longest card numbers in ISO/IEC 7812 */
+const MIN_CARD_LENGTH = 12;
+const MAX_CARD_LENGTH = 19;
+
+/**
+ * Validate a payment card number
+ * @param number - Card number; spaces and hyphens are ignored
+ * @returns Validation result with reason if invalid, and the network when
+ * the issuer range is known (also for invalid numbers)
+ */
+export function validateCard(number: string): CardValidationResponse {
+  const normalized = number.replace(/[\s-]/g, "");
+
+  if (!/^\d+$/.test(normalized)) {
+    return {
+      valid: false,
+      reason: "Card number must contain only digits",
+      normalized,
+    };
+  }
+
+  const network = detectCardNetwork(normalized);
+  const result: CardValidationResponse = network
+    ? { valid: false, normalized, network }
+    : { valid: false, normalized };
+
+  if (
+    normalized.length < MIN_CARD_LENGTH ||
+    normalized.length > MAX_CARD_LENGTH
+  ) {
+    return {
+      ...result,
+      reason: `Card number must be ${MIN_CARD_LENGTH}-${MAX_CARD_LENGTH} digits`,
+    };
+  }
+
+  if (network && !CARD_NETWORKS[network].lengths.includes(normalized.length)) {
+    const { label, lengths } = CARD_NETWORKS[network];
+    return {
+      ...result,
+      reason: `${label} numbers must be ${formatLengths(lengths)} digits`,
+    };
+  }
+
+  if (!isValidLuhn(normalized)) {
+    return { ...result, reason: "Invalid Luhn check digit" };
+  }
+
+  return { ...result, valid: true };
+}
+
+function formatLengths(lengths: readonly number[]): string {
+  if (lengths.length === 1) {
+    return String(lengths[0]);
+  }
+  const [first, last] = [lengths[0], lengths[lengths.length - 1]];
+  return last - first === lengths.length - 1
+    ? `${first}-${last}`
+    : `${lengths.slice(0, -1).join(", ")} or ${last}`;
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import {
+  getDatasetExportFileName,
+  serializeDataset,
+  toSqlLiteral,
+} from "./dataset-export";
+import type { DatasetRow } from "../../types/types";
+
+const COLUMNS = ["name", "age", "active", "note"];
+
+const ROWS: DatasetRow[] = [
+  { name: "Anna Nowak", age: 31, active: true, note: null },
+  { name: "O'Brien, Jan", age: 45, active: false, note: 'says "hi"' },
+];
+
+function serialize(format: "csv" | "json" | "sql", rows = ROWS): string {
+  return [...serializeDataset(COLUMNS, rows, format, "people")].join("");
+}
+
+describe("dataset-export", () => {
+  describe("toSqlLiteral", () => {
+    it("should quote strings and double single quotes", () => {
+      expect(toSqlLiteral("O'Brien")).toBe("'O''Brien'");
+    });
+
+    it("should write numbers, booleans and null unquoted", () => {
+      expect(toSqlLiteral(12)).toBe("12");
+      expect(toSqlLiteral(true)).toBe("TRUE");
+      expect(toSqlLiteral(false)).toBe("FALSE");
+      expect(toSqlLiteral(null)).toBe("NULL");
+    });
+  });
+
+  describe("serializeDataset", () => {
+    it("should write CSV with a header and escaped fields", () => {
+      expect(serialize("csv")).toBe(
+        "name,age,active,note\r\n" +
+          "Anna Nowak,31,true,\r\n" +
+          '"O\'Brien, Jan",45,false,"says ""hi"""\r\n',
+      );
+    });
+
+    it("should write a JSON array of row objects", () => {
+      expect(JSON.parse(serialize("json"))).toEqual(ROWS);
+    });
+
+    it("should write an empty JSON array without rows", () => {
+      expect(JSON.parse(serialize("json", []))).toEqual([]);
+    });
+
+    it("should write one INSERT statement per row", () => {
+      expect(serialize("sql")).toBe(
+        `INSERT INTO "people" ("name", "age", "active", "note") VALUES ('Anna Nowak', 31, TRUE, NULL);\n` +
+          `INSERT INTO "people" ("name", "age", "active", "note") VALUES ('O''Brien, Jan', 45, FALSE, 'says "hi"');\n`,
+      );
+    });
+
+    it("should write columns in the given order", () => {
+      const csv = [
+        ...serializeDataset(["note", "name"], ROWS.slice(0, 1), "csv"),
+      ].join("");
+      expect(csv).toBe("note,name\r\n,Anna Nowak\r\n");
+    });
+  });
+
+  describe("getDatasetExportFileName", () => {
+    it("should include country, seed and format", () => {
+      expect(getDatasetExportFileName("PL", "customers", "sql")).toBe(
+        "dataset-PL-customers.sql",
+      );
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { escapeCsvField } from "./iban-export";
+import type {
+  DatasetExportFormat,
+  DatasetRow,
+  DatasetValue,
+} from "../../types/types";
+
+/**
+ * Serialization of dataset builder exports, one row at a time like the
+ * bulk IBAN export
+ */
+
+export const DATASET_EXPORT_FORMATS: readonly [
+  DatasetExportFormat,
+  ...DatasetExportFormat[],
+] = ["csv", "json", "sql"];
+
+export const DATASET_EXPORT_CONTENT_TYPES: Record<DatasetExportFormat, string> =
+  {
+    csv: "text/csv; charset=utf-8",
+    json: "application/json",
+    sql: "application/sql; charset=utf-8",
+  };
+
+/** Table and column names: SQL identifiers that need no quoting rules */
+export const DATASET_IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,62}$/;
+
+export const DEFAULT_DATASET_TABLE = "test_data";
+
+/**
+ * Encode a value as a SQL literal (strings quoted, quotes doubled)
+ */
+export function toSqlLiteral(value: DatasetValue): string {
+  if (value === null) {
+    return "NULL";
+  }
+  if (typeof value === "boolean") {
+    return value ? "TRUE" : "FALSE";
+  }
+  if (typeof value === "number") {
+    return String(value);
+  }
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function toCsvValue(value: DatasetValue): string {
+  return escapeCsvField(value === null ? "" : String(value));
+}
+
+/**
+ * Encode rows as text chunks of the given format
+ * - csv: header line, then one CRLF-terminated row per record
+ * - json: a single array, one element per chunk
+ * - sql: one INSERT statement per row
+ */
+export function* serializeDataset(
+  columns: readonly string[],
+  rows: Iterable<DatasetRow>,
+  format: DatasetExportFormat,
+  table: string = DEFAULT_DATASET_TABLE,
+): Generator<string> {
+  if (format === "csv") {
+    yield `${columns.map(escapeCsvField).join(",")}\r\n`;
+    for (const row of rows) {
+      yield `${columns.map((column) => toCsvValue(row[column])).join(",")}\r\n`;
+    }
+    return;
+  }
+
+  if (format === "sql") {
+    const target = `"${table}" (${columns.map((column) => `"${column}"`).join(", ")})`;
+    for (const row of rows) {
+      const values = columns.map((column) => toSqlLiteral(row[column]));
+      yield `INSERT INTO ${target} VALUES (${values.join(", ")});\n`;
+    }
+    return;
+  }
+
+  yield "[";
+  let first = true;
+  for (const row of rows) {
+    yield `${first ? "" : ","}\n${JSON.stringify(row)}`;
+    first = false;
+  }
+  yield first ? "]\n" : "\n]\n";
+}
+
+/**
+ * Download file name, e.g. "dataset-PL-customers.sql"
+ */
+export function getDatasetExportFileName(
+  country: string,
+  seed: string,
+  format: DatasetExportFormat,
+): string {
+  return `dataset-${country}-${seed}.${format}`;
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseIbanCsv,
+  serializeBatchFailures,
+  validateIbanBatch,
+} from "./iban-batch";
+
+describe("iban-batch", () => {
+  describe("parseIbanCsv", () => {
+    it("should read a pasted column line by line", () => {
+      expect(
+        parseIbanCsv("DE89370400440532013000\nAT61 1904 3002 3457 3201\n"),
+      ).toEqual([
+        { row: 1, input: "DE89370400440532013000" },
+        { row: 2, input: "AT61 1904 3002 3457 3201" },
+      ]);
+    });
+
+    it("should skip blank lines and keep line numbers", () => {
+      expect(
+        parseIbanCsv("\r\nDE89370400440532013000\r\n\r\n  x  \r\n"),
+      ).toEqual([
+        { row: 2, input: "DE89370400440532013000" },
+        { row: 4, input: "x" },
+      ]);
+    });
+
+    it("should pick the column with an iban header", () => {
+      const csv = [
+        "name,IBAN,amount",
+        'Jane,DE89370400440532013000,"1,50"',
+        "John,AT611904300234573201,2",
+      ].join("\n");
+
+      expect(parseIbanCsv(csv)).toEqual([
+        { row: 2, input: "DE89370400440532013000" },
+        { row: 3, input: "AT611904300234573201" },
+      ]);
+    });
+
+    it("should detect tab and semicolon separators", () => {
+      expect(parseIbanCsv("id\tiban\n1\tDE89370400440532013000")).toEqual([
+        { row: 2, input: "DE89370400440532013000" },
+      ]);
+      expect(parseIbanCsv("id;iban\n1;DE89370400440532013000")).toEqual([
+        { row: 2, input: "DE89370400440532013000" },
+      ]);
+    });
+
+    it("should unquote fields and count lines inside quotes", () => {
+      const csv = 'note,iban\n"two\nlines",DE89370400440532013000\nx,"A""B"';
+
+      expect(parseIbanCsv(csv)).toEqual([
+        { row: 2, input: "DE89370400440532013000" },
+        { row: 4, input: 'A"B' },
+      ]);
+    });
+
+    it("should use an empty input for short rows", () => {
+      expect(parseIbanCsv("a,iban\nb")).toEqual([{ row: 2, input: "" }]);
+    });
+
+    it("should return nothing for blank text", () => {
+      expect(parseIbanCsv(" \n\n")).toEqual([]);
+    });
+  });
+
+  describe("validateIbanBatch", () => {
+    it("should validate every entry and count the results", () => {
+      const batch = validateIbanBatch([
+        { row: 1, input: "DE89370400440532013000" },
+        { row: 2, input: "DE89370400440532013001" },
+      ]);
+
+      expect(batch.summary).toEqual({ total: 2, valid: 1, invalid: 1 });
+      expect(batch.results[0]).toMatchObject({
+        row: 1,
+        input: "DE89370400440532013000",
+        valid: true,
+      });
+      expect(batch.results[1]).toEqual({
+        row: 2,
+        input: "DE89370400440532013001",
+        valid: false,
+        reason: "Invalid checksum (mod-97 validation failed)",
+        errorSpan: { start: 2, end: 4 },
+      });
+    });
+
+    it("should pass strict mode to the validator", () => {
+      const batch = validateIbanBatch(
+        [{ row: 1, input: "de89370400440532013000" }],
+        { strict: true },
+      );
+
+      expect(batch.results[0].reason).toBe(
+        "Not in electronic format (contains whitespace or lowercase)",
+      );
+    });
+  });
+
+  describe("serializeBatchFailures", () => {
+    it("should export only invalid rows", () => {
+      const { results } = validateIbanBatch([
+        { row: 2, input: "DE89370400440532013000" },
+        { row: 3, input: "DE89370400440532013001" },
+        { row: 4, input: "XX,1" },
+      ]);
+
+      expect(serializeBatchFailures(results)).toBe(
+        "row,iban,reason\r\n" +
+          "3,DE89370400440532013001,Invalid checksum (mod-97 validation failed)\r\n" +
+          '4,"XX,1",IBAN is too short (minimum 15 characters)\r\n',
+      );
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { validateIban } from "./iban-validator";
+import type { IbanValidationOptions } from "./iban-validator";
+import { escapeCsvField } from "./iban-export";
+import type { IbanBatchResponse, IbanBatchResult } from "../../types/types";
+
+/**
+ * Batch IBAN validation: input parsing (JSON array or a CSV column) and
+ * the failing-rows export.
+ */
+
+/** Upper bound for one batch request */
+export const MAX_BATCH_SIZE = 5000;
+
+/** Upper bound for the request body: 5000 rows of a wide CSV export */
+export const MAX_BATCH_BYTES = 1024 * 1024;
+
+export interface IbanBatchEntry {
+  /** 1-based row in the input: CSV line (header included) or array index + 1 */
+  row: number;
+  input: string;
+}
+
+interface CsvRecord {
+  /** 1-based line the record starts on */
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Spreadsheet pastes are tab-separated and European exports often use
+ * semicolons; the first line decides
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  if (firstLine.includes("\t")) {
+    return "\t";
+  }
+  if (firstLine.includes(";") && !firstLine.includes(",")) {
+    return ";";
+  }
+  return ",";
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, CRLF or LF)
+ */
+function parseCsvRecords(text: string, delimiter: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+    fields = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || fields.length > 0) {
+    endRecord();
+  }
+  return records;
+}
+
+/**
+ * IBANs of a CSV body. A header cell named "iban" (any case) selects that
+ * column and is skipped; otherwise the first column is used from the
+ * first line on. Blank lines are ignored.
+ */
+export function parseIbanCsv(text: string): IbanBatchEntry[] {
+  const records = parseCsvRecords(text, detectDelimiter(text)).filter(
+    (record) => record.fields.some((value) => value.trim() !== ""),
+  );
+  if (records.length === 0) {
+    return [];
+  }
+
+  const headerColumn = records[0].fields.findIndex(
+    (value) => value.trim().toLowerCase() === "iban",
+  );
+  const column = Math.max(headerColumn, 0);
+  const rows = headerColumn === -1 ? records : records.slice(1);
+
+  return rows.map((record) => ({
+    row: record.line,
+    input: (record.fields[column] ?? "").trim(),
+  }));
+}
+
+/**
+ * Validate every entry and count the results
+ */
+export function validateIbanBatch(
+  entries: IbanBatchEntry[],
+  options: IbanValidationOptions = {},
+): IbanBatchResponse {
+  const results: IbanBatchResult[] = entries.map((entry) => ({
+    row: entry.row,
+    input: entry.input,
+    ...validateIban(entry.input, options),
+  }));
+  const valid = results.filter((result) => result.valid).length;
+
+  return {
+    summary: { total: results.length, valid, invalid: results.length - valid },
+    results,
+  };
+}
+
+/**
+ * CSV of the invalid results (row, iban, reason) for the failing-rows
+ * export
+ */
+export function serializeBatchFailures(results: IbanBatchResult[]): string {
+  const lines = results
+    .filter((result) => !result.valid)
+    .map((result) =>
+      [String(result.row), result.input, result.reason ?? ""]
+        .map(escapeCsvField)
+        .join(","),
+    );
+  return ["row,iban,reason", ...lines].map((line) => `${line}\r\n`).join("");
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { IBAN_DEFECTS, applyIbanDefect } from "./iban-defects";
+import { IBAN_COUNTRY_CODES } from "./iban-registry";
+import { NATIONAL_CHECK_COUNTRIES } from "./bban-check";
+import { validateIban } from "./iban-validator";
+import { splitmix32 } from "./number";
+import { generate, generateDefective } from "../services/iban.service";
+import type { IbanCountry, IbanDefect } from "../../types/types";
+
+const EXPECTED_REASONS: Record<IbanDefect, RegExp> = {
+  checksum: /^Invalid checksum \(mod-97 validation failed\)$/,
+  length: /^Invalid length for [A-Z]{2} \(expected \d+, got \d+\)$/,
+  country: /^Unsupported country code [A-Z]{2} \(not in the IBAN registry\)$/,
+  format: /^Not in electronic format/,
+  national: /^Invalid (Polish|German|Belgian) .*check digits?/,
+  characters: /^BBAN contains invalid characters/,
+};
+
+const SEEDS = ["alpha", "beta", "gamma", "delta", "epsilon"];
+
+function applicable(country: IbanCountry, defect: IbanDefect): boolean {
+  return defect !== "national" || NATIONAL_CHECK_COUNTRIES.includes(country);
+}
+
+describe("IBAN defects", () => {
+  describe.each(IBAN_DEFECTS)("%s", (defect) => {
+    it.each(IBAN_COUNTRY_CODES.filter((code) => applicable(code, defect)))(
+      "should fail strict validation with the defect's reason for %s",
+      (country) => {
+        for (const seed of SEEDS) {
+          const iban = generateDefective(country, defect, seed);
+          expect(iban).not.toBeNull();
+
+          const result = validateIban(iban as string, { strict: true });
+          expect(result.valid).toBe(false);
+          expect(result.reason).toMatch(EXPECTED_REASONS[defect]);
+        }
+      },
+    );
+  });
+
+  it("should be deterministic for the same seed", () => {
+    for (const defect of IBAN_DEFECTS) {
+      expect(generateDefective("PL", defect, "seed-1")).toBe(
+        generateDefective("PL", defect, "seed-1"),
+      );
+    }
+  });
+
+  it("should start from the valid IBAN for the seed", () => {
+    const valid = generate("DE", "seed-1");
+    const broken = generateDefective("DE", "checksum", "seed-1");
+    expect(broken?.slice(4)).toBe(valid.slice(4));
+    expect(broken?.slice(2, 4)).not.toBe(valid.slice(2, 4));
+  });
+
+  it("should not apply national defects to countries without a check", () => {
+    expect(generateDefective("FR", "national", "seed-1")).toBeNull();
+  });
+
+  it("should keep the length reason for the shortest IBANs", () => {
+    // NO has 15 characters, the minimum; dropping one would be "too short"
+    for (let seed = 0; seed < 10; seed++) {
+      const iban = applyIbanDefect(
+        "NO9386011117947",
+        "length",
+        splitmix32(seed),
+      ) as string;
+      expect(iban).toHaveLength(16);
+    }
+  });
+
+  it("should produce print format or lowercase for format defects", () => {
+    const variants = new Set(
+      SEEDS.map((seed) =>
+        applyIbanDefect(
+          "DE89370400440532013000",
+          "format",
+          splitmix32(seed.length * 7919),
+        ),
+      ),
+    );
+    for (const iban of variants) {
+      expect(iban?.replace(/\s/g, "").toUpperCase()).toBe(
+        "DE89370400440532013000",
+      );
+    }
+  });
+});
@@ -0,0 +1,93 @@
+import type { IbanCountry, IbanDefect } from "../../types/types";
+import { calculateIbanCheckDigits } from "./iban";
+import { IBAN_COUNTRIES } from "./iban-registry";
+import { breakNationalCheck } from "./bban-check";
+import { pickOne } from "./number";
+
+/**
+ * Deliberately broken IBANs for negative testing.
+ *
+ * Each defect starts from a valid IBAN and breaks exactly one rule, so the
+ * result fails `validateIban(iban, { strict: true })` with the reason of
+ * that rule:
+ * - checksum: IBAN check digits changed (mod-97 fails)
+ * - length: one character dropped or added
+ * - country: country code outside the registry (check digits recomputed)
+ * - format: print format with spaces and/or lowercase letters
+ * - national: national check digit inside the BBAN changed (BE, DE, PL)
+ * - characters: one BBAN character replaced by punctuation
+ */
+
+export const IBAN_DEFECTS: readonly [IbanDefect, ...IbanDefect[]] = [
+  "checksum",
+  "length",
+  "country",
+  "format",
+  "national",
+  "characters",
+];
+
+/** ISO 3166 user-assigned codes; never allocated to a country */
+const UNKNOWN_COUNTRY_CODES = ["AA", "QM", "QZ", "XA", "XQ", "XZ", "ZZ"];
+
+const DISALLOWED_CHARACTERS = ["-", "/", "_", ".", "+", "*", "#"];
+
+const MIN_IBAN_LENGTH = 15;
+
+function withCheckDigits(country: string, bban: string): string {
+  return `${country}${calculateIbanCheckDigits(country, bban)}${bban}`;
+}
+
+/**
+ * Break a valid, normalized IBAN of a registry country
+ *
+ * @param iban - Valid IBAN in electronic format
+ * @param defect - Rule to break
+ * @param rng - PRNG; the same sequence gives the same defective IBAN
+ * @returns Defective IBAN, or null when the defect does not apply to the
+ * country (national check digits)
+ */
+export function applyIbanDefect(
+  iban: string,
+  defect: IbanDefect,
+  rng: () => number,
+): string | null {
+  const country = iban.slice(0, 2) as IbanCountry;
+  const bban = iban.slice(4);
+
+  switch (defect) {
+    case "checksum": {
+      // Check digits run 02-98; any other value in range fails mod-97
+      const current = Number(iban.slice(2, 4));
+      const offset = 1 + (rng() % 96);
+      const wrong = 2 + ((current - 2 + offset) % 97);
+      return `${country}${String(wrong).padStart(2, "0")}${bban}`;
+    }
+    case "length": {
+      const drop =
+        IBAN_COUNTRIES[country].length > MIN_IBAN_LENGTH && rng() % 2 === 0;
+      const changed = drop ? bban.slice(0, -1) : `${bban}${rng() % 10}`;
+      return withCheckDigits(country, changed);
+    }
+    case "country":
+      return withCheckDigits(pickOne(rng, UNKNOWN_COUNTRY_CODES), bban);
+    case "format": {
+      const grouped = iban.replace(/(.{4})(?=.)/g, "$1 ");
+      // 0: spaces only, 1: lowercase only, 2: both
+      const variant = rng() % 3;
+      if (variant === 0) {
+        return grouped;
+      }
+      return (variant === 1 ? iban : grouped).toLowerCase();
+    }
+    case "national": {
+      const broken = breakNationalCheck(country, bban, rng);
+      return broken ? withCheckDigits(country, broken) : null;
+    }
+    case "characters": {
+      const index = rng() % bban.length;
+      const character = pickOne(rng, DISALLOWED_CHARACTERS);
+      return `${iban.slice(0, 4)}${bban.slice(0, index)}${character}${bban.slice(index + 1)}`;
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import {
+  IBAN_CSV_COLUMNS,
+  escapeCsvField,
+  getIbanExportFileName,
+  serializeIbanRecords,
+} from "./iban-export";
+import { validateIban } from "./iban-validator";
+import {
+  deriveBulkSeed,
+  generate,
+  generateBulk,
+} from "../services/iban.service";
+import type { IbanBulkRecord } from "../../types/types";
+
+const RECORDS: IbanBulkRecord[] = [
+  {
+    index: 0,
+    iban: "DE89370400440532013000",
+    country: "DE",
+    seed: "batch-0",
+    bic: "COBADEFFXXX",
+    bankName: "Commerzbank",
+  },
+  { index: 1, iban: "DE02120300000000202051", country: "DE", seed: "batch-1" },
+];
+
+function serialize(
+  records: IbanBulkRecord[],
+  format: "csv" | "json" | "ndjson",
+): string {
+  return [...serializeIbanRecords(records, format)].join("");
+}
+
+describe("IBAN export", () => {
+  describe("escapeCsvField", () => {
+    it("should leave plain values unquoted", () => {
+      expect(escapeCsvField("DE89370400440532013000")).toBe(
+        "DE89370400440532013000",
+      );
+    });
+
+    it("should quote values with separators, quotes or line breaks", () => {
+      expect(escapeCsvField("Bank, Inc.")).toBe('"Bank, Inc."');
+      expect(escapeCsvField('say "hi"')).toBe('"say ""hi"""');
+      expect(escapeCsvField("a\nb")).toBe('"a\nb"');
+    });
+  });
+
+  describe("serializeIbanRecords", () => {
+    it("should write a CSV header and one row per record", () => {
+      const lines = serialize(RECORDS, "csv").split("\r\n");
+
+      expect(lines[0]).toBe(IBAN_CSV_COLUMNS.join(","));
+      expect(lines[1]).toBe(
+        "0,DE89370400440532013000,DE,batch-0,COBADEFFXXX,Commerzbank,,",
+      );
+      expect(lines[2]).toBe("1,DE02120300000000202051,DE,batch-1,,,,");
+      expect(lines[3]).toBe("");
+    });
+
+    it("should write a parseable JSON array", () => {
+      expect(JSON.parse(serialize(RECORDS, "json"))).toEqual(RECORDS);
+      expect(JSON.parse(serialize([], "json"))).toEqual([]);
+    });
+
+    it("should write one JSON object per NDJSON line", () => {
+      const lines = serialize(RECORDS, "ndjson").trimEnd().split("\n");
+      expect(lines.map((line) => JSON.parse(line))).toEqual(RECORDS);
+    });
+
+    it("should consume records lazily", () => {
+      let produced = 0;
+      function* records() {
+        for (const record of RECORDS) {
+          produced++;
+          yield record;
+        }
+      }
+
+      const chunks = serializeIbanRecords(records(), "ndjson");
+      chunks.next();
+      expect(produced).toBe(1);
+    });
+  });
+
+  it("should build the download file name", () => {
+    expect(getIbanExportFileName("PL", "seed-1", "ndjson")).toBe(
+      "ibans-PL-seed-1.ndjson",
+    );
+  });
+
+  describe("generateBulk", () => {
+    it("should derive each seed from the base seed and index", () => {
+      const records = [...generateBulk({ country: "AT", count: 3, seed: "b" })];
+
+      expect(records.map((record) => record.seed)).toEqual([
+        "b-0",
+        "b-1",
+        "b-2",
+      ]);
+      for (const record of records) {
+        expect(record.seed).toBe(deriveBulkSeed("b", record.index));
+        expect(record.iban).toBe(generate("AT", record.seed));
+        expect(validateIban(record.iban).valid).toBe(true);
+      }
+    });
+
+    it("should be deterministic for a base seed", () => {
+      const first = [...generateBulk({ country: "FR", count: 5, seed: "x" })];
+      const second = [...generateBulk({ country: "FR", count: 5, seed: "x" })];
+      expect(second).toEqual(first);
+      expect(new Set(first.map((record) => record.iban)).size).toBe(5);
+    });
+
+    it("should include bank data and expected reasons", () => {
+      const records = [
+        ...generateBulk({
+          country: "PL",
+          count: 4,
+          seed: "neg",
+          bank: "any",
+          defect: "national",
+        }),
+      ];
+
+      for (const record of records) {
+        expect(record.bic).toBeDefined();
+        expect(record.defect).toBe("national");
+        expect(record.expectedReason).toBe(
+          "Invalid Polish sort code check digit",
+        );
+      }
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import type { IbanBulkRecord, IbanExportFormat } from "../../types/types";
+
+/**
+ * Serialization of bulk IBAN exports. Records are encoded one at a time so
+ * the API can stream thousands of rows without building the file in memory.
+ */
+
+export const IBAN_EXPORT_FORMATS: readonly [
+  IbanExportFormat,
+  ...IbanExportFormat[],
+] = ["csv", "json", "ndjson"];
+
+export const IBAN_EXPORT_CONTENT_TYPES: Record<IbanExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json",
+  ndjson: "application/x-ndjson",
+};
+
+/** CSV columns; optional record fields are left empty when absent */
+export const IBAN_CSV_COLUMNS = [
+  "index",
+  "iban",
+  "country",
+  "seed",
+  "bic",
+  "bank_name",
+  "defect",
+  "expected_reason",
+] as const;
+
+/**
+ * Quote a CSV field when it contains a separator, quote or line break
+ * (RFC 4180)
+ */
+export function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toCsvRow(record: IbanBulkRecord): string {
+  return [
+    String(record.index),
+    record.iban,
+    record.country,
+    record.seed,
+    record.bic ?? "",
+    record.bankName ?? "",
+    record.defect ?? "",
+    record.expectedReason ?? "",
+  ]
+    .map(escapeCsvField)
+    .join(",");
+}
+
+/**
+ * Encode records as text chunks of the given format
+ * - csv: header line, then one CRLF-terminated row per record
+ * - json: a single array, one element per chunk
+ * - ndjson: one JSON object per line
+ */
+export function* serializeIbanRecords(
+  records: Iterable<IbanBulkRecord>,
+  format: IbanExportFormat,
+): Generator<string> {
+  if (format === "csv") {
+    yield `${IBAN_CSV_COLUMNS.join(",")}\r\n`;
+    for (const record of records) {
+      yield `${toCsvRow(record)}\r\n`;
+    }
+    return;
+  }
+
+  if (format === "ndjson") {
+    for (const record of records) {
+      yield `${JSON.stringify(record)}\n`;
+    }
+    return;
+  }
+
+  yield "[";
+  let first = true;
+  for (const record of records) {
+    yield `${first ? "" : ","}\n${JSON.stringify(record)}`;
+    first = false;
+  }
+  yield first ? "]\n" : "\n]\n";
+}
+
+/**
+ * Download file name, e.g. "ibans-DE-batch-1.csv"
+ */
+export function getIbanExportFileName(
+  country: string,
+  seed: string,
+  format: IbanExportFormat,
+): string {
+  return `ibans-${country}-${seed}.${format}`;
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeIban,
+  getIbanParts,
+  toElectronicIban,
+  toPrintIban,
+} from "./iban-format";
+
+describe("IBAN formats", () => {
+  describe("toElectronicIban", () => {
+    it("should remove whitespace and upper-case", () => {
+      expect(toElectronicIban(" de89 3704\t0044 0532 0130 00 ")).toBe(
+        "DE89370400440532013000",
+      );
+    });
+  });
+
+  describe("toPrintIban", () => {
+    it("should group by 4 without a trailing space", () => {
+      expect(toPrintIban("DE89370400440532013000")).toBe(
+        "DE89 3704 0044 0532 0130 00",
+      );
+      expect(toPrintIban("be68539007547034")).toBe("BE68 5390 0754 7034");
+    });
+  });
+
+  describe("getIbanParts", () => {
+    it("should split a German IBAN into bank code and account number", () => {
+      expect(getIbanParts("DE89 3704 0044 0532 0130 00")).toEqual([
+        { kind: "country", value: "DE", start: 0, end: 2 },
+        { kind: "checkDigits", value: "89", start: 2, end: 4 },
+        { kind: "bank", value: "37040044", start: 4, end: 12 },
+        { kind: "account", value: "0532013000", start: 12, end: 22 },
+      ]);
+    });
+
+    it("should report branch and national check segments", () => {
+      expect(
+        getIbanParts("FR1420041010050500013M02606").map((part) => part.kind),
+      ).toEqual([
+        "country",
+        "checkDigits",
+        "bank",
+        "branch",
+        "account",
+        "check",
+      ]);
+    });
+
+    it("should cover the IBAN without gaps", () => {
+      const parts = getIbanParts("PL61109010140000071219812874");
+      expect(parts.map((part) => part.value).join("")).toBe(
+        "PL61109010140000071219812874",
+      );
+      parts.slice(1).forEach((part, i) => {
+        expect(part.start).toBe(parts[i].end);
+      });
+    });
+
+    it("should keep the BBAN whole when the length does not match", () => {
+      expect(getIbanParts("DE893704004405320130")).toEqual([
+        { kind: "country", value: "DE", start: 0, end: 2 },
+        { kind: "checkDigits", value: "89", start: 2, end: 4 },
+        { kind: "bban", value: "3704004405320130", start: 4, end: 20 },
+      ]);
+    });
+
+    it("should keep the BBAN whole for unknown countries", () => {
+      expect(getIbanParts("XX12345678901234").at(-1)).toEqual({
+        kind: "bban",
+        value: "345678901234",
+        start: 4,
+        end: 16,
+      });
+    });
+
+    it("should report only the parts that short input covers", () => {
+      expect(getIbanParts("DE8")).toEqual([
+        { kind: "country", value: "DE", start: 0, end: 2 },
+        { kind: "checkDigits", value: "8", start: 2, end: 3 },
+      ]);
+      expect(getIbanParts("")).toEqual([]);
+    });
+  });
+
+  describe("describeIban", () => {
+    it("should combine both formats and the parts", () => {
+      const breakdown = describeIban("at61 1904 3002 3457 3201");
+
+      expect(breakdown.electronic).toBe("AT611904300234573201");
+      expect(breakdown.print).toBe("AT61 1904 3002 3457 3201");
+      expect(breakdown.parts.map((part) => part.kind)).toEqual([
+        "country",
+        "checkDigits",
+        "bank",
+        "account",
+      ]);
+    });
+  });
+});
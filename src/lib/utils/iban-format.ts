@@ -0,0 +1,73 @@
+import { IBAN_COUNTRIES, isIbanCountry } from "./iban-registry";
+import type { IbanBreakdown, IbanPart } from "../../types/types";
+
+/**
+ * IBAN presentation formats (ECBS EBS204) and the split into the parts
+ * defined by the IBAN registry.
+ */
+
+/**
+ * Electronic format: upper case without whitespace
+ */
+export function toElectronicIban(iban: string): string {
+  return iban.replace(/\s/g, "").toUpperCase();
+}
+
+/**
+ * Print format: electronic format in groups of 4 separated by spaces
+ */
+export function toPrintIban(iban: string): string {
+  return toElectronicIban(iban).replace(/(.{4})(?=.)/g, "$1 ");
+}
+
+/**
+ * Split an IBAN into country code, check digits and BBAN segments.
+ *
+ * BBAN segments are only reported for registry countries when the length
+ * matches; otherwise the rest of the IBAN is a single "bban" part. Input
+ * shorter than the prefix yields only the parts it covers.
+ */
+export function getIbanParts(iban: string): IbanPart[] {
+  const electronic = toElectronicIban(iban);
+  const parts: IbanPart[] = [];
+
+  const push = (kind: IbanPart["kind"], start: number, end: number) => {
+    if (start < electronic.length) {
+      const clamped = Math.min(end, electronic.length);
+      parts.push({
+        kind,
+        value: electronic.slice(start, clamped),
+        start,
+        end: clamped,
+      });
+    }
+  };
+
+  push("country", 0, 2);
+  push("checkDigits", 2, 4);
+
+  const country = electronic.slice(0, 2);
+  const spec = isIbanCountry(country) ? IBAN_COUNTRIES[country] : null;
+  if (!spec || electronic.length !== spec.length) {
+    push("bban", 4, electronic.length);
+    return parts;
+  }
+
+  let offset = 4;
+  for (const segment of spec.bban) {
+    push(segment.kind, offset, offset + segment.length);
+    offset += segment.length;
+  }
+  return parts;
+}
+
+/**
+ * Electronic and print format plus parts of an IBAN, valid or not
+ */
+export function describeIban(iban: string): IbanBreakdown {
+  return {
+    electronic: toElectronicIban(iban),
+    print: toPrintIban(iban),
+    parts: getIbanParts(iban),
+  };
+}
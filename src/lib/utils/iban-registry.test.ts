@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import {
+  IBAN_COUNTRIES,
+  IBAN_COUNTRY_CODES,
+  findBbanMismatch,
+  formatBbanStructure,
+  getBbanPattern,
+  isIbanCountry,
+} from "./iban-registry";
+import { validateIban } from "./iban-validator";
+import { generate } from "../services/iban.service";
+
+describe("IBAN registry", () => {
+  it("should cover all SEPA countries in alphabetical order", () => {
+    expect(IBAN_COUNTRY_CODES).toHaveLength(41);
+    expect([...IBAN_COUNTRY_CODES]).toEqual([...IBAN_COUNTRY_CODES].sort());
+  });
+
+  it.each(IBAN_COUNTRY_CODES)(
+    "should have a BBAN structure matching the IBAN length for %s",
+    (code) => {
+      const spec = IBAN_COUNTRIES[code];
+      const bbanLength = spec.bban.reduce(
+        (sum, segment) => sum + segment.length,
+        0,
+      );
+      expect(spec.length).toBe(4 + bbanLength);
+    },
+  );
+
+  it("should recognize supported country codes", () => {
+    expect(isIbanCountry("GB")).toBe(true);
+    expect(isIbanCountry("US")).toBe(false);
+    expect(isIbanCountry("toString")).toBe(false);
+  });
+
+  it("should format the BBAN structure in SWIFT notation", () => {
+    expect(formatBbanStructure(IBAN_COUNTRIES.DE)).toBe("8!n10!n");
+    expect(formatBbanStructure(IBAN_COUNTRIES.GB)).toBe("4!a6!n8!n");
+    expect(formatBbanStructure(IBAN_COUNTRIES.FR)).toBe("5!n5!n11!c2!n");
+  });
+
+  it("should build a BBAN pattern per charset", () => {
+    const pattern = getBbanPattern(IBAN_COUNTRIES.NL);
+    expect(pattern.test("ABNA0417164300")).toBe(true);
+    expect(pattern.test("12340417164300")).toBe(false);
+    expect(pattern.test("ABNA041716430")).toBe(false);
+  });
+
+  it("should find the first character breaking the BBAN structure", () => {
+    expect(findBbanMismatch(IBAN_COUNTRIES.NL, "ABNA0417164300")).toBe(-1);
+    expect(findBbanMismatch(IBAN_COUNTRIES.NL, "AB1A0417164300")).toBe(2);
+    expect(findBbanMismatch(IBAN_COUNTRIES.NL, "ABNA04171643X0")).toBe(12);
+  });
+
+  it.each(IBAN_COUNTRY_CODES)(
+    "should generate IBANs for %s that pass validation",
+    (code) => {
+      for (const seed of ["alpha", "beta", "gamma"]) {
+        const iban = generate(code, seed);
+        expect(iban).toHaveLength(IBAN_COUNTRIES[code].length);
+        expect(validateIban(iban)).toEqual({ valid: true });
+      }
+    },
+  );
+});
@@ -0,0 +1,304 @@
+import type { IbanCountry } from "../../types/types";
+
+/**
+ * IBAN country registry for the SEPA area.
+ *
+ * Single source of truth for the generator, the validator, the API query
+ * schema and the country picker. BBAN structures follow the SWIFT IBAN
+ * registry notation: n = digits, a = upper-case letters, c = letters or
+ * digits. National check characters are listed as separate "check"
+ * segments where the country defines them at a fixed position.
+ */
+
+export type BbanCharset = "n" | "a" | "c";
+
+/**
+ * - bank / branch: institution identifiers (BLZ, sort code, ABI/CAB, ...)
+ * - account: account number (some countries split it, e.g. CZ prefix)
+ * - check: national check characters (RIB key, CIN, DC, ...)
+ * - type: account type code (BG, IS)
+ * - owner: account holder identifier (IS kennitala)
+ */
+export type BbanSegmentKind =
+  | "bank"
+  | "branch"
+  | "account"
+  | "check"
+  | "type"
+  | "owner";
+
+export interface BbanSegment {
+  kind: BbanSegmentKind;
+  length: number;
+  charset: BbanCharset;
+}
+
+export interface IbanCountrySpec {
+  /** English country name */
+  name: string;
+  /** Full IBAN length (country code + check digits + BBAN) */
+  length: number;
+  bban: BbanSegment[];
+}
+
+/**
+ * Parse compact segment notation: "bank:4n", "account:12c"
+ */
+function segments(...specs: string[]): BbanSegment[] {
+  return specs.map((spec) => {
+    const match = /^(\w+):(\d+)([nac])$/.exec(spec);
+    if (!match) {
+      throw new Error(`Invalid BBAN segment: ${spec}`);
+    }
+    return {
+      kind: match[1] as BbanSegmentKind,
+      length: Number(match[2]),
+      charset: match[3] as BbanCharset,
+    };
+  });
+}
+
+export const IBAN_COUNTRIES: Record<IbanCountry, IbanCountrySpec> = {
+  AD: {
+    name: "Andorra",
+    length: 24,
+    bban: segments("bank:4n", "branch:4n", "account:12c"),
+  },
+  AL: {
+    name: "Albania",
+    length: 28,
+    bban: segments("bank:3n", "branch:4n", "check:1n", "account:16c"),
+  },
+  AT: { name: "Austria", length: 20, bban: segments("bank:5n", "account:11n") },
+  BE: {
+    name: "Belgium",
+    length: 16,
+    bban: segments("bank:3n", "account:7n", "check:2n"),
+  },
+  BG: {
+    name: "Bulgaria",
+    length: 22,
+    bban: segments("bank:4a", "branch:4n", "type:2n", "account:8c"),
+  },
+  CH: {
+    name: "Switzerland",
+    length: 21,
+    bban: segments("bank:5n", "account:12c"),
+  },
+  CY: {
+    name: "Cyprus",
+    length: 28,
+    bban: segments("bank:3n", "branch:5n", "account:16c"),
+  },
+  CZ: {
+    name: "Czechia",
+    length: 24,
+    bban: segments("bank:4n", "account:6n", "account:10n"),
+  },
+  DE: { name: "Germany", length: 22, bban: segments("bank:8n", "account:10n") },
+  DK: {
+    name: "Denmark",
+    length: 18,
+    bban: segments("bank:4n", "account:9n", "check:1n"),
+  },
+  EE: {
+    name: "Estonia",
+    length: 20,
+    bban: segments("bank:2n", "branch:2n", "account:11n", "check:1n"),
+  },
+  ES: {
+    name: "Spain",
+    length: 24,
+    bban: segments("bank:4n", "branch:4n", "check:2n", "account:10n"),
+  },
+  FI: {
+    name: "Finland",
+    length: 18,
+    bban: segments("bank:3n", "account:10n", "check:1n"),
+  },
+  FR: {
+    name: "France",
+    length: 27,
+    bban: segments("bank:5n", "branch:5n", "account:11c", "check:2n"),
+  },
+  GB: {
+    name: "United Kingdom",
+    length: 22,
+    bban: segments("bank:4a", "branch:6n", "account:8n"),
+  },
+  GI: {
+    name: "Gibraltar",
+    length: 23,
+    bban: segments("bank:4a", "account:15c"),
+  },
+  GR: {
+    name: "Greece",
+    length: 27,
+    bban: segments("bank:3n", "branch:4n", "account:16c"),
+  },
+  HR: { name: "Croatia", length: 21, bban: segments("bank:7n", "account:10n") },
+  HU: {
+    name: "Hungary",
+    length: 28,
+    bban: segments(
+      "bank:3n",
+      "branch:4n",
+      "check:1n",
+      "account:15n",
+      "check:1n",
+    ),
+  },
+  IE: {
+    name: "Ireland",
+    length: 22,
+    bban: segments("bank:4a", "branch:6n", "account:8n"),
+  },
+  IS: {
+    name: "Iceland",
+    length: 26,
+    bban: segments("bank:4n", "type:2n", "account:6n", "owner:10n"),
+  },
+  IT: {
+    name: "Italy",
+    length: 27,
+    bban: segments("check:1a", "bank:5n", "branch:5n", "account:12c"),
+  },
+  LI: {
+    name: "Liechtenstein",
+    length: 21,
+    bban: segments("bank:5n", "account:12c"),
+  },
+  LT: {
+    name: "Lithuania",
+    length: 20,
+    bban: segments("bank:5n", "account:11n"),
+  },
+  LU: {
+    name: "Luxembourg",
+    length: 20,
+    bban: segments("bank:3n", "account:13c"),
+  },
+  LV: { name: "Latvia", length: 21, bban: segments("bank:4a", "account:13c") },
+  MC: {
+    name: "Monaco",
+    length: 27,
+    bban: segments("bank:5n", "branch:5n", "account:11c", "check:2n"),
+  },
+  MD: { name: "Moldova", length: 24, bban: segments("bank:2c", "account:18c") },
+  ME: {
+    name: "Montenegro",
+    length: 22,
+    bban: segments("bank:3n", "account:13n", "check:2n"),
+  },
+  MK: {
+    name: "North Macedonia",
+    length: 19,
+    bban: segments("bank:3n", "account:10c", "check:2n"),
+  },
+  MT: {
+    name: "Malta",
+    length: 31,
+    bban: segments("bank:4a", "branch:5n", "account:18c"),
+  },
+  NL: {
+    name: "Netherlands",
+    length: 18,
+    bban: segments("bank:4a", "account:10n"),
+  },
+  NO: {
+    name: "Norway",
+    length: 15,
+    bban: segments("bank:4n", "account:6n", "check:1n"),
+  },
+  PL: {
+    name: "Poland",
+    length: 28,
+    bban: segments("bank:3n", "branch:4n", "check:1n", "account:16n"),
+  },
+  PT: {
+    name: "Portugal",
+    length: 25,
+    bban: segments("bank:4n", "branch:4n", "account:11n", "check:2n"),
+  },
+  RO: { name: "Romania", length: 24, bban: segments("bank:4a", "account:16c") },
+  SE: {
+    name: "Sweden",
+    length: 24,
+    bban: segments("bank:3n", "account:16n", "check:1n"),
+  },
+  SI: {
+    name: "Slovenia",
+    length: 19,
+    bban: segments("bank:2n", "branch:3n", "account:8n", "check:2n"),
+  },
+  SK: {
+    name: "Slovakia",
+    length: 24,
+    bban: segments("bank:4n", "account:6n", "account:10n"),
+  },
+  SM: {
+    name: "San Marino",
+    length: 27,
+    bban: segments("check:1a", "bank:5n", "branch:5n", "account:12c"),
+  },
+  VA: {
+    name: "Vatican City",
+    length: 22,
+    bban: segments("bank:3n", "account:15n"),
+  },
+};
+
+/** Supported country codes, alphabetical (non-empty tuple for z.enum) */
+export const IBAN_COUNTRY_CODES = Object.keys(IBAN_COUNTRIES).sort() as [
+  IbanCountry,
+  ...IbanCountry[],
+];
+
+export function isIbanCountry(code: string): code is IbanCountry {
+  return Object.hasOwn(IBAN_COUNTRIES, code);
+}
+
+const CHARSET_PATTERNS: Record<BbanCharset, string> = {
+  n: "[0-9]",
+  a: "[A-Z]",
+  c: "[A-Z0-9]",
+};
+
+/**
+ * Regular expression matching a country's BBAN (upper-case, no spaces)
+ */
+export function getBbanPattern(spec: IbanCountrySpec): RegExp {
+  const body = spec.bban
+    .map((segment) => `${CHARSET_PATTERNS[segment.charset]}{${segment.length}}`)
+    .join("");
+  return new RegExp(`^${body}$`);
+}
+
+/**
+ * BBAN structure in SWIFT notation, e.g. "8!n10!n" for Germany
+ */
+export function formatBbanStructure(spec: IbanCountrySpec): string {
+  return spec.bban
+    .map((segment) => `${segment.length}!${segment.charset}`)
+    .join("");
+}
+
+/**
+ * Index of the first BBAN character that breaks the country's structure
+ *
+ * @returns -1 when every character matches the charset of its segment
+ * (the BBAN length is not checked)
+ */
+export function findBbanMismatch(spec: IbanCountrySpec, bban: string): number {
+  let offset = 0;
+  for (const segment of spec.bban) {
+    const pattern = new RegExp(CHARSET_PATTERNS[segment.charset]);
+    for (let i = offset; i < offset + segment.length && i < bban.length; i++) {
+      if (!pattern.test(bban[i])) {
+        return i;
+      }
+    }
+    offset += segment.length;
+  }
+  return -1;
+}
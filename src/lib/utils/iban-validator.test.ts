@@ -22,6 +22,28 @@ describe("IBAN Validator", () => {
         expect(result.reason).toBeUndefined();
       });
 
+      it("should validate a valid British IBAN with letters in the BBAN", () => {
+        const result = validateIban("GB29 NWBK 6016 1331 9268 19");
+        expect(result.valid).toBe(true);
+        expect(result.reason).toBeUndefined();
+      });
+
+      it("should validate a valid Dutch IBAN", () => {
+        const result = validateIban("NL91ABNA0417164300");
+        expect(result.valid).toBe(true);
+        expect(result.reason).toBeUndefined();
+      });
+
+      it.each([
+        "AL47212110090000000235698741",
+        "GI75NWBK000000007099453",
+        "MD24AG000225100013104168",
+        "ME25505000012345678951",
+        "MK07250120000058984",
+      ])("should validate the registry example %s", (iban) => {
+        expect(validateIban(iban, { strict: true }).valid).toBe(true);
+      });
+
       it("should validate IBAN with spaces (normalized)", () => {
         const result = validateIban("DE89 3704 0044 0532 0130 00");
         expect(result.valid).toBe(true);
@@ -41,6 +63,64 @@ describe("IBAN Validator", () => {
       });
     });
 
+    describe("strict mode", () => {
+      it("should accept IBANs in electronic format", () => {
+        expect(
+          validateIban("AT611904300234573201", { strict: true }).valid,
+        ).toBe(true);
+      });
+
+      it("should reject spaces and lowercase letters", () => {
+        for (const iban of [
+          "DE89 3704 0044 0532 0130 00",
+          "de89370400440532013000",
+        ]) {
+          expect(validateIban(iban, { strict: true })).toEqual({
+            valid: false,
+            reason:
+              "Not in electronic format (contains whitespace or lowercase)",
+          });
+        }
+      });
+
+      it("should reject countries outside the IBAN registry", () => {
+        expect(validateIban("XX12345678901234", { strict: true })).toEqual({
+          valid: false,
+          reason: "Unsupported country code XX (not in the IBAN registry)",
+          errorSpan: { start: 0, end: 2 },
+        });
+      });
+    });
+
+    describe("bank directory lookup", () => {
+      it("should report the bank of a known bank code", () => {
+        const result = validateIban("DE89370400440532013000");
+        expect(result).toEqual({
+          valid: true,
+          bank: {
+            bankCode: "37040044",
+            bic: "COBADEFFXXX",
+            name: "Commerzbank",
+          },
+        });
+      });
+
+      it("should resolve Polish banks by the 3-digit bank number", () => {
+        const result = validateIban("PL61109010140000071219812874");
+        expect(result.bank?.name).toBe("Santander Bank Polska");
+      });
+
+      it("should omit the bank for unknown bank codes", () => {
+        expect(validateIban("AT611904300234573201")).toEqual({ valid: true });
+      });
+
+      it("should not report a bank for invalid IBANs", () => {
+        const result = validateIban("DE88370400440532013000");
+        expect(result.valid).toBe(false);
+        expect(result.bank).toBeUndefined();
+      });
+    });
+
     describe("invalid IBANs - length validation", () => {
       it("should reject IBAN that is too short", () => {
         const result = validateIban("DE89370400440532");
@@ -184,19 +264,27 @@ describe("IBAN Validator", () => {
         );
       });
 
-      it("should accept IBAN with lowercase letters in BBAN (normalized to uppercase)", () => {
+      it("should reject letters in a numeric BBAN (normalized to uppercase)", () => {
         const result = validateIban("DE89 3704 0044 0532 013a 00");
         expect(result.valid).toBe(false);
         expect(result.reason).toBe(
-          "Invalid checksum (mod-97 validation failed)",
+          "Invalid BBAN format for DE (expected 8!n10!n)",
         );
       });
 
-      it("should accept IBAN with uppercase letters in BBAN", () => {
+      it("should reject letters where the country expects digits", () => {
         const result = validateIban("DE89370400440532013A00");
-        expect(result.valid).toBe(false); // Should fail checksum, not BBAN validation
+        expect(result.valid).toBe(false);
         expect(result.reason).toBe(
-          "Invalid checksum (mod-97 validation failed)",
+          "Invalid BBAN format for DE (expected 8!n10!n)",
+        );
+      });
+
+      it("should reject digits where the country expects a bank code in letters", () => {
+        const result = validateIban("GB29 1234 6016 1331 9268 19");
+        expect(result.valid).toBe(false);
+        expect(result.reason).toBe(
+          "Invalid BBAN format for GB (expected 4!a6!n8!n)",
         );
       });
     });
@@ -227,6 +315,105 @@ describe("IBAN Validator", () => {
       });
     });
 
+    describe("invalid IBANs - national check digits", () => {
+      it("should reject a Polish IBAN with a wrong sort code check digit", () => {
+        const result = validateIban("PL36109010150000071219812874");
+        expect(result.valid).toBe(false);
+        expect(result.reason).toBe("Invalid Polish sort code check digit");
+      });
+
+      it("should reject a German IBAN failing the bank's account check method", () => {
+        const result = validateIban("DE39370400440532013900");
+        expect(result.valid).toBe(false);
+        expect(result.reason).toBe(
+          "Invalid German account check digit (Bundesbank method 13)",
+        );
+      });
+
+      it("should reject a Belgian IBAN with wrong national check digits", () => {
+        const result = validateIban("BE41539007547035");
+        expect(result.valid).toBe(false);
+        expect(result.reason).toBe("Invalid Belgian account check digits");
+      });
+
+      it("should report the mod-97 failure before national checks", () => {
+        const result = validateIban("PL37109010150000071219812874");
+        expect(result.valid).toBe(false);
+        expect(result.reason).toBe(
+          "Invalid checksum (mod-97 validation failed)",
+        );
+      });
+    });
+
+    describe("error position", () => {
+      it("should point to the country code and check digits", () => {
+        expect(validateIban("1289370400440532013000").errorSpan).toEqual({
+          start: 0,
+          end: 2,
+        });
+        expect(validateIban("DEAB370400440532013000").errorSpan).toEqual({
+          start: 2,
+          end: 4,
+        });
+      });
+
+      it("should point to surplus characters", () => {
+        expect(validateIban("DE8937040044053201300012").errorSpan).toEqual({
+          start: 22,
+          end: 24,
+        });
+        expect(validateIban(`DE89${"1".repeat(32)}`).errorSpan).toEqual({
+          start: 34,
+          end: 36,
+        });
+      });
+
+      it("should omit the position of missing characters", () => {
+        const result = validateIban("DE8937040044053201300");
+        expect(result.valid).toBe(false);
+        expect(result.errorSpan).toBeUndefined();
+      });
+
+      it("should point to the first character breaking the BBAN", () => {
+        expect(validateIban("DE89 3704 0044 0532 013@ 00").errorSpan).toEqual({
+          start: 19,
+          end: 20,
+        });
+        expect(validateIban("DE89370400440532013A00").errorSpan).toEqual({
+          start: 19,
+          end: 20,
+        });
+        expect(validateIban("GB29 1234 6016 1331 9268 19").errorSpan).toEqual({
+          start: 4,
+          end: 5,
+        });
+      });
+
+      it("should point to the check digits on mod-97 failure", () => {
+        expect(validateIban("DE89370400440532013001").errorSpan).toEqual({
+          start: 2,
+          end: 4,
+        });
+      });
+
+      it("should point to the national check digit", () => {
+        expect(validateIban("PL36109010150000071219812874").errorSpan).toEqual({
+          start: 11,
+          end: 12,
+        });
+        expect(validateIban("DE39370400440532013900").errorSpan).toEqual({
+          start: 19,
+          end: 20,
+        });
+      });
+
+      it("should not report a position for valid IBANs", () => {
+        expect(
+          validateIban("DE89370400440532013000").errorSpan,
+        ).toBeUndefined();
+      });
+    });
+
     describe("edge cases", () => {
       it("should handle IBAN at minimum length", () => {
         // Create a valid 15-character IBAN for unknown country
@@ -1,27 +1,49 @@
 /**
- * IBAN Validator - validates IBAN format and checksum
+ * IBAN Validator - validates IBAN format, checksum and national check digits
  */
 
-interface IbanValidationResult {
-  valid: boolean;
-  reason?: string;
+import {
+  IBAN_COUNTRIES,
+  findBbanMismatch,
+  formatBbanStructure,
+  getBbanPattern,
+  isIbanCountry,
+} from "./iban-registry";
+import { getNationalCheckIndex, validateNationalCheck } from "./bban-check";
+import { resolveBank } from "./bank-directory";
+import type { IbanValidationResponse } from "../../types/types";
+
+export interface IbanValidationOptions {
+  /**
+   * Require the electronic format (no whitespace, upper case) and a country
+   * from the IBAN registry. Lenient mode normalizes the input and checks
+   * unknown countries by length and checksum only.
+   */
+  strict?: boolean;
 }
 
-const IBAN_LENGTHS: Record<string, number> = {
-  DE: 22, // Germany
-  AT: 20, // Austria
-  PL: 28, // Poland
-};
-
 /**
  * Validate IBAN format and checksum
- * @param iban - IBAN string to validate (will be normalized)
- * @returns Validation result with reason if invalid
+ * @param iban - IBAN string to validate (will be normalized unless strict)
+ * @param options - Validation options
+ * @returns Validation result with reason if invalid (and the failing
+ * characters of the normalized IBAN when the failure has a position), and
+ * the bank from the bank directory when a valid IBAN's bank code is known
  */
-export function validateIban(iban: string): IbanValidationResult {
+export function validateIban(
+  iban: string,
+  options: IbanValidationOptions = {},
+): IbanValidationResponse {
   // Normalize: remove spaces and convert to uppercase
   const normalized = iban.replace(/\s/g, "").toUpperCase();
 
+  if (options.strict && normalized !== iban) {
+    return {
+      valid: false,
+      reason: "Not in electronic format (contains whitespace or lowercase)",
+    };
+  }
+
   // Check minimum length
   if (normalized.length < 15) {
     return {
@@ -32,7 +54,11 @@ export function validateIban(iban: string): IbanValidationResult {
 
   // Check maximum length
   if (normalized.length > 34) {
-    return { valid: false, reason: "IBAN is too long (maximum 34 characters)" };
+    return {
+      valid: false,
+      reason: "IBAN is too long (maximum 34 characters)",
+      errorSpan: { start: 34, end: normalized.length },
+    };
   }
 
   // Extract country code (first 2 chars)
@@ -40,7 +66,19 @@ export function validateIban(iban: string): IbanValidationResult {
 
   // Validate country code format (must be letters)
   if (!/^[A-Z]{2}$/.test(countryCode)) {
-    return { valid: false, reason: "Invalid country code (must be 2 letters)" };
+    return {
+      valid: false,
+      reason: "Invalid country code (must be 2 letters)",
+      errorSpan: { start: 0, end: 2 },
+    };
+  }
+
+  if (options.strict && !isIbanCountry(countryCode)) {
+    return {
+      valid: false,
+      reason: `Unsupported country code ${countryCode} (not in the IBAN registry)`,
+      errorSpan: { start: 0, end: 2 },
+    };
   }
 
   // Extract check digits (chars 2-3)
@@ -48,39 +86,75 @@ export function validateIban(iban: string): IbanValidationResult {
 
   // Validate check digits format (must be digits)
   if (!/^\d{2}$/.test(checkDigits)) {
-    return { valid: false, reason: "Invalid check digits (must be 2 digits)" };
+    return {
+      valid: false,
+      reason: "Invalid check digits (must be 2 digits)",
+      errorSpan: { start: 2, end: 4 },
+    };
   }
 
   // Check country-specific length if known
-  if (IBAN_LENGTHS[countryCode]) {
-    const expectedLength = IBAN_LENGTHS[countryCode];
-    if (normalized.length !== expectedLength) {
-      return {
-        valid: false,
-        reason: `Invalid length for ${countryCode} (expected ${expectedLength}, got ${normalized.length})`,
-      };
-    }
+  const spec = isIbanCountry(countryCode) ? IBAN_COUNTRIES[countryCode] : null;
+  if (spec && normalized.length !== spec.length) {
+    return {
+      valid: false,
+      reason: `Invalid length for ${countryCode} (expected ${spec.length}, got ${normalized.length})`,
+      // Surplus characters; a missing tail has no position
+      ...(normalized.length > spec.length && {
+        errorSpan: { start: spec.length, end: normalized.length },
+      }),
+    };
   }
 
   // Validate BBAN contains only alphanumeric characters
   const bban = normalized.slice(4);
-  if (!/^[A-Z0-9]+$/.test(bban)) {
+  const invalidChar = bban.search(/[^A-Z0-9]/);
+  if (invalidChar !== -1) {
     return {
       valid: false,
       reason: "BBAN contains invalid characters (must be alphanumeric)",
+      errorSpan: { start: 4 + invalidChar, end: 5 + invalidChar },
+    };
+  }
+
+  // Check the country's BBAN structure (digits vs letters per position)
+  if (spec && !getBbanPattern(spec).test(bban)) {
+    const mismatch = findBbanMismatch(spec, bban);
+    return {
+      valid: false,
+      reason: `Invalid BBAN format for ${countryCode} (expected ${formatBbanStructure(spec)})`,
+      errorSpan: { start: 4 + mismatch, end: 5 + mismatch },
     };
   }
 
   // Perform mod-97 checksum validation
   const isChecksumValid = validateIbanChecksum(normalized);
   if (!isChecksumValid) {
+    // Any character may be wrong; the check digits no longer match
     return {
       valid: false,
       reason: "Invalid checksum (mod-97 validation failed)",
+      errorSpan: { start: 2, end: 4 },
     };
   }
 
-  return { valid: true };
+  // National check digits inside the BBAN (PL sort code, DE account, ...)
+  if (isIbanCountry(countryCode)) {
+    const nationalReason = validateNationalCheck(countryCode, bban);
+    const checkIndex = getNationalCheckIndex(countryCode);
+    if (nationalReason && checkIndex !== null) {
+      return {
+        valid: false,
+        reason: nationalReason,
+        errorSpan: { start: 4 + checkIndex, end: 5 + checkIndex },
+      };
+    }
+  }
+
+  const bank = isIbanCountry(countryCode)
+    ? resolveBank(countryCode, bban)
+    : null;
+  return bank ? { valid: true, bank } : { valid: true };
 }
 
 /**
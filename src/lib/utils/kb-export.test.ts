@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import {
+  escapeHtml,
+  getKbExportFileName,
+  serializeKbExport,
+} from "./kb-export";
+import {
+  parseKbBookmarksHtml,
+  parseKbJson,
+  parseKbMarkdown,
+} from "./kb-import";
+import type { KBExportDTO } from "../../types/types";
+
+const data: KBExportDTO = {
+  entries: [
+    {
+      id: "e1",
+      user_id: "u1",
+      title: "Testing [basics] & more",
+      url_original: "https://example.com/a?x=1&y=2",
+      url_canonical: "example.com/a?x=1&y=2",
+      tags: ["api", "docs"],
+      is_public: false,
+      created_at: "2025-01-01T00:00:00.000Z",
+      updated_at: "2025-01-02T00:00:00.000Z",
+      link_status: null,
+      link_redirect_url: null,
+      link_redirect_permanent: false,
+      link_error: null,
+      link_checked_at: null,
+    },
+    {
+      id: "e2",
+      user_id: "u1",
+      title: "Plain",
+      url_original: "https://example.com/b",
+      url_canonical: "example.com/b",
+      tags: [],
+      is_public: false,
+      created_at: "2025-01-01T00:00:00.000Z",
+      updated_at: "2025-01-01T00:00:00.000Z",
+      link_status: null,
+      link_redirect_url: null,
+      link_redirect_permanent: false,
+      link_error: null,
+      link_checked_at: null,
+    },
+  ],
+  notes: [
+    {
+      id: "n1",
+      entry_id: "e1",
+      user_id: "u1",
+      body: "First **note**\nsecond line",
+      created_at: "2025-01-03T00:00:00.000Z",
+    },
+    {
+      id: "n2",
+      entry_id: "e1",
+      user_id: "u1",
+      body: "<script>alert(1)</script>",
+      created_at: "2025-01-04T00:00:00.000Z",
+    },
+  ],
+};
+
+describe("kb-export", () => {
+  it("should name files by date and format", () => {
+    expect(getKbExportFileName("md", new Date("2026-10-18T12:00:00Z"))).toBe(
+      "kb-export-2026-10-18.md",
+    );
+  });
+
+  it("should escape HTML", () => {
+    expect(escapeHtml('<a href="x">&</a>')).toBe(
+      "&lt;a href=&quot;x&quot;&gt;&amp;&lt;/a&gt;",
+    );
+  });
+
+  it("should write JSON as the export object", () => {
+    expect(JSON.parse(serializeKbExport("json", data))).toEqual(data);
+  });
+
+  it("should write Markdown sections with tags and quoted notes", () => {
+    const md = serializeKbExport("md", data);
+
+    expect(md).toContain(
+      "## [Testing \\[basics\\] & more](https://example.com/a?x=1&y=2)\n\nTags: api, docs\n\n> First **note**\n> second line\n\n> <script>alert(1)</script>",
+    );
+    expect(md).toContain("## [Plain](https://example.com/b)");
+  });
+
+  it("should write a Netscape bookmark file", () => {
+    const html = serializeKbExport("html", data);
+
+    expect(html.startsWith("<!DOCTYPE NETSCAPE-Bookmark-file-1>")).toBe(true);
+    expect(html).toContain(
+      '<DT><A HREF="https://example.com/a?x=1&amp;y=2" ADD_DATE="1735689600" LAST_MODIFIED="1735776000" TAGS="api,docs">Testing [basics] &amp; more</A>',
+    );
+    expect(html).toContain("&lt;script&gt;");
+    expect(html).not.toContain("<script>");
+  });
+
+  describe("round trip through the import parsers", () => {
+    const expected = [
+      {
+        title: "Testing [basics] & more",
+        url: "https://example.com/a?x=1&y=2",
+        tags: ["api", "docs"],
+      },
+      { title: "Plain", url: "https://example.com/b", tags: [] },
+    ];
+
+    it("should read back JSON", () => {
+      const candidates = parseKbJson(
+        JSON.parse(serializeKbExport("json", data)),
+      );
+      expect(candidates).toMatchObject(expected);
+      expect(candidates[0].notes).toEqual([
+        "First **note**\nsecond line",
+        "<script>alert(1)</script>",
+      ]);
+    });
+
+    it("should read back Markdown", () => {
+      const candidates = parseKbMarkdown(serializeKbExport("md", data));
+      expect(candidates).toMatchObject(expected);
+      expect(candidates[0].notes).toEqual([
+        "First **note**\nsecond line",
+        "<script>alert(1)</script>",
+      ]);
+    });
+
+    it("should read back bookmarks HTML", () => {
+      const candidates = parseKbBookmarksHtml(serializeKbExport("html", data));
+      expect(candidates).toMatchObject(expected);
+      expect(candidates[0].notes).toEqual([
+        "First **note**\nsecond line\n\n<script>alert(1)</script>",
+      ]);
+      expect(candidates[1].notes).toEqual([]);
+    });
+  });
+});
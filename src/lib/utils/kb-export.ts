@@ -0,0 +1,142 @@
+import type {
+  KBEntryDTO,
+  KBExportDTO,
+  KBExportFormat,
+  KBNoteDTO,
+} from "../../types/types";
+
+/**
+ * Serialization of KB exports (GET /api/kb/export)
+ *
+ * - json: the KBExportDTO itself, the lossless format
+ * - md: one "## [title](url)" section per entry with its tags and notes
+ * - html: Netscape bookmark file, the format browsers import and export;
+ *   tags go into the TAGS attribute and notes into <DD> descriptions
+ *
+ * All three are accepted back by POST /api/kb/import (see kb-import.ts).
+ */
+
+export const KB_EXPORT_FORMATS: readonly [KBExportFormat, ...KBExportFormat[]] =
+  ["json", "md", "html"];
+
+export const KB_EXPORT_CONTENT_TYPES: Record<KBExportFormat, string> = {
+  json: "application/json",
+  md: "text/markdown; charset=utf-8",
+  html: "text/html; charset=utf-8",
+};
+
+/**
+ * Download file name, e.g. "kb-export-2026-10-18.md"
+ */
+export function getKbExportFileName(
+  format: KBExportFormat,
+  date: Date,
+): string {
+  return `kb-export-${date.toISOString().slice(0, 10)}.${format}`;
+}
+
+function groupNotes(notes: KBNoteDTO[]): Map<string, KBNoteDTO[]> {
+  const byEntry = new Map<string, KBNoteDTO[]>();
+  for (const note of notes) {
+    const entryNotes = byEntry.get(note.entry_id) ?? [];
+    entryNotes.push(note);
+    byEntry.set(note.entry_id, entryNotes);
+  }
+  return byEntry;
+}
+
+/** Brackets and parentheses would end the link early */
+function escapeMarkdownLinkText(text: string): string {
+  return text.replace(/[[\]\\]/g, "\\$&");
+}
+
+function escapeMarkdownUrl(url: string): string {
+  return url.replace(/[()\s]/g, (char) => encodeURIComponent(char));
+}
+
+function toMarkdown({ entries, notes }: KBExportDTO): string {
+  const byEntry = groupNotes(notes);
+  const sections = entries.map((entry) => {
+    const lines = [
+      `## [${escapeMarkdownLinkText(entry.title)}](${escapeMarkdownUrl(entry.url_original)})`,
+    ];
+    if (entry.tags.length > 0) {
+      lines.push("", `Tags: ${entry.tags.join(", ")}`);
+    }
+    for (const note of byEntry.get(entry.id) ?? []) {
+      lines.push("", ...note.body.split(/\r\n?|\n/).map((line) => `> ${line}`));
+    }
+    return lines.join("\n");
+  });
+
+  return `# Knowledge Base\n\n${sections.join("\n\n")}\n`;
+}
+
+/**
+ * Escape text for HTML content and double-quoted attributes
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function toUnixSeconds(timestamp: string): number {
+  return Math.floor(new Date(timestamp).getTime() / 1000);
+}
+
+function toBookmarkItem(entry: KBEntryDTO, notes: KBNoteDTO[]): string {
+  const attributes = [
+    `HREF="${escapeHtml(entry.url_original)}"`,
+    `ADD_DATE="${toUnixSeconds(entry.created_at)}"`,
+    `LAST_MODIFIED="${toUnixSeconds(entry.updated_at)}"`,
+  ];
+  if (entry.tags.length > 0) {
+    attributes.push(`TAGS="${escapeHtml(entry.tags.join(","))}"`);
+  }
+
+  const lines = [
+    `    <DT><A ${attributes.join(" ")}>${escapeHtml(entry.title)}</A>`,
+  ];
+  if (notes.length > 0) {
+    const description = notes.map((note) => note.body).join("\n\n");
+    lines.push(`    <DD>${escapeHtml(description)}`);
+  }
+  return lines.join("\n");
+}
+
+function toBookmarksHtml({ entries, notes }: KBExportDTO): string {
+  const byEntry = groupNotes(notes);
+  return [
+    "<!DOCTYPE NETSCAPE-Bookmark-file-1>",
+    "<!-- This is an automatically generated file. -->",
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    "<TITLE>Bookmarks</TITLE>",
+    "<H1>Bookmarks</H1>",
+    "<DL><p>",
+    ...entries.map((entry) =>
+      toBookmarkItem(entry, byEntry.get(entry.id) ?? []),
+    ),
+    "</DL><p>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Encode an export in the given format
+ */
+export function serializeKbExport(
+  format: KBExportFormat,
+  data: KBExportDTO,
+): string {
+  switch (format) {
+    case "md":
+      return toMarkdown(data);
+    case "html":
+      return toBookmarksHtml(data);
+    case "json":
+      return `${JSON.stringify(data, null, 2)}\n`;
+  }
+}
@@ -0,0 +1,194 @@
+import { describe, it, expect } from "vitest";
+import {
+  canonicalizeKbUrl,
+  decodeHtmlEntities,
+  detectKbImportFormat,
+  parseKbBookmarksHtml,
+  parseKbJson,
+  parseKbMarkdown,
+} from "./kb-import";
+
+describe("kb-import", () => {
+  describe("canonicalizeKbUrl", () => {
+    it("should match the canonicalize_url SQL function", () => {
+      expect(canonicalizeKbUrl("HTTPS://www.Example.com/Path/")).toBe(
+        "example.com/path",
+      );
+      expect(canonicalizeKbUrl("http://example.com")).toBe("example.com");
+    });
+  });
+
+  describe("detectKbImportFormat", () => {
+    it("should prefer the Content-Type", () => {
+      expect(detectKbImportFormat("application/json", "")).toBe("json");
+      expect(detectKbImportFormat("text/html; charset=utf-8", "")).toBe("html");
+      expect(detectKbImportFormat("text/markdown", "{")).toBe("md");
+    });
+
+    it("should sniff the content otherwise", () => {
+      expect(detectKbImportFormat("", '  [{"title": "a"}]')).toBe("json");
+      expect(
+        detectKbImportFormat(
+          "application/octet-stream",
+          "<!DOCTYPE NETSCAPE-Bookmark-file-1>",
+        ),
+      ).toBe("html");
+      expect(detectKbImportFormat("text/plain", "- [a](https://a.io)")).toBe(
+        "md",
+      );
+    });
+  });
+
+  describe("parseKbJson", () => {
+    it("should accept url or url_original and ignore invalid fields", () => {
+      expect(
+        parseKbJson({
+          entries: [
+            { title: " A ", url: "https://a.io", tags: ["x", 1, "X", " "] },
+            { url_original: "https://b.io", is_public: true },
+            { title: 5 },
+          ],
+          notes: [],
+        }),
+      ).toEqual([
+        {
+          row: 1,
+          title: "A",
+          url: "https://a.io",
+          tags: ["x"],
+          isPublic: undefined,
+          notes: [],
+        },
+        {
+          row: 2,
+          title: "",
+          url: "https://b.io",
+          tags: [],
+          isPublic: true,
+          notes: [],
+        },
+        {
+          row: 3,
+          title: "",
+          url: "",
+          tags: [],
+          isPublic: undefined,
+          notes: [],
+        },
+      ]);
+    });
+  });
+
+  describe("parseKbMarkdown", () => {
+    it("should read headings with tags and notes, and list items", () => {
+      const md = [
+        "# Reading list",
+        "",
+        "## [Heading entry](https://a.io/x_(y))",
+        "Tags: one, two",
+        "> note line",
+        "",
+        "Some text that is ignored",
+        "",
+        "## Links",
+        "- [List item](https://b.io) — with a comment",
+        "> not a note of the list item",
+        "1. [Numbered](https://c.io)",
+        "- no link here",
+      ].join("\n");
+
+      expect(parseKbMarkdown(md)).toEqual([
+        {
+          row: 3,
+          title: "Heading entry",
+          url: "https://a.io/x_(y)",
+          tags: ["one", "two"],
+          notes: ["note line"],
+        },
+        {
+          row: 10,
+          title: "List item",
+          url: "https://b.io",
+          tags: [],
+          notes: [],
+        },
+        {
+          row: 12,
+          title: "Numbered",
+          url: "https://c.io",
+          tags: [],
+          notes: [],
+        },
+      ]);
+    });
+  });
+
+  describe("decodeHtmlEntities", () => {
+    it("should decode named and numeric references", () => {
+      expect(decodeHtmlEntities("&amp;&lt;&#39;&#x41;&unknown;")).toBe(
+        "&<'A&unknown;",
+      );
+    });
+  });
+
+  describe("parseKbBookmarksHtml", () => {
+    const html = `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">
+<TITLE>Bookmarks</TITLE>
+<H1>Bookmarks</H1>
+<DL><p>
+    <DT><H3 ADD_DATE="1" PERSONAL_TOOLBAR_FOLDER="true">Bookmarks bar</H3>
+    <DL><p>
+        <DT><H3>QA</H3>
+        <DD>Folder description
+        <DL><p>
+            <DT><A HREF="https://a.io/?a=1&amp;b=2" TAGS="api,Tools">Tom &amp; Jerry</A>
+            <DD>Read later
+            <DT><H3>Tools</H3>
+            <DL><p>
+                <DT><A HREF="https://b.io">B</A>
+            </DL><p>
+        </DL><p>
+        <DT><A HREF="javascript:void(0)">Bookmarklet</A>
+    </DL><p>
+    <DT><A HREF="https://c.io">C</A>
+</DL><p>`;
+
+    it("should map folders to tags, skipping browser root folders", () => {
+      expect(parseKbBookmarksHtml(html)).toEqual([
+        {
+          row: 11,
+          title: "Tom & Jerry",
+          url: "https://a.io/?a=1&b=2",
+          tags: ["QA", "api", "Tools"],
+          notes: ["Read later"],
+        },
+        {
+          row: 15,
+          title: "B",
+          url: "https://b.io",
+          tags: ["QA", "Tools"],
+          notes: [],
+        },
+        {
+          row: 18,
+          title: "Bookmarklet",
+          url: "javascript:void(0)",
+          tags: [],
+          notes: [],
+        },
+        {
+          row: 20,
+          title: "C",
+          url: "https://c.io",
+          tags: [],
+          notes: [],
+        },
+      ]);
+    });
+
+    it("should return no candidates for other HTML", () => {
+      expect(parseKbBookmarksHtml("<p>Hello</p>")).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,329 @@
+import type { KBExportFormat } from "../../types/types";
+
+/**
+ * Parsing of KB imports (POST /api/kb/import) into candidate entries
+ *
+ * Accepts what GET /api/kb/export writes (see kb-export.ts) plus the
+ * bookmark files browsers export: Netscape bookmark HTML, where the folders
+ * a bookmark sits in become its tags.
+ */
+
+/** Upper bound for entries in one import */
+export const MAX_KB_IMPORT_ENTRIES = 1000;
+
+/** Upper bound for the request body, in characters */
+export const MAX_KB_IMPORT_SIZE = 5_000_000;
+
+export interface KbImportCandidate {
+  /** 1-based row in the input: JSON index + 1, or the line in the file */
+  row: number;
+  title: string;
+  url: string;
+  tags: string[];
+  /** Only honoured for admins */
+  isPublic?: boolean;
+  notes: string[];
+}
+
+/** JSON import: the export object, or a bare array of entries */
+export interface KbImportJson {
+  entries: Record<string, unknown>[];
+  notes: { entry_id: string; body: string }[];
+}
+
+/**
+ * Same normalisation as the canonicalize_url() SQL function, which fills
+ * kb_entries.url_canonical: lower case, no scheme or "www.", no trailing
+ * slash
+ */
+export function canonicalizeKbUrl(url: string): string {
+  return url
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\/(www\.)?/, "")
+    .replace(/\/$/, "");
+}
+
+/**
+ * Format of an import body: the Content-Type when it names one, otherwise
+ * sniffed from the content
+ */
+export function detectKbImportFormat(
+  contentType: string,
+  content: string,
+): KBExportFormat {
+  if (contentType.includes("application/json")) return "json";
+  if (contentType.includes("text/html")) return "html";
+  if (contentType.includes("text/markdown")) return "md";
+
+  const start = content.trimStart();
+  if (start.startsWith("{") || start.startsWith("[")) return "json";
+  if (/^<(!DOCTYPE|DL|DT|META|TITLE|H1|HTML)/i.test(start)) return "html";
+  return "md";
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function cleanTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  return tags
+    .map((tag) => tag.trim())
+    .filter((tag) => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Candidates of a JSON import; notes are matched to entries by entry id
+ */
+export function parseKbJson(data: KbImportJson): KbImportCandidate[] {
+  const notesByEntry = new Map<string, string[]>();
+  for (const note of data.notes) {
+    const notes = notesByEntry.get(note.entry_id) ?? [];
+    notes.push(note.body);
+    notesByEntry.set(note.entry_id, notes);
+  }
+
+  return data.entries.map((entry, index) => {
+    const id = asString(entry.id);
+    const tags = Array.isArray(entry.tags)
+      ? entry.tags.filter((tag): tag is string => typeof tag === "string")
+      : [];
+    return {
+      row: index + 1,
+      title: asString(entry.title),
+      url: asString(entry.url_original ?? entry.url),
+      tags: cleanTags(tags),
+      isPublic:
+        typeof entry.is_public === "boolean" ? entry.is_public : undefined,
+      notes: (id && notesByEntry.get(id)) || [],
+    };
+  });
+}
+
+const MD_LINK = String.raw`\[((?:\\.|[^\]\\])*)\]\((\S+)\)`;
+const MD_HEADING_LINK = new RegExp(String.raw`^#{1,6}\s+${MD_LINK}\s*$`);
+const MD_LIST_LINK = new RegExp(
+  String.raw`^\s*(?:[-*+]|\d+[.)])\s+${MD_LINK}(?:\s|$)`,
+);
+const MD_TAGS = /^tags:\s*(.*)$/i;
+const MD_QUOTE = /^>\s?(.*)$/;
+
+function unescapeMarkdown(text: string): string {
+  return text.replace(/\\(.)/g, "$1");
+}
+
+/**
+ * Candidates of a Markdown import: every "## [title](url)" heading or
+ * "- [title](url)" list item is an entry; a "Tags: a, b" line and
+ * "> quoted" blocks below a heading become its tags and notes
+ */
+export function parseKbMarkdown(text: string): KbImportCandidate[] {
+  const candidates: KbImportCandidate[] = [];
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  let current: KbImportCandidate | null = null;
+  let quote: string[] | null = null;
+
+  const endQuote = () => {
+    if (current && quote) {
+      const note = quote.join("\n").trim();
+      if (note) current.notes.push(note);
+    }
+    quote = null;
+  };
+
+  lines.forEach((line, index) => {
+    const quoted = MD_QUOTE.exec(line);
+    if (quoted && current) {
+      (quote ??= []).push(quoted[1]);
+      return;
+    }
+    endQuote();
+
+    const heading = MD_HEADING_LINK.exec(line);
+    const item = heading ? null : MD_LIST_LINK.exec(line);
+    const link = heading ?? item;
+    if (link) {
+      const candidate: KbImportCandidate = {
+        row: index + 1,
+        title: unescapeMarkdown(link[1]).trim(),
+        url: link[2],
+        tags: [],
+        notes: [],
+      };
+      candidates.push(candidate);
+      // Tags and notes only follow headings; list items stand alone
+      current = heading ? candidate : null;
+      return;
+    }
+
+    const tags = current && MD_TAGS.exec(line.trim());
+    if (current && tags) {
+      current.tags = cleanTags([...current.tags, ...tags[1].split(",")]);
+      return;
+    }
+
+    if (/^#{1,6}\s/.test(line)) {
+      current = null;
+    }
+  });
+  endQuote();
+
+  return candidates;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Decode the character references bookmark files use
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (entity, name: string) => {
+      if (name[0] === "#") {
+        const code =
+          name[1] === "x" || name[1] === "X"
+            ? parseInt(name.slice(2), 16)
+            : parseInt(name.slice(1), 10);
+        return code > 0 && code <= 0x10ffff
+          ? String.fromCodePoint(code)
+          : entity;
+      }
+      return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+    },
+  );
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    attributes[match[1].toUpperCase()] = decodeHtmlEntities(
+      match[2] ?? match[3] ?? match[4],
+    );
+  }
+  return attributes;
+}
+
+/** Browser root folders that say nothing about the bookmark */
+const ROOT_FOLDER_ATTRIBUTES = [
+  "PERSONAL_TOOLBAR_FOLDER",
+  "UNFILED_BOOKMARKS_FOLDER",
+];
+
+const HTML_TOKEN = /<(\/?)([a-z][a-z0-9]*)([^>]*)>|<!--[\s\S]*?-->/gi;
+
+/**
+ * Candidates of a Netscape bookmark file: every <A HREF> is an entry,
+ * tagged with its enclosing <H3> folders (browser root folders excluded)
+ * and its TAGS attribute; a <DD> description becomes a note
+ */
+export function parseKbBookmarksHtml(html: string): KbImportCandidate[] {
+  const candidates: KbImportCandidate[] = [];
+  // One element per open <DL>: the folder it belongs to, null when untagged
+  const folders: (string | null)[] = [];
+  let pendingFolder: string | null = null;
+  let folderName: { text: string; tagged: boolean } | null = null;
+  let anchor: { row: number; attributes: Record<string, string> } | null = null;
+  let anchorText = "";
+  let description: string | null = null;
+  let last: KbImportCandidate | null = null;
+
+  let line = 1;
+  let lineCountedTo = 0;
+  const lineAt = (index: number) => {
+    for (let i = lineCountedTo; i < index; i++) {
+      if (html[i] === "\n") line++;
+    }
+    lineCountedTo = Math.max(lineCountedTo, index);
+    return line;
+  };
+
+  const endDescription = () => {
+    if (last && description !== null) {
+      const note = decodeHtmlEntities(description).trim();
+      if (note) last.notes.push(note);
+    }
+    description = null;
+  };
+
+  let position = 0;
+  let match: RegExpExecArray | null;
+  HTML_TOKEN.lastIndex = 0;
+  while ((match = HTML_TOKEN.exec(html))) {
+    const text = html.slice(position, match.index);
+    position = HTML_TOKEN.lastIndex;
+    if (anchor) anchorText += text;
+    else if (folderName) folderName.text += text;
+    else if (description !== null) description += text;
+
+    const [, closing, rawName = "", rawAttributes = ""] = match;
+    const name = rawName.toUpperCase();
+    if (!name || name === "P") continue;
+
+    if (name === "A" && !closing) {
+      endDescription();
+      anchor = {
+        row: lineAt(match.index),
+        attributes: parseAttributes(rawAttributes),
+      };
+      anchorText = "";
+    } else if (name === "A" && anchor) {
+      const url = anchor.attributes.HREF ?? "";
+      const folderTags = folders.filter((tag): tag is string => !!tag);
+      const ownTags = (anchor.attributes.TAGS ?? "").split(",");
+      last = {
+        row: anchor.row,
+        title: decodeHtmlEntities(anchorText).replace(/\s+/g, " ").trim(),
+        url: url.trim(),
+        tags: cleanTags([...folderTags, ...ownTags]),
+        notes: [],
+      };
+      candidates.push(last);
+      anchor = null;
+    } else if (name === "H3" && !closing) {
+      endDescription();
+      last = null;
+      const attributes = parseAttributes(rawAttributes);
+      folderName = {
+        text: "",
+        tagged: !ROOT_FOLDER_ATTRIBUTES.some((key) => key in attributes),
+      };
+    } else if (name === "H3" && folderName) {
+      const title = decodeHtmlEntities(folderName.text).trim();
+      pendingFolder = folderName.tagged && title ? title : null;
+      folderName = null;
+    } else if (name === "DL") {
+      endDescription();
+      if (closing) {
+        folders.pop();
+      } else {
+        folders.push(pendingFolder);
+        pendingFolder = null;
+      }
+    } else if (name === "DD" && !closing) {
+      endDescription();
+      description = "";
+    } else if (name === "DT" || name === "H1") {
+      endDescription();
+    }
+  }
+  if (description !== null) description += html.slice(position);
+  endDescription();
+
+  return candidates;
+}
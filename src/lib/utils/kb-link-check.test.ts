@@ -0,0 +1,226 @@
+import { describe, it, expect } from "vitest";
+import { getKbLinkHealth, isPublicLinkHost, probeLink } from "./kb-link-check";
+import { StubLinkFetcher } from "./link-fetch-stub";
+import type { KBLinkCheckFields } from "../../types/types";
+
+const URL_A = "https://example.com/a";
+
+describe("kb-link-check", () => {
+  describe("probeLink", () => {
+    it("should report the status of a working link", async () => {
+      const stub = new StubLinkFetcher();
+
+      const probe = await probeLink(URL_A, { fetch: stub.fetch });
+
+      expect(probe).toEqual({
+        link_status: 200,
+        link_redirect_url: null,
+        link_redirect_permanent: false,
+        link_error: null,
+      });
+      expect(stub.requests).toEqual([{ url: URL_A, method: "HEAD" }]);
+    });
+
+    it("should report error statuses", async () => {
+      const stub = new StubLinkFetcher({ routes: { [URL_A]: 404 } });
+
+      const probe = await probeLink(URL_A, { fetch: stub.fetch });
+
+      expect(probe.link_status).toBe(404);
+      expect(probe.link_error).toBeNull();
+    });
+
+    it("should fall back to GET when HEAD is not allowed", async () => {
+      const stub = new StubLinkFetcher({
+        routes: { [URL_A]: { status: 200, head: 405 } },
+      });
+
+      const probe = await probeLink(URL_A, { fetch: stub.fetch });
+
+      expect(probe.link_status).toBe(200);
+      expect(stub.requests.map((request) => request.method)).toEqual([
+        "HEAD",
+        "GET",
+      ]);
+    });
+
+    it("should follow permanent redirects to the final URL", async () => {
+      const stub = new StubLinkFetcher({
+        routes: {
+          "http://example.com/a": { status: 301, location: URL_A },
+          [URL_A]: { status: 308, location: "/b" },
+        },
+      });
+
+      const probe = await probeLink("http://example.com/a", {
+        fetch: stub.fetch,
+      });
+
+      expect(probe).toEqual({
+        link_status: 200,
+        link_redirect_url: "https://example.com/b",
+        link_redirect_permanent: true,
+        link_error: null,
+      });
+    });
+
+    it("should not call a chain with a temporary redirect permanent", async () => {
+      const stub = new StubLinkFetcher({
+        routes: {
+          [URL_A]: { status: 301, location: "https://example.com/b" },
+          "https://example.com/b": { status: 302, location: "/login" },
+        },
+      });
+
+      const probe = await probeLink(URL_A, { fetch: stub.fetch });
+
+      expect(probe.link_redirect_url).toBe("https://example.com/login");
+      expect(probe.link_redirect_permanent).toBe(false);
+    });
+
+    it("should stop after too many redirects", async () => {
+      const stub = new StubLinkFetcher({
+        routes: { [URL_A]: { status: 301, location: URL_A } },
+      });
+
+      const probe = await probeLink(URL_A, {
+        fetch: stub.fetch,
+        maxRedirects: 2,
+      });
+
+      expect(probe.link_error).toBe("too_many_redirects");
+      expect(stub.requests).toHaveLength(3);
+    });
+
+    it("should report timeouts and network errors", async () => {
+      const stub = new StubLinkFetcher({
+        routes: { [URL_A]: "timeout", "https://down.test/": "network_error" },
+      });
+
+      await expect(
+        probeLink(URL_A, { fetch: stub.fetch, timeoutMs: 10 }),
+      ).resolves.toMatchObject({ link_status: null, link_error: "timeout" });
+      await expect(
+        probeLink("https://down.test/", { fetch: stub.fetch }),
+      ).resolves.toMatchObject({ link_error: "network_error" });
+    });
+
+    it("should not request URLs that are not http(s)", async () => {
+      const stub = new StubLinkFetcher();
+
+      const probes = await Promise.all(
+        ["not a url", "ftp://example.com/file"].map((url) =>
+          probeLink(url, { fetch: stub.fetch }),
+        ),
+      );
+
+      expect(probes.map((probe) => probe.link_error)).toEqual([
+        "invalid_url",
+        "invalid_url",
+      ]);
+      expect(stub.requests).toHaveLength(0);
+    });
+  });
+
+  describe("private hosts", () => {
+    it("should not request hosts outside the public internet", async () => {
+      const stub = new StubLinkFetcher();
+
+      const probes = await Promise.all(
+        [
+          "http://localhost:3000/admin",
+          "http://127.0.0.1/",
+          "http://169.254.169.254/latest/meta-data/",
+          "http://[::1]/",
+          "http://printer.local/",
+        ].map((url) => probeLink(url, { fetch: stub.fetch })),
+      );
+
+      expect(probes.map((probe) => probe.link_error)).toEqual(
+        Array(5).fill("private_host"),
+      );
+      expect(stub.requests).toHaveLength(0);
+    });
+
+    it("should not follow redirects to private hosts", async () => {
+      const stub = new StubLinkFetcher({
+        routes: {
+          [URL_A]: { status: 302, location: "http://10.0.0.5/internal" },
+        },
+      });
+
+      const probe = await probeLink(URL_A, { fetch: stub.fetch });
+
+      expect(probe.link_error).toBe("private_host");
+      expect(stub.requests.map((request) => request.url)).toEqual([URL_A]);
+    });
+
+    it("should tell public and private hosts apart", () => {
+      const isPublic = (url: string) => isPublicLinkHost(new URL(url));
+
+      expect(isPublic("https://example.com/")).toBe(true);
+      expect(isPublic("http://8.8.8.8/")).toBe(true);
+      expect(isPublic("http://172.32.0.1/")).toBe(true);
+      expect(isPublic("http://[2001:db8::1]/")).toBe(true);
+
+      expect(isPublic("http://0x7f.1/")).toBe(false);
+      expect(isPublic("http://2130706433/")).toBe(false);
+      expect(isPublic("http://192.168.1.1/")).toBe(false);
+      expect(isPublic("http://172.16.0.1/")).toBe(false);
+      expect(isPublic("http://100.64.0.1/")).toBe(false);
+      expect(isPublic("http://[fd00::1]/")).toBe(false);
+      expect(isPublic("http://[fe80::1]/")).toBe(false);
+      expect(isPublic("http://[::ffff:127.0.0.1]/")).toBe(false);
+      expect(isPublic("http://metadata.google.internal/")).toBe(false);
+      expect(isPublic("http://app.localhost/")).toBe(false);
+      expect(isPublic("http://intranet/")).toBe(false);
+    });
+  });
+
+  describe("getKbLinkHealth", () => {
+    function fields(
+      overrides: Partial<KBLinkCheckFields> = {},
+    ): KBLinkCheckFields {
+      return {
+        link_status: 200,
+        link_redirect_url: null,
+        link_redirect_permanent: false,
+        link_error: null,
+        link_checked_at: "2026-10-18T03:00:00.000Z",
+        ...overrides,
+      };
+    }
+
+    it("should tell unchecked, working and broken links apart", () => {
+      expect(getKbLinkHealth(fields({ link_checked_at: null }))).toBe(
+        "unchecked",
+      );
+      expect(getKbLinkHealth(fields())).toBe("ok");
+      expect(getKbLinkHealth(fields({ link_status: 404 }))).toBe("broken");
+      expect(getKbLinkHealth(fields({ link_status: 503 }))).toBe("broken");
+      expect(
+        getKbLinkHealth(fields({ link_status: null, link_error: "timeout" })),
+      ).toBe("broken");
+    });
+
+    it("should not call links broken when the server refused the checker", () => {
+      expect(getKbLinkHealth(fields({ link_status: 403 }))).toBe("ok");
+      expect(getKbLinkHealth(fields({ link_status: 429 }))).toBe("ok");
+    });
+
+    it("should flag working links behind a permanent redirect as moved", () => {
+      const moved = {
+        link_redirect_url: "https://example.com/b",
+        link_redirect_permanent: true,
+      };
+
+      expect(getKbLinkHealth(fields(moved))).toBe("moved");
+      expect(getKbLinkHealth(fields({ ...moved, link_status: 404 }))).toBe(
+        "broken",
+      );
+      expect(
+        getKbLinkHealth(fields({ ...moved, link_redirect_permanent: false })),
+      ).toBe("ok");
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import type {
+  KBLinkCheckFields,
+  KBLinkError,
+  KBLinkHealth,
+} from "../../types/types";
+
+/**
+ * Link checks for KB entries (POST /api/kb/link-check and the scheduled
+ * worker in src/workers/kb-link-check.ts)
+ *
+ * A link is requested with HEAD, or GET when the server does not support
+ * HEAD. Redirects are followed by hand so every hop's status is seen: the
+ * result is the final status and URL, and whether all hops were permanent
+ * (301/308), which means the entry can safely take the new URL.
+ *
+ * Entry URLs are user input and the checker runs server-side, so hosts
+ * that are not on the public internet (localhost, private, link-local and
+ * metadata addresses, .local/.internal names) are never requested, neither
+ * directly nor as a redirect target. The check is by host name and IP
+ * literal only: a public name that resolves to a private address is not
+ * caught here.
+ *
+ * The fetch function is pluggable; tests pass StubLinkFetcher
+ * (link-fetch-stub.ts) instead of the network.
+ */
+
+export type LinkFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface LinkCheckOptions {
+  /** Defaults to the global fetch */
+  fetch?: LinkFetch;
+  /** Per request, in milliseconds */
+  timeoutMs?: number;
+  maxRedirects?: number;
+}
+
+/** Outcome of one check, without the time it ran */
+export type LinkProbe = Omit<KBLinkCheckFields, "link_checked_at">;
+
+export const LINK_CHECK_TIMEOUT_MS = 10_000;
+export const MAX_LINK_REDIRECTS = 5;
+
+const LINK_CHECK_USER_AGENT = "QA-Toolsmith-LinkChecker/1.0";
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+const PERMANENT_REDIRECT_STATUSES = [301, 308];
+
+/** Servers that answer HEAD with these get a GET instead */
+const HEAD_UNSUPPORTED_STATUSES = [405, 501];
+
+/**
+ * The page is there but turned the checker away (login walls, bot
+ * protection, rate limits), so the link is not reported as broken
+ */
+const REFUSED_STATUSES = [401, 403, 429];
+
+/** Host names that only resolve inside a machine or private network */
+const PRIVATE_HOST_SUFFIXES = [".localhost", ".local", ".internal", ".lan"];
+
+/** IPv4 ranges that are not publicly routable, as [first octets, prefix] */
+const PRIVATE_IPV4_RANGES: [number[], number][] = [
+  [[0], 8], // "this network"
+  [[10], 8],
+  [[100, 64], 10], // carrier-grade NAT
+  [[127], 8],
+  [[169, 254], 16], // link-local, cloud metadata
+  [[172, 16], 12],
+  [[192, 0, 0], 24],
+  [[192, 168], 16],
+  [[198, 18], 15], // benchmarking
+  [[224], 4], // multicast
+  [[240], 4], // reserved, broadcast
+];
+
+function isPrivateIpv4(address: string): boolean {
+  const octets = address.split(".").map(Number);
+  const value =
+    ((octets[0] << 24) | (octets[1] << 16) | (octets[2] << 8) | octets[3]) >>>
+    0;
+  return PRIVATE_IPV4_RANGES.some(([prefix, bits]) => {
+    const start = prefix.reduce(
+      (acc, octet, i) => acc | (octet << (24 - 8 * i)),
+      0,
+    );
+    const mask = (~0 << (32 - bits)) >>> 0;
+    return (value & mask) >>> 0 === (start & mask) >>> 0;
+  });
+}
+
+function isPrivateIpv6(address: string): boolean {
+  if (address === "::" || address === "::1") {
+    return true;
+  }
+  // IPv4-mapped (::ffff:a.b.c.d, normalized by URL to ::ffff:xxxx:xxxx)
+  const mapped = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(address);
+  if (mapped) {
+    const high = parseInt(mapped[1], 16);
+    const low = parseInt(mapped[2], 16);
+    return isPrivateIpv4(
+      [high >> 8, high & 0xff, low >> 8, low & 0xff].join("."),
+    );
+  }
+  // Unique local fc00::/7, link-local fe80::/10, multicast ff00::/8
+  return /^(f[cd]|fe[89ab]|ff)[0-9a-f]{0,2}:/.test(address);
+}
+
+/**
+ * Whether a URL's host may be on the public internet; URL has already
+ * normalized IPv4 literals (e.g. "0x7f.1" to "127.0.0.1") and lower-cased
+ * the name
+ */
+export function isPublicLinkHost(url: URL): boolean {
+  const host = url.hostname.replace(/\.$/, "");
+  if (host.startsWith("[")) {
+    return !isPrivateIpv6(host.slice(1, -1));
+  }
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(host)) {
+    return !isPrivateIpv4(host);
+  }
+  return (
+    host.includes(".") &&
+    host !== "localhost" &&
+    !PRIVATE_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix))
+  );
+}
+
+function failure(error: KBLinkError): LinkProbe {
+  return {
+    link_status: null,
+    link_redirect_url: null,
+    link_redirect_permanent: false,
+    link_error: error,
+  };
+}
+
+async function send(
+  fetcher: LinkFetch,
+  url: string,
+  method: "HEAD" | "GET",
+  timeoutMs: number,
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetcher(url, {
+      method,
+      redirect: "manual",
+      headers: { "User-Agent": LINK_CHECK_USER_AGENT },
+      signal: controller.signal,
+    });
+    // Only the status line and headers matter
+    await response.body?.cancel().catch(() => undefined);
+    return response;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function request(
+  fetcher: LinkFetch,
+  url: string,
+  timeoutMs: number,
+): Promise<Response> {
+  const response = await send(fetcher, url, "HEAD", timeoutMs);
+  return HEAD_UNSUPPORTED_STATUSES.includes(response.status)
+    ? send(fetcher, url, "GET", timeoutMs)
+    : response;
+}
+
+function isTimeout(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === "AbortError";
+}
+
+/**
+ * Request a URL and report where it ends up
+ */
+export async function probeLink(
+  url: string,
+  options: LinkCheckOptions = {},
+): Promise<LinkProbe> {
+  const fetcher: LinkFetch =
+    options.fetch ?? ((input, init) => fetch(input, init));
+  const timeoutMs = options.timeoutMs ?? LINK_CHECK_TIMEOUT_MS;
+  const maxRedirects = options.maxRedirects ?? MAX_LINK_REDIRECTS;
+
+  let start: URL;
+  try {
+    start = new URL(url);
+  } catch {
+    return failure("invalid_url");
+  }
+  if (start.protocol !== "http:" && start.protocol !== "https:") {
+    return failure("invalid_url");
+  }
+  if (!isPublicLinkHost(start)) {
+    return failure("private_host");
+  }
+
+  let current = start;
+  let permanent = true;
+  for (let hop = 0; hop <= maxRedirects; hop++) {
+    let response: Response;
+    try {
+      response = await request(fetcher, current.href, timeoutMs);
+    } catch (error) {
+      return failure(isTimeout(error) ? "timeout" : "network_error");
+    }
+
+    const location = response.headers.get("Location");
+    if (!REDIRECT_STATUSES.includes(response.status) || !location) {
+      const redirected = current.href !== start.href;
+      return {
+        link_status: response.status,
+        link_redirect_url: redirected ? current.href : null,
+        link_redirect_permanent: redirected && permanent,
+        link_error: null,
+      };
+    }
+
+    permanent &&= PERMANENT_REDIRECT_STATUSES.includes(response.status);
+    try {
+      current = new URL(location, current);
+    } catch {
+      return failure("invalid_url");
+    }
+    if (current.protocol !== "http:" && current.protocol !== "https:") {
+      return failure("invalid_url");
+    }
+    if (!isPublicLinkHost(current)) {
+      return failure("private_host");
+    }
+  }
+
+  return failure("too_many_redirects");
+}
+
+/**
+ * Summarise the stored check of an entry
+ */
+export function getKbLinkHealth(fields: KBLinkCheckFields): KBLinkHealth {
+  if (!fields.link_checked_at) {
+    return "unchecked";
+  }
+  if (
+    fields.link_error ||
+    (fields.link_status !== null &&
+      fields.link_status >= 400 &&
+      !REFUSED_STATUSES.includes(fields.link_status))
+  ) {
+    return "broken";
+  }
+  if (fields.link_redirect_permanent && fields.link_redirect_url) {
+    return "moved";
+  }
+  return "ok";
+}
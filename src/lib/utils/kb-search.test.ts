@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import {
+  decodeKbCursor,
+  encodeKbCursor,
+  parseTagList,
+  splitHighlights,
+} from "./kb-search";
+import type { KBListItemDTO } from "../../types/types";
+
+const ID = "11111111-1111-4111-8111-111111111111";
+
+const entry: KBListItemDTO = {
+  id: ID,
+  user_id: "user-1",
+  title: "Testing, (really) fast",
+  url_original: "https://example.com",
+  url_canonical: "https://example.com",
+  tags: [],
+  is_public: true,
+  created_at: "2025-01-01T10:00:00.000Z",
+  updated_at: "2025-02-01T10:00:00.000Z",
+  link_status: null,
+  link_redirect_url: null,
+  link_redirect_permanent: false,
+  link_error: null,
+  link_checked_at: null,
+  rank: 0.0607927,
+};
+
+describe("kb-search", () => {
+  describe("encodeKbCursor / decodeKbCursor", () => {
+    it("should keep the updated_at,id format for the default sort", () => {
+      expect(encodeKbCursor("updated", entry)).toBe(
+        `2025-02-01T10:00:00.000Z,${ID}`,
+      );
+    });
+
+    it.each(["relevance", "updated", "created", "title"] as const)(
+      "should round-trip the %s sort key",
+      (sort) => {
+        const cursor = decodeKbCursor(sort, encodeKbCursor(sort, entry));
+        expect(cursor?.id).toBe(ID);
+      },
+    );
+
+    it("should encode titles so commas do not split the cursor", () => {
+      const cursor = encodeKbCursor("title", entry);
+      expect(cursor.split(",")).toHaveLength(2);
+      expect(decodeKbCursor("title", cursor)?.value).toBe(entry.title);
+    });
+
+    it("should keep the rank as written", () => {
+      expect(decodeKbCursor("relevance", `0.0607927,${ID}`)?.value).toBe(
+        "0.0607927",
+      );
+    });
+
+    it("should accept numeric ids", () => {
+      expect(decodeKbCursor("updated", "2024-01-01T00:00:00Z,1")).toEqual({
+        value: "2024-01-01T00:00:00Z",
+        id: "1",
+      });
+    });
+
+    it("should reject cursors of another sort or malformed cursors", () => {
+      expect(decodeKbCursor("updated", `abc,${ID}`)).toBeNull();
+      expect(decodeKbCursor("relevance", `2025-01-01,${ID}`)).toBeNull();
+      expect(decodeKbCursor("title", `%E0%A4%A,${ID}`)).toBeNull();
+      expect(decodeKbCursor("updated", "2025-01-01T00:00:00Z")).toBeNull();
+      expect(decodeKbCursor("updated", "2025-01-01T00:00:00Z,x,y")).toBeNull();
+      expect(decodeKbCursor("updated", "2025-01-01T00:00:00Z,nope")).toBeNull();
+    });
+  });
+
+  describe("parseTagList", () => {
+    it("should trim, drop empty and deduplicate tags", () => {
+      expect(parseTagList(" api, ui,,api ,")).toEqual(["api", "ui"]);
+    });
+  });
+
+  describe("splitHighlights", () => {
+    it("should split marked words from plain text", () => {
+      expect(
+        splitHighlights("Flaky <mark>tests</mark> in <mark>CI</mark>"),
+      ).toEqual([
+        { text: "Flaky ", highlighted: false },
+        { text: "tests", highlighted: true },
+        { text: " in ", highlighted: false },
+        { text: "CI", highlighted: true },
+      ]);
+    });
+
+    it("should keep text without markers or with an unclosed marker", () => {
+      expect(splitHighlights("plain")).toEqual([
+        { text: "plain", highlighted: false },
+      ]);
+      expect(splitHighlights("a <mark>b")).toEqual([
+        { text: "a <mark>b", highlighted: false },
+      ]);
+    });
+
+    it("should not interpret other markup", () => {
+      expect(
+        splitHighlights("<img src=x onerror=alert(1)> <mark>xss</mark>"),
+      ).toEqual([
+        { text: "<img src=x onerror=alert(1)> ", highlighted: false },
+        { text: "xss", highlighted: true },
+      ]);
+    });
+  });
+});
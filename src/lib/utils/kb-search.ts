@@ -0,0 +1,124 @@
+import type { KBListItemDTO, KBSortOrder } from "../../types/types";
+
+/**
+ * Helpers for KB search (GET /api/kb/entries): sort-aware keyset cursors,
+ * tag lists from query strings and highlighted search snippets.
+ */
+
+export const KB_SORT_ORDERS: readonly [KBSortOrder, ...KBSortOrder[]] = [
+  "relevance",
+  "updated",
+  "created",
+  "title",
+];
+
+/** Tags accepted in one `tags` filter */
+export const MAX_KB_TAG_FILTERS = 20;
+
+/** Markers ts_headline puts around matched words in `snippet` */
+export const KB_HIGHLIGHT_START = "<mark>";
+export const KB_HIGHLIGHT_END = "</mark>";
+
+export interface KbCursor {
+  /** Sort key of the last item: timestamp, rank or title */
+  value: string;
+  id: string;
+}
+
+const ID_REGEX =
+  /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|\d+)$/i;
+
+/**
+ * Cursor of the item a page ends with, as "<sort key>,<id>". Titles are
+ * URI-encoded so the key never contains the separator; "updated" keeps the
+ * historical "updated_at,id" format.
+ */
+export function encodeKbCursor(sort: KBSortOrder, item: KBListItemDTO): string {
+  switch (sort) {
+    case "relevance":
+      return `${item.rank ?? 0},${item.id}`;
+    case "created":
+      return `${item.created_at},${item.id}`;
+    case "title":
+      return `${encodeURIComponent(item.title)},${item.id}`;
+    default:
+      return `${item.updated_at},${item.id}`;
+  }
+}
+
+/**
+ * Parse a cursor produced by encodeKbCursor for the same sort order
+ * @returns null when the cursor is malformed or belongs to another sort
+ */
+export function decodeKbCursor(
+  sort: KBSortOrder,
+  cursor: string,
+): KbCursor | null {
+  const parts = cursor.split(",");
+  if (parts.length !== 2) return null;
+
+  const [rawValue, id] = parts;
+  if (!rawValue || !ID_REGEX.test(id)) return null;
+
+  switch (sort) {
+    case "relevance":
+      return Number.isFinite(Number(rawValue)) ? { value: rawValue, id } : null;
+    case "title":
+      try {
+        return { value: decodeURIComponent(rawValue), id };
+      } catch {
+        return null;
+      }
+    default:
+      return isNaN(new Date(rawValue).getTime())
+        ? null
+        : { value: rawValue, id };
+  }
+}
+
+/**
+ * Split a comma-separated `tags` query value into unique, trimmed tags
+ */
+export function parseTagList(value: string): string[] {
+  const tags = value
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+  return [...new Set(tags)];
+}
+
+export interface HighlightPart {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Split a search snippet into plain and highlighted parts, so it can be
+ * rendered as text instead of HTML
+ */
+export function splitHighlights(snippet: string): HighlightPart[] {
+  const parts: HighlightPart[] = [];
+  let rest = snippet;
+
+  while (rest) {
+    const start = rest.indexOf(KB_HIGHLIGHT_START);
+    const end =
+      start === -1
+        ? -1
+        : rest.indexOf(KB_HIGHLIGHT_END, start + KB_HIGHLIGHT_START.length);
+    if (end === -1) {
+      parts.push({ text: rest, highlighted: false });
+      break;
+    }
+    if (start > 0) {
+      parts.push({ text: rest.slice(0, start), highlighted: false });
+    }
+    parts.push({
+      text: rest.slice(start + KB_HIGHLIGHT_START.length, end),
+      highlighted: true,
+    });
+    rest = rest.slice(end + KB_HIGHLIGHT_END.length);
+  }
+
+  return parts;
+}
@@ -0,0 +1,89 @@
+/**
+ * Reply of the stub for one URL:
+ * - a status code, e.g. 404
+ * - a response, with a Location header for redirects; `head` overrides the
+ *   status of HEAD requests (e.g. 405 for servers without HEAD support)
+ * - timeout: never answers; rejects when the request signal aborts
+ * - network_error: rejects like fetch does for DNS or connection failures
+ */
+export type StubLinkReply =
+  | number
+  | { status: number; location?: string; head?: number }
+  | "timeout"
+  | "network_error";
+
+export interface StubLinkFetcherOptions {
+  /** Replies by exact URL */
+  routes?: Record<string, StubLinkReply>;
+  /** Reply for URLs without a route (default: 200) */
+  fallback?: StubLinkReply;
+}
+
+/**
+ * Request as seen by the stub, for assertions in tests
+ */
+export interface StubLinkRequest {
+  url: string;
+  method: string;
+}
+
+/**
+ * Offline stand-in for the network in link checks.
+ *
+ * Pass `stub.fetch` as the checker's `fetch` option; it answers from a
+ * fixed route table and records every request in `requests`.
+ */
+export class StubLinkFetcher {
+  readonly requests: StubLinkRequest[] = [];
+  private routes: Map<string, StubLinkReply>;
+  private fallback: StubLinkReply;
+
+  constructor(options: StubLinkFetcherOptions = {}) {
+    this.routes = new Map(Object.entries(options.routes ?? {}));
+    this.fallback = options.fallback ?? 200;
+  }
+
+  /** Add or replace the reply for a URL */
+  route(url: string, reply: StubLinkReply): void {
+    this.routes.set(url, reply);
+  }
+
+  fetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const method = init.method ?? "GET";
+    this.requests.push({ url, method });
+
+    const reply = this.routes.get(url) ?? this.fallback;
+    if (reply === "timeout") {
+      return this.hang(init.signal);
+    }
+    if (reply === "network_error") {
+      throw new TypeError("fetch failed");
+    }
+
+    const { status, location, head } =
+      typeof reply === "number" ? { status: reply } : reply;
+    const headers = new Headers();
+    if (location) {
+      headers.set("Location", location);
+    }
+    return new Response(null, {
+      status: method === "HEAD" && head ? head : status,
+      headers,
+    });
+  };
+
+  private hang(signal?: AbortSignal | null): Promise<Response> {
+    return new Promise((_, reject) => {
+      const abort = () =>
+        reject(
+          signal?.reason ??
+            new DOMException("The operation was aborted.", "AbortError"),
+        );
+      if (signal?.aborted) {
+        abort();
+        return;
+      }
+      signal?.addEventListener("abort", abort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { calculateLuhnCheckDigit, isValidLuhn } from "./luhn";
+
+describe("Luhn Utilities", () => {
+  describe("calculateLuhnCheckDigit", () => {
+    it("should match the canonical Luhn example", () => {
+      expect(calculateLuhnCheckDigit("7992739871")).toBe(3);
+    });
+
+    it("should compute check digits for known test card numbers", () => {
+      expect(calculateLuhnCheckDigit("411111111111111")).toBe(1);
+      expect(calculateLuhnCheckDigit("555555555555444")).toBe(4);
+    });
+
+    it("should return 0 when the sum is already a multiple of 10", () => {
+      expect(calculateLuhnCheckDigit("0")).toBe(0);
+    });
+  });
+
+  describe("isValidLuhn", () => {
+    it("should accept valid numbers", () => {
+      expect(isValidLuhn("79927398713")).toBe(true);
+      expect(isValidLuhn("4111111111111111")).toBe(true);
+      expect(isValidLuhn("378282246310005")).toBe(true);
+    });
+
+    it("should reject numbers with a wrong check digit", () => {
+      expect(isValidLuhn("79927398710")).toBe(false);
+      expect(isValidLuhn("4111111111111112")).toBe(false);
+    });
+
+    it("should reject non-numeric or too short input", () => {
+      expect(isValidLuhn("")).toBe(false);
+      expect(isValidLuhn("7")).toBe(false);
+      expect(isValidLuhn("4111-1111-1111-1111")).toBe(false);
+    });
+  });
+});
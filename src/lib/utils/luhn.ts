@@ -0,0 +1,39 @@
+/**
+ * Calculate the Luhn (mod-10) check digit for a numeric payload
+ * Doubles every second digit starting from the rightmost payload digit,
+ * subtracts 9 from results above 9, and returns the digit that brings
+ * the total sum to a multiple of 10.
+ *
+ * @param payload - Numeric string without the check digit
+ * @returns Single check digit (0-9)
+ *
+ * @example
+ * calculateLuhnCheckDigit('7992739871') // => 3
+ */
+export function calculateLuhnCheckDigit(payload: string): number {
+  let sum = 0;
+  for (let i = 0; i < payload.length; i++) {
+    let digit = parseInt(payload[payload.length - 1 - i], 10);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Check whether a numeric string passes the Luhn checksum
+ *
+ * @param value - Full number including the trailing check digit
+ * @returns true if the Luhn checksum is valid
+ */
+export function isValidLuhn(value: string): boolean {
+  if (!/^\d{2,}$/.test(value)) {
+    return false;
+  }
+  const payload = value.slice(0, -1);
+  const checkDigit = parseInt(value[value.length - 1], 10);
+  return calculateLuhnCheckDigit(payload) === checkDigit;
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { parseInline, parseMarkdown } from "./markdown";
+
+describe("markdown", () => {
+  describe("parseInline", () => {
+    it("should parse code, bold, italic and links", () => {
+      expect(
+        parseInline("Run `npm test` **now**, *maybe* see [docs](https://x.io)"),
+      ).toEqual([
+        { type: "text", text: "Run " },
+        { type: "code", text: "npm test" },
+        { type: "text", text: " " },
+        { type: "strong", children: [{ type: "text", text: "now" }] },
+        { type: "text", text: ", " },
+        { type: "em", children: [{ type: "text", text: "maybe" }] },
+        { type: "text", text: " see " },
+        {
+          type: "link",
+          href: "https://x.io",
+          children: [{ type: "text", text: "docs" }],
+        },
+      ]);
+    });
+
+    it("should not treat underscores inside words as emphasis", () => {
+      expect(parseInline("snake_case_name and _this_")).toEqual([
+        { type: "text", text: "snake_case_name and " },
+        { type: "em", children: [{ type: "text", text: "this" }] },
+      ]);
+    });
+
+    it("should keep only the label of links with unsafe schemes", () => {
+      expect(parseInline("[click](javascript:alert(1))")).toEqual([
+        { type: "text", text: "click)" },
+      ]);
+      expect(parseInline("[page](/relative)")).toEqual([
+        { type: "text", text: "page" },
+      ]);
+    });
+
+    it("should keep markup-looking text as plain text", () => {
+      expect(parseInline("<img src=x onerror=alert(1)>")).toEqual([
+        { type: "text", text: "<img src=x onerror=alert(1)>" },
+      ]);
+    });
+
+    it("should turn newlines into breaks", () => {
+      expect(parseInline("a\nb")).toEqual([
+        { type: "text", text: "a" },
+        { type: "break" },
+        { type: "text", text: "b" },
+      ]);
+    });
+  });
+
+  describe("parseMarkdown", () => {
+    it("should split paragraphs on blank lines", () => {
+      expect(parseMarkdown("one\ntwo\n\nthree")).toEqual([
+        {
+          type: "paragraph",
+          children: [
+            { type: "text", text: "one" },
+            { type: "break" },
+            { type: "text", text: "two" },
+          ],
+        },
+        { type: "paragraph", children: [{ type: "text", text: "three" }] },
+      ]);
+    });
+
+    it("should parse headings, lists and quotes", () => {
+      const blocks = parseMarkdown(
+        "## Repro\n1. open\n2. click\n- flaky\n* slow\n> quoted\n> more",
+      );
+
+      expect(blocks.map((block) => block.type)).toEqual([
+        "heading",
+        "list",
+        "list",
+        "quote",
+      ]);
+      expect(blocks[0]).toMatchObject({ level: 2 });
+      expect(blocks[1]).toMatchObject({ ordered: true });
+      expect(blocks[2]).toMatchObject({ ordered: false });
+      expect((blocks[2] as { items: unknown[] }).items).toHaveLength(2);
+    });
+
+    it("should keep fenced code verbatim", () => {
+      expect(
+        parseMarkdown("```ts\nconst a = **b**;\n\n# not a heading\n```\nafter"),
+      ).toEqual([
+        { type: "code", text: "const a = **b**;\n\n# not a heading" },
+        { type: "paragraph", children: [{ type: "text", text: "after" }] },
+      ]);
+    });
+
+    it("should close an unterminated code block at the end", () => {
+      expect(parseMarkdown("```\ncode")).toEqual([
+        { type: "code", text: "code" },
+      ]);
+    });
+
+    it("should normalise Windows line endings", () => {
+      expect(parseMarkdown("a\r\n\r\nb")).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Minimal Markdown parser for user notes
+ *
+ * Produces a small tree that components render as React elements, so note
+ * bodies never reach the DOM as HTML. Supported: paragraphs (single line
+ * breaks kept), #–### headings, - / * / 1. lists, > quotes, ``` code blocks,
+ * `code`, **bold**, *italic* / _italic_ and [links](https://…). Anything
+ * else stays plain text.
+ */
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "em"; children: MarkdownInline[] }
+  | { type: "link"; href: string; children: MarkdownInline[] }
+  | { type: "break" };
+
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "heading"; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: "code"; text: string }
+  | { type: "list"; ordered: boolean; items: MarkdownInline[][] }
+  | { type: "quote"; children: MarkdownInline[] };
+
+const FENCE = /^```/;
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const BULLET = /^\s*[-*]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+
+/** Earliest inline token: code, bold, italic (* or _) or link */
+const INLINE_TOKEN =
+  /`([^`]+)`|\*\*(.+?)\*\*|\*([^*\s][^*]*?)\*|(?<![\w])_([^_\s][^_]*?)_(?![\w])|\[([^\]]+)\]\(([^)\s]+)\)/;
+
+const SAFE_LINK = /^(https?:\/\/|mailto:)/i;
+
+function isBlockStart(line: string): boolean {
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    BULLET.test(line) ||
+    NUMBERED.test(line) ||
+    QUOTE.test(line)
+  );
+}
+
+/**
+ * Parse inline formatting of one block; newlines become line breaks
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  text.split("\n").forEach((line, index) => {
+    if (index > 0) nodes.push({ type: "break" });
+    nodes.push(...parseLine(line));
+  });
+  return nodes;
+}
+
+function parseLine(line: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let rest = line;
+
+  while (rest) {
+    const match = INLINE_TOKEN.exec(rest);
+    if (!match) {
+      nodes.push({ type: "text", text: rest });
+      break;
+    }
+    if (match.index > 0) {
+      nodes.push({ type: "text", text: rest.slice(0, match.index) });
+    }
+
+    const [token, code, strong, starEm, underscoreEm, label, href] = match;
+    if (code !== undefined) {
+      nodes.push({ type: "code", text: code });
+    } else if (strong !== undefined) {
+      nodes.push({ type: "strong", children: parseLine(strong) });
+    } else if (starEm !== undefined || underscoreEm !== undefined) {
+      nodes.push({
+        type: "em",
+        children: parseLine(starEm ?? underscoreEm),
+      });
+    } else if (SAFE_LINK.test(href)) {
+      nodes.push({ type: "link", href, children: parseLine(label) });
+    } else {
+      // Unsupported scheme (javascript:, relative paths): keep the label
+      nodes.push(...parseLine(label));
+    }
+
+    rest = rest.slice(match.index + token.length);
+  }
+
+  return mergeText(nodes);
+}
+
+/** Join adjacent text nodes left over from unmatched tokens */
+function mergeText(nodes: MarkdownInline[]): MarkdownInline[] {
+  return nodes.reduce<MarkdownInline[]>((merged, node) => {
+    const last = merged[merged.length - 1];
+    if (node.type === "text" && last?.type === "text") {
+      merged[merged.length - 1] = { type: "text", text: last.text + node.text };
+    } else {
+      merged.push(node);
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Parse a Markdown document into blocks
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // closing fence (or end of input)
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        level: heading[1].length as 1 | 2 | 3,
+        children: parseInline(heading[2]),
+      });
+      i++;
+      continue;
+    }
+
+    const listPattern = BULLET.test(line)
+      ? BULLET
+      : NUMBERED.test(line)
+        ? NUMBERED
+        : null;
+    if (listPattern) {
+      const items: MarkdownInline[][] = [];
+      let item: RegExpExecArray | null;
+      while (i < lines.length && (item = listPattern.exec(lines[i]))) {
+        items.push(parseInline(item[1]));
+        i++;
+      }
+      blocks.push({ type: "list", ordered: listPattern === NUMBERED, items });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      let quote: RegExpExecArray | null;
+      while (i < lines.length && (quote = QUOTE.exec(lines[i]))) {
+        quoted.push(quote[1]);
+        i++;
+      }
+      blocks.push({ type: "quote", children: parseInline(quoted.join("\n")) });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !isBlockStart(lines[i])) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({
+      type: "paragraph",
+      children: parseInline(paragraph.join("\n")),
+    });
+  }
+
+  return blocks;
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateSteuerIdCheckDigit,
+  encodePeselDate,
+  encodeSvnrDate,
+  formatNip,
+  formatSteuerId,
+  formatSvnr,
+  hasValidSteuerIdDigits,
+  parseIsoDate,
+  randomBirthDate,
+  validateNationalId,
+} from "./national-id";
+import { splitmix32 } from "./number";
+
+describe("national-id", () => {
+  describe("parseIsoDate", () => {
+    it("should parse calendar dates", () => {
+      expect(parseIsoDate("2000-02-29")).toEqual({
+        year: 2000,
+        month: 2,
+        day: 29,
+      });
+    });
+
+    it.each(["1900-02-29", "2001-13-01", "2001-1-01", "01.01.2001"])(
+      "should reject %s",
+      (value) => {
+        expect(parseIsoDate(value)).toBeNull();
+      },
+    );
+  });
+
+  describe("randomBirthDate", () => {
+    it("should pick adult birth dates deterministically", () => {
+      for (let i = 0; i < 50; i++) {
+        const date = randomBirthDate(splitmix32(i));
+        expect(date >= "1950-01-01" && date <= "2005-12-31").toBe(true);
+        expect(randomBirthDate(splitmix32(i))).toBe(date);
+      }
+    });
+  });
+
+  describe("PESEL", () => {
+    it("should decode birth date and sex of a valid PESEL", () => {
+      expect(validateNationalId("pesel", "44051401359")).toEqual({
+        kind: "pesel",
+        normalized: "44051401359",
+        valid: true,
+        birth_date: "1944-05-14",
+        sex: "male",
+      });
+    });
+
+    it("should encode the century in the month", () => {
+      expect(encodePeselDate("1899-12-31")).toBe("999231");
+      expect(encodePeselDate("1950-01-15")).toBe("500115");
+      expect(encodePeselDate("2005-03-01")).toBe("052301");
+      expect(encodePeselDate("2150-06-30")).toBe("504630");
+      expect(encodePeselDate("2299-12-31")).toBe("997231");
+      expect(() => encodePeselDate("2300-01-01")).toThrow();
+    });
+
+    it("should decode 21st century dates and female sex", () => {
+      // 2005-03-01, serial 123, sex digit 4
+      expect(validateNationalId("pesel", "05230112341")).toMatchObject({
+        valid: true,
+        birth_date: "2005-03-01",
+        sex: "female",
+      });
+    });
+
+    it.each([
+      ["4405140135", "PESEL must be exactly 11 digits"],
+      ["44053201355", "Invalid PESEL birth date"],
+      ["44051401358", "Invalid PESEL check digit"],
+    ])("should reject %s", (value, reason) => {
+      expect(validateNationalId("pesel", value)).toMatchObject({
+        valid: false,
+        reason,
+      });
+    });
+  });
+
+  describe("NIP", () => {
+    it("should accept a valid NIP with separators", () => {
+      expect(validateNationalId("nip", "123-456-32-18")).toEqual({
+        kind: "nip",
+        normalized: "1234563218",
+        valid: true,
+      });
+    });
+
+    it("should reject a wrong check digit", () => {
+      expect(validateNationalId("nip", "1234563217").reason).toBe(
+        "Invalid NIP check digit",
+      );
+    });
+
+    it("should format as 123-456-32-18", () => {
+      expect(formatNip("1234563218")).toBe("123-456-32-18");
+    });
+  });
+
+  describe("REGON", () => {
+    it.each(["123456785", "12345678512347"])("should accept %s", (value) => {
+      expect(validateNationalId("regon", value).valid).toBe(true);
+    });
+
+    it.each([
+      ["1234567", "REGON must be 9 or 14 digits"],
+      ["123456784", "Invalid REGON check digit"],
+      ["12345678512346", "Invalid REGON-14 local unit check digit"],
+    ])("should reject %s", (value, reason) => {
+      expect(validateNationalId("regon", value).reason).toBe(reason);
+    });
+  });
+
+  describe("Steuer-IdNr", () => {
+    it("should accept a valid number with spaces", () => {
+      expect(validateNationalId("steuerid", "86 095 742 719")).toEqual({
+        kind: "steuerid",
+        normalized: "86095742719",
+        valid: true,
+      });
+    });
+
+    it("should calculate the ISO 7064 MOD 11,10 check digit", () => {
+      expect(calculateSteuerIdCheckDigit("8609574271")).toBe(9);
+    });
+
+    it("should require exactly one repeated digit", () => {
+      expect(hasValidSteuerIdDigits("8609574271")).toBe(true);
+      expect(hasValidSteuerIdDigits("1234567890")).toBe(false);
+      expect(hasValidSteuerIdDigits("1122345678")).toBe(false);
+      expect(hasValidSteuerIdDigits("1213456781")).toBe(true);
+      expect(hasValidSteuerIdDigits("1112345678")).toBe(false);
+    });
+
+    it.each([
+      ["0609574271", "Steuer-IdNr must be exactly 11 digits"],
+      ["06095742719", "Steuer-IdNr cannot start with 0"],
+      ["12345678903", "Exactly one digit must repeat in the first 10 digits"],
+      ["86095742718", "Invalid Steuer-IdNr check digit"],
+    ])("should reject %s", (value, reason) => {
+      expect(validateNationalId("steuerid", value).reason).toBe(reason);
+    });
+
+    it("should format as 86 095 742 719", () => {
+      expect(formatSteuerId("86095742719")).toBe("86 095 742 719");
+    });
+  });
+
+  describe("SVNR", () => {
+    it("should accept a valid number", () => {
+      expect(validateNationalId("svnr", "1237 010180")).toEqual({
+        kind: "svnr",
+        normalized: "1237010180",
+        valid: true,
+      });
+    });
+
+    it.each([
+      ["123701018", "SVNR must be exactly 10 digits"],
+      ["0237010180", "SVNR serial number cannot start with 0"],
+      ["1237310280", "Invalid SVNR birth date"],
+      ["1238010180", "Invalid SVNR check digit"],
+    ])("should reject %s", (value, reason) => {
+      expect(validateNationalId("svnr", value).reason).toBe(reason);
+    });
+
+    it("should encode and format the birth date part", () => {
+      expect(encodeSvnrDate("1980-01-01")).toBe("010180");
+      expect(formatSvnr("1237010180")).toBe("1237 010180");
+    });
+  });
+});
@@ -0,0 +1,350 @@
+import type {
+  NationalIdKind,
+  NationalIdValidationResponse,
+  Sex,
+} from "../../types/types";
+import { randomInt } from "./number";
+
+/**
+ * Check digits of Polish, German and Austrian national identifiers.
+ *
+ * Each identifier has a calculate function for its check digit (shared by
+ * the generators) and a validate function that explains why a value fails.
+ * A calculate function returns 10 when no check digit exists for the
+ * payload; such numbers are never issued.
+ */
+
+export const NATIONAL_ID_KINDS: readonly NationalIdKind[] = [
+  "pesel",
+  "nip",
+  "regon",
+  "steuerid",
+  "svnr",
+];
+
+/** Validation result before the kind and normalized input are attached */
+type NationalIdCheck = Omit<
+  NationalIdValidationResponse,
+  "kind" | "normalized"
+>;
+
+/** Earliest and latest birth year a PESEL can encode */
+export const PESEL_MIN_YEAR = 1800;
+export const PESEL_MAX_YEAR = 2299;
+
+function weightedSum(digits: string, weights: readonly number[]): number {
+  return weights.reduce(
+    (acc, weight, i) => acc + weight * Number(digits[i]),
+    0,
+  );
+}
+
+/**
+ * Remove the separators people type into identifiers (spaces, hyphens)
+ */
+export function normalizeNationalId(value: string): string {
+  return value.replace(/[\s-]/g, "");
+}
+
+/**
+ * Parse a YYYY-MM-DD calendar date
+ * @returns Date parts, or null for malformed or non-existent dates
+ */
+export function parseIsoDate(
+  value: string,
+): { year: number; month: number; day: number } | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return { year, month, day };
+}
+
+function toIsoDate(year: number, month: number, day: number): string {
+  return [
+    String(year).padStart(4, "0"),
+    String(month).padStart(2, "0"),
+    String(day).padStart(2, "0"),
+  ].join("-");
+}
+
+/** Birth dates picked when none is requested: adults born 1950-2005 */
+const BIRTH_DATE_RANGE = [Date.UTC(1950, 0, 1), Date.UTC(2005, 11, 31)];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Pick a random adult birth date (YYYY-MM-DD)
+ */
+export function randomBirthDate(rng: () => number): string {
+  const [from, to] = BIRTH_DATE_RANGE;
+  const day = randomInt(rng, 0, (to - from) / DAY_MS);
+  return new Date(from + day * DAY_MS).toISOString().slice(0, 10);
+}
+
+// ---------------------------------------------------------------------------
+// PESEL: YYMMDD + serial 3 + sex 1 + check 1, century encoded in the month
+// ---------------------------------------------------------------------------
+
+const PESEL_WEIGHTS = [1, 3, 7, 9, 1, 3, 7, 9, 1, 3];
+
+/** Month offset per century: 1800s +80, 1900s +0, 2000s +20, ... */
+const PESEL_CENTURY_OFFSETS: Record<number, number> = {
+  18: 80,
+  19: 0,
+  20: 20,
+  21: 40,
+  22: 60,
+};
+
+export function calculatePeselCheckDigit(payload: string): number {
+  return (10 - (weightedSum(payload, PESEL_WEIGHTS) % 10)) % 10;
+}
+
+/**
+ * Encode a YYYY-MM-DD birth date as the first six PESEL digits
+ */
+export function encodePeselDate(birthDate: string): string {
+  const date = parseIsoDate(birthDate);
+  if (!date || date.year < PESEL_MIN_YEAR || date.year > PESEL_MAX_YEAR) {
+    throw new Error(`Birth date ${birthDate} cannot be encoded in a PESEL`);
+  }
+  const offset = PESEL_CENTURY_OFFSETS[Math.floor(date.year / 100)];
+  return [date.year % 100, date.month + offset, date.day]
+    .map((part) => String(part).padStart(2, "0"))
+    .join("");
+}
+
+function decodePeselDate(pesel: string): string | null {
+  const encodedMonth = Number(pesel.slice(2, 4));
+  const offset = Math.floor(encodedMonth / 20) * 20;
+  const century = Object.entries(PESEL_CENTURY_OFFSETS).find(
+    ([, value]) => value === offset,
+  )?.[0];
+  if (!century) {
+    return null;
+  }
+  const isoDate = toIsoDate(
+    Number(century) * 100 + Number(pesel.slice(0, 2)),
+    encodedMonth - offset,
+    Number(pesel.slice(4, 6)),
+  );
+  return parseIsoDate(isoDate) ? isoDate : null;
+}
+
+export function validatePesel(value: string): NationalIdCheck {
+  if (!/^\d{11}$/.test(value)) {
+    return { valid: false, reason: "PESEL must be exactly 11 digits" };
+  }
+  const birthDate = decodePeselDate(value);
+  if (!birthDate) {
+    return { valid: false, reason: "Invalid PESEL birth date" };
+  }
+  if (calculatePeselCheckDigit(value) !== Number(value[10])) {
+    return { valid: false, reason: "Invalid PESEL check digit" };
+  }
+  const sex: Sex = Number(value[9]) % 2 === 0 ? "female" : "male";
+  return { valid: true, birth_date: birthDate, sex };
+}
+
+// ---------------------------------------------------------------------------
+// NIP: tax office 3 + number 6 + check 1
+// ---------------------------------------------------------------------------
+
+const NIP_WEIGHTS = [6, 5, 7, 2, 3, 4, 5, 6, 7];
+
+export function calculateNipCheckDigit(payload: string): number {
+  return weightedSum(payload, NIP_WEIGHTS) % 11;
+}
+
+/**
+ * Format a NIP the way it is printed on invoices (123-456-32-18)
+ */
+export function formatNip(nip: string): string {
+  return nip.replace(/^(\d{3})(\d{3})(\d{2})(\d{2})$/, "$1-$2-$3-$4");
+}
+
+export function validateNip(value: string): NationalIdCheck {
+  if (!/^\d{10}$/.test(value)) {
+    return { valid: false, reason: "NIP must be exactly 10 digits" };
+  }
+  if (calculateNipCheckDigit(value) !== Number(value[9])) {
+    return { valid: false, reason: "Invalid NIP check digit" };
+  }
+  return { valid: true };
+}
+
+// ---------------------------------------------------------------------------
+// REGON: 9 digits (entity) or 14 digits (local unit = REGON-9 + 4 + check)
+// ---------------------------------------------------------------------------
+
+const REGON9_WEIGHTS = [8, 9, 2, 3, 4, 5, 6, 7];
+const REGON14_WEIGHTS = [2, 4, 8, 5, 0, 9, 7, 3, 6, 1, 2, 4, 8];
+
+/**
+ * Check digit for an 8-digit (REGON-9) or 13-digit (REGON-14) payload
+ * A remainder of 10 maps to 0, so every payload has a check digit.
+ */
+export function calculateRegonCheckDigit(payload: string): number {
+  const weights = payload.length === 8 ? REGON9_WEIGHTS : REGON14_WEIGHTS;
+  return (weightedSum(payload, weights) % 11) % 10;
+}
+
+export function validateRegon(value: string): NationalIdCheck {
+  if (!/^(\d{9}|\d{14})$/.test(value)) {
+    return { valid: false, reason: "REGON must be 9 or 14 digits" };
+  }
+  if (calculateRegonCheckDigit(value.slice(0, 8)) !== Number(value[8])) {
+    return { valid: false, reason: "Invalid REGON check digit" };
+  }
+  if (
+    value.length === 14 &&
+    calculateRegonCheckDigit(value.slice(0, 13)) !== Number(value[13])
+  ) {
+    return { valid: false, reason: "Invalid REGON-14 local unit check digit" };
+  }
+  return { valid: true };
+}
+
+// ---------------------------------------------------------------------------
+// Steuerliche Identifikationsnummer: 10 digits + ISO 7064 MOD 11,10 check
+// ---------------------------------------------------------------------------
+
+export function calculateSteuerIdCheckDigit(payload: string): number {
+  let product = 10;
+  for (const digit of payload) {
+    const sum = (Number(digit) + product) % 10 || 10;
+    product = (sum * 2) % 11;
+  }
+  return (11 - product) % 10;
+}
+
+/**
+ * Digit distribution rule for the first ten digits: exactly one digit
+ * occurs twice or three times (not three times in a row), the rest once
+ */
+export function hasValidSteuerIdDigits(payload: string): boolean {
+  const counts = new Map<string, number>();
+  for (const digit of payload) {
+    counts.set(digit, (counts.get(digit) ?? 0) + 1);
+  }
+  const repeated = [...counts].filter(([, count]) => count > 1);
+  if (repeated.length !== 1) {
+    return false;
+  }
+  const [digit, count] = repeated[0];
+  return count === 2 || (count === 3 && !payload.includes(digit.repeat(3)));
+}
+
+/**
+ * Format a Steuer-IdNr the way it is printed on tax letters (86 095 742 719)
+ */
+export function formatSteuerId(steuerId: string): string {
+  return steuerId.replace(/^(\d{2})(\d{3})(\d{3})(\d{3})$/, "$1 $2 $3 $4");
+}
+
+export function validateSteuerId(value: string): NationalIdCheck {
+  if (!/^\d{11}$/.test(value)) {
+    return { valid: false, reason: "Steuer-IdNr must be exactly 11 digits" };
+  }
+  if (value[0] === "0") {
+    return { valid: false, reason: "Steuer-IdNr cannot start with 0" };
+  }
+  if (!hasValidSteuerIdDigits(value.slice(0, 10))) {
+    return {
+      valid: false,
+      reason: "Exactly one digit must repeat in the first 10 digits",
+    };
+  }
+  if (calculateSteuerIdCheckDigit(value.slice(0, 10)) !== Number(value[10])) {
+    return { valid: false, reason: "Invalid Steuer-IdNr check digit" };
+  }
+  return { valid: true };
+}
+
+// ---------------------------------------------------------------------------
+// Austrian SVNR: serial 3 + check 1 + birth date DDMMYY
+// ---------------------------------------------------------------------------
+
+const SVNR_WEIGHTS = [3, 7, 9, 0, 5, 8, 4, 2, 1, 6];
+
+/**
+ * Check digit for a 3-digit serial and a DDMMYY birth date
+ */
+export function calculateSvnrCheckDigit(
+  serial: string,
+  birthDate: string,
+): number {
+  return weightedSum(`${serial}0${birthDate}`, SVNR_WEIGHTS) % 11;
+}
+
+/**
+ * Encode a YYYY-MM-DD birth date as the DDMMYY part of an SVNR
+ */
+export function encodeSvnrDate(birthDate: string): string {
+  const date = parseIsoDate(birthDate);
+  if (!date) {
+    throw new Error(`Invalid birth date ${birthDate}`);
+  }
+  return [date.day, date.month, date.year % 100]
+    .map((part) => String(part).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Format an SVNR the way it is printed on the e-card (1237 010180)
+ */
+export function formatSvnr(svnr: string): string {
+  return svnr.replace(/^(\d{4})(\d{6})$/, "$1 $2");
+}
+
+export function validateSvnr(value: string): NationalIdCheck {
+  if (!/^\d{10}$/.test(value)) {
+    return { valid: false, reason: "SVNR must be exactly 10 digits" };
+  }
+  if (value[0] === "0") {
+    return { valid: false, reason: "SVNR serial number cannot start with 0" };
+  }
+  const [day, month] = [Number(value.slice(4, 6)), Number(value.slice(6, 8))];
+  // The century is not encoded; YY alone decides whether 29.02 exists
+  if (
+    !parseIsoDate(toIsoDate(2000 + (Number(value.slice(8)) % 4), month, day))
+  ) {
+    return { valid: false, reason: "Invalid SVNR birth date" };
+  }
+  if (
+    calculateSvnrCheckDigit(value.slice(0, 3), value.slice(4)) !==
+    Number(value[3])
+  ) {
+    return { valid: false, reason: "Invalid SVNR check digit" };
+  }
+  return { valid: true };
+}
+
+const VALIDATORS: Record<NationalIdKind, (value: string) => NationalIdCheck> = {
+  pesel: validatePesel,
+  nip: validateNip,
+  regon: validateRegon,
+  steuerid: validateSteuerId,
+  svnr: validateSvnr,
+};
+
+/**
+ * Validate a national identifier of the given kind
+ * Spaces and hyphens in the input are ignored.
+ */
+export function validateNationalId(
+  kind: NationalIdKind,
+  value: string,
+): NationalIdValidationResponse {
+  const normalized = normalizeNationalId(value);
+  return { kind, normalized, ...VALIDATORS[kind](normalized) };
+}
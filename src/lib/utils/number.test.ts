@@ -1,5 +1,11 @@
 import { describe, it, expect, vi } from "vitest";
-import { fnv1a32, splitmix32, generateDigits } from "./number";
+import {
+  fnv1a32,
+  splitmix32,
+  generateDigits,
+  randomInt,
+  pickOne,
+} from "./number";
 
 describe("Number Utilities", () => {
   describe("fnv1a32", () => {
@@ -348,6 +354,45 @@ describe("Number Utilities", () => {
     });
   });
 
+  describe("randomInt", () => {
+    it("should stay within the inclusive range", () => {
+      const rng = splitmix32(fnv1a32("range"));
+      for (let i = 0; i < 200; i++) {
+        const value = randomInt(rng, 3, 7);
+        expect(value).toBeGreaterThanOrEqual(3);
+        expect(value).toBeLessThanOrEqual(7);
+      }
+    });
+
+    it("should return min when min equals max", () => {
+      const rng = splitmix32(42);
+      expect(randomInt(rng, 5, 5)).toBe(5);
+    });
+
+    it("should be deterministic for the same seed", () => {
+      const a = splitmix32(fnv1a32("same"));
+      const b = splitmix32(fnv1a32("same"));
+      expect(randomInt(a, 0, 1000)).toBe(randomInt(b, 0, 1000));
+    });
+  });
+
+  describe("pickOne", () => {
+    it("should return an element of the list", () => {
+      const rng = splitmix32(7);
+      const items = ["a", "b", "c"] as const;
+      for (let i = 0; i < 50; i++) {
+        expect(items).toContain(pickOne(rng, items));
+      }
+    });
+
+    it("should be deterministic for the same seed", () => {
+      const items = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+      const a = splitmix32(fnv1a32("pick"));
+      const b = splitmix32(fnv1a32("pick"));
+      expect(pickOne(a, items)).toBe(pickOne(b, items));
+    });
+  });
+
   describe("integration", () => {
     describe("hash-based seeding", () => {
       it("should use fnv1a32 to seed RNG for reproducible sequences", () => {
@@ -56,3 +56,25 @@ export function generateDigits(rng: () => number, length: number): string {
   }
   return result;
 }
+
+/**
+ * Generate a random integer in the inclusive range [min, max]
+ * @param rng - RNG generator function
+ * @param min - Lower bound (inclusive)
+ * @param max - Upper bound (inclusive)
+ * @returns Integer between min and max
+ */
+export function randomInt(rng: () => number, min: number, max: number): number {
+  const span = max - min + 1;
+  return min + (rng() % span);
+}
+
+/**
+ * Pick a single element from a non-empty list using the provided RNG
+ * @param rng - RNG generator function
+ * @param items - Candidate items
+ * @returns One of the items
+ */
+export function pickOne<T>(rng: () => number, items: readonly T[]): T {
+  return items[rng() % items.length];
+}
@@ -0,0 +1,69 @@
+import type { Json } from "@/db/database.types";
+import type { CreateDraftCommand, DraftDTO, TemplateDTO } from "@/types/types";
+import { isBuiltinPresetId } from "./template-presets";
+
+/**
+ * Composer state stored in drafts.content.
+ * `template_ref` is the composer's template id, which may be a built-in
+ * preset id with no database row (then drafts.template_id stays null).
+ */
+export interface ReportDraftContent {
+  template_ref: string;
+  values: Record<string, string>;
+  attachments_text: string;
+}
+
+/**
+ * Build the autosave payload for the current composer state
+ */
+export function toReportDraftCommand(
+  template: Pick<TemplateDTO, "id" | "name">,
+  values: Record<string, string>,
+  attachmentsText: string,
+): CreateDraftCommand {
+  const content: ReportDraftContent = {
+    template_ref: template.id,
+    values,
+    attachments_text: attachmentsText,
+  };
+
+  return {
+    title: (values.title ?? "").trim().slice(0, 200) || template.name,
+    content: content as unknown as Json,
+    template_id: isBuiltinPresetId(template.id) ? null : template.id,
+  };
+}
+
+/**
+ * Read composer state back from a draft; null when the content was not
+ * written by the composer
+ */
+export function parseReportDraftContent(
+  draft: Pick<DraftDTO, "content">,
+): ReportDraftContent | null {
+  const content = draft.content;
+  if (!content || typeof content !== "object" || Array.isArray(content)) {
+    return null;
+  }
+
+  const { template_ref, values, attachments_text } = content;
+  if (
+    typeof template_ref !== "string" ||
+    !values ||
+    typeof values !== "object" ||
+    Array.isArray(values)
+  ) {
+    return null;
+  }
+
+  return {
+    template_ref,
+    values: Object.fromEntries(
+      Object.entries(values).filter(
+        (entry): entry is [string, string] => typeof entry[1] === "string",
+      ),
+    ),
+    attachments_text:
+      typeof attachments_text === "string" ? attachments_text : "",
+  };
+}
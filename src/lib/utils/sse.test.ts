@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { SSEParser, formatSSE, readSSEStream } from "./sse";
+import type { SSEMessage } from "./sse";
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+describe("formatSSE", () => {
+  it("encodes JSON data with the event name", () => {
+    expect(formatSSE("delta", { text: "a" })).toBe(
+      'event: delta\ndata: {"text":"a"}\n\n',
+    );
+  });
+
+  it("splits multi-line strings over data fields", () => {
+    expect(formatSSE("message", "a\nb")).toBe(
+      "event: message\ndata: a\ndata: b\n\n",
+    );
+  });
+});
+
+describe("SSEParser", () => {
+  it("parses events split across chunks and skips comments", () => {
+    const messages: SSEMessage[] = [];
+    const parser = new SSEParser((message) => messages.push(message));
+
+    parser.push(": OPENROUTER PROCESSING\n\nda");
+    parser.push('ta: {"a":1}\r');
+    parser.push("\n\r\nevent: done\ndata: x\ndata: y\n\n");
+
+    expect(messages).toEqual([
+      { event: "message", data: '{"a":1}' },
+      { event: "done", data: "x\ny" },
+    ]);
+  });
+
+  it("dispatches a trailing event on flush", () => {
+    const messages: SSEMessage[] = [];
+    const parser = new SSEParser((message) => messages.push(message));
+
+    parser.push("data: [DONE]");
+    expect(messages).toEqual([]);
+    parser.flush();
+
+    expect(messages).toEqual([{ event: "message", data: "[DONE]" }]);
+  });
+});
+
+describe("readSSEStream", () => {
+  it("reads a stream to the end", async () => {
+    const messages: SSEMessage[] = [];
+
+    await readSSEStream(
+      streamOf(formatSSE("delta", "a"), formatSSE("done", "b")),
+      (message) => messages.push(message),
+    );
+
+    expect(messages.map((message) => message.event)).toEqual(["delta", "done"]);
+  });
+
+  it("rethrows errors from the handler", async () => {
+    await expect(
+      readSSEStream(streamOf("data: {\n\n"), (message) =>
+        JSON.parse(message.data),
+      ),
+    ).rejects.toThrow(SyntaxError);
+  });
+});
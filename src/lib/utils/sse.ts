@@ -0,0 +1,112 @@
+/**
+ * Server-sent events (text/event-stream) encoding and parsing.
+ * Used both for OpenRouter's streamed completions and for our own
+ * /api/ai/stream responses.
+ */
+
+export interface SSEMessage {
+  /** "message" when the event has no `event:` field */
+  event: string;
+  data: string;
+}
+
+/**
+ * Encode one event; multi-line data is split over several `data:` fields
+ */
+export function formatSSE(event: string, data: unknown): string {
+  const payload = typeof data === "string" ? data : JSON.stringify(data);
+  const lines = payload.split("\n").map((line) => `data: ${line}`);
+  return `event: ${event}\n${lines.join("\n")}\n\n`;
+}
+
+/**
+ * Incremental parser: feed text chunks as they arrive, complete events are
+ * passed to onMessage. Comment lines (": keep-alive") are skipped.
+ */
+export class SSEParser {
+  private buffer = "";
+  private event = "";
+  private data: string[] = [];
+
+  constructor(private onMessage: (message: SSEMessage) => void) {}
+
+  push(chunk: string): void {
+    this.buffer += chunk;
+    // A trailing "\r" may be the first half of "\r\n"; keep it buffered
+    const lines = this.buffer.split(/\r\n|\r(?!$)|\n/);
+    // The last element is an incomplete line (or "" after a newline)
+    this.buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      this.processLine(line);
+    }
+  }
+
+  /** Dispatch an event left without the closing blank line */
+  flush(): void {
+    if (this.buffer) {
+      this.processLine(this.buffer.replace(/\r$/, ""));
+      this.buffer = "";
+    }
+    this.processLine("");
+  }
+
+  private processLine(line: string): void {
+    if (line === "") {
+      if (this.data.length > 0) {
+        this.onMessage({
+          event: this.event || "message",
+          data: this.data.join("\n"),
+        });
+      }
+      this.event = "";
+      this.data = [];
+      return;
+    }
+    if (line.startsWith(":")) {
+      return;
+    }
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) {
+      value = value.slice(1);
+    }
+
+    if (field === "event") {
+      this.event = value;
+    } else if (field === "data") {
+      this.data.push(value);
+    }
+  }
+}
+
+/**
+ * Read a text/event-stream body to the end. Errors thrown by onMessage
+ * cancel the body and are rethrown.
+ */
+export async function readSSEStream(
+  body: ReadableStream<Uint8Array>,
+  onMessage: (message: SSEMessage) => void,
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new SSEParser(onMessage);
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      parser.push(decoder.decode(value, { stream: true }));
+    }
+    parser.push(decoder.decode());
+    parser.flush();
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+}
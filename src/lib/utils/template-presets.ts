@@ -0,0 +1,165 @@
+import type { TemplateDTO, TemplateField, TemplatePreset } from "@/types/types";
+
+export interface TemplatePresetDefinition {
+  preset: TemplatePreset;
+  name: string;
+  fields: TemplateField[];
+  required_fields: string[];
+}
+
+const SEVERITY_FIELD: TemplateField = {
+  key: "severity",
+  type: "select",
+  label: "Severity",
+  options: ["Critical", "Major", "Minor", "Trivial"],
+  default: "Minor",
+};
+
+/**
+ * Built-in defect report presets.
+ * Mirrors the global templates seeded in the initial migration so the
+ * composer works even before the templates table is populated.
+ */
+export const TEMPLATE_PRESETS: Record<
+  TemplatePreset,
+  TemplatePresetDefinition
+> = {
+  ui_bug: {
+    preset: "ui_bug",
+    name: "UI Bug Template",
+    fields: [
+      {
+        key: "title",
+        type: "text",
+        label: "Title",
+        help: "Short description of the issue",
+        default: "",
+      },
+      {
+        key: "steps",
+        type: "textarea",
+        label: "Steps to reproduce",
+        help: "Numbered list of steps",
+        default: "1. \n2. \n3. ",
+      },
+      {
+        key: "expected",
+        type: "textarea",
+        label: "Expected result",
+        help: "What should happen",
+        default: "",
+      },
+      {
+        key: "actual",
+        type: "textarea",
+        label: "Actual result",
+        help: "What actually happens",
+        default: "",
+      },
+      {
+        key: "environment",
+        type: "text",
+        label: "Environment",
+        help: "Browser, OS, resolution",
+        default: "",
+      },
+      SEVERITY_FIELD,
+    ],
+    required_fields: ["title", "steps", "expected", "actual"],
+  },
+  api_bug: {
+    preset: "api_bug",
+    name: "API Bug Template",
+    fields: [
+      {
+        key: "title",
+        type: "text",
+        label: "Title",
+        help: "Short description of the issue",
+        default: "",
+      },
+      {
+        key: "endpoint",
+        type: "text",
+        label: "Endpoint",
+        help: "API endpoint with method",
+        default: "",
+      },
+      {
+        key: "request",
+        type: "code",
+        label: "Request",
+        help: "Request payload",
+        default: "{\n  \n}",
+      },
+      {
+        key: "expected",
+        type: "textarea",
+        label: "Expected response",
+        help: "Expected API response",
+        default: "",
+      },
+      {
+        key: "actual",
+        type: "textarea",
+        label: "Actual response",
+        help: "Actual API response with status code",
+        default: "",
+      },
+      {
+        key: "environment",
+        type: "text",
+        label: "Environment",
+        help: "API version, test environment",
+        default: "",
+      },
+      SEVERITY_FIELD,
+    ],
+    required_fields: ["title", "endpoint", "request", "expected", "actual"],
+  },
+};
+
+/**
+ * Id prefix of built-in presets that are not backed by a database row
+ */
+export const BUILTIN_PRESET_ID_PREFIX = "preset:";
+
+export function isBuiltinPresetId(id: string): boolean {
+  return id.startsWith(BUILTIN_PRESET_ID_PREFIX);
+}
+
+/**
+ * Append built-in presets that are missing from the loaded templates
+ * (no global template with the same preset), so ui_bug and api_bug are
+ * always available. Built-ins are read-only and can only be forked.
+ */
+export function withBuiltinPresets(templates: TemplateDTO[]): TemplateDTO[] {
+  const missing = Object.values(TEMPLATE_PRESETS).filter(
+    (definition) =>
+      !templates.some(
+        (template) =>
+          template.scope === "global" && template.preset === definition.preset,
+      ),
+  );
+
+  return [
+    ...templates,
+    ...missing.map(
+      (definition): TemplateDTO => ({
+        id: `${BUILTIN_PRESET_ID_PREFIX}${definition.preset}`,
+        name: definition.name,
+        scope: "global",
+        owner_id: null,
+        preset: definition.preset,
+        fields: definition.fields,
+        required_fields: definition.required_fields,
+        attachments: [],
+        origin_template_id: null,
+        is_readonly: true,
+        version: 1,
+        created_at: "",
+        updated_at: "",
+      }),
+    ),
+  ];
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import type { TemplateField } from "@/types/types";
+import {
+  createInitialValues,
+  getFieldOptions,
+  getMissingRequiredFields,
+  isAttachmentUrl,
+  parseAttachmentLines,
+  renderTemplateMarkdown,
+} from "./template-report";
+
+const fields: TemplateField[] = [
+  { key: "title", type: "text", label: "Title" },
+  {
+    key: "severity",
+    type: "select",
+    label: "Severity",
+    options: ["Critical", "Major"],
+    default: "Major",
+  },
+  { key: "steps", type: "markdown", label: "Steps to Reproduce" },
+  { key: "response", type: "code", label: "Response" },
+  { key: "browsers", type: "multiselect", label: "Browsers", default: ["A"] },
+];
+
+const template = {
+  name: "UI bug",
+  fields,
+  required_fields: ["title", "steps"],
+  attachments: ["https://example.com/a.png"],
+};
+
+describe("template-report", () => {
+  it("normalizes string and object options", () => {
+    expect(
+      getFieldOptions({
+        options: ["Low", { label: "High", value: "high" }, 42, null],
+      }),
+    ).toEqual([
+      { label: "Low", value: "Low" },
+      { label: "High", value: "high" },
+      { label: "42", value: "42" },
+    ]);
+    expect(getFieldOptions({})).toEqual([]);
+  });
+
+  it("prefills defaults and reports blank required fields", () => {
+    const values = createInitialValues(fields);
+
+    expect(values).toMatchObject({
+      severity: "Major",
+      browsers: "A",
+      title: "",
+    });
+    expect(getMissingRequiredFields(template, values)).toEqual([
+      "title",
+      "steps",
+    ]);
+    expect(
+      getMissingRequiredFields(template, { title: "x", steps: "  " }),
+    ).toEqual(["steps"]);
+  });
+
+  it("renders heading, facts, sections, code blocks and attachments", () => {
+    const markdown = renderTemplateMarkdown(
+      template,
+      {
+        title: "Login fails",
+        severity: "Critical",
+        steps: "1. Open login",
+        response: '{"error":true}',
+      },
+      ["https://example.com/a.png", "https://example.com/b.png"],
+    );
+
+    expect(markdown).toBe(
+      [
+        "# Login fails",
+        "",
+        "- **Severity:** Critical",
+        "",
+        "## Steps to Reproduce",
+        "",
+        "1. Open login",
+        "",
+        "## Response",
+        "",
+        "```",
+        '{"error":true}',
+        "```",
+        "",
+        "## Attachments",
+        "",
+        "- https://example.com/a.png",
+        "- https://example.com/b.png",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("falls back to the template name when title is empty", () => {
+    expect(renderTemplateMarkdown({ ...template, attachments: [] }, {})).toBe(
+      "# UI bug\n",
+    );
+  });
+
+  it("parses attachment lines and accepts only http(s) URLs", () => {
+    expect(parseAttachmentLines(" https://a.io \n\nftp://b.io\n")).toEqual([
+      "https://a.io",
+      "ftp://b.io",
+    ]);
+    expect(isAttachmentUrl("https://a.io/x.png")).toBe(true);
+    expect(isAttachmentUrl("ftp://b.io")).toBe(false);
+    expect(isAttachmentUrl("https://a.io/with space")).toBe(false);
+  });
+});
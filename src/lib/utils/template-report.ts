@@ -0,0 +1,160 @@
+import type { Json } from "@/db/database.types";
+import type { TemplateDTO, TemplateField } from "@/types/types";
+
+/**
+ * Shared defect report helpers used by the render endpoint and the
+ * in-browser composer, so the preview matches what the API returns.
+ */
+
+export type TemplateReportSource = Pick<
+  TemplateDTO,
+  "name" | "fields" | "required_fields" | "attachments"
+>;
+
+export interface FieldOption {
+  label: string;
+  value: string;
+}
+
+/** Field types rendered as sections rather than one-line facts */
+const BLOCK_FIELD_TYPES = new Set(["markdown", "textarea", "code"]);
+
+/**
+ * Separator for multiselect values, which travel as a single string
+ */
+export const MULTISELECT_SEPARATOR = ", ";
+
+/**
+ * Normalize field options stored as string[] or {label,value}[]
+ */
+export function getFieldOptions(
+  field: Pick<TemplateField, "options">,
+): FieldOption[] {
+  if (!Array.isArray(field.options)) {
+    return [];
+  }
+
+  return field.options.flatMap((option: Json): FieldOption[] => {
+    if (typeof option === "string" || typeof option === "number") {
+      return [{ label: String(option), value: String(option) }];
+    }
+    if (option && typeof option === "object" && !Array.isArray(option)) {
+      const value = option.value ?? option.label;
+      if (typeof value === "string" || typeof value === "number") {
+        const label = option.label ?? value;
+        return [{ label: String(label), value: String(value) }];
+      }
+    }
+    return [];
+  });
+}
+
+/**
+ * Field default as the string the composer edits
+ */
+export function getFieldDefault(field: Pick<TemplateField, "default">): string {
+  const value = field.default;
+  if (value === undefined || value === null) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    return value.map(String).join(MULTISELECT_SEPARATOR);
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Initial composer values: every field prefilled with its default
+ */
+export function createInitialValues(
+  fields: TemplateField[],
+): Record<string, string> {
+  return Object.fromEntries(
+    fields.map((field) => [field.key, getFieldDefault(field)]),
+  );
+}
+
+/**
+ * Keys of required fields whose value is blank
+ */
+export function getMissingRequiredFields(
+  template: Pick<TemplateDTO, "required_fields">,
+  values: Record<string, string>,
+): string[] {
+  return template.required_fields.filter((key) => !(values[key] ?? "").trim());
+}
+
+/**
+ * Build a Markdown defect report.
+ *
+ * The "title" field becomes the heading, one-line fields a bullet list and
+ * long-form fields (markdown/textarea/code) their own sections. Template
+ * and extra attachments are merged into a link list. Empty fields are
+ * skipped; required fields are not checked here.
+ */
+export function renderTemplateMarkdown(
+  template: TemplateReportSource,
+  values: Record<string, string>,
+  extraAttachments: string[] = [],
+): string {
+  const valueOf = (key: string) => (values[key] ?? "").trim();
+
+  const title = valueOf("title") || template.name;
+  const lines: string[] = [`# ${title}`, ""];
+
+  const facts: string[] = [];
+  const sections: string[] = [];
+
+  for (const field of template.fields) {
+    const value = valueOf(field.key);
+    if (field.key === "title" || !value) {
+      continue;
+    }
+
+    if (!BLOCK_FIELD_TYPES.has(field.type)) {
+      facts.push(`- **${field.label}:** ${value}`);
+    } else if (field.type === "code") {
+      sections.push(`## ${field.label}`, "", "```", value, "```", "");
+    } else {
+      sections.push(`## ${field.label}`, "", value, "");
+    }
+  }
+
+  if (facts.length > 0) {
+    lines.push(...facts, "");
+  }
+  lines.push(...sections);
+
+  const attachments = [
+    ...new Set([...template.attachments, ...extraAttachments]),
+  ];
+  if (attachments.length > 0) {
+    lines.push("## Attachments", "");
+    for (const url of attachments) {
+      lines.push(`- ${url}`);
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+/**
+ * Split a one-URL-per-line textarea into trimmed, non-empty entries
+ */
+export function parseAttachmentLines(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Attachments must be plain HTTP/HTTPS links
+ */
+export function isAttachmentUrl(url: string): boolean {
+  return /^https?:\/\/\S+$/i.test(url);
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyDiffHunks,
+  buildDiffSegments,
+  diffLines,
+  formatLineDiff,
+} from "./text-diff";
+
+describe("text-diff", () => {
+  it("marks unchanged, removed and added lines", () => {
+    expect(diffLines("a\nb\nc", "a\nB\nc\nd")).toEqual([
+      { type: "equal", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "added", text: "B" },
+      { type: "equal", text: "c" },
+      { type: "added", text: "d" },
+    ]);
+  });
+
+  it("handles empty texts and CRLF line endings", () => {
+    expect(diffLines("", "")).toEqual([]);
+    expect(diffLines("", "new")).toEqual([{ type: "added", text: "new" }]);
+    expect(diffLines("x\r\ny", "x\ny")).toEqual([
+      { type: "equal", text: "x" },
+      { type: "equal", text: "y" },
+    ]);
+  });
+
+  it("formats a prefixed diff", () => {
+    expect(formatLineDiff("Click login", "Click the login button")).toBe(
+      "- Click login\n+ Click the login button",
+    );
+  });
+
+  describe("hunks", () => {
+    const before = "Open app\nclick login\nsee error\nclose";
+    const after = "Open the app\nClick Login\nsee error\nclose\nReport bug";
+
+    it("groups adjacent changes into numbered hunks", () => {
+      expect(buildDiffSegments(before, after)).toEqual([
+        {
+          type: "change",
+          hunk: {
+            id: 0,
+            removed: ["Open app", "click login"],
+            added: ["Open the app", "Click Login"],
+          },
+        },
+        { type: "equal", lines: ["see error", "close"] },
+        { type: "change", hunk: { id: 1, removed: [], added: ["Report bug"] } },
+      ]);
+    });
+
+    it("applies all, none or selected hunks", () => {
+      const segments = buildDiffSegments(before, after);
+
+      expect(applyDiffHunks(segments, new Set([0, 1]))).toBe(after);
+      expect(applyDiffHunks(segments, new Set())).toBe(before);
+      expect(applyDiffHunks(segments, new Set([1]))).toBe(
+        "Open app\nclick login\nsee error\nclose\nReport bug",
+      );
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Line-based text diff (longest common subsequence).
+ * Used to show what an AI proposal changed compared to the original text.
+ */
+
+export type DiffLineType = "equal" | "added" | "removed";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+const DIFF_PREFIXES: Record<DiffLineType, string> = {
+  equal: "  ",
+  added: "+ ",
+  removed: "- ",
+};
+
+function splitLines(text: string): string[] {
+  return text === "" ? [] : text.replace(/\r\n/g, "\n").split("\n");
+}
+
+/**
+ * Diff two texts line by line; removed lines come before added ones
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: "equal", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "removed", text: a[i] });
+      i++;
+    } else {
+      result.push({ type: "added", text: b[j] });
+      j++;
+    }
+  }
+  for (; i < a.length; i++) {
+    result.push({ type: "removed", text: a[i] });
+  }
+  for (; j < b.length; j++) {
+    result.push({ type: "added", text: b[j] });
+  }
+
+  return result;
+}
+
+/**
+ * Render a diff as text with "+ ", "- " and "  " line prefixes
+ */
+export function formatLineDiff(before: string, after: string): string {
+  return diffLines(before, after)
+    .map((line) => DIFF_PREFIXES[line.type] + line.text)
+    .join("\n");
+}
+
+/**
+ * A run of consecutive changed lines that can be accepted on its own
+ */
+export interface DiffHunk {
+  id: number;
+  removed: string[];
+  added: string[];
+}
+
+export type DiffSegment =
+  | { type: "equal"; lines: string[] }
+  | { type: "change"; hunk: DiffHunk };
+
+/**
+ * Group a line diff into unchanged runs and numbered change hunks
+ */
+export function buildDiffSegments(
+  before: string,
+  after: string,
+): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  let nextId = 0;
+
+  for (const line of diffLines(before, after)) {
+    const last = segments[segments.length - 1];
+
+    if (line.type === "equal") {
+      if (last?.type === "equal") {
+        last.lines.push(line.text);
+      } else {
+        segments.push({ type: "equal", lines: [line.text] });
+      }
+      continue;
+    }
+
+    let hunk: DiffHunk;
+    if (last?.type === "change") {
+      hunk = last.hunk;
+    } else {
+      hunk = { id: nextId++, removed: [], added: [] };
+      segments.push({ type: "change", hunk });
+    }
+    if (line.type === "removed") {
+      hunk.removed.push(line.text);
+    } else {
+      hunk.added.push(line.text);
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Rebuild the text keeping the proposal only for accepted hunks
+ */
+export function applyDiffHunks(
+  segments: DiffSegment[],
+  acceptedIds: ReadonlySet<number>,
+): string {
+  return segments
+    .flatMap((segment) => {
+      if (segment.type === "equal") {
+        return segment.lines;
+      }
+      return acceptedIds.has(segment.hunk.id)
+        ? segment.hunk.added
+        : segment.hunk.removed;
+    })
+    .join("\n");
+}
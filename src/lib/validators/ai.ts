@@ -0,0 +1,26 @@
+import { z } from "zod";
+import type { FeaturePath } from "../../features/types";
+import type { AIContext } from "../../types/types";
+
+/**
+ * Feature flag of the collection each AI context edits; the assistant is
+ * only available where the collection itself is enabled.
+ */
+export const AI_CONTEXT_FEATURES: Record<AIContext, FeaturePath> = {
+  template: "collections.templates",
+  charter: "collections.charters",
+  kb: "collections.knowledgeBase",
+};
+
+/**
+ * Schema for AI text processing (POST /api/ai/process)
+ */
+export const AITextProcessSchema = z.object({
+  context: z.enum(["template", "charter", "kb"]),
+  field: z.enum(["description", "steps", "hypotheses", "notes"]),
+  text: z
+    .string()
+    .trim()
+    .min(1, "Text is required")
+    .max(10000, "Text too long"),
+});
@@ -0,0 +1,62 @@
+import { z } from "zod";
+import { KeysetCursorSchema, KeysetLimitSchema } from "./common";
+
+const CHARTER_NOTE_TAGS = ["bug", "idea", "question", "risk"] as const;
+
+/**
+ * Schema for creating a charter (POST /api/charters)
+ */
+export const CharterCreateSchema = z.object({
+  goal: z.string().trim().min(1, "Goal is required").max(500, "Goal too long"),
+  hypotheses: z.string().max(5000, "Hypotheses too long").nullish(),
+});
+
+/**
+ * Schema for updating a charter (PATCH /api/charters/{id})
+ * - version: the version the client last saw (optimistic locking)
+ */
+export const CharterUpdateSchema = z
+  .object({
+    goal: z
+      .string()
+      .trim()
+      .min(1, "Goal is required")
+      .max(500, "Goal too long")
+      .optional(),
+    hypotheses: z.string().max(5000, "Hypotheses too long").nullish(),
+    summary_notes: z.string().max(10000, "Summary too long").nullish(),
+    version: z.number().int().min(1),
+  })
+  .refine(
+    (val) =>
+      val.goal !== undefined ||
+      val.hypotheses !== undefined ||
+      val.summary_notes !== undefined,
+    "At least one field must be provided for update",
+  );
+
+/**
+ * Schema for query parameters (GET /api/charters)
+ */
+export const CharterQuerySchema = z.object({
+  after: KeysetCursorSchema.optional(),
+  limit: KeysetLimitSchema,
+  status: z.enum(["idle", "active", "closed"]).optional(),
+});
+
+/**
+ * Schema for creating a charter note (POST /api/charters/{id}/notes)
+ */
+export const CharterNoteCreateSchema = z.object({
+  tag: z.enum(CHARTER_NOTE_TAGS),
+  body: z.string().trim().min(1, "Note body is required").max(5000),
+});
+
+/**
+ * Schema for query parameters (GET /api/charters/{id}/notes)
+ */
+export const CharterNoteQuerySchema = z.object({
+  after: KeysetCursorSchema.optional(),
+  limit: KeysetLimitSchema,
+  tag: z.enum(CHARTER_NOTE_TAGS).optional(),
+});
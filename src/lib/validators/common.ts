@@ -0,0 +1,31 @@
+import { z } from "zod";
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Keyset pagination cursor (format: "timestamp,id")
+ * Shared by list endpoints ordered by (timestamp desc, id desc).
+ */
+export const KeysetCursorSchema = z.string().refine((val) => {
+  const parts = val.split(",");
+  if (parts.length !== 2) return false;
+
+  const [timestampStr, idStr] = parts;
+  return !isNaN(new Date(timestampStr).getTime()) && UUID_REGEX.test(idStr);
+}, "Invalid cursor format");
+
+/**
+ * Page size for keyset pagination (1-100, default 20)
+ */
+export const KeysetLimitSchema = z.coerce
+  .number()
+  .int()
+  .min(1)
+  .max(100)
+  .default(20);
+
+/**
+ * Resource identifier from route params
+ */
+export const UuidParamSchema = z.string().regex(UUID_REGEX, "Invalid ID");
@@ -0,0 +1,65 @@
+import { z } from "zod";
+import type { Json } from "../../db/database.types";
+import {
+  KeysetCursorSchema,
+  KeysetLimitSchema,
+  UuidParamSchema,
+} from "./common";
+
+/**
+ * Upper bound for a serialized draft body; composer state is small, this
+ * only stops the table from being used as blob storage.
+ */
+export const MAX_DRAFT_CONTENT_BYTES = 100_000;
+
+const DraftTitleSchema = z
+  .string()
+  .trim()
+  .min(1, "Title is required")
+  .max(200, "Title too long");
+
+// Parsed from a JSON request body, so any object value is valid Json
+const DraftContentSchema = z
+  .record(z.string(), z.custom<Json>())
+  .refine(
+    (val) =>
+      new TextEncoder().encode(JSON.stringify(val)).length <=
+      MAX_DRAFT_CONTENT_BYTES,
+    `Content exceeds ${MAX_DRAFT_CONTENT_BYTES} bytes`,
+  );
+
+/**
+ * Schema for creating a draft (POST /api/drafts)
+ */
+export const DraftCreateSchema = z.object({
+  title: DraftTitleSchema,
+  content: DraftContentSchema,
+  template_id: UuidParamSchema.nullish(),
+});
+
+/**
+ * Schema for updating a draft (PATCH /api/drafts/{id})
+ * Autosave is last-write-wins, so no version is required.
+ */
+export const DraftUpdateSchema = z
+  .object({
+    title: DraftTitleSchema.optional(),
+    content: DraftContentSchema.optional(),
+    template_id: UuidParamSchema.nullish(),
+  })
+  .refine(
+    (val) =>
+      val.title !== undefined ||
+      val.content !== undefined ||
+      val.template_id !== undefined,
+    "At least one field must be provided for update",
+  );
+
+/**
+ * Schema for query parameters (GET /api/drafts)
+ */
+export const DraftQuerySchema = z.object({
+  after: KeysetCursorSchema.optional(),
+  limit: KeysetLimitSchema,
+  template_id: UuidParamSchema.optional(),
+});
@@ -1,4 +1,14 @@
 import { z } from "zod";
+import {
+  KB_SORT_ORDERS,
+  MAX_KB_TAG_FILTERS,
+  decodeKbCursor,
+  parseTagList,
+} from "../utils/kb-search";
+import { KB_EXPORT_FORMATS } from "../utils/kb-export";
+import { MAX_KB_IMPORT_ENTRIES } from "../utils/kb-import";
+import type { KBSortOrder } from "../../types/types";
+import { KeysetCursorSchema, KeysetLimitSchema } from "./common";
 
 /**
  * Schema for creating a KB entry
@@ -15,32 +25,166 @@ export const KbEntryCreateSchema = z.object({
  */
 export const KbEntryUpdateSchema = KbEntryCreateSchema.partial();
 
+/**
+ * Request body of POST /api/kb/entries: the entry, plus allow_duplicates to
+ * save it although similar entries exist
+ */
+export const KbEntryCreateRequestSchema = KbEntryCreateSchema.extend({
+  allow_duplicates: z.boolean().default(false),
+});
+
+/** Upper bound for entries folded into one by a merge */
+export const MAX_KB_MERGE_SOURCES = 20;
+
+/**
+ * Schema for merging entries into one (POST /api/kb/entries/{id}/merge)
+ */
+export const KbMergeEntriesSchema = z.object({
+  source_ids: z
+    .array(z.string().uuid("Invalid entry ID"))
+    .min(1, "At least one entry to merge is required")
+    .max(
+      MAX_KB_MERGE_SOURCES,
+      `At most ${MAX_KB_MERGE_SOURCES} entries per merge`,
+    ),
+});
+
+/** Search text: empty values in the query string count as absent */
+const KbSearchTextSchema = z.preprocess(
+  (val) => (typeof val === "string" && val.trim() === "" ? undefined : val),
+  z.string().trim().max(200, "Search query too long").optional(),
+);
+
+const KbOwnerFilterSchema = z.enum(["me", "public"]).optional();
+
 /**
  * Schema for query parameters (GET /api/kb/entries)
- * - after: cursor for keyset pagination (format: "updated_at,id")
+ * - after: cursor for keyset pagination (format: "<sort key>,id", e.g.
+ *   "updated_at,id"); must come from a page with the same sort
+ * - limit: number of items per page (1-100, default 20)
+ * - q: full-text search over titles and notes (ranked, with snippets)
+ * - tags: comma-separated tags; tag_match "any" (default) or "all"
+ * - owner: "me" (own entries, requires authentication) or "public"
+ * - sort: relevance (default with q) | updated (default) | created | title
+ */
+export const KbEntryQuerySchema = z
+  .object({
+    after: z.string().optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    q: KbSearchTextSchema,
+    tags: z
+      .string()
+      .optional()
+      .transform((val) => (val ? parseTagList(val) : []))
+      .refine(
+        (tags) => tags.length <= MAX_KB_TAG_FILTERS,
+        `At most ${MAX_KB_TAG_FILTERS} tags allowed`,
+      ),
+    tag_match: z.enum(["any", "all"]).default("any"),
+    owner: KbOwnerFilterSchema,
+    sort: z.enum(KB_SORT_ORDERS).optional(),
+  })
+  .transform((val) => {
+    const sort: KBSortOrder = val.sort ?? (val.q ? "relevance" : "updated");
+    return { ...val, sort };
+  })
+  .superRefine((val, ctx) => {
+    if (val.sort === "relevance" && !val.q) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["sort"],
+        message: "Sorting by relevance requires a search query",
+      });
+    }
+    if (val.after && !decodeKbCursor(val.sort, val.after)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["after"],
+        message: "Invalid cursor format",
+      });
+    }
+  });
+
+/**
+ * Schema for query parameters (GET /api/kb/tags)
+ * - q: count tags of the entries matching this search only
+ * - owner: "me" (requires authentication) or "public"
+ */
+export const KbTagFacetsQuerySchema = z.object({
+  q: KbSearchTextSchema,
+  owner: KbOwnerFilterSchema,
+});
+
+/**
+ * Schema for creating or editing a KB note (Markdown body, max 5000 chars)
+ */
+export const KbNoteBodySchema = z.object({
+  body: z.string().trim().min(1, "Note body is required").max(5000),
+});
+
+/**
+ * Schema for query parameters (GET /api/kb/entries/{id}/notes)
+ * - after: cursor for keyset pagination (format: "created_at,id")
  * - limit: number of items per page (1-100, default 20)
  */
-export const KbEntryQuerySchema = z.object({
-  after: z
-    .string()
-    .optional()
-    .refine((val) => {
-      if (!val) return true; // Optional field
-      // Validate cursor format: "timestamp,id"
-      const parts = val.split(",");
-      if (parts.length !== 2) return false;
-
-      const [timestampStr, idStr] = parts;
-
-      // Validate timestamp format (ISO 8601)
-      const timestamp = new Date(timestampStr);
-      if (isNaN(timestamp.getTime())) return false;
-
-      // Validate ID format (UUID or numeric ID)
-      const uuidRegex =
-        /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-      const numericIdRegex = /^\d+$/;
-      return uuidRegex.test(idStr) || numericIdRegex.test(idStr);
-    }, "Invalid cursor format"),
-  limit: z.coerce.number().int().min(1).max(100).default(20),
+export const KbNoteQuerySchema = z.object({
+  after: KeysetCursorSchema.optional(),
+  limit: KeysetLimitSchema,
+});
+
+const KbExportFormatSchema = z.enum(KB_EXPORT_FORMATS);
+
+/**
+ * Schema for query parameters (GET /api/kb/export)
+ * - format: json (default) | md | html (Netscape bookmark file)
+ */
+export const KbExportQuerySchema = z.object({
+  format: KbExportFormatSchema.default("json"),
+});
+
+/**
+ * Schema for query parameters (POST /api/kb/import)
+ * - format: json | md | html; defaults to the Content-Type, then the content
+ */
+export const KbImportQuerySchema = z.object({
+  format: KbExportFormatSchema.optional(),
+});
+
+/**
+ * JSON import body: an export ({ entries, notes }) or a bare entries array.
+ * Entries are checked one by one during the import so a bad row is
+ * reported instead of failing the whole file.
+ */
+export const KbImportJsonSchema = z.preprocess(
+  (body) => (Array.isArray(body) ? { entries: body } : body),
+  z.object({
+    entries: z
+      .array(z.record(z.unknown()), {
+        required_error: "entries array is required",
+      })
+      .max(
+        MAX_KB_IMPORT_ENTRIES,
+        `At most ${MAX_KB_IMPORT_ENTRIES} entries per import`,
+      ),
+    notes: z
+      .array(z.object({ entry_id: z.string(), body: z.string() }))
+      .default([]),
+  }),
+);
+
+/** Upper bound for entries in one link check request */
+export const MAX_KB_LINK_CHECK_ENTRIES = 50;
+
+/**
+ * Schema for the request body (POST /api/kb/link-check)
+ * - entry_ids: entries to check; without them the `limit` entries checked
+ *   least recently are picked
+ */
+export const KbLinkCheckSchema = z.object({
+  entry_ids: z
+    .array(z.string().uuid("Invalid entry ID"))
+    .min(1)
+    .max(MAX_KB_LINK_CHECK_ENTRIES)
+    .optional(),
+  limit: z.number().int().min(1).max(MAX_KB_LINK_CHECK_ENTRIES).default(20),
 });
@@ -0,0 +1,145 @@
+import { z } from "zod";
+import type { Json } from "../../db/database.types";
+import { KeysetCursorSchema, KeysetLimitSchema } from "./common";
+
+const TEMPLATE_PRESETS = ["ui_bug", "api_bug"] as const;
+const MAX_ATTACHMENTS = 10;
+
+/**
+ * Attachment links must be plain HTTP/HTTPS URLs
+ * (mirrors the validate_attachments_urls trigger)
+ */
+const AttachmentUrlSchema = z
+  .string()
+  .trim()
+  .url("Attachment must be a valid URL")
+  .refine(
+    (val) => /^https?:\/\//i.test(val),
+    "Attachment must be an HTTP or HTTPS URL",
+  );
+
+const AttachmentsSchema = z
+  .array(AttachmentUrlSchema)
+  .max(MAX_ATTACHMENTS, `At most ${MAX_ATTACHMENTS} attachments allowed`);
+
+/**
+ * Single field definition stored in templates.fields
+ * Field types are open-ended (seed data uses "textarea" and "code" too).
+ */
+export const TemplateFieldSchema = z.object({
+  key: z
+    .string()
+    .trim()
+    .min(1, "Field key is required")
+    .max(64)
+    .regex(/^[a-z][a-z0-9_]*$/, "Field key must be snake_case"),
+  type: z.string().trim().min(1, "Field type is required").max(32),
+  label: z.string().trim().min(1, "Field label is required").max(200),
+  help: z.string().max(500).optional(),
+  // Parsed from a JSON request body, so any value is valid Json
+  default: z.custom<Json>().optional(),
+  options: z.custom<Json>().optional(),
+});
+
+const TemplateFieldsSchema = z
+  .array(TemplateFieldSchema)
+  .min(1, "At least one field is required")
+  .max(50)
+  .refine(
+    (fields) =>
+      new Set(fields.map((field) => field.key)).size === fields.length,
+    "Field keys must be unique",
+  );
+
+/**
+ * Every required field must reference a defined field key
+ * (mirrors the ensure_required_fields_consistency trigger)
+ */
+function requiredFieldsAreDefined(val: {
+  fields?: { key: string }[];
+  required_fields?: string[];
+}): boolean {
+  if (!val.fields || !val.required_fields) {
+    return true;
+  }
+  const keys = new Set(val.fields.map((field) => field.key));
+  return val.required_fields.every((key) => keys.has(key));
+}
+
+const REQUIRED_FIELDS_MESSAGE = {
+  message: "Every required field must be defined in fields",
+  path: ["required_fields"],
+};
+
+/**
+ * Schema for creating a template (POST /api/templates)
+ */
+export const TemplateCreateSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, "Name is required")
+      .max(200, "Name too long"),
+    scope: z.enum(["user", "global"]).default("user"),
+    fields: TemplateFieldsSchema,
+    required_fields: z.array(z.string()).default([]),
+    attachments: AttachmentsSchema.default([]),
+    preset: z.enum(TEMPLATE_PRESETS).nullish(),
+  })
+  .refine(requiredFieldsAreDefined, REQUIRED_FIELDS_MESSAGE);
+
+/**
+ * Schema for updating a template (PATCH /api/templates/{id})
+ * - version: the version the client last saw (optimistic locking)
+ * - scope is immutable; fork a template to copy it into another scope
+ */
+export const TemplateUpdateSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, "Name is required")
+      .max(200, "Name too long")
+      .optional(),
+    fields: TemplateFieldsSchema.optional(),
+    required_fields: z.array(z.string()).optional(),
+    attachments: AttachmentsSchema.optional(),
+    preset: z.enum(TEMPLATE_PRESETS).nullish(),
+    version: z.number().int().min(1),
+  })
+  .refine(
+    (val) =>
+      val.name !== undefined ||
+      val.fields !== undefined ||
+      val.required_fields !== undefined ||
+      val.attachments !== undefined ||
+      val.preset !== undefined,
+    "At least one field must be provided for update",
+  )
+  .refine(requiredFieldsAreDefined, REQUIRED_FIELDS_MESSAGE);
+
+/**
+ * Schema for query parameters (GET /api/templates)
+ */
+export const TemplateQuerySchema = z.object({
+  after: KeysetCursorSchema.optional(),
+  limit: KeysetLimitSchema,
+  preset: z.enum(TEMPLATE_PRESETS).optional(),
+  scope: z.enum(["user", "global"]).optional(),
+});
+
+/**
+ * Schema for forking a template (POST /api/templates/{id}/fork)
+ */
+export const TemplateForkSchema = z.object({
+  name: z.string().trim().min(1).max(200, "Name too long").optional(),
+});
+
+/**
+ * Schema for rendering a template (POST /api/templates/{id}/render)
+ */
+export const TemplateRenderSchema = z.object({
+  values: z.record(z.string(), z.string().max(20000)),
+  attachments: AttachmentsSchema.optional(),
+});
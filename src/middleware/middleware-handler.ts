@@ -29,8 +29,8 @@ export async function middlewareHandler(
     "/api/health",
     "/generators",
     "/generators/iban",
-    "/api/generators/iban",
-    "/api/validators/iban",
+    "/api/generators",
+    "/api/validators",
   ];
 
   // Check if current path is public
@@ -0,0 +1,35 @@
+import type { APIRoute } from "astro";
+import { errorToJsonResponse } from "@/lib/helpers/error.helper";
+import { requireUserContext } from "@/lib/helpers/route.helper";
+import { openRouterService } from "@/lib/services/openrouter.service";
+
+export const prerender = false;
+
+/**
+ * GET /api/ai/limits
+ *
+ * Returns the current user's remaining AI calls for today
+ *
+ * Response 200:
+ * { remaining: number, limit: number, reset_at: string }
+ *
+ * Response 401/500:
+ * { error: { code, message } }
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    const { user } = requireUserContext(locals);
+
+    const limits = await openRouterService.getUsageLimits(user.id);
+
+    return new Response(JSON.stringify(limits), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
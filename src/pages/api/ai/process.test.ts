@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIContext } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/db/database.types";
+
+vi.mock("@/features", () => ({
+  isFeatureEnabled: vi.fn(() => true),
+}));
+
+vi.mock("@/lib/services/openrouter.service", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("@/lib/services/openrouter.service")>();
+  return {
+    ...actual,
+    openRouterService: { processText: vi.fn() },
+  };
+});
+
+import { POST } from "./process";
+import { isFeatureEnabled } from "@/features";
+import {
+  OpenRouterError,
+  openRouterService,
+} from "@/lib/services/openrouter.service";
+
+interface ResponseBody {
+  proposal?: string;
+  error?: { code: string; message: string; details?: unknown };
+}
+
+const mockSupabase = {} as SupabaseClient<Database>;
+const user = { id: "user-1", email: "user@example.com", role: "user" as const };
+
+function createAPIContext(body: string, locals: Partial<App.Locals>) {
+  return {
+    request: new Request("http://localhost:4321/api/ai/process", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+    }),
+    locals,
+  } as unknown as APIContext;
+}
+
+const validBody = JSON.stringify({
+  context: "charter",
+  field: "hypotheses",
+  text: "Login may fail",
+});
+
+describe("POST /api/ai/process", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(isFeatureEnabled).mockReturnValue(true);
+  });
+
+  it("should require authentication before reading the body", async () => {
+    const response = await POST(
+      createAPIContext("{not json", { supabase: mockSupabase }),
+    );
+
+    expect(response.status).toBe(401);
+    expect(openRouterService.processText).not.toHaveBeenCalled();
+  });
+
+  it("should require authentication", async () => {
+    const response = await POST(
+      createAPIContext(validBody, { supabase: mockSupabase }),
+    );
+
+    expect(response.status).toBe(401);
+    expect(openRouterService.processText).not.toHaveBeenCalled();
+  });
+
+  it("should return the proposal for the current user", async () => {
+    vi.mocked(openRouterService.processText).mockResolvedValue({
+      proposal: "Login fails for locked accounts",
+      diff: "- Login may fail\n+ Login fails for locked accounts",
+      model: "test/model",
+      usage: { prompt: 10, completion: 5 },
+    });
+
+    const response = await POST(
+      createAPIContext(validBody, { supabase: mockSupabase, user }),
+    );
+    const body = (await response.json()) as ResponseBody;
+
+    expect(response.status).toBe(200);
+    expect(body.proposal).toBe("Login fails for locked accounts");
+    expect(openRouterService.processText).toHaveBeenCalledWith(
+      { context: "charter", field: "hypotheses", text: "Login may fail" },
+      "user-1",
+    );
+    expect(isFeatureEnabled).toHaveBeenCalledWith("collections.charters");
+  });
+
+  it("should reject unknown contexts and empty text", async () => {
+    const response = await POST(
+      createAPIContext(
+        JSON.stringify({ context: "wiki", field: "notes", text: " " }),
+        { supabase: mockSupabase, user },
+      ),
+    );
+    const body = (await response.json()) as ResponseBody;
+
+    expect(response.status).toBe(400);
+    expect(body.error?.code).toBe("VALIDATION_ERROR");
+  });
+
+  it("should be unavailable when the context's collection is disabled", async () => {
+    vi.mocked(isFeatureEnabled).mockReturnValue(false);
+
+    const response = await POST(
+      createAPIContext(validBody, { supabase: mockSupabase, user }),
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should return 429 with Retry-After when the daily limit is reached", async () => {
+    vi.mocked(openRouterService.processText).mockRejectedValue(
+      new OpenRouterError(
+        "Daily AI limit reached",
+        "RATE_LIMITED",
+        429,
+        false,
+        3600,
+      ),
+    );
+
+    const response = await POST(
+      createAPIContext(validBody, { supabase: mockSupabase, user }),
+    );
+    const body = (await response.json()) as ResponseBody;
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).toBe("3600");
+    expect(body.error?.code).toBe("RATE_LIMITED");
+  });
+});
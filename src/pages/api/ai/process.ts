@@ -0,0 +1,72 @@
+import type { APIRoute } from "astro";
+import { isFeatureEnabled } from "@/features";
+import {
+  createAppError,
+  errorToJsonResponse,
+} from "@/lib/helpers/error.helper";
+import { requireUserContext } from "@/lib/helpers/route.helper";
+import {
+  OpenRouterError,
+  openRouterService,
+  toAIAppError,
+} from "@/lib/services/openrouter.service";
+import { AI_CONTEXT_FEATURES, AITextProcessSchema } from "@/lib/validators/ai";
+
+export const prerender = false;
+
+/**
+ * POST /api/ai/process
+ *
+ * Rewrites a charter, template or KB field with the AI assistant. Each call
+ * consumes one unit of the user's daily allowance (can_invoke_ai) and is
+ * recorded in ai_invocations.
+ *
+ * Request body:
+ * {
+ *   context: "template" | "charter" | "kb",
+ *   field: "description" | "steps" | "hypotheses" | "notes",
+ *   text: string (1-10000 chars)
+ * }
+ *
+ * Response 200:
+ * { proposal: string, diff: string, model: string, usage: { prompt, completion } }
+ * - diff: original vs proposal, one line per row prefixed with "+ ", "- " or "  "
+ *
+ * Response 429:
+ * { error: { code: "RATE_LIMITED", message } } with Retry-After header
+ *
+ * Response 502:
+ * { error: { code: "AI_PROVIDER_ERROR", message, details: { provider_code, retryable } } }
+ *
+ * Response 400/401/404/500/503:
+ * { error: { code, message, details? } }
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Authenticate before reading the body; the feature flag depends on
+    // the context, so it is checked once the body is validated
+    const { user } = requireUserContext(locals);
+
+    const body = await request.json();
+    const validated = AITextProcessSchema.parse(body);
+
+    if (!isFeatureEnabled(AI_CONTEXT_FEATURES[validated.context])) {
+      throw createAppError(
+        "FEATURE_DISABLED",
+        404,
+        "This feature is not available",
+      );
+    }
+
+    const result = await openRouterService.processText(validated, user.id);
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(
+      error instanceof OpenRouterError ? toAIAppError(error) : error,
+    );
+  }
+};
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIContext } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/db/database.types";
+import type { AITextStreamEvent } from "@/types/types";
+
+vi.mock("@/features", () => ({
+  isFeatureEnabled: vi.fn(() => true),
+}));
+
+vi.mock("@/lib/services/openrouter.service", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("@/lib/services/openrouter.service")>();
+  return {
+    ...actual,
+    openRouterService: { processTextStream: vi.fn() },
+  };
+});
+
+import { POST } from "./stream";
+import { isFeatureEnabled } from "@/features";
+import {
+  OpenRouterError,
+  openRouterService,
+} from "@/lib/services/openrouter.service";
+
+const mockSupabase = {} as SupabaseClient<Database>;
+const user = { id: "user-1", email: "user@example.com", role: "user" as const };
+
+function createAPIContext(body: string, locals: Partial<App.Locals>) {
+  return {
+    request: new Request("http://localhost:4321/api/ai/stream", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+    }),
+    locals,
+  } as unknown as APIContext;
+}
+
+function eventStream(events: AITextStreamEvent[]) {
+  return new ReadableStream<AITextStreamEvent>({
+    start(controller) {
+      events.forEach((event) => controller.enqueue(event));
+      controller.close();
+    },
+  });
+}
+
+const validBody = JSON.stringify({
+  context: "template",
+  field: "steps",
+  text: "click login",
+});
+
+describe("POST /api/ai/stream", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(isFeatureEnabled).mockReturnValue(true);
+  });
+
+  it("should require authentication before reading the body", async () => {
+    const response = await POST(
+      createAPIContext("{not json", { supabase: mockSupabase }),
+    );
+
+    expect(response.status).toBe(401);
+    expect(openRouterService.processTextStream).not.toHaveBeenCalled();
+  });
+
+  it("should require authentication", async () => {
+    const response = await POST(
+      createAPIContext(validBody, { supabase: mockSupabase }),
+    );
+
+    expect(response.status).toBe(401);
+    expect(openRouterService.processTextStream).not.toHaveBeenCalled();
+  });
+
+  it("should stream events as text/event-stream", async () => {
+    const result = {
+      proposal: "Click login",
+      diff: "- click login\n+ Click login",
+      model: "test/model",
+      usage: { prompt: 10, completion: 3 },
+    };
+    vi.mocked(openRouterService.processTextStream).mockResolvedValue(
+      eventStream([
+        { type: "delta", text: "Click " },
+        { type: "delta", text: "login" },
+        { type: "done", result },
+      ]),
+    );
+
+    const context = createAPIContext(validBody, {
+      supabase: mockSupabase,
+      user,
+    });
+    const response = await POST(context);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+    expect(await response.text()).toBe(
+      'event: delta\ndata: {"text":"Click "}\n\n' +
+        'event: delta\ndata: {"text":"login"}\n\n' +
+        `event: done\ndata: ${JSON.stringify(result)}\n\n`,
+    );
+    expect(openRouterService.processTextStream).toHaveBeenCalledWith(
+      { context: "template", field: "steps", text: "click login" },
+      "user-1",
+      context.request.signal,
+    );
+    expect(isFeatureEnabled).toHaveBeenCalledWith("collections.templates");
+  });
+
+  it("should forward stream errors as an error event", async () => {
+    vi.mocked(openRouterService.processTextStream).mockResolvedValue(
+      eventStream([
+        { type: "error", error: { code: "TIMEOUT", message: "Timeout" } },
+      ]),
+    );
+
+    const response = await POST(
+      createAPIContext(validBody, { supabase: mockSupabase, user }),
+    );
+
+    expect(await response.text()).toBe(
+      'event: error\ndata: {"error":{"code":"TIMEOUT","message":"Timeout"}}\n\n',
+    );
+  });
+
+  it("should return JSON errors when the stream cannot start", async () => {
+    vi.mocked(openRouterService.processTextStream).mockRejectedValue(
+      new OpenRouterError(
+        "Daily AI limit reached",
+        "RATE_LIMITED",
+        429,
+        false,
+        60,
+      ),
+    );
+
+    const response = await POST(
+      createAPIContext(validBody, { supabase: mockSupabase, user }),
+    );
+    const body = (await response.json()) as { error?: { code: string } };
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).toBe("60");
+    expect(body.error?.code).toBe("RATE_LIMITED");
+  });
+});
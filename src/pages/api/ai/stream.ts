@@ -0,0 +1,94 @@
+import type { APIRoute } from "astro";
+import { isFeatureEnabled } from "@/features";
+import {
+  createAppError,
+  errorToJsonResponse,
+} from "@/lib/helpers/error.helper";
+import { requireUserContext } from "@/lib/helpers/route.helper";
+import {
+  OpenRouterError,
+  openRouterService,
+  toAIAppError,
+} from "@/lib/services/openrouter.service";
+import { AI_CONTEXT_FEATURES, AITextProcessSchema } from "@/lib/validators/ai";
+import { formatSSE } from "@/lib/utils/sse";
+import type { AITextStreamEvent } from "@/types/types";
+
+export const prerender = false;
+
+/**
+ * POST /api/ai/stream
+ *
+ * Streaming variant of POST /api/ai/process. Same request body, limits and
+ * error responses; once the provider has accepted the request the answer
+ * is a text/event-stream. Closing the connection aborts the upstream
+ * OpenRouter request.
+ *
+ * Request body:
+ * {
+ *   context: "template" | "charter" | "kb",
+ *   field: "description" | "steps" | "hypotheses" | "notes",
+ *   text: string (1-10000 chars)
+ * }
+ *
+ * Response 200 (text/event-stream):
+ * event: delta  data: { text: string }       (repeated)
+ * event: done   data: { proposal, diff, model, usage }
+ * event: error  data: { error: { code, message } }
+ * - the stream ends with exactly one done or error event
+ *
+ * Response 400/401/404/429/500/502/503:
+ * { error: { code, message, details? } } as for /api/ai/process
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Authenticate before reading the body; the feature flag depends on
+    // the context, so it is checked once the body is validated
+    const { user } = requireUserContext(locals);
+
+    const body = await request.json();
+    const validated = AITextProcessSchema.parse(body);
+
+    if (!isFeatureEnabled(AI_CONTEXT_FEATURES[validated.context])) {
+      throw createAppError(
+        "FEATURE_DISABLED",
+        404,
+        "This feature is not available",
+      );
+    }
+
+    const events = await openRouterService.processTextStream(
+      validated,
+      user.id,
+      request.signal,
+    );
+
+    const encoder = new TextEncoder();
+    const sse = events.pipeThrough(
+      new TransformStream<AITextStreamEvent, Uint8Array>({
+        transform(event, controller) {
+          const data =
+            event.type === "delta"
+              ? { text: event.text }
+              : event.type === "done"
+                ? event.result
+                : { error: event.error };
+          controller.enqueue(encoder.encode(formatSSE(event.type, data)));
+        },
+      }),
+    );
+
+    return new Response(sse, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-store",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    return errorToJsonResponse(
+      error instanceof OpenRouterError ? toAIAppError(error) : error,
+    );
+  }
+};
@@ -0,0 +1,111 @@
+import type { APIRoute } from "astro";
+import { errorToJsonResponse } from "@/lib/helpers/error.helper";
+import { requireUserContext } from "@/lib/helpers/route.helper";
+import {
+  deleteCharter,
+  getCharter,
+  updateCharter,
+} from "@/lib/services/charter.service";
+import { CharterUpdateSchema } from "@/lib/validators/charter";
+import { UuidParamSchema } from "@/lib/validators/common";
+
+export const prerender = false;
+
+/**
+ * GET /api/charters/[id]
+ *
+ * Response 200:
+ * { data: CharterDTO }
+ *
+ * Response 400/401/404/500:
+ * { error: { code, message } }
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(
+      locals,
+      "collections.charters",
+    );
+    const id = UuidParamSchema.parse(params.id);
+
+    const charter = await getCharter(supabase, user.id, id);
+
+    return new Response(JSON.stringify({ data: charter }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
+
+/**
+ * PATCH /api/charters/[id]
+ *
+ * Updates goal, hypotheses and/or summary notes with optimistic locking
+ *
+ * Request body:
+ * {
+ *   goal?: string (1-500 chars),
+ *   hypotheses?: string | null,
+ *   summary_notes?: string | null,
+ *   version: number - version the client last read
+ * }
+ *
+ * Response 200:
+ * { data: CharterDTO } - version is incremented
+ *
+ * Response 409:
+ * { error: { code: "CONFLICT", message: string, details: { current_version } } }
+ *
+ * Response 400/401/404/500:
+ * { error: { code, message, details? } }
+ */
+export const PATCH: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(
+      locals,
+      "collections.charters",
+    );
+    const id = UuidParamSchema.parse(params.id);
+
+    const body = await request.json();
+    const validated = CharterUpdateSchema.parse(body);
+
+    const charter = await updateCharter(supabase, user.id, id, validated);
+
+    return new Response(JSON.stringify({ data: charter }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
+
+/**
+ * DELETE /api/charters/[id]
+ *
+ * Deletes a charter together with its notes
+ *
+ * Response 204:
+ * No content
+ *
+ * Response 400/401/404/500:
+ * { error: { code, message } }
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(
+      locals,
+      "collections.charters",
+    );
+    const id = UuidParamSchema.parse(params.id);
+
+    await deleteCharter(supabase, user.id, id);
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
@@ -0,0 +1,51 @@
+import type { APIRoute } from "astro";
+import { errorToJsonResponse } from "@/lib/helpers/error.helper";
+import { requireUserContext } from "@/lib/helpers/route.helper";
+import { exportCharter } from "@/lib/services/charter.service";
+import { UuidParamSchema } from "@/lib/validators/common";
+
+export const prerender = false;
+
+/**
+ * GET /api/charters/[id]/export
+ *
+ * Exports a charter with all its notes as Markdown
+ *
+ * Query parameters:
+ * - format?: "json" (default) | "md" - "md" returns the raw document as a download
+ *
+ * Response 200:
+ * { markdown: string } or text/markdown body
+ *
+ * Response 400/401/404/500:
+ * { error: { code, message } }
+ */
+export const GET: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(
+      locals,
+      "collections.charters",
+    );
+    const id = UuidParamSchema.parse(params.id);
+
+    const result = await exportCharter(supabase, user.id, id);
+
+    const format = new URL(request.url).searchParams.get("format");
+    if (format === "md") {
+      return new Response(result.markdown, {
+        status: 200,
+        headers: {
+          "Content-Type": "text/markdown; charset=utf-8",
+          "Content-Disposition": `attachment; filename="charter-${id}.md"`,
+        },
+      });
+    }
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
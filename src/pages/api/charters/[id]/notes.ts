@@ -0,0 +1,95 @@
+import type { APIRoute } from "astro";
+import { errorToJsonResponse } from "@/lib/helpers/error.helper";
+import { requireUserContext } from "@/lib/helpers/route.helper";
+import {
+  addCharterNote,
+  listCharterNotes,
+} from "@/lib/services/charter.service";
+import {
+  CharterNoteCreateSchema,
+  CharterNoteQuerySchema,
+} from "@/lib/validators/charter";
+import { UuidParamSchema } from "@/lib/validators/common";
+
+export const prerender = false;
+
+/**
+ * GET /api/charters/[id]/notes
+ *
+ * Lists notes of a charter (newest first)
+ *
+ * Query parameters:
+ * - after?: string - cursor for keyset pagination (format: "noted_at,id")
+ * - limit?: number - items per page (1-100, default 20)
+ * - tag?: "bug" | "idea" | "question" | "risk"
+ *
+ * Response 200:
+ * { items: CharterNoteDTO[], next_cursor?: string }
+ *
+ * Response 400/401/404/500:
+ * { error: { code, message, details? } }
+ */
+export const GET: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(
+      locals,
+      "collections.charters",
+    );
+    const id = UuidParamSchema.parse(params.id);
+
+    const url = new URL(request.url);
+    const query = CharterNoteQuerySchema.parse({
+      after: url.searchParams.get("after") ?? undefined,
+      limit: url.searchParams.get("limit") ?? undefined,
+      tag: url.searchParams.get("tag") ?? undefined,
+    });
+
+    const page = await listCharterNotes(supabase, user.id, id, query);
+
+    return new Response(JSON.stringify(page), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
+
+/**
+ * POST /api/charters/[id]/notes
+ *
+ * Adds a tagged note to an active charter
+ *
+ * Request body:
+ * { tag: "bug" | "idea" | "question" | "risk", body: string (1-5000 chars) }
+ *
+ * Response 201:
+ * { data: CharterNoteDTO }
+ *
+ * Response 409:
+ * { error: { code: "CONFLICT", message } } - charter is not active
+ *
+ * Response 400/401/404/500:
+ * { error: { code, message, details? } }
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(
+      locals,
+      "collections.charters",
+    );
+    const id = UuidParamSchema.parse(params.id);
+
+    const body = await request.json();
+    const validated = CharterNoteCreateSchema.parse(body);
+
+    const note = await addCharterNote(supabase, user.id, id, validated);
+
+    return new Response(JSON.stringify({ data: note }), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
@@ -0,0 +1,41 @@
+import type { APIRoute } from "astro";
+import { errorToJsonResponse } from "@/lib/helpers/error.helper";
+import { requireUserContext } from "@/lib/helpers/route.helper";
+import { stopCharter } from "@/lib/services/charter.service";
+import { UuidParamSchema } from "@/lib/validators/common";
+
+export const prerender = false;
+
+/**
+ * POST /api/charters/[id]/stop
+ *
+ * Stops an active charter (status → "closed", ended_at → now).
+ * Summary notes can be filled afterwards via PATCH /api/charters/[id].
+ *
+ * Response 200:
+ * { data: CharterDTO }
+ *
+ * Response 409:
+ * { error: { code: "CONFLICT", message } } - charter is not active
+ *
+ * Response 400/401/404/500:
+ * { error: { code, message } }
+ */
+export const POST: APIRoute = async ({ params, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(
+      locals,
+      "collections.charters",
+    );
+    const id = UuidParamSchema.parse(params.id);
+
+    const charter = await stopCharter(supabase, user.id, id);
+
+    return new Response(JSON.stringify({ data: charter }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIContext, AstroCookies } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/db/database.types";
+
+vi.mock("@/features", () => ({
+  isFeatureEnabled: vi.fn(() => true),
+}));
+
+vi.mock("@/lib/services/charter.service", () => ({
+  listCharters: vi.fn(),
+  createCharter: vi.fn(),
+}));
+
+import { GET, POST } from "./index";
+import { isFeatureEnabled } from "@/features";
+import { createCharter, listCharters } from "@/lib/services/charter.service";
+import { createAppError } from "@/lib/helpers/error.helper";
+
+interface ResponseBody {
+  items?: unknown[];
+  data?: Record<string, unknown>;
+  error?: { code: string; message: string; details?: unknown };
+}
+
+const mockSupabase = {} as SupabaseClient<Database>;
+const user = { id: "user-1", email: "user@example.com", role: "user" as const };
+
+function createAPIContext(
+  request: Request,
+  locals: Partial<App.Locals>,
+): APIContext {
+  return {
+    request,
+    cookies: {
+      get: vi.fn(),
+      set: vi.fn(),
+      delete: vi.fn(),
+      has: vi.fn(),
+      merge: vi.fn(),
+      headers: vi.fn(),
+    } as unknown as AstroCookies,
+    url: new URL(request.url),
+    site: undefined,
+    generator: "Astro v5.0.0",
+    params: {},
+    props: {},
+    redirect: vi.fn(),
+    rewrite: vi.fn(),
+    locals,
+    clientAddress: "127.0.0.1",
+    originPathname: "/",
+    getActionResult: vi.fn(),
+    callAction: vi.fn(),
+    session: undefined,
+    preferredLocale: undefined,
+    preferredLocaleList: [],
+    currentLocale: undefined,
+    routePattern: "/api/charters",
+    isPrerendered: false,
+  } as unknown as APIContext;
+}
+
+function postRequest(body: string) {
+  return new Request("http://localhost:4321/api/charters", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+  });
+}
+
+describe("/api/charters", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(isFeatureEnabled).mockReturnValue(true);
+  });
+
+  describe("GET", () => {
+    it("should return 401 for anonymous users", async () => {
+      const request = new Request("http://localhost:4321/api/charters");
+      const response = await GET(
+        createAPIContext(request, { supabase: mockSupabase }),
+      );
+      const body = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(401);
+      expect(body.error?.code).toBe("UNAUTHENTICATED");
+      expect(listCharters).not.toHaveBeenCalled();
+    });
+
+    it("should return 404 when the feature is disabled", async () => {
+      vi.mocked(isFeatureEnabled).mockReturnValue(false);
+      const request = new Request("http://localhost:4321/api/charters");
+      const response = await GET(
+        createAPIContext(request, { supabase: mockSupabase, user }),
+      );
+      const body = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(404);
+      expect(body.error?.code).toBe("FEATURE_DISABLED");
+    });
+
+    it("should pass parsed query to the service", async () => {
+      vi.mocked(listCharters).mockResolvedValue({ items: [] });
+      const request = new Request(
+        "http://localhost:4321/api/charters?limit=5&status=active",
+      );
+
+      const response = await GET(
+        createAPIContext(request, { supabase: mockSupabase, user }),
+      );
+
+      expect(response.status).toBe(200);
+      expect(listCharters).toHaveBeenCalledWith(mockSupabase, "user-1", {
+        limit: 5,
+        status: "active",
+      });
+    });
+
+    it("should reject an invalid cursor", async () => {
+      const request = new Request(
+        "http://localhost:4321/api/charters?after=not-a-cursor",
+      );
+      const response = await GET(
+        createAPIContext(request, { supabase: mockSupabase, user }),
+      );
+      const body = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(400);
+      expect(body.error?.code).toBe("VALIDATION_ERROR");
+    });
+  });
+
+  describe("POST", () => {
+    it("should create an idle charter", async () => {
+      vi.mocked(createCharter).mockResolvedValue({
+        id: "c1",
+        goal: "Explore login",
+        status: "idle",
+      } as never);
+
+      const response = await POST(
+        createAPIContext(
+          postRequest(JSON.stringify({ goal: " Explore login " })),
+          {
+            supabase: mockSupabase,
+            user,
+          },
+        ),
+      );
+      const body = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(201);
+      expect(body.data?.status).toBe("idle");
+      expect(createCharter).toHaveBeenCalledWith(mockSupabase, "user-1", {
+        goal: "Explore login",
+      });
+    });
+
+    it("should reject an empty goal", async () => {
+      const response = await POST(
+        createAPIContext(postRequest(JSON.stringify({ goal: "" })), {
+          supabase: mockSupabase,
+          user,
+        }),
+      );
+      const body = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(400);
+      expect(body.error?.details).toHaveProperty("goal");
+    });
+
+    it("should reject malformed JSON", async () => {
+      const response = await POST(
+        createAPIContext(postRequest("{"), { supabase: mockSupabase, user }),
+      );
+      const body = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(400);
+      expect(body.error?.message).toBe("Invalid JSON in request body");
+    });
+
+    it("should surface service errors with their status", async () => {
+      vi.mocked(createCharter).mockRejectedValue(
+        createAppError("DATABASE_ERROR", 500, "insert failed"),
+      );
+
+      const response = await POST(
+        createAPIContext(postRequest(JSON.stringify({ goal: "x" })), {
+          supabase: mockSupabase,
+          user,
+        }),
+      );
+      const body = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(500);
+      expect(body.error).toEqual({
+        code: "DATABASE_ERROR",
+        message: "insert failed",
+      });
+    });
+  });
+});
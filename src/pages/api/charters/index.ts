@@ -0,0 +1,86 @@
+import type { APIRoute } from "astro";
+import { errorToJsonResponse } from "@/lib/helpers/error.helper";
+import { requireUserContext } from "@/lib/helpers/route.helper";
+import { createCharter, listCharters } from "@/lib/services/charter.service";
+import {
+  CharterCreateSchema,
+  CharterQuerySchema,
+} from "@/lib/validators/charter";
+
+export const prerender = false;
+
+/**
+ * GET /api/charters
+ *
+ * Lists the current user's charters (newest activity first)
+ *
+ * Query parameters:
+ * - after?: string - cursor for keyset pagination (format: "updated_at,id")
+ * - limit?: number - items per page (1-100, default 20)
+ * - status?: "idle" | "active" | "closed"
+ *
+ * Response 200:
+ * { items: CharterDTO[], next_cursor?: string }
+ *
+ * Response 400/401/404/500:
+ * { error: { code, message, details? } }
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(
+      locals,
+      "collections.charters",
+    );
+
+    const url = new URL(request.url);
+    const query = CharterQuerySchema.parse({
+      after: url.searchParams.get("after") ?? undefined,
+      limit: url.searchParams.get("limit") ?? undefined,
+      status: url.searchParams.get("status") ?? undefined,
+    });
+
+    const page = await listCharters(supabase, user.id, query);
+
+    return new Response(JSON.stringify(page), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
+
+/**
+ * POST /api/charters
+ *
+ * Creates a new charter in the "idle" state
+ *
+ * Request body:
+ * { goal: string (1-500 chars), hypotheses?: string | null }
+ *
+ * Response 201:
+ * { data: CharterDTO }
+ *
+ * Response 400/401/404/500:
+ * { error: { code, message, details? } }
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(
+      locals,
+      "collections.charters",
+    );
+
+    const body = await request.json();
+    const validated = CharterCreateSchema.parse(body);
+
+    const charter = await createCharter(supabase, user.id, validated);
+
+    return new Response(JSON.stringify({ data: charter }), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
@@ -0,0 +1,109 @@
+import type { APIRoute } from "astro";
+import { errorToJsonResponse } from "@/lib/helpers/error.helper";
+import { requireUserContext } from "@/lib/helpers/route.helper";
+import {
+  deleteDraft,
+  getDraft,
+  updateDraft,
+} from "@/lib/services/draft.service";
+import { UuidParamSchema } from "@/lib/validators/common";
+import { DraftUpdateSchema } from "@/lib/validators/draft";
+
+export const prerender = false;
+
+/**
+ * GET /api/drafts/[id]
+ *
+ * Returns one of the current user's unexpired drafts
+ *
+ * Response 200:
+ * { data: DraftDTO }
+ *
+ * Response 400/401/404/500:
+ * { error: { code, message } }
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(
+      locals,
+      "collections.templates",
+    );
+    const id = UuidParamSchema.parse(params.id);
+
+    const draft = await getDraft(supabase, user.id, id);
+
+    return new Response(JSON.stringify({ data: draft }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
+
+/**
+ * PATCH /api/drafts/[id]
+ *
+ * Autosave: overwrites the draft (last write wins) and extends its expiry
+ *
+ * Request body:
+ * {
+ *   title?: string (1-200 chars),
+ *   content?: object (max 100 KB serialized),
+ *   template_id?: string | null
+ * }
+ *
+ * Response 200:
+ * { data: DraftDTO }
+ *
+ * Response 400/401/404/500:
+ * { error: { code, message, details? } }
+ */
+export const PATCH: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(
+      locals,
+      "collections.templates",
+    );
+    const id = UuidParamSchema.parse(params.id);
+
+    const body = await request.json();
+    const validated = DraftUpdateSchema.parse(body);
+
+    const draft = await updateDraft(supabase, user.id, id, validated);
+
+    return new Response(JSON.stringify({ data: draft }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
+
+/**
+ * DELETE /api/drafts/[id]
+ *
+ * Discards a draft (e.g. after the report was copied)
+ *
+ * Response 204:
+ * No content
+ *
+ * Response 400/401/404/500:
+ * { error: { code, message } }
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(
+      locals,
+      "collections.templates",
+    );
+    const id = UuidParamSchema.parse(params.id);
+
+    await deleteDraft(supabase, user.id, id);
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
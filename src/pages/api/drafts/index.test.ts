@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIContext, AstroCookies } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/db/database.types";
+
+vi.mock("@/features", () => ({
+  isFeatureEnabled: vi.fn(() => true),
+}));
+
+vi.mock("@/lib/services/draft.service", () => ({
+  listDrafts: vi.fn(),
+  createDraft: vi.fn(),
+}));
+
+import { GET, POST } from "./index";
+import { createDraft, listDrafts } from "@/lib/services/draft.service";
+
+interface ResponseBody {
+  items?: unknown[];
+  data?: Record<string, unknown>;
+  error?: { code: string; message: string; details?: unknown };
+}
+
+const mockSupabase = {} as SupabaseClient<Database>;
+const user = { id: "user-1", email: "user@example.com", role: "user" as const };
+
+function createAPIContext(
+  request: Request,
+  locals: Partial<App.Locals>,
+): APIContext {
+  return {
+    request,
+    cookies: {
+      get: vi.fn(),
+      set: vi.fn(),
+      delete: vi.fn(),
+      has: vi.fn(),
+      merge: vi.fn(),
+      headers: vi.fn(),
+    } as unknown as AstroCookies,
+    url: new URL(request.url),
+    site: undefined,
+    generator: "Astro v5.0.0",
+    params: {},
+    props: {},
+    redirect: vi.fn(),
+    rewrite: vi.fn(),
+    locals,
+    clientAddress: "127.0.0.1",
+    originPathname: "/",
+    getActionResult: vi.fn(),
+    callAction: vi.fn(),
+    session: undefined,
+    preferredLocale: undefined,
+    preferredLocaleList: [],
+    currentLocale: undefined,
+    routePattern: "/api/drafts",
+    isPrerendered: false,
+  } as unknown as APIContext;
+}
+
+function postRequest(body: string) {
+  return new Request("http://localhost:4321/api/drafts", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+  });
+}
+
+const validDraft = {
+  title: "Login fails",
+  content: { template_ref: "preset:ui_bug", values: { title: "Login fails" } },
+};
+
+describe("/api/drafts", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("GET", () => {
+    it("should require authentication", async () => {
+      const request = new Request("http://localhost:4321/api/drafts");
+
+      const response = await GET(
+        createAPIContext(request, { supabase: mockSupabase }),
+      );
+
+      expect(response.status).toBe(401);
+      expect(listDrafts).not.toHaveBeenCalled();
+    });
+
+    it("should list the user's drafts", async () => {
+      vi.mocked(listDrafts).mockResolvedValue({ items: [] });
+      const request = new Request(
+        "http://localhost:4321/api/drafts?limit=5&template_id=11111111-1111-4111-8111-111111111111",
+      );
+
+      const response = await GET(
+        createAPIContext(request, { supabase: mockSupabase, user }),
+      );
+
+      expect(response.status).toBe(200);
+      expect(listDrafts).toHaveBeenCalledWith(mockSupabase, "user-1", {
+        limit: 5,
+        template_id: "11111111-1111-4111-8111-111111111111",
+      });
+    });
+  });
+
+  describe("POST", () => {
+    it("should create a draft", async () => {
+      vi.mocked(createDraft).mockResolvedValue({ id: "d1" } as never);
+
+      const response = await POST(
+        createAPIContext(postRequest(JSON.stringify(validDraft)), {
+          supabase: mockSupabase,
+          user,
+        }),
+      );
+      const body = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(201);
+      expect(body.data?.id).toBe("d1");
+      expect(createDraft).toHaveBeenCalledWith(
+        mockSupabase,
+        "user-1",
+        validDraft,
+      );
+    });
+
+    it("should reject non-object content", async () => {
+      const response = await POST(
+        createAPIContext(
+          postRequest(JSON.stringify({ ...validDraft, content: "text" })),
+          { supabase: mockSupabase, user },
+        ),
+      );
+      const body = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(400);
+      expect(body.error?.code).toBe("VALIDATION_ERROR");
+      expect(createDraft).not.toHaveBeenCalled();
+    });
+
+    it("should reject oversized content", async () => {
+      const response = await POST(
+        createAPIContext(
+          postRequest(
+            JSON.stringify({
+              ...validDraft,
+              content: { values: { steps: "x".repeat(100_001) } },
+            }),
+          ),
+          { supabase: mockSupabase, user },
+        ),
+      );
+
+      expect(response.status).toBe(400);
+      expect(createDraft).not.toHaveBeenCalled();
+    });
+  });
+});
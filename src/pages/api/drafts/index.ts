@@ -0,0 +1,88 @@
+import type { APIRoute } from "astro";
+import { errorToJsonResponse } from "@/lib/helpers/error.helper";
+import { requireUserContext } from "@/lib/helpers/route.helper";
+import { createDraft, listDrafts } from "@/lib/services/draft.service";
+import { DraftCreateSchema, DraftQuerySchema } from "@/lib/validators/draft";
+
+export const prerender = false;
+
+/**
+ * GET /api/drafts
+ *
+ * Lists the current user's unexpired drafts (most recently saved first).
+ * Expired drafts are deleted before the first page is returned.
+ *
+ * Query parameters:
+ * - after?: string - cursor for keyset pagination (format: "updated_at,id")
+ * - limit?: number - items per page (1-100, default 20)
+ * - template_id?: string - only drafts of this template
+ *
+ * Response 200:
+ * { items: DraftDTO[], next_cursor?: string }
+ *
+ * Response 400/401/404/500:
+ * { error: { code, message, details? } }
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(
+      locals,
+      "collections.templates",
+    );
+
+    const url = new URL(request.url);
+    const query = DraftQuerySchema.parse({
+      after: url.searchParams.get("after") ?? undefined,
+      limit: url.searchParams.get("limit") ?? undefined,
+      template_id: url.searchParams.get("template_id") ?? undefined,
+    });
+
+    const page = await listDrafts(supabase, user.id, query);
+
+    return new Response(JSON.stringify(page), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
+
+/**
+ * POST /api/drafts
+ *
+ * Saves a new draft; it expires 7 days after the last save
+ *
+ * Request body:
+ * {
+ *   title: string (1-200 chars),
+ *   content: object (max 100 KB serialized),
+ *   template_id?: string | null
+ * }
+ *
+ * Response 201:
+ * { data: DraftDTO }
+ *
+ * Response 400/401/404/500:
+ * { error: { code, message, details? } }
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(
+      locals,
+      "collections.templates",
+    );
+
+    const body = await request.json();
+    const validated = DraftCreateSchema.parse(body);
+
+    const draft = await createDraft(supabase, user.id, validated);
+
+    return new Response(JSON.stringify({ data: draft }), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIContext, AstroCookies } from "astro";
+
+// Mock feature flags to avoid environment issues
+vi.mock("../../../features", () => ({
+  isFeatureEnabled: vi.fn(() => true),
+}));
+
+import { GET } from "./[kind]";
+import { isFeatureEnabled } from "../../../features";
+
+interface ResponseBody {
+  kind?: string;
+  country?: string;
+  seed?: string;
+  data?: Record<string, string | boolean>;
+  error?: { code: string; message: string };
+}
+
+// Helper to create APIContext for testing
+function createAPIContext(
+  request: Request,
+  params: Record<string, string | undefined>,
+): APIContext {
+  return {
+    request,
+    cookies: {
+      get: vi.fn(),
+      set: vi.fn(),
+      delete: vi.fn(),
+      has: vi.fn(),
+      merge: vi.fn(),
+      headers: vi.fn(),
+    } as unknown as AstroCookies,
+    url: new URL(request.url),
+    site: undefined,
+    generator: "Astro v5.0.0",
+    params,
+    props: {},
+    redirect: vi.fn(),
+    rewrite: vi.fn(),
+    locals: {},
+    clientAddress: "127.0.0.1",
+    originPathname: "/",
+    getActionResult: vi.fn(),
+    callAction: vi.fn(),
+    session: undefined,
+    preferredLocale: undefined,
+    preferredLocaleList: [],
+    currentLocale: undefined,
+    routePattern: "/api/generators/[kind]",
+    isPrerendered: false,
+  } as unknown as APIContext;
+}
+
+async function callGet(kind: string, query: string) {
+  const request = new Request(
+    `https://example.com/api/generators/${kind}?${query}`,
+    { method: "GET" },
+  );
+  return GET(createAPIContext(request, { kind }));
+}
+
+describe("Generic Generator API Endpoint", () => {
+  beforeEach(() => {
+    vi.mocked(isFeatureEnabled).mockReturnValue(true);
+  });
+
+  describe("successful generation", () => {
+    it("should generate an address for Poland", async () => {
+      const response = await callGet("address", "country=PL");
+      const data = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(200);
+      expect(data.kind).toBe("address");
+      expect(data.country).toBe("PL");
+      expect(data.data?.postal_code).toMatch(/^\d{2}-\d{3}$/);
+      expect(data.seed).toBeUndefined();
+      expect(response.headers.get("Cache-Control")).toBe("no-store");
+      expect(response.headers.get("ETag")).toBeNull();
+    });
+
+    it("should return identical data and cache headers for a seeded request", async () => {
+      const first = await callGet("email", "country=DE&seed=abc");
+      const second = await callGet("email", "country=DE&seed=abc");
+
+      expect(await first.json()).toEqual(await second.json());
+      expect(first.headers.get("Cache-Control")).toBe(
+        "public, max-age=31536000, immutable",
+      );
+      expect(first.headers.get("ETag")).toBe(`"${btoa("email:DE:abc::")}"`);
+    });
+
+    it("should apply string options", async () => {
+      const response = await callGet(
+        "string",
+        "country=AT&seed=s1&length=32&charset=hex",
+      );
+      const data = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(200);
+      expect(data.data?.value).toMatch(/^[0-9a-f]{32}$/);
+      expect(response.headers.get("ETag")).toBe(
+        `"${btoa("string:AT:s1:32:hex")}"`,
+      );
+    });
+
+    it("should default national identifiers to their country", async () => {
+      const response = await callGet("steuerid", "seed=s1");
+      const data = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(200);
+      expect(data.country).toBe("DE");
+      expect(data.data?.steuer_id).toMatch(/^[1-9]\d{10}$/);
+    });
+
+    it("should apply PESEL birth date and sex", async () => {
+      const response = await callGet(
+        "pesel",
+        "country=PL&seed=s1&birth_date=2001-02-03&sex=female",
+      );
+      const data = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(200);
+      expect(data.data).toMatchObject({
+        birth_date: "2001-02-03",
+        sex: "female",
+      });
+      expect(data.data?.pesel).toMatch(/^012203\d{3}[02468]\d$/);
+      expect(response.headers.get("ETag")).toBe(
+        `"${btoa("pesel:PL:s1:::2001-02-03:female")}"`,
+      );
+    });
+
+    it("should apply card network and expiry", async () => {
+      const response = await callGet(
+        "card",
+        "country=PL&seed=c1&network=amex&expiry=expired",
+      );
+      const data = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(200);
+      expect(data.data?.number).toMatch(/^3[47]\d{13}$/);
+      expect(data.data?.expired).toBe(true);
+      expect(response.headers.get("Cache-Control")).toBe(
+        "public, max-age=3600",
+      );
+      expect(response.headers.get("ETag")).toBe(
+        `"${btoa(`card:PL:c1:::amex:expired:${new Date().toISOString().slice(0, 7)}`)}"`,
+      );
+    });
+
+    it("should generate REGON-14 for length 14", async () => {
+      const response = await callGet("regon", "length=14");
+      const data = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(200);
+      expect(data.data?.regon).toMatch(/^\d{14}$/);
+    });
+  });
+
+  describe("validation errors", () => {
+    it("should return 404 for an unknown kind", async () => {
+      const response = await callGet("iban2", "country=PL");
+      const data = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(404);
+      expect(data.error?.code).toBe("NOT_FOUND");
+    });
+
+    it("should require country", async () => {
+      const response = await callGet("phone", "");
+      const data = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(400);
+      expect(data.error?.code).toBe("VALIDATION_ERROR");
+    });
+
+    it("should reject unsupported country", async () => {
+      const response = await callGet("phone", "country=FR");
+      expect(response.status).toBe(400);
+    });
+
+    it("should reject invalid seed characters", async () => {
+      const response = await callGet("guid", "country=PL&seed=bad%20seed");
+      expect(response.status).toBe(400);
+    });
+
+    it("should reject out-of-range length", async () => {
+      const response = await callGet("string", "country=PL&length=257");
+      const data = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(400);
+      expect(data.error?.message).toContain("length");
+    });
+
+    it("should reject a national identifier for another country", async () => {
+      const response = await callGet("pesel", "country=DE");
+      const data = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(400);
+      expect(data.error?.message).toBe(
+        "Generator 'pesel' is only available for country 'PL'",
+      );
+    });
+
+    it("should reject unknown card networks", async () => {
+      const response = await callGet("card", "country=PL&network=discover");
+      const data = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(400);
+      expect(data.error?.message).toContain("network");
+    });
+
+    it("should reject REGON lengths other than 9 and 14", async () => {
+      const response = await callGet("regon", "length=10");
+      const data = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(400);
+      expect(data.error?.message).toBe("length: REGON length must be 9 or 14");
+    });
+
+    it("should reject impossible birth dates", async () => {
+      const response = await callGet("pesel", "birth_date=2001-02-30");
+      const data = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(400);
+      expect(data.error?.message).toBe(
+        "birth_date: birth_date must be a YYYY-MM-DD date between 1800 and 2299",
+      );
+    });
+  });
+
+  describe("feature flag", () => {
+    it("should return 404 when generators are disabled", async () => {
+      vi.mocked(isFeatureEnabled).mockReturnValue(false);
+
+      const response = await callGet("address", "country=PL");
+      const data = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(404);
+      expect(data.error?.code).toBe("FEATURE_DISABLED");
+    });
+  });
+});
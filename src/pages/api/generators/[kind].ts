@@ -0,0 +1,227 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import {
+  createAppError,
+  errorToJsonResponse,
+  zodErrorToAppError,
+} from "../../../lib/helpers/error.helper.js";
+import {
+  GENERATOR_KINDS,
+  NATIONAL_ID_COUNTRIES,
+  generateData,
+} from "../../../lib/services/generators/index.js";
+import { STRING_MAX_LENGTH } from "../../../lib/services/generators/string.js";
+import {
+  PESEL_MAX_YEAR,
+  PESEL_MIN_YEAR,
+  parseIsoDate,
+} from "../../../lib/utils/national-id.js";
+import type { GeneratorKind, NationalIdKind } from "../../../types/types";
+import { isFeatureEnabled } from "../../../features";
+
+export const prerender = false;
+
+/**
+ * Query parameter schema for generic data generation
+ * - country: required, must be 'PL', 'DE', or 'AT'
+ * - seed: optional, max 64 chars, alphanumeric + dots/underscores/hyphens
+ * - length/charset: optional, only meaningful for the "string" kind
+ *   (length also selects REGON-9 or REGON-14)
+ * - birth_date/sex: optional, only meaningful for "pesel" (and "svnr")
+ * - network/expiry: optional, only meaningful for the "card" kind
+ */
+const QuerySchema = z.object({
+  country: z.enum(["PL", "DE", "AT"]).optional(),
+  seed: z
+    .string()
+    .max(64, "seed must be at most 64 characters")
+    .regex(
+      /^[A-Za-z0-9._-]+$/,
+      "seed must contain only alphanumeric, dots, underscores, or hyphens",
+    )
+    .optional(),
+  length: z.coerce
+    .number()
+    .int("length must be an integer")
+    .min(1, "length must be at least 1")
+    .max(STRING_MAX_LENGTH, `length must be at most ${STRING_MAX_LENGTH}`)
+    .optional(),
+  charset: z
+    .enum(["alphanumeric", "alpha", "numeric", "hex", "symbols"])
+    .optional(),
+  birth_date: z
+    .string()
+    .refine((value) => {
+      const date = parseIsoDate(value);
+      return (
+        !!date && date.year >= PESEL_MIN_YEAR && date.year <= PESEL_MAX_YEAR
+      );
+    }, `birth_date must be a YYYY-MM-DD date between ${PESEL_MIN_YEAR} and ${PESEL_MAX_YEAR}`)
+    .optional(),
+  sex: z.enum(["male", "female"]).optional(),
+  network: z.enum(["visa", "mastercard", "amex", "maestro"]).optional(),
+  expiry: z.enum(["valid", "expired"]).optional(),
+});
+
+/**
+ * GET /api/generators/{kind}
+ * Generates test data for one of the generic generator kinds
+ *
+ * Path parameters:
+ * - kind: 'address' | 'phone' | 'plates' | 'email' | 'company' | 'card' | 'guid' | 'string'
+ *   | 'pesel' | 'nip' | 'regon' | 'steuerid' | 'svnr'
+ *
+ * Query parameters:
+ * - country: 'PL' | 'DE' | 'AT' (required, except for national identifiers,
+ *   which default to their own country and reject any other)
+ * - seed: string (optional, max 64 chars, [A-Za-z0-9._-])
+ * - length: 1-256 (optional, "string" kind only); 9 | 14 for "regon" (default 9)
+ * - charset: 'alphanumeric' | 'alpha' | 'numeric' | 'hex' | 'symbols' (optional, "string" kind only)
+ * - birth_date: YYYY-MM-DD (optional, "pesel" and "svnr" only, years 1800-2299)
+ * - sex: 'male' | 'female' (optional, "pesel" only)
+ * - network: 'visa' | 'mastercard' | 'amex' | 'maestro' (optional, "card" only)
+ * - expiry: 'valid' | 'expired' (optional, "card" only, default 'valid')
+ *
+ * Response 200:
+ * { "kind": "string", "country": "PL"|"DE"|"AT", "seed"?: "string", "data": {...} }
+ *
+ * Response 400:
+ * { "error": { "code": "VALIDATION_ERROR", "message": "..." } }
+ *
+ * Response 404:
+ * { "error": { "code": "NOT_FOUND", "message": "..." } }
+ */
+export const GET: APIRoute = async ({ params, request }) => {
+  try {
+    // Check if generators feature is enabled
+    if (!isFeatureEnabled("collections.generators")) {
+      throw createAppError(
+        "FEATURE_DISABLED",
+        404,
+        "Generators feature is not available",
+      );
+    }
+
+    const kind = params.kind as GeneratorKind | undefined;
+    if (!kind || !GENERATOR_KINDS.includes(kind)) {
+      throw createAppError(
+        "NOT_FOUND",
+        404,
+        `Unknown generator kind '${params.kind ?? ""}'`,
+      );
+    }
+
+    const url = new URL(request.url);
+    const queryParams = {
+      country: url.searchParams.get("country") ?? undefined,
+      seed: url.searchParams.get("seed") ?? undefined,
+      length: url.searchParams.get("length") ?? undefined,
+      charset: url.searchParams.get("charset") ?? undefined,
+      birth_date: url.searchParams.get("birth_date") ?? undefined,
+      sex: url.searchParams.get("sex") ?? undefined,
+      network: url.searchParams.get("network") ?? undefined,
+      expiry: url.searchParams.get("expiry") ?? undefined,
+    };
+
+    // Validate query parameters
+    const parsed = QuerySchema.parse(queryParams);
+
+    // National identifiers belong to one country
+    const idCountry = NATIONAL_ID_COUNTRIES[kind as NationalIdKind];
+    if (idCountry) {
+      if (parsed.country && parsed.country !== idCountry) {
+        throw createAppError(
+          "VALIDATION_ERROR",
+          400,
+          `Generator '${kind}' is only available for country '${idCountry}'`,
+        );
+      }
+      parsed.country = idCountry;
+    }
+
+    if (kind === "regon" && parsed.length && ![9, 14].includes(parsed.length)) {
+      throw createAppError(
+        "VALIDATION_ERROR",
+        400,
+        "length: REGON length must be 9 or 14",
+      );
+    }
+
+    // Ensure country is provided
+    if (!parsed.country) {
+      throw createAppError(
+        "VALIDATION_ERROR",
+        400,
+        "Query parameter 'country' is required and must be 'PL', 'DE', or 'AT'",
+      );
+    }
+
+    const data = generateData(kind, parsed.country, parsed.seed, {
+      length: parsed.length,
+      charset: parsed.charset,
+      birthDate: parsed.birth_date,
+      sex: parsed.sex,
+      network: parsed.network,
+      expiry: parsed.expiry,
+    });
+
+    // Build response payload
+    const responsePayload: Record<string, unknown> = {
+      kind,
+      country: parsed.country,
+    };
+
+    // Include seed in response if provided
+    if (parsed.seed) {
+      responsePayload.seed = parsed.seed;
+    }
+
+    responsePayload.data = data;
+
+    // Determine cache headers based on whether seed was provided; card
+    // expiry dates are relative to the current month, so they expire sooner
+    const cacheControl = !parsed.seed
+      ? "no-store"
+      : kind === "card"
+        ? "public, max-age=3600"
+        : "public, max-age=31536000, immutable";
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "Cache-Control": cacheControl,
+    };
+
+    // Add ETag for deterministic responses (options change the output too)
+    if (parsed.seed) {
+      const parts = [
+        kind,
+        parsed.country,
+        parsed.seed,
+        parsed.length ?? "",
+        parsed.charset ?? "",
+      ];
+      // Kind-specific options only extend the key when used, keeping older ETags
+      if (parsed.birth_date || parsed.sex) {
+        parts.push(parsed.birth_date ?? "", parsed.sex ?? "");
+      }
+      if (kind === "card") {
+        parts.push(
+          parsed.network ?? "",
+          parsed.expiry ?? "valid",
+          new Date().toISOString().slice(0, 7),
+        );
+      }
+      const key = parts.join(":");
+      headers.ETag = `"${btoa(key)}"`;
+    }
+
+    return new Response(JSON.stringify(responsePayload), {
+      status: 200,
+      headers,
+    });
+  } catch (error) {
+    return errorToJsonResponse(
+      error instanceof z.ZodError ? zodErrorToAppError(error) : error,
+    );
+  }
+};
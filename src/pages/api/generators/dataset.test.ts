@@ -0,0 +1,261 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIContext } from "astro";
+
+// Mock feature flags to avoid environment issues
+vi.mock("../../../features", () => ({
+  isFeatureEnabled: vi.fn(() => true),
+}));
+
+import { POST } from "./dataset";
+import { buildDatasetRow } from "../../../lib/services/dataset.service.js";
+import { isFeatureEnabled } from "../../../features";
+import type { DatasetColumn, ErrorResponse } from "../../../types/types";
+
+const COLUMNS: DatasetColumn[] = [
+  { name: "full_name", kind: "person" },
+  { name: "email", kind: "email" },
+  { name: "city", kind: "address", field: "city" },
+];
+
+async function callPost(body: unknown): Promise<Response> {
+  const request = new Request("https://example.com/api/generators/dataset", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+  return await POST({
+    request,
+    url: new URL(request.url),
+  } as unknown as APIContext);
+}
+
+async function expectValidationError(body: unknown, message: string) {
+  const response = await callPost(body);
+  expect(response.status).toBe(400);
+  const data = (await response.json()) as ErrorResponse;
+  expect(data.error.code).toBe("VALIDATION_ERROR");
+  expect(data.error.message).toContain(message);
+}
+
+describe("Dataset Builder API Endpoint", () => {
+  beforeEach(() => {
+    vi.mocked(isFeatureEnabled).mockReturnValue(true);
+  });
+
+  describe("formats", () => {
+    it("should stream CSV by default", async () => {
+      const response = await callPost({
+        country: "PL",
+        columns: COLUMNS,
+        count: 3,
+        seed: "customers",
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("Content-Type")).toBe(
+        "text/csv; charset=utf-8",
+      );
+      expect(response.headers.get("Content-Disposition")).toBe(
+        'attachment; filename="dataset-PL-customers.csv"',
+      );
+      expect(response.headers.get("Cache-Control")).toBe("no-store");
+      expect(response.headers.get("X-Base-Seed")).toBe("customers");
+
+      const lines = (await response.text()).trimEnd().split("\r\n");
+      const row = buildDatasetRow(
+        { country: "PL", columns: COLUMNS },
+        "customers",
+        0,
+      );
+      expect(lines).toHaveLength(4);
+      expect(lines[0]).toBe("full_name,email,city");
+      expect(lines[1]).toBe(`${row.full_name},${row.email},${row.city}`);
+    });
+
+    it("should return a JSON array of rows", async () => {
+      const response = await callPost({
+        country: "DE",
+        columns: COLUMNS,
+        count: 2,
+        seed: "s",
+        format: "json",
+      });
+
+      expect(response.headers.get("Content-Type")).toBe("application/json");
+      expect(await response.json()).toEqual([
+        buildDatasetRow({ country: "DE", columns: COLUMNS }, "s", 0),
+        buildDatasetRow({ country: "DE", columns: COLUMNS }, "s", 1),
+      ]);
+    });
+
+    it("should return INSERT statements for the given table", async () => {
+      const response = await callPost({
+        country: "AT",
+        columns: COLUMNS,
+        count: 250,
+        seed: "s",
+        format: "sql",
+        table: "customers",
+      });
+
+      expect(response.headers.get("Content-Type")).toBe(
+        "application/sql; charset=utf-8",
+      );
+      const lines = (await response.text()).trimEnd().split("\n");
+      expect(lines).toHaveLength(250);
+      expect(lines[0]).toMatch(
+        /^INSERT INTO "customers" \("full_name", "email", "city"\) VALUES \('.+', '.+', '.+'\);$/,
+      );
+    });
+
+    it("should default to 100 rows and the test_data table", async () => {
+      const response = await callPost({
+        country: "PL",
+        columns: [{ name: "id", kind: "guid" }],
+        format: "sql",
+      });
+
+      const lines = (await response.text()).trimEnd().split("\n");
+      expect(lines).toHaveLength(100);
+      expect(lines[0]).toMatch(/^INSERT INTO "test_data" \("id"\)/);
+    });
+  });
+
+  describe("seeding", () => {
+    it("should return the same file for the same seed", async () => {
+      const body = { country: "PL", columns: COLUMNS, count: 20, seed: "x" };
+      const first = await (await callPost(body)).text();
+      const second = await (await callPost(body)).text();
+
+      expect(first).toBe(second);
+    });
+
+    it("should generate and expose a base seed when omitted", async () => {
+      const response = await callPost({
+        country: "PL",
+        columns: COLUMNS,
+        count: 1,
+      });
+
+      const seed = response.headers.get("X-Base-Seed");
+      expect(seed).toMatch(/^[0-9a-f]{8}$/);
+      expect(response.headers.get("Content-Disposition")).toBe(
+        `attachment; filename="dataset-PL-${seed}.csv"`,
+      );
+    });
+  });
+
+  describe("validation", () => {
+    it("should reject a body that is not JSON", async () => {
+      await expectValidationError("{", "Request body must be valid JSON");
+    });
+
+    it("should require a supported country", async () => {
+      await expectValidationError(
+        { country: "FR", columns: COLUMNS },
+        "country: must be 'PL', 'DE', or 'AT'",
+      );
+    });
+
+    it("should require at least one column", async () => {
+      await expectValidationError(
+        { country: "PL", columns: [] },
+        "columns: at least one column is required",
+      );
+    });
+
+    it("should reject duplicate column names", async () => {
+      await expectValidationError(
+        {
+          country: "PL",
+          columns: [
+            { name: "id", kind: "guid" },
+            { name: "id", kind: "guid" },
+          ],
+        },
+        "columns.1.name: duplicate column name 'id'",
+      );
+    });
+
+    it("should reject column names that are not identifiers", async () => {
+      await expectValidationError(
+        { country: "PL", columns: [{ name: "first name", kind: "person" }] },
+        "columns.0.name: must start with a letter or underscore",
+      );
+    });
+
+    it("should reject unknown kinds", async () => {
+      await expectValidationError(
+        { country: "PL", columns: [{ name: "x", kind: "ssn" }] },
+        "columns.0.kind: must be one of person, address",
+      );
+    });
+
+    it("should reject fields the kind does not have", async () => {
+      await expectValidationError(
+        {
+          country: "PL",
+          columns: [{ name: "x", kind: "guid", field: "city" }],
+        },
+        "columns.0.field: must be one of guid for kind 'guid'",
+      );
+    });
+
+    it("should reject REGON lengths other than 9 and 14", async () => {
+      await expectValidationError(
+        {
+          country: "PL",
+          columns: [{ name: "regon", kind: "regon", options: { length: 10 } }],
+        },
+        "columns.0.options.length: REGON length must be 9 or 14",
+      );
+    });
+
+    it("should reject unknown column options", async () => {
+      await expectValidationError(
+        {
+          country: "PL",
+          columns: [{ name: "x", kind: "guid", options: { upper: true } }],
+        },
+        "columns.0.options",
+      );
+    });
+
+    it("should limit the number of rows", async () => {
+      await expectValidationError(
+        { country: "PL", columns: COLUMNS, count: 1001 },
+        "count: count must be at most 1000",
+      );
+    });
+
+    it("should reject unknown formats and invalid table names", async () => {
+      await expectValidationError(
+        { country: "PL", columns: COLUMNS, format: "xml" },
+        "format: must be one of csv, json, sql",
+      );
+      await expectValidationError(
+        { country: "PL", columns: COLUMNS, format: "sql", table: "a;drop" },
+        "table: must start with a letter or underscore",
+      );
+    });
+
+    it("should reject invalid seeds", async () => {
+      await expectValidationError(
+        { country: "PL", columns: COLUMNS, seed: "bad seed" },
+        "seed: seed must contain only alphanumeric",
+      );
+    });
+  });
+
+  describe("feature flag", () => {
+    it("should return 404 when generators are disabled", async () => {
+      vi.mocked(isFeatureEnabled).mockReturnValue(false);
+
+      const response = await callPost({ country: "PL", columns: COLUMNS });
+
+      expect(response.status).toBe(404);
+      const data = (await response.json()) as ErrorResponse;
+      expect(data.error.code).toBe("FEATURE_DISABLED");
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import {
+  createAppError,
+  errorToJsonResponse,
+  zodErrorToAppError,
+} from "../../../lib/helpers/error.helper.js";
+import {
+  DATASET_COLUMN_KINDS,
+  DATASET_FIELDS,
+  MAX_DATASET_COLUMNS,
+  MAX_DATASET_ROWS,
+  generateDataset,
+} from "../../../lib/services/dataset.service.js";
+import { STRING_MAX_LENGTH } from "../../../lib/services/generators/string.js";
+import {
+  DATASET_EXPORT_CONTENT_TYPES,
+  DATASET_EXPORT_FORMATS,
+  DATASET_IDENTIFIER_PATTERN,
+  DEFAULT_DATASET_TABLE,
+  getDatasetExportFileName,
+  serializeDataset,
+} from "../../../lib/utils/dataset-export.js";
+import type { DatasetColumnKind } from "../../../types/types";
+import { isFeatureEnabled } from "../../../features";
+
+export const prerender = false;
+
+/** Serialized rows enqueued per pull of the response stream */
+const CHUNKS_PER_PULL = 100;
+
+const IDENTIFIER_MESSAGE =
+  "must start with a letter or underscore and contain only letters, digits or underscores (max 63)";
+
+/**
+ * One column: a name, a source kind, an optional output field and the
+ * options of that kind
+ */
+const ColumnSchema = z
+  .object({
+    name: z.string().regex(DATASET_IDENTIFIER_PATTERN, IDENTIFIER_MESSAGE),
+    kind: z.enum(
+      DATASET_COLUMN_KINDS as [DatasetColumnKind, ...DatasetColumnKind[]],
+      {
+        errorMap: () => ({
+          message: `must be one of ${DATASET_COLUMN_KINDS.join(", ")}`,
+        }),
+      },
+    ),
+    field: z.string().optional(),
+    options: z
+      .object({
+        length: z
+          .number()
+          .int("length must be an integer")
+          .min(1, "length must be at least 1")
+          .max(STRING_MAX_LENGTH, `length must be at most ${STRING_MAX_LENGTH}`)
+          .optional(),
+        charset: z
+          .enum(["alphanumeric", "alpha", "numeric", "hex", "symbols"])
+          .optional(),
+        network: z.enum(["visa", "mastercard", "amex", "maestro"]).optional(),
+        expiry: z.enum(["valid", "expired"]).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .superRefine((column, ctx) => {
+    const fields = DATASET_FIELDS[column.kind];
+    if (column.field !== undefined && !fields.includes(column.field)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["field"],
+        message: `must be one of ${fields.join(", ")} for kind '${column.kind}'`,
+      });
+    }
+    const length = column.options?.length;
+    if (column.kind === "regon" && length && ![9, 14].includes(length)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["options", "length"],
+        message: "REGON length must be 9 or 14",
+      });
+    }
+  });
+
+/**
+ * Request body schema for the dataset builder
+ * - country: required, 'PL' | 'DE' | 'AT'
+ * - columns: 1..MAX_DATASET_COLUMNS columns with unique names
+ * - count: optional, 1..MAX_DATASET_ROWS (default 100)
+ * - seed: optional base seed, same rules as the other generators
+ * - format: optional, csv | json | sql (default csv)
+ * - table: optional SQL table name (default "test_data")
+ */
+const BodySchema = z.object({
+  country: z.enum(["PL", "DE", "AT"], {
+    errorMap: () => ({ message: "must be 'PL', 'DE', or 'AT'" }),
+  }),
+  columns: z
+    .array(ColumnSchema)
+    .min(1, "at least one column is required")
+    .max(MAX_DATASET_COLUMNS, `at most ${MAX_DATASET_COLUMNS} columns`)
+    .superRefine((columns, ctx) => {
+      const names = new Set<string>();
+      columns.forEach((column, index) => {
+        if (names.has(column.name)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [index, "name"],
+            message: `duplicate column name '${column.name}'`,
+          });
+        }
+        names.add(column.name);
+      });
+    }),
+  count: z
+    .number()
+    .int("count must be an integer")
+    .min(1, "count must be at least 1")
+    .max(MAX_DATASET_ROWS, `count must be at most ${MAX_DATASET_ROWS}`)
+    .default(100),
+  seed: z
+    .string()
+    .max(64, "seed must be at most 64 characters")
+    .regex(
+      /^[A-Za-z0-9._-]+$/,
+      "seed must contain only alphanumeric, dots, underscores, or hyphens",
+    )
+    .optional(),
+  format: z
+    .enum(DATASET_EXPORT_FORMATS, {
+      errorMap: () => ({
+        message: `must be one of ${DATASET_EXPORT_FORMATS.join(", ")}`,
+      }),
+    })
+    .default("csv"),
+  table: z
+    .string()
+    .regex(DATASET_IDENTIFIER_PATTERN, IDENTIFIER_MESSAGE)
+    .default(DEFAULT_DATASET_TABLE),
+});
+
+/**
+ * POST /api/generators/dataset
+ * Streams a dataset of composite test records as a file download
+ *
+ * Request body (application/json):
+ * { "country": "PL", "count": 100, "seed"?: "customers",
+ *   "format"?: "csv" | "json" | "sql", "table"?: "customers",
+ *   "columns": [
+ *     { "name": "name", "kind": "person" },
+ *     { "name": "email", "kind": "email" },
+ *     { "name": "city", "kind": "address", "field": "city" },
+ *     { "name": "card", "kind": "card", "options": { "network": "visa" } }
+ *   ] }
+ * kind: any generator kind, "iban", or "person" (full_name, first_name,
+ * last_name, birth_date, sex). Each row shares one person: email, pesel and
+ * svnr columns derive from it. Row i uses the seed "<seed>-<i>"; a random
+ * base seed is used and returned in the X-Base-Seed header when omitted
+ *
+ * Response 200: attachment with one record per row
+ * - csv: header with the column names, one line per row
+ * - json: [{ "name": "...", "email": "...", ... }]
+ * - sql: INSERT INTO "customers" ("name", "email") VALUES ('...', '...');
+ *
+ * Response 400:
+ * { "error": { "code": "VALIDATION_ERROR", "message": "..." } }
+ */
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    if (!isFeatureEnabled("collections.generators")) {
+      throw createAppError(
+        "FEATURE_DISABLED",
+        404,
+        "Generators feature is not available",
+      );
+    }
+
+    const body = await request.json().catch(() => undefined);
+    if (body === undefined) {
+      throw createAppError(
+        "VALIDATION_ERROR",
+        400,
+        "Request body must be valid JSON",
+      );
+    }
+
+    const parsed = BodySchema.parse(body);
+    const seed = parsed.seed ?? crypto.randomUUID().slice(0, 8);
+    const chunks = serializeDataset(
+      parsed.columns.map((column) => column.name),
+      generateDataset(parsed, seed),
+      parsed.format,
+      parsed.table,
+    );
+
+    // Generate lazily as the client reads, like the bulk IBAN export
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        for (let i = 0; i < CHUNKS_PER_PULL; i++) {
+          const next = chunks.next();
+          if (next.done) {
+            controller.close();
+            return;
+          }
+          controller.enqueue(encoder.encode(next.value));
+        }
+      },
+      cancel() {
+        chunks.return(undefined);
+      },
+    });
+
+    const fileName = getDatasetExportFileName(
+      parsed.country,
+      seed,
+      parsed.format,
+    );
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        "Content-Type": DATASET_EXPORT_CONTENT_TYPES[parsed.format],
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+        "X-Base-Seed": seed,
+      },
+    });
+  } catch (error) {
+    return errorToJsonResponse(
+      error instanceof z.ZodError ? zodErrorToAppError(error) : error,
+    );
+  }
+};
@@ -9,10 +9,14 @@ vi.mock("../../../features", () => ({
 // Mock iban.service
 vi.mock("../../../lib/services/iban.service.js", () => ({
   generate: vi.fn(),
+  generateDefective: vi.fn(),
 }));
 
 import { GET } from "./iban";
-import { generate } from "../../../lib/services/iban.service.js";
+import {
+  generate,
+  generateDefective,
+} from "../../../lib/services/iban.service.js";
 import { isFeatureEnabled } from "../../../features";
 
 // Helper to create APIContext for testing
@@ -84,12 +88,14 @@ describe("IBAN Generator API Endpoint", () => {
       expect(responseBody).toEqual({
         iban: "DE89370400440532013000",
         country: "DE",
+        bic: "COBADEFFXXX",
+        bankName: "Commerzbank",
       });
 
       expect(response.headers.get("Content-Type")).toBe("application/json");
       expect(response.headers.get("Cache-Control")).toBe("no-store");
 
-      expect(generate).toHaveBeenCalledWith("DE", undefined);
+      expect(generate).toHaveBeenCalledWith("DE", undefined, undefined);
     });
 
     it("should generate IBAN for Austria", async () => {
@@ -112,7 +118,7 @@ describe("IBAN Generator API Endpoint", () => {
         country: "AT",
       });
 
-      expect(generate).toHaveBeenCalledWith("AT", undefined);
+      expect(generate).toHaveBeenCalledWith("AT", undefined, undefined);
     });
 
     it("should generate IBAN for Poland", async () => {
@@ -133,9 +139,11 @@ describe("IBAN Generator API Endpoint", () => {
       expect(responseBody).toEqual({
         iban: "PL61109010140000071219812874",
         country: "PL",
+        bic: "WBKPPLPPXXX",
+        bankName: "Santander Bank Polska",
       });
 
-      expect(generate).toHaveBeenCalledWith("PL", undefined);
+      expect(generate).toHaveBeenCalledWith("PL", undefined, undefined);
     });
 
     it("should generate IBAN with seed", async () => {
@@ -157,6 +165,8 @@ describe("IBAN Generator API Endpoint", () => {
         iban: "DE89370400440532013000",
         country: "DE",
         seed: "test-seed",
+        bic: "COBADEFFXXX",
+        bankName: "Commerzbank",
       });
 
       expect(response.headers.get("Cache-Control")).toBe(
@@ -164,7 +174,7 @@ describe("IBAN Generator API Endpoint", () => {
       );
       expect(response.headers.get("ETag")).toBe('"REU6dGVzdC1zZWVk"');
 
-      expect(generate).toHaveBeenCalledWith("DE", "test-seed");
+      expect(generate).toHaveBeenCalledWith("DE", "test-seed", undefined);
     });
 
     it("should handle seed with special characters", async () => {
@@ -187,9 +197,206 @@ describe("IBAN Generator API Endpoint", () => {
         iban: "DE89370400440532013000",
         country: "DE",
         seed,
+        bic: "COBADEFFXXX",
+        bankName: "Commerzbank",
       });
 
-      expect(generate).toHaveBeenCalledWith("DE", seed);
+      expect(generate).toHaveBeenCalledWith("DE", seed, undefined);
+    });
+  });
+
+  describe("bank directory", () => {
+    it("should pass the bank query to the generator", async () => {
+      const request = new Request(
+        "https://example.com/api/generators/iban?country=PL&seed=abc&bank=mbank",
+      );
+      mockGenerate.mockReturnValue("PL27114020040000300201355387");
+
+      const response = await GET(createAPIContext(request));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        iban: "PL27114020040000300201355387",
+        country: "PL",
+        seed: "abc",
+        bic: "BREXPLPWXXX",
+        bankName: "mBank",
+      });
+      expect(generate).toHaveBeenCalledWith("PL", "abc", "mbank");
+      expect(response.headers.get("ETag")).toBe(`"${btoa("PL:abc:mbank")}"`);
+    });
+
+    it("should omit bank fields for unknown bank codes", async () => {
+      const request = new Request(
+        "https://example.com/api/generators/iban?country=DE",
+      );
+      mockGenerate.mockReturnValue("DE86123456781234567890");
+
+      const response = await GET(createAPIContext(request));
+
+      expect(await response.json()).toEqual({
+        iban: "DE86123456781234567890",
+        country: "DE",
+      });
+    });
+
+    it("should return 400 when no bank matches the query", async () => {
+      const request = new Request(
+        "https://example.com/api/generators/iban?country=AT&bank=nonexistent",
+      );
+
+      const response = await GET(createAPIContext(request));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "bank: no AT bank matches 'nonexistent'",
+        },
+      });
+      expect(generate).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 for countries without a bank directory", async () => {
+      const request = new Request(
+        "https://example.com/api/generators/iban?country=FR&bank=any",
+      );
+
+      const response = await GET(createAPIContext(request));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "bank: the bank directory covers only DE, AT and PL",
+        },
+      });
+      expect(generate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("defects", () => {
+    it("should generate a defective IBAN with the expected reason", async () => {
+      const request = new Request(
+        "https://example.com/api/generators/iban?country=DE&seed=neg&defect=checksum",
+      );
+      vi.mocked(generateDefective).mockReturnValue("DE88370400440532013000");
+
+      const response = await GET(createAPIContext(request));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        iban: "DE88370400440532013000",
+        country: "DE",
+        seed: "neg",
+        bic: "COBADEFFXXX",
+        bankName: "Commerzbank",
+        defect: "checksum",
+        expectedReason: "Invalid checksum (mod-97 validation failed)",
+      });
+      expect(generateDefective).toHaveBeenCalledWith(
+        "DE",
+        "checksum",
+        "neg",
+        undefined,
+      );
+      expect(generate).not.toHaveBeenCalled();
+      expect(response.headers.get("ETag")).toBe(`"${btoa("DE:neg:checksum")}"`);
+    });
+
+    it("should report the strict-mode reason for format defects", async () => {
+      const request = new Request(
+        "https://example.com/api/generators/iban?country=DE&defect=format",
+      );
+      vi.mocked(generateDefective).mockReturnValue(
+        "DE89 3704 0044 0532 0130 00",
+      );
+
+      const response = await GET(createAPIContext(request));
+
+      expect(await response.json()).toEqual({
+        iban: "DE89 3704 0044 0532 0130 00",
+        country: "DE",
+        bic: "COBADEFFXXX",
+        bankName: "Commerzbank",
+        defect: "format",
+        expectedReason:
+          "Not in electronic format (contains whitespace or lowercase)",
+      });
+    });
+
+    it("should return 400 for an unknown defect", async () => {
+      const request = new Request(
+        "https://example.com/api/generators/iban?country=DE&defect=typo",
+      );
+
+      const response = await GET(createAPIContext(request));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: {
+          code: "VALIDATION_ERROR",
+          message:
+            "defect: must be one of checksum, length, country, format, national, characters",
+        },
+      });
+    });
+
+    it("should keep the requested bank for national defects", async () => {
+      const actual = await vi.importActual<
+        typeof import("../../../lib/services/iban.service.js")
+      >("../../../lib/services/iban.service.js");
+      vi.mocked(generateDefective).mockImplementation(actual.generateDefective);
+
+      for (const seed of ["a", "b", "c", "d"]) {
+        const request = new Request(
+          `https://example.com/api/generators/iban?country=DE&seed=${seed}&bank=deutsche&defect=national`,
+        );
+
+        const response = await GET(createAPIContext(request));
+
+        expect(response.status).toBe(200);
+        const body = (await response.json()) as {
+          bankName: string;
+          expectedReason: string;
+        };
+        expect(body.bankName).toBe("Deutsche Bank");
+        expect(body.expectedReason).toMatch(/^Invalid German account check/);
+      }
+    });
+
+    it("should return 400 for national defects of banks without a check method", async () => {
+      const request = new Request(
+        "https://example.com/api/generators/iban?country=DE&bank=ING&defect=national",
+      );
+
+      const response = await GET(createAPIContext(request));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "bank: no DE bank matching 'ING' has national check digits",
+        },
+      });
+      expect(generateDefective).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 for national defects without a national check", async () => {
+      const request = new Request(
+        "https://example.com/api/generators/iban?country=FR&defect=national",
+      );
+
+      const response = await GET(createAPIContext(request));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "defect: 'national' is available for BE, DE, PL only",
+        },
+      });
+      expect(generateDefective).not.toHaveBeenCalled();
     });
   });
 
@@ -241,7 +448,7 @@ describe("IBAN Generator API Endpoint", () => {
         error: {
           code: "VALIDATION_ERROR",
           message:
-            "Query parameter 'country' is required and must be 'DE', 'AT', or 'PL'",
+            "Query parameter 'country' is required and must be a SEPA country code",
         },
       });
 
@@ -265,8 +472,7 @@ describe("IBAN Generator API Endpoint", () => {
       expect(responseBody).toEqual({
         error: {
           code: "VALIDATION_ERROR",
-          message:
-            "country: Invalid enum value. Expected 'DE' | 'AT' | 'PL', received 'US'",
+          message: "country: must be a SEPA country code",
         },
       });
 
@@ -585,6 +791,8 @@ describe("IBAN Generator API Endpoint", () => {
         iban: "DE89370400440532013000",
         country: "DE",
         seed: "test",
+        bic: "COBADEFFXXX",
+        bankName: "Commerzbank",
       });
     });
 
@@ -690,7 +898,7 @@ describe("IBAN Generator API Endpoint", () => {
       await GET(createAPIContext(request));
 
       expect(generate).toHaveBeenCalledTimes(1);
-      expect(generate).toHaveBeenCalledWith("PL", "deterministic");
+      expect(generate).toHaveBeenCalledWith("PL", "deterministic", undefined);
     });
 
     it("should handle service returning different IBAN formats", async () => {
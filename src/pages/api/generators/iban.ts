@@ -1,17 +1,36 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
-import { generate } from "../../../lib/services/iban.service.js";
+import {
+  generate,
+  generateDefective,
+} from "../../../lib/services/iban.service.js";
+import { IBAN_COUNTRY_CODES } from "../../../lib/utils/iban-registry.js";
+import {
+  findBanks,
+  findNationalCheckBanks,
+  hasBankDirectory,
+  resolveBank,
+} from "../../../lib/utils/bank-directory.js";
+import { NATIONAL_CHECK_COUNTRIES } from "../../../lib/utils/bban-check.js";
+import { IBAN_DEFECTS } from "../../../lib/utils/iban-defects.js";
+import { validateIban } from "../../../lib/utils/iban-validator.js";
 import { isFeatureEnabled } from "../../../features";
 
 export const prerender = false;
 
 /**
  * Query parameter schema for IBAN generation
- * - country: required, must be 'DE', 'AT', or 'PL'
+ * - country: required, a SEPA country code from the IBAN registry
  * - seed: optional, max 64 chars, alphanumeric + dots/underscores/hyphens
+ * - bank: optional, "any" or a bank name fragment / BIC prefix (max 64 chars)
+ * - defect: optional, one of IBAN_DEFECTS
  */
 const QuerySchema = z.object({
-  country: z.enum(["DE", "AT", "PL"]).optional(),
+  country: z
+    .enum(IBAN_COUNTRY_CODES, {
+      errorMap: () => ({ message: "must be a SEPA country code" }),
+    })
+    .optional(),
   seed: z
     .string()
     .max(64, "seed must be at most 64 characters")
@@ -20,6 +39,19 @@ const QuerySchema = z.object({
       "seed must contain only alphanumeric, dots, underscores, or hyphens",
     )
     .optional(),
+  bank: z
+    .string()
+    .trim()
+    .min(1, "bank must not be empty")
+    .max(64, "bank must be at most 64 characters")
+    .optional(),
+  defect: z
+    .enum(IBAN_DEFECTS, {
+      errorMap: () => ({
+        message: `must be one of ${IBAN_DEFECTS.join(", ")}`,
+      }),
+    })
+    .optional(),
 });
 
 /**
@@ -27,11 +59,21 @@ const QuerySchema = z.object({
  * Generates a valid IBAN for the specified country
  *
  * Query parameters:
- * - country: 'DE' | 'AT' | 'PL' (required)
+ * - country: SEPA country code, e.g. 'DE', 'FR', 'PL' (required)
  * - seed: string (optional, max 64 chars, [A-Za-z0-9._-])
+ * - bank: string (optional, DE/AT/PL only) - "any" picks a real bank from
+ *   the bundled directory, other values filter it by name or BIC prefix
+ * - defect: "checksum" | "length" | "country" | "format" | "national" |
+ *   "characters" (optional) - generate a negative-test IBAN that fails
+ *   validation with exactly this defect ("national": BE, DE, PL only; with
+ *   bank, only banks that have national check digits)
  *
  * Response 200:
- * { "iban": "string", "country": "DE"|"AT"|"PL", "seed"?: "string" }
+ * { "iban": "string", "country": "DE", "seed"?: "string",
+ *   "bic"?: "string", "bankName"?: "string" }
+ * - bic and bankName are set whenever the bank code is in the directory
+ * - with defect: also "defect" and "expectedReason", the reason returned by
+ *   GET /api/validators/iban?strict=true for this IBAN
  *
  * Response 400:
  * { "error": { "code": "VALIDATION_ERROR", "message": "..." } }
@@ -58,6 +100,8 @@ export const GET: APIRoute = async ({ request }) => {
     const queryParams = {
       country: url.searchParams.get("country") ?? undefined,
       seed: url.searchParams.get("seed") ?? undefined,
+      bank: url.searchParams.get("bank") ?? undefined,
+      defect: url.searchParams.get("defect") ?? undefined,
     };
 
     // Validate query parameters
@@ -67,13 +111,63 @@ export const GET: APIRoute = async ({ request }) => {
     if (!parsed.country) {
       return createErrorResponse(
         "VALIDATION_ERROR",
-        "Query parameter 'country' is required and must be 'DE', 'AT', or 'PL'",
+        "Query parameter 'country' is required and must be a SEPA country code",
         400,
       );
     }
 
-    // Generate IBAN
-    const iban = generate(parsed.country, parsed.seed);
+    if (parsed.bank !== undefined) {
+      if (!hasBankDirectory(parsed.country)) {
+        return createErrorResponse(
+          "VALIDATION_ERROR",
+          "bank: the bank directory covers only DE, AT and PL",
+          400,
+        );
+      }
+      if (findBanks(parsed.country, parsed.bank).length === 0) {
+        return createErrorResponse(
+          "VALIDATION_ERROR",
+          `bank: no ${parsed.country} bank matches '${parsed.bank}'`,
+          400,
+        );
+      }
+    }
+
+    if (
+      parsed.defect === "national" &&
+      !NATIONAL_CHECK_COUNTRIES.includes(parsed.country)
+    ) {
+      return createErrorResponse(
+        "VALIDATION_ERROR",
+        `defect: 'national' is available for ${NATIONAL_CHECK_COUNTRIES.join(", ")} only`,
+        400,
+      );
+    }
+
+    if (
+      parsed.defect === "national" &&
+      parsed.bank !== undefined &&
+      findNationalCheckBanks(parsed.country, parsed.bank).length === 0
+    ) {
+      return createErrorResponse(
+        "VALIDATION_ERROR",
+        `bank: no ${parsed.country} bank matching '${parsed.bank}' has national check digits`,
+        400,
+      );
+    }
+
+    // Generate IBAN (national defects are pre-checked, so never null here)
+    const iban = parsed.defect
+      ? generateDefective(
+          parsed.country,
+          parsed.defect,
+          parsed.seed,
+          parsed.bank,
+        )
+      : generate(parsed.country, parsed.seed, parsed.bank);
+    if (!iban) {
+      throw new Error(`Defect '${parsed.defect}' is not applicable`);
+    }
 
     // Build response payload
     const responsePayload: Record<string, unknown> = {
@@ -81,11 +175,28 @@ export const GET: APIRoute = async ({ request }) => {
       country: parsed.country,
     };
 
+    // Defective IBANs may use print format; the bank code position is kept
+    const bank = resolveBank(
+      parsed.country,
+      iban.replace(/\s/g, "").toUpperCase().slice(4),
+    );
+    if (bank) {
+      responsePayload.bic = bank.bic;
+      responsePayload.bankName = bank.name;
+    }
+
     // Include seed in response if provided
     if (parsed.seed) {
       responsePayload.seed = parsed.seed;
     }
 
+    if (parsed.defect) {
+      responsePayload.defect = parsed.defect;
+      responsePayload.expectedReason = validateIban(iban, {
+        strict: true,
+      }).reason;
+    }
+
     // Determine cache headers based on whether seed was provided
     const cacheControl = parsed.seed
       ? "public, max-age=31536000, immutable"
@@ -98,7 +209,10 @@ export const GET: APIRoute = async ({ request }) => {
 
     // Add ETag for deterministic responses
     if (parsed.seed) {
-      headers.ETag = `"${btoa(`${parsed.country}:${parsed.seed}`)}"`;
+      // Bank names may be non-Latin1 ("Śląski"), which btoa rejects
+      const bankKey = parsed.bank ? `:${encodeURIComponent(parsed.bank)}` : "";
+      const defectKey = parsed.defect ? `:${parsed.defect}` : "";
+      headers.ETag = `"${btoa(`${parsed.country}:${parsed.seed}${bankKey}${defectKey}`)}"`;
     }
 
     return new Response(JSON.stringify(responsePayload), {
@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIContext } from "astro";
+
+// Mock feature flags to avoid environment issues
+vi.mock("../../../../features", () => ({
+  isFeatureEnabled: vi.fn(() => true),
+}));
+
+import { GET } from "./bulk";
+import { GET as getSingle } from "../iban";
+import {
+  MAX_BULK_COUNT,
+  MAX_BULK_SEED_LENGTH,
+  generate,
+} from "../../../../lib/services/iban.service.js";
+import { isFeatureEnabled } from "../../../../features";
+
+async function callGet(query: string): Promise<Response> {
+  const request = new Request(
+    `https://example.com/api/generators/iban/bulk?${query}`,
+  );
+  return await GET({
+    request,
+    url: new URL(request.url),
+  } as unknown as APIContext);
+}
+
+describe("Bulk IBAN Generator API Endpoint", () => {
+  beforeEach(() => {
+    vi.mocked(isFeatureEnabled).mockReturnValue(true);
+  });
+
+  describe("formats", () => {
+    it("should stream CSV by default", async () => {
+      const response = await callGet("country=DE&seed=batch&count=3");
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("Content-Type")).toBe(
+        "text/csv; charset=utf-8",
+      );
+      expect(response.headers.get("Content-Disposition")).toBe(
+        'attachment; filename="ibans-DE-batch.csv"',
+      );
+
+      const lines = (await response.text()).trimEnd().split("\r\n");
+      expect(lines).toHaveLength(4);
+      expect(lines[0]).toBe(
+        "index,iban,country,seed,bic,bank_name,defect,expected_reason",
+      );
+      expect(lines[1]).toBe(`0,${generate("DE", "batch-0")},DE,batch-0,,,,`);
+    });
+
+    it("should return a JSON array", async () => {
+      const response = await callGet("country=AT&seed=s&count=2&format=json");
+
+      expect(response.headers.get("Content-Type")).toBe("application/json");
+      expect(await response.json()).toEqual([
+        { index: 0, iban: generate("AT", "s-0"), country: "AT", seed: "s-0" },
+        { index: 1, iban: generate("AT", "s-1"), country: "AT", seed: "s-1" },
+      ]);
+    });
+
+    it("should return NDJSON lines", async () => {
+      const response = await callGet(
+        "country=PL&seed=s&count=250&format=ndjson",
+      );
+
+      expect(response.headers.get("Content-Type")).toBe("application/x-ndjson");
+      const lines = (await response.text()).trimEnd().split("\n");
+      expect(lines).toHaveLength(250);
+      expect(JSON.parse(lines[249])).toEqual({
+        index: 249,
+        iban: generate("PL", "s-249"),
+        country: "PL",
+        seed: "s-249",
+      });
+    });
+  });
+
+  describe("seeds and caching", () => {
+    it("should mark seeded exports as immutable", async () => {
+      const response = await callGet("country=DE&seed=batch");
+
+      expect(response.headers.get("Cache-Control")).toBe(
+        "public, max-age=31536000, immutable",
+      );
+      expect(response.headers.get("X-Base-Seed")).toBe("batch");
+    });
+
+    it("should pick and report a base seed when none is given", async () => {
+      const response = await callGet("country=DE&count=1&format=ndjson");
+
+      const baseSeed = response.headers.get("X-Base-Seed");
+      expect(baseSeed).toMatch(/^[0-9a-f]{8}$/);
+      expect(response.headers.get("Cache-Control")).toBe("no-store");
+      expect(JSON.parse(await response.text())).toMatchObject({
+        seed: `${baseSeed}-0`,
+      });
+    });
+
+    it("should derive seeds the single generator accepts at the length limit", async () => {
+      const baseSeed = "s".repeat(MAX_BULK_SEED_LENGTH);
+      const response = await callGet(
+        `country=DE&seed=${baseSeed}&count=${MAX_BULK_COUNT}&format=ndjson`,
+      );
+
+      const lines = (await response.text()).trimEnd().split("\n");
+      const last = JSON.parse(lines[lines.length - 1]);
+      expect(last.seed).toBe(`${baseSeed}-${MAX_BULK_COUNT - 1}`);
+      expect(last.seed).toHaveLength(64);
+
+      const request = new Request(
+        `https://example.com/api/generators/iban?country=DE&seed=${last.seed}`,
+      );
+      const single = await getSingle({
+        request,
+        url: new URL(request.url),
+      } as unknown as APIContext);
+      expect(single.status).toBe(200);
+      expect(((await single.json()) as { iban: string }).iban).toBe(last.iban);
+    });
+
+    it("should return 400 for base seeds too long to derive item seeds", async () => {
+      const response = await callGet(
+        `country=DE&seed=${"s".repeat(MAX_BULK_SEED_LENGTH + 1)}`,
+      );
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: {
+          code: "VALIDATION_ERROR",
+          message: `seed: seed must be at most ${MAX_BULK_SEED_LENGTH} characters`,
+        },
+      });
+    });
+
+    it("should default to 100 IBANs", async () => {
+      const response = await callGet("country=BE&seed=s&format=ndjson");
+      expect((await response.text()).trimEnd().split("\n")).toHaveLength(100);
+    });
+  });
+
+  describe("bank and defect", () => {
+    it("should include bank data and expected reasons", async () => {
+      const response = await callGet(
+        "country=DE&seed=neg&count=2&format=json&bank=commerzbank&defect=checksum",
+      );
+
+      expect(await response.json()).toEqual([
+        expect.objectContaining({
+          bankName: "Commerzbank",
+          defect: "checksum",
+          expectedReason: "Invalid checksum (mod-97 validation failed)",
+        }),
+        expect.objectContaining({ bankName: "Commerzbank" }),
+      ]);
+    });
+
+    it("should return 400 when no bank matches the query", async () => {
+      const response = await callGet("country=DE&bank=nope");
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "bank: no DE bank matches 'nope'",
+        },
+      });
+    });
+
+    it("should return 400 for national defects without a national check", async () => {
+      const response = await callGet("country=FR&defect=national");
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "defect: 'national' is available for BE, DE, PL only",
+        },
+      });
+    });
+  });
+
+  describe("input validation errors", () => {
+    it("should reject a missing country", async () => {
+      const response = await callGet("count=10");
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: {
+          code: "VALIDATION_ERROR",
+          message:
+            "Query parameter 'country' is required and must be a SEPA country code",
+        },
+      });
+    });
+
+    it.each([
+      ["0", "count: count must be at least 1"],
+      ["5001", "count: count must be at most 5000"],
+      ["1.5", "count: count must be an integer"],
+      ["many", "count: Expected number, received nan"],
+    ])("should reject count=%s", async (count, message) => {
+      const response = await callGet(`country=DE&count=${count}`);
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: { code: "VALIDATION_ERROR", message },
+      });
+    });
+
+    it("should reject an unknown format", async () => {
+      const response = await callGet("country=DE&format=xml");
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "format: must be one of csv, json, ndjson",
+        },
+      });
+    });
+  });
+
+  it("should return 404 when generators feature is disabled", async () => {
+    vi.mocked(isFeatureEnabled).mockReturnValue(false);
+
+    const response = await callGet("country=DE");
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({
+      error: {
+        code: "FEATURE_DISABLED",
+        message: "IBAN generator feature is not available",
+      },
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import {
+  createAppError,
+  errorToJsonResponse,
+  zodErrorToAppError,
+} from "../../../../lib/helpers/error.helper.js";
+import {
+  MAX_BULK_COUNT,
+  MAX_BULK_SEED_LENGTH,
+  generateBulk,
+} from "../../../../lib/services/iban.service.js";
+import { IBAN_COUNTRY_CODES } from "../../../../lib/utils/iban-registry.js";
+import {
+  findBanks,
+  findNationalCheckBanks,
+  hasBankDirectory,
+} from "../../../../lib/utils/bank-directory.js";
+import { NATIONAL_CHECK_COUNTRIES } from "../../../../lib/utils/bban-check.js";
+import { IBAN_DEFECTS } from "../../../../lib/utils/iban-defects.js";
+import {
+  IBAN_EXPORT_CONTENT_TYPES,
+  IBAN_EXPORT_FORMATS,
+  getIbanExportFileName,
+  serializeIbanRecords,
+} from "../../../../lib/utils/iban-export.js";
+import { isFeatureEnabled } from "../../../../features";
+
+export const prerender = false;
+
+/** Serialized records enqueued per pull of the response stream */
+const CHUNKS_PER_PULL = 100;
+
+/**
+ * Query parameter schema for bulk IBAN generation
+ * - country: required, a SEPA country code from the IBAN registry
+ * - seed: optional base seed, same characters as the single generator and
+ *   at most MAX_BULK_SEED_LENGTH long, so derived seeds stay within its limit
+ * - count: optional, 1..MAX_BULK_COUNT (default 100)
+ * - format: optional, csv | json | ndjson (default csv)
+ * - bank, defect: as for GET /api/generators/iban
+ */
+const QuerySchema = z.object({
+  country: z
+    .enum(IBAN_COUNTRY_CODES, {
+      errorMap: () => ({ message: "must be a SEPA country code" }),
+    })
+    .optional(),
+  seed: z
+    .string()
+    .max(
+      MAX_BULK_SEED_LENGTH,
+      `seed must be at most ${MAX_BULK_SEED_LENGTH} characters`,
+    )
+    .regex(
+      /^[A-Za-z0-9._-]+$/,
+      "seed must contain only alphanumeric, dots, underscores, or hyphens",
+    )
+    .optional(),
+  count: z.coerce
+    .number()
+    .int("count must be an integer")
+    .min(1, "count must be at least 1")
+    .max(MAX_BULK_COUNT, `count must be at most ${MAX_BULK_COUNT}`)
+    .default(100),
+  format: z
+    .enum(IBAN_EXPORT_FORMATS, {
+      errorMap: () => ({
+        message: `must be one of ${IBAN_EXPORT_FORMATS.join(", ")}`,
+      }),
+    })
+    .default("csv"),
+  bank: z
+    .string()
+    .trim()
+    .min(1, "bank must not be empty")
+    .max(64, "bank must be at most 64 characters")
+    .optional(),
+  defect: z
+    .enum(IBAN_DEFECTS, {
+      errorMap: () => ({
+        message: `must be one of ${IBAN_DEFECTS.join(", ")}`,
+      }),
+    })
+    .optional(),
+});
+
+/**
+ * GET /api/generators/iban/bulk
+ * Streams many IBANs of one country as a file download
+ *
+ * Query parameters:
+ * - country: SEPA country code (required)
+ * - seed: base seed (optional, max 59 chars; a random one is used and
+ *   returned in the X-Base-Seed header when omitted). IBAN number i uses the seed
+ *   "<seed>-<i>", so GET /api/generators/iban with that seed returns the
+ *   same IBAN
+ * - count: number of IBANs, 1..5000 (optional, default 100)
+ * - format: "csv" | "json" | "ndjson" (optional, default "csv")
+ * - bank, defect: same as GET /api/generators/iban
+ *
+ * Response 200: attachment with one record per IBAN
+ * { "index": 0, "iban": "...", "country": "DE", "seed": "<seed>-0",
+ *   "bic"?: "...", "bankName"?: "...", "defect"?: "...",
+ *   "expectedReason"?: "..." }
+ * CSV columns: index,iban,country,seed,bic,bank_name,defect,expected_reason
+ *
+ * Response 400:
+ * { "error": { "code": "VALIDATION_ERROR", "message": "..." } }
+ */
+export const GET: APIRoute = async ({ request }) => {
+  try {
+    if (!isFeatureEnabled("collections.generators")) {
+      throw createAppError(
+        "FEATURE_DISABLED",
+        404,
+        "IBAN generator feature is not available",
+      );
+    }
+
+    const url = new URL(request.url);
+    const parsed = QuerySchema.parse({
+      country: url.searchParams.get("country") ?? undefined,
+      seed: url.searchParams.get("seed") ?? undefined,
+      count: url.searchParams.get("count") ?? undefined,
+      format: url.searchParams.get("format") ?? undefined,
+      bank: url.searchParams.get("bank") ?? undefined,
+      defect: url.searchParams.get("defect") ?? undefined,
+    });
+
+    if (!parsed.country) {
+      throw createAppError(
+        "VALIDATION_ERROR",
+        400,
+        "Query parameter 'country' is required and must be a SEPA country code",
+      );
+    }
+
+    if (parsed.bank !== undefined) {
+      if (!hasBankDirectory(parsed.country)) {
+        throw createAppError(
+          "VALIDATION_ERROR",
+          400,
+          "bank: the bank directory covers only DE, AT and PL",
+        );
+      }
+      if (findBanks(parsed.country, parsed.bank).length === 0) {
+        throw createAppError(
+          "VALIDATION_ERROR",
+          400,
+          `bank: no ${parsed.country} bank matches '${parsed.bank}'`,
+        );
+      }
+    }
+
+    if (
+      parsed.defect === "national" &&
+      !NATIONAL_CHECK_COUNTRIES.includes(parsed.country)
+    ) {
+      throw createAppError(
+        "VALIDATION_ERROR",
+        400,
+        `defect: 'national' is available for ${NATIONAL_CHECK_COUNTRIES.join(", ")} only`,
+      );
+    }
+
+    if (
+      parsed.defect === "national" &&
+      parsed.bank !== undefined &&
+      findNationalCheckBanks(parsed.country, parsed.bank).length === 0
+    ) {
+      throw createAppError(
+        "VALIDATION_ERROR",
+        400,
+        `bank: no ${parsed.country} bank matching '${parsed.bank}' has national check digits`,
+      );
+    }
+
+    const seed = parsed.seed ?? crypto.randomUUID().slice(0, 8);
+    const chunks = serializeIbanRecords(
+      generateBulk({
+        country: parsed.country,
+        count: parsed.count,
+        seed,
+        bank: parsed.bank,
+        defect: parsed.defect,
+      }),
+      parsed.format,
+    );
+
+    // Generate lazily as the client reads, so large exports never sit in
+    // memory as a whole
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        for (let i = 0; i < CHUNKS_PER_PULL; i++) {
+          const next = chunks.next();
+          if (next.done) {
+            controller.close();
+            return;
+          }
+          controller.enqueue(encoder.encode(next.value));
+        }
+      },
+      cancel() {
+        chunks.return(undefined);
+      },
+    });
+
+    const fileName = getIbanExportFileName(parsed.country, seed, parsed.format);
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        "Content-Type": IBAN_EXPORT_CONTENT_TYPES[parsed.format],
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": parsed.seed
+          ? "public, max-age=31536000, immutable"
+          : "no-store",
+        "X-Base-Seed": seed,
+      },
+    });
+  } catch (error) {
+    return errorToJsonResponse(
+      error instanceof z.ZodError ? zodErrorToAppError(error) : error,
+    );
+  }
+};
@@ -0,0 +1,37 @@
+import type { APIRoute } from "astro";
+import { errorToJsonResponse } from "@/lib/helpers/error.helper";
+import { getRequestContext } from "@/lib/helpers/route.helper";
+import { listKbEntryDuplicates } from "@/lib/services/kb.service";
+import { UuidParamSchema } from "@/lib/validators/common";
+
+export const prerender = false;
+
+/**
+ * GET /api/kb/entries/[id]/duplicates
+ *
+ * Possible duplicates of a KB entry: other entries with the same canonical
+ * URL or a near-identical title (trigram similarity >= 0.6), URL matches
+ * first. Only entries the caller can read are compared (RLS).
+ *
+ * Response 200:
+ * { items: [{ id, user_id, title, url_original, is_public,
+ *             match: "url" | "title", similarity: number }] } (top 5)
+ *
+ * Response 400/404/500:
+ * { error: { code, message, details? } }
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    const { supabase } = getRequestContext(locals);
+    const id = UuidParamSchema.parse(params.id);
+
+    const duplicates = await listKbEntryDuplicates(supabase, id);
+
+    return new Response(JSON.stringify(duplicates), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
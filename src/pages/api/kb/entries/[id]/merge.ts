@@ -0,0 +1,49 @@
+import type { APIRoute } from "astro";
+import { errorToJsonResponse } from "@/lib/helpers/error.helper";
+import { requireUserContext } from "@/lib/helpers/route.helper";
+import { mergeKbEntries } from "@/lib/services/kb.service";
+import { UuidParamSchema } from "@/lib/validators/common";
+import { KbMergeEntriesSchema } from "@/lib/validators/kb";
+
+export const prerender = false;
+
+/**
+ * POST /api/kb/entries/[id]/merge
+ *
+ * Merges duplicate entries into this one (admins only): their tags are
+ * added to this entry's, their notes move here and they are deleted, in one
+ * transaction. Title, URL and visibility of this entry stay as they are.
+ *
+ * Request body:
+ * { source_ids: string[] (1-20 entry IDs, not including this one) }
+ *
+ * Response 200:
+ * { data: KBEntryDTO } - the merged entry
+ *
+ * Response 403:
+ * { error: { code: "FORBIDDEN", message } } - not an admin
+ *
+ * Response 404:
+ * { error: { code: "NOT_FOUND", message } } - this or a merged entry missing
+ *
+ * Response 400/401/500:
+ * { error: { code, message, details? } }
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(locals);
+    const id = UuidParamSchema.parse(params.id);
+
+    const body = await request.json();
+    const validated = KbMergeEntriesSchema.parse(body);
+
+    const entry = await mergeKbEntries(supabase, user, id, validated);
+
+    return new Response(JSON.stringify({ data: entry }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
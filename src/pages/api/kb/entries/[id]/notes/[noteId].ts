@@ -0,0 +1,71 @@
+import type { APIRoute } from "astro";
+import { errorToJsonResponse } from "@/lib/helpers/error.helper";
+import { requireUserContext } from "@/lib/helpers/route.helper";
+import { deleteKbNote, updateKbNote } from "@/lib/services/kb.service";
+import { UuidParamSchema } from "@/lib/validators/common";
+import { KbNoteBodySchema } from "@/lib/validators/kb";
+
+export const prerender = false;
+
+/**
+ * PUT /api/kb/entries/[id]/notes/[noteId]
+ *
+ * Replaces the body of a note (requires authentication)
+ * - Users can edit their own notes on their own private entries, admins
+ *   any note
+ *
+ * Request body:
+ * { body: string (1-5000 chars, Markdown) }
+ *
+ * Response 200:
+ * { data: KBNoteDTO }
+ *
+ * Response 403:
+ * { error: { code: "FORBIDDEN", message } }
+ *
+ * Response 400/401/404/500:
+ * { error: { code, message, details? } }
+ */
+export const PUT: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(locals);
+    const id = UuidParamSchema.parse(params.id);
+    const noteId = UuidParamSchema.parse(params.noteId);
+
+    const body = await request.json();
+    const validated = KbNoteBodySchema.parse(body);
+
+    const note = await updateKbNote(supabase, user, id, noteId, validated);
+
+    return new Response(JSON.stringify({ data: note }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
+
+/**
+ * DELETE /api/kb/entries/[id]/notes/[noteId]
+ *
+ * Deletes a note (requires authentication, same rules as PUT)
+ *
+ * Response 204: no content
+ *
+ * Response 400/401/403/404/500:
+ * { error: { code, message, details? } }
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(locals);
+    const id = UuidParamSchema.parse(params.id);
+    const noteId = UuidParamSchema.parse(params.noteId);
+
+    await deleteKbNote(supabase, user, id, noteId);
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
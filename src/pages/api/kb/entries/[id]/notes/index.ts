@@ -0,0 +1,87 @@
+import type { APIRoute } from "astro";
+import { errorToJsonResponse } from "@/lib/helpers/error.helper";
+import {
+  getRequestContext,
+  requireUserContext,
+} from "@/lib/helpers/route.helper";
+import { addKbNote, listKbNotes } from "@/lib/services/kb.service";
+import { UuidParamSchema } from "@/lib/validators/common";
+import { KbNoteBodySchema, KbNoteQuerySchema } from "@/lib/validators/kb";
+
+export const prerender = false;
+
+/**
+ * GET /api/kb/entries/[id]/notes
+ *
+ * Lists notes of a KB entry, oldest first
+ * - Anyone who can read the entry can read its notes (anonymous visitors:
+ *   public entries only)
+ *
+ * Query parameters:
+ * - after?: string - cursor for keyset pagination (format: "created_at,id")
+ * - limit?: number - items per page (1-100, default 20)
+ *
+ * Response 200:
+ * { items: KBNoteDTO[], next_cursor?: string }
+ *
+ * Response 400/404/500:
+ * { error: { code, message, details? } }
+ */
+export const GET: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const { supabase } = getRequestContext(locals);
+    const id = UuidParamSchema.parse(params.id);
+
+    const url = new URL(request.url);
+    const query = KbNoteQuerySchema.parse({
+      after: url.searchParams.get("after") ?? undefined,
+      limit: url.searchParams.get("limit") ?? undefined,
+    });
+
+    const page = await listKbNotes(supabase, id, query);
+
+    return new Response(JSON.stringify(page), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
+
+/**
+ * POST /api/kb/entries/[id]/notes
+ *
+ * Adds a Markdown note to a KB entry (requires authentication)
+ * - Users can add notes to their own private entries, admins to any entry
+ *
+ * Request body:
+ * { body: string (1-5000 chars, Markdown) }
+ *
+ * Response 201:
+ * { data: KBNoteDTO }
+ *
+ * Response 403:
+ * { error: { code: "FORBIDDEN", message } } - public or foreign entry
+ *
+ * Response 400/401/404/500:
+ * { error: { code, message, details? } }
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(locals);
+    const id = UuidParamSchema.parse(params.id);
+
+    const body = await request.json();
+    const validated = KbNoteBodySchema.parse(body);
+
+    const note = await addKbNote(supabase, user, id, validated);
+
+    return new Response(JSON.stringify({ data: note }), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
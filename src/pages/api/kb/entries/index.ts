@@ -1,7 +1,13 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
-import type { KBEntryDTO, KBListResponse } from "@/types/types";
-import { KbEntryCreateSchema, KbEntryQuerySchema } from "@/lib/validators/kb";
+import type { KBEntryDTO } from "@/types/types";
+import { errorToJsonResponse, isAppError } from "@/lib/helpers/error.helper";
+import { getRequestContext } from "@/lib/helpers/route.helper";
+import { findKbDuplicates, listKbEntries } from "@/lib/services/kb.service";
+import {
+  KbEntryCreateRequestSchema,
+  KbEntryQuerySchema,
+} from "@/lib/validators/kb";
 
 export const prerender = false;
 
@@ -13,139 +19,55 @@ export const prerender = false;
  * - Anonymous users: only public entries (is_public = true)
  *
  * Query parameters:
- * - after?: string - cursor for keyset pagination (format: "updated_at,id")
+ * - after?: string - cursor for keyset pagination (format: "<sort key>,id",
+ *   e.g. "updated_at,id"); pass back next_cursor of the same sort
  * - limit?: number - items per page (1-100, default 20)
+ * - q?: string - full-text search over titles and notes, ranked, with snippets
+ * - tags?: string - comma-separated tags
+ * - tag_match?: "any" | "all" - entries with any (default) or all of the tags
+ * - owner?: "me" | "public" - own entries (requires authentication) or public
+ * - sort?: "relevance" | "updated" | "created" | "title" - relevance (default
+ *   with q) needs q; otherwise "updated" (newest first) is the default
  *
  * Response 200:
- * { items: KBEntryDTO[], next_cursor?: string }
+ * { items: KBListItemDTO[], next_cursor?: string }
+ * Search results add rank (ts_rank) and snippet (matches in <mark>…</mark>)
+ *
+ * Response 400:
+ * { error: { code: "VALIDATION_ERROR", message: "Invalid input",
+ *            details: Record<string, string> } }
+ * details maps each invalid parameter to its message (it used to be the raw
+ * Zod issue array under "Invalid query parameters")
+ *
+ * Response 401:
+ * { error: { code: "UNAUTHENTICATED", message: string } } - owner=me signed out
  *
  * Response 500:
  * { error: { code: "CONFIGURATION_ERROR" | "DATABASE_ERROR", message: string } }
  */
 export const GET: APIRoute = async ({ request, locals }) => {
-  const supabase = locals.supabase;
-  const user = locals.user; // może być null
-
-  if (!supabase) {
-    return new Response(
-      JSON.stringify({
-        error: {
-          code: "CONFIGURATION_ERROR",
-          message: "Supabase client not available",
-        },
-      }),
-      { status: 500, headers: { "Content-Type": "application/json" } },
-    );
-  }
-
   try {
-    // Parse and validate query parameters
+    const { supabase, user } = getRequestContext(locals);
+
     const url = new URL(request.url);
-    const queryParams = {
+    const query = KbEntryQuerySchema.parse({
       after: url.searchParams.get("after") ?? undefined,
       limit: url.searchParams.get("limit") ?? undefined,
-    };
-
-    const parsed = KbEntryQuerySchema.parse(queryParams);
-
-    // Build base query
-    let query = supabase.from("kb_entries").select("*");
-
-    // Apply conditional filtering based on authentication
-    if (user) {
-      // Authenticated: own entries + public entries
-      query = query.or(`user_id.eq.${user.id},is_public.eq.true`);
-    } else {
-      // Anonymous: only public entries
-      query = query.eq("is_public", true);
-    }
-
-    // Apply keyset pagination cursor if provided
-    if (parsed.after) {
-      const [updatedAt, id] = parsed.after.split(",");
-      if (updatedAt && id) {
-        // Keyset pagination: get items where updated_at < cursor_updated_at
-        // OR (updated_at = cursor_updated_at AND id < cursor_id)
-        // Since we order descending, we filter for items "before" the cursor
-        query = query.or(
-          `updated_at.lt.${updatedAt},and(updated_at.eq.${updatedAt},id.lt.${id})`,
-        );
-      }
-    }
-
-    // Apply sorting and limit
-    // Fetch limit + 1 to determine if there's a next page
-    query = query
-      .order("updated_at", { ascending: false })
-      .order("id", { ascending: false })
-      .limit(parsed.limit + 1);
-
-    const { data, error } = await query;
-
-    if (error) {
-      return new Response(
-        JSON.stringify({
-          error: {
-            code: "DATABASE_ERROR",
-            message: error.message,
-          },
-        }),
-        { status: 500, headers: { "Content-Type": "application/json" } },
-      );
-    }
-
-    // Process results for pagination
-    const items = data?.slice(0, parsed.limit) || [];
-    const hasNextPage = (data?.length || 0) > parsed.limit;
-
-    // Calculate next_cursor from the last item
-    const next_cursor =
-      hasNextPage && items.length > 0
-        ? `${items[items.length - 1].updated_at},${items[items.length - 1].id}`
-        : undefined;
-
-    // Remove search_vector from response (internal field)
-    const itemsWithoutSearchVector: KBEntryDTO[] = items.map((item) => {
-      const clone = { ...item } as Record<string, unknown>;
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      delete (clone as any).search_vector;
-      return clone as KBEntryDTO;
+      q: url.searchParams.get("q") ?? undefined,
+      tags: url.searchParams.get("tags") ?? undefined,
+      tag_match: url.searchParams.get("tag_match") ?? undefined,
+      owner: url.searchParams.get("owner") ?? undefined,
+      sort: url.searchParams.get("sort") ?? undefined,
     });
 
-    const response: KBListResponse = {
-      items: itemsWithoutSearchVector,
-      next_cursor,
-    };
+    const page = await listKbEntries(supabase, user, query);
 
-    return new Response(JSON.stringify(response), {
+    return new Response(JSON.stringify(page), {
       status: 200,
       headers: { "Content-Type": "application/json" },
     });
   } catch (error) {
-    // Handle validation errors
-    if (error instanceof z.ZodError) {
-      return new Response(
-        JSON.stringify({
-          error: {
-            code: "VALIDATION_ERROR",
-            message: "Invalid query parameters",
-            details: error.errors,
-          },
-        }),
-        { status: 400, headers: { "Content-Type": "application/json" } },
-      );
-    }
-
-    // Handle unexpected errors
-    return new Response(
-      JSON.stringify({
-        error: {
-          code: "INTERNAL",
-          message: "An unexpected error occurred",
-        },
-      }),
-      { status: 500, headers: { "Content-Type": "application/json" } },
-    );
+    return errorToJsonResponse(error);
   }
 };
 
@@ -159,9 +81,15 @@ export const GET: APIRoute = async ({ request, locals }) => {
  *   title: string (1-200 chars),
  *   url_original: string (valid URL),
  *   tags?: string[],
- *   is_public?: boolean (default: false)
+ *   is_public?: boolean (default: false),
+ *   allow_duplicates?: boolean (default: false)
  * }
  *
+ * Before saving, entries the user can read are checked for the same
+ * canonical URL or a near-identical title. Possible duplicates are reported
+ * with 409 unless allow_duplicates is true; a link already in the user's own
+ * KB is always rejected.
+ *
  * Response 201:
  * { data: KBEntryDTO }
  *
@@ -171,6 +99,10 @@ export const GET: APIRoute = async ({ request, locals }) => {
  * Response 401:
  * { error: { code: "UNAUTHENTICATED", message: string } }
  *
+ * Response 409:
+ * { error: { code: "CONFLICT", message: string,
+ *            details: { duplicates: KBDuplicateDTO[] } } }
+ *
  * Response 500:
  * { error: { code: "DATABASE_ERROR", message: string } }
  */
@@ -204,7 +136,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
   try {
     const body = await request.json();
-    const validated = KbEntryCreateSchema.parse(body);
+    const validated = KbEntryCreateRequestSchema.parse(body);
 
     // Role pre-checks: only admins can create public entries
     if (user.role !== "admin" && validated.is_public === true) {
@@ -220,6 +152,30 @@ export const POST: APIRoute = async ({ request, locals }) => {
       );
     }
 
+    // Duplicate check: the user's own link cannot be saved twice (unique
+    // index), other matches can be confirmed with allow_duplicates
+    const duplicates = await findKbDuplicates(supabase, {
+      url: validated.url_original,
+      title: validated.title,
+    });
+    const isOwnLink = duplicates.some(
+      (duplicate) => duplicate.match === "url" && duplicate.user_id === user.id,
+    );
+    if (isOwnLink || (duplicates.length > 0 && !validated.allow_duplicates)) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "CONFLICT",
+            message: isOwnLink
+              ? "You already saved this link"
+              : "Possible duplicates found",
+            details: { duplicates },
+          },
+        }),
+        { status: 409, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
     // Insert entry - search_vector is required by type but will be auto-populated by trigger
     const { data, error } = await supabase
       .from("kb_entries")
@@ -236,6 +192,19 @@ export const POST: APIRoute = async ({ request, locals }) => {
       .select()
       .single();
 
+    // Saved concurrently by another request of the same user
+    if (error?.code === "23505") {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "CONFLICT",
+            message: "You already saved this link",
+          },
+        }),
+        { status: 409, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
     if (error) {
       return new Response(
         JSON.stringify({
@@ -283,6 +252,11 @@ export const POST: APIRoute = async ({ request, locals }) => {
       );
     }
 
+    // Errors raised by the services (duplicate check)
+    if (isAppError(error)) {
+      return errorToJsonResponse(error);
+    }
+
     // Handle unexpected errors
     throw error;
   }
@@ -0,0 +1,54 @@
+import type { APIRoute } from "astro";
+import { errorToJsonResponse } from "@/lib/helpers/error.helper";
+import { requireUserContext } from "@/lib/helpers/route.helper";
+import { exportKbEntries } from "@/lib/services/kb.service";
+import {
+  KB_EXPORT_CONTENT_TYPES,
+  getKbExportFileName,
+  serializeKbExport,
+} from "@/lib/utils/kb-export";
+import { KbExportQuerySchema } from "@/lib/validators/kb";
+
+export const prerender = false;
+
+/**
+ * GET /api/kb/export
+ *
+ * Downloads the caller's KB entries with their notes (requires
+ * authentication, feature flag collections.export)
+ *
+ * Query parameters:
+ * - format?: "json" (default) | "md" | "html"
+ *   - json: KBExportDTO { entries: KBEntryDTO[], notes: KBNoteDTO[] }
+ *   - md: one "## [title](url)" section per entry, tags and quoted notes
+ *   - html: Netscape bookmark file (TAGS attribute, notes as <DD>)
+ *
+ * Response 200: the file, as an attachment named kb-export-YYYY-MM-DD.<format>
+ *
+ * Response 400/401/404/500:
+ * { error: { code, message, details? } }
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(locals, "collections.export");
+
+    const url = new URL(request.url);
+    const { format } = KbExportQuerySchema.parse({
+      format: url.searchParams.get("format") ?? undefined,
+    });
+
+    const data = await exportKbEntries(supabase, user.id);
+    const fileName = getKbExportFileName(format, new Date());
+
+    return new Response(serializeKbExport(format, data), {
+      status: 200,
+      headers: {
+        "Content-Type": KB_EXPORT_CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
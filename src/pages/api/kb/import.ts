@@ -0,0 +1,113 @@
+import type { APIRoute } from "astro";
+import {
+  createAppError,
+  errorToJsonResponse,
+} from "@/lib/helpers/error.helper";
+import { requireUserContext } from "@/lib/helpers/route.helper";
+import { importKbEntries } from "@/lib/services/kb.service";
+import {
+  MAX_KB_IMPORT_ENTRIES,
+  MAX_KB_IMPORT_SIZE,
+  detectKbImportFormat,
+  parseKbBookmarksHtml,
+  parseKbJson,
+  parseKbMarkdown,
+  type KbImportCandidate,
+} from "@/lib/utils/kb-import";
+import { KbImportJsonSchema, KbImportQuerySchema } from "@/lib/validators/kb";
+import type { KBExportFormat } from "@/types/types";
+
+export const prerender = false;
+
+function parseImport(
+  format: KBExportFormat,
+  content: string,
+): KbImportCandidate[] {
+  switch (format) {
+    case "json":
+      return parseKbJson(KbImportJsonSchema.parse(JSON.parse(content)));
+    case "md":
+      return parseKbMarkdown(content);
+    case "html":
+      return parseKbBookmarksHtml(content);
+  }
+}
+
+/**
+ * POST /api/kb/import
+ *
+ * Imports entries into the caller's KB (requires authentication, feature
+ * flag collections.export)
+ * - URLs already in the caller's KB or repeated in the file are skipped
+ *   (compared by url_canonical)
+ * - Bookmark folders become tags; notes are imported with new entries
+ * - is_public is kept for admins only; everyone else imports private entries
+ *
+ * Query parameters:
+ * - format?: "json" | "md" | "html" - defaults to the Content-Type
+ *   (application/json, text/markdown, text/html), then to the content
+ *
+ * Request body (up to 1000 entries, 5 MB), any format GET /api/kb/export
+ * writes:
+ * - json: KBExportDTO, or a bare array of { title, url_original, tags? }
+ * - md: "## [title](url)" sections or "- [title](url)" list items
+ * - html: Netscape bookmark file exported by a browser
+ *
+ * Response 200:
+ * { "summary": { "total": 3, "created": 1, "skipped": 1, "failed": 1 },
+ *   "results": [{ "row": 1, "title": "...", "url": "...",
+ *                 "status": "created", "entry_id": "...", "notes"?: 2 },
+ *               { "row": 2, ..., "status": "skipped", "reason": "..." }] }
+ * row is the JSON index + 1, or the line of the entry in the file
+ *
+ * Response 400/401/404/500:
+ * { error: { code, message, details? } }
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(locals, "collections.export");
+
+    const url = new URL(request.url);
+    const query = KbImportQuerySchema.parse({
+      format: url.searchParams.get("format") ?? undefined,
+    });
+
+    const content = await request.text();
+    if (content.length > MAX_KB_IMPORT_SIZE) {
+      throw createAppError(
+        "VALIDATION_ERROR",
+        400,
+        "Import file is too large (max 5 MB)",
+      );
+    }
+
+    const format =
+      query.format ??
+      detectKbImportFormat(request.headers.get("Content-Type") ?? "", content);
+    const candidates = parseImport(format, content);
+
+    if (candidates.length === 0) {
+      throw createAppError(
+        "VALIDATION_ERROR",
+        400,
+        "Import file contains no entries",
+      );
+    }
+    if (candidates.length > MAX_KB_IMPORT_ENTRIES) {
+      throw createAppError(
+        "VALIDATION_ERROR",
+        400,
+        `At most ${MAX_KB_IMPORT_ENTRIES} entries per import`,
+      );
+    }
+
+    const report = await importKbEntries(supabase, user, candidates);
+
+    return new Response(JSON.stringify(report), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
@@ -0,0 +1,61 @@
+import type { APIRoute } from "astro";
+import {
+  createAppError,
+  errorToJsonResponse,
+} from "@/lib/helpers/error.helper";
+import { requireUserContext } from "@/lib/helpers/route.helper";
+import { runKbLinkCheck } from "@/lib/services/kb.service";
+import { KbLinkCheckSchema } from "@/lib/validators/kb";
+
+export const prerender = false;
+
+/**
+ * POST /api/kb/link-check
+ *
+ * Checks the links of KB entries now (admins only) and stores the HTTP
+ * status, redirect target and check time on each entry. The scheduled
+ * worker (src/workers/kb-link-check.ts) does the same daily.
+ *
+ * Request body (optional):
+ * { entry_ids?: string[] (1-50), limit?: number (1-50, default 20) }
+ * Without entry_ids, entries never checked or checked over 7 days ago are
+ * picked, least recently checked first.
+ *
+ * Response 200:
+ * KBLinkCheckReport { checked, broken, moved, results: [{ id,
+ *   url_original, link_status, link_redirect_url, link_redirect_permanent,
+ *   link_error, link_checked_at, health }] }
+ *
+ * Response 403:
+ * { error: { code: "FORBIDDEN", message } } - not an admin
+ *
+ * Response 400/401/500:
+ * { error: { code, message, details? } }
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(locals);
+    if (user.role !== "admin") {
+      throw createAppError(
+        "FORBIDDEN",
+        403,
+        "Only admins can run the link check",
+      );
+    }
+
+    const text = await request.text();
+    const validated = KbLinkCheckSchema.parse(text ? JSON.parse(text) : {});
+
+    const report = await runKbLinkCheck(supabase, {
+      entryIds: validated.entry_ids,
+      limit: validated.limit,
+    });
+
+    return new Response(JSON.stringify(report), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
@@ -0,0 +1,44 @@
+import type { APIRoute } from "astro";
+import { errorToJsonResponse } from "@/lib/helpers/error.helper";
+import { getRequestContext } from "@/lib/helpers/route.helper";
+import { listKbTagFacets } from "@/lib/services/kb.service";
+import { KbTagFacetsQuerySchema } from "@/lib/validators/kb";
+
+export const prerender = false;
+
+/**
+ * GET /api/kb/tags
+ *
+ * Tag facets for the KB list: each tag of the visible entries (own + public;
+ * anonymous: public) with the number of entries carrying it, most used first
+ *
+ * Query parameters:
+ * - q?: string - count only entries matching this full-text search
+ * - owner?: "me" | "public" - own entries (requires authentication) or public
+ *
+ * Response 200:
+ * { items: [{ tag: string, count: number }] } (top 50)
+ *
+ * Response 400/401/500:
+ * { error: { code, message, details? } }
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  try {
+    const { supabase, user } = getRequestContext(locals);
+
+    const url = new URL(request.url);
+    const query = KbTagFacetsQuerySchema.parse({
+      q: url.searchParams.get("q") ?? undefined,
+      owner: url.searchParams.get("owner") ?? undefined,
+    });
+
+    const facets = await listKbTagFacets(supabase, user, query);
+
+    return new Response(JSON.stringify(facets), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
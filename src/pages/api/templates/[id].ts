@@ -0,0 +1,122 @@
+import type { APIRoute } from "astro";
+import { errorToJsonResponse } from "@/lib/helpers/error.helper";
+import {
+  getRequestContext,
+  requireUserContext,
+} from "@/lib/helpers/route.helper";
+import {
+  deleteTemplate,
+  getTemplate,
+  updateTemplate,
+} from "@/lib/services/template.service";
+import { UuidParamSchema } from "@/lib/validators/common";
+import { TemplateUpdateSchema } from "@/lib/validators/template";
+
+export const prerender = false;
+
+/**
+ * GET /api/templates/[id]
+ *
+ * Returns a global template or one of the current user's own
+ *
+ * Response 200:
+ * { data: TemplateDTO }
+ *
+ * Response 400/404/500:
+ * { error: { code, message } }
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    const { supabase, user } = getRequestContext(
+      locals,
+      "collections.templates",
+    );
+    const id = UuidParamSchema.parse(params.id);
+
+    const template = await getTemplate(supabase, user, id);
+
+    return new Response(JSON.stringify({ data: template }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
+
+/**
+ * PATCH /api/templates/[id]
+ *
+ * Updates a template with optimistic locking. Global templates can only be
+ * changed by admins; scope is immutable (fork to copy a template).
+ *
+ * Request body:
+ * {
+ *   name?: string,
+ *   fields?: TemplateField[],
+ *   required_fields?: string[],
+ *   attachments?: string[],
+ *   preset?: "ui_bug" | "api_bug" | null,
+ *   version: number - version the client last read
+ * }
+ *
+ * Response 200:
+ * { data: TemplateDTO } - version is incremented
+ *
+ * Response 403:
+ * { error: { code: "FORBIDDEN", message: string } }
+ *
+ * Response 409:
+ * { error: { code: "CONFLICT", message: string, details?: { current_version } } }
+ *
+ * Response 400/401/404/500:
+ * { error: { code, message, details? } }
+ */
+export const PATCH: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(
+      locals,
+      "collections.templates",
+    );
+    const id = UuidParamSchema.parse(params.id);
+
+    const body = await request.json();
+    const validated = TemplateUpdateSchema.parse(body);
+
+    const template = await updateTemplate(supabase, user, id, validated);
+
+    return new Response(JSON.stringify({ data: template }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
+
+/**
+ * DELETE /api/templates/[id]
+ *
+ * Deletes a template; forks of it are kept
+ *
+ * Response 204:
+ * No content
+ *
+ * Response 400/401/403/404/500:
+ * { error: { code, message } }
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(
+      locals,
+      "collections.templates",
+    );
+    const id = UuidParamSchema.parse(params.id);
+
+    await deleteTemplate(supabase, user, id);
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
@@ -0,0 +1,48 @@
+import type { APIRoute } from "astro";
+import { errorToJsonResponse } from "@/lib/helpers/error.helper";
+import { requireUserContext } from "@/lib/helpers/route.helper";
+import { forkTemplate } from "@/lib/services/template.service";
+import { UuidParamSchema } from "@/lib/validators/common";
+import { TemplateForkSchema } from "@/lib/validators/template";
+
+export const prerender = false;
+
+/**
+ * POST /api/templates/[id]/fork
+ *
+ * Copies a visible template into the current user's own scope and records
+ * the source in origin_template_id
+ *
+ * Request body (optional):
+ * { name?: string } - defaults to the source template's name
+ *
+ * Response 201:
+ * { data: TemplateDTO }
+ *
+ * Response 409:
+ * { error: { code: "CONFLICT", message: string } } - name already used
+ *
+ * Response 400/401/404/500:
+ * { error: { code, message, details? } }
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(
+      locals,
+      "collections.templates",
+    );
+    const id = UuidParamSchema.parse(params.id);
+
+    const text = await request.text();
+    const validated = TemplateForkSchema.parse(text ? JSON.parse(text) : {});
+
+    const template = await forkTemplate(supabase, user, id, validated);
+
+    return new Response(JSON.stringify({ data: template }), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
@@ -0,0 +1,51 @@
+import type { APIRoute } from "astro";
+import { errorToJsonResponse } from "@/lib/helpers/error.helper";
+import { getRequestContext } from "@/lib/helpers/route.helper";
+import { renderTemplate } from "@/lib/services/template.service";
+import { UuidParamSchema } from "@/lib/validators/common";
+import { TemplateRenderSchema } from "@/lib/validators/template";
+
+export const prerender = false;
+
+/**
+ * POST /api/templates/[id]/render
+ *
+ * Renders a defect report in Markdown. Available without signing in for
+ * global templates.
+ *
+ * Request body:
+ * {
+ *   values: Record<string, string> - field key → value,
+ *   attachments?: string[] - extra HTTP/HTTPS links (up to 10)
+ * }
+ *
+ * Response 200:
+ * { markdown: string }
+ *
+ * Response 400:
+ * { error: { code: "VALIDATION_ERROR", message: string, details?: { missing_fields } } }
+ *
+ * Response 404/500:
+ * { error: { code, message } }
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const { supabase, user } = getRequestContext(
+      locals,
+      "collections.templates",
+    );
+    const id = UuidParamSchema.parse(params.id);
+
+    const body = await request.json();
+    const validated = TemplateRenderSchema.parse(body);
+
+    const result = await renderTemplate(supabase, user, id, validated);
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
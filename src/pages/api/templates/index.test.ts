@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIContext, AstroCookies } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/db/database.types";
+
+vi.mock("@/features", () => ({
+  isFeatureEnabled: vi.fn(() => true),
+}));
+
+vi.mock("@/lib/services/template.service", () => ({
+  listTemplates: vi.fn(),
+  createTemplate: vi.fn(),
+}));
+
+import { GET, POST } from "./index";
+import { createTemplate, listTemplates } from "@/lib/services/template.service";
+import { createAppError } from "@/lib/helpers/error.helper";
+
+interface ResponseBody {
+  items?: unknown[];
+  data?: Record<string, unknown>;
+  error?: { code: string; message: string; details?: unknown };
+}
+
+const mockSupabase = {} as SupabaseClient<Database>;
+const user = { id: "user-1", email: "user@example.com", role: "user" as const };
+
+function createAPIContext(
+  request: Request,
+  locals: Partial<App.Locals>,
+): APIContext {
+  return {
+    request,
+    cookies: {
+      get: vi.fn(),
+      set: vi.fn(),
+      delete: vi.fn(),
+      has: vi.fn(),
+      merge: vi.fn(),
+      headers: vi.fn(),
+    } as unknown as AstroCookies,
+    url: new URL(request.url),
+    site: undefined,
+    generator: "Astro v5.0.0",
+    params: {},
+    props: {},
+    redirect: vi.fn(),
+    rewrite: vi.fn(),
+    locals,
+    clientAddress: "127.0.0.1",
+    originPathname: "/",
+    getActionResult: vi.fn(),
+    callAction: vi.fn(),
+    session: undefined,
+    preferredLocale: undefined,
+    preferredLocaleList: [],
+    currentLocale: undefined,
+    routePattern: "/api/templates",
+    isPrerendered: false,
+  } as unknown as APIContext;
+}
+
+function postRequest(body: string) {
+  return new Request("http://localhost:4321/api/templates", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+  });
+}
+
+const validTemplate = {
+  name: "Checkout bug",
+  fields: [
+    { key: "title", type: "text", label: "Title" },
+    { key: "steps", type: "textarea", label: "Steps" },
+  ],
+  required_fields: ["title"],
+};
+
+describe("/api/templates", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("GET", () => {
+    it("should list global templates for anonymous visitors", async () => {
+      vi.mocked(listTemplates).mockResolvedValue({ items: [] });
+      const request = new Request(
+        "http://localhost:4321/api/templates?preset=api_bug",
+      );
+
+      const response = await GET(
+        createAPIContext(request, { supabase: mockSupabase }),
+      );
+
+      expect(response.status).toBe(200);
+      expect(listTemplates).toHaveBeenCalledWith(mockSupabase, null, {
+        limit: 20,
+        preset: "api_bug",
+      });
+    });
+
+    it("should reject an unknown preset", async () => {
+      const request = new Request(
+        "http://localhost:4321/api/templates?preset=mobile_bug",
+      );
+      const response = await GET(
+        createAPIContext(request, { supabase: mockSupabase, user }),
+      );
+      const body = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(400);
+      expect(body.error?.code).toBe("VALIDATION_ERROR");
+    });
+  });
+
+  describe("POST", () => {
+    it("should require authentication", async () => {
+      const response = await POST(
+        createAPIContext(postRequest(JSON.stringify(validTemplate)), {
+          supabase: mockSupabase,
+        }),
+      );
+
+      expect(response.status).toBe(401);
+      expect(createTemplate).not.toHaveBeenCalled();
+    });
+
+    it("should create a user template by default", async () => {
+      vi.mocked(createTemplate).mockResolvedValue({
+        id: "t1",
+        scope: "user",
+      } as never);
+
+      const response = await POST(
+        createAPIContext(postRequest(JSON.stringify(validTemplate)), {
+          supabase: mockSupabase,
+          user,
+        }),
+      );
+      const body = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(201);
+      expect(body.data?.scope).toBe("user");
+      expect(createTemplate).toHaveBeenCalledWith(mockSupabase, user, {
+        ...validTemplate,
+        scope: "user",
+        attachments: [],
+      });
+    });
+
+    it("should reject required fields that are not defined", async () => {
+      const response = await POST(
+        createAPIContext(
+          postRequest(
+            JSON.stringify({ ...validTemplate, required_fields: ["priority"] }),
+          ),
+          { supabase: mockSupabase, user },
+        ),
+      );
+      const body = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(400);
+      expect(body.error?.details).toHaveProperty("required_fields");
+    });
+
+    it("should reject non-HTTP attachments", async () => {
+      const response = await POST(
+        createAPIContext(
+          postRequest(
+            JSON.stringify({
+              ...validTemplate,
+              attachments: ["ftp://example.com/file"],
+            }),
+          ),
+          { supabase: mockSupabase, user },
+        ),
+      );
+
+      expect(response.status).toBe(400);
+      expect(createTemplate).not.toHaveBeenCalled();
+    });
+
+    it("should surface FORBIDDEN from the service", async () => {
+      vi.mocked(createTemplate).mockRejectedValue(
+        createAppError(
+          "FORBIDDEN",
+          403,
+          "Only admins can create global templates",
+        ),
+      );
+
+      const response = await POST(
+        createAPIContext(
+          postRequest(JSON.stringify({ ...validTemplate, scope: "global" })),
+          { supabase: mockSupabase, user },
+        ),
+      );
+      const body = (await response.json()) as ResponseBody;
+
+      expect(response.status).toBe(403);
+      expect(body.error?.message).toBe(
+        "Only admins can create global templates",
+      );
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import type { APIRoute } from "astro";
+import { errorToJsonResponse } from "@/lib/helpers/error.helper";
+import {
+  getRequestContext,
+  requireUserContext,
+} from "@/lib/helpers/route.helper";
+import { createTemplate, listTemplates } from "@/lib/services/template.service";
+import {
+  TemplateCreateSchema,
+  TemplateQuerySchema,
+} from "@/lib/validators/template";
+
+export const prerender = false;
+
+/**
+ * GET /api/templates
+ *
+ * Lists global templates plus the current user's own (anonymous: globals only),
+ * newest first
+ *
+ * Query parameters:
+ * - after?: string - cursor for keyset pagination (format: "updated_at,id")
+ * - limit?: number - items per page (1-100, default 20)
+ * - preset?: "ui_bug" | "api_bug"
+ * - scope?: "user" | "global"
+ *
+ * Response 200:
+ * { items: TemplateListItemDTO[], next_cursor?: string }
+ *
+ * Response 400/404/500:
+ * { error: { code, message, details? } }
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  try {
+    const { supabase, user } = getRequestContext(
+      locals,
+      "collections.templates",
+    );
+
+    const url = new URL(request.url);
+    const query = TemplateQuerySchema.parse({
+      after: url.searchParams.get("after") ?? undefined,
+      limit: url.searchParams.get("limit") ?? undefined,
+      preset: url.searchParams.get("preset") ?? undefined,
+      scope: url.searchParams.get("scope") ?? undefined,
+    });
+
+    const page = await listTemplates(supabase, user, query);
+
+    return new Response(JSON.stringify(page), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
+
+/**
+ * POST /api/templates
+ *
+ * Creates a template. scope "global" is reserved for admins; global
+ * templates are read-only for everyone else.
+ *
+ * Request body:
+ * {
+ *   name: string (1-200 chars),
+ *   scope?: "user" | "global" (default "user"),
+ *   fields: TemplateField[] (unique snake_case keys),
+ *   required_fields?: string[] - keys defined in fields,
+ *   attachments?: string[] - up to 10 HTTP/HTTPS URLs,
+ *   preset?: "ui_bug" | "api_bug" | null
+ * }
+ *
+ * Response 201:
+ * { data: TemplateDTO }
+ *
+ * Response 403:
+ * { error: { code: "FORBIDDEN", message: string } }
+ *
+ * Response 409:
+ * { error: { code: "CONFLICT", message: string } } - duplicate name
+ *
+ * Response 400/401/404/500:
+ * { error: { code, message, details? } }
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const { supabase, user } = requireUserContext(
+      locals,
+      "collections.templates",
+    );
+
+    const body = await request.json();
+    const validated = TemplateCreateSchema.parse(body);
+
+    const template = await createTemplate(supabase, user, validated);
+
+    return new Response(JSON.stringify({ data: template }), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorToJsonResponse(error);
+  }
+};
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import type { APIContext } from "astro";
+import { GET } from "./[kind]";
+import type {
+  ErrorResponse,
+  NationalIdValidationResponse,
+} from "../../../types/types";
+
+async function callGet(kind: string, query: string): Promise<Response> {
+  const request = new Request(
+    `https://example.com/api/validators/${kind}?${query}`,
+  );
+  return await GET({
+    request,
+    params: { kind },
+    url: new URL(request.url),
+  } as unknown as APIContext);
+}
+
+describe("National ID Validator API Endpoint", () => {
+  it("should decode a valid PESEL", async () => {
+    const response = await callGet("pesel", "value=44051401359");
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Cache-Control")).toBe("public, max-age=300");
+    expect(await response.json()).toEqual({
+      kind: "pesel",
+      normalized: "44051401359",
+      valid: true,
+      birth_date: "1944-05-14",
+      sex: "male",
+    });
+  });
+
+  it("should ignore separators", async () => {
+    const response = await callGet("nip", "value=123-456-32-18");
+
+    expect(
+      ((await response.json()) as NationalIdValidationResponse).valid,
+    ).toBe(true);
+  });
+
+  it("should explain invalid identifiers", async () => {
+    const response = await callGet("svnr", "value=1238%20010180");
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      kind: "svnr",
+      normalized: "1238010180",
+      valid: false,
+      reason: "Invalid SVNR check digit",
+    });
+  });
+
+  it("should require a value", async () => {
+    const response = await callGet("regon", "");
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: {
+        code: "VALIDATION_ERROR",
+        message: "value: value parameter is required",
+      },
+    });
+  });
+
+  it("should return 404 for an unknown validator", async () => {
+    const response = await callGet("ssn", "value=1");
+
+    expect(response.status).toBe(404);
+    expect(((await response.json()) as ErrorResponse).error.code).toBe(
+      "NOT_FOUND",
+    );
+  });
+});
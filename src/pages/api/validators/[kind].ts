@@ -0,0 +1,80 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import {
+  createAppError,
+  errorToJsonResponse,
+  zodErrorToAppError,
+} from "../../../lib/helpers/error.helper.js";
+import {
+  NATIONAL_ID_KINDS,
+  validateNationalId,
+} from "../../../lib/utils/national-id.js";
+import type { NationalIdKind } from "../../../types/types.js";
+
+export const prerender = false;
+
+/**
+ * Query parameter schema for national identifier validation
+ * - value: required, spaces and hyphens are ignored
+ */
+const QuerySchema = z.object({
+  value: z
+    .string({ required_error: "value parameter is required" })
+    .min(1, "value parameter is required")
+    .max(64, "value must be at most 64 characters"),
+});
+
+/**
+ * GET /api/validators/{kind}
+ * Validates the check digits and structure of a national identifier
+ *
+ * Path parameters:
+ * - kind: 'pesel' | 'nip' | 'regon' | 'steuerid' | 'svnr'
+ *
+ * Query parameters:
+ * - value: string (required, spaces and hyphens are ignored)
+ *
+ * Response 200:
+ * { "kind": "pesel", "valid": true, "normalized": "44051401359",
+ *   "birth_date"?: "1944-05-14", "sex"?: "male" } or
+ * { "kind": "nip", "valid": false, "normalized": "...", "reason": "..." }
+ * birth_date and sex are decoded from valid PESELs only
+ *
+ * Response 400:
+ * { "error": { "code": "VALIDATION_ERROR", "message": "..." } }
+ *
+ * Response 404:
+ * { "error": { "code": "NOT_FOUND", "message": "..." } }
+ */
+export const GET: APIRoute = async ({ params, request }) => {
+  try {
+    const kind = params.kind as NationalIdKind | undefined;
+    if (!kind || !NATIONAL_ID_KINDS.includes(kind)) {
+      throw createAppError(
+        "NOT_FOUND",
+        404,
+        `Unknown validator '${params.kind ?? ""}'`,
+      );
+    }
+
+    const url = new URL(request.url);
+    const parsed = QuerySchema.parse({
+      value: url.searchParams.get("value") ?? undefined,
+    });
+
+    const result = validateNationalId(kind, parsed.value);
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        // Validation results can be cached briefly
+        "Cache-Control": "public, max-age=300",
+      },
+    });
+  } catch (error) {
+    return errorToJsonResponse(
+      error instanceof z.ZodError ? zodErrorToAppError(error) : error,
+    );
+  }
+};
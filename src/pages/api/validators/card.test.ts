@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import type { APIContext } from "astro";
+import { GET } from "./card";
+import type {
+  CardValidationResponse,
+  ErrorResponse,
+} from "../../../types/types";
+
+async function callGet(query: string): Promise<Response> {
+  const request = new Request(
+    `https://example.com/api/validators/card?${query}`,
+  );
+  return await GET({
+    request,
+    url: new URL(request.url),
+  } as unknown as APIContext);
+}
+
+describe("Card Validator API Endpoint", () => {
+  it("should validate a card number and detect the network", async () => {
+    const response = await callGet("number=3782%20822463%2010005");
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Cache-Control")).toBe("public, max-age=300");
+    expect(await response.json()).toEqual({
+      valid: true,
+      normalized: "378282246310005",
+      network: "amex",
+    });
+  });
+
+  it("should report Luhn failures", async () => {
+    const response = await callGet("number=5500000000000005");
+
+    expect(((await response.json()) as CardValidationResponse).reason).toBe(
+      "Invalid Luhn check digit",
+    );
+  });
+
+  it("should require a number", async () => {
+    const response = await callGet("");
+
+    expect(response.status).toBe(400);
+    expect(((await response.json()) as ErrorResponse).error).toEqual({
+      code: "VALIDATION_ERROR",
+      message: "number: number parameter is required",
+    });
+  });
+});
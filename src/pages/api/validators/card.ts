@@ -0,0 +1,59 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import {
+  errorToJsonResponse,
+  zodErrorToAppError,
+} from "../../../lib/helpers/error.helper.js";
+import { validateCard } from "../../../lib/utils/card-validator.js";
+
+export const prerender = false;
+
+/**
+ * Query parameter schema for card validation
+ * - number: required, spaces and hyphens are ignored
+ */
+const QuerySchema = z.object({
+  number: z
+    .string({ required_error: "number parameter is required" })
+    .min(1, "number parameter is required")
+    .max(64, "number must be at most 64 characters"),
+});
+
+/**
+ * GET /api/validators/card
+ * Validates a payment card number: digits, network length and Luhn checksum
+ *
+ * Query parameters:
+ * - number: string (required, spaces and hyphens are ignored)
+ *
+ * Response 200:
+ * { "valid": true, "normalized": "4111111111111111", "network": "visa" } or
+ * { "valid": false, "normalized": "...", "network"?: "...", "reason": "..." }
+ * network is detected from the issuer range, also for invalid numbers
+ *
+ * Response 400:
+ * { "error": { "code": "VALIDATION_ERROR", "message": "..." } }
+ */
+export const GET: APIRoute = async ({ request }) => {
+  try {
+    const url = new URL(request.url);
+    const parsed = QuerySchema.parse({
+      number: url.searchParams.get("number") ?? undefined,
+    });
+
+    const result = validateCard(parsed.number);
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        // Validation results can be cached briefly
+        "Cache-Control": "public, max-age=300",
+      },
+    });
+  } catch (error) {
+    return errorToJsonResponse(
+      error instanceof z.ZodError ? zodErrorToAppError(error) : error,
+    );
+  }
+};
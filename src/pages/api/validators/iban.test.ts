@@ -7,7 +7,13 @@ vi.mock("../../../lib/utils/iban-validator.js", () => ({
   validateIban: vi.fn(),
 }));
 
+// Mock the breakdown so results equal the validator's
+vi.mock("../../../lib/utils/iban-format.js", () => ({
+  describeIban: vi.fn(),
+}));
+
 import { validateIban } from "../../../lib/utils/iban-validator.js";
+import { describeIban } from "../../../lib/utils/iban-format.js";
 
 // Helper to create APIContext for testing
 function createAPIContext(request: Request): APIContext {
@@ -82,7 +88,7 @@ describe("IBAN Validator API Endpoint", () => {
       expect(response.headers.get("Content-Type")).toBe("application/json");
       expect(response.headers.get("Cache-Control")).toBe("public, max-age=300");
 
-      expect(validateIban).toHaveBeenCalledWith(iban);
+      expect(validateIban).toHaveBeenCalledWith(iban, { strict: false });
     });
 
     it("should validate an invalid IBAN with reason", async () => {
@@ -110,7 +116,7 @@ describe("IBAN Validator API Endpoint", () => {
         reason: "Invalid checksum (mod-97 validation failed)",
       });
 
-      expect(validateIban).toHaveBeenCalledWith(iban);
+      expect(validateIban).toHaveBeenCalledWith(iban, { strict: false });
     });
 
     it("should handle IBAN with spaces", async () => {
@@ -128,7 +134,7 @@ describe("IBAN Validator API Endpoint", () => {
       const response = await GET(createAPIContext(request));
 
       expect(response.status).toBe(200);
-      expect(validateIban).toHaveBeenCalledWith(iban);
+      expect(validateIban).toHaveBeenCalledWith(iban, { strict: false });
     });
 
     it("should handle lowercase IBAN", async () => {
@@ -146,7 +152,7 @@ describe("IBAN Validator API Endpoint", () => {
       const response = await GET(createAPIContext(request));
 
       expect(response.status).toBe(200);
-      expect(validateIban).toHaveBeenCalledWith(iban);
+      expect(validateIban).toHaveBeenCalledWith(iban, { strict: false });
     });
 
     it("should handle different country IBANs", async () => {
@@ -169,11 +175,80 @@ describe("IBAN Validator API Endpoint", () => {
         const response = await GET(createAPIContext(request));
 
         expect(response.status).toBe(200);
-        expect(validateIban).toHaveBeenCalledWith(iban);
+        expect(validateIban).toHaveBeenCalledWith(iban, { strict: false });
       }
     });
   });
 
+  describe("breakdown", () => {
+    it("should add the breakdown of the input to the result", async () => {
+      const iban = "DE89 3704 0044 0532 0130 01";
+      const request = new Request(
+        `https://example.com/api/validators/iban?iban=${encodeURIComponent(iban)}`,
+      );
+      const breakdown = {
+        electronic: "DE89370400440532013001",
+        print: "DE89 3704 0044 0532 0130 01",
+        parts: [
+          { kind: "country" as const, value: "DE", start: 0, end: 2 },
+          { kind: "checkDigits" as const, value: "89", start: 2, end: 4 },
+        ],
+      };
+      mockValidateIban.mockReturnValue({
+        valid: false,
+        reason: "Invalid checksum (mod-97 validation failed)",
+        errorSpan: { start: 2, end: 4 },
+      });
+      vi.mocked(describeIban).mockReturnValue(breakdown);
+
+      const response = await GET(createAPIContext(request));
+
+      expect(await response.json()).toEqual({
+        valid: false,
+        reason: "Invalid checksum (mod-97 validation failed)",
+        errorSpan: { start: 2, end: 4 },
+        breakdown,
+      });
+      expect(describeIban).toHaveBeenCalledWith(iban);
+    });
+  });
+
+  describe("strict mode", () => {
+    it("should pass strict=true to the validator", async () => {
+      const request = new Request(
+        "https://example.com/api/validators/iban?iban=de89370400440532013000&strict=true",
+      );
+      mockValidateIban.mockReturnValue({
+        valid: false,
+        reason: "Not in electronic format (contains whitespace or lowercase)",
+      });
+
+      const response = await GET(createAPIContext(request));
+
+      expect(response.status).toBe(200);
+      expect(validateIban).toHaveBeenCalledWith("de89370400440532013000", {
+        strict: true,
+      });
+    });
+
+    it("should reject other strict values", async () => {
+      const request = new Request(
+        "https://example.com/api/validators/iban?iban=DE89370400440532013000&strict=yes",
+      );
+
+      const response = await GET(createAPIContext(request));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "strict: must be 'true' or 'false'",
+        },
+      });
+      expect(validateIban).not.toHaveBeenCalled();
+    });
+  });
+
   describe("input validation errors", () => {
     it("should reject missing iban parameter", async () => {
       const request = new Request("https://example.com/api/validators/iban", {
@@ -235,7 +310,7 @@ describe("IBAN Validator API Endpoint", () => {
       const response = await GET(createAPIContext(request));
 
       expect(response.status).toBe(200);
-      expect(validateIban).toHaveBeenCalledWith(iban);
+      expect(validateIban).toHaveBeenCalledWith(iban, { strict: false });
     });
 
     it("should handle multiple query parameters", async () => {
@@ -253,7 +328,7 @@ describe("IBAN Validator API Endpoint", () => {
       const response = await GET(createAPIContext(request));
 
       expect(response.status).toBe(200);
-      expect(validateIban).toHaveBeenCalledWith(iban);
+      expect(validateIban).toHaveBeenCalledWith(iban, { strict: false });
     });
   });
 
@@ -574,7 +649,7 @@ describe("IBAN Validator API Endpoint", () => {
       const response = await GET(createAPIContext(request));
 
       expect(response.status).toBe(200);
-      expect(validateIban).toHaveBeenCalledWith(longIban);
+      expect(validateIban).toHaveBeenCalledWith(longIban, { strict: false });
     });
 
     it("should handle IBAN with unicode characters", async () => {
@@ -595,7 +670,7 @@ describe("IBAN Validator API Endpoint", () => {
       const response = await GET(createAPIContext(request));
 
       expect(response.status).toBe(200);
-      expect(validateIban).toHaveBeenCalledWith(iban);
+      expect(validateIban).toHaveBeenCalledWith(iban, { strict: false });
     });
 
     it("should handle empty string after URL decoding", async () => {
@@ -615,7 +690,7 @@ describe("IBAN Validator API Endpoint", () => {
       const response = await GET(createAPIContext(request));
 
       expect(response.status).toBe(200);
-      expect(validateIban).toHaveBeenCalledWith("   ");
+      expect(validateIban).toHaveBeenCalledWith("   ", { strict: false });
     });
 
     it("should handle case-sensitive URL parameters", async () => {
@@ -651,7 +726,7 @@ describe("IBAN Validator API Endpoint", () => {
       const response = await GET(createAPIContext(request));
 
       expect(response.status).toBe(200);
-      expect(validateIban).toHaveBeenCalledWith("%ZZ");
+      expect(validateIban).toHaveBeenCalledWith("%ZZ", { strict: false });
     });
   });
 
@@ -671,7 +746,7 @@ describe("IBAN Validator API Endpoint", () => {
       await GET(createAPIContext(request));
 
       expect(validateIban).toHaveBeenCalledTimes(1);
-      expect(validateIban).toHaveBeenCalledWith(iban);
+      expect(validateIban).toHaveBeenCalledWith(iban, { strict: false });
     });
 
     it("should handle service returning different result formats", async () => {
@@ -757,7 +832,7 @@ describe("IBAN Validator API Endpoint", () => {
       const response = await GET(createAPIContext(request));
 
       expect(response.status).toBe(200);
-      expect(validateIban).toHaveBeenCalledWith("DE123");
+      expect(validateIban).toHaveBeenCalledWith("DE123", { strict: false });
     });
 
     it("should handle null values from search params", async () => {
@@ -1,6 +1,7 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
 import { validateIban } from "../../../lib/utils/iban-validator.js";
+import { describeIban } from "../../../lib/utils/iban-format.js";
 import type { ErrorCode } from "../../../types/types.js";
 
 export const prerender = false;
@@ -8,9 +9,15 @@ export const prerender = false;
 /**
  * Query parameter schema for IBAN validation
  * - iban: required, will be normalized (spaces removed, uppercased)
+ * - strict: optional "true" | "false" (default false)
  */
 const QuerySchema = z.object({
   iban: z.string().min(1, "iban parameter is required"),
+  strict: z
+    .enum(["true", "false"], {
+      errorMap: () => ({ message: "must be 'true' or 'false'" }),
+    })
+    .optional(),
 });
 
 /**
@@ -19,9 +26,16 @@ const QuerySchema = z.object({
  *
  * Query parameters:
  * - iban: string (required, will be normalized)
+ * - strict: "true" | "false" (optional) - require the electronic format
+ *   (no spaces, upper case) and a country from the IBAN registry
  *
  * Response 200:
- * { "valid": true } or { "valid": false, "reason": "..." }
+ * { "valid": true, "bank"?: {...}, "breakdown": {...} } or
+ * { "valid": false, "reason": "...", "errorSpan"?: { "start": 2, "end": 4 },
+ *   "breakdown": {...} }
+ * breakdown: { "electronic": "...", "print": "...",
+ *   "parts": [{ "kind": "country", "value": "DE", "start": 0, "end": 2 }, ...] }
+ * Positions are 0-based and end-exclusive in the electronic format
  *
  * Response 400:
  * { "error": { "code": "VALIDATION_ERROR", "message": "..." } }
@@ -31,6 +45,7 @@ export const GET: APIRoute = async ({ request }) => {
     const url = new URL(request.url);
     const queryParams = {
       iban: url.searchParams.get("iban") ?? undefined,
+      strict: url.searchParams.get("strict") ?? undefined,
     };
 
     // Validate query parameters
@@ -45,9 +60,13 @@ export const GET: APIRoute = async ({ request }) => {
     }
 
     // Validate IBAN
-    const result = validateIban(parsed.iban);
+    const result = validateIban(parsed.iban, {
+      strict: parsed.strict === "true",
+    });
+
+    const payload = { ...result, breakdown: describeIban(parsed.iban) };
 
-    return new Response(JSON.stringify(result), {
+    return new Response(JSON.stringify(payload), {
       status: 200,
       headers: {
         "Content-Type": "application/json",
@@ -0,0 +1,235 @@
+import { describe, it, expect } from "vitest";
+import type { APIContext } from "astro";
+import { POST } from "./batch";
+import type { ErrorResponse, IbanBatchResponse } from "../../../../types/types";
+
+async function callPost(
+  body: string,
+  contentType: string,
+  query = "",
+): Promise<Response> {
+  const request = new Request(
+    `https://example.com/api/validators/iban/batch${query}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": contentType },
+      body,
+    },
+  );
+  return await POST({
+    request,
+    url: new URL(request.url),
+  } as unknown as APIContext);
+}
+
+describe("Batch IBAN Validator API Endpoint", () => {
+  describe("JSON body", () => {
+    it("should validate an array of IBANs", async () => {
+      const response = await callPost(
+        JSON.stringify(["DE89370400440532013000", " AT611904300234573200 "]),
+        "application/json",
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as IbanBatchResponse;
+      expect(body.summary).toEqual({ total: 2, valid: 1, invalid: 1 });
+      expect(body.results[0]).toMatchObject({ row: 1, valid: true });
+      expect(body.results[1]).toEqual({
+        row: 2,
+        input: "AT611904300234573200",
+        valid: false,
+        reason: "Invalid checksum (mod-97 validation failed)",
+        errorSpan: { start: 2, end: 4 },
+      });
+    });
+
+    it("should accept an object with an ibans array", async () => {
+      const response = await callPost(
+        JSON.stringify({ ibans: ["PL61109010140000071219812874"] }),
+        "application/json; charset=utf-8",
+      );
+
+      expect(response.status).toBe(200);
+      expect(((await response.json()) as IbanBatchResponse).summary).toEqual({
+        total: 1,
+        valid: 1,
+        invalid: 0,
+      });
+    });
+
+    it("should reject malformed JSON", async () => {
+      const response = await callPost("[", "application/json");
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Request body must be valid JSON",
+        },
+      });
+    });
+
+    it("should reject non-string entries", async () => {
+      const response = await callPost(
+        JSON.stringify(["DE89370400440532013000", 42]),
+        "application/json",
+      );
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "ibans.1: every IBAN must be a string",
+        },
+      });
+    });
+
+    it("should reject more than 5000 IBANs", async () => {
+      const response = await callPost(
+        JSON.stringify(Array(5001).fill("DE89370400440532013000")),
+        "application/json",
+      );
+
+      expect(response.status).toBe(400);
+      expect(((await response.json()) as ErrorResponse).error.message).toBe(
+        "ibans: at most 5000 IBANs per request",
+      );
+    });
+  });
+
+  describe("CSV body", () => {
+    it("should validate the iban column and report CSV lines", async () => {
+      const response = await callPost(
+        "name,iban\nJane,DE89370400440532013000\n\nJohn,DE89370400440532013001\n",
+        "text/csv",
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as IbanBatchResponse;
+      expect(body.summary).toEqual({ total: 2, valid: 1, invalid: 1 });
+      expect(body.results.map((r) => [r.row, r.input])).toEqual([
+        [2, "DE89370400440532013000"],
+        [4, "DE89370400440532013001"],
+      ]);
+    });
+
+    it("should accept a plain-text column", async () => {
+      const response = await callPost(
+        "DE89 3704 0044 0532 0130 00",
+        "text/plain",
+      );
+
+      expect(
+        ((await response.json()) as IbanBatchResponse).results,
+      ).toMatchObject([
+        { row: 1, input: "DE89 3704 0044 0532 0130 00", valid: true },
+      ]);
+    });
+
+    it("should pass strict mode to every row", async () => {
+      const response = await callPost(
+        "DE89 3704 0044 0532 0130 00",
+        "text/plain",
+        "?strict=true",
+      );
+
+      expect(
+        ((await response.json()) as IbanBatchResponse).results[0].reason,
+      ).toBe("Not in electronic format (contains whitespace or lowercase)");
+    });
+
+    it("should reject more than 5000 rows", async () => {
+      const response = await callPost(
+        "DE89370400440532013000\n".repeat(5001),
+        "text/csv",
+      );
+
+      expect(response.status).toBe(400);
+      expect(((await response.json()) as ErrorResponse).error.message).toBe(
+        "At most 5000 IBANs per request",
+      );
+    });
+  });
+
+  describe("request validation", () => {
+    it("should reject an empty batch", async () => {
+      const response = await callPost("\n\n", "text/csv");
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Request contains no IBANs",
+        },
+      });
+    });
+
+    it("should reject a Content-Length over 1 MiB without reading the body", async () => {
+      const request = new Request(
+        "https://example.com/api/validators/iban/batch",
+        {
+          method: "POST",
+          headers: { "Content-Type": "text/csv", "Content-Length": "1048577" },
+          body: "DE89370400440532013000",
+        },
+      );
+      const response = await POST({
+        request,
+        url: new URL(request.url),
+      } as unknown as APIContext);
+
+      expect(response.status).toBe(400);
+      expect(((await response.json()) as ErrorResponse).error.message).toBe(
+        "Request body must be at most 1048576 bytes",
+      );
+      expect(request.bodyUsed).toBe(false);
+    });
+
+    it("should stop reading a streamed body once it passes 1 MiB", async () => {
+      const chunk = new TextEncoder().encode(
+        "DE89370400440532013000\n".repeat(10_000),
+      );
+      let pulled = 0;
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          pulled++;
+          controller.enqueue(chunk);
+        },
+      });
+      const request = new Request(
+        "https://example.com/api/validators/iban/batch",
+        {
+          method: "POST",
+          headers: { "Content-Type": "text/csv" },
+          body,
+          duplex: "half",
+        } as RequestInit,
+      );
+      const response = await POST({
+        request,
+        url: new URL(request.url),
+      } as unknown as APIContext);
+
+      expect(response.status).toBe(400);
+      expect(pulled).toBeLessThan(10);
+    });
+
+    it("should reject other content types", async () => {
+      const response = await callPost("ibans=DE89", "multipart/form-data");
+
+      expect(response.status).toBe(400);
+      expect(((await response.json()) as ErrorResponse).error.message).toBe(
+        "Content-Type must be application/json, text/csv or text/plain",
+      );
+    });
+
+    it("should reject other strict values", async () => {
+      const response = await callPost("[]", "application/json", "?strict=1");
+
+      expect(response.status).toBe(400);
+      expect(((await response.json()) as ErrorResponse).error.message).toBe(
+        "strict: must be 'true' or 'false'",
+      );
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import {
+  MAX_BATCH_BYTES,
+  MAX_BATCH_SIZE,
+  parseIbanCsv,
+  validateIbanBatch,
+} from "../../../../lib/utils/iban-batch.js";
+import type { IbanBatchEntry } from "../../../../lib/utils/iban-batch.js";
+import {
+  createAppError,
+  errorToJsonResponse,
+  zodErrorToAppError,
+} from "../../../../lib/helpers/error.helper.js";
+
+export const prerender = false;
+
+/**
+ * Query parameter schema for batch validation
+ * - strict: optional "true" | "false" (default false)
+ */
+const QuerySchema = z.object({
+  strict: z
+    .enum(["true", "false"], {
+      errorMap: () => ({ message: "must be 'true' or 'false'" }),
+    })
+    .optional(),
+});
+
+/**
+ * JSON body: { "ibans": [...] }, or the bare array
+ */
+const JsonBodySchema = z.preprocess(
+  (body) => (Array.isArray(body) ? { ibans: body } : body),
+  z.object({
+    ibans: z
+      .array(z.string({ invalid_type_error: "every IBAN must be a string" }))
+      .max(MAX_BATCH_SIZE, `at most ${MAX_BATCH_SIZE} IBANs per request`),
+  }),
+);
+
+/**
+ * Read the body as text, giving up as soon as it exceeds maxBytes so an
+ * oversized upload is never buffered whole
+ *
+ * @returns the body, or null when it is too large
+ */
+async function readBodyText(
+  request: Request,
+  maxBytes: number,
+): Promise<string | null> {
+  if (Number(request.headers.get("Content-Length") ?? 0) > maxBytes) {
+    return null;
+  }
+  if (!request.body) {
+    return "";
+  }
+
+  const reader = request.body.getReader();
+  const decoder = new TextDecoder();
+  let size = 0;
+  let text = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return text + decoder.decode();
+    }
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+}
+
+/**
+ * POST /api/validators/iban/batch
+ * Validates many IBANs at once
+ *
+ * Query parameters:
+ * - strict: "true" | "false" (optional) - same as GET /api/validators/iban
+ *
+ * Request body (up to 5000 IBANs and 1 MiB), by Content-Type:
+ * - application/json: ["DE89...", "AT61..."] or { "ibans": [...] }
+ * - text/csv or text/plain: one IBAN per line; a header cell "iban"
+ *   selects that column, otherwise the first column is used. Comma, semicolon
+ *   and tab separators are detected from the first line
+ *
+ * Response 200:
+ * { "summary": { "total": 2, "valid": 1, "invalid": 1 },
+ *   "results": [{ "row": 1, "input": "DE89...", "valid": true, ... },
+ *               { "row": 2, "input": "AT61...", "valid": false,
+ *                 "reason": "...", "errorSpan"?: {...} }] }
+ * row is the CSV line (header included) or the array index + 1
+ *
+ * Response 400:
+ * { "error": { "code": "VALIDATION_ERROR", "message": "..." } }
+ */
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const url = new URL(request.url);
+    const query = QuerySchema.parse({
+      strict: url.searchParams.get("strict") ?? undefined,
+    });
+
+    const contentType = request.headers.get("Content-Type") ?? "";
+    const isJson = contentType.includes("application/json");
+    if (
+      !isJson &&
+      !contentType.includes("text/csv") &&
+      !contentType.includes("text/plain")
+    ) {
+      throw createAppError(
+        "VALIDATION_ERROR",
+        400,
+        "Content-Type must be application/json, text/csv or text/plain",
+      );
+    }
+
+    const text = await readBodyText(request, MAX_BATCH_BYTES);
+    if (text === null) {
+      throw createAppError(
+        "VALIDATION_ERROR",
+        400,
+        `Request body must be at most ${MAX_BATCH_BYTES} bytes`,
+      );
+    }
+
+    let entries: IbanBatchEntry[];
+    if (isJson) {
+      let body: unknown;
+      try {
+        body = JSON.parse(text);
+      } catch {
+        throw createAppError(
+          "VALIDATION_ERROR",
+          400,
+          "Request body must be valid JSON",
+        );
+      }
+      entries = JsonBodySchema.parse(body).ibans.map((input, index) => ({
+        row: index + 1,
+        input: input.trim(),
+      }));
+    } else {
+      entries = parseIbanCsv(text);
+      if (entries.length > MAX_BATCH_SIZE) {
+        throw createAppError(
+          "VALIDATION_ERROR",
+          400,
+          `At most ${MAX_BATCH_SIZE} IBANs per request`,
+        );
+      }
+    }
+
+    if (entries.length === 0) {
+      throw createAppError(
+        "VALIDATION_ERROR",
+        400,
+        "Request contains no IBANs",
+      );
+    }
+
+    const result = validateIbanBatch(entries, {
+      strict: query.strict === "true",
+    });
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  } catch (error) {
+    return errorToJsonResponse(
+      error instanceof z.ZodError ? zodErrorToAppError(error) : error,
+    );
+  }
+};
@@ -0,0 +1,55 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/**
+ * Supabase Client Mock
+ *
+ * Shared fixture for service tests that talk to Supabase through the
+ * PostgREST query builder. Results are queued up front and handed out in
+ * the order the service awaits them.
+ */
+
+import { vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../db/database.types";
+
+export interface QueryResult {
+  data: unknown;
+  error: { code?: string; message: string } | null;
+}
+
+const BUILDER_METHODS = [
+  "select",
+  "insert",
+  "update",
+  "delete",
+  "eq",
+  "lt",
+  "or",
+  "order",
+  "limit",
+  "contains",
+  "overlaps",
+  "in",
+  "range",
+] as const;
+
+/**
+ * Chainable PostgREST query builder mock; awaiting it or calling single()
+ * or rpc() resolves to the next queued result.
+ */
+export function createSupabaseMock(results: QueryResult[]) {
+  const next = () => Promise.resolve(results.shift());
+
+  const builder: any = {};
+  for (const method of BUILDER_METHODS) {
+    builder[method] = vi.fn(() => builder);
+  }
+  builder.single = vi.fn(() => next());
+  builder.then = (resolve: (value: unknown) => unknown) => next().then(resolve);
+
+  const supabase = {
+    from: vi.fn(() => builder),
+    rpc: vi.fn(() => next()),
+  } as unknown as SupabaseClient<Database>;
+
+  return { supabase, builder };
+}
@@ -20,7 +20,14 @@ export type ErrorCode =
   | "FORBIDDEN_FIELD"
   | "EMAIL_TAKEN"
   | "INTERNAL"
-  | "RATE_LIMITED";
+  | "RATE_LIMITED"
+  | "NOT_FOUND"
+  | "FORBIDDEN"
+  | "CONFLICT"
+  | "DATABASE_ERROR"
+  | "CONFIGURATION_ERROR"
+  | "FEATURE_DISABLED"
+  | "AI_PROVIDER_ERROR";
 
 export interface ErrorResponse {
   error: {
@@ -32,7 +39,7 @@ export interface ErrorResponse {
 
 export interface KeysetPage<T> {
   items: T[];
-  /** Encodes `(updated_at,id)`; pass back as `?after=` for next page */
+  /** Encodes `(sort key,id)`, e.g. `updated_at,id`; pass back as `?after=` for next page */
   next_cursor?: string;
 }
 
@@ -52,7 +59,49 @@ export type CharterStatus = "active" | "closed" | "idle";
 export type CharterNoteTag = "bug" | "idea" | "question" | "risk";
 
 /** Generators */
-export type IbanCountry = "DE" | "AT" | "PL";
+/** SEPA countries; structures live in lib/utils/iban-registry.ts */
+export type IbanCountry =
+  | "AD"
+  | "AL"
+  | "AT"
+  | "BE"
+  | "BG"
+  | "CH"
+  | "CY"
+  | "CZ"
+  | "DE"
+  | "DK"
+  | "EE"
+  | "ES"
+  | "FI"
+  | "FR"
+  | "GB"
+  | "GI"
+  | "GR"
+  | "HR"
+  | "HU"
+  | "IE"
+  | "IS"
+  | "IT"
+  | "LI"
+  | "LT"
+  | "LU"
+  | "LV"
+  | "MC"
+  | "MD"
+  | "ME"
+  | "MK"
+  | "MT"
+  | "NL"
+  | "NO"
+  | "PL"
+  | "PT"
+  | "RO"
+  | "SE"
+  | "SI"
+  | "SK"
+  | "SM"
+  | "VA";
 export type LocalDataCountry = "PL" | "DE" | "AT";
 export type GeneratorKind =
   | "address"
@@ -62,13 +111,26 @@ export type GeneratorKind =
   | "company"
   | "card"
   | "guid"
-  | "string";
+  | "string"
+  | NationalIdKind;
+/** National identifiers; each kind belongs to a single country */
+export type NationalIdKind = "pesel" | "nip" | "regon" | "steuerid" | "svnr";
+export type Sex = "male" | "female";
+export type CardNetwork = "visa" | "mastercard" | "amex" | "maestro";
+/** Expiry date of a generated card: in the future, or already past */
+export type CardExpiry = "valid" | "expired";
+export type StringCharset =
+  | "alphanumeric"
+  | "alpha"
+  | "numeric"
+  | "hex"
+  | "symbols";
 
 /** UI-specific types for Generators view */
 export type OutputFormat = "text" | "json";
 
 export interface GeneratorMeta {
-  kind: GeneratorKind | "iban";
+  kind: GeneratorKind | "iban" | "dataset";
   name: string;
   description: string;
   href: string;
@@ -290,7 +352,35 @@ type KbNoteRow = Tables<"kb_notes">;
 /** Expose KB entry without internal FTS column */
 export type KBEntryDTO = Omit<KbEntryRow, "search_vector">;
 
-export type KBListResponse = KeysetPage<KBEntryDTO>;
+/** GET /kb/entries sort orders; "relevance" requires a search query `q` */
+export type KBSortOrder = "relevance" | "updated" | "created" | "title";
+
+/** GET /kb/entries `owner` filter: own entries or public ones only */
+export type KBOwnerFilter = "me" | "public";
+
+/** How a `tags` filter matches: any of the tags or all of them */
+export type KBTagMatch = "any" | "all";
+
+/**
+ * KB entry in a list page; search results (`q`) add the ts_rank score and a
+ * snippet of title and notes with matches wrapped in <mark>…</mark>
+ */
+export type KBListItemDTO = KBEntryDTO & {
+  rank?: number;
+  snippet?: string;
+};
+
+export type KBListResponse = KeysetPage<KBListItemDTO>;
+
+/** GET /kb/tags — tag with the number of matching entries */
+export interface KBTagFacetDTO {
+  tag: string;
+  count: number;
+}
+
+export interface KBTagFacetsResponse {
+  items: KBTagFacetDTO[];
+}
 
 export interface CreateKBEntryCommand {
   title: string;
@@ -302,11 +392,83 @@ export type UpdateKBEntryCommand = Partial<
   Pick<KBEntryDTO, "title" | "tags" | "url_original">
 >;
 
+/** How a possible duplicate matched: same canonical URL or similar title */
+export type KBDuplicateMatch = "url" | "title";
+
+/**
+ * Possible duplicate of a KB entry: POST /kb/entries (409 details) and
+ * GET /kb/entries/{id}/duplicates
+ */
+export type KBDuplicateDTO = Pick<
+  KBEntryDTO,
+  "id" | "user_id" | "title" | "url_original" | "is_public"
+> & {
+  match: KBDuplicateMatch;
+  /** Trigram similarity of the titles, 0-1 */
+  similarity: number;
+};
+
+export interface KBDuplicatesResponse {
+  items: KBDuplicateDTO[];
+}
+
+/** POST /kb/entries/{id}/merge — entries folded into the target (admin) */
+export interface MergeKBEntriesCommand {
+  source_ids: string[];
+}
+
+/** Why a link check got no usable HTTP response */
+export type KBLinkError =
+  | "timeout"
+  | "network_error"
+  | "too_many_redirects"
+  | "invalid_url"
+  | "private_host";
+
+/**
+ * Link of a KB entry as last checked: never checked, working, broken, or
+ * working behind a permanent redirect (the entry can take the new URL)
+ */
+export type KBLinkHealth = "unchecked" | "ok" | "broken" | "moved";
+
+/** Link check results stored on a KB entry */
+export type KBLinkCheckFields = Pick<
+  KBEntryDTO,
+  | "link_status"
+  | "link_redirect_url"
+  | "link_redirect_permanent"
+  | "link_error"
+  | "link_checked_at"
+>;
+
+/**
+ * POST /kb/link-check (admin): the given entries, or the `limit` entries
+ * checked least recently
+ */
+export interface RunKBLinkCheckCommand {
+  entry_ids?: string[];
+  limit: number;
+}
+
+export type KBLinkCheckResult = Pick<KBEntryDTO, "id" | "url_original"> &
+  KBLinkCheckFields & {
+    health: KBLinkHealth;
+  };
+
+export interface KBLinkCheckReport {
+  checked: number;
+  broken: number;
+  moved: number;
+  results: KBLinkCheckResult[];
+}
+
 /** KB notes */
 export type KBNoteDTO = KbNoteRow;
 
 export type CreateKBNoteCommand = Pick<KbNoteRow, "body">;
 
+export type UpdateKBNoteCommand = CreateKBNoteCommand;
+
 export type KBNotesListResponse = KeysetPage<KBNoteDTO>;
 
 /** GET /kb/export — JSON export of user's KB */
@@ -315,27 +477,216 @@ export interface KBExportDTO {
   notes: KBNoteDTO[];
 }
 
+/** GET /kb/export?format= and POST /kb/import: JSON, Markdown, bookmarks HTML */
+export type KBExportFormat = "json" | "md" | "html";
+
+export type KBImportRowStatus = "created" | "skipped" | "failed";
+
+/** One imported entry: row is the JSON index + 1 or the line in the file */
+export interface KBImportRowResult {
+  row: number;
+  title: string;
+  url: string;
+  status: KBImportRowStatus;
+  reason?: string;
+  entry_id?: string;
+  /** Notes imported with a created entry */
+  notes?: number;
+}
+
+/** POST /kb/import response */
+export interface KBImportReport {
+  summary: {
+    total: number;
+    created: number;
+    skipped: number;
+    failed: number;
+  };
+  results: KBImportRowResult[];
+}
+
 /* -------------------------------------------------------
  * Generators & Validators
  * ----------------------------------------------------- */
 
+/** Rule a negative-test IBAN breaks (see lib/utils/iban-defects) */
+export type IbanDefect =
+  | "checksum"
+  | "length"
+  | "country"
+  | "format"
+  | "national"
+  | "characters";
+
 export interface IbanGenerateParams {
   country: IbanCountry;
   seed?: string | number;
+  /** "any" or a bank name fragment / BIC prefix from the bank directory */
+  bank?: string;
+  defect?: IbanDefect;
+}
+
+/** Bank directory entry (DE/AT/PL) */
+export interface IbanBank {
+  /** National bank code as it appears in the BBAN (BLZ, bank number) */
+  bankCode: string;
+  bic: string;
+  name: string;
 }
 
 export interface IbanGeneratorResponse {
   iban: string;
   country: IbanCountry;
   seed?: string | number;
+  /** Present when the bank code is in the bank directory */
+  bic?: string;
+  bankName?: string;
+  /** Negative-test IBANs only: the broken rule and the validator's reason */
+  defect?: IbanDefect;
+  expectedReason?: string;
+}
+
+/** One row of a bulk IBAN export */
+export interface IbanBulkRecord extends IbanGeneratorResponse {
+  index: number;
+  /** Derived from the base seed and the index */
+  seed: string;
 }
 
+/** Download format of GET /api/generators/iban/bulk */
+export type IbanExportFormat = "csv" | "json" | "ndjson";
+
 export interface IbanValidateParams {
   iban: string;
 }
+/** Character range in the electronic format, 0-based, end exclusive */
+export interface IbanSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * - country, checkDigits: the IBAN prefix
+ * - bank ... owner: BBAN segments from the IBAN registry
+ * - bban: the BBAN of a country without known structure
+ */
+export type IbanPartKind =
+  | "country"
+  | "checkDigits"
+  | "bank"
+  | "branch"
+  | "account"
+  | "check"
+  | "type"
+  | "owner"
+  | "bban";
+
+export interface IbanPart extends IbanSpan {
+  kind: IbanPartKind;
+  value: string;
+}
+
+export interface IbanBreakdown {
+  /** Upper case without spaces, e.g. "DE89370400440532013000" */
+  electronic: string;
+  /** Groups of 4, e.g. "DE89 3704 0044 0532 0130 00" */
+  print: string;
+  parts: IbanPart[];
+}
+
 export interface IbanValidationResponse {
   valid: boolean;
   reason?: string;
+  /** Characters that cause the failure, when it has a position */
+  errorSpan?: IbanSpan;
+  /** Bank resolved from the bank directory (valid IBANs only) */
+  bank?: IbanBank;
+  /** Structure of the input (GET /api/validators/iban only) */
+  breakdown?: IbanBreakdown;
+}
+
+/** One row of POST /api/validators/iban/batch */
+export interface IbanBatchResult extends IbanValidationResponse {
+  /** 1-based row in the request: CSV line or array index + 1 */
+  row: number;
+  /** IBAN as sent, trimmed */
+  input: string;
+}
+
+export interface IbanBatchResponse {
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+  };
+  results: IbanBatchResult[];
+}
+
+/** Response for GET /api/validators/{kind} (national identifiers) */
+export interface NationalIdValidationResponse {
+  kind: NationalIdKind;
+  valid: boolean;
+  reason?: string;
+  /** Input without spaces and hyphens */
+  normalized: string;
+  /** Encoded date of birth (valid PESELs only) */
+  birth_date?: string;
+  /** Encoded sex (valid PESELs only) */
+  sex?: Sex;
+}
+
+/** Response for GET /api/validators/card */
+export interface CardValidationResponse {
+  valid: boolean;
+  reason?: string;
+  /** Input without spaces and hyphens */
+  normalized: string;
+  /** Network matched by the issuer range, when known */
+  network?: CardNetwork;
+}
+
+/** Dataset builder (POST /api/generators/dataset) */
+export type DatasetExportFormat = "csv" | "json" | "sql";
+
+/**
+ * Source of a dataset column: a generator kind, an IBAN, or the row's
+ * person (name, birth date, sex), which person-bound kinds also derive from
+ */
+export type DatasetColumnKind = GeneratorKind | "iban" | "person";
+
+export interface DatasetColumnOptions {
+  /** "string": 1-256, "regon": 9 or 14 */
+  length?: number;
+  charset?: StringCharset;
+  network?: CardNetwork;
+  expiry?: CardExpiry;
+}
+
+export interface DatasetColumn {
+  /** Header, JSON key and SQL column name */
+  name: string;
+  kind: DatasetColumnKind;
+  /** Output field of the kind; defaults to its main value */
+  field?: string;
+  options?: DatasetColumnOptions;
+}
+
+export interface DatasetSchema {
+  /** Country of every row: addresses, phones, IBANs and names */
+  country: LocalDataCountry;
+  columns: DatasetColumn[];
+}
+
+export type DatasetValue = string | number | boolean | null;
+export type DatasetRow = Record<string, DatasetValue>;
+
+export interface DatasetRequest extends DatasetSchema {
+  /** Number of rows */
+  count: number;
+  seed?: string;
+  format?: DatasetExportFormat;
+  /** Table name for SQL INSERT statements */
+  table?: string;
 }
 
 /** Generic data generator (other kinds) */
@@ -343,12 +694,25 @@ export interface GenericGeneratorParams {
   kind: GeneratorKind;
   country: LocalDataCountry;
   seed?: string | number;
+  /** Used by the "string" kind, and by "regon" (9 or 14) */
+  length?: number;
+  /** Only used by the "string" kind */
+  charset?: StringCharset;
+  /** YYYY-MM-DD, only used by the "pesel" and "svnr" kinds */
+  birthDate?: string;
+  /** Only used by the "pesel" kind */
+  sex?: Sex;
+  /** Only used by the "card" kind (default: random network) */
+  network?: CardNetwork;
+  /** Only used by the "card" kind (default "valid") */
+  expiry?: CardExpiry;
 }
 
 /** Shape is intentionally loose to accommodate multiple generator outputs */
 export interface GenericGeneratorResponse {
   kind: GeneratorKind;
   country: LocalDataCountry;
+  seed?: string;
   data: Json;
 }
 
@@ -369,9 +733,21 @@ export interface AITextProcessResponse {
   usage: { prompt: number; completion: number };
 }
 
+/**
+ * POST /ai/stream events (text/event-stream). "delta" carries the next piece
+ * of the proposal; the stream ends with exactly one "done" or "error".
+ */
+export type AITextStreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "done"; result: AITextProcessResponse }
+  | { type: "error"; error: { code: string; message: string } };
+
 /** GET /ai/limits */
 export interface AILimitsDTO {
   remaining: number;
+  limit: number;
+  /** ISO timestamp when the daily allowance resets */
+  reset_at: string;
 }
 
 /* -------------------------------------------------------
@@ -389,6 +765,7 @@ export interface OpenRouterConfig {
   messageConfig?: MessageConfig;
   responseConfig?: ResponseConfig;
   supabaseClient?: unknown; // Supabase client for database integration
+  fetch?: typeof fetch; // Defaults to global fetch; MockOpenRouterProvider.fetch for offline use
 }
 
 export interface ModelParams {
@@ -471,6 +848,15 @@ export interface OpenRouterUsage {
   total_tokens: number;
 }
 
+/** One `data:` payload of a streamed chat completion */
+export interface OpenRouterStreamChunk {
+  choices?: { delta?: { content?: string | null }; finish_reason?: string }[];
+  model?: string;
+  /** Sent with the last chunk when usage accounting is requested */
+  usage?: OpenRouterUsage;
+  error?: { code?: string | number; message?: string };
+}
+
 export interface OpenRouterResponse {
   choices: OpenRouterChoice[];
   model: string;
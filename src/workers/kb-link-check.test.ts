@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createClient } from "@supabase/supabase-js";
+import { runKbLinkCheck } from "../lib/services/kb.service";
+import worker, { runScheduledKbLinkCheck } from "./kb-link-check";
+
+vi.mock("@supabase/supabase-js", () => ({
+  createClient: vi.fn(() => ({ from: vi.fn() })),
+}));
+vi.mock("../lib/services/kb.service", () => ({
+  runKbLinkCheck: vi.fn(),
+}));
+
+const env = {
+  SUPABASE_URL: "https://project.supabase.co",
+  SUPABASE_SERVICE_KEY: "service-key",
+};
+
+const report = { checked: 0, broken: 0, moved: 0, results: [] };
+
+describe("kb-link-check worker", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(runKbLinkCheck).mockResolvedValue(report);
+  });
+
+  it("should check a batch of entries with the service role client", async () => {
+    await expect(runScheduledKbLinkCheck(env)).resolves.toBe(report);
+
+    expect(createClient).toHaveBeenCalledWith(
+      env.SUPABASE_URL,
+      env.SUPABASE_SERVICE_KEY,
+      { auth: { persistSession: false, autoRefreshToken: false } },
+    );
+    expect(runKbLinkCheck).toHaveBeenCalledWith(expect.anything(), {
+      limit: 15,
+    });
+  });
+
+  it("should take the batch size from KB_LINK_CHECK_BATCH", async () => {
+    await runScheduledKbLinkCheck({ ...env, KB_LINK_CHECK_BATCH: "40" });
+
+    expect(runKbLinkCheck).toHaveBeenCalledWith(expect.anything(), {
+      limit: 40,
+    });
+  });
+
+  it("should fail without Supabase credentials", async () => {
+    await expect(
+      runScheduledKbLinkCheck({ ...env, SUPABASE_SERVICE_KEY: "" }),
+    ).rejects.toThrow("Missing Supabase credentials");
+    expect(runKbLinkCheck).not.toHaveBeenCalled();
+  });
+
+  it("should keep the scheduled event alive until the check finishes", async () => {
+    const ctx = { waitUntil: vi.fn(), passThroughOnException: vi.fn() };
+
+    await worker.scheduled(
+      {} as ScheduledController,
+      env,
+      ctx as unknown as ExecutionContext,
+    );
+
+    expect(ctx.waitUntil).toHaveBeenCalledWith(expect.any(Promise));
+    await ctx.waitUntil.mock.calls[0][0];
+    expect(runKbLinkCheck).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,44 @@
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "../db/database.types";
+import { runKbLinkCheck } from "../lib/services/kb.service";
+
+/**
+ * Scheduled worker: checks the links of the KB entries checked least
+ * recently, like POST /api/kb/link-check does on demand.
+ *
+ * Deployed as its own Cloudflare Worker (wrangler.link-check.toml, daily
+ * cron trigger) next to the Pages app. It uses the service role key, so
+ * every entry is checked regardless of owner.
+ */
+
+export interface KbLinkCheckEnv {
+  SUPABASE_URL: string;
+  SUPABASE_SERVICE_KEY: string;
+  /** Entries per run (default 15, within the free plan's subrequest limit) */
+  KB_LINK_CHECK_BATCH?: string;
+}
+
+const DEFAULT_BATCH = 15;
+
+export async function runScheduledKbLinkCheck(env: KbLinkCheckEnv) {
+  if (!env.SUPABASE_URL || !env.SUPABASE_SERVICE_KEY) {
+    throw new Error(
+      "Missing Supabase credentials (SUPABASE_URL, SUPABASE_SERVICE_KEY)",
+    );
+  }
+
+  const supabase = createClient<Database>(
+    env.SUPABASE_URL,
+    env.SUPABASE_SERVICE_KEY,
+    { auth: { persistSession: false, autoRefreshToken: false } },
+  );
+  const limit = parseInt(env.KB_LINK_CHECK_BATCH || "", 10) || DEFAULT_BATCH;
+
+  return runKbLinkCheck(supabase, { limit });
+}
+
+export default {
+  async scheduled(_controller, env, ctx) {
+    ctx.waitUntil(runScheduledKbLinkCheck(env));
+  },
+} satisfies ExportedHandler<KbLinkCheckEnv>;
@@ -0,0 +1,22 @@
+-- migration: allow 'idle' status for charters
+-- description: charters are now created server-side before a session starts.
+--   a freshly created charter is 'idle' until POST /api/charters/{id}/start
+--   switches it to 'active'; the one-active-charter index is unaffected.
+-- affected: public.charters (status check, status_ended_at_check)
+
+alter table public.charters
+  drop constraint if exists charters_status_check;
+
+alter table public.charters
+  add constraint charters_status_check
+  check (status in ('idle', 'active', 'closed'));
+
+alter table public.charters
+  drop constraint if exists status_ended_at_check;
+
+-- idle and active charters have no end time; closed ones must end after they started
+alter table public.charters
+  add constraint status_ended_at_check check (
+    (status in ('idle', 'active') and ended_at is null) or
+    (status = 'closed' and ended_at is not null and ended_at >= started_at)
+  );
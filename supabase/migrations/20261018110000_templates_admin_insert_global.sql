@@ -0,0 +1,14 @@
+-- migration: let admins create global templates
+-- description: the rls rewrite (20251022095644) only kept an insert policy for
+--   user-owned templates, so POST /api/templates with scope 'global' was
+--   rejected even for admins. global templates have no owner
+--   (global_template_no_owner), hence the separate policy.
+-- affected: public.templates (insert policy)
+
+create policy "Admins can create global templates"
+  on public.templates
+  for insert
+  with check (scope = 'global' and owner_id is null and exists (
+    select 1 from public.profiles
+    where id = auth.uid() and role = 'admin'
+  ));
@@ -0,0 +1,25 @@
+-- migration: token totals in ai_daily_usage
+-- description: can_invoke_ai counts calls up front, before the provider
+--   answers; streamed completions only report token usage when the stream
+--   ends. record_ai_tokens adds those tokens to the same daily row, so
+--   ai_daily_usage holds both the call count and the tokens spent.
+--   record_ai_tokens takes any user id, so only the service role (used by
+--   the server-side OpenRouter service) may execute it.
+-- affected: public.ai_daily_usage (tokens column), public.record_ai_tokens
+
+alter table public.ai_daily_usage
+  add column if not exists tokens int not null default 0;
+
+create or replace function public.record_ai_tokens(uid uuid, tokens int)
+returns void as $$
+begin
+  insert into public.ai_daily_usage (user_id, day, used, tokens)
+  values (uid, current_date, 0, greatest(tokens, 0))
+  on conflict (user_id, day)
+  do update set tokens = ai_daily_usage.tokens + greatest(excluded.tokens, 0);
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke execute on function public.record_ai_tokens(uuid, int)
+  from public, anon, authenticated;
+grant execute on function public.record_ai_tokens(uuid, int) to service_role;
@@ -0,0 +1,129 @@
+-- migration: ranked KB search and tag facets
+-- description: GET /api/kb/entries?q= ranks matches of search_vector (title
+--   and note bodies) with ts_rank and returns ts_headline snippets, sorted
+--   by relevance or date/title with keyset pagination on (sort key, id).
+--   kb_tag_facets counts the tags of the entries a search matches.
+--   Both functions run as the caller, so the kb_entries and kb_notes RLS
+--   policies still decide which rows are visible; like the list endpoint,
+--   they narrow that to own + public entries unless owner_filter is given.
+-- affected: public.search_kb_entries, public.kb_tag_facets
+
+create or replace function public.search_kb_entries(
+  search_query text,
+  tag_filter text[] default null,
+  match_all_tags boolean default false,
+  owner_filter text default null,
+  sort_by text default 'relevance',
+  after_value text default null,
+  after_id uuid default null,
+  page_size int default 20
+)
+returns table (
+  id uuid,
+  user_id uuid,
+  title text,
+  url_original text,
+  url_canonical text,
+  tags text[],
+  is_public boolean,
+  created_at timestamptz,
+  updated_at timestamptz,
+  rank real,
+  snippet text
+) as $$
+#variable_conflict use_column
+declare
+  after_rank real;
+  after_ts timestamptz;
+begin
+  -- cast the cursor once, for the sort order it belongs to
+  if after_id is not null then
+    if sort_by = 'relevance' then
+      after_rank := after_value::real;
+    elsif sort_by in ('updated', 'created') then
+      after_ts := after_value::timestamptz;
+    end if;
+  end if;
+
+  return query
+  with search as (
+    select websearch_to_tsquery('english', search_query) as q
+  ),
+  matches as (
+    select e.*, ts_rank(e.search_vector, search.q) as rank, search.q
+    from public.kb_entries e, search
+    where e.search_vector @@ search.q
+      and case owner_filter
+        when 'me' then e.user_id = auth.uid()
+        when 'public' then e.is_public
+        else e.user_id = auth.uid() or e.is_public
+      end
+      and (
+        tag_filter is null
+        or cardinality(tag_filter) = 0
+        or case when match_all_tags
+          then e.tags @> tag_filter
+          else e.tags && tag_filter
+        end
+      )
+  )
+  select
+    m.id,
+    m.user_id,
+    m.title,
+    m.url_original,
+    m.url_canonical,
+    m.tags,
+    m.is_public,
+    m.created_at,
+    m.updated_at,
+    m.rank,
+    ts_headline(
+      'english',
+      m.title || coalesce(' … ' || (
+        select string_agg(n.body, ' ')
+        from public.kb_notes n
+        where n.entry_id = m.id
+      ), ''),
+      m.q,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+    ) as snippet
+  from matches m
+  where after_id is null
+    or case sort_by
+      when 'relevance' then (m.rank, m.id) < (after_rank, after_id)
+      when 'updated' then (m.updated_at, m.id) < (after_ts, after_id)
+      when 'created' then (m.created_at, m.id) < (after_ts, after_id)
+      else (m.title, m.id) > (after_value, after_id)
+    end
+  order by
+    case when sort_by = 'relevance' then m.rank end desc,
+    case when sort_by = 'updated' then m.updated_at end desc,
+    case when sort_by = 'created' then m.created_at end desc,
+    case when sort_by = 'title' then m.title end asc,
+    case when sort_by = 'title' then m.id end asc,
+    case when sort_by <> 'title' then m.id end desc
+  limit page_size;
+end;
+$$ language plpgsql stable;
+
+create or replace function public.kb_tag_facets(
+  search_query text default null,
+  owner_filter text default null
+)
+returns table (tag text, count bigint) as $$
+  select t.tag, count(*) as count
+  from public.kb_entries e, unnest(e.tags) as t(tag)
+  where (
+      search_query is null
+      or e.search_vector @@ websearch_to_tsquery('english', search_query)
+    )
+    and case owner_filter
+      when 'me' then e.user_id = auth.uid()
+      when 'public' then e.is_public
+      else e.user_id = auth.uid() or e.is_public
+    end
+  group by t.tag
+  order by count(*) desc, t.tag asc
+  limit 50;
+$$ language sql stable;
@@ -0,0 +1,73 @@
+-- migration: ownership rules for kb notes
+-- description: /api/kb/entries/{id}/notes lets users write notes. the rls
+--   rewrite (20251022095644) only checked that a note belongs to its author,
+--   so anyone could attach notes to someone else's public entry. writes now
+--   follow the kb_entries rules (docs/kb-admin-restrictions.md): users manage
+--   their own notes on their own private entries, admins manage all notes.
+--   also fixes update_kb_entry_search_vector, which read new.entry_id and so
+--   left deleted note bodies in the entry's search vector.
+-- affected: public.kb_notes (insert/update/delete policies),
+--   public.update_kb_entry_search_vector
+
+drop policy if exists "Users can create notes for their own KB entries" on public.kb_notes;
+drop policy if exists "Users can update notes for their own KB entries" on public.kb_notes;
+drop policy if exists "Users can delete notes for their own KB entries" on public.kb_notes;
+
+-- true when the entry belongs to the caller and is private
+create or replace function public.is_own_private_kb_entry(entry uuid)
+returns boolean as $$
+  select exists (
+    select 1 from public.kb_entries
+    where id = entry and user_id = auth.uid() and is_public = false
+  );
+$$ language sql stable;
+
+create policy "Authors and admins can create kb notes"
+  on public.kb_notes
+  for insert
+  to authenticated
+  with check (
+    auth.uid() = user_id
+    and (is_admin(auth.uid()) or is_own_private_kb_entry(entry_id))
+  );
+
+create policy "Authors and admins can update kb notes"
+  on public.kb_notes
+  for update
+  to authenticated
+  using (
+    is_admin(auth.uid())
+    or (auth.uid() = user_id and is_own_private_kb_entry(entry_id))
+  )
+  with check (
+    is_admin(auth.uid())
+    or (auth.uid() = user_id and is_own_private_kb_entry(entry_id))
+  );
+
+create policy "Authors and admins can delete kb notes"
+  on public.kb_notes
+  for delete
+  to authenticated
+  using (
+    is_admin(auth.uid())
+    or (auth.uid() = user_id and is_own_private_kb_entry(entry_id))
+  );
+
+-- rebuild the entry's search vector from its title and remaining notes;
+-- old.entry_id is the only entry id available on delete
+create or replace function public.update_kb_entry_search_vector()
+returns trigger as $$
+declare
+  target uuid := coalesce(new.entry_id, old.entry_id);
+begin
+  update public.kb_entries
+  set search_vector = to_tsvector('english', title) || (
+    select coalesce(to_tsvector('english', string_agg(body, ' ')), to_tsvector(''))
+    from public.kb_notes
+    where entry_id = target
+  )
+  where id = target;
+
+  return null;
+end;
+$$ language plpgsql;
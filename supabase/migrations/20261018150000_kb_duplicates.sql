@@ -0,0 +1,109 @@
+-- migration: duplicate detection and merge for kb entries
+-- description: kb_entries_canonical_url_idx only keeps one user from saving
+--   a link twice; nothing flags the same link saved by someone else, or the
+--   same page under a slightly different URL. find_kb_duplicates reports
+--   entries with the same canonical URL or a near-identical title (pg_trgm
+--   similarity, served by kb_entries_title_trgm_idx); POST /api/kb/entries
+--   calls it before saving. it runs as the caller, so RLS limits the result
+--   to entries the caller can read.
+--   merge_kb_entries lets admins fold duplicates into one entry: tags are
+--   combined, notes move to the kept entry and the other entries are
+--   deleted, in one transaction.
+-- affected: public.find_kb_duplicates, public.merge_kb_entries
+
+create or replace function public.find_kb_duplicates(
+  url_input text,
+  title_input text,
+  exclude_id uuid default null,
+  min_similarity real default 0.6,
+  max_results int default 5
+)
+returns table (
+  id uuid,
+  user_id uuid,
+  title text,
+  url_original text,
+  is_public boolean,
+  match text,
+  similarity real
+) as $$
+  select *
+  from (
+    select
+      e.id,
+      e.user_id,
+      e.title,
+      e.url_original,
+      e.is_public,
+      case
+        when e.url_canonical = canonicalize_url(url_input) then 'url'
+        else 'title'
+      end as match,
+      similarity(e.title, title_input) as similarity
+    from public.kb_entries e
+    where (exclude_id is null or e.id <> exclude_id)
+      and (
+        e.url_canonical = canonicalize_url(url_input)
+        -- % uses the trigram index (default threshold 0.3); the explicit
+        -- bound keeps only near-identical titles
+        or (
+          e.title % title_input
+          and similarity(e.title, title_input) >= min_similarity
+        )
+      )
+  ) d
+  order by d.match = 'url' desc, d.similarity desc, d.id
+  limit max_results;
+$$ language sql stable;
+
+create or replace function public.merge_kb_entries(
+  target_id uuid,
+  source_ids uuid[]
+)
+returns public.kb_entries as $$
+declare
+  target public.kb_entries;
+  source_count int;
+begin
+  if not is_admin(auth.uid()) then
+    raise exception 'Only admins can merge KB entries' using errcode = '42501';
+  end if;
+
+  if target_id = any(source_ids) then
+    raise exception 'An entry cannot be merged into itself' using errcode = '22023';
+  end if;
+
+  select * into target from public.kb_entries where id = target_id for update;
+  if not found then
+    raise exception 'Entry not found' using errcode = 'P0002';
+  end if;
+
+  select count(*) into source_count
+  from public.kb_entries
+  where id = any(source_ids);
+  if source_count <> cardinality(array(select distinct unnest(source_ids))) then
+    raise exception 'Entry not found' using errcode = 'P0002';
+  end if;
+
+  -- kept entry's tags first, then new tags of the merged entries
+  update public.kb_entries
+  set tags = target.tags || coalesce(array(
+    select distinct t.tag
+    from public.kb_entries s, unnest(s.tags) as t(tag)
+    where s.id = any(source_ids)
+      and not t.tag = any(target.tags)
+    order by t.tag
+  ), '{}')
+  where id = target_id;
+
+  -- the notes trigger rebuilds the kept entry's search vector
+  update public.kb_notes
+  set entry_id = target_id
+  where entry_id = any(source_ids);
+
+  delete from public.kb_entries where id = any(source_ids);
+
+  select * into target from public.kb_entries where id = target_id;
+  return target;
+end;
+$$ language plpgsql;
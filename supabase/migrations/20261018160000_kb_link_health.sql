@@ -0,0 +1,163 @@
+-- migration: link health of kb entries
+-- description: saved links rot without anyone noticing. a link checker
+--   (POST /api/kb/link-check for admins, and the scheduled worker in
+--   src/workers/kb-link-check.ts) requests each entry's URL and records the
+--   outcome on the row: final HTTP status, where redirects led, whether all
+--   of them were permanent (301/308), or why no response came back.
+--   recording a check is not an edit, so it leaves updated_at alone;
+--   changing url_original clears the old link's results.
+--   search_kb_entries is recreated to return the new columns.
+-- affected: public.kb_entries, public.set_kb_entry_timestamps,
+--   public.search_kb_entries
+
+alter table public.kb_entries
+  add column link_status smallint null,
+  add column link_redirect_url text null,
+  add column link_redirect_permanent boolean not null default false,
+  add column link_error text null
+    check (link_error in ('timeout', 'network_error', 'too_many_redirects', 'invalid_url', 'private_host')),
+  add column link_checked_at timestamptz null;
+
+-- the checker picks never-checked entries first, then the oldest checks
+create index if not exists kb_entries_link_checked_at_idx
+  on public.kb_entries (link_checked_at nulls first);
+
+create or replace function public.set_kb_entry_timestamps()
+returns trigger as $$
+begin
+  if tg_op = 'UPDATE' then
+    if new.url_original is distinct from old.url_original then
+      new.link_status := null;
+      new.link_redirect_url := null;
+      new.link_redirect_permanent := false;
+      new.link_error := null;
+      new.link_checked_at := null;
+    elsif new.link_checked_at is distinct from old.link_checked_at then
+      return new;
+    end if;
+  end if;
+
+  new.updated_at = now();
+  if tg_op = 'INSERT' then
+    new.created_at = now();
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists set_kb_entries_timestamps on public.kb_entries;
+create trigger set_kb_entries_timestamps
+before insert or update on public.kb_entries
+for each row execute function set_kb_entry_timestamps();
+
+-- the return type changes, so the function has to be dropped first
+drop function if exists public.search_kb_entries(text, text[], boolean, text, text, text, uuid, int);
+
+create or replace function public.search_kb_entries(
+  search_query text,
+  tag_filter text[] default null,
+  match_all_tags boolean default false,
+  owner_filter text default null,
+  sort_by text default 'relevance',
+  after_value text default null,
+  after_id uuid default null,
+  page_size int default 20
+)
+returns table (
+  id uuid,
+  user_id uuid,
+  title text,
+  url_original text,
+  url_canonical text,
+  tags text[],
+  is_public boolean,
+  created_at timestamptz,
+  updated_at timestamptz,
+  link_status smallint,
+  link_redirect_url text,
+  link_redirect_permanent boolean,
+  link_error text,
+  link_checked_at timestamptz,
+  rank real,
+  snippet text
+) as $$
+#variable_conflict use_column
+declare
+  after_rank real;
+  after_ts timestamptz;
+begin
+  -- cast the cursor once, for the sort order it belongs to
+  if after_id is not null then
+    if sort_by = 'relevance' then
+      after_rank := after_value::real;
+    elsif sort_by in ('updated', 'created') then
+      after_ts := after_value::timestamptz;
+    end if;
+  end if;
+
+  return query
+  with search as (
+    select websearch_to_tsquery('english', search_query) as q
+  ),
+  matches as (
+    select e.*, ts_rank(e.search_vector, search.q) as rank, search.q
+    from public.kb_entries e, search
+    where e.search_vector @@ search.q
+      and case owner_filter
+        when 'me' then e.user_id = auth.uid()
+        when 'public' then e.is_public
+        else e.user_id = auth.uid() or e.is_public
+      end
+      and (
+        tag_filter is null
+        or cardinality(tag_filter) = 0
+        or case when match_all_tags
+          then e.tags @> tag_filter
+          else e.tags && tag_filter
+        end
+      )
+  )
+  select
+    m.id,
+    m.user_id,
+    m.title,
+    m.url_original,
+    m.url_canonical,
+    m.tags,
+    m.is_public,
+    m.created_at,
+    m.updated_at,
+    m.link_status,
+    m.link_redirect_url,
+    m.link_redirect_permanent,
+    m.link_error,
+    m.link_checked_at,
+    m.rank,
+    ts_headline(
+      'english',
+      m.title || coalesce(' … ' || (
+        select string_agg(n.body, ' ')
+        from public.kb_notes n
+        where n.entry_id = m.id
+      ), ''),
+      m.q,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+    ) as snippet
+  from matches m
+  where after_id is null
+    or case sort_by
+      when 'relevance' then (m.rank, m.id) < (after_rank, after_id)
+      when 'updated' then (m.updated_at, m.id) < (after_ts, after_id)
+      when 'created' then (m.created_at, m.id) < (after_ts, after_id)
+      else (m.title, m.id) > (after_value, after_id)
+    end
+  order by
+    case when sort_by = 'relevance' then m.rank end desc,
+    case when sort_by = 'updated' then m.updated_at end desc,
+    case when sort_by = 'created' then m.created_at end desc,
+    case when sort_by = 'title' then m.title end asc,
+    case when sort_by = 'title' then m.id end asc,
+    case when sort_by <> 'title' then m.id end desc
+  limit page_size;
+end;
+$$ language plpgsql stable;